@@ -2,21 +2,113 @@
  * RISC-V Assembler
  *
  * Two-pass assembler that converts RISC-V assembly source to machine code.
+ *
+ * With `.option rvc` (or the `compressed` option) instructions that have
+ * an RV32C form are emitted as 16-bit instructions. Only instructions
+ * whose operands are known in pass 1 are compressed, so instructions
+ * that reference labels keep their 32-bit size in both passes.
+ *
+ * assemble() produces a flat image and ignores sections. assembleObject()
+ * produces a relocatable object instead: `.text`, `.data`, `.rodata`,
+ * `.bss` and `.section` switch between sections that each start at 0,
+ * `.globl` exports symbols, and references the object cannot resolve
+ * by itself (to other sections or to undefined symbols) become
+ * relocations for the linker. `la` of such a symbol assembles to an
+ * absolute LUI + ADDI pair rather than AUIPC + ADDI.
+ *
+ * Sources are preprocessed first (macros, conditionals, .include and
+ * .incbin); errors report the line and file they come from.
+ *
+ * Operands and data directives take expressions (see expression.ts).
+ * An expression evaluates to a constant or to an address: a label or `.`
+ * plus a constant. Differences of addresses in one section are
+ * constants. In object mode an address in another section, or of an
+ * undefined symbol, becomes a relocation with an addend. %hi/%lo and
+ * %pcrel_hi/%pcrel_lo give the halves of hand-written lui/auipc pairs.
+ *
+ * With the `listing` option the result also holds a listing of where
+ * each source line landed (see listing.ts).
  */
 
-import { Parser, AST, ASTNode, NodeType, InstructionNode, InstructionType, DirectiveNode, LabelNode } from './parser.js';
+import { LexerError } from './lexer.js';
+import { Parser, ParserError, AST, ASTNode, NodeType, InstructionNode, InstructionType, DirectiveNode, LabelNode } from './parser.js';
 import { Encoder } from './encoder.js';
+import {
+  Expression,
+  ExpressionType,
+  evaluateExpression,
+  expressionSymbols,
+  hiPart,
+  loPart,
+  unknownFactors,
+} from './expression.js';
+import { ObjectFile, ObjectSymbol, RELOCATION, Relocation, RelocationType } from './object.js';
+import { FileResolver, PreprocessedSource, Preprocessor, PreprocessorError } from './preprocessor.js';
+import { EmittedStatement, ListingLine, buildListing } from './listing.js';
 
 export interface AssemblerError {
   message: string;
   line: number;
   column: number;
+  /** Included file the error is in (undefined for the main source) */
+  file?: string;
+}
+
+export interface AssemblerOptions {
+  /** Compress eligible instructions from the start, as if by `.option rvc` */
+  compressed?: boolean;
+  /** Reads files for .include and .incbin (without one they are errors) */
+  resolver?: FileResolver;
+  /** Path of the source, which include paths are relative to */
+  fileName?: string;
+  /** Record the address and bytes of each line for a listing */
+  listing?: boolean;
 }
 
 export interface AssemblerResult {
   bytes: Uint8Array;
   symbols: Map<string, number>;
   errors: AssemblerError[];
+  /**
+   * Section each label was defined in, as its section directives say;
+   * in flat output the sections share one address space
+   */
+  labelSections: Map<string, string>;
+  /** Where each line landed, with the `listing` option */
+  listing?: ListingLine[];
+}
+
+export interface AssemblerObjectResult {
+  object: ObjectFile;
+  errors: AssemblerError[];
+  /** Where each line landed, with the `listing` option */
+  listing?: ListingLine[];
+}
+
+/** A section being assembled in object mode */
+interface SectionState {
+  output: number[];
+  pc: number;
+  align: number;
+  relocations: Relocation[];
+}
+
+/**
+ * Value of an expression: a constant, an address in a section, or (in
+ * object mode) an offset from an undefined symbol
+ */
+interface Term {
+  value: number;
+  /** Section of an address; null for constants and undefined symbols */
+  section: string | null;
+  /** Symbol to relocate against: a label in the section, or the undefined symbol */
+  symbol: string | null;
+}
+
+/** Where `.` is */
+interface Location {
+  pc: number;
+  section: string;
 }
 
 export class Assembler {
@@ -25,35 +117,105 @@ export class Assembler {
   private output: number[] = [];
   private pc: number = 0;
   private errors: AssemblerError[] = [];
+  private options: AssemblerOptions;
+  /** Current `.option rvc` state */
+  private rvc: boolean = false;
+  /** Whether the instruction being emitted may be compressed */
+  private compressing: boolean = false;
+  /** Pass 1 sizing: instruction emitters only advance pc */
+  private sizing: boolean = false;
+  /** Object mode: keep sections apart and record relocations */
+  private relocatable: boolean = false;
+  /** Sections by name (object mode) */
+  private sections: Map<string, SectionState> = new Map();
+  /** Current section (object mode) */
+  private section: string = '.text';
+  /** Section named by the last section directive, also in flat mode */
+  private declaredSection: string = '.text';
+  /** Section each label was declared in */
+  private declaredSections: Map<string, string> = new Map();
+  /** Section of each label (object mode) */
+  private labelSections: Map<string, string> = new Map();
+  /** Names exported with .globl/.global */
+  private globals: Set<string> = new Set();
+  /** LI instructions whose value pass 1 did not know, which take LUI + ADDI */
+  private wideLoads: Set<InstructionNode> = new Set();
+  /** .equ directives that refer to later labels, with where they were */
+  private pendingEquates: Array<{ node: DirectiveNode; location: Location }> = [];
+  /** %pcrel_hi offsets by `section:pc` of their auipc; null when left to the linker */
+  private pcrelOffsets: Map<string, number | null> = new Map();
+  /** What each statement emitted in pass 2, when making a listing */
+  private emitted: EmittedStatement[] | null = null;
 
-  constructor(source: string) {
+  constructor(source: string, options: AssemblerOptions = {}) {
     this.source = source;
+    this.options = options;
   }
 
   assemble(): AssemblerResult {
+    this.relocatable = false;
+    return this.run();
+  }
+
+  /**
+   * Assemble into a relocatable object for the linker
+   */
+  assembleObject(): AssemblerObjectResult {
+    this.relocatable = true;
+    const result = this.run();
+    return {
+      object: this.buildObject(result.symbols),
+      errors: result.errors,
+      ...(result.listing ? { listing: result.listing } : {}),
+    };
+  }
+
+  private run(): AssemblerResult {
     this.symbols = new Map();
-    this.output = [];
-    this.pc = 0;
+    this.labelSections = new Map();
+    this.declaredSections = new Map();
+    this.globals = new Set();
+    this.wideLoads = new Set();
+    this.pendingEquates = [];
+    this.emitted = this.options.listing ? [] : null;
+    this.startSections();
     this.errors = [];
 
+    // Expand macros, conditionals and includes
+    let preprocessed: PreprocessedSource;
+    try {
+      preprocessed = new Preprocessor(this.options.resolver).process(this.source, this.options.fileName);
+    } catch (e: unknown) {
+      if (!(e instanceof PreprocessorError)) {
+        throw e;
+      }
+      this.errors.push({ message: e.message, line: e.line, column: 1, ...(e.file ? { file: e.file } : {}) });
+      return {
+        bytes: new Uint8Array(),
+        symbols: this.symbols,
+        errors: this.errors,
+        labelSections: this.declaredSections,
+      };
+    }
+
     // Parse source
-    const parser = new Parser(this.source);
+    const parser = new Parser(preprocessed.source);
     let ast: AST;
     try {
       ast = parser.parse();
     } catch (e: unknown) {
-      const err = e as Error;
-      const match = err.message.match(/line (\d+)/i);
-      const line = match ? parseInt(match[1]) : 1;
+      // The position goes in the error's fields, not its message
+      const positioned = e instanceof LexerError || e instanceof ParserError ? e : null;
       this.errors.push({
-        message: err.message,
-        line,
-        column: 1,
+        message: (e as Error).message.replace(/ at line \d+, column \d+$/, ''),
+        line: positioned?.line ?? 1,
+        column: positioned?.column ?? 1,
       });
       return {
         bytes: new Uint8Array(),
         symbols: this.symbols,
-        errors: this.errors,
+        errors: this.locateErrors(preprocessed),
+        labelSections: this.declaredSections,
       };
     }
 
@@ -64,24 +226,50 @@ export class Assembler {
       return {
         bytes: new Uint8Array(),
         symbols: this.symbols,
-        errors: this.errors,
+        errors: this.locateErrors(preprocessed),
+        labelSections: this.declaredSections,
       };
     }
 
     // Pass 2: Generate machine code
-    this.pc = 0;
-    this.output = [];
     this.pass2(ast);
 
     return {
       bytes: new Uint8Array(this.output),
       symbols: this.symbols,
-      errors: this.errors,
+      errors: this.locateErrors(preprocessed),
+      labelSections: this.declaredSections,
+      ...(this.emitted ? { listing: buildListing(preprocessed, this.emitted, file => this.readSource(file)) } : {}),
     };
   }
 
+  /**
+   * Text of the source or of an included file, for the listing
+   */
+  private readSource(file: string | undefined): string {
+    if (file === undefined || file === this.options.fileName) {
+      return this.source;
+    }
+    return this.options.resolver?.readText(file) ?? '';
+  }
+
+  /**
+   * Map error lines of the preprocessed source back to the original
+   * files and lines
+   */
+  private locateErrors(preprocessed: PreprocessedSource): AssemblerError[] {
+    return this.errors.map((error) => {
+      const location = preprocessed.locations[error.line - 1];
+      if (!location) {
+        return error;
+      }
+      return { ...error, line: location.line, ...(location.file ? { file: location.file } : {}) };
+    });
+  }
+
   private pass1(ast: AST): void {
-    this.pc = 0;
+    this.startSections();
+    this.rvc = this.options.compressed ?? false;
 
     for (const stmt of ast.statements) {
       switch (stmt.type) {
@@ -96,6 +284,8 @@ export class Assembler {
           break;
       }
     }
+
+    this.resolvePendingEquates();
   }
 
   private pass1Label(node: LabelNode): void {
@@ -108,19 +298,24 @@ export class Assembler {
       return;
     }
     this.symbols.set(node.name, this.pc);
+    this.labelSections.set(node.name, this.section);
+    this.declaredSections.set(node.name, this.declaredSection);
   }
 
   private pass1Directive(node: DirectiveNode): void {
     switch (node.name) {
       case '.ORG':
-        this.pc = node.args[0] as number;
+        this.pc = this.constant(node.args[0], node);
+        break;
+      case '.OPTION':
+        this.setOption(node);
         break;
       case '.EQU':
       case '.SET':
       case '.EQUIV':
-        const name = node.args[0] as string;
-        const value = node.args[1] as number;
-        this.symbols.set(name, value);
+        if (!this.defineEquate(node, this.location(), false)) {
+          this.pendingEquates.push({ node, location: this.location() });
+        }
         break;
       case '.BYTE':
         this.pc += node.args.length;
@@ -140,46 +335,128 @@ export class Assembler {
         break;
       case '.SPACE':
       case '.ZERO':
-        this.pc += node.args[0] as number;
+        this.pc += this.constant(node.args[0], node);
         break;
       case '.ALIGN':
-        const alignment = 1 << (node.args[0] as number);
+        const alignment = 1 << this.constant(node.args[0], node);
         const padding = (alignment - (this.pc % alignment)) % alignment;
         this.pc += padding;
         break;
       case '.GLOBAL':
       case '.GLOBL':
-      case '.LOCAL':
+        for (const arg of node.args) {
+          this.globals.add(String(arg));
+        }
+        break;
       case '.SECTION':
       case '.TEXT':
       case '.DATA':
       case '.BSS':
       case '.RODATA':
-        // Informational only, no size impact for now
+        this.switchSection(node);
+        break;
+      case '.LOCAL':
+        // Symbols are local unless exported
         break;
     }
   }
 
+  /**
+   * Define the symbol of an .equ/.set directive
+   *
+   * @param report Report errors; otherwise fail quietly so that the
+   *   directive can be retried once later labels are known
+   * @returns Whether the symbol was defined
+   */
+  private defineEquate(node: DirectiveNode, location: Location, report: boolean): boolean {
+    const name = node.args[0] as string;
+    let term: Term;
+    try {
+      term = this.term(this.argExpression(node.args[1]), location);
+    } catch (e) {
+      if (report) {
+        this.errors.push({ message: (e as Error).message, line: node.line, column: node.column });
+      }
+      return false;
+    }
+    if (term.section === null && term.symbol !== null) {
+      this.errors.push({ message: `Cannot set '${name}' to undefined symbol '${term.symbol}'`, line: node.line, column: node.column });
+      return true;
+    }
+    this.symbols.set(name, term.value);
+    if (term.section !== null) {
+      this.labelSections.set(name, term.section);
+    }
+    return true;
+  }
+
+  /**
+   * Define the .equ symbols that referred to later labels, in dependency
+   * order, reporting those that still cannot be evaluated
+   */
+  private resolvePendingEquates(): void {
+    let pending = this.pendingEquates;
+    while (pending.length > 0) {
+      const remaining = pending.filter(({ node, location }) => !this.defineEquate(node, location, false));
+      if (remaining.length === pending.length) {
+        for (const { node, location } of remaining) {
+          this.defineEquate(node, location, true);
+        }
+        break;
+      }
+      pending = remaining;
+    }
+    this.pendingEquates = [];
+  }
+
   private pass1Instruction(node: InstructionNode): void {
+    if (this.rvc && !node.label && !node.expression) {
+      // Operands are known, so size the instruction by encoding it
+      this.sizing = true;
+      this.pass2Instruction(node);
+      this.sizing = false;
+      return;
+    }
+
     // Most instructions are 4 bytes
     // Pseudo-instructions may expand to multiple instructions
     const size = this.getInstructionSize(node);
     this.pc += size;
   }
 
+  /**
+   * Apply an `.option` directive (rvc/norvc toggle compression)
+   */
+  private setOption(node: DirectiveNode): void {
+    const option = String(node.args[0] ?? '').toLowerCase();
+    if (option === 'rvc') {
+      this.rvc = true;
+    } else if (option === 'norvc') {
+      this.rvc = false;
+    } else {
+      this.errors.push({
+        message: `Unknown option '${option}'`,
+        line: node.line,
+        column: node.column,
+      });
+    }
+  }
+
   private getInstructionSize(node: InstructionNode): number {
     switch (node.mnemonic) {
-      case 'LI':
+      case 'LI': {
         // LI with small immediate (fits in 12 bits) -> 1 instruction
         // LI with large immediate -> 2 instructions (LUI + ADDI)
-        if (node.imm !== undefined) {
-          if (node.imm >= -2048 && node.imm < 2048) {
-            return 4;
-          } else {
-            return 8;
-          }
+        // LI of an address, or of a symbol defined later, always takes 2
+        const value = node.imm ?? this.knownConstant(node);
+        if (value !== null && value >= -2048 && value < 2048) {
+          return 4;
         }
-        return 4;
+        if (node.imm === undefined) {
+          this.wideLoads.add(node);
+        }
+        return 8;
+      }
       case 'LA':
         // LA expands to AUIPC + ADDI
         return 8;
@@ -193,9 +470,13 @@ export class Assembler {
   }
 
   private pass2(ast: AST): void {
-    this.pc = 0;
+    this.startSections();
+    this.rvc = this.options.compressed ?? false;
+    this.pcrelOffsets = new Map();
 
     for (const stmt of ast.statements) {
+      const section = this.section;
+      const start = this.pc;
       switch (stmt.type) {
         case NodeType.LABEL:
           // Labels don't emit bytes
@@ -207,45 +488,58 @@ export class Assembler {
           this.pass2Instruction(stmt);
           break;
       }
+      if (this.emitted && this.section === section && this.pc > start) {
+        this.emitted.push({
+          line: stmt.line,
+          address: start,
+          bytes: Uint8Array.from(this.output.slice(start, this.pc)),
+          ...(stmt.type === NodeType.INSTRUCTION ? { mnemonic: stmt.mnemonic } : {}),
+        });
+      }
     }
   }
 
   private pass2Directive(node: DirectiveNode): void {
     switch (node.name) {
       case '.ORG':
-        const targetPc = node.args[0] as number;
+        const targetPc = this.constant(node.args[0], node);
         // Pad output to reach target address
         while (this.output.length < targetPc) {
           this.output.push(0);
         }
         this.pc = targetPc;
         break;
+      case '.OPTION':
+        this.setOption(node);
+        break;
       case '.EQU':
       case '.SET':
       case '.EQUIV':
       case '.GLOBAL':
       case '.GLOBL':
       case '.LOCAL':
+        // No output
+        break;
       case '.SECTION':
       case '.TEXT':
       case '.DATA':
       case '.BSS':
       case '.RODATA':
-        // No output
+        this.switchSection(node);
         break;
       case '.BYTE':
         for (const arg of node.args) {
-          this.emit8(arg as number);
+          this.emit8(this.dataValue(arg, node, null));
         }
         break;
       case '.HALF':
         for (const arg of node.args) {
-          this.emit16(arg as number);
+          this.emit16(this.dataValue(arg, node, null));
         }
         break;
       case '.WORD':
         for (const arg of node.args) {
-          this.emit32(arg as number);
+          this.emit32(this.dataValue(arg, node, RELOCATION.ABS32));
         }
         break;
       case '.ASCII':
@@ -262,53 +556,58 @@ export class Assembler {
         break;
       case '.SPACE':
       case '.ZERO':
-        for (let i = 0; i < (node.args[0] as number); i++) {
+        const size = this.constant(node.args[0], node);
+        for (let i = 0; i < size; i++) {
           this.emit8(0);
         }
         break;
       case '.ALIGN':
-        const alignment = 1 << (node.args[0] as number);
+        const alignment = 1 << this.constant(node.args[0], node);
         while (this.pc % alignment !== 0) {
           this.emit8(0);
         }
+        this.alignSection(alignment);
         break;
     }
   }
 
   private pass2Instruction(node: InstructionNode): void {
+    this.compressing = this.rvc && !node.label && !node.expression;
+
     // Handle pseudo-instructions first
     if (this.emitPseudoInstruction(node)) {
       return;
     }
 
-    // Resolve label if present
+    // Resolve label or expression if present
     let imm = node.imm ?? 0;
-    if (node.label) {
-      const labelValue = this.symbols.get(node.label);
-      if (labelValue === undefined) {
-        this.errors.push({
-          message: `Undefined label '${node.label}'`,
-          line: node.line,
-          column: node.column,
-        });
+    if (node.label || node.expression) {
+      // For branches and jumps, calculate PC-relative offset
+      // For I-type ALU instructions (ADDI, etc.), use the direct symbol value (e.g., .equ constants)
+      const labelValue = node.instructionType === InstructionType.B
+        ? this.resolveLabel(node, true, RELOCATION.BRANCH)
+        : node.instructionType === InstructionType.J
+          ? this.resolveLabel(node, true, RELOCATION.JAL)
+          : node.instructionType === InstructionType.U
+            ? this.resolveLabel(node, false, null)
+            : this.resolveLabel(node, false, node.instructionType === InstructionType.S ? RELOCATION.LO12_S : RELOCATION.LO12_I);
+      if (labelValue === null) {
         this.emit32(0); // Emit placeholder
         return;
       }
-      // For branches and jumps, calculate PC-relative offset
-      // For I-type ALU instructions (ADDI, etc.), use the direct symbol value
-      if (node.instructionType === InstructionType.B || node.instructionType === InstructionType.J) {
-        imm = labelValue - this.pc;
-      } else {
-        // For ALU instructions, use the symbol value directly (e.g., .equ constants)
-        imm = labelValue;
-      }
+      imm = labelValue;
     }
 
     // Encode and emit instruction
     let encoded: number;
     switch (node.instructionType) {
       case InstructionType.R:
-        encoded = Encoder.encodeR(node.mnemonic, node.rd!, node.rs1!, node.rs2!);
+        encoded = node.rm !== undefined
+          ? Encoder.encodeFloat(node.mnemonic, node.rd!, node.rs1!, node.rs2!, node.rm)
+          : Encoder.encodeR(node.mnemonic, node.rd!, node.rs1!, node.rs2!);
+        break;
+      case InstructionType.R4:
+        encoded = Encoder.encodeR4(node.mnemonic, node.rd!, node.rs1!, node.rs2!, node.rs3!, node.rm);
         break;
       case InstructionType.I:
         encoded = Encoder.encodeI(node.mnemonic, node.rd ?? 0, node.rs1 ?? 0, imm);
@@ -329,145 +628,145 @@ export class Assembler {
         encoded = 0;
     }
 
-    this.emit32(encoded);
+    this.emitInstruction(encoded);
   }
 
   private emitPseudoInstruction(node: InstructionNode): boolean {
     switch (node.mnemonic) {
       case 'NOP':
         // ADDI x0, x0, 0
-        this.emit32(Encoder.encodeI('ADDI', 0, 0, 0));
+        this.emitInstruction(Encoder.encodeI('ADDI', 0, 0, 0));
         return true;
 
       case 'LI': {
         const rd = node.rd!;
-        const imm = node.imm!;
+        let imm = node.imm;
+        if (imm === undefined) {
+          if (this.wideLoads.has(node)) {
+            this.emitAbsolute(node, rd);
+            return true;
+          }
+          // A constant pass 1 already knew
+          const value = this.resolveLabel(node, false, null);
+          if (value === null) {
+            this.emit32(0);
+            return true;
+          }
+          imm = value;
+        }
         if (imm >= -2048 && imm < 2048) {
           // Small immediate: ADDI rd, x0, imm
-          this.emit32(Encoder.encodeI('ADDI', rd, 0, imm));
+          this.emitInstruction(Encoder.encodeI('ADDI', rd, 0, imm));
         } else {
           // Large immediate: LUI + ADDI
           const upper = ((imm + 0x800) >> 12) & 0xfffff;
           const lower = imm - (upper << 12);
-          this.emit32(Encoder.encodeU('LUI', rd, upper));
-          this.emit32(Encoder.encodeI('ADDI', rd, rd, lower));
+          this.emitInstruction(Encoder.encodeU('LUI', rd, upper));
+          this.emitInstruction(Encoder.encodeI('ADDI', rd, rd, lower));
         }
         return true;
       }
 
       case 'LA': {
         const rd = node.rd!;
-        const labelAddr = this.symbols.get(node.label!);
-        if (labelAddr === undefined) {
-          this.errors.push({
-            message: `Undefined label '${node.label}'`,
-            line: node.line,
-            column: node.column,
-          });
+        if (node.expression && this.emitAbsolute(node, rd)) {
+          return true;
+        }
+        if (node.label && this.needsRelocation(node.label, true)) {
+          // LUI + ADDI for an absolute address filled in by the linker
+          this.addRelocation(node.label!, RELOCATION.HI20);
+          this.emitInstruction(Encoder.encodeU('LUI', rd, 0));
+          this.addRelocation(node.label!, RELOCATION.LO12_I);
+          this.emitInstruction(Encoder.encodeI('ADDI', rd, rd, 0));
+          return true;
+        }
+        const offset = this.resolveLabel(node, true, RELOCATION.HI20);
+        if (offset === null) {
           this.emit32(0);
           this.emit32(0);
           return true;
         }
         // AUIPC + ADDI for PC-relative address
-        const offset = labelAddr - this.pc;
         const upper = ((offset + 0x800) >> 12) & 0xfffff;
         const lower = offset - (upper << 12);
-        this.emit32(Encoder.encodeU('AUIPC', rd, upper));
-        this.emit32(Encoder.encodeI('ADDI', rd, rd, lower));
+        this.emitInstruction(Encoder.encodeU('AUIPC', rd, upper));
+        this.emitInstruction(Encoder.encodeI('ADDI', rd, rd, lower));
         return true;
       }
 
       case 'MV':
         // ADDI rd, rs1, 0
-        this.emit32(Encoder.encodeI('ADDI', node.rd!, node.rs1!, 0));
+        this.emitInstruction(Encoder.encodeI('ADDI', node.rd!, node.rs1!, 0));
         return true;
 
       case 'NOT':
         // XORI rd, rs1, -1
-        this.emit32(Encoder.encodeI('XORI', node.rd!, node.rs1!, -1));
+        this.emitInstruction(Encoder.encodeI('XORI', node.rd!, node.rs1!, -1));
         return true;
 
       case 'NEG':
         // SUB rd, x0, rs1
-        this.emit32(Encoder.encodeR('SUB', node.rd!, 0, node.rs1!));
+        this.emitInstruction(Encoder.encodeR('SUB', node.rd!, 0, node.rs1!));
         return true;
 
       case 'SEQZ':
         // SLTIU rd, rs1, 1
-        this.emit32(Encoder.encodeI('SLTIU', node.rd!, node.rs1!, 1));
+        this.emitInstruction(Encoder.encodeI('SLTIU', node.rd!, node.rs1!, 1));
         return true;
 
       case 'SNEZ':
         // SLTU rd, x0, rs1
-        this.emit32(Encoder.encodeR('SLTU', node.rd!, 0, node.rs1!));
+        this.emitInstruction(Encoder.encodeR('SLTU', node.rd!, 0, node.rs1!));
         return true;
 
       case 'J': {
         // JAL x0, offset
-        const labelAddr = this.symbols.get(node.label!);
-        if (labelAddr === undefined) {
-          this.errors.push({
-            message: `Undefined label '${node.label}'`,
-            line: node.line,
-            column: node.column,
-          });
+        const offset = this.resolveLabel(node, true, RELOCATION.JAL);
+        if (offset === null) {
           this.emit32(0);
           return true;
         }
-        const offset = labelAddr - this.pc;
-        this.emit32(Encoder.encodeJ('JAL', 0, offset));
+        this.emitInstruction(Encoder.encodeJ('JAL', 0, offset));
         return true;
       }
 
       case 'JR':
         // JALR x0, 0(rs1)
-        this.emit32(Encoder.encodeI('JALR', 0, node.rs1!, 0));
+        this.emitInstruction(Encoder.encodeI('JALR', 0, node.rs1!, 0));
         return true;
 
       case 'RET':
         // JALR x0, 0(ra)
-        this.emit32(Encoder.encodeI('JALR', 0, 1, 0)); // x1 = ra
+        this.emitInstruction(Encoder.encodeI('JALR', 0, 1, 0)); // x1 = ra
         return true;
 
       case 'CALL': {
         // AUIPC ra, upper; JALR ra, lower(ra)
-        const labelAddr = this.symbols.get(node.label!);
-        if (labelAddr === undefined) {
-          this.errors.push({
-            message: `Undefined label '${node.label}'`,
-            line: node.line,
-            column: node.column,
-          });
+        const offset = this.resolveLabel(node, true, RELOCATION.CALL);
+        if (offset === null) {
           this.emit32(0);
           this.emit32(0);
           return true;
         }
-        const offset = labelAddr - this.pc;
         const upper = ((offset + 0x800) >> 12) & 0xfffff;
         const lower = offset - (upper << 12);
-        this.emit32(Encoder.encodeU('AUIPC', 1, upper)); // ra = x1
-        this.emit32(Encoder.encodeI('JALR', 1, 1, lower));
+        this.emitInstruction(Encoder.encodeU('AUIPC', 1, upper)); // ra = x1
+        this.emitInstruction(Encoder.encodeI('JALR', 1, 1, lower));
         return true;
       }
 
       case 'TAIL': {
         // AUIPC t1, upper; JALR x0, lower(t1)
-        const labelAddr = this.symbols.get(node.label!);
-        if (labelAddr === undefined) {
-          this.errors.push({
-            message: `Undefined label '${node.label}'`,
-            line: node.line,
-            column: node.column,
-          });
+        const offset = this.resolveLabel(node, true, RELOCATION.CALL);
+        if (offset === null) {
           this.emit32(0);
           this.emit32(0);
           return true;
         }
-        const offset = labelAddr - this.pc;
         const upper = ((offset + 0x800) >> 12) & 0xfffff;
         const lower = offset - (upper << 12);
-        this.emit32(Encoder.encodeU('AUIPC', 6, upper)); // t1 = x6
-        this.emit32(Encoder.encodeI('JALR', 0, 6, lower));
+        this.emitInstruction(Encoder.encodeU('AUIPC', 6, upper)); // t1 = x6
+        this.emitInstruction(Encoder.encodeI('JALR', 0, 6, lower));
         return true;
       }
 
@@ -475,19 +774,14 @@ export class Assembler {
         // BEQ rs1, x0, offset
         let offset = node.imm ?? 0;
         if (node.label) {
-          const labelAddr = this.symbols.get(node.label);
-          if (labelAddr === undefined) {
-            this.errors.push({
-              message: `Undefined label '${node.label}'`,
-              line: node.line,
-              column: node.column,
-            });
+          const labelOffset = this.resolveLabel(node, true, RELOCATION.BRANCH);
+          if (labelOffset === null) {
             this.emit32(0);
             return true;
           }
-          offset = labelAddr - this.pc;
+          offset = labelOffset;
         }
-        this.emit32(Encoder.encodeB('BEQ', node.rs1!, 0, offset));
+        this.emitInstruction(Encoder.encodeB('BEQ', node.rs1!, 0, offset));
         return true;
       }
 
@@ -495,19 +789,14 @@ export class Assembler {
         // BNE rs1, x0, offset
         let offset = node.imm ?? 0;
         if (node.label) {
-          const labelAddr = this.symbols.get(node.label);
-          if (labelAddr === undefined) {
-            this.errors.push({
-              message: `Undefined label '${node.label}'`,
-              line: node.line,
-              column: node.column,
-            });
+          const labelOffset = this.resolveLabel(node, true, RELOCATION.BRANCH);
+          if (labelOffset === null) {
             this.emit32(0);
             return true;
           }
-          offset = labelAddr - this.pc;
+          offset = labelOffset;
         }
-        this.emit32(Encoder.encodeB('BNE', node.rs1!, 0, offset));
+        this.emitInstruction(Encoder.encodeB('BNE', node.rs1!, 0, offset));
         return true;
       }
 
@@ -516,6 +805,392 @@ export class Assembler {
     }
   }
 
+  /**
+   * Emit LUI + ADDI for LI of a value pass 1 did not know, or for LA of
+   * an address outside the current section (a constant, or one the
+   * linker fills in). Returns false, emitting nothing, for LA of an
+   * address the caller loads pc-relative.
+   */
+  private emitAbsolute(node: InstructionNode, rd: number): boolean {
+    const term = this.evaluateTerm(node.expression ?? this.argExpression(node.label!), node);
+    if (term === null) {
+      this.emit32(0);
+      this.emit32(0);
+      return true;
+    }
+    const absolute = term.section === null || (this.relocatable && term.section !== this.section);
+    if (node.mnemonic === 'LA' && !absolute) {
+      return false;
+    }
+    let value = term.value;
+    if (this.relocatable && term.symbol !== null) {
+      value = 0;
+      this.relocateTerm(term, RELOCATION.HI20, node);
+    }
+    this.emitInstruction(Encoder.encodeU('LUI', rd, hiPart(value)));
+    if (this.relocatable && term.symbol !== null) {
+      this.relocateTerm(term, RELOCATION.LO12_I, node);
+    }
+    this.emitInstruction(Encoder.encodeI('ADDI', rd, rd, loPart(value)));
+    return true;
+  }
+
+  /**
+   * Resolve the label or expression operand of an instruction
+   *
+   * pc-relative references (branches, jumps, calls) yield the offset
+   * from pc, others the label's value. In object mode a reference that
+   * needs the linker records a relocation of `type` at pc and yields 0;
+   * a null type means the operand cannot be relocated.
+   * Returns null after reporting an undefined label.
+   */
+  private resolveLabel(node: InstructionNode, pcRelative: boolean, type: RelocationType | null): number | null {
+    if (node.expression) {
+      return this.resolveExpression(node, node.expression, pcRelative, type);
+    }
+    const label = node.label!;
+    if (this.needsRelocation(label, pcRelative)) {
+      if (type === null) {
+        return this.resolveExpression(node, this.argExpression(label), pcRelative, type);
+      }
+      this.addRelocation(label, type);
+      return 0;
+    }
+    const value = this.symbols.get(label);
+    if (value === undefined) {
+      this.errors.push({
+        message: `Undefined label '${label}'`,
+        line: node.line,
+        column: node.column,
+      });
+      return null;
+    }
+    return pcRelative ? value - this.pc : value;
+  }
+
+  /**
+   * Resolve an operand expression; see resolveLabel()
+   */
+  private resolveExpression(
+    node: InstructionNode,
+    expression: Expression,
+    pcRelative: boolean,
+    type: RelocationType | null
+  ): number | null {
+    if (expression.type === ExpressionType.FUNCTION) {
+      return this.resolveFunction(node, expression);
+    }
+    const term = this.evaluateTerm(expression, node);
+    if (term === null) {
+      return null;
+    }
+    if (term.section === null && term.symbol === null && !pcRelative) {
+      return term.value;
+    }
+    if (!this.relocatable || (term.section === this.section && pcRelative)) {
+      return pcRelative ? term.value - this.pc : term.value;
+    }
+    return this.relocateTerm(term, type, node);
+  }
+
+  /**
+   * Resolve a %hi/%lo/%pcrel_hi/%pcrel_lo operand
+   */
+  private resolveFunction(node: InstructionNode, expression: Expression & { type: ExpressionType.FUNCTION }): number | null {
+    const store = node.instructionType === InstructionType.S;
+    if (expression.name === 'pcrel_lo') {
+      // The operand labels the auipc whose %pcrel_hi this completes
+      const operand = expression.operand;
+      const label = operand.type === ExpressionType.SYMBOL ? operand.name : '';
+      const key = `${this.labelSections.get(label)}:${this.symbols.get(label)}`;
+      if (!this.pcrelOffsets.has(key)) {
+        this.errors.push({
+          message: label ? `No %pcrel_hi at '${label}'` : '%pcrel_lo takes the label of an auipc with %pcrel_hi',
+          line: node.line,
+          column: node.column,
+        });
+        return null;
+      }
+      const offset = this.pcrelOffsets.get(key)!;
+      if (offset === null) {
+        this.addRelocation(label, store ? RELOCATION.PCREL_LO12_S : RELOCATION.PCREL_LO12_I);
+        return 0;
+      }
+      return loPart(offset);
+    }
+
+    const term = this.evaluateTerm(expression.operand, node);
+    if (term === null) {
+      return null;
+    }
+    if (expression.name === 'pcrel_hi') {
+      const key = `${this.section}:${this.pc}`;
+      if (this.relocatable && term.section !== this.section) {
+        this.pcrelOffsets.set(key, null);
+        return this.relocateTerm(term, RELOCATION.PCREL_HI20, node);
+      }
+      const offset = (term.value - this.pc) | 0;
+      this.pcrelOffsets.set(key, offset);
+      return hiPart(offset);
+    }
+    if (this.relocatable && term.symbol !== null) {
+      const type = expression.name === 'hi' ? RELOCATION.HI20 : store ? RELOCATION.LO12_S : RELOCATION.LO12_I;
+      return this.relocateTerm(term, type, node);
+    }
+    return expression.name === 'hi' ? hiPart(term.value) : loPart(term.value);
+  }
+
+  /**
+   * Record a relocation of `type` for an address term at pc; returns 0,
+   * or null after reporting a term that cannot be relocated
+   */
+  private relocateTerm(term: Term, type: RelocationType | null, node: ASTNode): number | null {
+    if (type === null || term.symbol === null) {
+      this.errors.push({ message: 'Expression cannot be relocated', line: node.line, column: node.column });
+      return null;
+    }
+    const addend = term.section !== null ? term.value - this.symbols.get(term.symbol)! : term.value;
+    this.addRelocation(term.symbol, type, addend);
+    return 0;
+  }
+
+  /**
+   * Value of a data directive argument (.byte/.half/.word); addresses
+   * the linker fills in need a relocation type
+   */
+  private dataValue(arg: string | number | Expression, node: DirectiveNode, type: RelocationType | null): number {
+    if (typeof arg === 'number') {
+      return arg;
+    }
+    const term = this.evaluateTerm(this.argExpression(arg), node);
+    if (term === null) {
+      return 0;
+    }
+    if (!this.relocatable || term.symbol === null) {
+      return term.value;
+    }
+    return this.relocateTerm(term, type, node) ?? 0;
+  }
+
+  /**
+   * Value of a directive argument that must be a constant (.org, .space,
+   * .align); reports other arguments and yields 0 for them
+   */
+  private constant(arg: string | number | Expression, node: DirectiveNode): number {
+    if (typeof arg === 'number') {
+      return arg;
+    }
+    const term = this.evaluateTerm(this.argExpression(arg), node);
+    if (term !== null && (term.section !== null || term.symbol !== null)) {
+      this.errors.push({ message: 'Expression must be a constant', line: node.line, column: node.column });
+      return 0;
+    }
+    return term?.value ?? 0;
+  }
+
+  /**
+   * Value of an LI operand if it is a constant known so far
+   */
+  private knownConstant(node: InstructionNode): number | null {
+    try {
+      const term = this.term(node.expression ?? this.argExpression(node.label!), this.location());
+      return term.section === null && term.symbol === null ? term.value : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Evaluate an expression, reporting errors against a node
+   */
+  private evaluateTerm(expression: Expression, node: ASTNode): Term | null {
+    try {
+      return this.term(expression, this.location());
+    } catch (e) {
+      this.errors.push({ message: (e as Error).message, line: node.line, column: node.column });
+      return null;
+    }
+  }
+
+  /**
+   * Evaluate an expression to a Term
+   *
+   * Addresses are offsets in their section plus an unknown section base
+   * (the load address, or where the linker places the section); undefined
+   * symbols in object mode are unknowns too. A constant does not depend
+   * on any unknown, an address adds exactly one. In object mode anything
+   * else cannot be relocated; when assembling a program, where addresses
+   * are final, masks and shifts of addresses are constants too.
+   *
+   * @throws Error for undefined symbols and values that are neither
+   */
+  private term(expression: Expression, location: Location): Term {
+    const names = expressionSymbols(expression);
+    const baseOf = (name: string): string | null => {
+      if (name === '.') {
+        return `section:${location.section}`;
+      }
+      const section = this.labelSections.get(name);
+      if (section !== undefined) {
+        return `section:${section}`;
+      }
+      if (this.symbols.has(name)) {
+        return null;
+      }
+      if (!this.relocatable) {
+        throw new Error(`Undefined label '${name}'`);
+      }
+      return `symbol:${name}`;
+    };
+    const symbolValue = (name: string): number => name === '.' ? location.pc : this.symbols.get(name) ?? 0;
+    const value = evaluateExpression(expression, symbolValue);
+    const factors = unknownFactors(expression, baseOf, symbolValue);
+
+    if (factors === null && this.relocatable) {
+      throw new Error('Expression cannot be relocated');
+    }
+    if (factors === null || factors.size === 0) {
+      return { value, section: null, symbol: null };
+    }
+    const [base, factor] = [...factors][0];
+    if (factors.size > 1 || factor !== 1) {
+      throw new Error(this.relocatable ? 'Expression cannot be relocated' : 'Expression is neither a constant nor an address');
+    }
+    if (base.startsWith('symbol:')) {
+      return { value, section: null, symbol: base.slice('symbol:'.length) };
+    }
+    const section = base.slice('section:'.length);
+    const symbol = names.find(name => name !== '.' && this.labelSections.get(name) === section) ?? null;
+    return { value, section, symbol };
+  }
+
+  /**
+   * An argument of a directive or a label operand as an expression
+   */
+  private argExpression(arg: string | number | Expression): Expression {
+    if (typeof arg === 'number') {
+      return { type: ExpressionType.NUMBER, value: arg };
+    }
+    return typeof arg === 'string' ? { type: ExpressionType.SYMBOL, name: arg } : arg;
+  }
+
+  private location(): Location {
+    return { pc: this.pc, section: this.section };
+  }
+
+  /**
+   * Check whether a reference to a label must be left to the linker:
+   * in object mode, pc-relative references to other sections and
+   * absolute references to any section, and references to symbols this
+   * source does not define
+   */
+  private needsRelocation(label: string, pcRelative: boolean): boolean {
+    if (!this.relocatable) {
+      return false;
+    }
+    const section = this.labelSections.get(label);
+    if (section === undefined) {
+      return !this.symbols.has(label);
+    }
+    return !pcRelative || section !== this.section;
+  }
+
+  /**
+   * Record a relocation for the instruction or data at pc
+   */
+  private addRelocation(symbol: string, type: RelocationType, addend: number = 0): void {
+    if (!this.sizing) {
+      this.sections.get(this.section)!.relocations.push({ offset: this.pc, type, symbol, addend });
+    }
+  }
+
+  /**
+   * Start a pass with empty sections, in .text
+   */
+  private startSections(): void {
+    this.sections = new Map();
+    this.section = '.text';
+    this.declaredSection = '.text';
+    this.output = [];
+    this.pc = 0;
+    this.sections.set(this.section, { output: this.output, pc: 0, align: 4, relocations: [] });
+  }
+
+  /**
+   * Switch to the section named by a section directive (object mode)
+   */
+  private switchSection(node: DirectiveNode): void {
+    const name = node.name === '.SECTION' ? String(node.args[0]) : node.name.toLowerCase();
+    this.declaredSection = name;
+    if (!this.relocatable) {
+      return;
+    }
+    this.sections.get(this.section)!.pc = this.pc;
+    let next = this.sections.get(name);
+    if (!next) {
+      next = { output: [], pc: 0, align: 4, relocations: [] };
+      this.sections.set(name, next);
+    }
+    this.section = name;
+    this.output = next.output;
+    this.pc = next.pc;
+  }
+
+  /**
+   * Raise the alignment of the current section to an `.align` boundary
+   */
+  private alignSection(alignment: number): void {
+    const state = this.sections.get(this.section)!;
+    state.align = Math.max(state.align, alignment);
+  }
+
+  /**
+   * Collect the sections and symbols of pass 2 into an object
+   */
+  private buildObject(symbols: Map<string, number>): ObjectFile {
+    this.sections.get(this.section)!.pc = this.pc;
+    const used = new Set(this.labelSections.values());
+    const sections = [...this.sections]
+      .filter(([name, state]) => state.pc > 0 || used.has(name))
+      .map(([name, state]) => {
+        const data = new Uint8Array(Math.max(state.pc, state.output.length));
+        data.set(state.output);
+        return { name, data, align: state.align, relocations: state.relocations };
+      });
+
+    const objectSymbols: ObjectSymbol[] = [...symbols].map(([name, value]) => ({
+      name,
+      section: this.labelSections.get(name) ?? null,
+      value,
+      global: this.globals.has(name),
+      defined: true,
+    }));
+    const undefinedNames = new Set([
+      ...[...this.globals].filter(name => !symbols.has(name)),
+      ...sections.flatMap(section => section.relocations.map(r => r.symbol)).filter(name => !symbols.has(name)),
+    ]);
+    for (const name of undefinedNames) {
+      objectSymbols.push({ name, section: null, value: 0, global: true, defined: false });
+    }
+    return { sections, symbols: objectSymbols };
+  }
+
+  /**
+   * Emit an instruction, in its 16-bit form when compression applies
+   */
+  private emitInstruction(instruction: number): void {
+    const compressed = this.compressing ? Encoder.compress(instruction) : null;
+    if (this.sizing) {
+      this.pc += compressed !== null ? 2 : 4;
+      return;
+    }
+    if (compressed !== null) {
+      this.emit16(compressed);
+    } else {
+      this.emit32(instruction);
+    }
+  }
+
   private emit8(value: number): void {
     // Pad output if necessary
     while (this.output.length < this.pc) {
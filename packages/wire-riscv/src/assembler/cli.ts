@@ -2,18 +2,54 @@
 /**
  * RISC-V Assembler CLI
  *
- * Usage: riscv-asm <input.asm> [-o output.bin] [--hex]
+ * Usage: riscv-asm <input.asm> [-o output] [--format fmt] [--listing file] [--map file]
+ *                  [--hex] [--rvc] [-c]
+ *
+ * The listing shows the address and bytes of every source line, with
+ * the lines of macro expansions and the instructions of
+ * pseudo-instructions under it. The map lists the symbols by address
+ * with their section and size, and can be given to riscv-disasm.
  */
 
-import { readFileSync, writeFileSync } from 'fs';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { basename, extname } from 'path';
 import { Assembler } from './assembler.js';
+import { serializeObject } from './object.js';
+import { FileResolver } from './preprocessor.js';
+import { ListingLine, MapSymbol, buildSymbolMap, formatListing, formatSymbolMap } from './listing.js';
+import { toCArray, toIntelHex, toSRecord } from './formats.js';
+import { ExecutableBuilder } from '../emulator/program-loader.js';
+
+/** Encodings of a flat binary */
+export type OutputFormat = 'raw' | 'ihex' | 'srec' | 'risv' | 'c';
+
+/** Default output file extension of each format */
+const FORMAT_EXTENSIONS: Record<OutputFormat, string> = {
+  raw: '.bin',
+  ihex: '.hex',
+  srec: '.srec',
+  risv: '.bin',
+  c: '.c',
+};
 
 interface CliOptions {
   inputFile: string;
   outputFile: string;
+  format: OutputFormat;
+  listingFile: string | null;
+  mapFile: string | null;
   hexDump: boolean;
+  compressed: boolean;
+  /** Write a relocatable object for riscv-ld instead of a flat binary */
+  object: boolean;
 }
 
+/** Reads .include and .incbin files from disk */
+export const diskResolver: FileResolver = {
+  readText: path => existsSync(path) ? readFileSync(path, 'utf-8') : null,
+  readBinary: path => existsSync(path) ? new Uint8Array(readFileSync(path)) : null,
+};
+
 function parseArgs(args: string[]): CliOptions | null {
   const cliArgs = args.slice(2); // Skip bun and script path
 
@@ -23,7 +59,12 @@ function parseArgs(args: string[]): CliOptions | null {
 
   let inputFile = '';
   let outputFile = '';
+  let format: OutputFormat | null = null;
+  let listingFile: string | null = null;
+  let mapFile: string | null = null;
   let hexDump = false;
+  let compressed = false;
+  let object = false;
 
   for (let i = 0; i < cliArgs.length; i++) {
     const arg = cliArgs[i];
@@ -34,8 +75,29 @@ function parseArgs(args: string[]): CliOptions | null {
         return null;
       }
       outputFile = cliArgs[++i];
+    } else if (arg === '--format' || arg === '--listing' || arg === '--map') {
+      if (i + 1 >= cliArgs.length) {
+        console.error(`Error: ${arg} requires a value`);
+        return null;
+      }
+      const value = cliArgs[++i];
+      if (arg === '--format') {
+        if (!Object.hasOwn(FORMAT_EXTENSIONS, value)) {
+          console.error(`Error: Unknown format '${value}' (expected ${Object.keys(FORMAT_EXTENSIONS).join(', ')})`);
+          return null;
+        }
+        format = value as OutputFormat;
+      } else if (arg === '--listing') {
+        listingFile = value;
+      } else {
+        mapFile = value;
+      }
     } else if (arg === '--hex') {
       hexDump = true;
+    } else if (arg === '--rvc') {
+      compressed = true;
+    } else if (arg === '-c') {
+      object = true;
     } else if (arg === '-h' || arg === '--help') {
       return null;
     } else if (!arg.startsWith('-')) {
@@ -51,28 +113,46 @@ function parseArgs(args: string[]): CliOptions | null {
     return null;
   }
 
+  if (object && format !== null) {
+    console.error('Error: --format applies to flat binaries, not objects (-c)');
+    return null;
+  }
+
   // Default output file
   if (!outputFile) {
-    outputFile = inputFile.replace(/\.(asm|s)$/i, '') + '.bin';
+    outputFile = inputFile.replace(/\.(asm|s)$/i, '') + (object ? '.o' : FORMAT_EXTENSIONS[format ?? 'raw']);
   }
 
-  return { inputFile, outputFile, hexDump };
+  return { inputFile, outputFile, format: format ?? 'raw', listingFile, mapFile, hexDump, compressed, object };
 }
 
 function printUsage(): void {
   console.log(`RISC-V Assembler
 
-Usage: riscv-asm <input.asm> [-o output.bin] [--hex]
+Usage: riscv-asm <input.asm> [options]
 
 Options:
-  -o, --output <file>  Output file (default: <input>.bin)
+  -o, --output <file>  Output file (default: <input> with the format's extension, or <input>.o with -c)
+  --format <format>    Output format of flat binaries:
+                         raw   raw bytes (default)
+                         ihex  Intel HEX
+                         srec  Motorola S-records
+                         risv  RISV executable, entry at _start
+                         c     C array
+  --listing <file>     Write a listing of each line's address and bytes
+  --map <file>         Write the symbols sorted by address, with section and size
   --hex                Print hex dump of output
+  --rvc                Compress eligible instructions (like .option rvc)
+  -c                   Write a relocatable object for riscv-ld
   -h, --help           Show this help message
 
 Examples:
   riscv-asm program.asm
   riscv-asm program.asm -o rom.bin
-  riscv-asm program.asm --hex`);
+  riscv-asm program.asm --hex
+  riscv-asm program.asm --rvc
+  riscv-asm program.asm --format ihex --listing program.lst --map program.map
+  riscv-asm lib.asm -c`);
 }
 
 function formatHexDump(bytes: Uint8Array): string {
@@ -116,6 +196,82 @@ function formatHexDump(bytes: Uint8Array): string {
   return lines.join('\n');
 }
 
+/**
+ * Encode a flat binary in the output format
+ */
+function encodeOutput(bytes: Uint8Array, symbols: Map<string, number>, options: CliOptions): Uint8Array | string {
+  switch (options.format) {
+    case 'raw':
+      return bytes;
+    case 'ihex':
+      return toIntelHex(bytes);
+    case 'srec':
+      return toSRecord(bytes, 0, basename(options.outputFile), symbols.get('_start') ?? 0);
+    case 'risv':
+      return new ExecutableBuilder()
+        .setCode(bytes)
+        .setEntryPoint(symbols.get('_start') ?? 0)
+        .build();
+    case 'c':
+      return toCArray(bytes, basename(options.outputFile, extname(options.outputFile)));
+  }
+}
+
+function writeFile(path: string, data: Uint8Array | string): boolean {
+  try {
+    writeFileSync(path, data);
+    return true;
+  } catch (e) {
+    console.error(`Error: Cannot write file: ${path}`);
+    return false;
+  }
+}
+
+/**
+ * Write the listing and symbol map if requested
+ */
+function writeReports(options: CliOptions, listing: ListingLine[] | undefined, map: () => MapSymbol[]): boolean {
+  if (options.listingFile !== null && !writeFile(options.listingFile, formatListing(listing ?? []) + '\n')) {
+    return false;
+  }
+  if (options.mapFile !== null && !writeFile(options.mapFile, formatSymbolMap(map()) + '\n')) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Assemble to a relocatable object and write it
+ */
+function writeObject(assembler: Assembler, options: CliOptions): number {
+  const { object, errors, listing } = assembler.assembleObject();
+  if (errors.length > 0) {
+    for (const error of errors) {
+      console.error(`${error.file ?? options.inputFile}:${error.line}:${error.column}: ${error.message}`);
+    }
+    return 1;
+  }
+
+  if (!writeFile(options.outputFile, serializeObject(object))) {
+    return 1;
+  }
+  const size = object.sections.reduce((total, section) => total + section.data.length, 0);
+  const count = object.sections.length;
+  console.log(`Assembled ${size} bytes in ${count} section${count === 1 ? '' : 's'} to ${options.outputFile}`);
+
+  const map = () => {
+    const defined = object.symbols.filter(symbol => symbol.defined);
+    const sizes = new Map(object.sections.map(section => [section.name, section.data.length]));
+    return buildSymbolMap(
+      new Map(defined.map(symbol => [symbol.name, symbol.value])),
+      new Map(defined.flatMap(symbol => (symbol.section === null ? [] : [[symbol.name, symbol.section]]))),
+      section => sizes.get(section) ?? 0,
+      false
+    );
+  };
+  return writeReports(options, listing, map) ? 0 : 1;
+}
+
 export function main(args: string[] = process.argv): number {
   const options = parseArgs(args);
 
@@ -139,25 +295,30 @@ export function main(args: string[] = process.argv): number {
   }
 
   // Assemble
-  const assembler = new Assembler(source);
+  const assembler = new Assembler(source, {
+    compressed: options.compressed,
+    resolver: diskResolver,
+    fileName: options.inputFile,
+    listing: options.listingFile !== null,
+  });
+  if (options.object) {
+    return writeObject(assembler, options);
+  }
   const result = assembler.assemble();
 
   // Check for errors
   if (result.errors.length > 0) {
     for (const error of result.errors) {
-      console.error(`${options.inputFile}:${error.line}:${error.column}: ${error.message}`);
+      console.error(`${error.file ?? options.inputFile}:${error.line}:${error.column}: ${error.message}`);
     }
     return 1;
   }
 
   // Write output
-  try {
-    writeFileSync(options.outputFile, result.bytes);
-    console.log(`Assembled ${result.bytes.length} bytes to ${options.outputFile}`);
-  } catch (e) {
-    console.error(`Error: Cannot write file: ${options.outputFile}`);
+  if (!writeFile(options.outputFile, encodeOutput(result.bytes, result.symbols, options))) {
     return 1;
   }
+  console.log(`Assembled ${result.bytes.length} bytes to ${options.outputFile}`);
 
   // Print hex dump if requested
   if (options.hexDump) {
@@ -170,7 +331,8 @@ export function main(args: string[] = process.argv): number {
     console.log(`\nSymbols: ${result.symbols.size}`);
   }
 
-  return 0;
+  const map = () => buildSymbolMap(result.symbols, result.labelSections, () => result.bytes.length, true);
+  return writeReports(options, result.listing, map) ? 0 : 1;
 }
 
 // Run if executed directly
@@ -1,7 +1,8 @@
 /**
  * RISC-V Instruction Encoder
  *
- * Encodes RISC-V instructions into 32-bit machine code.
+ * Encodes RISC-V instructions (RV32IMAFD + Zicsr) into 32-bit machine code,
+ * and compresses eligible instructions to their 16-bit RV32C forms.
  */
 
 // Opcodes
@@ -15,6 +16,11 @@ const OPCODE_STORE = 0b0100011;
 const OPCODE_OP_IMM = 0b0010011;
 const OPCODE_OP = 0b0110011;
 const OPCODE_SYSTEM = 0b1110011;
+const OPCODE_MISC_MEM = 0b0001111;
+const OPCODE_AMO = 0b0101111;
+const OPCODE_LOAD_FP = 0b0000111;
+const OPCODE_STORE_FP = 0b0100111;
+const OPCODE_OP_FP = 0b1010011;
 
 // funct3 codes for R-type and I-type ALU
 const FUNCT3_ADD_SUB = 0b000;
@@ -46,9 +52,190 @@ const FUNCT3_SB = 0b000;
 const FUNCT3_SH = 0b001;
 const FUNCT3_SW = 0b010;
 
+// funct3 codes for CSR instructions
+const FUNCT3_CSRRW = 0b001;
+const FUNCT3_CSRRS = 0b010;
+const FUNCT3_CSRRC = 0b011;
+const FUNCT3_CSRRWI = 0b101;
+const FUNCT3_CSRRSI = 0b110;
+const FUNCT3_CSRRCI = 0b111;
+
+// funct3 and funct5 codes for the A extension
+const FUNCT3_AMO_W = 0b010;
+const FUNCT5_ATOMIC: Record<string, number> = {
+  'LR.W': 0b00010,
+  'SC.W': 0b00011,
+  'AMOSWAP.W': 0b00001,
+  'AMOADD.W': 0b00000,
+  'AMOXOR.W': 0b00100,
+  'AMOAND.W': 0b01100,
+  'AMOOR.W': 0b01000,
+  'AMOMIN.W': 0b10000,
+  'AMOMAX.W': 0b10100,
+  'AMOMINU.W': 0b11000,
+  'AMOMAXU.W': 0b11100,
+};
+
+// funct3 codes for floating-point loads and stores
+const FUNCT3_FLW = 0b010;
+const FUNCT3_FLD = 0b011;
+
+// Opcodes of the R4-type fused multiply-add instructions
+const OPCODE_FUSED: Record<string, number> = {
+  'FMADD': 0b1000011,
+  'FMSUB': 0b1000111,
+  'FNMSUB': 0b1001011,
+  'FNMADD': 0b1001111,
+};
+
+// OP-FP operations of the F and D extensions: funct5, plus a funct3
+// and rs2 for those that fix them instead of taking a rounding mode
+// or second source
+interface FloatOperation {
+  funct5: number;
+  funct3?: number;
+  rs2?: number;
+}
+
+const FLOAT_OPERATIONS: Record<string, FloatOperation> = {
+  'FADD': { funct5: 0b00000 },
+  'FSUB': { funct5: 0b00001 },
+  'FMUL': { funct5: 0b00010 },
+  'FDIV': { funct5: 0b00011 },
+  'FSQRT': { funct5: 0b01011, rs2: 0 },
+  'FSGNJ': { funct5: 0b00100, funct3: 0b000 },
+  'FSGNJN': { funct5: 0b00100, funct3: 0b001 },
+  'FSGNJX': { funct5: 0b00100, funct3: 0b010 },
+  'FMIN': { funct5: 0b00101, funct3: 0b000 },
+  'FMAX': { funct5: 0b00101, funct3: 0b001 },
+  'FEQ': { funct5: 0b10100, funct3: 0b010 },
+  'FLT': { funct5: 0b10100, funct3: 0b001 },
+  'FLE': { funct5: 0b10100, funct3: 0b000 },
+  'FCLASS': { funct5: 0b11100, funct3: 0b001, rs2: 0 },
+};
+
+/**
+ * funct7 and fixed fields of an OP-FP mnemonic, or null if the mnemonic
+ * is not a floating-point operation
+ */
+function floatOperation(mnemonic: string): { funct7: number; funct3?: number; rs2?: number } | null {
+  // Conversions name the destination format first
+  switch (mnemonic) {
+    case 'FCVT.S.D':
+      return { funct7: 0b0100000, rs2: 1 };
+    case 'FCVT.D.S':
+      return { funct7: 0b0100001, rs2: 0 };
+    case 'FMV.X.W':
+      return { funct7: 0b1110000, funct3: 0b000, rs2: 0 };
+    case 'FMV.W.X':
+      return { funct7: 0b1111000, funct3: 0b000, rs2: 0 };
+  }
+
+  const conversion = /^FCVT\.(?:(WU?)\.([SD])|([SD])\.(WU?))$/.exec(mnemonic);
+  if (conversion) {
+    const toInteger = conversion[1] !== undefined;
+    const fmt = (toInteger ? conversion[2] : conversion[3]) === 'D' ? 1 : 0;
+    const unsigned = (toInteger ? conversion[1] : conversion[4]) === 'WU' ? 1 : 0;
+    return { funct7: ((toInteger ? 0b11000 : 0b11010) << 2) | fmt, rs2: unsigned };
+  }
+
+  const match = /^(\w+)\.([SD])$/.exec(mnemonic);
+  const operation = match ? FLOAT_OPERATIONS[match[1]] : undefined;
+  if (!operation) {
+    return null;
+  }
+  const fmt = match![2] === 'D' ? 1 : 0;
+  return { funct7: (operation.funct5 << 2) | fmt, funct3: operation.funct3, rs2: operation.rs2 };
+}
+
 // funct7 codes
 const FUNCT7_NORMAL = 0b0000000;
 const FUNCT7_ALT = 0b0100000;
+const FUNCT7_MULDIV = 0b0000001;
+const FUNCT7_SFENCE_VMA = 0b0001001;
+
+/**
+ * funct7 of an RV32A mnemonic (funct5 followed by the aq and rl bits),
+ * or null if the mnemonic is not atomic
+ */
+function atomicFunct7(mnemonic: string): number | null {
+  const match = /^(\w+\.W)(?:\.(AQRL|AQ|RL))?$/.exec(mnemonic);
+  const funct5 = match ? FUNCT5_ATOMIC[match[1]] : undefined;
+  if (funct5 === undefined) {
+    return null;
+  }
+  const ordering = match![2] ?? '';
+  const aq = ordering.startsWith('AQ') ? 1 : 0;
+  const rl = ordering.endsWith('RL') ? 1 : 0;
+  return (funct5 << 2) | (aq << 1) | rl;
+}
+
+/** Check whether a register is one of x8-x15, addressable by 3-bit fields */
+function isPopular(reg: number): boolean {
+  return reg >= 8 && reg <= 15;
+}
+
+/** Check whether a value fits a signed immediate of the given width */
+function fitsSigned(value: number, bits: number): boolean {
+  return value >= -(1 << (bits - 1)) && value < (1 << (bits - 1));
+}
+
+/** Encode a CI-format instruction with a 6-bit immediate */
+function encodeCI(funct3: number, rd: number, imm: number, quadrant: number): number {
+  return (funct3 << 13) | (((imm >> 5) & 0x1) << 12) | (rd << 7) | ((imm & 0x1f) << 2) | quadrant;
+}
+
+/** Encode a CR-format instruction */
+function encodeCR(funct4: number, rd: number, rs2: number): number {
+  return (funct4 << 12) | (rd << 7) | (rs2 << 2) | 0b10;
+}
+
+/** Encode C.LW/C.SW (CL/CS format) */
+function encodeCLS(funct3: number, rs1: number, reg: number, imm: number): number {
+  return (funct3 << 13) | (((imm >> 3) & 0x7) << 10) | ((rs1 - 8) << 7) |
+    (((imm >> 2) & 0x1) << 6) | (((imm >> 6) & 0x1) << 5) | ((reg - 8) << 2);
+}
+
+/** Encode C.BEQZ/C.BNEZ (CB format) */
+function encodeCB(funct3: number, rs1: number, offset: number): number {
+  return (funct3 << 13) | (((offset >> 8) & 0x1) << 12) | (((offset >> 3) & 0x3) << 10) |
+    ((rs1 - 8) << 7) | (((offset >> 6) & 0x3) << 5) | (((offset >> 1) & 0x3) << 3) |
+    (((offset >> 5) & 0x1) << 2) | 0b01;
+}
+
+/** Encode C.J/C.JAL (CJ format) */
+function encodeCJ(funct3: number, offset: number): number {
+  return (funct3 << 13) | (((offset >> 11) & 0x1) << 12) | (((offset >> 4) & 0x1) << 11) |
+    (((offset >> 8) & 0x3) << 9) | (((offset >> 10) & 0x1) << 8) | (((offset >> 6) & 0x1) << 7) |
+    (((offset >> 7) & 0x1) << 6) | (((offset >> 1) & 0x7) << 3) | (((offset >> 5) & 0x1) << 2) | 0b01;
+}
+
+/** Compress an ADDI (C.NOP, C.LI, C.ADDI, C.ADDI16SP, C.ADDI4SPN or C.MV) */
+function compressAddi(rd: number, rs1: number, imm: number): number | null {
+  if (rd === 0) {
+    return rs1 === 0 && imm === 0 ? 0x0001 : null; // C.NOP
+  }
+  if (rs1 === 0 && fitsSigned(imm, 6)) {
+    return encodeCI(0b010, rd, imm, 0b01); // C.LI
+  }
+  if (imm === 0 && rs1 !== 0) {
+    return encodeCR(0b1000, rd, rs1); // C.MV
+  }
+  if (rd === rs1 && imm !== 0 && fitsSigned(imm, 6)) {
+    return encodeCI(0b000, rd, imm, 0b01); // C.ADDI
+  }
+  if (rd === 2 && rs1 === 2 && imm !== 0 && (imm & 0xf) === 0 && fitsSigned(imm, 10)) {
+    // C.ADDI16SP
+    return (0b011 << 13) | (((imm >> 9) & 0x1) << 12) | (2 << 7) | (((imm >> 4) & 0x1) << 6) |
+      (((imm >> 6) & 0x1) << 5) | (((imm >> 7) & 0x3) << 3) | (((imm >> 5) & 0x1) << 2) | 0b01;
+  }
+  if (rs1 === 2 && isPopular(rd) && imm > 0 && imm < 1024 && (imm & 0x3) === 0) {
+    // C.ADDI4SPN
+    return (((imm >> 4) & 0x3) << 11) | (((imm >> 6) & 0xf) << 7) | (((imm >> 2) & 0x1) << 6) |
+      (((imm >> 3) & 0x1) << 5) | ((rd - 8) << 2);
+  }
+  return null;
+}
 
 export class Encoder {
   /**
@@ -58,6 +245,7 @@ export class Encoder {
   static encodeR(mnemonic: string, rd: number, rs1: number, rs2: number): number {
     let funct3 = 0;
     let funct7 = FUNCT7_NORMAL;
+    let opcode = OPCODE_OP;
 
     switch (mnemonic) {
       case 'ADD':
@@ -92,8 +280,54 @@ export class Encoder {
       case 'AND':
         funct3 = FUNCT3_AND;
         break;
-      default:
-        throw new Error(`Unknown R-type instruction: ${mnemonic}`);
+
+      // M extension (multiply/divide)
+      case 'MUL':
+        funct3 = 0b000;
+        funct7 = FUNCT7_MULDIV;
+        break;
+      case 'MULH':
+        funct3 = 0b001;
+        funct7 = FUNCT7_MULDIV;
+        break;
+      case 'MULHSU':
+        funct3 = 0b010;
+        funct7 = FUNCT7_MULDIV;
+        break;
+      case 'MULHU':
+        funct3 = 0b011;
+        funct7 = FUNCT7_MULDIV;
+        break;
+      case 'DIV':
+        funct3 = 0b100;
+        funct7 = FUNCT7_MULDIV;
+        break;
+      case 'DIVU':
+        funct3 = 0b101;
+        funct7 = FUNCT7_MULDIV;
+        break;
+      case 'REM':
+        funct3 = 0b110;
+        funct7 = FUNCT7_MULDIV;
+        break;
+      case 'REMU':
+        funct3 = 0b111;
+        funct7 = FUNCT7_MULDIV;
+        break;
+      case 'SFENCE.VMA':
+        funct7 = FUNCT7_SFENCE_VMA;
+        opcode = OPCODE_SYSTEM;
+        break;
+      default: {
+        // A extension (LR.W, SC.W, AMO*.W)
+        const atomic = atomicFunct7(mnemonic);
+        if (atomic === null) {
+          throw new Error(`Unknown R-type instruction: ${mnemonic}`);
+        }
+        funct3 = FUNCT3_AMO_W;
+        funct7 = atomic;
+        opcode = OPCODE_AMO;
+      }
     }
 
     return (
@@ -102,7 +336,50 @@ export class Encoder {
       ((rs1 & 0x1f) << 15) |
       ((funct3 & 0x7) << 12) |
       ((rd & 0x1f) << 7) |
-      OPCODE_OP
+      opcode
+    ) >>> 0;
+  }
+
+  /**
+   * Encode an OP-FP instruction; rm fills funct3 unless the operation fixes it
+   * Format: funct5[4:0] | fmt[1:0] | rs2[4:0] | rs1[4:0] | rm[2:0] | rd[4:0] | opcode[6:0]
+   */
+  static encodeFloat(mnemonic: string, rd: number, rs1: number, rs2: number, rm: number = 0b111): number {
+    const operation = floatOperation(mnemonic);
+    if (!operation) {
+      throw new Error(`Unknown floating-point instruction: ${mnemonic}`);
+    }
+
+    return (
+      ((operation.funct7 & 0x7f) << 25) |
+      (((operation.rs2 ?? rs2) & 0x1f) << 20) |
+      ((rs1 & 0x1f) << 15) |
+      (((operation.funct3 ?? rm) & 0x7) << 12) |
+      ((rd & 0x1f) << 7) |
+      OPCODE_OP_FP
+    ) >>> 0;
+  }
+
+  /**
+   * Encode R4-type (fused multiply-add) instruction
+   * Format: rs3[4:0] | fmt[1:0] | rs2[4:0] | rs1[4:0] | rm[2:0] | rd[4:0] | opcode[6:0]
+   */
+  static encodeR4(mnemonic: string, rd: number, rs1: number, rs2: number, rs3: number, rm: number = 0b111): number {
+    const match = /^(\w+)\.([SD])$/.exec(mnemonic);
+    const opcode = match ? OPCODE_FUSED[match[1]] : undefined;
+    if (opcode === undefined) {
+      throw new Error(`Unknown R4-type instruction: ${mnemonic}`);
+    }
+    const fmt = match![2] === 'D' ? 1 : 0;
+
+    return (
+      ((rs3 & 0x1f) << 27) |
+      (fmt << 25) |
+      ((rs2 & 0x1f) << 20) |
+      ((rs1 & 0x1f) << 15) |
+      ((rm & 0x7) << 12) |
+      ((rd & 0x1f) << 7) |
+      opcode
     ) >>> 0;
   }
 
@@ -169,6 +446,14 @@ export class Encoder {
         funct3 = FUNCT3_LHU;
         opcode = OPCODE_LOAD;
         break;
+      case 'FLW':
+        funct3 = FUNCT3_FLW;
+        opcode = OPCODE_LOAD_FP;
+        break;
+      case 'FLD':
+        funct3 = FUNCT3_FLD;
+        opcode = OPCODE_LOAD_FP;
+        break;
 
       // JALR
       case 'JALR':
@@ -176,12 +461,63 @@ export class Encoder {
         opcode = OPCODE_JALR;
         break;
 
+      // Fences: imm holds the predecessor and successor sets
+      case 'FENCE':
+        funct3 = 0b000;
+        opcode = OPCODE_MISC_MEM;
+        break;
+      case 'FENCE.I':
+        funct3 = 0b001;
+        opcode = OPCODE_MISC_MEM;
+        break;
+
       // System
       case 'ECALL':
       case 'EBREAK':
         funct3 = 0;
         opcode = OPCODE_SYSTEM;
         break;
+      case 'MRET':
+        funct3 = 0;
+        opcode = OPCODE_SYSTEM;
+        encodedImm = 0x302;
+        break;
+      case 'SRET':
+        funct3 = 0;
+        opcode = OPCODE_SYSTEM;
+        encodedImm = 0x102;
+        break;
+      case 'WFI':
+        funct3 = 0;
+        opcode = OPCODE_SYSTEM;
+        encodedImm = 0x105;
+        break;
+
+      // Zicsr: imm is the CSR number, rs1 holds uimm for the immediate forms
+      case 'CSRRW':
+        funct3 = FUNCT3_CSRRW;
+        opcode = OPCODE_SYSTEM;
+        break;
+      case 'CSRRS':
+        funct3 = FUNCT3_CSRRS;
+        opcode = OPCODE_SYSTEM;
+        break;
+      case 'CSRRC':
+        funct3 = FUNCT3_CSRRC;
+        opcode = OPCODE_SYSTEM;
+        break;
+      case 'CSRRWI':
+        funct3 = FUNCT3_CSRRWI;
+        opcode = OPCODE_SYSTEM;
+        break;
+      case 'CSRRSI':
+        funct3 = FUNCT3_CSRRSI;
+        opcode = OPCODE_SYSTEM;
+        break;
+      case 'CSRRCI':
+        funct3 = FUNCT3_CSRRCI;
+        opcode = OPCODE_SYSTEM;
+        break;
 
       default:
         throw new Error(`Unknown I-type instruction: ${mnemonic}`);
@@ -202,6 +538,7 @@ export class Encoder {
    */
   static encodeS(mnemonic: string, rs1: number, rs2: number, imm: number): number {
     let funct3 = 0;
+    let opcode = OPCODE_STORE;
 
     switch (mnemonic) {
       case 'SB':
@@ -213,6 +550,14 @@ export class Encoder {
       case 'SW':
         funct3 = FUNCT3_SW;
         break;
+      case 'FSW':
+        funct3 = FUNCT3_FLW;
+        opcode = OPCODE_STORE_FP;
+        break;
+      case 'FSD':
+        funct3 = FUNCT3_FLD;
+        opcode = OPCODE_STORE_FP;
+        break;
       default:
         throw new Error(`Unknown S-type instruction: ${mnemonic}`);
     }
@@ -226,7 +571,7 @@ export class Encoder {
       ((rs1 & 0x1f) << 15) |
       ((funct3 & 0x7) << 12) |
       ((imm4_0 & 0x1f) << 7) |
-      OPCODE_STORE
+      opcode
     ) >>> 0;
   }
 
@@ -329,6 +674,150 @@ export class Encoder {
     ) >>> 0;
   }
 
+  /**
+   * Compress a 32-bit instruction to its RV32C equivalent
+   * Returns null when the instruction has no 16-bit form
+   */
+  static compress(instruction: number): number | null {
+    const opcode = instruction & 0x7f;
+    const rd = (instruction >> 7) & 0x1f;
+    const funct3 = (instruction >> 12) & 0x7;
+    const rs1 = (instruction >> 15) & 0x1f;
+    const rs2 = (instruction >> 20) & 0x1f;
+    const funct7 = instruction >>> 25;
+    const immI = instruction >> 20;
+
+    switch (opcode) {
+      case OPCODE_OP_IMM: {
+        if (funct3 === FUNCT3_ADD_SUB) {
+          return compressAddi(rd, rs1, immI);
+        }
+        if (rd !== rs1 || rd === 0) {
+          return null;
+        }
+        if (funct3 === FUNCT3_SLL && funct7 === FUNCT7_NORMAL && rs2 !== 0) {
+          return encodeCI(0b000, rd, rs2, 0b10); // C.SLLI
+        }
+        if (!isPopular(rd)) {
+          return null;
+        }
+        if (funct3 === FUNCT3_SRL_SRA && rs2 !== 0 && (funct7 === FUNCT7_NORMAL || funct7 === FUNCT7_ALT)) {
+          // C.SRLI / C.SRAI
+          const funct2 = funct7 === FUNCT7_ALT ? 0b01 : 0b00;
+          return (0b100 << 13) | (funct2 << 10) | ((rd - 8) << 7) | (rs2 << 2) | 0b01;
+        }
+        if (funct3 === FUNCT3_AND && fitsSigned(immI, 6)) {
+          // C.ANDI
+          return (0b100 << 13) | (((immI >> 5) & 0x1) << 12) | (0b10 << 10) | ((rd - 8) << 7) |
+            ((immI & 0x1f) << 2) | 0b01;
+        }
+        return null;
+      }
+
+      case OPCODE_OP: {
+        if (funct3 === FUNCT3_ADD_SUB && funct7 === FUNCT7_NORMAL && rd !== 0 && rs2 !== 0) {
+          if (rs1 === 0) {
+            return encodeCR(0b1000, rd, rs2); // C.MV
+          }
+          if (rd === rs1) {
+            return encodeCR(0b1001, rd, rs2); // C.ADD
+          }
+          return null;
+        }
+        if (rd !== rs1 || !isPopular(rd) || !isPopular(rs2)) {
+          return null;
+        }
+        // C.SUB / C.XOR / C.OR / C.AND
+        let funct2: number;
+        if (funct3 === FUNCT3_ADD_SUB && funct7 === FUNCT7_ALT) {
+          funct2 = 0b00;
+        } else if (funct7 !== FUNCT7_NORMAL) {
+          return null;
+        } else if (funct3 === FUNCT3_XOR) {
+          funct2 = 0b01;
+        } else if (funct3 === FUNCT3_OR) {
+          funct2 = 0b10;
+        } else if (funct3 === FUNCT3_AND) {
+          funct2 = 0b11;
+        } else {
+          return null;
+        }
+        return (0b100011 << 10) | ((rd - 8) << 7) | (funct2 << 5) | ((rs2 - 8) << 2) | 0b01;
+      }
+
+      case OPCODE_LUI: {
+        // C.LUI takes a non-zero 6-bit signed upper immediate
+        const upper = instruction >> 12;
+        if (rd === 0 || rd === 2 || upper === 0 || !fitsSigned(upper, 6)) {
+          return null;
+        }
+        return encodeCI(0b011, rd, upper, 0b01);
+      }
+
+      case OPCODE_JAL: {
+        const offset = ((instruction >> 31) << 20) | (((instruction >> 12) & 0xff) << 12) |
+          (((instruction >> 20) & 0x1) << 11) | (((instruction >> 21) & 0x3ff) << 1);
+        if ((rd !== 0 && rd !== 1) || !fitsSigned(offset, 12)) {
+          return null;
+        }
+        return encodeCJ(rd === 0 ? 0b101 : 0b001, offset); // C.J / C.JAL
+      }
+
+      case OPCODE_JALR:
+        if (funct3 !== 0 || immI !== 0 || rs1 === 0 || (rd !== 0 && rd !== 1)) {
+          return null;
+        }
+        return encodeCR(rd === 0 ? 0b1000 : 0b1001, rs1, 0); // C.JR / C.JALR
+
+      case OPCODE_BRANCH: {
+        const offset = ((instruction >> 31) << 12) | (((instruction >> 7) & 0x1) << 11) |
+          (((instruction >> 25) & 0x3f) << 5) | (((instruction >> 8) & 0xf) << 1);
+        if ((funct3 !== FUNCT3_BEQ && funct3 !== FUNCT3_BNE) || rs2 !== 0 ||
+          !isPopular(rs1) || !fitsSigned(offset, 9)) {
+          return null;
+        }
+        return encodeCB(funct3 === FUNCT3_BEQ ? 0b110 : 0b111, rs1, offset); // C.BEQZ / C.BNEZ
+      }
+
+      case OPCODE_LOAD:
+        if (funct3 !== FUNCT3_LW || immI < 0 || (immI & 0x3) !== 0) {
+          return null;
+        }
+        if (rs1 === 2 && rd !== 0 && immI < 256) {
+          // C.LWSP
+          return (0b010 << 13) | (((immI >> 5) & 0x1) << 12) | (rd << 7) |
+            (((immI >> 2) & 0x7) << 4) | (((immI >> 6) & 0x3) << 2) | 0b10;
+        }
+        if (isPopular(rd) && isPopular(rs1) && immI < 128) {
+          return encodeCLS(0b010, rs1, rd, immI); // C.LW
+        }
+        return null;
+
+      case OPCODE_STORE: {
+        const immS = ((instruction >> 25) << 5) | ((instruction >> 7) & 0x1f);
+        if (funct3 !== FUNCT3_SW || immS < 0 || (immS & 0x3) !== 0) {
+          return null;
+        }
+        if (rs1 === 2 && immS < 256) {
+          // C.SWSP
+          return (0b110 << 13) | (((immS >> 2) & 0xf) << 9) | (((immS >> 6) & 0x3) << 7) |
+            (rs2 << 2) | 0b10;
+        }
+        if (isPopular(rs1) && isPopular(rs2) && immS < 128) {
+          return encodeCLS(0b110, rs1, rs2, immS); // C.SW
+        }
+        return null;
+      }
+
+      case OPCODE_SYSTEM:
+        // C.EBREAK
+        return instruction >>> 0 === 0x00100073 ? 0x9002 : null;
+
+      default:
+        return null;
+    }
+  }
+
   /**
    * Convert 32-bit instruction to little-endian byte array
    */
@@ -0,0 +1,353 @@
+/**
+ * Assembler Expressions
+ *
+ * Operands and directive arguments are GNU as style integer expressions:
+ * numbers, character constants ('A'), symbols, numeric local labels (1b,
+ * 1f), `.` (the location counter), the C operators with C precedence,
+ * parentheses, and the RISC-V relocation functions
+ *
+ *   %hi(x)        upper 20 bits of x, rounded for a following %lo
+ *   %lo(x)        lower 12 bits of x, sign-extended
+ *   %pcrel_hi(x)  upper 20 bits of x - pc, for auipc
+ *   %pcrel_lo(l)  lower 12 bits of the %pcrel_hi offset computed by the
+ *                 auipc at label l
+ *
+ * Arithmetic is on 32-bit integers. The parser reads lexer tokens, so the
+ * assembler's parser and the preprocessor's conditionals share it;
+ * evaluation takes a function that looks up symbol values.
+ */
+
+import { Token, TokenType } from './lexer.js';
+
+export enum ExpressionType {
+  NUMBER = 'NUMBER',
+  SYMBOL = 'SYMBOL',
+  UNARY = 'UNARY',
+  BINARY = 'BINARY',
+  FUNCTION = 'FUNCTION',
+}
+
+/** Relocation functions, named without the % */
+export type RelocationFunction = 'hi' | 'lo' | 'pcrel_hi' | 'pcrel_lo';
+
+export type Expression =
+  | { type: ExpressionType.NUMBER; value: number }
+  /** A symbol; `.` is the location counter */
+  | { type: ExpressionType.SYMBOL; name: string }
+  | { type: ExpressionType.UNARY; operator: string; operand: Expression }
+  | { type: ExpressionType.BINARY; operator: string; left: Expression; right: Expression }
+  | { type: ExpressionType.FUNCTION; name: RelocationFunction; operand: Expression };
+
+export class ExpressionError extends Error {
+  constructor(message: string, public line: number, public column: number) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+/** Binary operators by precedence, lowest first */
+const BINARY_LEVELS: string[][] = [
+  ['||'], ['&&'], ['|'], ['^'], ['&'], ['==', '!='], ['<', '<=', '>', '>='], ['<<', '>>'], ['+', '-'], ['*', '/', '%'],
+];
+
+const UNARY_OPERATORS = new Set(['-', '+', '~', '!']);
+
+/**
+ * Parses an expression from lexer tokens, stopping at the first token
+ * that cannot continue it (a comma, a newline, an unmatched parenthesis)
+ */
+export class ExpressionParser {
+  /** Index of the next token */
+  pos: number;
+
+  constructor(private tokens: Token[], start: number = 0) {
+    this.pos = start;
+  }
+
+  /**
+   * Check whether a token can start an expression
+   */
+  static startsExpression(token: Token): boolean {
+    switch (token.type) {
+      case TokenType.NUMBER:
+      case TokenType.IDENTIFIER:
+      case TokenType.LPAREN:
+      case TokenType.FUNCTION:
+        return true;
+      case TokenType.OPERATOR:
+        return UNARY_OPERATORS.has(token.value as string);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * @throws ExpressionError on syntax errors
+   */
+  parse(): Expression {
+    return this.binary(0);
+  }
+
+  private binary(level: number): Expression {
+    if (level === BINARY_LEVELS.length) {
+      return this.unary();
+    }
+    let left = this.binary(level + 1);
+    while (this.peek().type === TokenType.OPERATOR && BINARY_LEVELS[level].includes(this.peek().value as string)) {
+      const operator = this.tokens[this.pos++].value as string;
+      const right = this.binary(level + 1);
+      left = { type: ExpressionType.BINARY, operator, left, right };
+    }
+    return left;
+  }
+
+  private unary(): Expression {
+    const token = this.peek();
+    switch (token.type) {
+      case TokenType.NUMBER:
+        this.pos++;
+        return { type: ExpressionType.NUMBER, value: token.value as number };
+      case TokenType.IDENTIFIER:
+        this.pos++;
+        return { type: ExpressionType.SYMBOL, name: token.value as string };
+      case TokenType.LPAREN: {
+        this.pos++;
+        const expression = this.binary(0);
+        this.expectClose();
+        return expression;
+      }
+      case TokenType.FUNCTION: {
+        this.pos++;
+        if (this.peek().type !== TokenType.LPAREN) {
+          throw this.error(`Expected '(' after %${token.value}`);
+        }
+        this.pos++;
+        const operand = this.binary(0);
+        this.expectClose();
+        return { type: ExpressionType.FUNCTION, name: token.value as RelocationFunction, operand };
+      }
+      case TokenType.OPERATOR:
+        if (UNARY_OPERATORS.has(token.value as string)) {
+          this.pos++;
+          return { type: ExpressionType.UNARY, operator: token.value as string, operand: this.unary() };
+        }
+        break;
+    }
+    throw this.error(token.type === TokenType.NEWLINE || token.type === TokenType.EOF
+      ? 'Unexpected end of expression'
+      : `Unexpected '${token.value}' in expression`);
+  }
+
+  private expectClose(): void {
+    if (this.peek().type !== TokenType.RPAREN) {
+      throw this.error("Expected ')' in expression");
+    }
+    this.pos++;
+  }
+
+  private peek(): Token {
+    return this.tokens[Math.min(this.pos, this.tokens.length - 1)];
+  }
+
+  private error(message: string): ExpressionError {
+    const token = this.peek();
+    return new ExpressionError(message, token.line, token.column);
+  }
+}
+
+/**
+ * Evaluate an expression
+ *
+ * @param symbol Returns the value of a symbol, throwing when it has none
+ * @throws Error for division by zero and for %pcrel_hi/%pcrel_lo, which
+ *   only the assembler can resolve
+ */
+export function evaluateExpression(expression: Expression, symbol: (name: string) => number): number {
+  switch (expression.type) {
+    case ExpressionType.NUMBER:
+      return expression.value | 0;
+    case ExpressionType.SYMBOL:
+      return symbol(expression.name) | 0;
+    case ExpressionType.UNARY: {
+      const operand = evaluateExpression(expression.operand, symbol);
+      switch (expression.operator) {
+        case '-': return -operand | 0;
+        case '~': return ~operand;
+        case '!': return operand === 0 ? 1 : 0;
+        default: return operand;
+      }
+    }
+    case ExpressionType.BINARY:
+      return applyOperator(
+        expression.operator,
+        evaluateExpression(expression.left, symbol),
+        evaluateExpression(expression.right, symbol)
+      );
+    case ExpressionType.FUNCTION: {
+      const value = evaluateExpression(expression.operand, symbol);
+      switch (expression.name) {
+        case 'hi': return hiPart(value);
+        case 'lo': return loPart(value);
+        default: throw new Error(`%${expression.name}() must be the whole operand`);
+      }
+    }
+  }
+}
+
+/**
+ * Names of the symbols an expression refers to, in order of appearance
+ */
+export function expressionSymbols(expression: Expression): string[] {
+  switch (expression.type) {
+    case ExpressionType.NUMBER:
+      return [];
+    case ExpressionType.SYMBOL:
+      return [expression.name];
+    case ExpressionType.UNARY:
+    case ExpressionType.FUNCTION:
+      return expressionSymbols(expression.operand);
+    case ExpressionType.BINARY:
+      return [...new Set([...expressionSymbols(expression.left), ...expressionSymbols(expression.right)])];
+  }
+}
+
+/**
+ * How an expression depends on unknowns (section bases, undefined
+ * symbols): the factor of each unknown if the expression only adds,
+ * subtracts and scales them by constants, or null if it combines them
+ * any other way (masks, shifts, division), which no relocation can hold.
+ * Unknowns that cancel out are left out.
+ *
+ * @param unknown Returns the unknown a symbol stands on, or null for none
+ * @param symbol Returns the value of a symbol, for constant scale factors
+ */
+export function unknownFactors(
+  expression: Expression,
+  unknown: (name: string) => string | null,
+  symbol: (name: string) => number
+): Map<string, number> | null {
+  switch (expression.type) {
+    case ExpressionType.NUMBER:
+      return new Map();
+    case ExpressionType.SYMBOL: {
+      const name = unknown(expression.name);
+      return new Map(name === null ? [] : [[name, 1]]);
+    }
+    case ExpressionType.UNARY: {
+      const operand = unknownFactors(expression.operand, unknown, symbol);
+      if (operand === null || operand.size === 0 || expression.operator === '+') {
+        return operand;
+      }
+      return expression.operator === '-' ? scaleFactors(operand, -1) : null;
+    }
+    case ExpressionType.BINARY: {
+      const left = unknownFactors(expression.left, unknown, symbol);
+      const right = unknownFactors(expression.right, unknown, symbol);
+      if (left === null || right === null || (left.size === 0 && right.size === 0)) {
+        return left === null || right === null ? null : left;
+      }
+      switch (expression.operator) {
+        case '+':
+          return addFactors(left, right);
+        case '-':
+          return addFactors(left, scaleFactors(right, -1));
+        case '*':
+          if (right.size === 0) {
+            return scaleFactors(left, evaluateExpression(expression.right, symbol));
+          }
+          return left.size === 0 ? scaleFactors(right, evaluateExpression(expression.left, symbol)) : null;
+        default:
+          return null;
+      }
+    }
+    case ExpressionType.FUNCTION: {
+      const operand = unknownFactors(expression.operand, unknown, symbol);
+      return operand === null || operand.size > 0 ? null : operand;
+    }
+  }
+}
+
+function scaleFactors(factors: Map<string, number>, scale: number): Map<string, number> {
+  const scaled = new Map<string, number>();
+  for (const [name, factor] of factors) {
+    if (Math.imul(factor, scale) !== 0) {
+      scaled.set(name, Math.imul(factor, scale));
+    }
+  }
+  return scaled;
+}
+
+function addFactors(left: Map<string, number>, right: Map<string, number>): Map<string, number> {
+  const sum = new Map(left);
+  for (const [name, factor] of right) {
+    const total = ((sum.get(name) ?? 0) + factor) | 0;
+    if (total === 0) {
+      sum.delete(name);
+    } else {
+      sum.set(name, total);
+    }
+  }
+  return sum;
+}
+
+/**
+ * Check whether an expression has the same value wherever it appears:
+ * it refers to no symbols and uses no pc-relative function
+ */
+export function isConstantExpression(expression: Expression): boolean {
+  switch (expression.type) {
+    case ExpressionType.NUMBER:
+      return true;
+    case ExpressionType.SYMBOL:
+      return false;
+    case ExpressionType.UNARY:
+      return isConstantExpression(expression.operand);
+    case ExpressionType.BINARY:
+      return isConstantExpression(expression.left) && isConstantExpression(expression.right);
+    case ExpressionType.FUNCTION:
+      return (expression.name === 'hi' || expression.name === 'lo') && isConstantExpression(expression.operand);
+  }
+}
+
+/**
+ * Upper 20 bits of a value, rounded so that adding loPart() restores it
+ */
+export function hiPart(value: number): number {
+  return ((value + 0x800) >> 12) & 0xfffff;
+}
+
+/**
+ * Lower 12 bits of a value, sign-extended
+ */
+export function loPart(value: number): number {
+  return (value << 20) >> 20;
+}
+
+/**
+ * Apply a binary operator to 32-bit integers
+ */
+function applyOperator(operator: string, left: number, right: number): number {
+  switch (operator) {
+    case '||': return left !== 0 || right !== 0 ? 1 : 0;
+    case '&&': return left !== 0 && right !== 0 ? 1 : 0;
+    case '|': return left | right;
+    case '^': return left ^ right;
+    case '&': return left & right;
+    case '==': return left === right ? 1 : 0;
+    case '!=': return left !== right ? 1 : 0;
+    case '<': return left < right ? 1 : 0;
+    case '<=': return left <= right ? 1 : 0;
+    case '>': return left > right ? 1 : 0;
+    case '>=': return left >= right ? 1 : 0;
+    case '<<': return left << right;
+    case '>>': return left >> right;
+    case '+': return (left + right) | 0;
+    case '-': return (left - right) | 0;
+    case '*': return Math.imul(left, right);
+    default:
+      if (right === 0) {
+        throw new Error('Division by zero in expression');
+      }
+      return operator === '/' ? (left / right) | 0 : left % right;
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Output Formats
+ *
+ * Text encodings of a flat binary image for programmers, ROM tools and
+ * firmware builds: Intel HEX, Motorola S-records and a C array.
+ */
+
+/** Data bytes per Intel HEX and S-record line */
+const RECORD_BYTES = 16;
+
+/** Bytes per line of a C array */
+const C_ARRAY_BYTES = 12;
+
+function hex(value: number, digits: number): string {
+  return value.toString(16).toUpperCase().padStart(digits, '0');
+}
+
+/**
+ * Encode an image as Intel HEX
+ *
+ * Data records hold 16 bytes each; extended linear address records
+ * (type 04) give the upper 16 bits of addresses above 64 KiB.
+ *
+ * @param base Address of the first byte
+ */
+export function toIntelHex(bytes: Uint8Array, base: number = 0): string {
+  const record = (type: number, address: number, data: ArrayLike<number>): string => {
+    let sum = data.length + (address >> 8) + (address & 0xff) + type;
+    let text = `:${hex(data.length, 2)}${hex(address, 4)}${hex(type, 2)}`;
+    for (let i = 0; i < data.length; i++) {
+      sum += data[i];
+      text += hex(data[i], 2);
+    }
+    return text + hex((-sum) & 0xff, 2);
+  };
+
+  const lines: string[] = [];
+  let upper = 0;
+  for (let offset = 0; offset < bytes.length;) {
+    const address = (base + offset) >>> 0;
+    if (address >>> 16 !== upper) {
+      upper = address >>> 16;
+      lines.push(record(0x04, 0, [upper >> 8, upper & 0xff]));
+    }
+    // Records don't cross a 64 KiB boundary
+    const size = Math.min(RECORD_BYTES, bytes.length - offset, 0x10000 - (address & 0xffff));
+    lines.push(record(0x00, address & 0xffff, bytes.subarray(offset, offset + size)));
+    offset += size;
+  }
+  lines.push(record(0x01, 0, []));
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Encode an image as Motorola S-records
+ *
+ * The address width is the smallest that holds the last address: S1/S9
+ * for 16 bits, S2/S8 for 24 and S3/S7 for 32. The termination record
+ * holds the entry point.
+ *
+ * @param base Address of the first byte
+ * @param header Text of the S0 header record
+ * @param entry Entry point, in the termination record
+ */
+export function toSRecord(bytes: Uint8Array, base: number = 0, header: string = '', entry: number = base): string {
+  const last = Math.max(base + bytes.length - 1, entry);
+  const width = last <= 0xffff ? 2 : last <= 0xffffff ? 3 : 4;
+  const dataType = width - 1;
+
+  const record = (type: number, address: number, addressBytes: number, data: ArrayLike<number>): string => {
+    const count = addressBytes + data.length + 1;
+    let sum = count;
+    for (let i = 0; i < addressBytes; i++) {
+      sum += (address >>> (i * 8)) & 0xff;
+    }
+    let text = `S${type}${hex(count, 2)}${hex(address >>> 0, addressBytes * 2)}`;
+    for (let i = 0; i < data.length; i++) {
+      sum += data[i];
+      text += hex(data[i], 2);
+    }
+    return text + hex(~sum & 0xff, 2);
+  };
+
+  const lines = [record(0, 0, 2, Array.from(header, c => c.charCodeAt(0) & 0xff))];
+  for (let offset = 0; offset < bytes.length; offset += RECORD_BYTES) {
+    lines.push(record(dataType, base + offset, width, bytes.subarray(offset, offset + RECORD_BYTES)));
+  }
+  lines.push(record(10 - dataType, entry, width, []));
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Encode an image as a C array with its length
+ *
+ * @param name Name of the array; characters that can't be in a C
+ *   identifier become underscores
+ */
+export function toCArray(bytes: Uint8Array, name: string): string {
+  const identifier = name.replace(/[^A-Za-z0-9_]/g, '_').replace(/^(?=[0-9])/, '_');
+  const lines = ['#include <stdint.h>', '', `const uint8_t ${identifier}[] = {`];
+  for (let offset = 0; offset < bytes.length; offset += C_ARRAY_BYTES) {
+    const row = Array.from(bytes.subarray(offset, offset + C_ARRAY_BYTES), byte => `0x${byte.toString(16).padStart(2, '0')}`);
+    lines.push(`  ${row.join(', ')},`);
+  }
+  lines.push('};', `const uint32_t ${identifier}_len = ${bytes.length};`);
+  return lines.join('\n') + '\n';
+}
@@ -1,11 +1,19 @@
 /**
  * RISC-V Assembler
  *
- * Assembles RISC-V assembly source code into machine code.
+ * Assembles RISC-V assembly source code into machine code, and links
+ * relocatable objects into executables.
  */
 
 export * from './lexer.js';
 export * from './parser.js';
+export * from './expression.js';
 export * from './encoder.js';
+export * from './preprocessor.js';
 export * from './assembler.js';
+export * from './object.js';
+export * from './linker.js';
+export * from './listing.js';
+export * from './formats.js';
 export { main as runCli } from './cli.js';
+export { main as runLinkerCli } from './link-cli.js';
@@ -2,12 +2,19 @@
  * RISC-V Assembler Lexer
  *
  * Tokenizes RISC-V assembly source code into tokens for parsing.
+ *
+ * Numeric local labels are resolved here, in source order: each `N:`
+ * defines a new instance of label N, `Nb` refers to the latest instance
+ * before it and `Nf` to the next one after it. Every instance gets its
+ * own symbol name (see numericLabelName), so the parser and assembler
+ * treat them as ordinary labels.
  */
 
 export enum TokenType {
   // Instructions and identifiers
   INSTRUCTION = 'INSTRUCTION',
   REGISTER = 'REGISTER',
+  FP_REGISTER = 'FP_REGISTER',
   IDENTIFIER = 'IDENTIFIER',
   LABEL_DEF = 'LABEL_DEF',
 
@@ -18,6 +25,11 @@ export enum TokenType {
   // Directives
   DIRECTIVE = 'DIRECTIVE',
 
+  // Expressions
+  OPERATOR = 'OPERATOR',
+  /** Relocation function (%hi, %lo, %pcrel_hi, %pcrel_lo), without the % */
+  FUNCTION = 'FUNCTION',
+
   // Punctuation
   COMMA = 'COMMA',
   LPAREN = 'LPAREN',
@@ -35,7 +47,27 @@ export interface Token {
   column: number;
 }
 
-// RV32I instruction mnemonics
+// RV32A mnemonics with each memory-ordering suffix
+const ATOMIC_INSTRUCTIONS = [
+  'LR.W', 'SC.W', 'AMOSWAP.W', 'AMOADD.W', 'AMOXOR.W', 'AMOAND.W', 'AMOOR.W',
+  'AMOMIN.W', 'AMOMAX.W', 'AMOMINU.W', 'AMOMAXU.W',
+].flatMap((mnemonic) => [mnemonic, `${mnemonic}.AQ`, `${mnemonic}.RL`, `${mnemonic}.AQRL`]);
+
+// RV32F/D mnemonics
+const FLOAT_INSTRUCTIONS = [
+  'FLW', 'FSW', 'FLD', 'FSD',
+  'FCVT.S.D', 'FCVT.D.S', 'FMV.X.W', 'FMV.W.X',
+  'FRCSR', 'FSCSR', 'FRRM', 'FSRM', 'FRFLAGS', 'FSFLAGS',
+  ...['S', 'D'].flatMap((fmt) => [
+    'FMADD', 'FMSUB', 'FNMSUB', 'FNMADD',
+    'FADD', 'FSUB', 'FMUL', 'FDIV', 'FSQRT', 'FSGNJ', 'FSGNJN', 'FSGNJX', 'FMIN', 'FMAX',
+    'FEQ', 'FLT', 'FLE', 'FCLASS', 'FMV', 'FNEG', 'FABS',
+  ].map((mnemonic) => `${mnemonic}.${fmt}`).concat([
+    `FCVT.W.${fmt}`, `FCVT.WU.${fmt}`, `FCVT.${fmt}.W`, `FCVT.${fmt}.WU`,
+  ])),
+];
+
+// RV32IMAFD instruction mnemonics
 const INSTRUCTIONS = new Set([
   // U-type
   'LUI', 'AUIPC',
@@ -53,15 +85,33 @@ const INSTRUCTIONS = new Set([
   'ADDI', 'SLTI', 'SLTIU', 'XORI', 'ORI', 'ANDI', 'SLLI', 'SRLI', 'SRAI',
   // R-type (ALU register)
   'ADD', 'SUB', 'SLL', 'SLT', 'SLTU', 'XOR', 'SRL', 'SRA', 'OR', 'AND',
+  // R-type (M extension)
+  'MUL', 'MULH', 'MULHSU', 'MULHU', 'DIV', 'DIVU', 'REM', 'REMU',
+  // A extension
+  ...ATOMIC_INSTRUCTIONS,
+  // F and D extensions
+  ...FLOAT_INSTRUCTIONS,
   // System
-  'ECALL', 'EBREAK', 'FENCE',
+  'ECALL', 'EBREAK', 'FENCE', 'FENCE.I', 'MRET', 'SRET', 'WFI', 'SFENCE.VMA',
+  // Zicsr
+  'CSRRW', 'CSRRS', 'CSRRC', 'CSRRWI', 'CSRRSI', 'CSRRCI',
   // Pseudo-instructions
   'NOP', 'LI', 'LA', 'MV', 'NOT', 'NEG', 'SEQZ', 'SNEZ', 'SLTZ', 'SGTZ',
   'BEQZ', 'BNEZ', 'BLEZ', 'BGEZ', 'BLTZ', 'BGTZ',
   'BGT', 'BLE', 'BGTU', 'BLEU',
   'J', 'JR', 'RET', 'CALL', 'TAIL',
+  'CSRR', 'CSRW', 'CSRS', 'CSRC', 'CSRWI', 'CSRSI', 'CSRCI',
 ]);
 
+// Leading dotted parts of mnemonics (FCVT, FCVT.W, FMV.X, ...), which
+// the lexer extends further even though they are not instructions
+const MNEMONIC_PREFIXES = new Set(
+  [...INSTRUCTIONS].flatMap((mnemonic) => {
+    const parts = mnemonic.split('.');
+    return parts.slice(1).map((_, i) => parts.slice(0, i + 1).join('.'));
+  })
+);
+
 // Directives
 const DIRECTIVES = new Set([
   '.ORG', '.BYTE', '.HALF', '.WORD',
@@ -70,9 +120,15 @@ const DIRECTIVES = new Set([
   '.EQU', '.SET', '.EQUIV',
   '.GLOBAL', '.GLOBL', '.LOCAL',
   '.SECTION', '.TEXT', '.DATA', '.BSS', '.RODATA',
-  '.INCLUDE', '.INCBIN',
+  '.INCLUDE', '.INCBIN', '.OPTION',
 ]);
 
+// Expression operators, longest first
+const OPERATORS = ['<<', '>>', '<=', '>=', '==', '!=', '&&', '||', '+', '-', '*', '/', '%', '&', '|', '^', '~', '!', '<', '>'];
+
+// Relocation functions written %name(...)
+const RELOCATION_FUNCTIONS = new Set(['hi', 'lo', 'pcrel_hi', 'pcrel_lo']);
+
 // Register aliases
 const REGISTER_ALIASES: Record<string, number> = {
   'zero': 0,
@@ -88,6 +144,41 @@ const REGISTER_ALIASES: Record<string, number> = {
   't3': 28, 't4': 29, 't5': 30, 't6': 31,
 };
 
+// Floating-point register ABI names
+const FP_REGISTER_ALIASES: Record<string, number> = {
+  'ft0': 0, 'ft1': 1, 'ft2': 2, 'ft3': 3, 'ft4': 4, 'ft5': 5, 'ft6': 6, 'ft7': 7,
+  'fs0': 8, 'fs1': 9,
+  'fa0': 10, 'fa1': 11, 'fa2': 12, 'fa3': 13, 'fa4': 14, 'fa5': 15, 'fa6': 16, 'fa7': 17,
+  'fs2': 18, 'fs3': 19, 'fs4': 20, 'fs5': 21, 'fs6': 22, 'fs7': 23, 'fs8': 24, 'fs9': 25,
+  'fs10': 26, 'fs11': 27,
+  'ft8': 28, 'ft9': 29, 'ft10': 30, 'ft11': 31,
+};
+
+/**
+ * Symbol name of an instance of a numeric local label
+ *
+ * @param label The label's digits
+ * @param instance 1 for its first definition, 2 for the second, ...
+ */
+export function numericLabelName(label: string, instance: number): string {
+  return `.L${label}^${instance}`;
+}
+
+/**
+ * Check whether a symbol name is an instance of a numeric local label
+ */
+export function isNumericLabel(name: string): boolean {
+  return /^\.L[0-9]+\^[0-9]+$/.test(name);
+}
+
+/** A reference to the next instance of a numeric label (Nf) */
+interface ForwardReference {
+  label: string;
+  instance: number;
+  line: number;
+  column: number;
+}
+
 export class LexerError extends Error {
   constructor(message: string, public line: number, public column: number) {
     super(`${message} at line ${line}, column ${column}`);
@@ -101,6 +192,9 @@ export class Lexer {
   private line: number = 1;
   private column: number = 1;
   private tokens: Token[] = [];
+  /** Instances defined so far of each numeric label */
+  private numericLabels: Map<string, number> = new Map();
+  private forwardReferences: ForwardReference[] = [];
 
   constructor(source: string) {
     this.source = source;
@@ -111,11 +205,19 @@ export class Lexer {
     this.pos = 0;
     this.line = 1;
     this.column = 1;
+    this.numericLabels = new Map();
+    this.forwardReferences = [];
 
     while (!this.isAtEnd()) {
       this.scanToken();
     }
 
+    for (const reference of this.forwardReferences) {
+      if ((this.numericLabels.get(reference.label) ?? 0) < reference.instance) {
+        throw new LexerError(`Undefined label '${reference.label}f'`, reference.line, reference.column);
+      }
+    }
+
     this.tokens.push({
       type: TokenType.EOF,
       value: '',
@@ -211,24 +313,40 @@ export class Lexer {
         this.scanString(startLine, startColumn);
         break;
 
+      case "'":
+        this.scanCharacter(startLine, startColumn);
+        break;
+
       case '.':
         this.scanDirective(startLine, startColumn);
         break;
 
       case '-':
-        // Negative number
-        if (this.isDigit(this.peek())) {
+        // Negative number, unless it follows an operand (x-1 subtracts)
+        if (this.isDigit(this.peek()) && !this.followsOperand()) {
           this.scanNumber(startLine, startColumn, true);
         } else {
-          throw new LexerError(`Unexpected character '-'`, startLine, startColumn);
+          this.scanOperator(char, startLine, startColumn);
+        }
+        break;
+
+      case '%':
+        if (this.isAlpha(this.peek())) {
+          this.scanFunction(startLine, startColumn);
+        } else {
+          this.scanOperator(char, startLine, startColumn);
         }
         break;
 
       default:
-        if (this.isDigit(char)) {
+        if (OPERATORS.includes(char) || char === '=') {
+          this.scanOperator(char, startLine, startColumn);
+        } else if (this.isDigit(char)) {
           this.pos--; // Put back the character
           this.column--;
-          this.scanNumber(startLine, startColumn, false);
+          if (!this.scanNumericLabel(startLine, startColumn)) {
+            this.scanNumber(startLine, startColumn, false);
+          }
         } else if (this.isAlpha(char) || char === '_') {
           this.pos--; // Put back the character
           this.column--;
@@ -239,6 +357,51 @@ export class Lexer {
     }
   }
 
+  /**
+   * Check whether the last token ends an operand, so that a following
+   * '-' is a binary operator
+   */
+  private followsOperand(): boolean {
+    const last = this.tokens[this.tokens.length - 1];
+    return last !== undefined && (last.type === TokenType.NUMBER || last.type === TokenType.IDENTIFIER || last.type === TokenType.RPAREN);
+  }
+
+  private scanOperator(char: string, startLine: number, startColumn: number): void {
+    const pair = char + this.peek();
+    let operator = char;
+    if (OPERATORS.includes(pair)) {
+      this.advance();
+      operator = pair;
+    } else if (!OPERATORS.includes(char)) {
+      throw new LexerError(`Unexpected character '${char}'`, startLine, startColumn);
+    }
+
+    this.tokens.push({
+      type: TokenType.OPERATOR,
+      value: operator,
+      line: startLine,
+      column: startColumn,
+    });
+  }
+
+  private scanFunction(startLine: number, startColumn: number): void {
+    let name = '';
+    while (!this.isAtEnd() && this.isAlphaNumeric(this.peek())) {
+      name += this.advance();
+    }
+    name = name.toLowerCase();
+    if (!RELOCATION_FUNCTIONS.has(name)) {
+      throw new LexerError(`Unknown relocation function '%${name}'`, startLine, startColumn);
+    }
+
+    this.tokens.push({
+      type: TokenType.FUNCTION,
+      value: name,
+      line: startLine,
+      column: startColumn,
+    });
+  }
+
   private isDigit(char: string): boolean {
     return char >= '0' && char <= '9';
   }
@@ -287,6 +450,54 @@ export class Lexer {
     });
   }
 
+  /**
+   * Scan a numeric label definition (N:) or reference (Nb, Nf), returning
+   * false if the digits are a number
+   */
+  private scanNumericLabel(startLine: number, startColumn: number): boolean {
+    let end = this.pos;
+    while (end < this.source.length && this.isDigit(this.source[end])) {
+      end++;
+    }
+    const suffix = this.source[end];
+    const isReference = (suffix === 'b' || suffix === 'f') &&
+      (end + 1 >= this.source.length || !this.isAlphaNumeric(this.source[end + 1]));
+    if (suffix !== ':' && !isReference) {
+      return false;
+    }
+
+    const label = this.source.slice(this.pos, end);
+    while (this.pos <= end) {
+      this.advance();
+    }
+    const defined = this.numericLabels.get(label) ?? 0;
+    if (suffix === ':') {
+      this.numericLabels.set(label, defined + 1);
+      this.tokens.push({
+        type: TokenType.LABEL_DEF,
+        value: numericLabelName(label, defined + 1),
+        line: startLine,
+        column: startColumn,
+      });
+      return true;
+    }
+
+    if (suffix === 'b' && defined === 0) {
+      throw new LexerError(`Undefined label '${label}b'`, startLine, startColumn);
+    }
+    const instance = suffix === 'b' ? defined : defined + 1;
+    if (suffix === 'f') {
+      this.forwardReferences.push({ label, instance, line: startLine, column: startColumn });
+    }
+    this.tokens.push({
+      type: TokenType.IDENTIFIER,
+      value: numericLabelName(label, instance),
+      line: startLine,
+      column: startColumn,
+    });
+    return true;
+  }
+
   private scanDecimalNumber(): number {
     let numStr = '';
     while (!this.isAtEnd() && this.isDigit(this.peek())) {
@@ -324,16 +535,7 @@ export class Lexer {
         if (this.isAtEnd()) {
           throw new LexerError('Unterminated string literal', startLine, startColumn);
         }
-        const escaped = this.advance();
-        switch (escaped) {
-          case 'n': value += '\n'; break;
-          case 't': value += '\t'; break;
-          case 'r': value += '\r'; break;
-          case '\\': value += '\\'; break;
-          case '"': value += '"'; break;
-          case '0': value += '\0'; break;
-          default: value += escaped; break;
-        }
+        value += this.scanEscape();
       } else {
         value += this.advance();
       }
@@ -353,12 +555,62 @@ export class Lexer {
     });
   }
 
+  /**
+   * Scan the character after a backslash in a string or character
+   * constant
+   */
+  private scanEscape(): string {
+    const escaped = this.advance();
+    switch (escaped) {
+      case 'n': return '\n';
+      case 't': return '\t';
+      case 'r': return '\r';
+      case '0': return '\0';
+      default: return escaped;
+    }
+  }
+
+  /**
+   * Scan a character constant ('A', '\n') as the number of its character
+   */
+  private scanCharacter(startLine: number, startColumn: number): void {
+    if (this.isAtEnd() || this.peek() === '\n') {
+      throw new LexerError('Unterminated character constant', startLine, startColumn);
+    }
+    let char = this.advance();
+    if (char === '\\' && !this.isAtEnd() && this.peek() !== '\n') {
+      char = this.scanEscape();
+    }
+    if (this.peek() !== "'") {
+      throw new LexerError('Unterminated character constant', startLine, startColumn);
+    }
+    this.advance(); // consume closing quote
+
+    this.tokens.push({
+      type: TokenType.NUMBER,
+      value: char.charCodeAt(0),
+      line: startLine,
+      column: startColumn,
+    });
+  }
+
   private scanDirective(startLine: number, startColumn: number): void {
     let name = '.';
     while (!this.isAtEnd() && this.isAlphaNumeric(this.peek())) {
       name += this.advance();
     }
 
+    // A lone '.' is the location counter
+    if (name === '.') {
+      this.tokens.push({
+        type: TokenType.IDENTIFIER,
+        value: name,
+        line: startLine,
+        column: startColumn,
+      });
+      return;
+    }
+
     const upperName = name.toUpperCase();
 
     this.tokens.push({
@@ -369,11 +621,42 @@ export class Lexer {
     });
   }
 
+  /**
+   * Extend a name with dotted parts (e.g. sfence.vma, fcvt.w.s) to the
+   * longest known instruction, passing through mnemonic prefixes
+   */
+  private scanDottedMnemonic(name: string): string {
+    let dotted = name;
+    let start = this.pos;
+    let longest = name;
+    let longestEnd = this.pos;
+    while (this.source[start] === '.' && start + 1 < this.source.length && this.isAlpha(this.source[start + 1])) {
+      let end = start + 1;
+      while (end < this.source.length && this.isAlphaNumeric(this.source[end])) {
+        end++;
+      }
+      dotted += this.source.slice(start, end);
+      const upper = dotted.toUpperCase();
+      if (INSTRUCTIONS.has(upper)) {
+        longest = dotted;
+        longestEnd = end;
+      } else if (!MNEMONIC_PREFIXES.has(upper)) {
+        break;
+      }
+      start = end;
+    }
+    while (this.pos < longestEnd) {
+      this.advance();
+    }
+    return longest;
+  }
+
   private scanIdentifier(startLine: number, startColumn: number): void {
     let name = '';
     while (!this.isAtEnd() && this.isAlphaNumeric(this.peek())) {
       name += this.advance();
     }
+    name = this.scanDottedMnemonic(name);
 
     const upperName = name.toUpperCase();
     const lowerName = name.toLowerCase();
@@ -415,6 +698,18 @@ export class Lexer {
       return;
     }
 
+    // Check if it's a floating-point register (f0-f31 or an ABI name)
+    const fpMatch = /^f([0-9]|[12][0-9]|3[01])$/.exec(lowerName);
+    if (fpMatch || lowerName in FP_REGISTER_ALIASES) {
+      this.tokens.push({
+        type: TokenType.FP_REGISTER,
+        value: fpMatch ? parseInt(fpMatch[1], 10) : FP_REGISTER_ALIASES[lowerName],
+        line: startLine,
+        column: startColumn,
+      });
+      return;
+    }
+
     // Check if it's an instruction
     if (INSTRUCTIONS.has(upperName)) {
       this.tokens.push({
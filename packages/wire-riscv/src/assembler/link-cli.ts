@@ -0,0 +1,208 @@
+#!/usr/bin/env bun
+/**
+ * RISC-V Linker CLI
+ *
+ * Usage: riscv-ld <input.o|input.asm>... [-o output] [-T script] [--format elf|risv] [--base addr]
+ *
+ * Links objects written by `riscv-asm -c` into an executable. Inputs
+ * that are not .o files are assembled on the fly.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { Assembler } from './assembler.js';
+import { diskResolver } from './cli.js';
+import { parseObject } from './object.js';
+import {
+  DEFAULT_LINKER_SCRIPT,
+  Linker,
+  LinkerInput,
+  LinkerScript,
+  parseLinkerScript,
+  toElfExecutable,
+  toRisvExecutable,
+} from './linker.js';
+
+type OutputFormat = 'elf' | 'risv';
+
+interface CliOptions {
+  inputFiles: string[];
+  outputFile: string;
+  scriptFile: string | null;
+  format: OutputFormat;
+  /** Link base overriding the script's; null to keep it */
+  base: number | null;
+}
+
+function parseNumber(text: string): number {
+  const value = /^0x/i.test(text) ? parseInt(text.slice(2), 16) : parseInt(text, 10);
+  return Number.isNaN(value) || value < 0 ? -1 : value;
+}
+
+function parseArgs(args: string[]): CliOptions | null {
+  const cliArgs = args.slice(2); // Skip bun and script path
+
+  if (cliArgs.length === 0) {
+    return null;
+  }
+
+  const inputFiles: string[] = [];
+  let outputFile = '';
+  let scriptFile: string | null = null;
+  let format: OutputFormat = 'elf';
+  let base: number | null = null;
+
+  for (let i = 0; i < cliArgs.length; i++) {
+    const arg = cliArgs[i];
+
+    if (arg === '-o' || arg === '--output' || arg === '-T' || arg === '--format' || arg === '--base') {
+      if (i + 1 >= cliArgs.length) {
+        console.error(`Error: ${arg} requires a value`);
+        return null;
+      }
+      const value = cliArgs[++i];
+      if (arg === '-T') {
+        scriptFile = value;
+      } else if (arg === '--format') {
+        if (value !== 'elf' && value !== 'risv') {
+          console.error('Error: --format must be elf or risv');
+          return null;
+        }
+        format = value;
+      } else if (arg === '--base') {
+        base = parseNumber(value);
+        if (base < 0) {
+          console.error(`Error: Invalid number for --base: ${value}`);
+          return null;
+        }
+      } else {
+        outputFile = value;
+      }
+    } else if (arg === '-h' || arg === '--help') {
+      return null;
+    } else if (!arg.startsWith('-')) {
+      inputFiles.push(arg);
+    } else {
+      console.error(`Error: Unknown option '${arg}'`);
+      return null;
+    }
+  }
+
+  if (inputFiles.length === 0) {
+    console.error('Error: No input files specified');
+    return null;
+  }
+
+  // Default output file
+  if (!outputFile) {
+    outputFile = inputFiles[0].replace(/\.(o|asm|s)$/i, '') + (format === 'elf' ? '.elf' : '.bin');
+  }
+
+  return { inputFiles, outputFile, scriptFile, format, base };
+}
+
+function printUsage(): void {
+  console.log(`RISC-V Linker
+
+Usage: riscv-ld <input.o|input.asm>... [options]
+
+Options:
+  -o, --output <file>  Output file (default: <first input>.elf, or .bin for RISV)
+  -T <script>          Linker script (default: .text, .rodata, .data, .bss from 0x1000)
+  --format <format>    elf (default) or risv; RISV executables must be loaded at the base
+  --base <addr>        Address of the first section, overriding the script
+  -h, --help           Show this help message
+
+Examples:
+  riscv-asm lib.asm -c && riscv-asm main.asm -c
+  riscv-ld main.o lib.o -o main.elf
+  riscv-ld main.asm lib.asm -T board.ld --format risv`);
+}
+
+/**
+ * Read an input as an object, assembling sources; reports errors and
+ * returns null on failure
+ */
+function readInput(file: string): LinkerInput | null {
+  let text: string;
+  try {
+    text = readFileSync(file, 'utf-8');
+  } catch (e) {
+    const err = e as NodeJS.ErrnoException;
+    console.error(`Error: ${err.code === 'ENOENT' ? 'File not found' : 'Cannot read file'}: ${file}`);
+    return null;
+  }
+
+  if (/\.o$/i.test(file)) {
+    try {
+      return { name: file, object: parseObject(text) };
+    } catch (e) {
+      console.error(`Error: ${file}: ${(e as Error).message}`);
+      return null;
+    }
+  }
+
+  const { object, errors } = new Assembler(text, { resolver: diskResolver, fileName: file }).assembleObject();
+  for (const error of errors) {
+    console.error(`${error.file ?? file}:${error.line}:${error.column}: ${error.message}`);
+  }
+  return errors.length > 0 ? null : { name: file, object };
+}
+
+export function main(args: string[] = process.argv): number {
+  const options = parseArgs(args);
+
+  if (!options) {
+    printUsage();
+    return args.some(a => a === '-h' || a === '--help') ? 0 : 1;
+  }
+
+  let script: LinkerScript = DEFAULT_LINKER_SCRIPT;
+  if (options.scriptFile) {
+    try {
+      script = parseLinkerScript(readFileSync(options.scriptFile, 'utf-8'));
+    } catch (e) {
+      console.error(`Error: ${options.scriptFile}: ${(e as Error).message}`);
+      return 1;
+    }
+  }
+  if (options.base !== null) {
+    script = { ...script, base: options.base };
+  }
+
+  const inputs: LinkerInput[] = [];
+  for (const file of options.inputFiles) {
+    const input = readInput(file);
+    if (!input) {
+      return 1;
+    }
+    inputs.push(input);
+  }
+
+  const result = new Linker(script).link(inputs);
+  if (result.errors.length > 0) {
+    for (const error of result.errors) {
+      console.error(`Error: ${error}`);
+    }
+    return 1;
+  }
+
+  const executable = options.format === 'elf' ? toElfExecutable(result) : toRisvExecutable(result);
+  try {
+    writeFileSync(options.outputFile, executable);
+  } catch (e) {
+    console.error(`Error: Cannot write file: ${options.outputFile}`);
+    return 1;
+  }
+
+  console.log(`Linked ${inputs.length} objects to ${options.outputFile} (entry 0x${result.entry.toString(16)})`);
+  for (const section of result.sections) {
+    console.log(`  ${section.name.padEnd(10)} 0x${section.address.toString(16).padStart(8, '0')} ${section.size} bytes`);
+  }
+
+  return 0;
+}
+
+// Run if executed directly
+if (import.meta.main) {
+  process.exit(main());
+}
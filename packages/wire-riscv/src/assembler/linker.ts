@@ -0,0 +1,628 @@
+/**
+ * RISC-V Linker
+ *
+ * Combines relocatable objects from Assembler.assembleObject() into one
+ * executable image. A linker script lists the output sections in
+ * address order and the input sections each one collects; input
+ * sections are placed at their alignment, global symbols are resolved
+ * across objects (local symbols stay within their object), and every
+ * relocation is patched with the final address.
+ *
+ * The result can be written as a RISV executable, which must be loaded
+ * at the link base, or as an ELF32 executable with one PT_LOAD segment
+ * per output section.
+ */
+
+import { ObjectFile, ObjectSection, RELOCATION, Relocation, isNobitsSection } from './object.js';
+import { hiPart } from './expression.js';
+import { ExecutableBuilder } from '../emulator/program-loader.js';
+import { ElfSegmentData, ElfSymbol, PF, STB, STT, buildElf } from '../emulator/elf.js';
+
+/**
+ * An object to link, named for error messages
+ */
+export interface LinkerInput {
+  name: string;
+  object: ObjectFile;
+}
+
+/**
+ * An output section of a linker script
+ */
+export interface OutputSection {
+  name: string;
+  /** Input section names to collect, in order; `*` matches any text (e.g. .text.*) */
+  inputs: string[];
+  /** Fixed start address (default: after the previous section) */
+  address?: number;
+  /** Minimum alignment of the start address */
+  align?: number;
+}
+
+/**
+ * Section layout of an executable
+ */
+export interface LinkerScript {
+  /** Address of the first output section */
+  base: number;
+  /** Entry symbol (default _start, else the start of the image) */
+  entry?: string;
+  sections: OutputSection[];
+}
+
+/**
+ * Layout used without a linker script: code, read-only data, data and
+ * BSS from 0x1000, the program base of the default memory map
+ */
+export const DEFAULT_LINKER_SCRIPT: Readonly<LinkerScript> = {
+  base: 0x1000,
+  sections: [
+    { name: '.text', inputs: ['.text', '.text.*'] },
+    { name: '.rodata', inputs: ['.rodata', '.rodata.*', '.srodata', '.srodata.*'] },
+    { name: '.data', inputs: ['.data', '.data.*', '.sdata', '.sdata.*'] },
+    { name: '.bss', inputs: ['.bss', '.bss.*', '.sbss', '.sbss.*'] },
+  ],
+};
+
+/**
+ * An output section with its final address
+ */
+export interface PlacedSection {
+  name: string;
+  address: number;
+  size: number;
+  /** Zero-filled, with no contents in the image (.bss) */
+  nobits: boolean;
+}
+
+export interface LinkResult {
+  /** Contents from `base` to the end of the last section with contents */
+  image: Uint8Array;
+  /** Address of the first byte of the image */
+  base: number;
+  entry: number;
+  /** Zero-filled bytes after the image */
+  bssSize: number;
+  sections: PlacedSection[];
+  /** Addresses of the global symbols */
+  symbols: Map<string, number>;
+  errors: string[];
+}
+
+/** An input section with its final address */
+interface Placement {
+  input: number;
+  section: ObjectSection;
+  address: number;
+}
+
+/** A global symbol with the object that defines it */
+interface GlobalSymbol {
+  address: number;
+  input: number;
+}
+
+/** Largest forward B-type offset (±4 KiB) */
+const BRANCH_RANGE = 1 << 12;
+
+/** Largest forward J-type offset (±1 MiB) */
+const JAL_RANGE = 1 << 20;
+
+export class Linker {
+  private script: LinkerScript;
+  private inputs: LinkerInput[] = [];
+  private placements: Placement[] = [];
+  private globals: Map<string, GlobalSymbol> = new Map();
+  private errors: string[] = [];
+
+  constructor(script: LinkerScript = DEFAULT_LINKER_SCRIPT) {
+    this.script = script;
+  }
+
+  /**
+   * Link objects into an executable image
+   */
+  link(inputs: LinkerInput[]): LinkResult {
+    this.inputs = inputs;
+    this.placements = [];
+    this.globals = new Map();
+    this.errors = [];
+
+    const sections = this.layout();
+    this.collectGlobals();
+
+    const base = sections.length > 0 ? sections[0].address : this.script.base;
+    const end = sections.reduce((max, section) => Math.max(max, section.address + section.size), base);
+    const imageEnd = sections
+      .filter(section => !section.nobits)
+      .reduce((max, section) => Math.max(max, section.address + section.size), base);
+    const image = new Uint8Array(imageEnd - base);
+
+    for (const placement of this.placements) {
+      if (isNobitsSection(placement.section.name)) {
+        continue;
+      }
+      image.set(placement.section.data, placement.address - base);
+      for (const relocation of placement.section.relocations) {
+        this.relocate(image, base, placement, relocation);
+      }
+    }
+
+    const symbols = new Map([...this.globals].map(([name, symbol]) => [name, symbol.address]));
+    return {
+      image,
+      base,
+      entry: this.findEntry(base),
+      bssSize: end - imageEnd,
+      sections,
+      symbols,
+      errors: this.errors,
+    };
+  }
+
+  /**
+   * Assign addresses to the output sections and the input sections
+   * they collect
+   */
+  private layout(): PlacedSection[] {
+    const placed = new Set<ObjectSection>();
+    const sections: PlacedSection[] = [];
+    let address = this.script.base;
+
+    for (const output of this.script.sections) {
+      const patterns = output.inputs.map(toPattern);
+      const members: Placement[] = [];
+      // Like `*(.text) *(.text.*)`: each pattern collects from every object in turn
+      for (const pattern of patterns) {
+        this.inputs.forEach((input, index) => {
+          for (const section of input.object.sections) {
+            if (!placed.has(section) && pattern.test(section.name)) {
+              placed.add(section);
+              members.push({ input: index, section, address: 0 });
+            }
+          }
+        });
+      }
+
+      if (output.address !== undefined) {
+        address = output.address;
+      }
+      if (members.length === 0) {
+        continue;
+      }
+      const align = Math.max(output.align ?? 1, ...members.map(member => member.section.align));
+      const start = alignUp(address, align);
+      address = start;
+      for (const member of members) {
+        address = alignUp(address, member.section.align);
+        member.address = address;
+        address += member.section.data.length;
+      }
+      this.placements.push(...members);
+      sections.push({
+        name: output.name,
+        address: start,
+        size: address - start,
+        nobits: members.every(member => isNobitsSection(member.section.name)),
+      });
+    }
+
+    this.inputs.forEach((input) => {
+      for (const section of input.object.sections) {
+        if (!placed.has(section)) {
+          this.errors.push(`${input.name}: section ${section.name} is not placed by the linker script`);
+        }
+      }
+    });
+
+    const ordered = [...sections].sort((a, b) => a.address - b.address);
+    for (let i = 1; i < ordered.length; i++) {
+      const previous = ordered[i - 1];
+      if (ordered[i].address < previous.address + previous.size) {
+        this.errors.push(`Section ${ordered[i].name} overlaps ${previous.name}`);
+      }
+    }
+    return ordered;
+  }
+
+  /**
+   * Collect the addresses of the global symbols, reporting duplicates
+   */
+  private collectGlobals(): void {
+    this.inputs.forEach((input, index) => {
+      for (const symbol of input.object.symbols) {
+        if (!symbol.defined || !symbol.global) {
+          continue;
+        }
+        const existing = this.globals.get(symbol.name);
+        if (existing) {
+          this.errors.push(
+            `Duplicate symbol '${symbol.name}' in ${this.inputs[existing.input].name} and ${input.name}`
+          );
+          continue;
+        }
+        const address = this.symbolAddress(index, symbol.section, symbol.value);
+        if (address !== null) {
+          this.globals.set(symbol.name, { address, input: index });
+        }
+      }
+    });
+  }
+
+  /**
+   * Resolve a symbol referenced by an object: its own local symbols
+   * first, then the globals of every object
+   */
+  private resolve(input: number, name: string): number | null {
+    const local = this.inputs[input].object.symbols.find(
+      symbol => symbol.name === name && symbol.defined && !symbol.global
+    );
+    if (local) {
+      return this.symbolAddress(input, local.section, local.value);
+    }
+    return this.globals.get(name)?.address ?? null;
+  }
+
+  /**
+   * Final address of a symbol defined in an object (absolute symbols
+   * keep their value)
+   */
+  private symbolAddress(input: number, section: string | null, value: number): number | null {
+    if (section === null) {
+      return value;
+    }
+    const placement = this.placements.find(
+      candidate => candidate.input === input && candidate.section.name === section
+    );
+    return placement ? (placement.address + value) >>> 0 : null;
+  }
+
+  /**
+   * Patch one relocated field in the image
+   */
+  private relocate(image: Uint8Array, base: number, placement: Placement, relocation: Relocation): void {
+    const input = this.inputs[placement.input].name;
+    const target = this.resolve(placement.input, relocation.symbol);
+    if (target === null) {
+      const message = `${input}: undefined reference to '${relocation.symbol}'`;
+      if (!this.errors.includes(message)) {
+        this.errors.push(message);
+      }
+      return;
+    }
+
+    const pc = placement.address + relocation.offset;
+    const at = pc - base;
+    const value = (target + relocation.addend) >>> 0;
+    const offset = (value - pc) | 0;
+    const where = `${input}: ${placement.section.name}+0x${relocation.offset.toString(16)}`;
+    const instruction = readWord(image, at);
+
+    switch (relocation.type) {
+      case RELOCATION.ABS32:
+        writeWord(image, at, value);
+        break;
+      case RELOCATION.BRANCH:
+        if (offset < -BRANCH_RANGE || offset >= BRANCH_RANGE) {
+          this.errors.push(`${where}: branch to '${relocation.symbol}' is out of range`);
+          return;
+        }
+        writeWord(image, at, (instruction & 0x01fff07f) | branchImmediate(offset));
+        break;
+      case RELOCATION.JAL:
+        if (offset < -JAL_RANGE || offset >= JAL_RANGE) {
+          this.errors.push(`${where}: jump to '${relocation.symbol}' is out of range`);
+          return;
+        }
+        writeWord(image, at, (instruction & 0x00000fff) | jumpImmediate(offset));
+        break;
+      case RELOCATION.CALL: {
+        // AUIPC + JALR
+        const upper = ((offset + 0x800) >> 12) & 0xfffff;
+        writeWord(image, at, (instruction & 0x00000fff) | (upper << 12));
+        writeWord(image, at + 4, (readWord(image, at + 4) & 0x000fffff) | ((offset & 0xfff) << 20));
+        break;
+      }
+      case RELOCATION.HI20:
+        writeWord(image, at, (instruction & 0x00000fff) | ((((value + 0x800) >>> 12) & 0xfffff) << 12));
+        break;
+      case RELOCATION.LO12_I:
+        writeWord(image, at, (instruction & 0x000fffff) | ((value & 0xfff) << 20));
+        break;
+      case RELOCATION.LO12_S:
+        writeWord(image, at, (instruction & 0x01fff07f) | (((value >> 5) & 0x7f) << 25) | ((value & 0x1f) << 7));
+        break;
+      case RELOCATION.PCREL_HI20:
+        writeWord(image, at, (instruction & 0x00000fff) | (hiPart(offset) << 12));
+        break;
+      case RELOCATION.PCREL_LO12_I:
+      case RELOCATION.PCREL_LO12_S: {
+        // The symbol labels the auipc whose offset this completes
+        const hi = this.pcrelOffset(placement, target);
+        if (hi === null) {
+          this.errors.push(`${where}: no %pcrel_hi at '${relocation.symbol}'`);
+          return;
+        }
+        const lo = hi & 0xfff;
+        writeWord(image, at, relocation.type === RELOCATION.PCREL_LO12_I
+          ? (instruction & 0x000fffff) | (lo << 20)
+          : (instruction & 0x01fff07f) | (((lo >> 5) & 0x7f) << 25) | ((lo & 0x1f) << 7));
+        break;
+      }
+      default:
+        this.errors.push(`${where}: unsupported relocation type ${relocation.type}`);
+    }
+  }
+
+  /**
+   * Offset computed by the PCREL_HI20 relocation at an address in a
+   * placed section, or null if there is none
+   */
+  private pcrelOffset(placement: Placement, address: number): number | null {
+    const hi = placement.section.relocations.find(
+      r => r.type === RELOCATION.PCREL_HI20 && placement.address + r.offset === address
+    );
+    const target = hi ? this.resolve(placement.input, hi.symbol) : null;
+    return hi && target !== null ? (target + hi.addend - address) | 0 : null;
+  }
+
+  /**
+   * Address of the entry symbol, or the start of the image when the
+   * script names none and there is no global _start
+   */
+  private findEntry(base: number): number {
+    const name = this.script.entry ?? '_start';
+    const entry = this.globals.get(name);
+    if (entry) {
+      return entry.address;
+    }
+    if (this.script.entry !== undefined) {
+      this.errors.push(`Entry symbol '${name}' is not defined`);
+    }
+    return base;
+  }
+}
+
+/**
+ * Parse a linker script
+ *
+ * Accepts the subset of GNU ld syntax this linker implements:
+ *
+ *   ENTRY(_start)
+ *   SECTIONS {
+ *     . = 0x1000;
+ *     .text : { *(.text) *(.text.*) }
+ *     . = ALIGN(16);
+ *     .data 0x8000 : { *(.data) }
+ *   }
+ *
+ * `. = address` before the first section sets the base, later ones the
+ * address of the next section; `. = ALIGN(n)` aligns the next section.
+ * Input files are always `*`. Comments use C syntax.
+ *
+ * @throws Error on syntax errors
+ */
+export function parseLinkerScript(source: string): LinkerScript {
+  const tokens: Array<{ text: string; line: number }> = [];
+  const pattern = /\/\*[^]*?\*\/|\s+|0[xX][0-9a-fA-F]+|\d+|[A-Za-z_.][\w.*$]*|\S/g;
+  let line = 1;
+  for (const match of source.matchAll(pattern)) {
+    const text = match[0];
+    if (!/^\s|^\/\*/.test(text)) {
+      tokens.push({ text, line });
+    }
+    line += text.split('\n').length - 1;
+  }
+
+  let pos = 0;
+  const peek = () => tokens[pos]?.text ?? '';
+  const fail = (message: string): never => {
+    const at = tokens[Math.min(pos, tokens.length - 1)];
+    throw new Error(`Linker script line ${at ? at.line : line}: ${message}`);
+  };
+  const expect = (text: string) => {
+    if (peek() !== text) {
+      fail(`expected '${text}', got '${peek() || 'end of file'}'`);
+    }
+    pos++;
+  };
+  const number = (): number => {
+    const text = peek();
+    if (!/^(0[xX][0-9a-fA-F]+|\d+)$/.test(text)) {
+      fail(`expected a number, got '${text || 'end of file'}'`);
+    }
+    pos++;
+    return Number(text) >>> 0;
+  };
+  const name = (): string => {
+    const text = peek();
+    if (!/^[A-Za-z_.]/.test(text)) {
+      fail(`expected a name, got '${text || 'end of file'}'`);
+    }
+    pos++;
+    return text;
+  };
+
+  const script: LinkerScript = { base: DEFAULT_LINKER_SCRIPT.base, sections: [] };
+  let address: number | undefined;
+  let align: number | undefined;
+
+  while (pos < tokens.length) {
+    const keyword = name();
+    if (keyword === 'ENTRY') {
+      expect('(');
+      script.entry = name();
+      expect(')');
+      continue;
+    }
+    if (keyword !== 'SECTIONS') {
+      fail(`unknown command '${keyword}'`);
+    }
+    expect('{');
+    while (peek() !== '}') {
+      if (peek() === '.') {
+        // Location counter assignment
+        pos++;
+        expect('=');
+        if (peek() === 'ALIGN') {
+          pos++;
+          expect('(');
+          align = number();
+          expect(')');
+        } else if (script.sections.length === 0 && address === undefined) {
+          script.base = number();
+        } else {
+          address = number();
+        }
+        expect(';');
+        continue;
+      }
+
+      const section: OutputSection = { name: name(), inputs: [] };
+      if (peek() !== ':') {
+        address = number();
+      }
+      expect(':');
+      expect('{');
+      while (peek() !== '}') {
+        expect('*');
+        expect('(');
+        while (peek() !== ')') {
+          section.inputs.push(name());
+        }
+        expect(')');
+      }
+      expect('}');
+      if (address !== undefined) {
+        section.address = address;
+      }
+      if (align !== undefined) {
+        section.align = align;
+      }
+      address = align = undefined;
+      script.sections.push(section);
+    }
+    expect('}');
+  }
+  return script;
+}
+
+/**
+ * Write a linked image as a RISV executable: the image up to the end
+ * of the last code section as code, the rest as data, then the BSS.
+ * The executable only runs when loaded at `result.base`.
+ *
+ * @param stackSize Stack size to request (default: the builder's)
+ */
+export function toRisvExecutable(result: LinkResult, stackSize?: number): Uint8Array {
+  const codeEnd = result.sections
+    .filter(section => isCodeSection(section.name) && !section.nobits)
+    .reduce((max, section) => Math.max(max, section.address + section.size - result.base), 0);
+  const builder = new ExecutableBuilder()
+    .setCode(result.image.subarray(0, codeEnd))
+    .setData(result.image.subarray(codeEnd))
+    .setBssSize(result.bssSize)
+    .setEntryPoint(result.entry - result.base);
+  if (stackSize !== undefined) {
+    builder.setStackSize(stackSize);
+  }
+  return builder.build();
+}
+
+/**
+ * Write a linked image as an ELF32 executable with one segment per
+ * output section and the global symbols
+ */
+export function toElfExecutable(result: LinkResult): Uint8Array {
+  const segments: ElfSegmentData[] = result.sections.map(section => ({
+    vaddr: section.address,
+    data: section.nobits
+      ? new Uint8Array(0)
+      : result.image.subarray(section.address - result.base, section.address - result.base + section.size),
+    memSize: section.size,
+    flags: isCodeSection(section.name)
+      ? PF.R | PF.X
+      : /^\.s?rodata(\.|$)/.test(section.name) ? PF.R : PF.R | PF.W,
+  }));
+
+  const symbols: ElfSymbol[] = [...result.symbols].map(([name, value]) => {
+    const section = result.sections.find(
+      candidate => value >= candidate.address && value < candidate.address + candidate.size
+    );
+    return {
+      name,
+      value,
+      size: 0,
+      type: !section ? STT.NOTYPE : isCodeSection(section.name) ? STT.FUNC : STT.OBJECT,
+      binding: STB.GLOBAL,
+    };
+  });
+  return buildElf(result.entry, segments, symbols);
+}
+
+/**
+ * Check whether a section holds code
+ */
+function isCodeSection(name: string): boolean {
+  return /^\.text(\.|$)/.test(name);
+}
+
+/**
+ * Convert an input section pattern to a regular expression
+ */
+function toPattern(input: string): RegExp {
+  return new RegExp(`^${input.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')}$`);
+}
+
+/**
+ * Round an address up to a multiple of `align`
+ */
+function alignUp(address: number, align: number): number {
+  return Math.ceil(address / align) * align;
+}
+
+/**
+ * Immediate bits of a B-type instruction
+ */
+function branchImmediate(offset: number): number {
+  return (
+    (((offset >> 12) & 0x1) << 31) |
+    (((offset >> 5) & 0x3f) << 25) |
+    (((offset >> 1) & 0xf) << 8) |
+    (((offset >> 11) & 0x1) << 7)
+  );
+}
+
+/**
+ * Immediate bits of a J-type instruction
+ */
+function jumpImmediate(offset: number): number {
+  return (
+    (((offset >> 20) & 0x1) << 31) |
+    (((offset >> 1) & 0x3ff) << 21) |
+    (((offset >> 11) & 0x1) << 20) |
+    (((offset >> 12) & 0xff) << 12)
+  );
+}
+
+/**
+ * Read a 32-bit word from buffer (little-endian)
+ */
+function readWord(data: Uint8Array, offset: number): number {
+  return (
+    data[offset] |
+    (data[offset + 1] << 8) |
+    (data[offset + 2] << 16) |
+    (data[offset + 3] << 24)
+  ) >>> 0;
+}
+
+/**
+ * Write a 32-bit word to buffer (little-endian)
+ */
+function writeWord(data: Uint8Array, offset: number, value: number): void {
+  data[offset] = value & 0xff;
+  data[offset + 1] = (value >> 8) & 0xff;
+  data[offset + 2] = (value >> 16) & 0xff;
+  data[offset + 3] = (value >> 24) & 0xff;
+}
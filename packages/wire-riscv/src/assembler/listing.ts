@@ -0,0 +1,281 @@
+/**
+ * Assembler Listings and Symbol Maps
+ *
+ * A listing shows every source line with the address and bytes it
+ * assembled to. The lines a macro, .rept or .incbin expands to follow
+ * the line that produced them, marked `+`; the instructions of a
+ * pseudo-instruction follow it, marked `>`, as the disassembler prints
+ * them. Lines of an included file follow its .include line.
+ *
+ * A symbol map lists the symbols by address with their section and
+ * size, one per line with the address first and the name last, the
+ * form riscv-disasm reads with --symbols.
+ */
+
+import { disassemble } from '../emulator/disassembler.js';
+import { isCompressed } from '../emulator/compressed.js';
+import { PreprocessedSource } from './preprocessor.js';
+import { isNumericLabel } from './lexer.js';
+
+/**
+ * Bytes a statement emitted, as the assembler records them in pass 2
+ */
+export interface EmittedStatement {
+  /** Line of the preprocessed source, from 1 */
+  line: number;
+  address: number;
+  bytes: Uint8Array;
+  /** Mnemonic of an instruction, as parsed; undefined for directives */
+  mnemonic?: string;
+}
+
+/**
+ * A source line, a line it expanded to (macro, .rept, .incbin), or an
+ * instruction a pseudo-instruction expanded to
+ */
+export type ListingLineKind = 'source' | 'expansion' | 'instruction';
+
+export interface ListingLine {
+  kind: ListingLineKind;
+  /** Line number of a source line */
+  line?: number;
+  /** File of a source line; undefined for a source assembled without a name */
+  file?: string;
+  /** Address of the first byte; null when the line emitted nothing */
+  address: number | null;
+  bytes: Uint8Array;
+  /** Whether the bytes are one instruction, shown as a word */
+  instruction: boolean;
+  text: string;
+}
+
+/**
+ * A symbol in a symbol map
+ */
+export interface MapSymbol {
+  name: string;
+  address: number;
+  /** Section of a label; null for .equ symbols */
+  section: string | null;
+  /** Bytes up to the next symbol or the end of the section */
+  size: number;
+}
+
+/** Data bytes shown per listing line */
+const LISTING_BYTES = 4;
+
+/** Listing lines long data is shown on */
+const LISTING_DATA_LINES = 4;
+
+/**
+ * Build a listing from the preprocessed source and what its statements
+ * emitted
+ *
+ * @param readSource Text of the main source (file undefined or the
+ *   main file's name) or of an included file
+ */
+export function buildListing(
+  preprocessed: PreprocessedSource,
+  statements: EmittedStatement[],
+  readSource: (file: string | undefined) => string
+): ListingLine[] {
+  const sources = new Map<string | undefined, string[]>();
+  const sourceLines = (file: string | undefined): string[] => {
+    let lines = sources.get(file);
+    if (!lines) {
+      lines = readSource(file).split('\n');
+      if (lines.length > 1 && lines[lines.length - 1] === '') {
+        lines.pop(); // Final newline
+      }
+      sources.set(file, lines);
+    }
+    return lines;
+  };
+
+  const listing: ListingLine[] = [];
+  /** Files being listed, included ones last, with the next line of each to list */
+  const open: Array<{ file: string | undefined; next: number }> = [];
+  // Lines that emitted nothing and left no trace in the preprocessed
+  // source: comments in macro definitions, .if, .endm and so on
+  const listUpTo = (entry: { file: string | undefined; next: number }, end: number): void => {
+    const lines = sourceLines(entry.file);
+    for (; entry.next < end && entry.next <= lines.length; entry.next++) {
+      listing.push(sourceLine(entry.file, entry.next, lines[entry.next - 1]));
+    }
+  };
+
+  let index = 0;
+  preprocessed.source.split('\n').forEach((text, i) => {
+    const location = preprocessed.locations[i];
+    let depth = open.map(entry => entry.file).lastIndexOf(location.file);
+    if (depth < 0) {
+      open.push({ file: location.file, next: 1 });
+      depth = open.length - 1;
+    }
+    while (open.length - 1 > depth) {
+      listUpTo(open.pop()!, Infinity);
+    }
+    const entry = open[depth];
+
+    const emitted: EmittedStatement[] = [];
+    for (; index < statements.length && statements[index].line === i + 1; index++) {
+      emitted.push(statements[index]);
+    }
+
+    let row: ListingLine | null = null;
+    const lines = sourceLines(location.file);
+    if (location.line >= entry.next && location.line <= lines.length) {
+      listUpTo(entry, location.line);
+      const original = lines[location.line - 1];
+      entry.next = location.line + 1;
+      row = sourceLine(location.file, location.line, original);
+      listing.push(row);
+      if (text !== original) {
+        row = null;
+      }
+    }
+    if (!row && (text.trim() !== '' || emitted.length > 0)) {
+      row = { kind: 'expansion', address: null, bytes: new Uint8Array(0), instruction: false, text: text.trim() };
+      listing.push(row);
+    }
+    for (const statement of emitted) {
+      addStatement(listing, row!, statement);
+    }
+  });
+  while (open.length > 0) {
+    listUpTo(open.pop()!, Infinity);
+  }
+  return listing;
+}
+
+function sourceLine(file: string | undefined, line: number, text: string): ListingLine {
+  return { kind: 'source', line, ...(file ? { file } : {}), address: null, bytes: new Uint8Array(0), instruction: false, text };
+}
+
+/**
+ * Put what a statement emitted on its listing line, or on lines of their
+ * own for the instructions of a pseudo-instruction
+ */
+function addStatement(listing: ListingLine[], row: ListingLine, statement: EmittedStatement): void {
+  if (statement.mnemonic !== undefined) {
+    const instructions: ListingLine[] = [];
+    for (let offset = 0; offset < statement.bytes.length;) {
+      const size = isCompressed(statement.bytes[offset]) ? 2 : 4;
+      const bytes = statement.bytes.subarray(offset, offset + size);
+      const address = statement.address + offset;
+      const text = disassemble(littleEndian(bytes), address);
+      instructions.push({ kind: 'instruction', address, bytes, instruction: true, text });
+      offset += size;
+    }
+    const pseudo = instructions.length > 1 ||
+      (instructions.length === 1 && instructions[0].text.split(' ')[0] !== statement.mnemonic.toLowerCase());
+    if (pseudo) {
+      listing.push(...instructions);
+      return;
+    }
+  }
+
+  if (row.address === null) {
+    row.address = statement.address;
+    row.bytes = statement.bytes;
+    row.instruction = statement.mnemonic !== undefined;
+  } else {
+    // A second statement on the line
+    listing.push({ ...row, kind: 'expansion', address: statement.address, bytes: statement.bytes, text: '' });
+  }
+}
+
+function littleEndian(bytes: Uint8Array): number {
+  let value = 0;
+  for (let i = bytes.length - 1; i >= 0; i--) {
+    value = (value << 8) | bytes[i];
+  }
+  return value >>> 0;
+}
+
+/**
+ * Format a listing as text: line number, address, bytes and source
+ *
+ * Instructions show as words; data shows LISTING_BYTES bytes per line
+ * in memory order, up to LISTING_DATA_LINES lines.
+ */
+export function formatListing(listing: ListingLine[]): string {
+  const out: string[] = [];
+  let file = listing.find(line => line.kind === 'source')?.file;
+  const row = (line: string, address: number | null, bytes: string, marker: string, text: string) =>
+    `${line.padStart(5)}  ${address === null ? ''.padEnd(8) : hex8(address)}  ${bytes.padEnd(8)} ${marker} ${text}`.trimEnd();
+
+  for (const line of listing) {
+    if (line.kind === 'source' && line.file !== file) {
+      file = line.file;
+      out.push(`==> ${file ?? '(source)'} <==`);
+    }
+    const number = line.line !== undefined ? String(line.line) : '';
+    const marker = line.kind === 'expansion' ? '+' : line.kind === 'instruction' ? '>' : ' ';
+
+    if (line.instruction) {
+      const word = littleEndian(line.bytes).toString(16).padStart(line.bytes.length * 2, '0');
+      out.push(row(number, line.address, word, marker, line.text));
+      continue;
+    }
+    const chunks = Math.min(Math.ceil(line.bytes.length / LISTING_BYTES), LISTING_DATA_LINES);
+    out.push(row(number, line.address, dataBytes(line.bytes.subarray(0, LISTING_BYTES)), marker, line.text));
+    for (let chunk = 1; chunk < chunks; chunk++) {
+      const offset = chunk * LISTING_BYTES;
+      out.push(row('', line.address! + offset, dataBytes(line.bytes.subarray(offset, offset + LISTING_BYTES)), ' ', ''));
+    }
+  }
+  return out.join('\n');
+}
+
+function dataBytes(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function hex8(value: number): string {
+  return (value >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Sort symbols by address and size them
+ *
+ * A label's size runs to the next label at a higher address in the same
+ * address space, or to the end of it: each section in an object, the
+ * whole image in flat output. Numeric local labels (1:, 2:, ...) are
+ * left out, so they don't split the symbols around them.
+ *
+ * @param sections Section of each label; other symbols are .equ constants
+ * @param end End of a section's address space
+ */
+export function buildSymbolMap(
+  symbols: Map<string, number>,
+  sections: Map<string, string>,
+  end: (section: string) => number,
+  flat: boolean
+): MapSymbol[] {
+  const map: MapSymbol[] = [...symbols]
+    .filter(([name]) => !isNumericLabel(name))
+    .map(([name, address]) => ({ name, address: address >>> 0, section: sections.get(name) ?? null, size: 0 }))
+    .sort((a, b) => a.address - b.address || (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+  const space = (symbol: MapSymbol) => (flat ? '' : symbol.section);
+  for (const symbol of map) {
+    if (symbol.section === null) {
+      continue;
+    }
+    const next = map.find(other =>
+      other.section !== null && space(other) === space(symbol) && other.address > symbol.address);
+    symbol.size = Math.max(0, (next ? next.address : end(symbol.section)) - symbol.address);
+  }
+  return map;
+}
+
+/**
+ * Format a symbol map, one `<address> <section> <size> <name>` line per
+ * symbol under a comment naming the columns
+ */
+export function formatSymbolMap(map: MapSymbol[]): string {
+  const lines = map.map(symbol =>
+    `${hex8(symbol.address)}  ${(symbol.section ?? '*ABS*').padEnd(10)} ${String(symbol.size).padStart(6)}  ${symbol.name}`);
+  return ['# address  section      size  name', ...lines].join('\n');
+}
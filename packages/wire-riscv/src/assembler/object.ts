@@ -0,0 +1,150 @@
+/**
+ * Relocatable Object Files
+ *
+ * Assembler.assembleObject() produces an object: the contents of each
+ * section (addresses start at 0 in every section), the symbols the
+ * source defines or references, and relocations that mark the
+ * instruction fields the linker fills in once sections have addresses.
+ * Relocation types use the numbers of the RISC-V ELF psABI.
+ *
+ * Objects are stored as JSON (`.o` files written by `riscv-asm -c`),
+ * with section contents as hex strings.
+ */
+
+/** Relocation types (RISC-V ELF psABI numbers) */
+export const RELOCATION = {
+  /** 32-bit absolute address (R_RISCV_32), for .word */
+  ABS32: 1,
+  /** B-type branch offset (±4 KiB) */
+  BRANCH: 16,
+  /** J-type jump offset (±1 MiB) */
+  JAL: 17,
+  /** AUIPC + JALR pair of call/tail, pc-relative */
+  CALL: 18,
+  /** U-type upper 20 bits of an offset from pc (%pcrel_hi) */
+  PCREL_HI20: 23,
+  /** I-type lower 12 bits of the PCREL_HI20 offset at the symbol (%pcrel_lo) */
+  PCREL_LO12_I: 24,
+  /** S-type lower 12 bits of the PCREL_HI20 offset at the symbol (%pcrel_lo) */
+  PCREL_LO12_S: 25,
+  /** U-type upper 20 bits of an absolute address */
+  HI20: 26,
+  /** I-type lower 12 bits of an absolute address */
+  LO12_I: 27,
+  /** S-type lower 12 bits of an absolute address */
+  LO12_S: 28,
+} as const;
+
+export type RelocationType = (typeof RELOCATION)[keyof typeof RELOCATION];
+
+/** Format tag of serialized objects */
+export const OBJECT_FORMAT = 'wire-riscv-object';
+
+/** Layout version of serialized objects */
+export const OBJECT_VERSION = 1;
+
+/**
+ * A field to patch with the address of a symbol
+ */
+export interface Relocation {
+  /** Offset of the instruction in its section */
+  offset: number;
+  type: RelocationType;
+  symbol: string;
+  addend: number;
+}
+
+/**
+ * Contents of one section
+ */
+export interface ObjectSection {
+  /** Section name (.text, .data, .rodata, .bss or a `.section` name) */
+  name: string;
+  /** Contents; .bss sections hold zeros and take no space in executables */
+  data: Uint8Array;
+  /** Required alignment of the section start in bytes */
+  align: number;
+  relocations: Relocation[];
+}
+
+/**
+ * A symbol defined or referenced by an object
+ */
+export interface ObjectSymbol {
+  name: string;
+  /** Section of a label; null for absolute (.equ) and undefined symbols */
+  section: string | null;
+  /** Offset in the section, or the value of an absolute symbol */
+  value: number;
+  /** Visible to other objects (.globl); undefined symbols are always global */
+  global: boolean;
+  /** False for references to symbols defined in another object */
+  defined: boolean;
+}
+
+/**
+ * A relocatable object
+ */
+export interface ObjectFile {
+  sections: ObjectSection[];
+  symbols: ObjectSymbol[];
+}
+
+/** Serialized object, with section contents as hex */
+interface StoredObject {
+  format: typeof OBJECT_FORMAT;
+  version: number;
+  sections: Array<Omit<ObjectSection, 'data'> & { data: string }>;
+  symbols: ObjectSymbol[];
+}
+
+/**
+ * Check whether a section takes no space in executables (.bss, .sbss
+ * and their subsections)
+ */
+export function isNobitsSection(name: string): boolean {
+  return /^\.s?bss(\.|$)/.test(name);
+}
+
+/**
+ * Serialize an object to JSON
+ */
+export function serializeObject(object: ObjectFile): string {
+  const stored: StoredObject = {
+    format: OBJECT_FORMAT,
+    version: OBJECT_VERSION,
+    sections: object.sections.map(section => ({
+      ...section,
+      data: Array.from(section.data, byte => byte.toString(16).padStart(2, '0')).join(''),
+    })),
+    symbols: object.symbols,
+  };
+  return JSON.stringify(stored, null, 1);
+}
+
+/**
+ * Parse an object serialized by serializeObject()
+ *
+ * @throws Error if the text is not an object of this version
+ */
+export function parseObject(json: string): ObjectFile {
+  let stored: StoredObject;
+  try {
+    stored = JSON.parse(json);
+  } catch {
+    throw new Error('Invalid object file: not JSON');
+  }
+  if (stored === null || typeof stored !== 'object' || stored.format !== OBJECT_FORMAT) {
+    throw new Error('Invalid object file: not a RISC-V object');
+  }
+  if (stored.version !== OBJECT_VERSION) {
+    throw new Error(`Invalid object file: version ${stored.version} is not supported (expected ${OBJECT_VERSION})`);
+  }
+  return {
+    sections: stored.sections.map(section => ({
+      ...section,
+      data: new Uint8Array((section.data.match(/../g) ?? []).map(byte => parseInt(byte, 16))),
+    })),
+    symbols: stored.symbols,
+  };
+}
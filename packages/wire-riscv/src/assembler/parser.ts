@@ -2,9 +2,22 @@
  * RISC-V Assembler Parser
  *
  * Parses tokens into an AST representing assembly statements.
+ *
+ * Immediate operands are expressions. A plain number becomes `imm` and a
+ * single symbol `label`, as the assembler resolves them directly;
+ * expressions without symbols are folded to `imm`, and anything else is
+ * kept as an `expression` for the assembler to evaluate.
  */
 
 import { Lexer, Token, TokenType } from './lexer.js';
+import {
+  Expression,
+  ExpressionError,
+  ExpressionParser,
+  ExpressionType,
+  evaluateExpression,
+  isConstantExpression,
+} from './expression.js';
 
 export enum NodeType {
   INSTRUCTION = 'INSTRUCTION',
@@ -14,6 +27,7 @@ export enum NodeType {
 
 export enum InstructionType {
   R = 'R',
+  R4 = 'R4',
   I = 'I',
   S = 'S',
   B = 'B',
@@ -28,8 +42,14 @@ export interface InstructionNode {
   rd?: number;
   rs1?: number;
   rs2?: number;
+  /** Third source register (R4-type fused multiply-add) */
+  rs3?: number;
+  /** Rounding mode of a floating-point instruction (7 = dynamic) */
+  rm?: number;
   imm?: number;
   label?: string;
+  /** Operand expression that is neither a number nor a single label */
+  expression?: Expression;
   line: number;
   column: number;
 }
@@ -44,7 +64,8 @@ export interface LabelNode {
 export interface DirectiveNode {
   type: NodeType.DIRECTIVE;
   name: string;
-  args: (string | number)[];
+  /** Strings, symbol names, numbers and expressions that refer to symbols */
+  args: (string | number | Expression)[];
   line: number;
   column: number;
 }
@@ -58,6 +79,7 @@ export interface AST {
 // Instruction type mappings
 const R_TYPE_INSTRUCTIONS = new Set([
   'ADD', 'SUB', 'SLL', 'SLT', 'SLTU', 'XOR', 'SRL', 'SRA', 'OR', 'AND',
+  'MUL', 'MULH', 'MULHSU', 'MULHU', 'DIV', 'DIVU', 'REM', 'REMU',
 ]);
 
 const I_TYPE_ALU_INSTRUCTIONS = new Set([
@@ -80,10 +102,110 @@ const U_TYPE_INSTRUCTIONS = new Set([
   'LUI', 'AUIPC',
 ]);
 
+// RV32A: LR.W/SC.W/AMO*.W with an optional .aq/.rl/.aqrl suffix
+const ATOMIC_PATTERN = /^(LR|SC|AMO[A-Z]+)\.W(\.AQ|\.RL|\.AQRL)?$/;
+
+// RV32F/D: register class of each operand ('f' floating-point, 'x'
+// integer; destination first) and whether a rounding mode may follow
+const FLOAT_INSTRUCTIONS: Record<string, { operands: string; rounding: boolean }> = {
+  'FCVT.S.D': { operands: 'ff', rounding: true },
+  'FCVT.D.S': { operands: 'ff', rounding: true },
+  'FMV.X.W': { operands: 'xf', rounding: false },
+  'FMV.W.X': { operands: 'fx', rounding: false },
+};
+for (const fmt of ['S', 'D']) {
+  for (const mnemonic of ['FMADD', 'FMSUB', 'FNMSUB', 'FNMADD']) {
+    FLOAT_INSTRUCTIONS[`${mnemonic}.${fmt}`] = { operands: 'ffff', rounding: true };
+  }
+  for (const mnemonic of ['FADD', 'FSUB', 'FMUL', 'FDIV']) {
+    FLOAT_INSTRUCTIONS[`${mnemonic}.${fmt}`] = { operands: 'fff', rounding: true };
+  }
+  for (const mnemonic of ['FSGNJ', 'FSGNJN', 'FSGNJX', 'FMIN', 'FMAX']) {
+    FLOAT_INSTRUCTIONS[`${mnemonic}.${fmt}`] = { operands: 'fff', rounding: false };
+  }
+  for (const mnemonic of ['FEQ', 'FLT', 'FLE']) {
+    FLOAT_INSTRUCTIONS[`${mnemonic}.${fmt}`] = { operands: 'xff', rounding: false };
+  }
+  FLOAT_INSTRUCTIONS[`FSQRT.${fmt}`] = { operands: 'ff', rounding: true };
+  FLOAT_INSTRUCTIONS[`FCLASS.${fmt}`] = { operands: 'xf', rounding: false };
+  FLOAT_INSTRUCTIONS[`FCVT.W.${fmt}`] = { operands: 'xf', rounding: true };
+  FLOAT_INSTRUCTIONS[`FCVT.WU.${fmt}`] = { operands: 'xf', rounding: true };
+  FLOAT_INSTRUCTIONS[`FCVT.${fmt}.W`] = { operands: 'fx', rounding: true };
+  FLOAT_INSTRUCTIONS[`FCVT.${fmt}.WU`] = { operands: 'fx', rounding: true };
+}
+
+const FLOAT_LOADS = new Set(['FLW', 'FLD']);
+const FLOAT_STORES = new Set(['FSW', 'FSD']);
+
+// Sign-injection pseudo-instructions: fmv.s rd, rs = fsgnj.s rd, rs, rs
+const FLOAT_SIGN_PSEUDO: Record<string, string> = {
+  'FMV.S': 'FSGNJ.S', 'FNEG.S': 'FSGNJN.S', 'FABS.S': 'FSGNJX.S',
+  'FMV.D': 'FSGNJ.D', 'FNEG.D': 'FSGNJN.D', 'FABS.D': 'FSGNJX.D',
+};
+
+// fcsr pseudo-instructions: CSR accessed and whether they write it
+const FLOAT_CSR_PSEUDO: Record<string, { csr: number; writes: boolean }> = {
+  'FRCSR': { csr: 0x003, writes: false },
+  'FSCSR': { csr: 0x003, writes: true },
+  'FRRM': { csr: 0x002, writes: false },
+  'FSRM': { csr: 0x002, writes: true },
+  'FRFLAGS': { csr: 0x001, writes: false },
+  'FSFLAGS': { csr: 0x001, writes: true },
+};
+
+// Rounding mode operand names
+const ROUNDING_MODES: Record<string, number> = {
+  'rne': 0b000, 'rtz': 0b001, 'rdn': 0b010, 'rup': 0b011, 'rmm': 0b100, 'dyn': 0b111,
+};
+
 const SYSTEM_INSTRUCTIONS = new Set([
-  'ECALL', 'EBREAK', 'FENCE',
+  'ECALL', 'EBREAK', 'MRET', 'SRET', 'WFI',
 ]);
 
+/** Bits of the fence ordering sets, as in `fence rw, w` */
+const FENCE_BITS: Record<string, number> = { 'i': 0b1000, 'o': 0b0100, 'r': 0b0010, 'w': 0b0001 };
+
+const SYSTEM_IMMEDIATES: Record<string, number> = {
+  'ECALL': 0x000,
+  'EBREAK': 0x001,
+  'MRET': 0x302,
+  'SRET': 0x102,
+  'WFI': 0x105,
+};
+
+const CSR_INSTRUCTIONS = new Set([
+  'CSRRW', 'CSRRS', 'CSRRC', 'CSRRWI', 'CSRRSI', 'CSRRCI',
+]);
+
+// CSR pseudo-instructions: real mnemonic and which operands they take
+const CSR_PSEUDO: Record<string, { mnemonic: string; hasRd: boolean; hasSource: boolean }> = {
+  'CSRR': { mnemonic: 'CSRRS', hasRd: true, hasSource: false },
+  'CSRW': { mnemonic: 'CSRRW', hasRd: false, hasSource: true },
+  'CSRS': { mnemonic: 'CSRRS', hasRd: false, hasSource: true },
+  'CSRC': { mnemonic: 'CSRRC', hasRd: false, hasSource: true },
+  'CSRWI': { mnemonic: 'CSRRWI', hasRd: false, hasSource: true },
+  'CSRSI': { mnemonic: 'CSRRSI', hasRd: false, hasSource: true },
+  'CSRCI': { mnemonic: 'CSRRCI', hasRd: false, hasSource: true },
+};
+
+// CSR names accepted in place of a CSR number
+export const CSR_ALIASES: Record<string, number> = {
+  'fflags': 0x001, 'frm': 0x002, 'fcsr': 0x003,
+  'cycle': 0xC00, 'instret': 0xC02, 'cycleh': 0xC80, 'instreth': 0xC82,
+  'sstatus': 0x100, 'sie': 0x104, 'stvec': 0x105,
+  'sscratch': 0x140, 'sepc': 0x141, 'scause': 0x142, 'stval': 0x143, 'sip': 0x144,
+  'satp': 0x180,
+  'mvendorid': 0xF11, 'marchid': 0xF12, 'mimpid': 0xF13, 'mhartid': 0xF14,
+  'mstatus': 0x300, 'misa': 0x301, 'medeleg': 0x302, 'mideleg': 0x303, 'mie': 0x304, 'mtvec': 0x305,
+  'mscratch': 0x340, 'mepc': 0x341, 'mcause': 0x342, 'mtval': 0x343, 'mip': 0x344,
+  'pmpcfg0': 0x3A0, 'pmpcfg1': 0x3A1, 'pmpcfg2': 0x3A2, 'pmpcfg3': 0x3A3,
+  'pmpaddr0': 0x3B0, 'pmpaddr1': 0x3B1, 'pmpaddr2': 0x3B2, 'pmpaddr3': 0x3B3,
+  'pmpaddr4': 0x3B4, 'pmpaddr5': 0x3B5, 'pmpaddr6': 0x3B6, 'pmpaddr7': 0x3B7,
+  'pmpaddr8': 0x3B8, 'pmpaddr9': 0x3B9, 'pmpaddr10': 0x3BA, 'pmpaddr11': 0x3BB,
+  'pmpaddr12': 0x3BC, 'pmpaddr13': 0x3BD, 'pmpaddr14': 0x3BE, 'pmpaddr15': 0x3BF,
+  'mcycle': 0xB00, 'minstret': 0xB02, 'mcycleh': 0xB80, 'minstreth': 0xB82,
+};
+
 const PSEUDO_NO_OPERANDS = new Set([
   'NOP', 'RET',
 ]);
@@ -193,7 +315,7 @@ export class Parser {
   private parseDirective(): DirectiveNode {
     const token = this.advance();
     const name = token.value as string;
-    const args: (string | number)[] = [];
+    const args: (string | number | Expression)[] = [];
 
     // Parse directive arguments
     if (!this.checkEndOfStatement()) {
@@ -203,10 +325,15 @@ export class Parser {
         const identToken = this.expect(TokenType.IDENTIFIER, 'Expected identifier after .equ');
         args.push(identToken.value as string);
         this.expect(TokenType.COMMA, 'Expected comma after identifier');
-        // Second arg is number
-        const numToken = this.expect(TokenType.NUMBER, 'Expected number after comma');
-        args.push(numToken.value as number);
-      } else if (name === '.GLOBAL' || name === '.GLOBL' || name === '.LOCAL' || name === '.SECTION') {
+        // Second arg is the value
+        args.push(this.parseLabelOrImmediate());
+      } else if (name === '.SECTION') {
+        args.push(this.parseSectionName());
+        // Flags and type are accepted and ignored
+        if (this.match(TokenType.COMMA)) {
+          this.expect(TokenType.STRING, 'Expected section flags');
+        }
+      } else if (name === '.GLOBAL' || name === '.GLOBL' || name === '.LOCAL') {
         // These take an identifier
         const identToken = this.expect(TokenType.IDENTIFIER, `Expected identifier after ${name}`);
         args.push(identToken.value as string);
@@ -215,16 +342,12 @@ export class Parser {
         const strToken = this.expect(TokenType.STRING, `Expected string after ${name}`);
         args.push(strToken.value as string);
       } else {
-        // Parse comma-separated list of numbers or identifiers
+        // Parse comma-separated list of numbers, identifiers or expressions
         do {
-          const argToken = this.peek();
-          if (argToken.type === TokenType.NUMBER) {
-            args.push(this.advance().value as number);
-          } else if (argToken.type === TokenType.IDENTIFIER) {
-            args.push(this.advance().value as string);
-          } else {
+          if (!ExpressionParser.startsExpression(this.peek())) {
             break;
           }
+          args.push(this.parseLabelOrImmediate());
         } while (this.match(TokenType.COMMA));
       }
     }
@@ -238,6 +361,28 @@ export class Parser {
     };
   }
 
+  /**
+   * Parse a section name: a quoted name, an identifier or a dotted name
+   * such as .text.startup (lexed as adjacent directives, kept lowercase)
+   */
+  private parseSectionName(): string {
+    const token = this.advance();
+    if (token.type === TokenType.STRING || token.type === TokenType.IDENTIFIER) {
+      return token.value as string;
+    }
+    if (token.type !== TokenType.DIRECTIVE) {
+      throw new ParserError(`Expected section name, got '${token.value}'`, token.line, token.column);
+    }
+    let name = (token.value as string).toLowerCase();
+    let end = token.column + name.length;
+    while (this.peek().type === TokenType.DIRECTIVE && this.peek().line === token.line && this.peek().column === end) {
+      const part = (this.advance().value as string).toLowerCase();
+      name += part;
+      end += part.length;
+    }
+    return name;
+  }
+
   private parseInstruction(): InstructionNode {
     const token = this.advance();
     const mnemonic = token.value as string;
@@ -279,6 +424,55 @@ export class Parser {
       return this.parseSystem(mnemonic, token);
     }
 
+    if (mnemonic === 'SFENCE.VMA') {
+      return this.parseSfenceVma(token);
+    }
+
+    if (mnemonic === 'FENCE' || mnemonic === 'FENCE.I') {
+      return this.parseFence(mnemonic, token);
+    }
+
+    if (ATOMIC_PATTERN.test(mnemonic)) {
+      return this.parseAtomic(mnemonic, token);
+    }
+
+    if (mnemonic in FLOAT_INSTRUCTIONS) {
+      return this.parseFloat(mnemonic, token);
+    }
+
+    if (FLOAT_LOADS.has(mnemonic) || FLOAT_STORES.has(mnemonic)) {
+      return this.parseFloatMemory(mnemonic, token);
+    }
+
+    if (mnemonic in FLOAT_SIGN_PSEUDO) {
+      const rd = this.parseFloatRegister();
+      this.expect(TokenType.COMMA, 'Expected comma after rd');
+      const rs1 = this.parseFloatRegister();
+      return {
+        type: NodeType.INSTRUCTION,
+        mnemonic: FLOAT_SIGN_PSEUDO[mnemonic],
+        instructionType: InstructionType.R,
+        rd,
+        rs1,
+        rs2: rs1,
+        rm: 0b111,
+        line: token.line,
+        column: token.column,
+      };
+    }
+
+    if (mnemonic in FLOAT_CSR_PSEUDO) {
+      return this.parseFloatCsrPseudo(mnemonic, token);
+    }
+
+    if (CSR_INSTRUCTIONS.has(mnemonic)) {
+      return this.parseCsr(mnemonic, token);
+    }
+
+    if (mnemonic in CSR_PSEUDO) {
+      return this.parseCsrPseudo(mnemonic, token);
+    }
+
     // Pseudo-instructions
     if (PSEUDO_NO_OPERANDS.has(mnemonic)) {
       return {
@@ -303,12 +497,12 @@ export class Parser {
     }
 
     if (PSEUDO_ONE_LABEL.has(mnemonic)) {
-      const label = this.parseLabel();
+      const target = this.parseLabel();
       return {
         type: NodeType.INSTRUCTION,
         mnemonic,
         instructionType: InstructionType.J,
-        label,
+        ...this.operandFields(target),
         line: token.line,
         column: token.column,
       };
@@ -323,7 +517,7 @@ export class Parser {
         mnemonic,
         instructionType: InstructionType.I,
         rd,
-        ...(typeof immOrLabel === 'string' ? { label: immOrLabel } : { imm: immOrLabel }),
+        ...this.operandFields(immOrLabel),
         line: token.line,
         column: token.column,
       };
@@ -332,13 +526,13 @@ export class Parser {
     if (PSEUDO_RD_LABEL.has(mnemonic)) {
       const rd = this.parseRegister();
       this.expect(TokenType.COMMA, 'Expected comma');
-      const label = this.parseLabel();
+      const target = this.parseLabel();
       return {
         type: NodeType.INSTRUCTION,
         mnemonic,
         instructionType: InstructionType.I,
         rd,
-        label,
+        ...this.operandFields(target),
         line: token.line,
         column: token.column,
       };
@@ -369,7 +563,7 @@ export class Parser {
         instructionType: InstructionType.B,
         rs1,
         rs2: 0,
-        ...(typeof labelOrImm === 'string' ? { label: labelOrImm } : { imm: labelOrImm }),
+        ...this.operandFields(labelOrImm),
         line: token.line,
         column: token.column,
       };
@@ -414,7 +608,7 @@ export class Parser {
       instructionType: InstructionType.I,
       rd,
       rs1,
-      ...(typeof immOrLabel === 'string' ? { label: immOrLabel } : { imm: immOrLabel }),
+      ...this.operandFields(immOrLabel),
       line: token.line,
       column: token.column,
     };
@@ -431,7 +625,7 @@ export class Parser {
       instructionType: InstructionType.I,
       rd,
       rs1: base,
-      imm: offset,
+      ...this.operandFields(offset),
       line: token.line,
       column: token.column,
     };
@@ -448,7 +642,7 @@ export class Parser {
       instructionType: InstructionType.I,
       rd,
       rs1: base,
-      imm: offset,
+      ...this.operandFields(offset),
       line: token.line,
       column: token.column,
     };
@@ -465,7 +659,7 @@ export class Parser {
       instructionType: InstructionType.S,
       rs1: base,
       rs2,
-      imm: offset,
+      ...this.operandFields(offset),
       line: token.line,
       column: token.column,
     };
@@ -484,7 +678,7 @@ export class Parser {
       instructionType: InstructionType.B,
       rs1,
       rs2,
-      ...(typeof labelOrImm === 'string' ? { label: labelOrImm } : { imm: labelOrImm }),
+      ...this.operandFields(labelOrImm),
       line: token.line,
       column: token.column,
     };
@@ -493,14 +687,14 @@ export class Parser {
   private parseUType(mnemonic: string, token: Token): InstructionNode {
     const rd = this.parseRegister();
     this.expect(TokenType.COMMA, 'Expected comma after rd');
-    const imm = this.parseImmediate();
+    const immOrLabel = this.parseLabelOrImmediate();
 
     return {
       type: NodeType.INSTRUCTION,
       mnemonic,
       instructionType: InstructionType.U,
       rd,
-      imm,
+      ...this.operandFields(immOrLabel),
       line: token.line,
       column: token.column,
     };
@@ -516,7 +710,7 @@ export class Parser {
       mnemonic: 'JAL',
       instructionType: InstructionType.J,
       rd,
-      ...(typeof labelOrImm === 'string' ? { label: labelOrImm } : { imm: labelOrImm }),
+      ...this.operandFields(labelOrImm),
       line: token.line,
       column: token.column,
     };
@@ -529,12 +723,278 @@ export class Parser {
       instructionType: InstructionType.I,
       rd: 0,
       rs1: 0,
-      imm: mnemonic === 'ECALL' ? 0 : mnemonic === 'EBREAK' ? 1 : 0,
+      imm: SYSTEM_IMMEDIATES[mnemonic] ?? 0,
+      line: token.line,
+      column: token.column,
+    };
+  }
+
+  private parseSfenceVma(token: Token): InstructionNode {
+    // Both operands are optional: sfence.vma [rs1[, rs2]]
+    let rs1 = 0;
+    let rs2 = 0;
+    if (this.check(TokenType.REGISTER)) {
+      rs1 = this.parseRegister();
+      if (this.match(TokenType.COMMA)) {
+        rs2 = this.parseRegister();
+      }
+    }
+
+    return {
+      type: NodeType.INSTRUCTION,
+      mnemonic: 'SFENCE.VMA',
+      instructionType: InstructionType.R,
+      rd: 0,
+      rs1,
+      rs2,
+      line: token.line,
+      column: token.column,
+    };
+  }
+
+  private parseFence(mnemonic: string, token: Token): InstructionNode {
+    // fence [pred, succ], where a bare fence orders everything: iorw, iorw
+    let imm = 0;
+    if (mnemonic === 'FENCE') {
+      imm = 0xff;
+      if (this.check(TokenType.IDENTIFIER)) {
+        const pred = this.parseFenceSet();
+        this.expect(TokenType.COMMA, 'Expected comma after fence predecessor set');
+        imm = (pred << 4) | this.parseFenceSet();
+      }
+    }
+
+    return {
+      type: NodeType.INSTRUCTION,
+      mnemonic,
+      instructionType: InstructionType.I,
+      rd: 0,
+      rs1: 0,
+      imm,
       line: token.line,
       column: token.column,
     };
   }
 
+  /**
+   * A fence ordering set: some of i, o, r and w, in that order
+   */
+  private parseFenceSet(): number {
+    const token = this.expect(TokenType.IDENTIFIER, 'Expected fence ordering set');
+    const set = String(token.value).toLowerCase();
+    if (!/^i?o?r?w?$/.test(set) || set === '') {
+      throw new ParserError(`Invalid fence ordering set '${token.value}'`, token.line, token.column);
+    }
+    return [...set].reduce((bits, c) => bits | FENCE_BITS[c], 0);
+  }
+
+  private parseAtomic(mnemonic: string, token: Token): InstructionNode {
+    // lr.w rd, (rs1) / sc.w rd, rs2, (rs1) / amo*.w rd, rs2, (rs1)
+    const rd = this.parseRegister();
+    this.expect(TokenType.COMMA, 'Expected comma after rd');
+    let rs2 = 0;
+    if (!mnemonic.startsWith('LR.')) {
+      rs2 = this.parseRegister();
+      this.expect(TokenType.COMMA, 'Expected comma after rs2');
+    }
+    const operandToken = this.peek();
+    const { offset, base } = this.parseMemoryOperand();
+    if (offset !== 0) {
+      throw new ParserError(
+        'Atomic memory operand must not have an offset',
+        operandToken.line,
+        operandToken.column
+      );
+    }
+
+    return {
+      type: NodeType.INSTRUCTION,
+      mnemonic,
+      instructionType: InstructionType.R,
+      rd,
+      rs1: base,
+      rs2,
+      line: token.line,
+      column: token.column,
+    };
+  }
+
+  private parseFloat(mnemonic: string, token: Token): InstructionNode {
+    // fadd.s rd, rs1, rs2[, rm] / fmadd.s rd, rs1, rs2, rs3[, rm] / fcvt.w.s rd, rs1[, rm] ...
+    const { operands, rounding } = FLOAT_INSTRUCTIONS[mnemonic];
+    const registers: number[] = [];
+    for (let i = 0; i < operands.length; i++) {
+      if (i > 0) {
+        this.expect(TokenType.COMMA, 'Expected comma');
+      }
+      registers.push(operands[i] === 'f' ? this.parseFloatRegister() : this.parseRegister());
+    }
+
+    let rm = 0b111;
+    if (rounding && this.match(TokenType.COMMA)) {
+      rm = this.parseRoundingMode();
+    }
+
+    return {
+      type: NodeType.INSTRUCTION,
+      mnemonic,
+      instructionType: operands.length === 4 ? InstructionType.R4 : InstructionType.R,
+      rd: registers[0],
+      rs1: registers[1],
+      rs2: registers[2] ?? 0,
+      ...(operands.length === 4 ? { rs3: registers[3] } : {}),
+      rm,
+      line: token.line,
+      column: token.column,
+    };
+  }
+
+  private parseFloatMemory(mnemonic: string, token: Token): InstructionNode {
+    // flw rd, offset(rs1) / fsw rs2, offset(rs1)
+    const reg = this.parseFloatRegister();
+    this.expect(TokenType.COMMA, 'Expected comma after register');
+    const { offset, base } = this.parseMemoryOperand();
+    const store = FLOAT_STORES.has(mnemonic);
+
+    return {
+      type: NodeType.INSTRUCTION,
+      mnemonic,
+      instructionType: store ? InstructionType.S : InstructionType.I,
+      ...(store ? { rs2: reg } : { rd: reg }),
+      rs1: base,
+      ...this.operandFields(offset),
+      line: token.line,
+      column: token.column,
+    };
+  }
+
+  private parseFloatCsrPseudo(mnemonic: string, token: Token): InstructionNode {
+    // frcsr rd / fscsr [rd,] rs
+    const { csr, writes } = FLOAT_CSR_PSEUDO[mnemonic];
+    let rd = 0;
+    let rs1 = 0;
+    if (!writes) {
+      rd = this.parseRegister();
+    } else {
+      rs1 = this.parseRegister();
+      if (this.match(TokenType.COMMA)) {
+        rd = rs1;
+        rs1 = this.parseRegister();
+      }
+    }
+
+    return {
+      type: NodeType.INSTRUCTION,
+      mnemonic: writes ? 'CSRRW' : 'CSRRS',
+      instructionType: InstructionType.I,
+      rd,
+      rs1,
+      imm: csr,
+      line: token.line,
+      column: token.column,
+    };
+  }
+
+  private parseRoundingMode(): number {
+    const token = this.peek();
+    if (token.type === TokenType.IDENTIFIER) {
+      const name = (token.value as string).toLowerCase();
+      if (name in ROUNDING_MODES) {
+        this.advance();
+        return ROUNDING_MODES[name];
+      }
+    }
+    throw new ParserError(
+      `Expected rounding mode, got '${token.value}'`,
+      token.line,
+      token.column
+    );
+  }
+
+  private parseCsr(mnemonic: string, token: Token): InstructionNode {
+    const rd = this.parseRegister();
+    this.expect(TokenType.COMMA, 'Expected comma after rd');
+    const csr = this.parseCsrOperand();
+    this.expect(TokenType.COMMA, 'Expected comma after CSR');
+    const rs1 = mnemonic.endsWith('I') ? this.parseUimm5() : this.parseRegister();
+
+    return {
+      type: NodeType.INSTRUCTION,
+      mnemonic,
+      instructionType: InstructionType.I,
+      rd,
+      rs1,
+      imm: csr,
+      line: token.line,
+      column: token.column,
+    };
+  }
+
+  private parseCsrPseudo(mnemonic: string, token: Token): InstructionNode {
+    // csrr rd, csr / csrw csr, rs / csrwi csr, uimm ...
+    const pseudo = CSR_PSEUDO[mnemonic];
+    let rd = 0;
+    let rs1 = 0;
+
+    if (pseudo.hasRd) {
+      rd = this.parseRegister();
+      this.expect(TokenType.COMMA, 'Expected comma after rd');
+    }
+    const csr = this.parseCsrOperand();
+    if (pseudo.hasSource) {
+      this.expect(TokenType.COMMA, 'Expected comma after CSR');
+      rs1 = pseudo.mnemonic.endsWith('I') ? this.parseUimm5() : this.parseRegister();
+    }
+
+    return {
+      type: NodeType.INSTRUCTION,
+      mnemonic: pseudo.mnemonic,
+      instructionType: InstructionType.I,
+      rd,
+      rs1,
+      imm: csr,
+      line: token.line,
+      column: token.column,
+    };
+  }
+
+  private parseCsrOperand(): number {
+    const token = this.peek();
+    if (token.type === TokenType.NUMBER) {
+      this.advance();
+      const csr = token.value as number;
+      if (csr < 0 || csr > 0xfff) {
+        throw new ParserError(`Invalid CSR number ${csr}`, token.line, token.column);
+      }
+      return csr;
+    }
+    if (token.type === TokenType.IDENTIFIER) {
+      const name = (token.value as string).toLowerCase();
+      if (name in CSR_ALIASES) {
+        this.advance();
+        return CSR_ALIASES[name];
+      }
+    }
+    throw new ParserError(
+      `Expected CSR, got '${token.value}'`,
+      token.line,
+      token.column
+    );
+  }
+
+  private parseUimm5(): number {
+    const token = this.peek();
+    const value = this.parseImmediate();
+    if (value < 0 || value > 31) {
+      throw new ParserError(
+        `Immediate ${value} out of range (0-31)`,
+        token.line,
+        token.column
+      );
+    }
+    return value;
+  }
+
   private parseRegister(): number {
     const token = this.peek();
     if (token.type !== TokenType.REGISTER) {
@@ -556,11 +1016,11 @@ export class Parser {
     return regNum;
   }
 
-  private parseImmediate(): number {
+  private parseFloatRegister(): number {
     const token = this.peek();
-    if (token.type !== TokenType.NUMBER) {
+    if (token.type !== TokenType.FP_REGISTER) {
       throw new ParserError(
-        `Expected immediate value, got '${token.value}'`,
+        `Expected floating-point register, got '${token.value}'`,
         token.line,
         token.column
       );
@@ -569,43 +1029,97 @@ export class Parser {
     return token.value as number;
   }
 
-  private parseLabel(): string {
+  /**
+   * Parse an immediate that must be constant
+   */
+  private parseImmediate(): number {
+    const token = this.peek();
+    const value = ExpressionParser.startsExpression(token) ? this.parseLabelOrImmediate() : null;
+    if (typeof value !== 'number') {
+      throw new ParserError(
+        `Expected immediate value, got '${token.value}'`,
+        token.line,
+        token.column
+      );
+    }
+    return value;
+  }
+
+  /**
+   * Parse a jump or address target: a label, or an expression for an
+   * address (a number here is an address, not an offset)
+   */
+  private parseLabel(): string | Expression {
     const token = this.peek();
-    if (token.type !== TokenType.IDENTIFIER) {
+    if (!ExpressionParser.startsExpression(token)) {
       throw new ParserError(
         `Expected label, got '${token.value}'`,
         token.line,
         token.column
       );
     }
-    this.advance();
-    return token.value as string;
+    const expression = this.parseExpression();
+    return expression.type === ExpressionType.SYMBOL && expression.name !== '.' ? expression.name : expression;
   }
 
-  private parseLabelOrImmediate(): string | number {
+  private parseLabelOrImmediate(): string | number | Expression {
     const token = this.peek();
-    if (token.type === TokenType.IDENTIFIER) {
-      this.advance();
-      return token.value as string;
+    if (!ExpressionParser.startsExpression(token)) {
+      throw new ParserError(
+        `Expected label or immediate, got '${token.value}'`,
+        token.line,
+        token.column
+      );
     }
-    if (token.type === TokenType.NUMBER) {
-      this.advance();
-      return token.value as number;
+    const expression = this.parseExpression();
+    if (expression.type === ExpressionType.NUMBER) {
+      return expression.value;
     }
-    throw new ParserError(
-      `Expected label or immediate, got '${token.value}'`,
-      token.line,
-      token.column
-    );
+    if (expression.type === ExpressionType.SYMBOL && expression.name !== '.') {
+      return expression.name;
+    }
+    if (isConstantExpression(expression)) {
+      try {
+        return evaluateExpression(expression, () => 0);
+      } catch (e) {
+        throw new ParserError((e as Error).message, token.line, token.column);
+      }
+    }
+    return expression;
+  }
+
+  private parseExpression(): Expression {
+    const parser = new ExpressionParser(this.tokens, this.pos);
+    try {
+      const expression = parser.parse();
+      this.pos = parser.pos;
+      return expression;
+    } catch (e) {
+      if (e instanceof ExpressionError) {
+        throw new ParserError(e.message, e.line, e.column);
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * Node fields for a parsed operand
+   */
+  private operandFields(operand: string | number | Expression): Pick<InstructionNode, 'imm' | 'label' | 'expression'> {
+    if (typeof operand === 'string') {
+      return { label: operand };
+    }
+    return typeof operand === 'number' ? { imm: operand } : { expression: operand };
   }
 
-  private parseMemoryOperand(): { offset: number; base: number } {
-    // Parse offset(base) syntax
-    const offsetToken = this.peek();
-    let offset = 0;
+  private parseMemoryOperand(): { offset: number | Expression; base: number } {
+    // Parse offset(base) syntax; the offset may itself be parenthesized
+    let offset: number | Expression = 0;
 
-    if (offsetToken.type === TokenType.NUMBER) {
-      offset = this.advance().value as number;
+    const isBase = this.check(TokenType.LPAREN) && this.tokens[this.pos + 1]?.type === TokenType.REGISTER;
+    if (!isBase && ExpressionParser.startsExpression(this.peek())) {
+      const operand = this.parseLabelOrImmediate();
+      offset = typeof operand === 'string' ? { type: ExpressionType.SYMBOL, name: operand } : operand;
     }
 
     this.expect(TokenType.LPAREN, 'Expected ( in memory operand');
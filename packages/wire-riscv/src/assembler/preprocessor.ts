@@ -0,0 +1,557 @@
+/**
+ * RISC-V Assembler Preprocessor
+ *
+ * Line-based stage that runs before the lexer:
+ *
+ *   .macro name a, b=4 ... .endm   Parameterised macros; the body refers
+ *                                  to arguments as \a, \b. \@ expands to
+ *                                  a number unique to each expansion (for
+ *                                  macro-local labels such as loop\@:, or
+ *                                  use numeric labels 1: with 1b/1f) and
+ *                                  \() separates a parameter from text.
+ *                                  .endmacro also ends a macro, as in
+ *                                  the guest-side NativeAssembler.
+ *   .rept count ... .endr          Repeat lines
+ *   .if expr / .ifdef sym / .ifndef sym / .elseif expr / .else / .endif
+ *                                  Conditional assembly over the .equ/.set
+ *                                  symbols and labels defined above
+ *   .include "file"                Insert a source file
+ *   .incbin "file"[, skip[, count]] Insert the bytes of a file
+ *
+ * Files are read through a FileResolver so the assembler works the same
+ * on the command line and in the browser. Include paths are relative to
+ * the including file. Each output line remembers where it came from, so
+ * errors point at the original file and line.
+ */
+
+import { Lexer, TokenType } from './lexer.js';
+import { ExpressionParser, evaluateExpression } from './expression.js';
+
+/**
+ * Reads files for .include and .incbin
+ */
+export interface FileResolver {
+  /** Contents of a source file, or null if it does not exist */
+  readText(path: string): string | null;
+  /** Contents of a binary file, or null if it does not exist */
+  readBinary(path: string): Uint8Array | null;
+}
+
+/**
+ * Where a preprocessed line came from
+ */
+export interface SourceLocation {
+  /** Included file, or undefined for the main source */
+  file?: string;
+  line: number;
+}
+
+export interface PreprocessedSource {
+  source: string;
+  /** Origin of each line of `source` */
+  locations: SourceLocation[];
+}
+
+export class PreprocessorError extends Error {
+  constructor(message: string, public line: number, public file?: string) {
+    super(message);
+    this.name = 'PreprocessorError';
+  }
+}
+
+interface Macro {
+  params: string[];
+  /** Default argument of each parameter ('' for none) */
+  defaults: string[];
+  body: Line[];
+}
+
+/** A source line with its origin */
+interface Line {
+  text: string;
+  location: SourceLocation;
+}
+
+/** State of one .if block */
+interface Conditional {
+  /** Lines are assembled in the current branch */
+  active: boolean;
+  /** A branch has been taken (later .elseif/.else are skipped) */
+  taken: boolean;
+  /** The enclosing region is active */
+  enclosing: boolean;
+  /** The .if line, for errors */
+  line: Line;
+}
+
+/** Deepest nesting of .include files and macro expansions */
+const MAX_DEPTH = 64;
+
+/** Bytes per generated .byte line of .incbin */
+const INCBIN_LINE_BYTES = 16;
+
+/**
+ * Create a resolver over files held in memory (e.g. in the browser)
+ */
+export function createMemoryResolver(files: Record<string, string | Uint8Array>): FileResolver {
+  return {
+    readText(path) {
+      const file = files[normalizePath(path)];
+      if (file === undefined) {
+        return null;
+      }
+      return typeof file === 'string' ? file : new TextDecoder().decode(file);
+    },
+    readBinary(path) {
+      const file = files[normalizePath(path)];
+      if (file === undefined) {
+        return null;
+      }
+      return typeof file === 'string' ? new TextEncoder().encode(file) : file;
+    },
+  };
+}
+
+export class Preprocessor {
+  private resolver: FileResolver | null;
+  private macros: Map<string, Macro> = new Map();
+  /** Values of .equ/.set symbols and labels seen so far */
+  private symbols: Map<string, number | null> = new Map();
+  private output: Line[] = [];
+  /** Number of macro expansions, for \@ */
+  private expansions: number = 0;
+  private depth: number = 0;
+
+  constructor(resolver: FileResolver | null = null) {
+    this.resolver = resolver;
+  }
+
+  /**
+   * Preprocess a source
+   *
+   * @param file Name of the source, for relative include paths
+   * @throws PreprocessorError on the first error
+   */
+  process(source: string, file?: string): PreprocessedSource {
+    this.macros = new Map();
+    this.symbols = new Map();
+    this.output = [];
+    this.expansions = 0;
+    this.depth = 0;
+
+    this.processLines(toLines(source, file));
+    return {
+      source: this.output.map(line => line.text).join('\n'),
+      locations: this.output.map(line => line.location),
+    };
+  }
+
+  /**
+   * Process the lines of one file, macro expansion or repetition;
+   * conditionals must be closed within them
+   */
+  private processLines(lines: Line[]): void {
+    const conditionals: Conditional[] = [];
+    const active = () => conditionals.length === 0 || conditionals[conditionals.length - 1].active;
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      const code = stripComment(line.text).trim();
+      const [word, rest] = splitFirstWord(code);
+      const directive = word.toLowerCase();
+
+      switch (directive) {
+        case '.if':
+        case '.ifdef':
+        case '.ifndef': {
+          const enclosing = active();
+          const condition = enclosing && this.condition(directive, rest, line);
+          conditionals.push({ active: condition, taken: condition, enclosing, line });
+          continue;
+        }
+        case '.elseif':
+        case '.else': {
+          const top = conditionals[conditionals.length - 1];
+          if (!top) {
+            throw this.error(`Unexpected ${directive} without .if`, line);
+          }
+          const condition = top.enclosing && !top.taken &&
+            (directive === '.else' || this.condition('.if', rest, line));
+          top.active = condition;
+          top.taken ||= condition;
+          continue;
+        }
+        case '.endif':
+          if (!conditionals.pop()) {
+            throw this.error('Unexpected .endif without .if', line);
+          }
+          continue;
+      }
+
+      if (!active()) {
+        // Skip nested blocks whole so their end markers do not count
+        if (directive === '.macro' || directive === '.rept') {
+          i = this.findEnd(lines, i, directive);
+        }
+        continue;
+      }
+
+      switch (directive) {
+        case '.macro':
+          i = this.defineMacro(lines, i, rest);
+          continue;
+        case '.rept': {
+          const end = this.findEnd(lines, i, directive);
+          const count = this.evaluate(rest, line);
+          const body = lines.slice(i + 1, end);
+          for (let n = 0; n < count; n++) {
+            this.nested(line, () => this.processLines(body));
+          }
+          i = end;
+          continue;
+        }
+        case '.endm':
+        case '.endmacro':
+        case '.endr':
+          throw this.error(`Unexpected ${directive}`, line);
+        case '.include':
+          this.include(rest, line);
+          continue;
+        case '.incbin':
+          this.incbin(rest, line);
+          continue;
+        case '.equ':
+        case '.set':
+        case '.equiv':
+          this.defineSymbol(rest);
+          break;
+      }
+
+      this.processStatement(line, code);
+    }
+
+    if (conditionals.length > 0) {
+      throw this.error('Missing .endif', conditionals[conditionals.length - 1].line);
+    }
+  }
+
+  /**
+   * Output a line, recording its labels and expanding a macro invocation
+   */
+  private processStatement(line: Line, code: string): void {
+    let statement = code;
+    let match: RegExpMatchArray | null;
+    while ((match = statement.match(/^([A-Za-z_.$][\w.$]*|[0-9]+)\s*:/))) {
+      this.symbols.set(match[1], null);
+      statement = statement.slice(match[0].length).trim();
+    }
+
+    const [word, rest] = splitFirstWord(statement);
+    const macro = this.macros.get(word.toLowerCase());
+    if (!macro) {
+      this.output.push(line);
+      return;
+    }
+
+    // Keep the labels in front of the expansion
+    const labels = code.slice(0, code.length - statement.length).trim();
+    if (labels) {
+      this.output.push({ text: labels, location: line.location });
+    }
+    this.expand(word, macro, rest, line);
+  }
+
+  /**
+   * Evaluate the condition of .if, .ifdef or .ifndef
+   */
+  private condition(directive: string, operand: string, line: Line): boolean {
+    if (directive === '.if') {
+      return this.evaluate(operand, line) !== 0;
+    }
+    const name = operand.trim();
+    if (!/^[A-Za-z_.$][\w.$]*$/.test(name)) {
+      throw this.error(`Expected symbol after ${directive}`, line);
+    }
+    return this.symbols.has(name) === (directive === '.ifdef');
+  }
+
+  /**
+   * Record the value of an .equ/.set symbol when it can be evaluated
+   */
+  private defineSymbol(operands: string): void {
+    const match = operands.match(/^([A-Za-z_.$][\w.$]*)\s*,\s*(.+)$/);
+    if (!match) {
+      return;
+    }
+    let value: number | null;
+    try {
+      value = evaluateConstant(match[2], this.symbols);
+    } catch {
+      value = null;
+    }
+    this.symbols.set(match[1], value);
+  }
+
+  /**
+   * Read a macro definition starting at lines[start]
+   *
+   * @returns Index of its .endm line
+   */
+  private defineMacro(lines: Line[], start: number, header: string): number {
+    const end = this.findEnd(lines, start, '.macro');
+    const match = header.match(/^([A-Za-z_.$][\w.$]*)\s*,?\s*(.*)$/);
+    if (!match) {
+      throw this.error('Expected macro name after .macro', lines[start]);
+    }
+
+    const params: string[] = [];
+    const defaults: string[] = [];
+    for (const param of match[2].split(/\s*,\s*|\s+/).filter(Boolean)) {
+      const [name, value = ''] = param.split('=');
+      if (!/^[A-Za-z_][\w]*$/.test(name)) {
+        throw this.error(`Invalid macro parameter '${name}'`, lines[start]);
+      }
+      params.push(name);
+      defaults.push(value);
+    }
+    this.macros.set(match[1].toLowerCase(), { params, defaults, body: lines.slice(start + 1, end) });
+    return end;
+  }
+
+  /**
+   * Expand a macro invocation with its arguments
+   */
+  private expand(name: string, macro: Macro, operands: string, line: Line): void {
+    const args = splitArguments(operands);
+    if (args.length > macro.params.length) {
+      throw this.error(`Too many arguments for macro '${name}'`, line);
+    }
+    const values = new Map(macro.params.map((param, i) => [param, args[i] || macro.defaults[i]]));
+    const id = String(this.expansions++);
+
+    // Expanded lines report the invocation's location
+    const body = macro.body.map(bodyLine => ({
+      text: bodyLine.text.replace(/\\(\w+|@|\(\))/g, (text, key: string) =>
+        key === '@' ? id : key === '()' ? '' : values.get(key) ?? text
+      ),
+      location: line.location,
+    }));
+    this.nested(line, () => this.processLines(body));
+  }
+
+  /**
+   * Insert an included source file
+   */
+  private include(operand: string, line: Line): void {
+    const path = this.resolvePath(operand, line);
+    const text = this.resolver!.readText(path);
+    if (text === null) {
+      throw this.error(`Cannot include '${path}': file not found`, line);
+    }
+    // Keep the .include line, blanked, so that listings find it before the file
+    this.output.push({ text: '', location: line.location });
+    this.nested(line, () => this.processLines(toLines(text, path)));
+  }
+
+  /**
+   * Insert the bytes of a file as .byte lines
+   */
+  private incbin(operands: string, line: Line): void {
+    const [file, ...range] = splitArguments(operands);
+    const path = this.resolvePath(file ?? '', line);
+    const data = this.resolver!.readBinary(path);
+    if (data === null) {
+      throw this.error(`Cannot include '${path}': file not found`, line);
+    }
+    const skip = range[0] !== undefined ? this.evaluate(range[0], line) : 0;
+    const count = range[1] !== undefined ? this.evaluate(range[1], line) : data.length - skip;
+    if (skip < 0 || count < 0 || skip + count > data.length) {
+      throw this.error(`.incbin range is outside '${path}' (${data.length} bytes)`, line);
+    }
+
+    const bytes = data.subarray(skip, skip + count);
+    for (let offset = 0; offset < bytes.length; offset += INCBIN_LINE_BYTES) {
+      const chunk = Array.from(bytes.subarray(offset, offset + INCBIN_LINE_BYTES));
+      this.output.push({ text: `.byte ${chunk.join(', ')}`, location: line.location });
+    }
+  }
+
+  /**
+   * Resolve the quoted path of .include/.incbin against the including file
+   */
+  private resolvePath(operand: string, line: Line): string {
+    const match = operand.trim().match(/^"([^"]*)"$/);
+    if (!match) {
+      throw this.error('Expected a quoted file name', line);
+    }
+    if (!this.resolver) {
+      throw this.error(`Cannot include '${match[1]}': no file resolver`, line);
+    }
+    const file = line.location.file;
+    const directory = file && file.includes('/') ? file.slice(0, file.lastIndexOf('/') + 1) : '';
+    return match[1].startsWith('/') ? normalizePath(match[1]) : normalizePath(directory + match[1]);
+  }
+
+  /**
+   * Find the line that closes the .macro or .rept block at lines[start]
+   */
+  private findEnd(lines: Line[], start: number, directive: string): number {
+    const ends = directive === '.macro' ? ['.endm', '.endmacro'] : ['.endr'];
+    let depth = 0;
+    for (let i = start; i < lines.length; i++) {
+      const word = splitFirstWord(stripComment(lines[i].text).trim())[0].toLowerCase();
+      if (word === directive) {
+        depth++;
+      } else if (ends.includes(word) && --depth === 0) {
+        return i;
+      }
+    }
+    throw this.error(`Missing ${ends[0]} for ${directive}`, lines[start]);
+  }
+
+  /**
+   * Evaluate a constant expression over the symbols seen so far
+   */
+  private evaluate(text: string, line: Line): number {
+    try {
+      return evaluateConstant(text, this.symbols);
+    } catch (e) {
+      throw this.error((e as Error).message, line);
+    }
+  }
+
+  /**
+   * Run a nested include or expansion, bounding recursion
+   */
+  private nested(line: Line, body: () => void): void {
+    if (this.depth >= MAX_DEPTH) {
+      throw this.error('Includes or macro expansions nested too deeply', line);
+    }
+    this.depth++;
+    try {
+      body();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private error(message: string, line: Line): PreprocessorError {
+    return new PreprocessorError(message, line.location.line, line.location.file);
+  }
+}
+
+/**
+ * Evaluate a constant expression over the symbols with known values
+ */
+function evaluateConstant(text: string, symbols: Map<string, number | null>): number {
+  let tokens;
+  try {
+    tokens = new Lexer(text).tokenize();
+  } catch (e) {
+    throw new Error((e as Error).message.replace(/ at line \d+, column \d+$/, ''));
+  }
+  const parser = new ExpressionParser(tokens);
+  const expression = parser.parse();
+  if (tokens[parser.pos].type !== TokenType.EOF) {
+    throw new Error(`Unexpected '${tokens[parser.pos].value}' in expression`);
+  }
+  return evaluateExpression(expression, (name) => {
+    const value = symbols.get(name);
+    if (value === undefined || value === null) {
+      throw new Error(`Symbol '${name}' has no constant value`);
+    }
+    return value;
+  });
+}
+
+/**
+ * Split a source into lines tagged with their origin
+ */
+function toLines(source: string, file?: string): Line[] {
+  return source.split('\n').map((text, i) => ({ text, location: file ? { file, line: i + 1 } : { line: i + 1 } }));
+}
+
+/**
+ * Length of the character constant ('A', '\n') starting at a quote
+ */
+function characterLength(text: string, start: number): number {
+  return Math.min(text[start + 1] === '\\' ? 4 : 3, text.length - start);
+}
+
+/**
+ * Remove a ; or # comment, ignoring those inside strings and character
+ * constants
+ */
+function stripComment(text: string): string {
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"' && text[i - 1] !== '\\') {
+      quoted = !quoted;
+    } else if (!quoted && char === "'") {
+      i += characterLength(text, i) - 1;
+    } else if (!quoted && (char === ';' || char === '#')) {
+      return text.slice(0, i);
+    }
+  }
+  return text;
+}
+
+/**
+ * Split a statement into its first word and the rest
+ */
+function splitFirstWord(code: string): [string, string] {
+  const match = code.match(/^(\S+)\s*(.*)$/);
+  return match ? [match[1], match[2]] : ['', ''];
+}
+
+/**
+ * Split comma-separated arguments, keeping commas inside strings,
+ * character constants and parentheses
+ */
+function splitArguments(text: string): string[] {
+  const args: string[] = [];
+  let current = '';
+  let quoted = false;
+  let parens = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (!quoted && char === "'") {
+      const length = characterLength(text, i);
+      current += text.slice(i, i + length);
+      i += length - 1;
+      continue;
+    }
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (!quoted && char === '(') {
+      parens++;
+    } else if (!quoted && char === ')') {
+      parens--;
+    } else if (!quoted && parens === 0 && char === ',') {
+      args.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  if (current.trim() || args.length > 0) {
+    args.push(current.trim());
+  }
+  return args;
+}
+
+/**
+ * Collapse `.` and `..` segments of a /-separated path
+ */
+function normalizePath(path: string): string {
+  const parts: string[] = [];
+  for (const part of path.split('/')) {
+    if (part === '..' && parts.length > 0 && parts[parts.length - 1] !== '..' && parts[parts.length - 1] !== '') {
+      parts.pop();
+    } else if (part !== '.' && (part !== '' || parts.length === 0)) {
+      parts.push(part);
+    }
+  }
+  return parts.join('/');
+}
@@ -0,0 +1,8 @@
+/**
+ * The part of Bun's ImportMeta the command-line tools use, without
+ * depending on bun-types
+ */
+interface ImportMeta {
+  /** Whether this module is the entry point bun was started with */
+  readonly main: boolean;
+}
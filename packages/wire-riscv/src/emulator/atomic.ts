@@ -0,0 +1,109 @@
+/**
+ * RV32A Atomic Memory Operations
+ *
+ * Load-reserved/store-conditional reservations and the arithmetic of
+ * the AMO instructions. Harts that share a machine share one
+ * ReservationSet: LR.W registers a reservation for the hart, and a
+ * store by any other hart to the reserved word clears it, so the
+ * hart's next SC.W fails.
+ */
+
+// funct5 (bits 31:27) of the AMO opcode
+export const AMO_FUNCT5 = {
+  AMOADD: 0b00000,
+  AMOSWAP: 0b00001,
+  LR: 0b00010,
+  SC: 0b00011,
+  AMOXOR: 0b00100,
+  AMOOR: 0b01000,
+  AMOAND: 0b01100,
+  AMOMIN: 0b10000,
+  AMOMAX: 0b10100,
+  AMOMINU: 0b11000,
+  AMOMAXU: 0b11100,
+} as const;
+
+/** Width funct3 of the word-sized atomics (the only ones on RV32) */
+export const AMO_WIDTH_W = 0b010;
+
+/**
+ * Compute the value an AMO writes back, given the loaded value and rs2
+ * Returns null for funct5 values that are not AMOs
+ */
+export function amoResult(funct5: number, loaded: number, operand: number): number | null {
+  switch (funct5) {
+    case AMO_FUNCT5.AMOSWAP:
+      return operand >>> 0;
+    case AMO_FUNCT5.AMOADD:
+      return (loaded + operand) >>> 0;
+    case AMO_FUNCT5.AMOXOR:
+      return (loaded ^ operand) >>> 0;
+    case AMO_FUNCT5.AMOAND:
+      return (loaded & operand) >>> 0;
+    case AMO_FUNCT5.AMOOR:
+      return (loaded | operand) >>> 0;
+    case AMO_FUNCT5.AMOMIN:
+      return ((loaded | 0) < (operand | 0) ? loaded : operand) >>> 0;
+    case AMO_FUNCT5.AMOMAX:
+      return ((loaded | 0) > (operand | 0) ? loaded : operand) >>> 0;
+    case AMO_FUNCT5.AMOMINU:
+      return (loaded >>> 0) < (operand >>> 0) ? loaded >>> 0 : operand >>> 0;
+    case AMO_FUNCT5.AMOMAXU:
+      return (loaded >>> 0) > (operand >>> 0) ? loaded >>> 0 : operand >>> 0;
+    default:
+      return null;
+  }
+}
+
+export class ReservationSet {
+  /** Reserved word address per hart id */
+  private reservations: Map<number, number> = new Map();
+
+  /**
+   * Number of harts holding a reservation (stores skip the set when 0)
+   */
+  get size(): number {
+    return this.reservations.size;
+  }
+
+  /**
+   * Reserve the word containing a physical address for a hart
+   */
+  reserve(hartId: number, address: number): void {
+    this.reservations.set(hartId, (address & ~0x3) >>> 0);
+  }
+
+  /**
+   * Check whether a hart still holds a reservation on an address
+   */
+  isReserved(hartId: number, address: number): boolean {
+    return this.reservations.get(hartId) === (address & ~0x3) >>> 0;
+  }
+
+  /**
+   * Drop a hart's reservation (SC.W, traps)
+   */
+  release(hartId: number): void {
+    this.reservations.delete(hartId);
+  }
+
+  /**
+   * Clear other harts' reservations on the words overlapping a store
+   */
+  invalidate(address: number, size: number, hartId: number): void {
+    const first = (address & ~0x3) >>> 0;
+    const last = ((address + size - 1) & ~0x3) >>> 0;
+    for (const [hart, reserved] of this.reservations) {
+      if (hart !== hartId && reserved >= first && reserved <= last) {
+        this.reservations.delete(hart);
+      }
+    }
+  }
+
+  /**
+   * Drop every reservation
+   */
+  clear(): void {
+    this.reservations.clear();
+  }
+}
@@ -12,7 +12,8 @@ import { WireFS, SECTOR_SIZE } from './filesystem.js';
 import { Shell, CommandParser } from './shell.js';
 import { NativeAssembler } from './native-assembler.js';
 import { ExecutableBuilder, ProgramLoader, EXECUTABLE_MAGIC, HEADER_SIZE } from './program-loader.js';
-import { Bootloader, BOOT_CONFIG } from './bootloader.js';
+import { ElfSymbol, isElf } from './elf.js';
+import { BOOT_CONFIG, BootLayout, getBootLayout } from './bootloader.js';
 import { TEXT_COLS, TEXT_ROWS } from './graphics.js';
 
 /** Boot disk configuration */
@@ -25,12 +26,18 @@ export const BOOT_DISK_CONFIG = {
 
 /**
  * Creates bootable disk images
+ *
+ * The native commands are built for the program base of a boot layout
+ * (by default that of the default memory map), which must be 4KB-aligned.
  */
 export class BootDisk {
   private fs: WireFS;
   private storage: Uint8Array;
 
-  constructor() {
+  constructor(private readonly layout: BootLayout = getBootLayout()) {
+    if (layout.programBase & 0xFFF) {
+      throw new Error(`Program base 0x${layout.programBase.toString(16)} is not 4KB-aligned`);
+    }
     this.storage = new Uint8Array(BOOT_DISK_CONFIG.DISK_SIZE);
     this.fs = new WireFS(this.storage);
   }
@@ -101,6 +108,10 @@ loop:   ADDI t0, zero, 0
    */
   private addNativeCommands(): void {
     const asm = new NativeAssembler();
+    // The commands below address their data and buffers as pages of the
+    // default layout; page() moves them to this layout's program base
+    const page = (address: number): string =>
+      `0x${((this.layout.programBase + address - BOOT_CONFIG.PROGRAM_BASE) >>> 12).toString(16)}`;
 
     // ECHO command - prints "Hello from native echo!"
     // The message will be in the data section
@@ -109,7 +120,7 @@ loop:   ADDI t0, zero, 0
 ; ECHO - native echo command
 ; Prints hardcoded message from data section
 
-        LUI a0, 0x1         ; Base address 0x1000
+        LUI a0, ${page(0x1000)} ; Base address 0x1000
         ADDI a0, a0, 0x24   ; Add offset to data (36 bytes of code)
         ADDI a7, zero, 3    ; PUTS syscall
         ECALL
@@ -139,7 +150,7 @@ loop:   ADDI t0, zero, 0
 ; Cats hardcoded file (README.TXT)
 
         ; Open file
-        LUI a0, 0x1         ; filename address (in data section)
+        LUI a0, ${page(0x1000)} ; filename address (in data section)
         ADDI a0, a0, 0x88   ; offset after code (34 instructions = 136 bytes)
         ADDI a1, zero, 0    ; mode = read
         ADDI a7, zero, 7    ; FOPEN syscall
@@ -154,7 +165,7 @@ loop:   ADDI t0, zero, 0
 
 ; Read loop
 loop:   ADDI a0, s0, 0      ; handle
-        LUI a1, 0x2         ; buffer at 0x2000
+        LUI a1, ${page(0x2000)} ; buffer at 0x2000
         ADDI a2, zero, 100  ; read 100 bytes
         ADDI a7, zero, 8    ; FREAD syscall
         ECALL
@@ -166,7 +177,7 @@ loop:   ADDI a0, s0, 0      ; handle
         ; Print buffer
         ADDI s2, zero, 0    ; i = 0
 print:  BEQ s2, s1, loop    ; if i == bytes_read, read more
-        LUI t0, 0x2
+        LUI t0, ${page(0x2000)}
         ADD t0, t0, s2      ; t0 = buffer + i
         LBU a0, 0(t0)       ; load byte
         ADDI a7, zero, 1    ; PUTCHAR
@@ -181,7 +192,7 @@ done:   ; Close file
         JAL zero, exit
 
 error:  ; Print error message
-        LUI a0, 0x1
+        LUI a0, ${page(0x1000)}
         ADDI a0, a0, 0x93   ; error msg offset (0x88 + 11 bytes for "README.TXT\0")
         ADDI a7, zero, 3    ; PUTS
         ECALL
@@ -207,10 +218,10 @@ exit:   ADDI a7, zero, 0    ; EXIT
 
 loop:
         ; Call readdir syscall
-        LUI a0, 0x2         ; name buffer at 0x2000
-        LUI a1, 0x2         ; ext buffer at 0x2008
+        LUI a0, ${page(0x2000)} ; name buffer at 0x2000
+        LUI a1, ${page(0x2000)} ; ext buffer at 0x2008
         ADDI a1, a1, 8
-        LUI a2, 0x2         ; size buffer at 0x200B
+        LUI a2, ${page(0x2000)} ; size buffer at 0x200B
         ADDI a2, a2, 11
         ADDI a7, zero, 11   ; READDIR syscall
         ECALL
@@ -219,7 +230,7 @@ loop:
         BEQ a0, zero, done
 
         ; Print name (8 bytes)
-        LUI s0, 0x2         ; s0 = name buffer
+        LUI s0, ${page(0x2000)} ; s0 = name buffer
         ADDI s1, zero, 8    ; counter
 print_name:
         LBU a0, 0(s0)       ; load byte
@@ -235,7 +246,7 @@ print_name:
         ECALL
 
         ; Print extension (3 bytes)
-        LUI s0, 0x2
+        LUI s0, ${page(0x2000)}
         ADDI s0, s0, 8      ; ext buffer
         ADDI s1, zero, 3
 print_ext:
@@ -253,7 +264,7 @@ print_ext:
         ECALL
 
         ; Load size (4 bytes little-endian)
-        LUI s0, 0x2
+        LUI s0, ${page(0x2000)}
         ADDI s0, s0, 11     ; size buffer
         LBU t0, 0(s0)       ; byte 0
         LBU t1, 1(s0)       ; byte 1
@@ -272,7 +283,7 @@ print_ext:
         ECALL
 
         ; Print bytes suffix
-        LUI a0, 0x1         ; data section
+        LUI a0, ${page(0x1000)} ; data section
         ADDI a0, a0, 0xD8   ; offset to bytes string (54 instructions = 216 bytes)
         ADDI a7, zero, 3    ; PUTS
         ECALL
@@ -301,7 +312,7 @@ done:   ; Exit
 ; Assembles HELLO.ASM to HELLO.BIN
 
         ; Open source file (HELLO.ASM)
-        LUI a0, 0x1
+        LUI a0, ${page(0x1000)}
         ADDI a0, a0, 0x160  ; filename in data
         ADDI a1, zero, 0    ; mode = read
         ADDI a7, zero, 7    ; FOPEN
@@ -314,14 +325,14 @@ done:   ; Exit
 
         ; Read entire source file into buffer at 0x3000
         ADDI a0, s0, 0      ; file handle
-        LUI a1, 0x3         ; buffer at 0x3000
+        LUI a1, ${page(0x3000)} ; buffer at 0x3000
         LUI a2, 0x1         ; read up to 4KB
         ADDI a7, zero, 8    ; FREAD
         ECALL
         ADDI s1, a0, 0      ; s1 = bytes read
 
         ; Null-terminate the source buffer
-        LUI t0, 0x3
+        LUI t0, ${page(0x3000)}
         ADD t0, t0, s1
         ADDI t1, zero, 0
         SB t1, 0(t0)
@@ -333,8 +344,8 @@ done:   ; Exit
 
         ; Call ASSEMBLE syscall
         ; a0 = source buffer, a1 = output buffer, a2 = max size
-        LUI a0, 0x3         ; source at 0x3000
-        LUI a1, 0x4         ; output at 0x4000
+        LUI a0, ${page(0x3000)} ; source at 0x3000
+        LUI a1, ${page(0x4000)} ; output at 0x4000
         LUI a2, 0x1         ; max 4KB output
         ADDI a7, zero, 13   ; ASSEMBLE syscall
         ECALL
@@ -345,7 +356,7 @@ done:   ; Exit
         BEQ s2, t0, error_asm
 
         ; Open output file (HELLO.BIN)
-        LUI a0, 0x1
+        LUI a0, ${page(0x1000)}
         ADDI a0, a0, 0x16A  ; output filename in data
         ADDI a1, zero, 1    ; mode = write
         ADDI a7, zero, 7    ; FOPEN
@@ -360,7 +371,7 @@ done:   ; Exit
         ; Write 24-byte header + assembled code
 
         ; Write RISV magic (0x56534952)
-        LUI a1, 0x5        ; temp buffer at 0x5000
+        LUI a1, ${page(0x5000)} ; temp buffer at 0x5000
         LUI t0, 0x56535    ; Load 0x56535000
         ADDI t0, t0, 0x952 ; Add signed -1710 -> 0x56534952
         SW t0, 0(a1)
@@ -383,14 +394,14 @@ done:   ; Exit
 
         ; Write header to file
         ADDI a0, s3, 0      ; file handle
-        LUI a1, 0x5         ; header buffer
+        LUI a1, ${page(0x5000)} ; header buffer
         ADDI a2, zero, 24   ; header size
         ADDI a7, zero, 9    ; FWRITE
         ECALL
 
         ; Write assembled code to file
         ADDI a0, s3, 0      ; file handle
-        LUI a1, 0x4         ; code buffer
+        LUI a1, ${page(0x4000)} ; code buffer
         ADDI a2, s2, 0      ; code size
         ADDI a7, zero, 9    ; FWRITE
         ECALL
@@ -401,7 +412,7 @@ done:   ; Exit
         ECALL
 
         ; Print success message
-        LUI a0, 0x1
+        LUI a0, ${page(0x1000)}
         ADDI a0, a0, 0x174  ; success msg (offset 0x174)
         ADDI a7, zero, 3    ; PUTS
         ECALL
@@ -411,7 +422,7 @@ done:   ; Exit
         ADDI a7, zero, 12   ; PUTD
         ECALL
 
-        LUI a0, 0x1
+        LUI a0, ${page(0x1000)}
         ADDI a0, a0, 0x17F  ; bytes suffix (offset 0x17F)
         ADDI a7, zero, 3
         ECALL
@@ -419,21 +430,21 @@ done:   ; Exit
         JAL zero, done
 
 error_open:
-        LUI a0, 0x1
+        LUI a0, ${page(0x1000)}
         ADDI a0, a0, 0x187  ; File not found message (offset 0x187)
         ADDI a7, zero, 3
         ECALL
         JAL zero, done
 
 error_asm:
-        LUI a0, 0x1
+        LUI a0, ${page(0x1000)}
         ADDI a0, a0, 0x197  ; Assembly error message (offset 0x197)
         ADDI a7, zero, 3
         ECALL
         JAL zero, done
 
 error_write:
-        LUI a0, 0x1
+        LUI a0, ${page(0x1000)}
         ADDI a0, a0, 0x1A7  ; Write error message (offset 0x1A7)
         ADDI a7, zero, 3
         ECALL
@@ -496,6 +507,17 @@ Commands:
   }
 }
 
+/**
+ * Shell state of the interactive system, for machine snapshots
+ * (the filesystem is saved with the CPU it is attached to)
+ */
+export interface InteractiveSystemState {
+  running: boolean;
+  booted: boolean;
+  inputBuffer: string;
+  symbols: ElfSymbol[];
+}
+
 /**
  * Interactive system that manages boot and shell interaction
  */
@@ -506,17 +528,20 @@ export class InteractiveSystem {
   private running: boolean = false;
   private booted: boolean = false;
   private inputBuffer: string = '';
+  private symbols: ElfSymbol[] = [];
 
   constructor(cpu: RiscVCpu) {
     this.cpu = cpu;
+    // The shell and the programs it runs call the host syscalls
+    this.cpu.hostSyscalls = true;
   }
 
   /**
    * Boot the system from disk
    */
   boot(): void {
-    // Create boot disk
-    const bootDisk = new BootDisk();
+    // Create boot disk for this machine's memory map
+    const bootDisk = new BootDisk(getBootLayout(this.cpu.memoryMap));
     const diskImage = bootDisk.create();
 
     // Initialize filesystem from disk
@@ -566,6 +591,38 @@ export class InteractiveSystem {
     return this.fs;
   }
 
+  /**
+   * Get the symbol table of the last program run (empty unless it was ELF)
+   */
+  getSymbols(): ElfSymbol[] {
+    return this.symbols;
+  }
+
+  /**
+   * Copy the shell state
+   */
+  saveState(): InteractiveSystemState {
+    return {
+      running: this.running,
+      booted: this.booted,
+      inputBuffer: this.inputBuffer,
+      symbols: this.symbols.map((symbol) => ({ ...symbol })),
+    };
+  }
+
+  /**
+   * Restore state copied by saveState(), reattaching to the CPU's
+   * filesystem (restore the CPU first)
+   */
+  restoreState(state: InteractiveSystemState): void {
+    this.running = state.running;
+    this.booted = state.booted;
+    this.inputBuffer = state.inputBuffer;
+    this.symbols = state.symbols.map((symbol) => ({ ...symbol }));
+    this.fs = this.cpu.filesystem;
+    this.shell = state.booted ? new Shell(this.cpu) : null;
+  }
+
   /**
    * Press a key
    */
@@ -793,23 +850,25 @@ export class InteractiveSystem {
       return;
     }
 
-    // Check for executable magic
-    if (data.length < HEADER_SIZE) {
+    // Check for executable magic (RISV, or ELF starting with \x7fELF)
+    const elf = isElf(data);
+    if (!elf && data.length < HEADER_SIZE) {
       this.println('Invalid executable: too small');
       return;
     }
 
     const magic =
       data[0] | (data[1] << 8) | (data[2] << 16) | (data[3] << 24);
-    if (magic !== EXECUTABLE_MAGIC) {
-      this.println('Invalid executable: not a RISV file');
+    if (!elf && magic !== EXECUTABLE_MAGIC) {
+      this.println('Invalid executable: not a RISV or ELF file');
       return;
     }
 
     // Load and execute
     try {
       const loader = new ProgramLoader(this.cpu);
-      const loadInfo = loader.load(data, BOOT_CONFIG.PROGRAM_BASE);
+      const loadInfo = loader.load(data);
+      this.symbols = loadInfo.symbols ?? [];
 
       // Set up CPU for execution
       this.cpu.pc = loadInfo.entryPoint;
@@ -833,6 +892,7 @@ export class InteractiveSystem {
 
       if (this.cpu.halted) {
         this.cpu.halted = false; // Allow continuing
+        this.cpu.haltTrap = null;
       }
     } catch (err) {
       this.println(`Error: ${err instanceof Error ? err.message : 'unknown'}`);
@@ -6,9 +6,13 @@
  * 2. Prints boot message
  * 3. Loads program from disk to memory
  * 4. Jumps to loaded program
+ *
+ * Addresses come from a BootLayout, derived from the machine's memory
+ * map; BOOT_CONFIG holds the offsets and the layout of the default map.
  */
 
 import { SYSCALL } from './cpu.js';
+import { MemoryMap, DEFAULT_MEMORY_MAP } from './memory-map.js';
 
 /**
  * Boot configuration constants
@@ -30,6 +34,34 @@ export const BOOT_CONFIG = {
   SECTOR_SIZE: 512,
 } as const;
 
+/**
+ * Addresses the bootloader and boot disk use on one machine
+ */
+export interface BootLayout {
+  /** Base address for the bootloader */
+  bootloaderBase: number;
+  /** Base address for loaded programs */
+  programBase: number;
+  /** Initial stack pointer */
+  stackTop: number;
+}
+
+/**
+ * Place the bootloader, programs and stack in a memory map's RAM
+ *
+ * The bootloader and programs sit at BOOT_CONFIG's offsets from the
+ * start of RAM and the stack at its last byte, so the default map
+ * gives the BOOT_CONFIG addresses.
+ */
+export function getBootLayout(map: MemoryMap = DEFAULT_MEMORY_MAP): BootLayout {
+  const { base, size } = map.ram;
+  return {
+    bootloaderBase: base + BOOT_CONFIG.BOOTLOADER_BASE,
+    programBase: base + BOOT_CONFIG.PROGRAM_BASE,
+    stackTop: base + size - 1,
+  };
+}
+
 /**
  * RISC-V instruction encoding helpers
  */
@@ -164,6 +196,8 @@ const REG = {
 export class Bootloader {
   private sectorCount: number = 1;
 
+  constructor(private readonly layout: BootLayout = getBootLayout()) {}
+
   /**
    * Set the number of sectors to load for the program
    */
@@ -178,11 +212,8 @@ export class Bootloader {
     const instructions: number[] = [];
 
     // === Step 1: Initialize stack pointer ===
-    // sp = 0xFFFF (lui + ori to load full 16-bit value)
-    // lui sp, 0x10 (sp = 0x10000 = 65536)
-    instructions.push(RiscVEncoder.lui(REG.SP, 0x10));
-    // addi sp, sp, -1 (sp = 0xFFFF)
-    instructions.push(RiscVEncoder.addi(REG.SP, REG.SP, -1));
+    // sp = stack top (lui + addi, e.g. 0x10000 - 1 = 0xFFFF)
+    this.loadImmediate(instructions, REG.SP, this.layout.stackTop);
 
     // === Step 2: Print boot message ===
     // Store boot message in memory and print using puts syscall
@@ -202,11 +233,8 @@ export class Bootloader {
     // Initialize loop counter in t0
     instructions.push(RiscVEncoder.addi(REG.T0, REG.ZERO, 0)); // t0 = sector offset (0, 1, 2...)
 
-    // Load destination address into t1 = PROGRAM_BASE
-    instructions.push(RiscVEncoder.lui(REG.T1, BOOT_CONFIG.PROGRAM_BASE >> 12));
-    if ((BOOT_CONFIG.PROGRAM_BASE & 0xFFF) !== 0) {
-      instructions.push(RiscVEncoder.addi(REG.T1, REG.T1, BOOT_CONFIG.PROGRAM_BASE & 0xFFF));
-    }
+    // Load destination address into t1 = program base
+    this.loadImmediate(instructions, REG.T1, this.layout.programBase);
 
     // Load sector count into t2
     instructions.push(RiscVEncoder.addi(REG.T2, REG.ZERO, this.sectorCount));
@@ -235,11 +263,8 @@ export class Bootloader {
     instructions.push(RiscVEncoder.bne(REG.T0, REG.T2, branchOffset));
 
     // === Step 4: Jump to loaded program ===
-    // Load PROGRAM_BASE into t0
-    instructions.push(RiscVEncoder.lui(REG.T0, BOOT_CONFIG.PROGRAM_BASE >> 12));
-    if ((BOOT_CONFIG.PROGRAM_BASE & 0xFFF) !== 0) {
-      instructions.push(RiscVEncoder.addi(REG.T0, REG.T0, BOOT_CONFIG.PROGRAM_BASE & 0xFFF));
-    }
+    // Load program base into t0
+    this.loadImmediate(instructions, REG.T0, this.layout.programBase);
     // jalr x0, t0, 0 (jump to program, don't save return address)
     instructions.push(RiscVEncoder.jalr(REG.ZERO, REG.T0, 0));
 
@@ -255,4 +280,17 @@ export class Bootloader {
 
     return bytes;
   }
+
+  /**
+   * Append lui (+ addi) loading a 32-bit value into a register
+   */
+  private loadImmediate(instructions: number[], rd: number, value: number): void {
+    // addi sign-extends, so round the upper part up when bit 11 is set
+    const upper = ((value + 0x800) >>> 12) & 0xFFFFF;
+    const lower = value - (upper << 12);
+    instructions.push(RiscVEncoder.lui(rd, upper));
+    if ((lower & 0xFFF) !== 0) {
+      instructions.push(RiscVEncoder.addi(rd, rd, lower));
+    }
+  }
 }
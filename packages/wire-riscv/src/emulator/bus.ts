@@ -0,0 +1,253 @@
+/**
+ * System Bus
+ *
+ * Routes physical memory accesses to RAM regions and memory-mapped
+ * devices. Each device registers one or more address ranges and
+ * implements a single read/write interface that takes the access
+ * width; offsets are relative to the start of the range. Accesses
+ * that hit no region, and writes to read-only regions (ROM), raise a
+ * BusError, which the CPU reports as an access fault.
+ */
+
+/** Access width in bytes */
+export type AccessWidth = 1 | 2 | 4;
+
+/**
+ * A memory-mapped device
+ */
+export interface BusDevice {
+  /** Read `width` bytes at an offset into the region (little-endian) */
+  read(offset: number, width: AccessWidth): number;
+  /** Write a `width`-byte value (already masked) at an offset into the region */
+  write(offset: number, value: number, width: AccessWidth): void;
+}
+
+/**
+ * Device with one MMIO method per access width taking absolute
+ * addresses (the interface of the built-in peripherals)
+ */
+export interface MmioDevice {
+  mmioRead(address: number): number;
+  mmioWrite(address: number, value: number): void;
+  mmioReadHalfword(address: number): number;
+  mmioWriteHalfword(address: number, value: number): void;
+  mmioReadByte(address: number): number;
+  mmioWriteByte(address: number, value: number): void;
+}
+
+/** An address range claimed by a device */
+export interface BusRegion {
+  name: string;
+  base: number;
+  size: number;
+  device: BusDevice;
+  /** Writes fail (ROM) */
+  readOnly?: boolean;
+}
+
+/**
+ * Bus error class for accesses to unmapped addresses and writes to ROM
+ */
+export class BusError extends Error {
+  constructor(
+    public readonly address: number,
+    public readonly width: AccessWidth,
+    public readonly isWrite: boolean,
+    public readonly readOnly: boolean = false
+  ) {
+    super(
+      `${readOnly ? 'Read-only' : 'Unmapped'} ${isWrite ? 'write' : 'read'} of ${width} byte(s) at 0x${(address >>> 0).toString(16)}`
+    );
+    this.name = 'BusError';
+  }
+}
+
+/**
+ * Byte-addressable RAM backed by a Uint8Array
+ */
+export class RamDevice implements BusDevice {
+  public readonly data: Uint8Array;
+
+  constructor(sizeOrData: number | Uint8Array) {
+    this.data = typeof sizeOrData === 'number' ? new Uint8Array(sizeOrData) : sizeOrData;
+  }
+
+  /**
+   * Read a little-endian value
+   */
+  read(offset: number, width: AccessWidth): number {
+    const data = this.data;
+    switch (width) {
+      case 1:
+        return data[offset];
+      case 2:
+        return data[offset] | (data[offset + 1] << 8);
+      case 4:
+        return (data[offset] | (data[offset + 1] << 8) |
+          (data[offset + 2] << 16) | (data[offset + 3] << 24)) >>> 0;
+    }
+  }
+
+  /**
+   * Write a little-endian value
+   */
+  write(offset: number, value: number, width: AccessWidth): void {
+    const data = this.data;
+    data[offset] = value & 0xff;
+    if (width >= 2) {
+      data[offset + 1] = (value >> 8) & 0xff;
+    }
+    if (width === 4) {
+      data[offset + 2] = (value >> 16) & 0xff;
+      data[offset + 3] = (value >> 24) & 0xff;
+    }
+  }
+}
+
+/**
+ * Adapt a device with per-width MMIO methods to the bus interface
+ */
+export function fromMmioDevice(device: MmioDevice, base: number): BusDevice {
+  return {
+    read(offset: number, width: AccessWidth): number {
+      const address = base + offset;
+      switch (width) {
+        case 1:
+          return device.mmioReadByte(address);
+        case 2:
+          return device.mmioReadHalfword(address);
+        case 4:
+          return device.mmioRead(address);
+      }
+    },
+    write(offset: number, value: number, width: AccessWidth): void {
+      const address = base + offset;
+      switch (width) {
+        case 1:
+          device.mmioWriteByte(address, value);
+          break;
+        case 2:
+          device.mmioWriteHalfword(address, value);
+          break;
+        case 4:
+          device.mmioWrite(address, value);
+          break;
+      }
+    },
+  };
+}
+
+export class Bus {
+  /** Regions sorted by base address */
+  private regions: BusRegion[] = [];
+  /** Most recently used region, checked first */
+  private lastRegion: BusRegion | null = null;
+
+  /**
+   * Map a device at [base, base + size). Regions may not overlap.
+   */
+  attach(name: string, base: number, size: number, device: BusDevice): BusRegion {
+    base = base >>> 0;
+    if (size <= 0 || base + size > 0x100000000) {
+      throw new Error(`Invalid bus region ${name}: base 0x${base.toString(16)}, size ${size}`);
+    }
+    for (const region of this.regions) {
+      if (base < region.base + region.size && region.base < base + size) {
+        throw new Error(`Bus region ${name} overlaps ${region.name}`);
+      }
+    }
+
+    const region: BusRegion = { name, base, size, device };
+    this.regions.push(region);
+    this.regions.sort((a, b) => a.base - b.base);
+    return region;
+  }
+
+  /**
+   * Map RAM at a base address, backed by new or existing storage
+   */
+  addRam(name: string, base: number, sizeOrData: number | Uint8Array): RamDevice {
+    const ram = new RamDevice(sizeOrData);
+    this.attach(name, base, ram.data.length, ram);
+    return ram;
+  }
+
+  /**
+   * Map read-only memory at a base address; the host can still change
+   * it through the returned device's data
+   */
+  addRom(name: string, base: number, data: Uint8Array): RamDevice {
+    const rom = new RamDevice(data);
+    this.attach(name, base, rom.data.length, rom).readOnly = true;
+    return rom;
+  }
+
+  /**
+   * Remove every region registered under a name
+   */
+  detach(name: string): boolean {
+    const count = this.regions.length;
+    this.regions = this.regions.filter((region) => region.name !== name);
+    this.lastRegion = null;
+    return this.regions.length !== count;
+  }
+
+  /**
+   * Find the region that contains a whole access, or null
+   */
+  find(address: number, width: number = 1): BusRegion | null {
+    address = address >>> 0;
+    const last = this.lastRegion;
+    if (last && address >= last.base && address + width <= last.base + last.size) {
+      return last;
+    }
+    for (const region of this.regions) {
+      if (address >= region.base && address + width <= region.base + region.size) {
+        this.lastRegion = region;
+        return region;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Check whether an access hits a mapped region
+   */
+  isMapped(address: number, width: number = 1): boolean {
+    return this.find(address, width) !== null;
+  }
+
+  /**
+   * Get the registered regions in address order
+   */
+  getRegions(): readonly BusRegion[] {
+    return this.regions;
+  }
+
+  /**
+   * Read from the device mapped at an address
+   */
+  read(address: number, width: AccessWidth): number {
+    const region = this.find(address, width);
+    if (!region) {
+      throw new BusError(address >>> 0, width, false);
+    }
+    return region.device.read((address >>> 0) - region.base, width);
+  }
+
+  /**
+   * Write to the device mapped at an address
+   */
+  write(address: number, value: number, width: AccessWidth): void {
+    const region = this.find(address, width);
+    if (!region) {
+      throw new BusError(address >>> 0, width, true);
+    }
+    if (region.readOnly) {
+      throw new BusError(address >>> 0, width, true, true);
+    }
+    // Devices only ever see the bytes being written
+    const masked = width === 4 ? value >>> 0 : value & (width === 2 ? 0xffff : 0xff);
+    region.device.write((address >>> 0) - region.base, masked, width);
+  }
+}
@@ -0,0 +1,274 @@
+/**
+ * RISC-V Core-Local Interruptor (CLINT)
+ *
+ * Memory-mapped machine timer and software interrupt device, laid out
+ * like the SiFive CLINT used by most RISC-V platforms.
+ *
+ * Memory Map:
+ * - 0x02000000: CLINT registers base
+ *
+ * Registers (hart n):
+ * - 0x0000 + 4*n: MSIP (bit 0 = machine software interrupt pending)
+ * - 0x4000 + 8*n: MTIMECMP (low word)
+ * - 0x4004 + 8*n: MTIMECMPH (high word)
+ * - 0xBFF8: MTIME (low word)
+ * - 0xBFFC: MTIMEH (high word)
+ *
+ * mtime is shared by all harts and advances by one tick per executed
+ * cycle of the boot hart. A hart's timer interrupt is pending while
+ * mtime >= its mtimecmp.
+ */
+
+export const CLINT_BASE = 0x02000000;
+export const CLINT_SIZE = 0x10000;
+
+export const CLINT_REGS = {
+  MSIP: 0x0000,
+  MTIMECMP: 0x4000,
+  MTIMECMPH: 0x4004,
+  MTIME: 0xBFF8,
+  MTIMEH: 0xBFFC,
+} as const;
+
+const TWO_POW_32 = 0x100000000;
+
+/**
+ * Timer and software interrupt registers, for machine snapshots
+ */
+export interface ClintState {
+  mtime: number;
+  msip: number[];
+  mtimecmpLo: number[];
+  mtimecmpHi: number[];
+}
+
+/** Per-hart register strides */
+const MSIP_STRIDE = 4;
+const MTIMECMP_STRIDE = 8;
+
+export class Clint {
+  /** Machine time (ticks since reset) */
+  public mtime: number = 0;
+  private msip: Uint8Array;
+  private mtimecmpLo: Uint32Array;
+  private mtimecmpHi: Uint32Array;
+  /** Each hart's mtimecmp as one number, checked every tick */
+  private deadline: Float64Array;
+
+  constructor(public readonly hartCount: number = 1) {
+    this.msip = new Uint8Array(hartCount);
+    this.mtimecmpLo = new Uint32Array(hartCount).fill(0xFFFFFFFF);
+    this.mtimecmpHi = new Uint32Array(hartCount).fill(0xFFFFFFFF);
+    this.deadline = new Float64Array(hartCount).fill(TWO_POW_32 * TWO_POW_32);
+  }
+
+  /**
+   * Reset the timer and clear pending interrupts
+   */
+  reset(): void {
+    this.mtime = 0;
+    this.msip.fill(0);
+    this.mtimecmpLo.fill(0xFFFFFFFF);
+    this.mtimecmpHi.fill(0xFFFFFFFF);
+    this.deadline.fill(TWO_POW_32 * TWO_POW_32);
+  }
+
+  /**
+   * Copy mtime and every hart's registers
+   */
+  saveState(): ClintState {
+    return {
+      mtime: this.mtime,
+      msip: Array.from(this.msip),
+      mtimecmpLo: Array.from(this.mtimecmpLo),
+      mtimecmpHi: Array.from(this.mtimecmpHi),
+    };
+  }
+
+  /**
+   * Restore state copied by saveState() (from a CLINT with the same hart count)
+   */
+  restoreState(state: ClintState): void {
+    if (state.msip.length !== this.hartCount) {
+      throw new Error(`Cannot restore a ${state.msip.length}-hart CLINT into a ${this.hartCount}-hart one`);
+    }
+    this.mtime = state.mtime;
+    this.msip.set(state.msip);
+    this.mtimecmpLo.set(state.mtimecmpLo);
+    this.mtimecmpHi.set(state.mtimecmpHi);
+    for (let hart = 0; hart < this.hartCount; hart++) {
+      this.updateDeadline(hart);
+    }
+  }
+
+  /**
+   * Advance mtime by the given number of ticks
+   */
+  tick(ticks: number = 1): void {
+    this.mtime += ticks;
+  }
+
+  /**
+   * Get a hart's 64-bit compare value
+   */
+  getMtimecmp(hart: number = 0): number {
+    return this.mtimecmpHi[hart] * TWO_POW_32 + this.mtimecmpLo[hart];
+  }
+
+  /**
+   * Set a hart's 64-bit compare value
+   */
+  setMtimecmp(value: number, hart: number = 0): void {
+    this.mtimecmpLo[hart] = value >>> 0;
+    this.mtimecmpHi[hart] = Math.floor(value / TWO_POW_32) >>> 0;
+    this.updateDeadline(hart);
+  }
+
+  /**
+   * Recompute a hart's deadline after its mtimecmp changed
+   */
+  private updateDeadline(hart: number): void {
+    this.deadline[hart] = this.mtimecmpHi[hart] * TWO_POW_32 + this.mtimecmpLo[hart];
+  }
+
+  /**
+   * Check if a hart's machine timer interrupt is pending
+   */
+  isTimerPending(hart: number = 0): boolean {
+    return this.mtime >= this.deadline[hart];
+  }
+
+  /**
+   * Ticks until a hart's timer interrupt becomes pending (0 if it is)
+   */
+  ticksUntilTimer(hart: number = 0): number {
+    return Math.max(0, this.deadline[hart] - this.mtime);
+  }
+
+  /**
+   * Check if a hart's machine software interrupt is pending
+   */
+  isSoftwarePending(hart: number = 0): boolean {
+    return (this.msip[hart] & 1) !== 0;
+  }
+
+  /**
+   * Read a register value
+   */
+  readRegister(offset: number): number {
+    switch (offset) {
+      case CLINT_REGS.MTIME:
+        return this.mtime >>> 0;
+      case CLINT_REGS.MTIMEH:
+        return Math.floor(this.mtime / TWO_POW_32) >>> 0;
+    }
+    if (offset < CLINT_REGS.MTIMECMP) {
+      const hart = offset / MSIP_STRIDE;
+      return hart < this.hartCount ? this.msip[hart] : 0;
+    }
+    const hart = Math.floor((offset - CLINT_REGS.MTIMECMP) / MTIMECMP_STRIDE);
+    if (hart >= this.hartCount) {
+      return 0;
+    }
+    return (offset - CLINT_REGS.MTIMECMP) % MTIMECMP_STRIDE === 0
+      ? this.mtimecmpLo[hart]
+      : this.mtimecmpHi[hart];
+  }
+
+  /**
+   * Write a register value
+   */
+  writeRegister(offset: number, value: number): void {
+    switch (offset) {
+      case CLINT_REGS.MTIME:
+        this.mtime = Math.floor(this.mtime / TWO_POW_32) * TWO_POW_32 + (value >>> 0);
+        return;
+      case CLINT_REGS.MTIMEH:
+        this.mtime = (value >>> 0) * TWO_POW_32 + (this.mtime >>> 0);
+        return;
+    }
+    if (offset < CLINT_REGS.MTIMECMP) {
+      const hart = offset / MSIP_STRIDE;
+      if (hart < this.hartCount) {
+        this.msip[hart] = value & 1;
+      }
+      return;
+    }
+    const hart = Math.floor((offset - CLINT_REGS.MTIMECMP) / MTIMECMP_STRIDE);
+    if (hart >= this.hartCount) {
+      return;
+    }
+    if ((offset - CLINT_REGS.MTIMECMP) % MTIMECMP_STRIDE === 0) {
+      this.mtimecmpLo[hart] = value >>> 0;
+    } else {
+      this.mtimecmpHi[hart] = value >>> 0;
+    }
+    this.updateDeadline(hart);
+  }
+
+  // Memory-mapped I/O interface
+
+  /**
+   * Check if address is in CLINT memory range
+   */
+  isInRange(address: number): boolean {
+    const offset = address - CLINT_BASE;
+    return offset >= 0 && offset < CLINT_SIZE;
+  }
+
+  /**
+   * Read a 32-bit word from MMIO
+   */
+  mmioRead(address: number): number {
+    const offset = address - CLINT_BASE;
+    return this.readRegister(offset & ~0x3);
+  }
+
+  /**
+   * Write a 32-bit word to MMIO
+   */
+  mmioWrite(address: number, value: number): void {
+    const offset = address - CLINT_BASE;
+    this.writeRegister(offset & ~0x3, value);
+  }
+
+  /**
+   * Read a halfword from MMIO
+   */
+  mmioReadHalfword(address: number): number {
+    const offset = address - CLINT_BASE;
+    const value = this.readRegister(offset & ~0x3);
+    return (value >>> ((offset & 0x2) * 8)) & 0xFFFF;
+  }
+
+  /**
+   * Write a halfword to MMIO (read-modify-write of the containing register)
+   */
+  mmioWriteHalfword(address: number, value: number): void {
+    const offset = address - CLINT_BASE;
+    const regOffset = offset & ~0x3;
+    const shift = (offset & 0x2) * 8;
+    const current = this.readRegister(regOffset);
+    this.writeRegister(regOffset, (current & ~(0xFFFF << shift)) | ((value & 0xFFFF) << shift));
+  }
+
+  /**
+   * Read a byte from MMIO
+   */
+  mmioReadByte(address: number): number {
+    const offset = address - CLINT_BASE;
+    const value = this.readRegister(offset & ~0x3);
+    return (value >>> ((offset & 0x3) * 8)) & 0xFF;
+  }
+
+  /**
+   * Write a byte to MMIO (read-modify-write of the containing register)
+   */
+  mmioWriteByte(address: number, value: number): void {
+    const offset = address - CLINT_BASE;
+    const regOffset = offset & ~0x3;
+    const shift = (offset & 0x3) * 8;
+    const current = this.readRegister(regOffset);
+    this.writeRegister(regOffset, (current & ~(0xFF << shift)) | ((value & 0xFF) << shift));
+  }
+}
@@ -0,0 +1,268 @@
+/**
+ * RV32C Compressed Instruction Expansion
+ *
+ * Every 16-bit instruction of the C extension is shorthand for a 32-bit
+ * RV32I instruction (or an F/D load or store). The CPU expands compressed instructions once at
+ * decode time and then executes the 32-bit form, so the execute loop
+ * only has to know that the instruction was 2 bytes long.
+ */
+
+// 32-bit opcodes produced by expansion
+const OPCODE_LUI = 0b0110111;
+const OPCODE_JAL = 0b1101111;
+const OPCODE_JALR = 0b1100111;
+const OPCODE_BRANCH = 0b1100011;
+const OPCODE_LOAD = 0b0000011;
+const OPCODE_STORE = 0b0100011;
+const OPCODE_LOAD_FP = 0b0000111;
+const OPCODE_STORE_FP = 0b0100111;
+const OPCODE_OP_IMM = 0b0010011;
+const OPCODE_OP = 0b0110011;
+
+/** C.EBREAK expands to EBREAK */
+const EBREAK = 0x00100073;
+
+/** Register x1 (link register for C.JAL/C.JALR) */
+const RA = 1;
+/** Register x2 (base of the stack-pointer relative forms) */
+const SP = 2;
+
+/**
+ * Check whether an instruction parcel starts a 16-bit instruction
+ * (32-bit instructions have both low bits set)
+ */
+export function isCompressed(parcel: number): boolean {
+  return (parcel & 0x3) !== 0x3;
+}
+
+/**
+ * Sign-extend a value from a given bit width to 32 bits
+ */
+function signExtend(value: number, bits: number): number {
+  const shift = 32 - bits;
+  return (value << shift) >> shift;
+}
+
+function encodeR(funct7: number, rs2: number, rs1: number, funct3: number, rd: number): number {
+  return ((funct7 << 25) | (rs2 << 20) | (rs1 << 15) | (funct3 << 12) | (rd << 7) | OPCODE_OP) >>> 0;
+}
+
+function encodeI(opcode: number, funct3: number, rd: number, rs1: number, imm: number): number {
+  return (((imm & 0xfff) << 20) | (rs1 << 15) | (funct3 << 12) | (rd << 7) | opcode) >>> 0;
+}
+
+function encodeS(opcode: number, funct3: number, rs1: number, rs2: number, imm: number): number {
+  return ((((imm >> 5) & 0x7f) << 25) | (rs2 << 20) | (rs1 << 15) | (funct3 << 12) |
+    ((imm & 0x1f) << 7) | opcode) >>> 0;
+}
+
+function encodeB(funct3: number, rs1: number, rs2: number, imm: number): number {
+  return ((((imm >> 12) & 0x1) << 31) | (((imm >> 5) & 0x3f) << 25) | (rs2 << 20) | (rs1 << 15) |
+    (funct3 << 12) | (((imm >> 1) & 0xf) << 8) | (((imm >> 11) & 0x1) << 7) | OPCODE_BRANCH) >>> 0;
+}
+
+function encodeJ(rd: number, imm: number): number {
+  return ((((imm >> 20) & 0x1) << 31) | (((imm >> 1) & 0x3ff) << 21) | (((imm >> 11) & 0x1) << 20) |
+    (((imm >> 12) & 0xff) << 12) | (rd << 7) | OPCODE_JAL) >>> 0;
+}
+
+/** 6-bit signed immediate in bits 12 and 6:2 (CI format) */
+function ciImmediate(parcel: number): number {
+  return signExtend(((parcel >> 7) & 0x20) | ((parcel >> 2) & 0x1f), 6);
+}
+
+/** Jump offset of C.J/C.JAL (CJ format) */
+function cjOffset(parcel: number): number {
+  return signExtend(
+    ((parcel >> 1) & 0x800) | ((parcel >> 7) & 0x10) | ((parcel >> 1) & 0x300) |
+    ((parcel << 2) & 0x400) | ((parcel >> 1) & 0x40) | ((parcel << 1) & 0x80) |
+    ((parcel >> 2) & 0xe) | ((parcel << 3) & 0x20),
+    12
+  );
+}
+
+/** Branch offset of C.BEQZ/C.BNEZ (CB format) */
+function cbOffset(parcel: number): number {
+  return signExtend(
+    ((parcel >> 4) & 0x100) | ((parcel >> 7) & 0x18) | ((parcel << 1) & 0xc0) |
+    ((parcel >> 2) & 0x6) | ((parcel << 3) & 0x20),
+    9
+  );
+}
+
+/** Word offset of C.LW/C.SW (CL/CS format) */
+function clOffset(parcel: number): number {
+  return ((parcel >> 7) & 0x38) | ((parcel >> 4) & 0x4) | ((parcel << 1) & 0x40);
+}
+
+/** Doubleword offset of C.FLD/C.FSD (CL/CS format) */
+function cldOffset(parcel: number): number {
+  return ((parcel >> 7) & 0x38) | ((parcel << 1) & 0xc0);
+}
+
+/** Word offset of C.LWSP/C.FLWSP (CI format) */
+function lwspOffset(parcel: number): number {
+  return ((parcel >> 7) & 0x20) | ((parcel >> 2) & 0x1c) | ((parcel << 4) & 0xc0);
+}
+
+/** Word offset of C.SWSP/C.FSWSP (CSS format) */
+function swspOffset(parcel: number): number {
+  return ((parcel >> 7) & 0x3c) | ((parcel >> 1) & 0xc0);
+}
+
+/**
+ * Expand a 16-bit instruction to the equivalent 32-bit instruction
+ *
+ * Returns 0 (an illegal instruction) for reserved encodings.
+ */
+export function expandCompressed(parcel: number): number {
+  const quadrant = parcel & 0x3;
+  const funct3 = (parcel >> 13) & 0x7;
+  // Full register fields (CR/CI/CSS formats)
+  const rd = (parcel >> 7) & 0x1f;
+  const rs2 = (parcel >> 2) & 0x1f;
+  // Popular-register fields x8-x15 (CIW/CL/CS/CA/CB formats)
+  const rdPrime = ((parcel >> 2) & 0x7) + 8;
+  const rs1Prime = ((parcel >> 7) & 0x7) + 8;
+
+  switch (quadrant) {
+    case 0:
+      switch (funct3) {
+        case 0b000: {
+          // C.ADDI4SPN: addi rd', sp, nzuimm
+          const imm = ((parcel >> 7) & 0x30) | ((parcel >> 1) & 0x3c0) |
+            ((parcel >> 4) & 0x4) | ((parcel >> 2) & 0x8);
+          return imm === 0 ? 0 : encodeI(OPCODE_OP_IMM, 0b000, rdPrime, SP, imm);
+        }
+        case 0b001:
+          // C.FLD: fld rd', uimm(rs1')
+          return encodeI(OPCODE_LOAD_FP, 0b011, rdPrime, rs1Prime, cldOffset(parcel));
+        case 0b010:
+          // C.LW: lw rd', uimm(rs1')
+          return encodeI(OPCODE_LOAD, 0b010, rdPrime, rs1Prime, clOffset(parcel));
+        case 0b011:
+          // C.FLW: flw rd', uimm(rs1')
+          return encodeI(OPCODE_LOAD_FP, 0b010, rdPrime, rs1Prime, clOffset(parcel));
+        case 0b101:
+          // C.FSD: fsd rs2', uimm(rs1')
+          return encodeS(OPCODE_STORE_FP, 0b011, rs1Prime, rdPrime, cldOffset(parcel));
+        case 0b110:
+          // C.SW: sw rs2', uimm(rs1')
+          return encodeS(OPCODE_STORE, 0b010, rs1Prime, rdPrime, clOffset(parcel));
+        case 0b111:
+          // C.FSW: fsw rs2', uimm(rs1')
+          return encodeS(OPCODE_STORE_FP, 0b010, rs1Prime, rdPrime, clOffset(parcel));
+        default:
+          return 0;
+      }
+
+    case 1:
+      switch (funct3) {
+        case 0b000:
+          // C.ADDI (C.NOP when rd = x0): addi rd, rd, imm
+          return encodeI(OPCODE_OP_IMM, 0b000, rd, rd, ciImmediate(parcel));
+        case 0b001:
+          // C.JAL: jal ra, offset
+          return encodeJ(RA, cjOffset(parcel));
+        case 0b010:
+          // C.LI: addi rd, x0, imm
+          return encodeI(OPCODE_OP_IMM, 0b000, rd, 0, ciImmediate(parcel));
+        case 0b011: {
+          if (rd === SP) {
+            // C.ADDI16SP: addi sp, sp, nzimm
+            const imm = signExtend(
+              ((parcel >> 3) & 0x200) | ((parcel >> 2) & 0x10) | ((parcel << 1) & 0x40) |
+              ((parcel << 4) & 0x180) | ((parcel << 3) & 0x20),
+              10
+            );
+            return imm === 0 ? 0 : encodeI(OPCODE_OP_IMM, 0b000, SP, SP, imm);
+          }
+          // C.LUI: lui rd, nzimm
+          const imm = ciImmediate(parcel);
+          return imm === 0 ? 0 : (((imm & 0xfffff) << 12) | (rd << 7) | OPCODE_LUI) >>> 0;
+        }
+        case 0b100: {
+          const shamt = ((parcel >> 7) & 0x20) | rs2;
+          switch ((parcel >> 10) & 0x3) {
+            case 0b00:
+              // C.SRLI (shamt[5] must be 0 on RV32)
+              return shamt & 0x20 ? 0 : encodeI(OPCODE_OP_IMM, 0b101, rs1Prime, rs1Prime, shamt);
+            case 0b01:
+              // C.SRAI
+              return shamt & 0x20 ? 0 : encodeI(OPCODE_OP_IMM, 0b101, rs1Prime, rs1Prime, 0x400 | shamt);
+            case 0b10:
+              // C.ANDI
+              return encodeI(OPCODE_OP_IMM, 0b111, rs1Prime, rs1Prime, ciImmediate(parcel));
+            default: {
+              // C.SUB/C.XOR/C.OR/C.AND (bit 12 set is RV64-only)
+              if (parcel & 0x1000) {
+                return 0;
+              }
+              const ops = [[0b0100000, 0b000], [0, 0b100], [0, 0b110], [0, 0b111]];
+              const [funct7, aluFunct3] = ops[(parcel >> 5) & 0x3];
+              return encodeR(funct7, rdPrime, rs1Prime, aluFunct3, rs1Prime);
+            }
+          }
+        }
+        case 0b101:
+          // C.J: jal x0, offset
+          return encodeJ(0, cjOffset(parcel));
+        case 0b110:
+          // C.BEQZ: beq rs1', x0, offset
+          return encodeB(0b000, rs1Prime, 0, cbOffset(parcel));
+        default:
+          // C.BNEZ: bne rs1', x0, offset
+          return encodeB(0b001, rs1Prime, 0, cbOffset(parcel));
+      }
+
+    case 2:
+      switch (funct3) {
+        case 0b000: {
+          // C.SLLI: slli rd, rd, shamt
+          const shamt = ((parcel >> 7) & 0x20) | rs2;
+          return shamt & 0x20 ? 0 : encodeI(OPCODE_OP_IMM, 0b001, rd, rd, shamt);
+        }
+        case 0b001: {
+          // C.FLDSP: fld rd, uimm(sp)
+          const imm = ((parcel >> 7) & 0x20) | ((parcel >> 2) & 0x18) | ((parcel << 4) & 0x1c0);
+          return encodeI(OPCODE_LOAD_FP, 0b011, rd, SP, imm);
+        }
+        case 0b010:
+          // C.LWSP: lw rd, uimm(sp) (rd = x0 is reserved)
+          return rd === 0 ? 0 : encodeI(OPCODE_LOAD, 0b010, rd, SP, lwspOffset(parcel));
+        case 0b011:
+          // C.FLWSP: flw rd, uimm(sp)
+          return encodeI(OPCODE_LOAD_FP, 0b010, rd, SP, lwspOffset(parcel));
+        case 0b100:
+          if ((parcel & 0x1000) === 0) {
+            if (rs2 === 0) {
+              // C.JR: jalr x0, 0(rs1) (rs1 = x0 is reserved)
+              return rd === 0 ? 0 : encodeI(OPCODE_JALR, 0b000, 0, rd, 0);
+            }
+            // C.MV: add rd, x0, rs2
+            return encodeR(0, rs2, 0, 0b000, rd);
+          }
+          if (rs2 === 0) {
+            // C.EBREAK, or C.JALR: jalr ra, 0(rs1)
+            return rd === 0 ? EBREAK : encodeI(OPCODE_JALR, 0b000, RA, rd, 0);
+          }
+          // C.ADD: add rd, rd, rs2
+          return encodeR(0, rs2, rd, 0b000, rd);
+        case 0b101: {
+          // C.FSDSP: fsd rs2, uimm(sp)
+          const imm = ((parcel >> 7) & 0x38) | ((parcel >> 1) & 0x1c0);
+          return encodeS(OPCODE_STORE_FP, 0b011, SP, rs2, imm);
+        }
+        case 0b110:
+          // C.SWSP: sw rs2, uimm(sp)
+          return encodeS(OPCODE_STORE, 0b010, SP, rs2, swspOffset(parcel));
+        default:
+          // C.FSWSP: fsw rs2, uimm(sp)
+          return encodeS(OPCODE_STORE_FP, 0b010, SP, rs2, swspOffset(parcel));
+      }
+
+    default:
+      // Quadrant 3 holds the 32-bit instructions
+      return 0;
+  }
+}
@@ -1,22 +1,80 @@
 /**
- * RISC-V RV32I CPU Emulator
+ * RISC-V RV32IM CPU Emulator
  *
- * Implements the base 32-bit integer instruction set.
+ * Implements the base 32-bit integer instruction set, the M extension
+ * (integer multiply/divide), the F and D extensions (single- and
+ * double-precision floating point, executed by the Fpu) and the Zicsr
+ * machine-mode CSRs.
+ * Exceptions are precise: the faulting instruction has no side effects
+ * and control transfers to the handler at mtvec. Machine timer and
+ * software interrupts come from the CLINT; device interrupts are
+ * routed through the PLIC to the machine external interrupt.
+ * U, S and M privilege modes are supported, with Sv32 address
+ * translation for U- and S-mode accesses.
+ * Physical accesses outside main RAM go through the system bus,
+ * where devices, extra RAM regions and the boot ROM are registered;
+ * their addresses come from the machine's memory map.
+ * Decoded instructions are cached by physical address and dropped
+ * when stores hit them.
  * 32 general-purpose registers (x0 hardwired to 0)
  * 32-bit program counter
  */
 
-import { GraphicsCard, GRAPHICS_BASE } from './graphics.js';
-import { StorageController, STORAGE_BASE } from './storage-controller.js';
+import {
+  GraphicsCard,
+  GRAPHICS_BASE,
+  GRAPHICS_REGS_SIZE,
+  TEXT_VRAM_OFFSET,
+  TEXT_VRAM_SIZE,
+  PALETTE_OFFSET,
+  PALETTE_SIZE,
+  FRAMEBUFFER_OFFSET,
+  FRAMEBUFFER_SIZE,
+} from './graphics.js';
+import {
+  StorageController,
+  STORAGE_BASE,
+  STORAGE_REGS_SIZE,
+  DMA_BUFFER_OFFSET,
+  DMA_BUFFER_SIZE,
+} from './storage-controller.js';
 import { HardDiskDrive } from './hdd.js';
 import { CDROMDrive } from './cdrom.js';
 import { USBDrive } from './usb.js';
-import { KeyboardController, KEYBOARD_BASE } from './keyboard.js';
+import { KeyboardController, KEYBOARD_BASE, KEYBOARD_REGS_SIZE } from './keyboard.js';
 import { WireFS } from './filesystem.js';
 import { NativeAssembler } from './native-assembler.js';
+import { LinuxSyscalls, LinuxSyscallState } from './linux-syscalls.js';
+import { Clint, CLINT_BASE, CLINT_SIZE } from './clint.js';
+import { Plic, PLIC_BASE, PLIC_SIZE, PLIC_IRQ } from './plic.js';
+import { AccessWidth, Bus, BusDevice, BusError, MmioDevice, RamDevice, fromMmioDevice } from './bus.js';
+import { MemoryMap, MemoryMapConfig, resolveMemoryMap } from './memory-map.js';
+import {
+  CsrFile,
+  CsrState,
+  CSR,
+  MISA,
+  MISA_VALUE,
+  MSTATUS,
+  MIP,
+  PRIVILEGE,
+  SATP,
+  csrPrivilege,
+  isFloatCsr,
+  isReadOnlyCsr,
+} from './csr.js';
+import { Mmu, AccessType, ACCESS_FAULT, PAGE_SIZE } from './mmu.js';
+import { Pmp, PmpState, isPmpCsr } from './pmp.js';
+import { DecodeCache, DecodedInstruction, decodeInstruction } from './decode-cache.js';
+import { expandCompressed, isCompressed } from './compressed.js';
+import { AMO_FUNCT5, AMO_WIDTH_W, ReservationSet, amoResult } from './atomic.js';
+import { Fpu } from './fpu.js';
+import { EXCEPTION_CAUSE, INTERRUPT_BIT, INTERRUPT_CAUSE, TrapException, HaltingTrap } from './trap.js';
+import { CommitTracer } from './tracer.js';
+import { Profiler } from './profiler.js';
 
 /** File handle for syscall file operations */
-interface FileHandle {
+export interface FileHandle {
   name: string;
   extension: string;
   data: Uint8Array;
@@ -35,8 +93,27 @@ export const OPCODE = {
   STORE: 0b0100011, // Store instructions
   OP_IMM: 0b0010011, // Integer Register-Immediate
   OP: 0b0110011, // Integer Register-Register
-  SYSTEM: 0b1110011, // System instructions (ECALL, EBREAK)
+  SYSTEM: 0b1110011, // System instructions (ECALL, EBREAK, MRET, WFI, CSR*)
   FENCE: 0b0001111, // Memory ordering
+  AMO: 0b0101111, // Atomic memory operations (RV32A)
+  LOAD_FP: 0b0000111, // Floating-point loads (FLW, FLD)
+  STORE_FP: 0b0100111, // Floating-point stores (FSW, FSD)
+  MADD: 0b1000011, // Fused multiply-add
+  MSUB: 0b1000111, // Fused multiply-subtract
+  NMSUB: 0b1001011, // Negated fused multiply-subtract
+  NMADD: 0b1001111, // Negated fused multiply-add
+  OP_FP: 0b1010011, // Floating-point arithmetic, conversions and moves
+} as const;
+
+// System function codes (funct3)
+export const SYSTEM_FUNCT3 = {
+  PRIV: 0b000, // ECALL, EBREAK, MRET, WFI
+  CSRRW: 0b001,
+  CSRRS: 0b010,
+  CSRRC: 0b011,
+  CSRRWI: 0b101,
+  CSRRSI: 0b110,
+  CSRRCI: 0b111,
 } as const;
 
 // Branch function codes (funct3)
@@ -89,6 +166,27 @@ export const ALU_FUNCT3 = {
   AND: 0b111,
 } as const;
 
+// Floating-point load/store widths (funct3)
+export const FP_WIDTH = {
+  W: 0b010, // FLW/FSW
+  D: 0b011, // FLD/FSD
+} as const;
+
+// Multiply/divide function codes (funct3, with funct7 = 0x01)
+export const MULDIV_FUNCT3 = {
+  MUL: 0b000,
+  MULH: 0b001,
+  MULHSU: 0b010,
+  MULHU: 0b011,
+  DIV: 0b100,
+  DIVU: 0b101,
+  REM: 0b110,
+  REMU: 0b111,
+} as const;
+
+// Zifencei: FENCE.I shares the MISC-MEM opcode with FENCE
+const FENCE_I_FUNCT3 = 0b001;
+
 export interface RiscVState {
   /** 32 general-purpose registers */
   x: Uint32Array;
@@ -102,11 +200,76 @@ export interface RiscVState {
   cycles: number;
 }
 
+/**
+ * Registers and syscall state of one hart, for machine snapshots
+ * (RAM and devices are saved separately)
+ */
+export interface HartState {
+  x: number[];
+  pc: number;
+  privilege: number;
+  halted: boolean;
+  waitingForInterrupt: boolean;
+  cycles: number;
+  csr: CsrState;
+  /** Low and high words of the FP registers */
+  f: { low: number[]; high: number[] };
+  exitCode: number;
+  consoleOutput: string;
+  fileHandles: Array<[number, FileHandle]>;
+  nextFileHandle: number;
+  dirIterator: number;
+  dirFileList: Array<{name: string, extension: string, size: number}> | null;
+  syscallAbi: SyscallAbi;
+  linux: LinuxSyscallState;
+  pmp: PmpState;
+}
+
+/**
+ * Numbering and semantics of host syscalls: the Wire-RISCV calls in
+ * SYSCALL, or the RISC-V Linux user ABI (see linux-syscalls.ts)
+ */
+export type SyscallAbi = 'wire' | 'linux';
+
 export interface RiscVConfig {
-  /** Memory size in bytes (default 64KB) */
+  /** Memory size in bytes (default 64KB); shorthand for memoryMap.ram.size */
   memorySize?: number;
-  /** Initial PC value (default 0x0) */
+  /** RAM, ROM, reset vector and device bases (default: RAM at 0) */
+  memoryMap?: MemoryMapConfig;
+  /** Initial PC value (default: the memory map's reset vector) */
   initialPc?: number;
+  /**
+   * Service ECALL with the built-in host syscalls (default false).
+   * When false, ECALL raises an environment-call exception so a
+   * guest trap handler can implement its own ABI, and jumps to
+   * misaligned targets raise a misaligned exception (host mode
+   * tolerates code placed after unpadded inline data).
+   */
+  hostSyscalls?: boolean;
+  /** ABI of host syscalls (default 'wire') */
+  syscallAbi?: SyscallAbi;
+  /**
+   * Execute 16-bit RV32C instructions (default true). Jump targets
+   * then only need 2-byte alignment; without C they need 4.
+   */
+  compressed?: boolean;
+  /** Additional RAM mapped beside the main memory */
+  ramRegions?: Array<{ name?: string; base: number; size: number }>;
+  /** Cache decoded instructions (default true) */
+  decodeCache?: boolean;
+  /** Extra devices to map on the bus (e.g. mock peripherals in tests) */
+  devices?: Array<{ name: string; base: number; size: number; device: BusDevice }>;
+  /** Hart id reported in mhartid (default 0) */
+  hartId?: number;
+  /** Number of harts the CLINT serves (default 1) */
+  hartCount?: number;
+  /**
+   * Join the machine of an existing hart: share its memory, bus,
+   * devices, decode cache and LR/SC reservations instead of creating
+   * new ones (memorySize, memoryMap, ramRegions and devices are then
+   * ignored)
+   */
+  shareWith?: RiscVCpu;
 }
 
 /**
@@ -117,6 +280,27 @@ function signExtend(value: number, bits: number): number {
   return (value << shift) >> shift;
 }
 
+/**
+ * Upper 32 bits of the unsigned 64-bit product of two 32-bit values
+ *
+ * Splits both operands into 16-bit halves so every partial product
+ * stays exact in a double.
+ */
+function mulhu(a: number, b: number): number {
+  const aLo = a & 0xffff;
+  const aHi = a >>> 16;
+  const bLo = b & 0xffff;
+  const bHi = b >>> 16;
+
+  const loLo = aLo * bLo;
+  const loHi = aLo * bHi;
+  const hiLo = aHi * bLo;
+  const hiHi = aHi * bHi;
+
+  const mid = (loLo >>> 16) + (loHi & 0xffff) + (hiLo & 0xffff);
+  return (hiHi + (loHi >>> 16) + (hiLo >>> 16) + (mid >>> 16)) >>> 0;
+}
+
 /**
  * RISC-V RV32I CPU Emulator
  */
@@ -141,13 +325,75 @@ export const SYSCALL = {
 export class RiscVCpu {
   public x: Uint32Array; // Registers
   public pc: number;
+  /** Main RAM, mapped at memoryMap.ram.base */
   public memory: Uint8Array;
+  /** Layout of the physical address space */
+  public readonly memoryMap: MemoryMap;
+  /** Physical address of memory[0] */
+  public readonly ramBase: number;
   public halted: boolean = false;
   public cycles: number = 0;
   public gpu: GraphicsCard;
   public storage: StorageController;
   public keyboard: KeyboardController;
+  public clint: Clint;
+  public plic: Plic;
+  public mmu: Mmu;
+  /** Physical memory protection (pmpcfg/pmpaddr) */
+  public readonly pmp: Pmp = new Pmp();
+  /** Physical address space: RAM regions and memory-mapped devices */
+  public bus: Bus;
+  /**
+   * Predecoded instructions (null when disabled). Code that changes
+   * `memory` directly must invalidate the range it wrote.
+   */
+  public decodeCache: DecodeCache | null;
+  /** Current privilege level (PRIVILEGE.USER/SUPERVISOR/MACHINE) */
+  public privilege: number = PRIVILEGE.MACHINE;
+  /** Set by WFI; the hart idles until an enabled interrupt is pending */
+  public waitingForInterrupt: boolean = false;
+  /** Set when device lines, enables or privilege may have changed */
+  private interruptsDirty: boolean = true;
+  /** Instructions left in the current quiet run (see runQuiet) */
+  private quietBudget: number = 0;
+
+  /** Whether loads and stores in RAM need no translation or checks (set for a quiet run) */
+  private directData: boolean = false;
   public filesystem: WireFS | null = null;
+  public csr: CsrFile;
+  /** Floating-point registers and execution (F/D) */
+  public fpu: Fpu;
+  public hostSyscalls: boolean;
+  /** ABI of host syscalls; may be switched per program */
+  public syscallAbi: SyscallAbi;
+  /** Heap and open files of the Linux syscall ABI */
+  public readonly linux: LinuxSyscalls;
+  /** RV32C enabled: 16-bit instructions decode and IALIGN is 16 */
+  public readonly compressed: boolean;
+  /** Hart id (mhartid) */
+  public readonly hartId: number;
+  /** LR/SC reservations, shared by every hart of the machine */
+  public reservations: ReservationSet;
+  /**
+   * Called with the virtual address of every load and store before it
+   * is performed (debugger watchpoints); null when nothing is watching
+   */
+  public watchAccess: ((address: number, size: number, access: AccessType) => void) | null = null;
+  /** Commit log of retired instructions; null when not tracing */
+  public tracer: CommitTracer | null = null;
+  /** Execution profile of retired instructions; null when not profiling */
+  public profiler: Profiler | null = null;
+  /**
+   * Set for the hart that created the machine: it advances mtime,
+   * resets the shared devices and takes PLIC interrupts
+   */
+  private readonly ownsMachine: boolean;
+
+  /**
+   * The trap that halted the hart for want of a handler, or null if it
+   * is running or stopped some other way (an exit, HTIF, the debugger)
+   */
+  public haltTrap: HaltingTrap | null = null;
 
   // Syscall-related state
   public exitCode: number = 0;
@@ -158,10 +404,49 @@ export class RiscVCpu {
   private dirFileList: Array<{name: string, extension: string, size: number}> | null = null;
 
   constructor(config: RiscVConfig = {}) {
-    const memorySize = config.memorySize ?? 64 * 1024; // 64KB default
-    this.memory = new Uint8Array(memorySize);
     this.x = new Uint32Array(32);
-    this.pc = config.initialPc ?? 0;
+    this.hartId = config.hartId ?? 0;
+    this.compressed = config.compressed ?? true;
+    this.csr = new CsrFile(this.hartId, this.compressed ? MISA_VALUE : (MISA_VALUE & ~MISA.C) >>> 0);
+    this.fpu = new Fpu(this.csr);
+    this.hostSyscalls = config.hostSyscalls ?? false;
+    this.syscallAbi = config.syscallAbi ?? 'wire';
+    this.linux = new LinuxSyscalls(this, (char) => this.syscallPutchar(char));
+
+    // Page table walks read physical RAM directly, as S-mode accesses for PMP
+    this.mmu = new Mmu({
+      readPhysicalWord: (address) =>
+        this.bus.find(address, 4)?.device instanceof RamDevice &&
+        this.pmp.check(address, 4, AccessType.LOAD, PRIVILEGE.SUPERVISOR) ? this.readWord(address) : null,
+      writePhysicalWord: (address, value) => this.writeWord(address, value),
+    });
+
+    const machine = config.shareWith;
+    this.ownsMachine = machine === undefined;
+    if (machine !== undefined) {
+      if (this.hartId >= machine.clint.hartCount) {
+        throw new Error(`Hart ${this.hartId} is outside the CLINT's ${machine.clint.hartCount} harts`);
+      }
+      this.memory = machine.memory;
+      this.memoryMap = machine.memoryMap;
+      this.ramBase = machine.ramBase;
+      this.pc = config.initialPc ?? this.memoryMap.resetVector;
+      this.gpu = machine.gpu;
+      this.storage = machine.storage;
+      this.keyboard = machine.keyboard;
+      this.clint = machine.clint;
+      this.plic = machine.plic;
+      this.bus = machine.bus;
+      this.decodeCache = machine.decodeCache;
+      this.reservations = machine.reservations;
+      this.filesystem = machine.filesystem;
+      return;
+    }
+
+    this.memoryMap = resolveMemoryMap(config.memoryMap, config.memorySize);
+    this.ramBase = this.memoryMap.ram.base;
+    this.pc = config.initialPc ?? this.memoryMap.resetVector;
+    this.memory = new Uint8Array(this.memoryMap.ram.size);
     this.gpu = new GraphicsCard();
 
     // Initialize storage with default devices
@@ -172,6 +457,15 @@ export class RiscVCpu {
 
     // Initialize keyboard controller
     this.keyboard = new KeyboardController();
+
+    // Initialize timer/software and external interrupt controllers
+    this.clint = new Clint(config.hartCount ?? 1);
+    this.plic = new Plic();
+
+    this.bus = new Bus();
+    this.attachDevices(config);
+    this.decodeCache = config.decodeCache === false ? null : new DecodeCache();
+    this.reservations = new ReservationSet();
   }
 
   /**
@@ -193,550 +487,1344 @@ export class RiscVCpu {
    */
   reset(): void {
     this.x.fill(0);
-    this.pc = 0;
+    this.fpu.reset();
+    this.pc = this.memoryMap.resetVector;
     this.halted = false;
+    this.haltTrap = null;
     this.cycles = 0;
+    this.waitingForInterrupt = false;
+    this.csr.reset();
+    this.pmp.reset();
+    if (this.ownsMachine) {
+      this.clint.reset();
+      this.plic.reset();
+    }
+    this.reservations.release(this.hartId);
+    this.mmu.flush();
+    this.decodeCache?.flush();
+    this.privilege = PRIVILEGE.MACHINE;
   }
 
   /**
-   * Load a program into memory
+   * Load a program into RAM or ROM (default: at the reset vector)
+   *
+   * @throws Error if the program does not fit in one RAM or ROM region
    */
-  loadProgram(program: Uint8Array, address: number = 0): void {
-    for (let i = 0; i < program.length; i++) {
-      this.memory[address + i] = program[i];
+  loadProgram(program: Uint8Array, address: number = this.memoryMap.resetVector): void {
+    address = address >>> 0;
+    const region = this.bus.find(address, Math.max(program.length, 1));
+    if (!region || !(region.device instanceof RamDevice)) {
+      throw new Error(
+        `Program of ${program.length} bytes at 0x${address.toString(16)} does not fit in RAM or ROM`
+      );
     }
+    region.device.data.set(program, address - region.base);
+    this.decodeCache?.invalidate(address, program.length);
   }
 
   /**
    * Read a 32-bit word from memory (little-endian)
    */
   readWord(address: number): number {
-    // Route to GPU if address is in graphics range
-    if (address >= GRAPHICS_BASE && this.gpu.isInRange(address)) {
-      return this.gpu.mmioRead(address);
-    }
-    // Route to storage if address is in storage range
-    if (address >= STORAGE_BASE && this.storage.isInRange(address)) {
-      return this.storage.mmioRead(address);
-    }
-    // Route to keyboard if address is in keyboard range
-    if (address >= KEYBOARD_BASE && this.keyboard.isInRange(address)) {
-      return this.keyboard.mmioRead(address);
-    }
-    return (
-      (this.memory[address] |
-        (this.memory[address + 1] << 8) |
-        (this.memory[address + 2] << 16) |
-        (this.memory[address + 3] << 24)) >>>
-      0
-    );
+    const memory = this.memory;
+    const offset = (address >>> 0) - this.ramBase;
+    if (offset >= 0 && offset + 4 <= memory.length) {
+      return (
+        (memory[offset] |
+          (memory[offset + 1] << 8) |
+          (memory[offset + 2] << 16) |
+          (memory[offset + 3] << 24)) >>>
+        0
+      );
+    }
+    this.interruptsDirty = true;
+    this.profiler?.access(address, 4, false);
+    return this.bus.read(address, 4);
   }
 
   /**
    * Read a 16-bit halfword from memory (little-endian)
    */
   readHalfword(address: number): number {
-    // Route to GPU if address is in graphics range
-    if (address >= GRAPHICS_BASE && this.gpu.isInRange(address)) {
-      return this.gpu.mmioReadHalfword(address);
-    }
-    // Route to storage if address is in storage range
-    if (address >= STORAGE_BASE && this.storage.isInRange(address)) {
-      return this.storage.mmioReadHalfword(address);
+    const offset = (address >>> 0) - this.ramBase;
+    if (offset >= 0 && offset + 2 <= this.memory.length) {
+      return this.memory[offset] | (this.memory[offset + 1] << 8);
     }
-    // Route to keyboard if address is in keyboard range
-    if (address >= KEYBOARD_BASE && this.keyboard.isInRange(address)) {
-      return this.keyboard.mmioReadHalfword(address);
-    }
-    return this.memory[address] | (this.memory[address + 1] << 8);
+    this.interruptsDirty = true;
+    this.profiler?.access(address, 2, false);
+    return this.bus.read(address, 2);
   }
 
   /**
    * Read a byte from memory
    */
   readByte(address: number): number {
-    // Route to GPU if address is in graphics range
-    if (address >= GRAPHICS_BASE && this.gpu.isInRange(address)) {
-      return this.gpu.mmioReadByte(address);
-    }
-    // Route to storage if address is in storage range
-    if (address >= STORAGE_BASE && this.storage.isInRange(address)) {
-      return this.storage.mmioReadByte(address);
-    }
-    // Route to keyboard if address is in keyboard range
-    if (address >= KEYBOARD_BASE && this.keyboard.isInRange(address)) {
-      return this.keyboard.mmioReadByte(address);
+    const offset = (address >>> 0) - this.ramBase;
+    if (offset >= 0 && offset < this.memory.length) {
+      return this.memory[offset];
     }
-    return this.memory[address];
+    this.interruptsDirty = true;
+    this.profiler?.access(address, 1, false);
+    return this.bus.read(address, 1);
   }
 
   /**
    * Write a 32-bit word to memory (little-endian)
    */
   writeWord(address: number, value: number): void {
-    // Route to GPU if address is in graphics range
-    if (address >= GRAPHICS_BASE && this.gpu.isInRange(address)) {
-      this.gpu.mmioWrite(address, value);
-      return;
+    if (this.decodeCache !== null && this.decodeCache.hasCode(address, 4)) {
+      this.decodeCache.invalidate(address, 4);
     }
-    // Route to storage if address is in storage range
-    if (address >= STORAGE_BASE && this.storage.isInRange(address)) {
-      this.storage.mmioWrite(address, value);
-      return;
+    if (this.reservations.size !== 0) {
+      this.reservations.invalidate(address, 4, this.hartId);
     }
-    // Route to keyboard if address is in keyboard range (read-only, but route anyway)
-    if (address >= KEYBOARD_BASE && this.keyboard.isInRange(address)) {
-      this.keyboard.mmioWrite(address, value);
+    const memory = this.memory;
+    const offset = (address >>> 0) - this.ramBase;
+    if (offset >= 0 && offset + 4 <= memory.length) {
+      memory[offset] = value & 0xff;
+      memory[offset + 1] = (value >> 8) & 0xff;
+      memory[offset + 2] = (value >> 16) & 0xff;
+      memory[offset + 3] = (value >> 24) & 0xff;
       return;
     }
-    this.memory[address] = value & 0xff;
-    this.memory[address + 1] = (value >> 8) & 0xff;
-    this.memory[address + 2] = (value >> 16) & 0xff;
-    this.memory[address + 3] = (value >> 24) & 0xff;
+    this.interruptsDirty = true;
+    this.profiler?.access(address, 4, true);
+    this.bus.write(address, value, 4);
   }
 
   /**
    * Write a 16-bit halfword to memory (little-endian)
    */
   writeHalfword(address: number, value: number): void {
-    // Route to GPU if address is in graphics range
-    if (address >= GRAPHICS_BASE && this.gpu.isInRange(address)) {
-      this.gpu.mmioWriteHalfword(address, value);
-      return;
+    if (this.decodeCache !== null && this.decodeCache.hasCode(address, 2)) {
+      this.decodeCache.invalidate(address, 2);
     }
-    // Route to storage if address is in storage range
-    if (address >= STORAGE_BASE && this.storage.isInRange(address)) {
-      this.storage.mmioWriteHalfword(address, value);
-      return;
+    if (this.reservations.size !== 0) {
+      this.reservations.invalidate(address, 2, this.hartId);
     }
-    // Route to keyboard if address is in keyboard range (read-only, but route anyway)
-    if (address >= KEYBOARD_BASE && this.keyboard.isInRange(address)) {
-      this.keyboard.mmioWriteHalfword(address, value);
+    const offset = (address >>> 0) - this.ramBase;
+    if (offset >= 0 && offset + 2 <= this.memory.length) {
+      this.memory[offset] = value & 0xff;
+      this.memory[offset + 1] = (value >> 8) & 0xff;
       return;
     }
-    this.memory[address] = value & 0xff;
-    this.memory[address + 1] = (value >> 8) & 0xff;
+    this.interruptsDirty = true;
+    this.profiler?.access(address, 2, true);
+    this.bus.write(address, value, 2);
   }
 
   /**
    * Write a byte to memory
    */
   writeByte(address: number, value: number): void {
-    // Route to GPU if address is in graphics range
-    if (address >= GRAPHICS_BASE && this.gpu.isInRange(address)) {
-      this.gpu.mmioWriteByte(address, value);
-      return;
+    if (this.decodeCache !== null && this.decodeCache.hasCode(address, 1)) {
+      this.decodeCache.invalidate(address, 1);
     }
-    // Route to storage if address is in storage range
-    if (address >= STORAGE_BASE && this.storage.isInRange(address)) {
-      this.storage.mmioWriteByte(address, value);
-      return;
+    if (this.reservations.size !== 0) {
+      this.reservations.invalidate(address, 1, this.hartId);
     }
-    // Route to keyboard if address is in keyboard range (read-only, but route anyway)
-    if (address >= KEYBOARD_BASE && this.keyboard.isInRange(address)) {
-      this.keyboard.mmioWriteByte(address, value);
+    const offset = (address >>> 0) - this.ramBase;
+    if (offset >= 0 && offset < this.memory.length) {
+      this.memory[offset] = value & 0xff;
       return;
     }
-    this.memory[address] = value & 0xff;
+    this.interruptsDirty = true;
+    this.profiler?.access(address, 1, true);
+    this.bus.write(address, value, 1);
   }
 
   /**
-   * Get register value (x0 always returns 0)
+   * Load from a guest virtual address as the running program would,
+   * raising its page fault or PMP access fault
+   *
+   * Host syscalls read their pointer arguments through this.
    */
-  getReg(index: number): number {
-    return index === 0 ? 0 : this.x[index];
+  loadVirtual(address: number, size: AccessWidth): number {
+    const physical = this.guestAddress(address, size, AccessType.LOAD);
+    return size === 1 ? this.readByte(physical) : size === 2 ? this.readHalfword(physical) : this.readWord(physical);
   }
 
   /**
-   * Get register value (alias for getReg)
+   * Store to a guest virtual address as the running program would,
+   * raising its page fault or PMP access fault
    */
-  getRegister(index: number): number {
-    return this.getReg(index);
+  storeVirtual(address: number, value: number, size: AccessWidth): void {
+    const physical = this.guestAddress(address, size, AccessType.STORE);
+    if (size === 1) {
+      this.writeByte(physical, value);
+    } else if (size === 2) {
+      this.writeHalfword(physical, value);
+    } else {
+      this.writeWord(physical, value);
+    }
   }
 
   /**
-   * Set register value (writes to x0 are ignored)
+   * Map the built-in RAM, ROM and peripherals onto the bus
    */
-  setReg(index: number, value: number): void {
-    if (index !== 0) {
-      this.x[index] = value >>> 0; // Ensure unsigned 32-bit
+  private attachDevices(config: RiscVConfig): void {
+    const { ram, rom, devices } = this.memoryMap;
+    // Main RAM shares its storage with this.memory
+    this.bus.addRam('ram', ram.base, this.memory);
+    if (rom) {
+      const data = new Uint8Array(rom.size);
+      data.set(rom.data ?? []);
+      this.bus.addRom('rom', rom.base, data);
+    }
+    for (const [index, region] of (config.ramRegions ?? []).entries()) {
+      this.bus.addRam(region.name ?? `ram${index + 1}`, region.base, region.size);
     }
-  }
 
-  /**
-   * Get total memory size
-   */
-  getMemorySize(): number {
-    return this.memory.length;
+    this.attachMmio('clint', this.clint, devices.clint, CLINT_BASE, CLINT_SIZE);
+    this.attachMmio('plic', this.plic, devices.plic, PLIC_BASE, PLIC_SIZE);
+    this.attachMmio('graphics', this.gpu, devices.graphics, GRAPHICS_BASE, GRAPHICS_REGS_SIZE);
+    this.attachMmio('graphics', this.gpu, devices.graphics + TEXT_VRAM_OFFSET, GRAPHICS_BASE + TEXT_VRAM_OFFSET, TEXT_VRAM_SIZE);
+    this.attachMmio('graphics', this.gpu, devices.graphics + PALETTE_OFFSET, GRAPHICS_BASE + PALETTE_OFFSET, PALETTE_SIZE);
+    this.attachMmio('graphics', this.gpu, devices.graphics + FRAMEBUFFER_OFFSET, GRAPHICS_BASE + FRAMEBUFFER_OFFSET, FRAMEBUFFER_SIZE);
+    this.attachMmio('storage', this.storage, devices.storage, STORAGE_BASE, STORAGE_REGS_SIZE);
+    this.attachMmio('storage', this.storage, devices.storage + DMA_BUFFER_OFFSET, STORAGE_BASE + DMA_BUFFER_OFFSET, DMA_BUFFER_SIZE);
+    this.attachMmio('keyboard', this.keyboard, devices.keyboard, KEYBOARD_BASE, KEYBOARD_REGS_SIZE);
+
+    for (const device of config.devices ?? []) {
+      this.bus.attach(device.name, device.base, device.size, device.device);
+    }
   }
 
   /**
-   * Decode R-type instruction
+   * Map one address range of a built-in peripheral at `base`
+   *
+   * The peripherals decode absolute addresses at their usual base
+   * (`deviceBase`), so relocated ranges are translated back to it.
    */
-  private decodeR(instruction: number): {
-    rd: number;
-    funct3: number;
-    rs1: number;
-    rs2: number;
-    funct7: number;
-  } {
-    return {
-      rd: (instruction >> 7) & 0x1f,
-      funct3: (instruction >> 12) & 0x7,
-      rs1: (instruction >> 15) & 0x1f,
-      rs2: (instruction >> 20) & 0x1f,
-      funct7: (instruction >> 25) & 0x7f,
-    };
+  private attachMmio(name: string, device: MmioDevice, base: number, deviceBase: number, size: number): void {
+    this.bus.attach(name, base, size, fromMmioDevice(device, deviceBase));
   }
 
   /**
-   * Decode I-type instruction
+   * Get register value (x0 always returns 0)
    */
-  private decodeI(instruction: number): {
-    rd: number;
-    funct3: number;
-    rs1: number;
-    imm: number;
-  } {
-    return {
-      rd: (instruction >> 7) & 0x1f,
-      funct3: (instruction >> 12) & 0x7,
-      rs1: (instruction >> 15) & 0x1f,
-      imm: signExtend(instruction >> 20, 12),
-    };
+  getReg(index: number): number {
+    return index === 0 ? 0 : this.x[index];
   }
 
   /**
-   * Decode S-type instruction
+   * Get register value (alias for getReg)
    */
-  private decodeS(instruction: number): {
-    funct3: number;
-    rs1: number;
-    rs2: number;
-    imm: number;
-  } {
-    const imm4_0 = (instruction >> 7) & 0x1f;
-    const imm11_5 = (instruction >> 25) & 0x7f;
-    return {
-      funct3: (instruction >> 12) & 0x7,
-      rs1: (instruction >> 15) & 0x1f,
-      rs2: (instruction >> 20) & 0x1f,
-      imm: signExtend((imm11_5 << 5) | imm4_0, 12),
-    };
+  getRegister(index: number): number {
+    return this.getReg(index);
   }
 
   /**
-   * Decode B-type instruction
+   * Set register value (writes to x0 are ignored)
    */
-  private decodeB(instruction: number): {
-    funct3: number;
-    rs1: number;
-    rs2: number;
-    imm: number;
-  } {
-    const imm11 = (instruction >> 7) & 0x1;
-    const imm4_1 = (instruction >> 8) & 0xf;
-    const imm10_5 = (instruction >> 25) & 0x3f;
-    const imm12 = (instruction >> 31) & 0x1;
-    return {
-      funct3: (instruction >> 12) & 0x7,
-      rs1: (instruction >> 15) & 0x1f,
-      rs2: (instruction >> 20) & 0x1f,
-      imm: signExtend(
-        (imm12 << 12) | (imm11 << 11) | (imm10_5 << 5) | (imm4_1 << 1),
-        13
-      ),
-    };
+  setReg(index: number, value: number): void {
+    if (index !== 0) {
+      this.x[index] = value >>> 0; // Ensure unsigned 32-bit
+    }
   }
 
   /**
-   * Decode U-type instruction
+   * Get the size of main RAM
    */
-  private decodeU(instruction: number): { rd: number; imm: number } {
-    return {
-      rd: (instruction >> 7) & 0x1f,
-      imm: instruction & 0xfffff000,
-    };
+  getMemorySize(): number {
+    return this.memory.length;
   }
 
   /**
-   * Decode J-type instruction
+   * Execute one instruction
+   * Returns true if execution should continue, false if halted
    */
-  private decodeJ(instruction: number): { rd: number; imm: number } {
-    const imm19_12 = (instruction >> 12) & 0xff;
-    const imm11 = (instruction >> 20) & 0x1;
-    const imm10_1 = (instruction >> 21) & 0x3ff;
-    const imm20 = (instruction >> 31) & 0x1;
-    return {
-      rd: (instruction >> 7) & 0x1f,
-      imm: signExtend(
-        (imm20 << 20) | (imm19_12 << 12) | (imm11 << 11) | (imm10_1 << 1),
-        21
-      ),
-    };
+  step(): boolean {
+    // The host may have changed device state since the last call
+    this.interruptsDirty = true;
+    return this.stepInstruction();
   }
 
   /**
-   * Execute one instruction
-   * Returns true if execution should continue, false if halted
+   * Advance the hart by one instruction, interrupt or idle cycle
    */
-  step(): boolean {
+  private stepInstruction(): boolean {
     if (this.halted) {
       return false;
     }
 
-    // Fetch instruction
-    const instruction = this.readWord(this.pc);
-    const opcode = instruction & 0x7f;
-
-    // Default next PC
-    let nextPc = this.pc + 4;
+    if (this.ownsMachine) {
+      this.clint.tick();
+    }
 
-    switch (opcode) {
-      case OPCODE.LUI: {
-        // Load Upper Immediate
-        const { rd, imm } = this.decodeU(instruction);
-        this.setReg(rd, imm);
-        break;
+    // Interrupt state only changes through device accesses, CSR writes,
+    // privilege changes, host events and the timer, so skip polling
+    // the devices while none of those has happened
+    if (this.interruptsDirty || this.waitingForInterrupt || this.clint.isTimerPending(this.hartId)) {
+      this.interruptsDirty = false;
+      this.updateInterruptPending();
+
+      const pending = this.csr.mip & this.csr.mie;
+      if (this.waitingForInterrupt) {
+        if (pending === 0) {
+          // Idle: time passes but no instruction executes
+          this.cycles++;
+          return true;
+        }
+        this.waitingForInterrupt = false;
       }
 
-      case OPCODE.AUIPC: {
-        // Add Upper Immediate to PC
-        const { rd, imm } = this.decodeU(instruction);
-        this.setReg(rd, (this.pc + imm) >>> 0);
-        break;
+      const enabled = this.enabledInterrupts(pending);
+      if (enabled !== 0) {
+        return this.takeTrap((INTERRUPT_BIT | this.highestPriorityInterrupt(enabled)) >>> 0, 0);
       }
+    }
 
-      case OPCODE.JAL: {
-        // Jump And Link
-        const { rd, imm } = this.decodeJ(instruction);
-        this.setReg(rd, this.pc + 4);
-        nextPc = (this.pc + imm) >>> 0;
-        break;
+    try {
+      return this.execute();
+    } catch (e) {
+      if (e instanceof TrapException) {
+        this.profiler?.abort();
+        return this.takeTrap(e.cause, e.tval);
       }
+      throw e;
+    }
+  }
 
-      case OPCODE.JALR: {
-        // Jump And Link Register
-        const { rd, rs1, imm } = this.decodeI(instruction);
-        const target = ((this.getReg(rs1) + imm) & ~1) >>> 0;
-        this.setReg(rd, this.pc + 4);
-        nextPc = target;
-        break;
-      }
+  /**
+   * Fetch, decode and execute the instruction at pc
+   * Throws TrapException on a synchronous exception
+   */
+  private execute(): boolean {
+    const decoded = this.fetch();
+    if (this.tracer === null && this.profiler === null) {
+      return this.executeDecoded(decoded);
+    }
 
-      case OPCODE.BRANCH: {
-        // Branch instructions
-        const { funct3, rs1, rs2, imm } = this.decodeB(instruction);
-        const a = this.getReg(rs1);
-        const b = this.getReg(rs2);
-        let takeBranch = false;
+    const tracer = this.tracer;
+    if (tracer !== null) {
+      // Traces show compressed instructions as fetched, not expanded
+      const bits = decoded.length === 2
+        ? this.readHalfword(this.translate(this.pc, 2, AccessType.FETCH))
+        : decoded.raw;
+      tracer.begin(this, decoded, bits);
+    }
+    const profiler = this.profiler;
+    profiler?.begin(this, decoded);
+    const running = this.executeDecoded(decoded);
+    // A halting instruction leaves pc where it was
+    profiler?.retire(this, running ? this.pc : this.pc + decoded.length);
+    tracer?.commit(this);
+    return running;
+  }
 
-        switch (funct3) {
-          case BRANCH_FUNCT3.BEQ:
-            takeBranch = a === b;
-            break;
-          case BRANCH_FUNCT3.BNE:
-            takeBranch = a !== b;
-            break;
-          case BRANCH_FUNCT3.BLT:
-            takeBranch = (a | 0) < (b | 0);
-            break;
-          case BRANCH_FUNCT3.BGE:
-            takeBranch = (a | 0) >= (b | 0);
-            break;
-          case BRANCH_FUNCT3.BLTU:
-            takeBranch = a < b;
-            break;
-          case BRANCH_FUNCT3.BGEU:
-            takeBranch = a >= b;
-            break;
+  /**
+   * Execute a fetched instruction and advance pc
+   * Returns false if the instruction halted the CPU
+   *
+   * In a quiet run it keeps going with the instructions that follow,
+   * straight from the decode cache, until the run's budget is spent or
+   * one may have changed interrupt state.
+   */
+  private executeDecoded(decoded: DecodedInstruction, quiet: boolean = false): boolean {
+    const cache = this.decodeCache!;
+    const clint = quiet && this.ownsMachine ? this.clint : null;
+    for (;;) {
+      const instruction = decoded.raw;
+      const opcode = decoded.opcode;
+
+      // Default next PC
+      const length = decoded.length;
+      let nextPc = this.pc + length;
+
+      switch (opcode) {
+        case OPCODE.LUI: {
+          // Load Upper Immediate
+          const { rd, imm } = decoded;
+          this.setReg(rd, imm);
+          break;
         }
 
-        if (takeBranch) {
-          nextPc = (this.pc + imm) >>> 0;
+        case OPCODE.AUIPC: {
+          // Add Upper Immediate to PC
+          const { rd, imm } = decoded;
+          this.setReg(rd, (this.pc + imm) >>> 0);
+          break;
         }
-        break;
-      }
 
-      case OPCODE.LOAD: {
-        // Load instructions
-        const { rd, funct3, rs1, imm } = this.decodeI(instruction);
-        const address = (this.getReg(rs1) + imm) >>> 0;
+        case OPCODE.JAL: {
+          // Jump And Link
+          const { rd, imm } = decoded;
+          nextPc = this.checkJumpTarget((this.pc + imm) >>> 0);
+          this.setReg(rd, this.pc + length);
+          break;
+        }
 
-        switch (funct3) {
-          case LOAD_FUNCT3.LB:
-            this.setReg(rd, signExtend(this.readByte(address), 8));
-            break;
-          case LOAD_FUNCT3.LH:
-            this.setReg(rd, signExtend(this.readHalfword(address), 16));
-            break;
-          case LOAD_FUNCT3.LW:
-            this.setReg(rd, this.readWord(address));
-            break;
-          case LOAD_FUNCT3.LBU:
-            this.setReg(rd, this.readByte(address));
-            break;
-          case LOAD_FUNCT3.LHU:
-            this.setReg(rd, this.readHalfword(address));
-            break;
+        case OPCODE.JALR: {
+          // Jump And Link Register
+          const { rd, rs1, imm } = decoded;
+          if (((instruction >> 12) & 0x7) !== 0) {
+            throw this.illegalInstruction(instruction);
+          }
+          const target = ((this.getReg(rs1) + imm) & ~1) >>> 0;
+          nextPc = this.checkJumpTarget(target);
+          this.setReg(rd, this.pc + length);
+          break;
         }
-        break;
-      }
 
-      case OPCODE.STORE: {
-        // Store instructions
-        const { funct3, rs1, rs2, imm } = this.decodeS(instruction);
-        const address = (this.getReg(rs1) + imm) >>> 0;
-        const value = this.getReg(rs2);
+        case OPCODE.BRANCH: {
+          // Branch instructions
+          const { funct3, rs1, rs2, imm } = decoded;
+          const a = this.getReg(rs1);
+          const b = this.getReg(rs2);
+          let takeBranch = false;
+
+          switch (funct3) {
+            case BRANCH_FUNCT3.BEQ:
+              takeBranch = a === b;
+              break;
+            case BRANCH_FUNCT3.BNE:
+              takeBranch = a !== b;
+              break;
+            case BRANCH_FUNCT3.BLT:
+              takeBranch = (a | 0) < (b | 0);
+              break;
+            case BRANCH_FUNCT3.BGE:
+              takeBranch = (a | 0) >= (b | 0);
+              break;
+            case BRANCH_FUNCT3.BLTU:
+              takeBranch = a < b;
+              break;
+            case BRANCH_FUNCT3.BGEU:
+              takeBranch = a >= b;
+              break;
+            default:
+              throw this.illegalInstruction(instruction);
+          }
 
-        switch (funct3) {
-          case STORE_FUNCT3.SB:
-            this.writeByte(address, value);
-            break;
-          case STORE_FUNCT3.SH:
-            this.writeHalfword(address, value);
-            break;
-          case STORE_FUNCT3.SW:
-            this.writeWord(address, value);
-            break;
+          if (takeBranch) {
+            nextPc = this.checkJumpTarget((this.pc + imm) >>> 0);
+          }
+          break;
         }
-        break;
-      }
 
-      case OPCODE.OP_IMM: {
-        // Integer Register-Immediate operations
-        const { rd, funct3, rs1, imm } = this.decodeI(instruction);
-        const a = this.getReg(rs1);
-        let result = 0;
+        case OPCODE.LOAD: {
+          // Load instructions
+          const { rd, funct3, rs1, imm } = decoded;
+          if (funct3 === 0b011 || funct3 > LOAD_FUNCT3.LHU) {
+            throw this.illegalInstruction(instruction);
+          }
+          const size = 1 << (funct3 & 0x3);
+          const address = this.dataAddress((this.getReg(rs1) + imm) >>> 0, size, AccessType.LOAD);
+
+          switch (funct3) {
+            case LOAD_FUNCT3.LB:
+              this.setReg(rd, signExtend(this.readByte(address), 8));
+              break;
+            case LOAD_FUNCT3.LH:
+              this.setReg(rd, signExtend(this.readHalfword(address), 16));
+              break;
+            case LOAD_FUNCT3.LW:
+              this.setReg(rd, this.readWord(address));
+              break;
+            case LOAD_FUNCT3.LBU:
+              this.setReg(rd, this.readByte(address));
+              break;
+            case LOAD_FUNCT3.LHU:
+              this.setReg(rd, this.readHalfword(address));
+              break;
+          }
+          break;
+        }
 
-        switch (funct3) {
-          case ALU_IMM_FUNCT3.ADDI:
-            result = (a + imm) >>> 0;
-            break;
-          case ALU_IMM_FUNCT3.SLTI:
-            result = (a | 0) < imm ? 1 : 0;
-            break;
-          case ALU_IMM_FUNCT3.SLTIU:
-            result = a < (imm >>> 0) ? 1 : 0;
-            break;
-          case ALU_IMM_FUNCT3.XORI:
-            result = (a ^ imm) >>> 0;
-            break;
-          case ALU_IMM_FUNCT3.ORI:
-            result = (a | imm) >>> 0;
-            break;
-          case ALU_IMM_FUNCT3.ANDI:
-            result = (a & imm) >>> 0;
-            break;
-          case ALU_IMM_FUNCT3.SLLI: {
-            const shamt = imm & 0x1f;
-            result = (a << shamt) >>> 0;
-            break;
+        case OPCODE.STORE: {
+          // Store instructions
+          const { funct3, rs1, rs2, imm } = decoded;
+          const value = this.getReg(rs2);
+          if (funct3 > STORE_FUNCT3.SW) {
+            throw this.illegalInstruction(instruction);
+          }
+          const size = 1 << funct3;
+          const address = this.dataAddress((this.getReg(rs1) + imm) >>> 0, size, AccessType.STORE);
+
+          switch (funct3) {
+            case STORE_FUNCT3.SB:
+              this.writeByte(address, value);
+              break;
+            case STORE_FUNCT3.SH:
+              this.writeHalfword(address, value);
+              break;
+            case STORE_FUNCT3.SW:
+              this.writeWord(address, value);
+              break;
           }
-          case ALU_IMM_FUNCT3.SRLI_SRAI: {
-            const shamt = imm & 0x1f;
-            const isArithmetic = (instruction >> 30) & 0x1;
-            if (isArithmetic) {
-              result = (a >> shamt) >>> 0; // SRAI (arithmetic)
-            } else {
-              result = a >>> shamt; // SRLI (logical)
+          break;
+        }
+
+        case OPCODE.OP_IMM: {
+          // Integer Register-Immediate operations
+          const { rd, funct3, rs1, imm } = decoded;
+          const a = this.getReg(rs1);
+          let result = 0;
+
+          switch (funct3) {
+            case ALU_IMM_FUNCT3.ADDI:
+              result = (a + imm) >>> 0;
+              break;
+            case ALU_IMM_FUNCT3.SLTI:
+              result = (a | 0) < imm ? 1 : 0;
+              break;
+            case ALU_IMM_FUNCT3.SLTIU:
+              result = a < (imm >>> 0) ? 1 : 0;
+              break;
+            case ALU_IMM_FUNCT3.XORI:
+              result = (a ^ imm) >>> 0;
+              break;
+            case ALU_IMM_FUNCT3.ORI:
+              result = (a | imm) >>> 0;
+              break;
+            case ALU_IMM_FUNCT3.ANDI:
+              result = (a & imm) >>> 0;
+              break;
+            case ALU_IMM_FUNCT3.SLLI: {
+              if ((instruction >>> 25) !== 0) {
+                throw this.illegalInstruction(instruction);
+              }
+              const shamt = imm & 0x1f;
+              result = (a << shamt) >>> 0;
+              break;
+            }
+            case ALU_IMM_FUNCT3.SRLI_SRAI: {
+              const funct7 = instruction >>> 25;
+              if (funct7 !== 0 && funct7 !== 0x20) {
+                throw this.illegalInstruction(instruction);
+              }
+              const shamt = imm & 0x1f;
+              const isArithmetic = (instruction >> 30) & 0x1;
+              if (isArithmetic) {
+                result = (a >> shamt) >>> 0; // SRAI (arithmetic)
+              } else {
+                result = a >>> shamt; // SRLI (logical)
+              }
+              break;
             }
-            break;
           }
+
+          this.setReg(rd, result);
+          break;
         }
 
-        this.setReg(rd, result);
-        break;
-      }
+        case OPCODE.OP: {
+          // Integer Register-Register operations
+          const { rd, funct3, rs1, rs2, funct7 } = decoded;
+          const a = this.getReg(rs1);
+          const b = this.getReg(rs2);
+          let result = 0;
 
-      case OPCODE.OP: {
-        // Integer Register-Register operations
-        const { rd, funct3, rs1, rs2, funct7 } = this.decodeR(instruction);
-        const a = this.getReg(rs1);
-        const b = this.getReg(rs2);
-        let result = 0;
-
-        switch (funct3) {
-          case ALU_FUNCT3.ADD_SUB:
-            if (funct7 === 0x20) {
-              result = (a - b) >>> 0; // SUB
-            } else {
-              result = (a + b) >>> 0; // ADD
-            }
-            break;
-          case ALU_FUNCT3.SLL:
-            result = (a << (b & 0x1f)) >>> 0;
+          if (funct7 === 0x01) {
+            // RV32M multiply/divide
+            this.setReg(rd, this.executeMulDiv(funct3, a, b));
             break;
-          case ALU_FUNCT3.SLT:
-            result = (a | 0) < (b | 0) ? 1 : 0;
-            break;
-          case ALU_FUNCT3.SLTU:
-            result = a < b ? 1 : 0;
-            break;
-          case ALU_FUNCT3.XOR:
-            result = (a ^ b) >>> 0;
+          }
+
+          // SUB and SRA are the only base encodings with funct7 = 0x20
+          if (funct7 !== 0 && !(funct7 === 0x20 &&
+              (funct3 === ALU_FUNCT3.ADD_SUB || funct3 === ALU_FUNCT3.SRL_SRA))) {
+            throw this.illegalInstruction(instruction);
+          }
+
+          switch (funct3) {
+            case ALU_FUNCT3.ADD_SUB:
+              if (funct7 === 0x20) {
+                result = (a - b) >>> 0; // SUB
+              } else {
+                result = (a + b) >>> 0; // ADD
+              }
+              break;
+            case ALU_FUNCT3.SLL:
+              result = (a << (b & 0x1f)) >>> 0;
+              break;
+            case ALU_FUNCT3.SLT:
+              result = (a | 0) < (b | 0) ? 1 : 0;
+              break;
+            case ALU_FUNCT3.SLTU:
+              result = a < b ? 1 : 0;
+              break;
+            case ALU_FUNCT3.XOR:
+              result = (a ^ b) >>> 0;
+              break;
+            case ALU_FUNCT3.SRL_SRA:
+              if (funct7 === 0x20) {
+                result = (a >> (b & 0x1f)) >>> 0; // SRA (arithmetic)
+              } else {
+                result = a >>> (b & 0x1f); // SRL (logical)
+              }
+              break;
+            case ALU_FUNCT3.OR:
+              result = (a | b) >>> 0;
+              break;
+            case ALU_FUNCT3.AND:
+              result = (a & b) >>> 0;
+              break;
+          }
+
+          this.setReg(rd, result);
+          break;
+        }
+
+        case OPCODE.AMO:
+          this.executeAtomic(decoded);
+          break;
+
+        case OPCODE.LOAD_FP:
+        case OPCODE.STORE_FP:
+          this.executeFloatMemory(decoded);
+          break;
+
+        case OPCODE.MADD:
+        case OPCODE.MSUB:
+        case OPCODE.NMSUB:
+        case OPCODE.NMADD:
+        case OPCODE.OP_FP:
+          this.requireFloat(instruction);
+          if (!this.fpu.execute(decoded, this.x)) {
+            throw this.illegalInstruction(instruction);
+          }
+          this.csr.markFloatDirty();
+          break;
+
+        case OPCODE.FENCE: {
+          // Memory fence - no-op in single-threaded emulator, except that
+          // FENCE.I makes stores visible to instruction fetch
+          if (decoded.funct3 === FENCE_I_FUNCT3) {
+            this.decodeCache?.flush();
+          }
+          break;
+        }
+
+        case OPCODE.SYSTEM: {
+          // System instructions
+          const { rd, funct3, rs1 } = decoded;
+
+          if (funct3 !== SYSTEM_FUNCT3.PRIV) {
+            this.executeCsr(instruction);
             break;
-          case ALU_FUNCT3.SRL_SRA:
-            if (funct7 === 0x20) {
-              result = (a >> (b & 0x1f)) >>> 0; // SRA (arithmetic)
-            } else {
-              result = a >>> (b & 0x1f); // SRL (logical)
+          }
+
+          if (rd !== 0) {
+            throw this.illegalInstruction(instruction);
+          }
+
+          if ((instruction >>> 25) === 0x09) {
+            // SFENCE.VMA - flush one page (rs1 != x0) or the whole TLB
+            if (this.privilege === PRIVILEGE.USER) {
+              throw this.illegalInstruction(instruction);
             }
+            this.mmu.flush(rs1 !== 0 ? this.getReg(rs1) : undefined);
             break;
-          case ALU_FUNCT3.OR:
-            result = (a | b) >>> 0;
-            break;
-          case ALU_FUNCT3.AND:
-            result = (a & b) >>> 0;
-            break;
+          }
+
+          if (rs1 !== 0) {
+            throw this.illegalInstruction(instruction);
+          }
+
+          switch (instruction >>> 20) {
+            case 0x000:
+              // ECALL - environment call (cause 8/9/11 for U/S/M)
+              if (!this.hostSyscalls) {
+                throw new TrapException(EXCEPTION_CAUSE.ECALL_FROM_U + this.privilege);
+              }
+              // Host syscalls may consume keys or touch devices directly
+              this.interruptsDirty = true;
+              if (this.syscallAbi === 'linux') {
+                const outcome = this.linux.handle();
+                if (outcome === 'block') {
+                  nextPc = this.pc; // Retry until input arrives
+                } else if (outcome === 'halt') {
+                  return false;
+                }
+                break;
+              }
+              if (this.handleSyscall() === false) {
+                return false; // CPU halted
+              }
+              break;
+            case 0x001:
+              // EBREAK - breakpoint
+              throw new TrapException(EXCEPTION_CAUSE.BREAKPOINT, this.pc);
+            case 0x302:
+              // MRET - return from machine-mode trap
+              if (this.privilege < PRIVILEGE.MACHINE) {
+                throw this.illegalInstruction(instruction);
+              }
+              nextPc = this.returnFromMachineTrap();
+              break;
+            case 0x102:
+              // SRET - return from supervisor-mode trap
+              if (this.privilege < PRIVILEGE.SUPERVISOR) {
+                throw this.illegalInstruction(instruction);
+              }
+              nextPc = this.returnFromSupervisorTrap();
+              break;
+            case 0x105:
+              // WFI - idle from the next instruction until an interrupt is pending
+              if (this.privilege === PRIVILEGE.USER) {
+                throw this.illegalInstruction(instruction);
+              }
+              this.waitingForInterrupt = true;
+              break;
+            default:
+              throw this.illegalInstruction(instruction);
+          }
+          break;
         }
 
-        this.setReg(rd, result);
-        break;
+        default:
+          // Unknown opcode
+          throw this.illegalInstruction(instruction);
       }
 
-      case OPCODE.FENCE: {
-        // Memory fence - no-op in single-threaded emulator
-        break;
+      this.pc = nextPc;
+      this.cycles++;
+      if (!quiet || --this.quietBudget <= 0 || this.interruptsDirty || this.waitingForInterrupt) {
+        return true;
       }
+      clint?.tick();
+      decoded = cache.lookup(this.pc) ?? this.decode(this.pc);
+    }
+  }
 
-      case OPCODE.SYSTEM: {
-        // System instructions
-        const { imm } = this.decodeI(instruction);
-
-        if (imm === 0) {
-          // ECALL - environment call (dispatch to syscall handler)
-          const result = this.handleSyscall();
-          if (result === false) {
-            return false; // CPU halted
-          }
-        } else if (imm === 1) {
-          // EBREAK - breakpoint
-          this.halted = true;
-          return false;
+  /**
+   * Fetch and decode the instruction at pc
+   *
+   * Instructions are fetched as 16-bit parcels: the first one tells
+   * whether the instruction is compressed, and the second half of a
+   * 32-bit instruction that crosses a page is translated separately.
+   * Halfword-aligned instructions in RAM are served from the decode
+   * cache when it is enabled; anything else is decoded on every fetch.
+   */
+  private fetch(): DecodedInstruction {
+    const address = this.translate(this.pc, 2, AccessType.FETCH);
+    const cache = this.decodeCache;
+    if (cache !== null) {
+      const cached = cache.lookup(address);
+      if (cached !== undefined) {
+        if (this.pmp.isActive()) {
+          this.checkAccess(address, cached.length, AccessType.FETCH);
         }
-        break;
+        return cached;
+      }
+    }
+    return this.decode(address);
+  }
+
+  /**
+   * Fetch and decode the instruction at pc without the decode cache,
+   * caching it if possible
+   *
+   * @param address Physical address of pc
+   */
+  private decode(address: number): DecodedInstruction {
+    const cache = this.decodeCache;
+    this.checkAccess(address, 2, AccessType.FETCH);
+    const parcel = this.readHalfword(address);
+    const cacheable = cache !== null && (address & 0x1) === 0;
+
+    if (isCompressed(parcel)) {
+      const expanded = this.compressed ? expandCompressed(parcel) : 0;
+      if (expanded === 0) {
+        throw this.illegalInstruction(parcel);
+      }
+      if (cacheable && this.isRam(address, 2)) {
+        return cache.insert(address, expanded, 2);
       }
+      return decodeInstruction(expanded, 2);
+    }
+
+    if ((this.pc & (PAGE_SIZE - 1)) > PAGE_SIZE - 4) {
+      // The upper parcel lives on the next virtual page
+      const upper = this.translate((this.pc + 2) >>> 0, 2, AccessType.FETCH);
+      this.checkAccess(upper, 2, AccessType.FETCH);
+      return decodeInstruction((parcel | (this.readHalfword(upper) << 16)) >>> 0);
+    }
+
+    this.checkAccess(address, 4, AccessType.FETCH);
+    const instruction = this.readWord(address);
+    if (cacheable && this.isRam(address, 4)) {
+      return cache.insert(address, instruction);
+    }
+    return decodeInstruction(instruction);
+  }
+
+  /**
+   * Check whether a range is backed by RAM or ROM (for instructions,
+   * whether they are safe to cache)
+   */
+  isRam(address: number, size: number): boolean {
+    const offset = (address >>> 0) - this.ramBase;
+    return (offset >= 0 && offset + size <= this.memory.length) ||
+      this.bus.find(address, size)?.device instanceof RamDevice;
+  }
+
+  /**
+   * Execute an RV32A instruction (LR.W, SC.W or an AMO)
+   *
+   * Harts run one at a time, so each AMO is atomic by construction;
+   * the aq/rl ordering bits need no action.
+   */
+  private executeAtomic(decoded: DecodedInstruction): void {
+    const { raw, rd, funct3, rs1, rs2 } = decoded;
+    const funct5 = raw >>> 27;
+    if (funct3 !== AMO_WIDTH_W) {
+      throw this.illegalInstruction(raw);
+    }
+    const virtualAddress = this.getReg(rs1);
+
+    if (funct5 === AMO_FUNCT5.LR) {
+      if (rs2 !== 0) {
+        throw this.illegalInstruction(raw);
+      }
+      if (virtualAddress & 0x3) {
+        throw new TrapException(EXCEPTION_CAUSE.LOAD_ADDRESS_MISALIGNED, virtualAddress);
+      }
+      const address = this.dataAddress(virtualAddress, 4, AccessType.LOAD);
+      this.setReg(rd, this.readWord(address));
+      this.reservations.reserve(this.hartId, address);
+      return;
+    }
+
+    // SC and AMOs need store permission and report store exceptions
+    if (virtualAddress & 0x3) {
+      throw new TrapException(EXCEPTION_CAUSE.STORE_ADDRESS_MISALIGNED, virtualAddress);
+    }
+    const address = this.dataAddress(virtualAddress, 4, AccessType.STORE);
+    const operand = this.getReg(rs2);
+
+    if (funct5 === AMO_FUNCT5.SC) {
+      const reserved = this.reservations.isReserved(this.hartId, address);
+      this.reservations.release(this.hartId);
+      if (reserved) {
+        this.writeWord(address, operand);
+      }
+      this.setReg(rd, reserved ? 0 : 1);
+      return;
+    }
+
+    const loaded = this.readWord(address);
+    const result = amoResult(funct5, loaded, operand);
+    if (result === null) {
+      throw this.illegalInstruction(raw);
+    }
+    this.writeWord(address, result);
+    this.setReg(rd, loaded);
+  }
+
+  /**
+   * Raise an illegal instruction while mstatus.FS is Off
+   */
+  private requireFloat(instruction: number): void {
+    if ((this.csr.mstatus & MSTATUS.FS_MASK) === 0) {
+      throw this.illegalInstruction(instruction);
+    }
+  }
+
+  /**
+   * Execute FLW/FLD/FSW/FSD
+   *
+   * FSW stores the low word of the register as is, without checking
+   * the NaN box; FLD and FSD are two word accesses within one page.
+   */
+  private executeFloatMemory(decoded: DecodedInstruction): void {
+    const { raw, opcode, rd, funct3, rs1, rs2, imm } = decoded;
+    this.requireFloat(raw);
+    if (funct3 !== FP_WIDTH.W && funct3 !== FP_WIDTH.D) {
+      throw this.illegalInstruction(raw);
+    }
+    const size = funct3 === FP_WIDTH.W ? 4 : 8;
+    const virtualAddress = (this.getReg(rs1) + imm) >>> 0;
+
+    if (opcode === OPCODE.LOAD_FP) {
+      const address = this.dataAddress(virtualAddress, size, AccessType.LOAD);
+      if (size === 4) {
+        this.fpu.writeSingleBits(rd, this.readWord(address));
+      } else {
+        this.fpu.low[rd] = this.readWord(address);
+        this.fpu.high[rd] = this.readWord(address + 4);
+      }
+      this.csr.markFloatDirty();
+      return;
+    }
+
+    const address = this.dataAddress(virtualAddress, size, AccessType.STORE);
+    this.writeWord(address, this.fpu.low[rs2]);
+    if (size === 8) {
+      this.writeWord(address + 4, this.fpu.high[rs2]);
+    }
+  }
+
+  /**
+   * Execute a Zicsr instruction (CSRRW/CSRRS/CSRRC and immediate forms)
+   */
+  private executeCsr(instruction: number): void {
+    const rd = (instruction >> 7) & 0x1f;
+    const funct3 = (instruction >> 12) & 0x7;
+    const rs1 = (instruction >> 15) & 0x1f;
+    const csr = instruction >>> 20;
+
+    // Low two bits select the operation: 1 = write, 2 = set, 3 = clear
+    const op = funct3 & 0x3;
+    if (op === 0) {
+      throw this.illegalInstruction(instruction);
+    }
+
+    // Immediate forms use the rs1 field as a zero-extended 5-bit value
+    const operand = funct3 & 0x4 ? rs1 : this.getReg(rs1);
+    // CSRRS/CSRRC with rs1 = x0 (or uimm = 0) only read
+    const writes = op === 1 || rs1 !== 0;
 
+    if (!this.hasCsr(csr) || (writes && isReadOnlyCsr(csr)) ||
+        csrPrivilege(csr) > this.privilege ||
+        (isFloatCsr(csr) && (this.csr.mstatus & MSTATUS.FS_MASK) === 0)) {
+      throw this.illegalInstruction(instruction);
+    }
+
+    // CSRRW with rd = x0 does not read the CSR
+    const old = op === 1 && rd === 0 ? 0 : this.readCsr(csr);
+
+    if (writes) {
+      let value = operand;
+      if (op === 2) {
+        value = old | operand;
+      } else if (op === 3) {
+        value = old & ~operand;
+      }
+      this.writeCsr(csr, value >>> 0);
+    }
+
+    this.setReg(rd, old);
+  }
+
+  /**
+   * Check whether a CSR is implemented
+   */
+  private hasCsr(csr: number): boolean {
+    switch (csr) {
+      case CSR.CYCLE:
+      case CSR.CYCLEH:
+      case CSR.INSTRET:
+      case CSR.INSTRETH:
+      case CSR.MCYCLE:
+      case CSR.MCYCLEH:
+      case CSR.MINSTRET:
+      case CSR.MINSTRETH:
+        return true;
       default:
-        // Unknown opcode - halt
-        this.halted = true;
-        return false;
+        return isPmpCsr(csr) || this.csr.has(csr);
+    }
+  }
+
+  /**
+   * Read a CSR, including the counters derived from the cycle count
+   */
+  readCsr(csr: number): number {
+    switch (csr) {
+      case CSR.CYCLE:
+      case CSR.INSTRET:
+      case CSR.MCYCLE:
+      case CSR.MINSTRET:
+        return this.cycles >>> 0;
+      case CSR.CYCLEH:
+      case CSR.INSTRETH:
+      case CSR.MCYCLEH:
+      case CSR.MINSTRETH:
+        return Math.floor(this.cycles / 0x100000000) >>> 0;
+      default:
+        return isPmpCsr(csr) ? this.pmp.read(csr) : this.csr.read(csr);
+    }
+  }
+
+  /**
+   * Write a CSR without privilege checks (host/debugger access)
+   */
+  writeCsr(csr: number, value: number): void {
+    this.interruptsDirty = true;
+    const high = Math.floor(this.cycles / 0x100000000);
+    const low = this.cycles >>> 0;
+    switch (csr) {
+      case CSR.MCYCLE:
+      case CSR.MINSTRET:
+        this.cycles = high * 0x100000000 + (value >>> 0);
+        break;
+      case CSR.MCYCLEH:
+      case CSR.MINSTRETH:
+        this.cycles = (value >>> 0) * 0x100000000 + low;
+        break;
+      case CSR.SATP:
+        // Without ASIDs a new address space invalidates every cached entry
+        this.csr.write(csr, value);
+        this.mmu.flush();
+        break;
+      default:
+        if (isPmpCsr(csr)) {
+          this.pmp.write(csr, value);
+        } else {
+          this.csr.write(csr, value);
+        }
+    }
+  }
+
+  /**
+   * Refresh the device-driven bits of mip
+   */
+  private updateInterruptPending(): void {
+    this.plic.setLevel(PLIC_IRQ.KEYBOARD, this.keyboard.hasKey());
+    this.plic.setLevel(PLIC_IRQ.STORAGE, this.storage.isInterruptPending());
+    this.plic.setLevel(PLIC_IRQ.GRAPHICS, this.gpu.isVblankPending());
+
+    let mip = this.csr.mip & ~(MIP.MSIP | MIP.MTIP | MIP.MEIP);
+    if (this.clint.isSoftwarePending(this.hartId)) mip |= MIP.MSIP;
+    if (this.clint.isTimerPending(this.hartId)) mip |= MIP.MTIP;
+    // The PLIC has a single context, wired to the boot hart
+    if (this.ownsMachine && this.plic.hasInterrupt()) mip |= MIP.MEIP;
+    this.csr.mip = mip >>> 0;
+  }
+
+  /**
+   * Filter pending interrupts down to those that may be taken now
+   *
+   * M-level interrupts are enabled below M-mode or with mstatus.MIE;
+   * interrupts delegated to S-mode are enabled in U-mode or in S-mode
+   * with mstatus.SIE, and never preempt M-mode.
+   */
+  private enabledInterrupts(pending: number): number {
+    if (pending === 0) {
+      return 0;
+    }
+    const { mstatus, mideleg } = this.csr;
+    let enabled = 0;
+    if (this.privilege < PRIVILEGE.MACHINE || (mstatus & MSTATUS.MIE)) {
+      enabled |= pending & ~mideleg;
+    }
+    if (this.privilege < PRIVILEGE.SUPERVISOR ||
+        (this.privilege === PRIVILEGE.SUPERVISOR && (mstatus & MSTATUS.SIE))) {
+      enabled |= pending & mideleg;
+    }
+    return enabled;
+  }
+
+  /**
+   * Pick the interrupt to take: M external, software, timer, then
+   * the same order for S-mode
+   */
+  private highestPriorityInterrupt(pending: number): number {
+    if (pending & MIP.MEIP) return INTERRUPT_CAUSE.MACHINE_EXTERNAL;
+    if (pending & MIP.MSIP) return INTERRUPT_CAUSE.MACHINE_SOFTWARE;
+    if (pending & MIP.MTIP) return INTERRUPT_CAUSE.MACHINE_TIMER;
+    if (pending & MIP.SEIP) return INTERRUPT_CAUSE.SUPERVISOR_EXTERNAL;
+    if (pending & MIP.SSIP) return INTERRUPT_CAUSE.SUPERVISOR_SOFTWARE;
+    return INTERRUPT_CAUSE.SUPERVISOR_TIMER;
+  }
+
+  /**
+   * Enter the trap handler for an exception or interrupt
+   *
+   * Traps from U- or S-mode go to S-mode when delegated through
+   * medeleg/mideleg, otherwise to M-mode. With no handler installed
+   * (trap vector = 0) the CPU records the cause and halts, matching
+   * the behaviour of programs that expect an EBREAK or a stray
+   * instruction to stop execution.
+   */
+  private takeTrap(cause: number, tval: number): boolean {
+    const csr = this.csr;
+    this.interruptsDirty = true;
+    const interrupt = (cause & INTERRUPT_BIT) !== 0;
+    const code = cause & ~INTERRUPT_BIT;
+    const delegation = interrupt ? csr.mideleg : csr.medeleg;
+    const toSupervisor = this.privilege <= PRIVILEGE.SUPERVISOR && ((delegation >>> code) & 1) === 1;
+
+    let tvec: number;
+    if (toSupervisor) {
+      csr.sepc = this.pc >>> 0;
+      csr.scause = cause >>> 0;
+      csr.stval = tval >>> 0;
+      const spie = csr.mstatus & MSTATUS.SIE ? MSTATUS.SPIE : 0;
+      const spp = this.privilege === PRIVILEGE.SUPERVISOR ? MSTATUS.SPP : 0;
+      csr.mstatus = ((csr.mstatus & ~(MSTATUS.SIE | MSTATUS.SPIE | MSTATUS.SPP)) |
+        spie | spp) >>> 0;
+      this.privilege = PRIVILEGE.SUPERVISOR;
+      tvec = csr.stvec;
+    } else {
+      csr.mepc = this.pc >>> 0;
+      csr.mcause = cause >>> 0;
+      csr.mtval = tval >>> 0;
+      const mpie = csr.mstatus & MSTATUS.MIE ? MSTATUS.MPIE : 0;
+      csr.mstatus = ((csr.mstatus & ~(MSTATUS.MIE | MSTATUS.MPIE | MSTATUS.MPP_MASK)) |
+        mpie | (this.privilege << MSTATUS.MPP_SHIFT)) >>> 0;
+      this.privilege = PRIVILEGE.MACHINE;
+      tvec = csr.mtvec;
+    }
+
+    const base = (tvec & ~0x3) >>> 0;
+    if (base === 0) {
+      this.halted = true;
+      this.haltTrap = { cause: cause >>> 0, epc: this.pc >>> 0, tval: tval >>> 0 };
+      return false;
     }
 
-    this.pc = nextPc;
+    // Vectored mode sends interrupts to base + 4 * cause; exceptions use base
+    const vectored = (tvec & 0x3) === 1 && interrupt;
+    this.pc = vectored ? (base + 4 * code) >>> 0 : base;
     this.cycles++;
     return true;
   }
 
+  /**
+   * MRET: restore the privilege and interrupt enable saved in mstatus
+   */
+  private returnFromMachineTrap(): number {
+    const mstatus = this.csr.mstatus;
+    const previous = (mstatus & MSTATUS.MPP_MASK) >>> MSTATUS.MPP_SHIFT;
+    const mie = mstatus & MSTATUS.MPIE ? MSTATUS.MIE : 0;
+    let next = (mstatus & ~(MSTATUS.MIE | MSTATUS.MPP_MASK)) | mie | MSTATUS.MPIE;
+    if (previous !== PRIVILEGE.MACHINE) {
+      next &= ~MSTATUS.MPRV;
+    }
+    this.csr.mstatus = next >>> 0;
+    this.privilege = previous;
+    this.interruptsDirty = true;
+    return this.csr.mepc;
+  }
+
+  /**
+   * SRET: restore the privilege and interrupt enable saved in sstatus
+   */
+  private returnFromSupervisorTrap(): number {
+    const mstatus = this.csr.mstatus;
+    const previous = mstatus & MSTATUS.SPP ? PRIVILEGE.SUPERVISOR : PRIVILEGE.USER;
+    const sie = mstatus & MSTATUS.SPIE ? MSTATUS.SIE : 0;
+    this.csr.mstatus = ((mstatus & ~(MSTATUS.SIE | MSTATUS.SPP | MSTATUS.MPRV)) |
+      sie | MSTATUS.SPIE) >>> 0;
+    this.privilege = previous;
+    this.interruptsDirty = true;
+    return this.csr.sepc;
+  }
+
+  /**
+   * Privilege an access is made with: MPP for loads and stores while
+   * mstatus.MPRV is set, else the current privilege
+   */
+  private effectivePrivilege(access: AccessType): number {
+    if (access !== AccessType.FETCH && (this.csr.mstatus & MSTATUS.MPRV)) {
+      return (this.csr.mstatus & MSTATUS.MPP_MASK) >>> MSTATUS.MPP_SHIFT;
+    }
+    return this.privilege;
+  }
+
+  /**
+   * Translate a load or store address and check that the access is
+   * allowed, returning the physical address
+   *
+   * RAM accesses with no MMU, PMP or watch hook need neither step.
+   */
+  private dataAddress(address: number, size: number, access: AccessType): number {
+    if (this.directData || this.watchAccess === null && (this.csr.satp & SATP.MODE_SV32) === 0 && !this.pmp.isActive()) {
+      const offset = address - this.ramBase;
+      if (offset >= 0 && offset + size <= this.memory.length) {
+        return address;
+      }
+    }
+    const physical = this.translate(address, size, access);
+    this.checkAccess(physical, size, access);
+    return physical;
+  }
+
+  /**
+   * Translate a guest pointer and check it against PMP, leaving
+   * unmapped addresses to fail on the bus
+   */
+  private guestAddress(address: number, size: number, access: AccessType): number {
+    const physical = this.translate(address >>> 0, size, access);
+    if (this.pmp.isActive() && !this.pmp.check(physical, size, access, this.effectivePrivilege(access))) {
+      throw new TrapException(ACCESS_FAULT[access], address >>> 0);
+    }
+    return physical;
+  }
+
+  /**
+   * Translate a virtual address for the current effective privilege
+   *
+   * Loads and stores use MPP as their privilege when mstatus.MPRV is
+   * set. Translated accesses may not straddle a page boundary.
+   */
+  private translate(address: number, size: number, access: AccessType): number {
+    if (this.watchAccess !== null && access !== AccessType.FETCH) {
+      this.watchAccess(address, size, access);
+    }
+    const privilege = this.effectivePrivilege(access);
+    if (!this.mmu.isActive(this.csr.satp, privilege)) {
+      return address;
+    }
+    if ((address & (PAGE_SIZE - 1)) + size > PAGE_SIZE) {
+      const misaligned = access === AccessType.FETCH
+        ? EXCEPTION_CAUSE.INSTRUCTION_ADDRESS_MISALIGNED
+        : access === AccessType.LOAD
+          ? EXCEPTION_CAUSE.LOAD_ADDRESS_MISALIGNED
+          : EXCEPTION_CAUSE.STORE_ADDRESS_MISALIGNED;
+      throw new TrapException(misaligned, address);
+    }
+    return this.mmu.translate(address, access, privilege, this.csr.satp, this.csr.mstatus);
+  }
+
+  /**
+   * Build an illegal instruction exception for the given encoding
+   */
+  private illegalInstruction(instruction: number): TrapException {
+    return new TrapException(EXCEPTION_CAUSE.ILLEGAL_INSTRUCTION, instruction);
+  }
+
+  /**
+   * Raise instruction-address-misaligned for a jump target that is
+   * not on an IALIGN boundary (trap mode only)
+   */
+  private checkJumpTarget(target: number): number {
+    if ((target & (this.compressed ? 0x1 : 0x3)) && !this.hostSyscalls) {
+      throw new TrapException(EXCEPTION_CAUSE.INSTRUCTION_ADDRESS_MISALIGNED, target);
+    }
+    return target;
+  }
+
+  /**
+   * Raise an access fault if an access is not mapped on the bus, is a
+   * store to ROM or PMP denies it
+   */
+  private checkAccess(address: number, size: number, access: AccessType): void {
+    if (this.pmp.isActive() && !this.pmp.check(address, size, access, this.effectivePrivilege(access))) {
+      throw new TrapException(ACCESS_FAULT[access], address);
+    }
+    const offset = (address >>> 0) - this.ramBase;
+    if (offset >= 0 && offset + size <= this.memory.length) {
+      return;
+    }
+    const region = this.bus.find(address, size);
+    if (!region || (region.readOnly && access === AccessType.STORE)) {
+      throw new TrapException(ACCESS_FAULT[access], address);
+    }
+  }
+
+  /**
+   * Execute an RV32M operation on two unsigned register values
+   *
+   * Division by zero and signed overflow follow the spec: no trap,
+   * DIV/DIVU by zero return all ones, REM/REMU by zero return the
+   * dividend, and -2^31 / -1 returns -2^31 with remainder 0.
+   */
+  private executeMulDiv(funct3: number, a: number, b: number): number {
+    switch (funct3) {
+      case MULDIV_FUNCT3.MUL:
+        return Math.imul(a, b) >>> 0;
+      case MULDIV_FUNCT3.MULH: {
+        // Signed x signed: correct the unsigned high word for negative operands
+        let high = mulhu(a, b);
+        if (a & 0x80000000) high -= b;
+        if (b & 0x80000000) high -= a;
+        return high >>> 0;
+      }
+      case MULDIV_FUNCT3.MULHSU: {
+        // Signed rs1 x unsigned rs2
+        let high = mulhu(a, b);
+        if (a & 0x80000000) high -= b;
+        return high >>> 0;
+      }
+      case MULDIV_FUNCT3.MULHU:
+        return mulhu(a, b);
+      case MULDIV_FUNCT3.DIV: {
+        if (b === 0) return 0xFFFFFFFF;
+        if (a === 0x80000000 && b === 0xFFFFFFFF) return 0x80000000;
+        return Math.trunc((a | 0) / (b | 0)) >>> 0;
+      }
+      case MULDIV_FUNCT3.DIVU:
+        if (b === 0) return 0xFFFFFFFF;
+        return Math.floor(a / b) >>> 0;
+      case MULDIV_FUNCT3.REM: {
+        if (b === 0) return a;
+        if (a === 0x80000000 && b === 0xFFFFFFFF) return 0;
+        return ((a | 0) % (b | 0)) >>> 0;
+      }
+      case MULDIV_FUNCT3.REMU:
+        if (b === 0) return a;
+        return (a % b) >>> 0;
+      default:
+        return 0;
+    }
+  }
+
   /**
    * Run until halted or max cycles reached
    */
   run(maxCycles: number = 1000000): number {
+    this.interruptsDirty = true;
     let executed = 0;
     while (!this.halted && executed < maxCycles) {
-      this.step();
+      this.stepInstruction();
       executed++;
+      if (!this.interruptsDirty && !this.waitingForInterrupt) {
+        executed += this.runQuiet(maxCycles - executed);
+      }
+    }
+    return executed;
+  }
+
+  /**
+   * Execute up to budget instructions without polling for interrupts
+   *
+   * Only valid while no interrupt can become pending: stops before the
+   * tick that makes the timer pending, and after any instruction that
+   * traps, halts, waits or may have changed interrupt state. Returns
+   * the number of instructions executed.
+   */
+  private runQuiet(budget: number): number {
+    const clint = this.ownsMachine ? this.clint : null;
+    let limit = budget;
+    if (clint !== null) {
+      limit = Math.min(limit, clint.ticksUntilTimer(this.hartId) - 1);
+    } else if (this.clint.isTimerPending(this.hartId)) {
+      return 0;
+    }
+
+    // CSR writes, xRETs and traps all end the run, so how pc maps to
+    // physical memory can't change during it
+    const cache = this.tracer === null && this.profiler === null && !this.pmp.isActive() &&
+      !this.mmu.isActive(this.csr.satp, this.privilege) ? this.decodeCache : null;
+
+    if (limit <= 0) {
+      return 0;
+    }
+
+    // Each instruction that completes takes one from the budget; one
+    // that halts or traps ends the run without
+    this.quietBudget = limit;
+    let executed = 0;
+    try {
+      if (cache !== null) {
+        clint?.tick();
+        this.directData = this.watchAccess === null && (this.csr.satp & SATP.MODE_SV32) === 0;
+        const pc = this.pc;
+        const running = this.executeDecoded(cache.lookup(pc) ?? this.decode(pc), true);
+        return limit - this.quietBudget + (running ? 0 : 1);
+      }
+      while (executed < limit) {
+        executed++;
+        clint?.tick();
+        if (!this.execute() || this.interruptsDirty || this.waitingForInterrupt) {
+          break;
+        }
+      }
+    } catch (e) {
+      if (!(e instanceof TrapException)) {
+        throw e;
+      }
+      if (cache !== null) {
+        executed = limit - this.quietBudget + 1;
+      }
+      this.profiler?.abort();
+      this.takeTrap(e.cause, e.tval);
+    } finally {
+      this.directData = false;
     }
     return executed;
   }
@@ -754,11 +1842,91 @@ export class RiscVCpu {
     };
   }
 
+  /**
+   * Copy the hart's registers and syscall state (not RAM or devices)
+   */
+  saveState(): HartState {
+    return {
+      x: Array.from(this.x),
+      pc: this.pc,
+      privilege: this.privilege,
+      halted: this.halted,
+      waitingForInterrupt: this.waitingForInterrupt,
+      cycles: this.cycles,
+      csr: this.csr.saveState(),
+      f: { low: Array.from(this.fpu.low), high: Array.from(this.fpu.high) },
+      exitCode: this.exitCode,
+      consoleOutput: this.consoleOutput,
+      fileHandles: [...this.fileHandles].map(([handle, file]) => [handle, { ...file, data: new Uint8Array(file.data) }]),
+      nextFileHandle: this.nextFileHandle,
+      dirIterator: this.dirIterator,
+      dirFileList: this.dirFileList && this.dirFileList.map((entry) => ({ ...entry })),
+      syscallAbi: this.syscallAbi,
+      linux: this.linux.saveState(),
+      pmp: this.pmp.saveState(),
+    };
+  }
+
+  /**
+   * Restore state copied by saveState()
+   *
+   * Reservations, the TLB and the decode cache are dropped, so restore
+   * RAM before the hart.
+   */
+  restoreState(state: HartState): void {
+    this.x.set(state.x);
+    this.x[0] = 0;
+    this.pc = state.pc;
+    this.privilege = state.privilege;
+    this.halted = state.halted;
+    this.waitingForInterrupt = state.waitingForInterrupt;
+    this.cycles = state.cycles;
+    this.csr.restoreState(state.csr);
+    this.fpu.low.set(state.f.low);
+    this.fpu.high.set(state.f.high);
+    this.exitCode = state.exitCode;
+    this.consoleOutput = state.consoleOutput;
+    this.fileHandles = new Map(
+      state.fileHandles.map(([handle, file]) => [handle, { ...file, data: new Uint8Array(file.data) }])
+    );
+    this.nextFileHandle = state.nextFileHandle;
+    this.dirIterator = state.dirIterator;
+    this.dirFileList = state.dirFileList && state.dirFileList.map((entry) => ({ ...entry }));
+    this.syscallAbi = state.syscallAbi;
+    this.linux.restoreState(state.linux);
+    this.pmp.restoreState(state.pmp);
+
+    this.reservations.release(this.hartId);
+    this.mmu.flush();
+    this.decodeCache?.flush();
+    this.interruptsDirty = true;
+  }
+
   /**
    * Handle ECALL syscall
    * Returns false if CPU should halt, true to continue
+   *
+   * Pointer arguments are accessed like loads and stores by the
+   * calling program, so a pointer it may not use raises the page or
+   * access fault the ECALL would cause; one to unmapped memory makes
+   * the syscall return -1.
    */
   private handleSyscall(): boolean {
+    try {
+      return this.dispatchSyscall();
+    } catch (e) {
+      if (e instanceof BusError) {
+        this.setReg(10, 0xFFFFFFFF);
+        return true;
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * Run the syscall in a7
+   */
+  private dispatchSyscall(): boolean {
     const syscallNum = this.getReg(17); // a7
     const a0 = this.getReg(10);
     const a1 = this.getReg(11);
@@ -946,7 +2114,7 @@ export class RiscVCpu {
     let count = 0;
     let addr = address;
     while (true) {
-      const ch = this.readByte(addr);
+      const ch = this.loadVirtual(addr, 1);
       if (ch === 0) break;
       this.syscallPutchar(ch);
       addr++;
@@ -964,10 +2132,13 @@ export class RiscVCpu {
     try {
       const data = this.storage.getHdd().read(sector, 1); // Read 1 sector
       for (let i = 0; i < data.length; i++) {
-        this.writeByte(buffer + i, data[i]);
+        this.storeVirtual(buffer + i, data[i], 1);
       }
       return 0; // Success
-    } catch {
+    } catch (e) {
+      if (e instanceof TrapException) {
+        throw e;
+      }
       return 0xFFFFFFFF; // Error
     }
   }
@@ -979,11 +2150,14 @@ export class RiscVCpu {
     try {
       const data = new Uint8Array(512);
       for (let i = 0; i < 512; i++) {
-        data[i] = this.readByte(buffer + i);
+        data[i] = this.loadVirtual(buffer + i, 1);
       }
       this.storage.getHdd().write(sector, data);
       return 0; // Success
-    } catch {
+    } catch (e) {
+      if (e instanceof TrapException) {
+        throw e;
+      }
       return 0xFFFFFFFF; // Error
     }
   }
@@ -1030,10 +2204,10 @@ export class RiscVCpu {
 
     // Write characters to buffer
     for (let i = 0; i < chars.length; i++) {
-      this.writeByte(buffer + i, chars[i]);
+      this.storeVirtual(buffer + i, chars[i], 1);
     }
     // Null terminate
-    this.writeByte(buffer + chars.length, 0);
+    this.storeVirtual(buffer + chars.length, 0, 1);
 
     return chars.length;
   }
@@ -1051,7 +2225,7 @@ export class RiscVCpu {
     let filename = '';
     let addr = filenameAddr;
     for (let i = 0; i < 100; i++) {
-      const ch = this.readByte(addr++);
+      const ch = this.loadVirtual(addr++, 1);
       if (ch === 0) break;
       filename += String.fromCharCode(ch);
     }
@@ -1096,7 +2270,7 @@ export class RiscVCpu {
     const toRead = Math.min(count, available);
 
     for (let i = 0; i < toRead; i++) {
-      this.writeByte(buffer + i, fh.data[fh.cursor++]);
+      this.storeVirtual(buffer + i, fh.data[fh.cursor++], 1);
     }
 
     return toRead;
@@ -1122,7 +2296,7 @@ export class RiscVCpu {
 
     // Write bytes
     for (let i = 0; i < count; i++) {
-      fh.data[fh.cursor++] = this.readByte(buffer + i);
+      fh.data[fh.cursor++] = this.loadVirtual(buffer + i, 1);
     }
 
     return count;
@@ -1179,20 +2353,20 @@ export class RiscVCpu {
     // Write name (8 bytes, padded with spaces)
     const name = file.name.padEnd(8, ' ');
     for (let i = 0; i < 8; i++) {
-      this.writeByte(nameBuffer + i, name.charCodeAt(i));
+      this.storeVirtual(nameBuffer + i, name.charCodeAt(i), 1);
     }
 
     // Write extension (3 bytes, padded with spaces)
     const ext = file.extension.padEnd(3, ' ');
     for (let i = 0; i < 3; i++) {
-      this.writeByte(extBuffer + i, ext.charCodeAt(i));
+      this.storeVirtual(extBuffer + i, ext.charCodeAt(i), 1);
     }
 
     // Write size (4 bytes, little-endian)
-    this.writeByte(sizeBuffer + 0, file.size & 0xFF);
-    this.writeByte(sizeBuffer + 1, (file.size >> 8) & 0xFF);
-    this.writeByte(sizeBuffer + 2, (file.size >> 16) & 0xFF);
-    this.writeByte(sizeBuffer + 3, (file.size >> 24) & 0xFF);
+    this.storeVirtual(sizeBuffer + 0, file.size & 0xFF, 1);
+    this.storeVirtual(sizeBuffer + 1, (file.size >> 8) & 0xFF, 1);
+    this.storeVirtual(sizeBuffer + 2, (file.size >> 16) & 0xFF, 1);
+    this.storeVirtual(sizeBuffer + 3, (file.size >> 24) & 0xFF, 1);
 
     return 1; // Entry read successfully
   }
@@ -1222,7 +2396,7 @@ export class RiscVCpu {
       let source = '';
       let addr = sourceBuffer;
       while (true) {
-        const byte = this.readByte(addr++);
+        const byte = this.loadVirtual(addr++, 1);
         if (byte === 0) break;
         source += String.fromCharCode(byte);
       }
@@ -1238,11 +2412,14 @@ export class RiscVCpu {
 
       // Write assembled code to output buffer
       for (let i = 0; i < code.length; i++) {
-        this.writeByte(outputBuffer + i, code[i]);
+        this.storeVirtual(outputBuffer + i, code[i], 1);
       }
 
       return code.length;
     } catch (err) {
+      if (err instanceof TrapException) {
+        throw err;
+      }
       // Assembly error - could log the error for debugging
       // console.error('Assembly error:', err);
       return 0xFFFFFFFF;
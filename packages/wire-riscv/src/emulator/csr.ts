@@ -0,0 +1,494 @@
+/**
+ * RISC-V Control and Status Registers (Zicsr)
+ *
+ * Machine- and supervisor-mode CSR file. Each register applies its
+ * WARL write mask so software always reads back a legal value.
+ * sstatus, sie and sip are restricted views of mstatus, mie and mip.
+ * fflags and frm are fields of fcsr, the floating-point control and
+ * status register; mstatus.FS tracks whether that state is in use.
+ * The cycle/instret counters are served by the CPU, which owns the
+ * cycle count.
+ */
+
+/** CSR addresses */
+export const CSR = {
+  // Floating-point control and status
+  FFLAGS: 0x001,
+  FRM: 0x002,
+  FCSR: 0x003,
+
+  // User counters (read-only shadows of the machine counters)
+  CYCLE: 0xC00,
+  INSTRET: 0xC02,
+  CYCLEH: 0xC80,
+  INSTRETH: 0xC82,
+
+  // Supervisor trap setup
+  SSTATUS: 0x100,
+  SIE: 0x104,
+  STVEC: 0x105,
+
+  // Supervisor trap handling
+  SSCRATCH: 0x140,
+  SEPC: 0x141,
+  SCAUSE: 0x142,
+  STVAL: 0x143,
+  SIP: 0x144,
+
+  // Supervisor protection and translation
+  SATP: 0x180,
+
+  // Machine information registers (read-only)
+  MVENDORID: 0xF11,
+  MARCHID: 0xF12,
+  MIMPID: 0xF13,
+  MHARTID: 0xF14,
+
+  // Machine trap setup
+  MSTATUS: 0x300,
+  MISA: 0x301,
+  MEDELEG: 0x302,
+  MIDELEG: 0x303,
+  MIE: 0x304,
+  MTVEC: 0x305,
+
+  // Machine trap handling
+  MSCRATCH: 0x340,
+  MEPC: 0x341,
+  MCAUSE: 0x342,
+  MTVAL: 0x343,
+  MIP: 0x344,
+
+  // Machine memory protection
+  PMPCFG0: 0x3A0,
+  PMPCFG1: 0x3A1,
+  PMPCFG2: 0x3A2,
+  PMPCFG3: 0x3A3,
+  PMPADDR0: 0x3B0,
+  PMPADDR1: 0x3B1,
+  PMPADDR2: 0x3B2,
+  PMPADDR3: 0x3B3,
+  PMPADDR4: 0x3B4,
+  PMPADDR5: 0x3B5,
+  PMPADDR6: 0x3B6,
+  PMPADDR7: 0x3B7,
+  PMPADDR8: 0x3B8,
+  PMPADDR9: 0x3B9,
+  PMPADDR10: 0x3BA,
+  PMPADDR11: 0x3BB,
+  PMPADDR12: 0x3BC,
+  PMPADDR13: 0x3BD,
+  PMPADDR14: 0x3BE,
+  PMPADDR15: 0x3BF,
+
+  // Machine counters
+  MCYCLE: 0xB00,
+  MINSTRET: 0xB02,
+  MCYCLEH: 0xB80,
+  MINSTRETH: 0xB82,
+} as const;
+
+/** mstatus fields */
+export const MSTATUS = {
+  /** Supervisor interrupt enable */
+  SIE: 1 << 1,
+  /** Machine interrupt enable */
+  MIE: 1 << 3,
+  /** Previous SIE, saved on trap entry to S-mode */
+  SPIE: 1 << 5,
+  /** Previous MIE, saved on trap entry */
+  MPIE: 1 << 7,
+  /** Previous privilege for S-mode traps (0 = U, 1 = S) */
+  SPP: 1 << 8,
+  /** Previous privilege mode field (bits 12:11) */
+  MPP_SHIFT: 11,
+  MPP_MASK: 0x3 << 11,
+  /** Floating-point state field (bits 14:13): Off, Initial, Clean, Dirty */
+  FS_SHIFT: 13,
+  FS_MASK: 0x3 << 13,
+  /** Loads and stores use the MPP privilege for translation */
+  MPRV: 1 << 17,
+  /** Permit supervisor access to user pages */
+  SUM: 1 << 18,
+  /** Make executable pages readable */
+  MXR: 1 << 19,
+  /** Some extension state is dirty (read-only summary of FS) */
+  SD: 0x80000000,
+} as const;
+
+/** mstatus.FS values */
+export const FS = {
+  OFF: 0,
+  INITIAL: 1,
+  CLEAN: 2,
+  DIRTY: 3,
+} as const;
+
+/** fcsr fields */
+export const FCSR = {
+  /** Accrued exception flags (bits 4:0) */
+  FFLAGS_MASK: 0x1f,
+  /** Dynamic rounding mode (bits 7:5) */
+  FRM_SHIFT: 5,
+  FRM_MASK: 0x7,
+} as const;
+
+/** Privilege levels */
+export const PRIVILEGE = {
+  USER: 0,
+  SUPERVISOR: 1,
+  MACHINE: 3,
+} as const;
+
+/** Interrupt bits shared by mie and mip */
+export const MIP = {
+  /** Supervisor software interrupt */
+  SSIP: 1 << 1,
+  /** Machine software interrupt */
+  MSIP: 1 << 3,
+  /** Supervisor timer interrupt */
+  STIP: 1 << 5,
+  /** Machine timer interrupt */
+  MTIP: 1 << 7,
+  /** Supervisor external interrupt */
+  SEIP: 1 << 9,
+  /** Machine external interrupt */
+  MEIP: 1 << 11,
+} as const;
+
+/** satp fields (Sv32) */
+export const SATP = {
+  /** MODE bit: 0 = bare, 1 = Sv32 */
+  MODE_SV32: 0x80000000,
+  ASID_SHIFT: 22,
+  ASID_MASK: 0x1FF << 22,
+  PPN_MASK: 0x3FFFFF,
+} as const;
+
+/** misa extension bits */
+export const MISA = {
+  A: 1 << 0,
+  C: 1 << 2,
+  D: 1 << 3,
+  F: 1 << 5,
+  I: 1 << 8,
+  M: 1 << 12,
+  S: 1 << 18,
+  U: 1 << 20,
+} as const;
+
+/** misa: MXL=1 (RV32) with the I, M, A, F, D and C extensions, S and U modes */
+export const MISA_VALUE = (
+  (1 << 30) | // MXL = 1 (32-bit)
+  MISA.A | MISA.C | MISA.D | MISA.F | MISA.I | MISA.M | MISA.S | MISA.U
+) >>> 0;
+
+const MSTATUS_WRITABLE = MSTATUS.SIE | MSTATUS.MIE | MSTATUS.SPIE | MSTATUS.MPIE |
+  MSTATUS.SPP | MSTATUS.MPP_MASK | MSTATUS.FS_MASK | MSTATUS.MPRV | MSTATUS.SUM | MSTATUS.MXR;
+const SSTATUS_MASK = MSTATUS.SIE | MSTATUS.SPIE | MSTATUS.SPP | MSTATUS.FS_MASK |
+  MSTATUS.SUM | MSTATUS.MXR | MSTATUS.SD;
+const MIE_WRITABLE = MIP.SSIP | MIP.MSIP | MIP.STIP | MIP.MTIP | MIP.SEIP | MIP.MEIP;
+/** Supervisor interrupts may be delegated and raised by M-mode software */
+const S_INTERRUPTS = MIP.SSIP | MIP.STIP | MIP.SEIP;
+/** Every exception except ECALL from M-mode (11) and the reserved codes 10 and 14 */
+const MEDELEG_WRITABLE = 0xB3FF;
+
+/** CSRs handled by this file (counters are handled by the CPU) */
+const IMPLEMENTED = new Set<number>([
+  CSR.FFLAGS, CSR.FRM, CSR.FCSR,
+  CSR.SSTATUS, CSR.SIE, CSR.STVEC,
+  CSR.SSCRATCH, CSR.SEPC, CSR.SCAUSE, CSR.STVAL, CSR.SIP,
+  CSR.SATP,
+  CSR.MVENDORID, CSR.MARCHID, CSR.MIMPID, CSR.MHARTID,
+  CSR.MSTATUS, CSR.MISA, CSR.MEDELEG, CSR.MIDELEG, CSR.MIE, CSR.MTVEC,
+  CSR.MSCRATCH, CSR.MEPC, CSR.MCAUSE, CSR.MTVAL, CSR.MIP,
+]);
+
+/**
+ * Check whether a CSR address is in a read-only range (bits 11:10 = 0b11)
+ */
+export function isReadOnlyCsr(csr: number): boolean {
+  return ((csr >> 10) & 0x3) === 0x3;
+}
+
+/**
+ * Lowest privilege level allowed to access a CSR (bits 9:8)
+ */
+export function csrPrivilege(csr: number): number {
+  return (csr >> 8) & 0x3;
+}
+
+/**
+ * Check whether a CSR is floating-point state (inaccessible while mstatus.FS is Off)
+ */
+export function isFloatCsr(csr: number): boolean {
+  return csr === CSR.FFLAGS || csr === CSR.FRM || csr === CSR.FCSR;
+}
+
+/** Writable registers of the CSR file, as saved in snapshots */
+const SAVED_REGISTERS = [
+  'mstatus', 'medeleg', 'mideleg', 'mie', 'mip', 'mtvec', 'mscratch', 'mepc', 'mcause', 'mtval',
+  'stvec', 'sscratch', 'sepc', 'scause', 'stval', 'satp', 'fflags', 'frm',
+] as const;
+
+/**
+ * Writable CSR values, for machine snapshots
+ */
+export type CsrState = Record<typeof SAVED_REGISTERS[number], number>;
+
+/**
+ * Machine- and supervisor-mode CSR file
+ */
+export class CsrFile {
+  /** FS starts out Initial so programs can use floating point without setup */
+  public mstatus: number = FS.INITIAL << MSTATUS.FS_SHIFT;
+  public medeleg: number = 0;
+  public mideleg: number = 0;
+  public mie: number = 0;
+  /** Pending interrupts; M bits are set by devices */
+  public mip: number = 0;
+  public mtvec: number = 0;
+  public mscratch: number = 0;
+  public mepc: number = 0;
+  public mcause: number = 0;
+  public mtval: number = 0;
+  public stvec: number = 0;
+  public sscratch: number = 0;
+  public sepc: number = 0;
+  public scause: number = 0;
+  public stval: number = 0;
+  public satp: number = 0;
+  /** Accrued floating-point exception flags (fcsr bits 4:0) */
+  public fflags: number = 0;
+  /** Dynamic rounding mode (fcsr bits 7:5) */
+  public frm: number = 0;
+
+  constructor(
+    public readonly mhartid: number = 0,
+    public readonly misa: number = MISA_VALUE
+  ) {}
+
+  /**
+   * Reset all writable registers to their power-on values
+   */
+  reset(): void {
+    this.mstatus = FS.INITIAL << MSTATUS.FS_SHIFT;
+    this.medeleg = 0;
+    this.mideleg = 0;
+    this.mie = 0;
+    this.mip = 0;
+    this.mtvec = 0;
+    this.mscratch = 0;
+    this.mepc = 0;
+    this.mcause = 0;
+    this.mtval = 0;
+    this.stvec = 0;
+    this.sscratch = 0;
+    this.sepc = 0;
+    this.scause = 0;
+    this.stval = 0;
+    this.satp = 0;
+    this.fflags = 0;
+    this.frm = 0;
+  }
+
+  /**
+   * Copy the writable registers
+   */
+  saveState(): CsrState {
+    const state = {} as CsrState;
+    for (const name of SAVED_REGISTERS) {
+      state[name] = this[name];
+    }
+    return state;
+  }
+
+  /**
+   * Restore registers copied by saveState()
+   */
+  restoreState(state: CsrState): void {
+    for (const name of SAVED_REGISTERS) {
+      this[name] = state[name] >>> 0;
+    }
+  }
+
+  /**
+   * Record that floating-point registers or fcsr were written
+   */
+  markFloatDirty(): void {
+    this.mstatus = (this.mstatus | MSTATUS.FS_MASK) >>> 0;
+  }
+
+  /**
+   * mstatus with the SD summary bit
+   */
+  private status(): number {
+    const dirty = (this.mstatus & MSTATUS.FS_MASK) === MSTATUS.FS_MASK;
+    return (dirty ? this.mstatus | MSTATUS.SD : this.mstatus) >>> 0;
+  }
+
+  /**
+   * Check whether a CSR is implemented by this file
+   */
+  has(csr: number): boolean {
+    return IMPLEMENTED.has(csr);
+  }
+
+  /**
+   * Read a CSR (returns 0 for unimplemented registers)
+   */
+  read(csr: number): number {
+    switch (csr) {
+      case CSR.FFLAGS:
+        return this.fflags;
+      case CSR.FRM:
+        return this.frm;
+      case CSR.FCSR:
+        return (this.frm << FCSR.FRM_SHIFT) | this.fflags;
+      case CSR.SSTATUS:
+        return (this.status() & SSTATUS_MASK) >>> 0;
+      case CSR.SIE:
+        return (this.mie & this.mideleg) >>> 0;
+      case CSR.STVEC:
+        return this.stvec >>> 0;
+      case CSR.SSCRATCH:
+        return this.sscratch >>> 0;
+      case CSR.SEPC:
+        return this.sepc >>> 0;
+      case CSR.SCAUSE:
+        return this.scause >>> 0;
+      case CSR.STVAL:
+        return this.stval >>> 0;
+      case CSR.SIP:
+        return (this.mip & this.mideleg) >>> 0;
+      case CSR.SATP:
+        return this.satp >>> 0;
+      case CSR.MSTATUS:
+        return this.status();
+      case CSR.MISA:
+        return this.misa;
+      case CSR.MEDELEG:
+        return this.medeleg >>> 0;
+      case CSR.MIDELEG:
+        return this.mideleg >>> 0;
+      case CSR.MIE:
+        return this.mie >>> 0;
+      case CSR.MTVEC:
+        return this.mtvec >>> 0;
+      case CSR.MSCRATCH:
+        return this.mscratch >>> 0;
+      case CSR.MEPC:
+        return this.mepc >>> 0;
+      case CSR.MCAUSE:
+        return this.mcause >>> 0;
+      case CSR.MTVAL:
+        return this.mtval >>> 0;
+      case CSR.MIP:
+        return this.mip >>> 0;
+      case CSR.MHARTID:
+        return this.mhartid >>> 0;
+      default:
+        // mvendorid/marchid/mimpid: non-commercial implementation
+        return 0;
+    }
+  }
+
+  /**
+   * Write a CSR, applying its WARL mask. Writes to read-only
+   * registers are ignored here; the CPU raises the illegal
+   * instruction exception before calling this.
+   */
+  write(csr: number, value: number): void {
+    switch (csr) {
+      case CSR.FFLAGS:
+        this.fflags = value & FCSR.FFLAGS_MASK;
+        this.markFloatDirty();
+        break;
+      case CSR.FRM:
+        this.frm = value & FCSR.FRM_MASK;
+        this.markFloatDirty();
+        break;
+      case CSR.FCSR:
+        this.fflags = value & FCSR.FFLAGS_MASK;
+        this.frm = (value >>> FCSR.FRM_SHIFT) & FCSR.FRM_MASK;
+        this.markFloatDirty();
+        break;
+      case CSR.SSTATUS: {
+        // SD is read-only
+        const writable = SSTATUS_MASK & ~MSTATUS.SD;
+        this.mstatus = ((this.mstatus & ~writable) | (value & writable)) >>> 0;
+        break;
+      }
+      case CSR.SIE:
+        this.mie = ((this.mie & ~this.mideleg) | (value & this.mideleg)) >>> 0;
+        break;
+      case CSR.STVEC:
+        this.stvec = (value & ~0x2) >>> 0;
+        break;
+      case CSR.SSCRATCH:
+        this.sscratch = value >>> 0;
+        break;
+      case CSR.SEPC:
+        this.sepc = (value & ~0x1) >>> 0;
+        break;
+      case CSR.SCAUSE:
+        this.scause = value >>> 0;
+        break;
+      case CSR.STVAL:
+        this.stval = value >>> 0;
+        break;
+      case CSR.SIP: {
+        // Only the software interrupt is writable from S-mode
+        const writable = MIP.SSIP & this.mideleg;
+        this.mip = ((this.mip & ~writable) | (value & writable)) >>> 0;
+        break;
+      }
+      case CSR.SATP:
+        // ASIDs are not implemented: the field reads back as zero
+        this.satp = (value & (SATP.MODE_SV32 | SATP.PPN_MASK)) >>> 0;
+        break;
+      case CSR.MSTATUS: {
+        let next = value & MSTATUS_WRITABLE;
+        // MPP = 2 is reserved: keep the previous mode
+        if (((next & MSTATUS.MPP_MASK) >>> MSTATUS.MPP_SHIFT) === 2) {
+          next = (next & ~MSTATUS.MPP_MASK) | (this.mstatus & MSTATUS.MPP_MASK);
+        }
+        this.mstatus = next >>> 0;
+        break;
+      }
+      case CSR.MEDELEG:
+        this.medeleg = (value & MEDELEG_WRITABLE) >>> 0;
+        break;
+      case CSR.MIDELEG:
+        this.mideleg = (value & S_INTERRUPTS) >>> 0;
+        break;
+      case CSR.MIE:
+        this.mie = (value & MIE_WRITABLE) >>> 0;
+        break;
+      case CSR.MTVEC:
+        // MODE 0 (direct) and 1 (vectored) only; reserved modes read back as direct
+        this.mtvec = (value & ~0x2) >>> 0;
+        break;
+      case CSR.MSCRATCH:
+        this.mscratch = value >>> 0;
+        break;
+      case CSR.MEPC:
+        // IALIGN = 16 (RV32C): bit 0 is always zero
+        this.mepc = (value & ~0x1) >>> 0;
+        break;
+      case CSR.MCAUSE:
+        this.mcause = value >>> 0;
+        break;
+      case CSR.MTVAL:
+        this.mtval = value >>> 0;
+        break;
+      case CSR.MIP:
+        // Machine bits are driven by devices; M-mode may raise S interrupts
+        this.mip = ((this.mip & ~S_INTERRUPTS) | (value & S_INTERRUPTS)) >>> 0;
+        break;
+      case CSR.MISA:
+        // misa is fixed
+        break;
+    }
+  }
+}
@@ -0,0 +1,234 @@
+/**
+ * Decoded Instruction Cache
+ *
+ * Caches predecoded instructions by physical address so the CPU only
+ * extracts register fields and immediates the first time it executes
+ * an instruction. Compressed (RV32C) instructions are cached in their
+ * expanded 32-bit form, so entries are kept per halfword. Entries are
+ * grouped by 4 KiB page with a mask per page of the 256-byte blocks
+ * holding them, so stores can cheaply tell whether they may hit cached
+ * code, even when data shares a page with it;
+ * a store that does drops the overlapping entries, and self-modifying
+ * code or a reloaded program is decoded again on the next fetch.
+ */
+
+/** Fields of a decoded 32-bit instruction */
+export interface DecodedInstruction {
+  /** Raw instruction word (the expansion, for compressed instructions) */
+  readonly raw: number;
+  /** Encoded length in bytes: 2 for compressed instructions, else 4 */
+  readonly length: number;
+  readonly opcode: number;
+  readonly rd: number;
+  readonly funct3: number;
+  readonly rs1: number;
+  readonly rs2: number;
+  readonly funct7: number;
+  /** Sign-extended immediate for the instruction format implied by the opcode */
+  readonly imm: number;
+}
+
+// Opcodes whose immediate is not in I-type position
+const OPCODE_LUI = 0b0110111;
+const OPCODE_AUIPC = 0b0010111;
+const OPCODE_JAL = 0b1101111;
+const OPCODE_BRANCH = 0b1100011;
+const OPCODE_STORE = 0b0100011;
+const OPCODE_STORE_FP = 0b0100111;
+
+const PAGE_SHIFT = 12;
+const HALFWORDS_PER_PAGE = 1 << (PAGE_SHIFT - 1);
+const PAGE_COUNT = 1 << (32 - PAGE_SHIFT);
+/** Code is tracked in 16 blocks of 256 bytes per page */
+const BLOCK_SHIFT = 8;
+
+/**
+ * Sign-extend a value from a given bit width to 32 bits
+ */
+function signExtend(value: number, bits: number): number {
+  const shift = 32 - bits;
+  return (value << shift) >> shift;
+}
+
+/**
+ * Get the bit for an address's block in its page's code mask
+ */
+function blockBit(address: number): number {
+  return 1 << ((address >>> BLOCK_SHIFT) & ((1 << (PAGE_SHIFT - BLOCK_SHIFT)) - 1));
+}
+
+/**
+ * Extract the immediate of an instruction according to its format
+ */
+function decodeImmediate(instruction: number, opcode: number): number {
+  switch (opcode) {
+    case OPCODE_LUI:
+    case OPCODE_AUIPC:
+      // U-type
+      return (instruction & 0xfffff000) >>> 0;
+    case OPCODE_JAL: {
+      // J-type
+      const imm19_12 = (instruction >> 12) & 0xff;
+      const imm11 = (instruction >> 20) & 0x1;
+      const imm10_1 = (instruction >> 21) & 0x3ff;
+      const imm20 = (instruction >> 31) & 0x1;
+      return signExtend((imm20 << 20) | (imm19_12 << 12) | (imm11 << 11) | (imm10_1 << 1), 21);
+    }
+    case OPCODE_BRANCH: {
+      // B-type
+      const imm11 = (instruction >> 7) & 0x1;
+      const imm4_1 = (instruction >> 8) & 0xf;
+      const imm10_5 = (instruction >> 25) & 0x3f;
+      const imm12 = (instruction >> 31) & 0x1;
+      return signExtend((imm12 << 12) | (imm11 << 11) | (imm10_5 << 5) | (imm4_1 << 1), 13);
+    }
+    case OPCODE_STORE:
+    case OPCODE_STORE_FP: {
+      // S-type
+      const imm4_0 = (instruction >> 7) & 0x1f;
+      const imm11_5 = (instruction >> 25) & 0x7f;
+      return signExtend((imm11_5 << 5) | imm4_0, 12);
+    }
+    default:
+      // I-type (R-type instructions ignore it)
+      return signExtend(instruction >> 20, 12);
+  }
+}
+
+/**
+ * Split an instruction word into its fields
+ */
+export function decodeInstruction(instruction: number, length: number = 4): DecodedInstruction {
+  const opcode = instruction & 0x7f;
+  return {
+    raw: instruction >>> 0,
+    length,
+    opcode,
+    rd: (instruction >> 7) & 0x1f,
+    funct3: (instruction >> 12) & 0x7,
+    rs1: (instruction >> 15) & 0x1f,
+    rs2: (instruction >> 20) & 0x1f,
+    funct7: (instruction >>> 25) & 0x7f,
+    imm: decodeImmediate(instruction, opcode),
+  };
+}
+
+export class DecodeCache {
+  /** Decoded entries per physical page number */
+  private pages: Map<number, Array<DecodedInstruction | undefined>> = new Map();
+  /** Per physical page, one bit per block that has had code cached */
+  private codePages: Uint16Array | null = null;
+  /** Bounds of the cached code, [codeStart, codeEnd) */
+  private codeStart: number = 0xFFFFFFFF;
+  private codeEnd: number = 0;
+  private lastPageNumber: number = -1;
+  private lastPage: Array<DecodedInstruction | undefined> | null = null;
+  private misses: number = 0;
+  private invalidations: number = 0;
+
+  /**
+   * Look up the decoded instruction at a halfword-aligned physical address
+   */
+  lookup(address: number): DecodedInstruction | undefined {
+    const pageNumber = address >>> PAGE_SHIFT;
+    let page = this.lastPage;
+    if (pageNumber !== this.lastPageNumber) {
+      page = this.pages.get(pageNumber) ?? null;
+      this.lastPageNumber = pageNumber;
+      this.lastPage = page;
+    }
+    const entry = page ? page[(address >>> 1) & (HALFWORDS_PER_PAGE - 1)] : undefined;
+    if (entry === undefined) {
+      this.misses++;
+    }
+    return entry;
+  }
+
+  /**
+   * Decode an instruction word and cache it for a physical address
+   */
+  insert(address: number, instruction: number, length: number = 4): DecodedInstruction {
+    const pageNumber = address >>> PAGE_SHIFT;
+    let page = this.pages.get(pageNumber);
+    if (!page) {
+      page = new Array<DecodedInstruction | undefined>(HALFWORDS_PER_PAGE);
+      this.pages.set(pageNumber, page);
+      this.lastPageNumber = pageNumber;
+      this.lastPage = page;
+    }
+    this.codePages ??= new Uint16Array(PAGE_COUNT);
+    this.codePages[pageNumber] |= blockBit(address) | blockBit(address + length - 1);
+    this.codeStart = Math.min(this.codeStart, address);
+    this.codeEnd = Math.max(this.codeEnd, address + length);
+    const decoded = decodeInstruction(instruction, length);
+    page[(address >>> 1) & (HALFWORDS_PER_PAGE - 1)] = decoded;
+    return decoded;
+  }
+
+  /**
+   * Check whether [address, address + size) touches a block with cached
+   * code (an instruction is marked in every block it covers, and those
+   * that cross a page are never cached)
+   */
+  hasCode(address: number, size: number = 1): boolean {
+    const codePages = this.codePages;
+    const last = (address + size - 1) >>> 0;
+    if (codePages === null || (last >= address && (address >= this.codeEnd || last < this.codeStart))) {
+      // Most stores are to data well away from the code
+      return false;
+    }
+    return (codePages[address >>> PAGE_SHIFT] & blockBit(address)) !== 0 ||
+      (codePages[last >>> PAGE_SHIFT] & blockBit(last)) !== 0;
+  }
+
+  /**
+   * Drop cached instructions overlapping [address, address + size)
+   */
+  invalidate(address: number, size: number = 1): void {
+    if (this.codePages === null || size <= 0) {
+      return;
+    }
+    const first = address >>> 1;
+    const end = address + size - 1;
+    // Start one halfword early: a 4-byte entry there overlaps the range
+    for (let half = Math.max(first - 1, 0); half <= end >>> 1; half++) {
+      const pageNumber = half >>> (PAGE_SHIFT - 1);
+      if (!this.codePages[pageNumber]) {
+        // Skip the rest of a page without cached code
+        half = ((pageNumber + 1) << (PAGE_SHIFT - 1)) - 1;
+        continue;
+      }
+      const page = this.pages.get(pageNumber)!;
+      const index = half & (HALFWORDS_PER_PAGE - 1);
+      const entry = page[index];
+      if (entry && (half >= first || entry.length === 4)) {
+        page[index] = undefined;
+        this.invalidations++;
+      }
+    }
+  }
+
+  /**
+   * Drop every cached instruction
+   */
+  flush(): void {
+    this.pages.clear();
+    this.codePages = null;
+    this.codeStart = 0xFFFFFFFF;
+    this.codeEnd = 0;
+    this.lastPageNumber = -1;
+    this.lastPage = null;
+  }
+
+  /**
+   * Get the miss counter and the number of entries dropped by stores
+   * (hits aren't counted: that would cost as much as the lookup)
+   */
+  getStats(): { misses: number; invalidations: number; pages: number } {
+    return {
+      misses: this.misses,
+      invalidations: this.invalidations,
+      pages: this.pages.size,
+    };
+  }
+}
@@ -0,0 +1,301 @@
+#!/usr/bin/env bun
+/**
+ * RISC-V Disassembler CLI
+ *
+ * Usage: riscv-disasm <program> [--base addr] [--symbols file] [--data start:end]...
+ *                               [--no-pseudo] [--source] [-o output]
+ *
+ * Disassembles a raw binary, RISV executable or ELF file. The data of
+ * RISV executables and the non-executable segments of ELF files are
+ * printed as directives, as are the --data ranges. Symbols come from
+ * the ELF symbol table or a symbol map with one `<address> <name>` per
+ * line (nm output works too). Sized data symbols mark data in code too:
+ * ELF objects, and the symbols outside .text of a riscv-asm --map file.
+ * With --source the output is assembler source without addresses, which
+ * assembles back to the same bytes.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { DataRegion, disassembleProgram, formatDisassembly } from './disassembler.js';
+import { EXECUTABLE_MAGIC, HEADER_SIZE, parseExecutableHeader } from './program-loader.js';
+import { PF, STT, isElf, parseElf } from './elf.js';
+
+interface CliOptions {
+  programFile: string;
+  outputFile: string | null;
+  /** Address of the first byte of raw binaries and RISV code */
+  base: number;
+  symbolsFile: string | null;
+  dataRegions: DataRegion[];
+  pseudo: boolean;
+  /** Print assembler source rather than a listing with addresses */
+  source: boolean;
+}
+
+/** A piece of the program disassembled on its own */
+interface Image {
+  bytes: Uint8Array;
+  base: number;
+  dataRegions: DataRegion[];
+  /** Comment printed before the image */
+  title: string;
+}
+
+function parseNumber(text: string): number {
+  const value = /^0x/i.test(text) ? parseInt(text.slice(2), 16) : parseInt(text, 10);
+  return Number.isNaN(value) || value < 0 ? -1 : value;
+}
+
+function parseArgs(args: string[]): CliOptions | null {
+  const cliArgs = args.slice(2); // Skip bun and script path
+
+  if (cliArgs.length === 0) {
+    return null;
+  }
+
+  let programFile = '';
+  let outputFile: string | null = null;
+  let base = 0;
+  let symbolsFile: string | null = null;
+  const dataRegions: DataRegion[] = [];
+  let pseudo = true;
+  let source = false;
+
+  for (let i = 0; i < cliArgs.length; i++) {
+    const arg = cliArgs[i];
+
+    if (arg === '-o' || arg === '--output' || arg === '--base' || arg === '--symbols' || arg === '--data') {
+      if (i + 1 >= cliArgs.length) {
+        console.error(`Error: ${arg} requires a value`);
+        return null;
+      }
+      const value = cliArgs[++i];
+      if (arg === '--base') {
+        base = parseNumber(value);
+        if (base < 0) {
+          console.error(`Error: Invalid number for --base: ${value}`);
+          return null;
+        }
+      } else if (arg === '--data') {
+        const [start, end] = value.split(':').map(parseNumber);
+        if (start === undefined || end === undefined || start < 0 || end < start) {
+          console.error(`Error: --data must be start:end, got '${value}'`);
+          return null;
+        }
+        dataRegions.push({ start, end });
+      } else if (arg === '--symbols') {
+        symbolsFile = value;
+      } else {
+        outputFile = value;
+      }
+    } else if (arg === '--no-pseudo') {
+      pseudo = false;
+    } else if (arg === '--source') {
+      source = true;
+    } else if (arg === '-h' || arg === '--help') {
+      return null;
+    } else if (!arg.startsWith('-')) {
+      programFile = arg;
+    } else {
+      console.error(`Error: Unknown option '${arg}'`);
+      return null;
+    }
+  }
+
+  if (!programFile) {
+    console.error('Error: No program file specified');
+    return null;
+  }
+
+  return { programFile, outputFile, base, symbolsFile, dataRegions, pseudo, source };
+}
+
+function printUsage(): void {
+  console.log(`RISC-V Disassembler
+
+Usage: riscv-disasm <program> [options]
+
+Options:
+  -o, --output <file>  Output file (default: stdout)
+  --base <addr>        Load address of raw binaries and RISV executables (default: 0)
+  --symbols <file>     Symbol map, one "<address> <name>" per line; riscv-asm
+                       --map files also mark the data outside .text
+  --data <start:end>   Print an address range as data; may be repeated
+  --no-pseudo          Print base instructions rather than pseudo-instructions
+  --source             Print assembler source without addresses and bytes
+  -h, --help           Show this help message
+
+Examples:
+  riscv-disasm program.elf
+  riscv-disasm program.bin --base 0x1000 --symbols program.map
+  riscv-disasm boot.bin --data 0x100:0x200 --source > boot.asm`);
+}
+
+/**
+ * Parse a symbol map: one `<address> <name>` per line, with the address
+ * in hex. Other fields between the two (nm's symbol types) are ignored,
+ * as are blank lines and lines starting with #.
+ *
+ * @throws Error naming the first malformed line
+ */
+export function parseSymbolMap(text: string): Map<string, number> {
+  const symbols = new Map<string, number>();
+  text.split('\n').forEach((line, index) => {
+    const fields = line.trim().split(/\s+/);
+    if (fields[0] === '' || fields[0].startsWith('#')) {
+      return;
+    }
+    const address = parseInt(fields[0].replace(/^0x/i, ''), 16);
+    if (fields.length < 2 || !/^(0x)?[0-9a-f]+$/i.test(fields[0]) || Number.isNaN(address)) {
+      throw new Error(`line ${index + 1}: expected '<address> <name>'`);
+    }
+    symbols.set(fields[fields.length - 1], address);
+  });
+  return symbols;
+}
+
+/**
+ * Data regions of a symbol map in riscv-asm's --map form
+ * (`<address> <section> <size> <name>`): the extent of each symbol in a
+ * section other than .text. Maps without sections give none.
+ */
+export function symbolMapDataRegions(text: string): DataRegion[] {
+  const regions: DataRegion[] = [];
+  for (const line of text.split('\n')) {
+    const fields = line.trim().split(/\s+/);
+    if (fields.length !== 4 || !fields[1].startsWith('.') || /^\.text(\.|$)/.test(fields[1])) {
+      continue;
+    }
+    const start = parseInt(fields[0].replace(/^0x/i, ''), 16);
+    const size = parseInt(fields[2], 10);
+    if (!Number.isNaN(start) && size > 0) {
+      regions.push({ start, end: start + size });
+    }
+  }
+  return regions;
+}
+
+/**
+ * Split a program file into the images to disassemble, with the symbols
+ * it carries
+ */
+function readImages(data: Uint8Array, options: CliOptions): { images: Image[]; symbols: Map<string, number> } {
+  const hex = (value: number) => `0x${value.toString(16)}`;
+
+  if (isElf(data)) {
+    const elf = parseElf(data);
+    const symbols = new Map<string, number>();
+    for (const symbol of elf.symbols) {
+      if (symbol.name && symbol.type !== STT.SECTION && symbol.type !== STT.FILE) {
+        symbols.set(symbol.name, symbol.value);
+      }
+    }
+    const objects = elf.symbols
+      .filter(symbol => symbol.type === STT.OBJECT && symbol.size > 0)
+      .map(symbol => ({ start: symbol.value, end: symbol.value + symbol.size }));
+    const images = elf.segments
+      .filter(segment => segment.fileSize > 0)
+      .map(segment => {
+        const end = segment.vaddr + segment.fileSize;
+        const entry = segment.vaddr <= elf.entry && elf.entry < end ? `, entry ${hex(elf.entry)}` : '';
+        return {
+          bytes: data.subarray(segment.offset, segment.offset + segment.fileSize),
+          base: segment.vaddr,
+          dataRegions: segment.flags & PF.X ? [...options.dataRegions, ...objects] : [{ start: segment.vaddr, end }],
+          title: `segment at ${hex(segment.vaddr)}, ${segment.fileSize} bytes${entry}`,
+        };
+      });
+    return { images, symbols };
+  }
+
+  const magic = data.length >= 4 ? new DataView(data.buffer, data.byteOffset).getUint32(0, true) : 0;
+  if (magic === EXECUTABLE_MAGIC) {
+    const header = parseExecutableHeader(data);
+    const dataBase = options.base + header.codeSize;
+    return {
+      images: [{
+        bytes: data.subarray(HEADER_SIZE, HEADER_SIZE + header.codeSize + header.dataSize),
+        base: options.base,
+        dataRegions: [...options.dataRegions, { start: dataBase, end: dataBase + header.dataSize }],
+        title: `RISV executable: entry ${hex(options.base + header.entryOffset)}, ` +
+          `${header.codeSize} bytes code, ${header.dataSize} bytes data, ${header.bssSize} bytes bss`,
+      }],
+      symbols: new Map(),
+    };
+  }
+
+  return {
+    images: [{
+      bytes: data,
+      base: options.base,
+      dataRegions: options.dataRegions,
+      title: `${data.length} bytes at ${hex(options.base)}`,
+    }],
+    symbols: new Map(),
+  };
+}
+
+export function main(args: string[] = process.argv): number {
+  const options = parseArgs(args);
+
+  if (!options) {
+    printUsage();
+    return args.some(a => a === '-h' || a === '--help') ? 0 : 1;
+  }
+
+  let images: Image[];
+  let symbols: Map<string, number>;
+  try {
+    ({ images, symbols } = readImages(new Uint8Array(readFileSync(options.programFile)), options));
+  } catch (e) {
+    const err = e as NodeJS.ErrnoException;
+    console.error(`Error: ${err.code === 'ENOENT' ? `File not found: ${options.programFile}` : err.message}`);
+    return 1;
+  }
+
+  if (options.symbolsFile) {
+    try {
+      const text = readFileSync(options.symbolsFile, 'utf-8');
+      for (const [name, address] of parseSymbolMap(text)) {
+        symbols.set(name, address);
+      }
+      const regions = symbolMapDataRegions(text);
+      for (const image of images) {
+        image.dataRegions = [...image.dataRegions, ...regions];
+      }
+    } catch (e) {
+      const err = e as NodeJS.ErrnoException;
+      console.error(err.code === 'ENOENT'
+        ? `Error: File not found: ${options.symbolsFile}`
+        : `Error: ${options.symbolsFile}: ${err.message}`);
+      return 1;
+    }
+  }
+
+  const text = images.map(image => {
+    const lines = disassembleProgram(image.bytes, {
+      base: image.base,
+      symbols,
+      pseudo: options.pseudo,
+      dataRegions: image.dataRegions,
+    });
+    return `# ${image.title}\n${formatDisassembly(lines, !options.source)}`;
+  }).join('\n\n');
+
+  if (options.outputFile === null) {
+    console.log(text);
+    return 0;
+  }
+  try {
+    writeFileSync(options.outputFile, text + '\n');
+  } catch (e) {
+    console.error(`Error: Cannot write file: ${options.outputFile}`);
+    return 1;
+  }
+  return 0;
+}
+
+// Run if executed directly
+if (import.meta.main) {
+  process.exit(main());
+}
@@ -0,0 +1,755 @@
+/**
+ * RISC-V Disassembler
+ *
+ * Turns RV32IMAFDC + Zicsr instructions back into assembly text with
+ * ABI register names, e.g. `addi    a0, sp, 16`. Branch and jump
+ * targets are printed as absolute addresses, CSRs by name, and
+ * compressed instructions as their 32-bit expansion. Encodings the
+ * CPU would reject come out as `.word`/`.half` directives.
+ *
+ * Optionally, instructions are shown as the pseudo-instructions the
+ * assembler accepts (`li`, `mv`, `ret`, `j`, `nop`, ...) and targets by
+ * symbol name. disassembleProgram() goes further for whole images: it
+ * labels branch targets, joins `lui`/`auipc` pairs into `li`, `la`,
+ * `call` and `tail`, and prints data regions as directives, so that
+ * its output assembles back to the same bytes.
+ */
+
+import { OPCODE } from './cpu.js';
+import { CSR } from './csr.js';
+import { decodeInstruction, DecodedInstruction } from './decode-cache.js';
+import { expandCompressed, isCompressed } from './compressed.js';
+import { AMO_FUNCT5 } from './atomic.js';
+import { FP_FUNCT5 } from './fpu.js';
+
+/** ABI names of the integer registers */
+export const REGISTER_NAMES = [
+  'zero', 'ra', 'sp', 'gp', 'tp', 't0', 't1', 't2', 's0', 's1', 'a0', 'a1', 'a2', 'a3', 'a4', 'a5',
+  'a6', 'a7', 's2', 's3', 's4', 's5', 's6', 's7', 's8', 's9', 's10', 's11', 't3', 't4', 't5', 't6',
+] as const;
+
+/** ABI names of the floating-point registers */
+export const FP_REGISTER_NAMES = [
+  'ft0', 'ft1', 'ft2', 'ft3', 'ft4', 'ft5', 'ft6', 'ft7', 'fs0', 'fs1', 'fa0', 'fa1', 'fa2', 'fa3', 'fa4', 'fa5',
+  'fa6', 'fa7', 'fs2', 'fs3', 'fs4', 'fs5', 'fs6', 'fs7', 'fs8', 'fs9', 'fs10', 'fs11', 'ft8', 'ft9', 'ft10', 'ft11',
+] as const;
+
+/** Width the mnemonic is padded to before the operands */
+const MNEMONIC_WIDTH = 8;
+
+const CSR_NAMES = new Map<number, string>(
+  Object.entries(CSR).map(([name, number]) => [number, name.toLowerCase()])
+);
+
+const BRANCH_MNEMONICS: Record<number, string> = {
+  0b000: 'beq', 0b001: 'bne', 0b100: 'blt', 0b101: 'bge', 0b110: 'bltu', 0b111: 'bgeu',
+};
+const LOAD_MNEMONICS: Record<number, string> = {
+  0b000: 'lb', 0b001: 'lh', 0b010: 'lw', 0b100: 'lbu', 0b101: 'lhu',
+};
+const STORE_MNEMONICS: Record<number, string> = { 0b000: 'sb', 0b001: 'sh', 0b010: 'sw' };
+const ALU_IMM_MNEMONICS: Record<number, string> = {
+  0b000: 'addi', 0b010: 'slti', 0b011: 'sltiu', 0b100: 'xori', 0b110: 'ori', 0b111: 'andi',
+};
+const ALU_MNEMONICS: Record<number, string> = {
+  0b000: 'add', 0b001: 'sll', 0b010: 'slt', 0b011: 'sltu', 0b100: 'xor', 0b101: 'srl', 0b110: 'or', 0b111: 'and',
+};
+const MULDIV_MNEMONICS: Record<number, string> = {
+  0b000: 'mul', 0b001: 'mulh', 0b010: 'mulhsu', 0b011: 'mulhu',
+  0b100: 'div', 0b101: 'divu', 0b110: 'rem', 0b111: 'remu',
+};
+const CSR_MNEMONICS: Record<number, string> = {
+  0b001: 'csrrw', 0b010: 'csrrs', 0b011: 'csrrc', 0b101: 'csrrwi', 0b110: 'csrrsi', 0b111: 'csrrci',
+};
+const AMO_MNEMONICS: Record<number, string> = {
+  [AMO_FUNCT5.AMOADD]: 'amoadd', [AMO_FUNCT5.AMOSWAP]: 'amoswap', [AMO_FUNCT5.LR]: 'lr', [AMO_FUNCT5.SC]: 'sc',
+  [AMO_FUNCT5.AMOXOR]: 'amoxor', [AMO_FUNCT5.AMOOR]: 'amoor', [AMO_FUNCT5.AMOAND]: 'amoand',
+  [AMO_FUNCT5.AMOMIN]: 'amomin', [AMO_FUNCT5.AMOMAX]: 'amomax',
+  [AMO_FUNCT5.AMOMINU]: 'amominu', [AMO_FUNCT5.AMOMAXU]: 'amomaxu',
+};
+const FUSED_MNEMONICS: Record<number, string> = {
+  [OPCODE.MADD]: 'fmadd', [OPCODE.MSUB]: 'fmsub', [OPCODE.NMSUB]: 'fnmsub', [OPCODE.NMADD]: 'fnmadd',
+};
+const FP_ARITHMETIC_MNEMONICS: Record<number, string> = {
+  [FP_FUNCT5.FADD]: 'fadd', [FP_FUNCT5.FSUB]: 'fsub', [FP_FUNCT5.FMUL]: 'fmul', [FP_FUNCT5.FDIV]: 'fdiv',
+};
+const ROUNDING_MODE_NAMES = ['rne', 'rtz', 'rdn', 'rup', 'rmm'];
+const FENCE_SETS = ['', 'w', 'r', 'rw', 'o', 'ow', 'or', 'orw', 'i', 'iw', 'ir', 'irw', 'io', 'iow', 'ior', 'iorw'];
+
+/**
+ * Options for disassembling single instructions
+ */
+export interface InstructionOptions {
+  /** Show pseudo-instructions where the encoding allows (default false) */
+  pseudo?: boolean;
+  /** Name for a branch or jump target, or null to print its address */
+  symbolize?: (address: number) => string | null;
+}
+
+/** Format a value as hex */
+function hex(value: number): string {
+  return `0x${(value >>> 0).toString(16)}`;
+}
+
+/** Format a mnemonic and its operands */
+function format(mnemonic: string, ...operands: Array<string | number>): string {
+  if (operands.length === 0) {
+    return mnemonic;
+  }
+  return `${mnemonic.padEnd(MNEMONIC_WIDTH - 1)} ${operands.join(', ')}`;
+}
+
+/** Name of a CSR, or its number for CSRs this machine does not know */
+function csrName(csr: number): string {
+  return CSR_NAMES.get(csr) ?? hex(csr);
+}
+
+/**
+ * Disassemble one instruction at a given address
+ *
+ * @param instruction The instruction bits; a compressed instruction
+ *   only uses the low 16 bits
+ * @param pc Address of the instruction, for branch and jump targets
+ */
+export function disassemble(instruction: number, pc: number = 0, options: InstructionOptions = {}): string {
+  const decoded = decode(instruction);
+  return decoded === null ? format('.half', hex(instruction & 0xffff)) : disassembleDecoded(decoded, pc, options);
+}
+
+/**
+ * Disassemble an already decoded instruction
+ */
+export function disassembleDecoded(decoded: DecodedInstruction, pc: number = 0, options: InstructionOptions = {}): string {
+  const symbolize = options.symbolize;
+  const target = symbolize ? (address: number) => symbolize(address >>> 0) ?? hex(address) : hex;
+  return (options.pseudo ? pseudoInstruction(decoded, pc, target) : null) ??
+    disassembleFields(decoded, pc, target) ??
+    (decoded.length === 2 ? format('.half', hex(decoded.raw & 0xffff)) : format('.word', hex(decoded.raw)));
+}
+
+/**
+ * Decode instruction bits, expanding compressed instructions; null for
+ * compressed encodings with no expansion
+ */
+function decode(instruction: number): DecodedInstruction | null {
+  if (isCompressed(instruction)) {
+    const expanded = expandCompressed(instruction & 0xffff);
+    return expanded === 0 ? null : decodeInstruction(expanded, 2);
+  }
+  return decodeInstruction(instruction >>> 0);
+}
+
+/**
+ * Text of a decoded instruction, or null for illegal encodings
+ *
+ * @param target Formats a branch or jump target address
+ */
+function disassembleFields(decoded: DecodedInstruction, pc: number, target: (address: number) => string): string | null {
+  const { raw, opcode, rd, funct3, rs1, rs2, funct7, imm } = decoded;
+  const x = REGISTER_NAMES;
+
+  switch (opcode) {
+    case OPCODE.LUI:
+      return format('lui', x[rd], hex(imm >>> 12));
+    case OPCODE.AUIPC:
+      return format('auipc', x[rd], hex(imm >>> 12));
+    case OPCODE.JAL:
+      return format('jal', x[rd], target(pc + imm));
+    case OPCODE.JALR:
+      return funct3 === 0 ? format('jalr', x[rd], `${imm}(${x[rs1]})`) : null;
+    case OPCODE.BRANCH: {
+      const mnemonic = BRANCH_MNEMONICS[funct3];
+      return mnemonic ? format(mnemonic, x[rs1], x[rs2], target(pc + imm)) : null;
+    }
+    case OPCODE.LOAD: {
+      const mnemonic = LOAD_MNEMONICS[funct3];
+      return mnemonic ? format(mnemonic, x[rd], `${imm}(${x[rs1]})`) : null;
+    }
+    case OPCODE.STORE: {
+      const mnemonic = STORE_MNEMONICS[funct3];
+      return mnemonic ? format(mnemonic, x[rs2], `${imm}(${x[rs1]})`) : null;
+    }
+    case OPCODE.OP_IMM:
+      if (funct3 === 0b001) {
+        return funct7 === 0 ? format('slli', x[rd], x[rs1], rs2) : null;
+      }
+      if (funct3 === 0b101) {
+        if (funct7 !== 0 && funct7 !== 0x20) {
+          return null;
+        }
+        return format(funct7 === 0 ? 'srli' : 'srai', x[rd], x[rs1], rs2);
+      }
+      return format(ALU_IMM_MNEMONICS[funct3], x[rd], x[rs1], imm);
+    case OPCODE.OP: {
+      let mnemonic: string | undefined;
+      if (funct7 === 0x01) {
+        mnemonic = MULDIV_MNEMONICS[funct3];
+      } else if (funct7 === 0) {
+        mnemonic = ALU_MNEMONICS[funct3];
+      } else if (funct7 === 0x20 && (funct3 === 0b000 || funct3 === 0b101)) {
+        mnemonic = funct3 === 0b000 ? 'sub' : 'sra';
+      }
+      return mnemonic ? format(mnemonic, x[rd], x[rs1], x[rs2]) : null;
+    }
+    case OPCODE.FENCE:
+      if (funct3 === 0b001) {
+        return 'fence.i';
+      }
+      if (funct3 !== 0) {
+        return null;
+      }
+      if (((raw >>> 20) & 0xff) === 0xff) {
+        return 'fence';
+      }
+      return format('fence', FENCE_SETS[(raw >>> 24) & 0xf], FENCE_SETS[(raw >>> 20) & 0xf]);
+    case OPCODE.SYSTEM:
+      return disassembleSystem(decoded);
+    case OPCODE.AMO:
+      return disassembleAtomic(decoded);
+    case OPCODE.LOAD_FP:
+    case OPCODE.STORE_FP: {
+      const width = funct3 === 0b010 ? 'w' : funct3 === 0b011 ? 'd' : null;
+      if (width === null) {
+        return null;
+      }
+      return opcode === OPCODE.LOAD_FP
+        ? format(`fl${width}`, FP_REGISTER_NAMES[rd], `${imm}(${x[rs1]})`)
+        : format(`fs${width}`, FP_REGISTER_NAMES[rs2], `${imm}(${x[rs1]})`);
+    }
+    case OPCODE.MADD:
+    case OPCODE.MSUB:
+    case OPCODE.NMSUB:
+    case OPCODE.NMADD: {
+      const fmt = (raw >>> 25) & 0x3;
+      if (fmt > 1) {
+        return null;
+      }
+      const f = FP_REGISTER_NAMES;
+      return withRoundingMode(
+        format(`${FUSED_MNEMONICS[opcode]}.${fmt ? 'd' : 's'}`, f[rd], f[rs1], f[rs2], f[raw >>> 27]),
+        funct3
+      );
+    }
+    case OPCODE.OP_FP:
+      return disassembleFloat(decoded);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Text of an instruction as the pseudo-instruction the assembler would
+ * encode it from, or null when it has none
+ */
+function pseudoInstruction(decoded: DecodedInstruction, pc: number, target: (address: number) => string): string | null {
+  const { raw, opcode, rd, funct3, rs1, rs2, funct7, imm } = decoded;
+  const x = REGISTER_NAMES;
+
+  switch (opcode) {
+    case OPCODE.OP_IMM:
+      if (funct3 === 0b000) {
+        if (rd === 0 && rs1 === 0 && imm === 0) {
+          return 'nop';
+        }
+        if (rs1 === 0) {
+          return format('li', x[rd], imm);
+        }
+        return imm === 0 ? format('mv', x[rd], x[rs1]) : null;
+      }
+      if (funct3 === 0b100 && imm === -1) {
+        return format('not', x[rd], x[rs1]);
+      }
+      return funct3 === 0b011 && imm === 1 ? format('seqz', x[rd], x[rs1]) : null;
+    case OPCODE.OP:
+      if (rs1 !== 0) {
+        return null;
+      }
+      // The expansion of c.mv
+      if (funct7 === 0 && funct3 === 0b000) {
+        return format('mv', x[rd], x[rs2]);
+      }
+      if (funct7 === 0x20 && funct3 === 0b000) {
+        return format('neg', x[rd], x[rs2]);
+      }
+      return funct7 === 0 && funct3 === 0b011 ? format('snez', x[rd], x[rs2]) : null;
+    case OPCODE.JAL:
+      return rd === 0 ? format('j', target(pc + imm)) : null;
+    case OPCODE.JALR:
+      if (funct3 !== 0 || rd !== 0 || imm !== 0) {
+        return null;
+      }
+      return rs1 === 1 ? 'ret' : format('jr', x[rs1]);
+    case OPCODE.BRANCH:
+      if (rs2 !== 0 || funct3 > 0b001) {
+        return null;
+      }
+      return format(funct3 === 0b000 ? 'beqz' : 'bnez', x[rs1], target(pc + imm));
+    case OPCODE.SYSTEM: {
+      const mnemonic = CSR_MNEMONICS[funct3];
+      if (!mnemonic) {
+        return null;
+      }
+      const csr = csrName(raw >>> 20);
+      if (funct3 === 0b010 && rs1 === 0) {
+        return format('csrr', x[rd], csr);
+      }
+      // csrrw zero, csr, rs = csrw csr, rs, and so on
+      return rd === 0 ? format(`csr${mnemonic.slice(4)}`, csr, funct3 & 0b100 ? rs1 : x[rs1]) : null;
+    }
+    case OPCODE.OP_FP: {
+      const fmt = (raw >>> 25) & 0x3;
+      const name = ['fmv', 'fneg', 'fabs'][funct3];
+      if (raw >>> 27 !== FP_FUNCT5.FSGNJ || fmt > 1 || rs1 !== rs2 || !name) {
+        return null;
+      }
+      return format(`${name}.${fmt ? 'd' : 's'}`, FP_REGISTER_NAMES[rd], FP_REGISTER_NAMES[rs1]);
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Append a static rounding mode; null for the reserved ones
+ */
+function withRoundingMode(text: string | null, rm: number): string | null {
+  if (text === null || rm === 0b111) {
+    return text;
+  }
+  return rm < ROUNDING_MODE_NAMES.length ? `${text}, ${ROUNDING_MODE_NAMES[rm]}` : null;
+}
+
+/**
+ * Disassemble an instruction with the SYSTEM opcode
+ */
+function disassembleSystem(decoded: DecodedInstruction): string | null {
+  const { raw, rd, funct3, rs1, rs2, funct7 } = decoded;
+  const x = REGISTER_NAMES;
+
+  if (funct3 !== 0) {
+    const mnemonic = CSR_MNEMONICS[funct3];
+    if (!mnemonic) {
+      return null;
+    }
+    const source = funct3 & 0b100 ? rs1 : x[rs1];
+    return format(mnemonic, x[rd], csrName(raw >>> 20), source);
+  }
+
+  if (funct7 === 0b0001001 && rd === 0) {
+    return format('sfence.vma', x[rs1], x[rs2]);
+  }
+  if (rd !== 0 || rs1 !== 0) {
+    return null;
+  }
+  switch (raw >>> 20) {
+    case 0x000:
+      return 'ecall';
+    case 0x001:
+      return 'ebreak';
+    case 0x102:
+      return 'sret';
+    case 0x302:
+      return 'mret';
+    case 0x105:
+      return 'wfi';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Disassemble an RV32A instruction
+ */
+function disassembleAtomic(decoded: DecodedInstruction): string | null {
+  const { raw, rd, funct3, rs1, rs2 } = decoded;
+  const x = REGISTER_NAMES;
+  const funct5 = raw >>> 27;
+  const name = AMO_MNEMONICS[funct5];
+  if (funct3 !== 0b010 || !name || (funct5 === AMO_FUNCT5.LR && rs2 !== 0)) {
+    return null;
+  }
+
+  const ordering = ['', '.rl', '.aq', '.aqrl'][(raw >>> 25) & 0x3];
+  const mnemonic = `${name}.w${ordering}`;
+  return funct5 === AMO_FUNCT5.LR
+    ? format(mnemonic, x[rd], `(${x[rs1]})`)
+    : format(mnemonic, x[rd], x[rs2], `(${x[rs1]})`);
+}
+
+/**
+ * Disassemble an OP-FP instruction
+ */
+function disassembleFloat(decoded: DecodedInstruction): string | null {
+  const { raw, rd, funct3, rs1, rs2 } = decoded;
+  const x = REGISTER_NAMES;
+  const f = FP_REGISTER_NAMES;
+  const fmt = (raw >>> 25) & 0x3;
+  if (fmt > 1) {
+    return null;
+  }
+  const suffix = fmt ? 'd' : 's';
+  const funct5 = raw >>> 27;
+
+  switch (funct5) {
+    case FP_FUNCT5.FADD:
+    case FP_FUNCT5.FSUB:
+    case FP_FUNCT5.FMUL:
+    case FP_FUNCT5.FDIV:
+      return withRoundingMode(format(`${FP_ARITHMETIC_MNEMONICS[funct5]}.${suffix}`, f[rd], f[rs1], f[rs2]), funct3);
+    case FP_FUNCT5.FSQRT:
+      return rs2 === 0 ? withRoundingMode(format(`fsqrt.${suffix}`, f[rd], f[rs1]), funct3) : null;
+    case FP_FUNCT5.FSGNJ: {
+      const name = ['fsgnj', 'fsgnjn', 'fsgnjx'][funct3];
+      return name ? format(`${name}.${suffix}`, f[rd], f[rs1], f[rs2]) : null;
+    }
+    case FP_FUNCT5.FMINMAX: {
+      const name = ['fmin', 'fmax'][funct3];
+      return name ? format(`${name}.${suffix}`, f[rd], f[rs1], f[rs2]) : null;
+    }
+    case FP_FUNCT5.FCVT_FMT_FMT:
+      // fmt is the destination, rs2 the source format
+      if (rs2 !== (fmt ^ 1)) {
+        return null;
+      }
+      return withRoundingMode(format(fmt ? 'fcvt.d.s' : 'fcvt.s.d', f[rd], f[rs1]), funct3);
+    case FP_FUNCT5.FCMP: {
+      const name = ['fle', 'flt', 'feq'][funct3];
+      return name ? format(`${name}.${suffix}`, x[rd], f[rs1], f[rs2]) : null;
+    }
+    case FP_FUNCT5.FCVT_W_FMT:
+      return rs2 < 2 ? withRoundingMode(format(`fcvt.${rs2 ? 'wu' : 'w'}.${suffix}`, x[rd], f[rs1]), funct3) : null;
+    case FP_FUNCT5.FCVT_FMT_W:
+      return rs2 < 2 ? withRoundingMode(format(`fcvt.${suffix}.${rs2 ? 'wu' : 'w'}`, f[rd], x[rs1]), funct3) : null;
+    case FP_FUNCT5.FMV_X_FCLASS:
+      if (rs2 !== 0) {
+        return null;
+      }
+      if (funct3 === 0b001) {
+        return format(`fclass.${suffix}`, x[rd], f[rs1]);
+      }
+      return funct3 === 0 && fmt === 0 ? format('fmv.x.w', x[rd], f[rs1]) : null;
+    case FP_FUNCT5.FMV_FMT_X:
+      return rs2 === 0 && funct3 === 0 && fmt === 0 ? format('fmv.w.x', f[rd], x[rs1]) : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * A range of addresses holding data rather than code; end is exclusive
+ */
+export interface DataRegion {
+  start: number;
+  end: number;
+}
+
+/**
+ * Options for disassembling a program image
+ */
+export interface ProgramOptions {
+  /** Address of the first byte (default 0) */
+  base?: number;
+  /** Symbol addresses by name, as the assembler and linker return them */
+  symbols?: Map<string, number>;
+  /** Show pseudo-instructions (default true) */
+  pseudo?: boolean;
+  /** Ranges printed as .word/.half/.byte directives */
+  dataRegions?: DataRegion[];
+}
+
+/**
+ * One line of a disassembled program
+ */
+export interface DisassembledLine {
+  address: number;
+  /** The bytes the line stands for; empty for directives and for labels at the end of the image */
+  bytes: Uint8Array;
+  /** Labels defined at the address */
+  labels: string[];
+  /** Assembly text */
+  text: string;
+}
+
+/** An instruction, or data when decoded is null */
+interface Item {
+  address: number;
+  size: number;
+  decoded: DecodedInstruction | null;
+}
+
+/** Data directives by size in bytes */
+const DATA_DIRECTIVES = ['', '.byte', '.half', '', '.word'];
+
+/** Shortest run of zero bytes printed as one .zero directive */
+const MIN_ZERO_RUN = 8;
+
+/**
+ * Disassemble a program image
+ *
+ * Code is decoded in a linear sweep; zero halfwords in it, which are no
+ * instruction, are taken as padding and printed as data. Runs of zero
+ * bytes in data become one `.zero`. Labels are defined for the symbols
+ * and for every branch, jump and `la` target inside the image that has
+ * none, named after their address (`L00001008`). With pseudo-instructions,
+ * the output assembles back to the same bytes; compressed instructions
+ * come out as their 32-bit expansion after an `.option rvc`, and an
+ * `.option norvc` comes before 32-bit instructions that have a compressed
+ * form. The exceptions are hand-written forms of what the assembler
+ * emits another way: a 32-bit `add rd, zero, rs` comes back as `mv` (an
+ * addi), a `lui rd, 0` pair with no label as one addi, and compressed
+ * branches and jumps as 32-bit ones, since the assembler does not
+ * compress instructions that refer to labels.
+ */
+export function disassembleProgram(bytes: Uint8Array, options: ProgramOptions = {}): DisassembledLine[] {
+  const base = options.base ?? 0;
+  const end = base + bytes.length;
+  const pseudo = options.pseudo ?? true;
+  const regions = [...(options.dataRegions ?? [])].sort((a, b) => a.start - b.start);
+  const read = (address: number, size: number): number => {
+    let value = 0;
+    for (let i = size - 1; i >= 0; i--) {
+      value = (value << 8) | bytes[address - base + i];
+    }
+    return value >>> 0;
+  };
+
+  // Split the image into instructions and data
+  const items: Item[] = [];
+  let address = base;
+  while (address < end) {
+    const region = regions.find(r => address >= r.start && address < r.end);
+    if (region) {
+      const stop = Math.min(region.end, end);
+      items.push({ address, size: stop - address, decoded: null });
+      address = stop;
+      continue;
+    }
+    const next = regions.find(r => r.start > address);
+    const room = Math.min(end, next ? next.start : end) - address;
+    if (room >= 2 && read(address, 2) === 0) {
+      let size = 2;
+      while (size + 2 <= room && read(address + size, 2) === 0) {
+        size += 2;
+      }
+      items.push({ address, size, decoded: null });
+      address += size;
+      continue;
+    }
+    const size = room >= 2 && isCompressed(bytes[address - base]) ? 2 : 4;
+    const decoded = size <= room ? decode(read(address, size)) : null;
+    items.push({ address, size: Math.min(size, room), decoded });
+    address += Math.min(size, room);
+  }
+
+  // Labels go where a line can start: at instructions and anywhere in data
+  const starts = new Set(items.filter(item => item.decoded).map(item => item.address));
+  const inData = (address: number) => items.some(item =>
+    !item.decoded && address >= item.address && address < item.address + item.size);
+  const canLabel = (address: number) => starts.has(address) || inData(address) || address === end;
+
+  const symbols = new Map<number, string[]>();
+  for (const [name, value] of options.symbols ?? []) {
+    symbols.set(value >>> 0, [...(symbols.get(value >>> 0) ?? []), name]);
+  }
+  const labels = new Map<number, string[]>();
+  for (const [address, names] of symbols) {
+    if (address >= base && address <= end && canLabel(address)) {
+      labels.set(address, names);
+    }
+  }
+  items.forEach((item, i) => {
+    const target = item.decoded && targetOf(item, items[i + 1]);
+    if (target !== null && target >= base && target <= end && canLabel(target) && !labels.has(target)) {
+      labels.set(target, [`L${target.toString(16).padStart(8, '0')}`]);
+    }
+  });
+  const symbolize = (address: number) => (labels.get(address) ?? symbols.get(address))?.[0] ?? null;
+
+  // 32-bit instructions the assembler compresses under `.option rvc`;
+  // branches and jumps refer to labels, which it never compresses
+  const expansions = items.some(item => item.decoded && item.size === 2) ? compressedExpansions() : null;
+  const hasCompressedForm = (item: Item) => item.size === 4 && expansions!.has(item.decoded!.raw >>> 0) &&
+    item.decoded!.opcode !== OPCODE.JAL && item.decoded!.opcode !== OPCODE.BRANCH;
+  let rvc = false;
+
+  const lines: DisassembledLine[] = [];
+  const line = (address: number, size: number, text: string): DisassembledLine => ({
+    address,
+    bytes: bytes.subarray(address - base, address - base + size),
+    labels: labels.get(address) ?? [],
+    text,
+  });
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+    if (!item.decoded) {
+      // One directive per aligned word, halfword or byte, or per run of
+      // zeros, split at labels
+      const stop = item.address + item.size;
+      for (let address = item.address; address < stop;) {
+        let zeros = 0;
+        while (address + zeros < stop && bytes[address + zeros - base] === 0 &&
+          (zeros === 0 || !labels.has(address + zeros))) {
+          zeros++;
+        }
+        if (zeros >= MIN_ZERO_RUN) {
+          lines.push(line(address, zeros, format('.zero', zeros)));
+          address += zeros;
+          continue;
+        }
+        let size = address % 4 === 0 ? 4 : address % 2 === 0 ? 2 : 1;
+        while (size > 1 && (address + size > stop || [1, 2, 3].some(k => k < size && labels.has(address + k)))) {
+          size >>= 1;
+        }
+        lines.push(line(address, size, format(DATA_DIRECTIVES[size], hex(read(address, size)))));
+        address += size;
+      }
+      continue;
+    }
+
+    const next = items[i + 1];
+    const pair = pseudo && next?.decoded && !labels.has(next.address)
+      ? pairedPseudoInstruction(item, next, symbolize)
+      : null;
+    const group = pair ? [item, next] : [item];
+    if (expansions !== null && group.some(member => member.size === 2) !== rvc &&
+      (!rvc || group.some(hasCompressedForm))) {
+      rvc = !rvc;
+      lines.push({ address: item.address, bytes: bytes.subarray(0, 0), labels: [], text: format('.option', rvc ? 'rvc' : 'norvc') });
+    }
+    if (pair) {
+      lines.push(line(item.address, item.size + next.size, pair));
+      i++;
+    } else {
+      lines.push(line(item.address, item.size, disassembleDecoded(item.decoded, item.address, { pseudo, symbolize })));
+    }
+  }
+  if (labels.has(end)) {
+    lines.push(line(end, 0, ''));
+  }
+  return lines;
+}
+
+/**
+ * The 32-bit instructions that compressed ones expand to
+ */
+function compressedExpansions(): Set<number> {
+  const expansions = new Set<number>();
+  for (let parcel = 0; parcel < 0x10000; parcel++) {
+    const expanded = isCompressed(parcel) ? expandCompressed(parcel) : 0;
+    if (expanded !== 0) {
+      expansions.add(expanded >>> 0);
+    }
+  }
+  return expansions;
+}
+
+/**
+ * Address an instruction refers to: a branch or jump target, or the
+ * address an auipc forms with the instruction after it
+ */
+function targetOf(item: Item, next: Item | undefined): number | null {
+  const { opcode, rd, imm } = item.decoded!;
+  switch (opcode) {
+    case OPCODE.JAL:
+    case OPCODE.BRANCH:
+      return (item.address + imm) >>> 0;
+    case OPCODE.AUIPC:
+      return next?.decoded && next.decoded.rs1 === rd ? (item.address + imm + next.decoded.imm) >>> 0 : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Text of two instructions as the one pseudo-instruction that expands to
+ * them (`li`, `la`, `call`, `tail`), or null
+ *
+ * `la`, `call` and `tail` need a label for the target. A `lui rd, 0`
+ * pair is what `li` of a label or constant defined further on comes to;
+ * it is shown as `li` of the label if there is one there.
+ */
+function pairedPseudoInstruction(
+  first: Item,
+  second: Item,
+  symbolize: (address: number) => string | null
+): string | null {
+  const upper = first.decoded!;
+  const lower = second.decoded!;
+  const x = REGISTER_NAMES;
+  if (upper.rd === 0 || lower.rs1 !== upper.rd) {
+    return null;
+  }
+  const isAddi = lower.opcode === OPCODE.OP_IMM && lower.funct3 === 0b000 && lower.rd === upper.rd;
+  const value = (upper.imm + lower.imm) | 0;
+
+  if (upper.opcode === OPCODE.LUI) {
+    if (!isAddi) {
+      return null;
+    }
+    if (upper.imm === 0) {
+      return format('li', x[upper.rd], symbolize(value >>> 0) ?? value);
+    }
+    return format('li', x[upper.rd], value < 0 ? value : hex(value));
+  }
+  if (upper.opcode !== OPCODE.AUIPC) {
+    return null;
+  }
+  const name = symbolize((first.address + value) >>> 0);
+  if (name === null) {
+    return null;
+  }
+  if (isAddi) {
+    return format('la', x[upper.rd], name);
+  }
+  if (lower.opcode !== OPCODE.JALR || lower.funct3 !== 0) {
+    return null;
+  }
+  if (upper.rd === 1 && lower.rd === 1) {
+    return format('call', name);
+  }
+  return upper.rd === 6 && lower.rd === 0 ? format('tail', name) : null;
+}
+
+/**
+ * Format disassembled lines as text, one instruction per line with its
+ * labels on lines of their own
+ *
+ * @param addresses Show the address and bytes of each line; without
+ *   them the text is assembler source
+ */
+export function formatDisassembly(lines: DisassembledLine[], addresses: boolean = true): string {
+  const out: string[] = [];
+  for (const line of lines) {
+    for (const label of line.labels) {
+      out.push(`${label}:`);
+    }
+    if (line.bytes.length === 0) {
+      if (line.text !== '') {
+        out.push(`${' '.repeat(addresses ? 31 : 4)}${line.text}`);
+      }
+      continue;
+    }
+    if (!addresses) {
+      out.push(`    ${line.text}`);
+      continue;
+    }
+    // Bytes as little-endian words, as the instructions read; runs of
+    // zeros show their first word
+    const words: string[] = [];
+    const shown = line.bytes.length > 8 ? 4 : line.bytes.length;
+    for (let i = 0; i < shown;) {
+      const size = Math.min(4, shown - i);
+      let value = 0;
+      for (let k = size - 1; k >= 0; k--) {
+        value = (value << 8) | line.bytes[i + k];
+      }
+      words.push((value >>> 0).toString(16).padStart(size * 2, '0'));
+      i += size;
+    }
+    if (shown < line.bytes.length) {
+      words.push('...');
+    }
+    out.push(`  ${line.address.toString(16).padStart(8, '0')}  ${words.join(' ').padEnd(17)}  ${line.text}`);
+  }
+  return out.join('\n');
+}
@@ -0,0 +1,432 @@
+/**
+ * ELF32 Executables
+ *
+ * Parses statically linked, little-endian ELF32 RISC-V executables: the
+ * PT_LOAD program headers that describe the memory image, the entry
+ * point, and the symbol table, which is kept for debuggers. buildElf()
+ * writes such executables for the linker.
+ */
+
+/** Magic number for ELF files (little-endian "\x7fELF") */
+export const ELF_MAGIC = 0x464c457f;
+
+/** Size of the ELF32 file header in bytes */
+export const ELF_HEADER_SIZE = 0x34;
+
+/**
+ * ELF32 file header offsets
+ */
+const EHDR = {
+  CLASS: 0x04,      // 1 byte
+  DATA: 0x05,       // 1 byte
+  TYPE: 0x10,       // 2 bytes
+  MACHINE: 0x12,    // 2 bytes
+  VERSION: 0x14,    // 4 bytes
+  ENTRY: 0x18,      // 4 bytes
+  PHOFF: 0x1C,      // 4 bytes
+  SHOFF: 0x20,      // 4 bytes
+  EHSIZE: 0x28,     // 2 bytes
+  PHENTSIZE: 0x2A,  // 2 bytes
+  PHNUM: 0x2C,      // 2 bytes
+  SHENTSIZE: 0x2E,  // 2 bytes
+  SHNUM: 0x30,      // 2 bytes
+  SHSTRNDX: 0x32,   // 2 bytes
+} as const;
+
+/**
+ * ELF32 program header offsets
+ */
+const PHDR = {
+  TYPE: 0x00,
+  OFFSET: 0x04,
+  VADDR: 0x08,
+  PADDR: 0x0C,
+  FILESZ: 0x10,
+  MEMSZ: 0x14,
+  FLAGS: 0x18,
+  ALIGN: 0x1C,
+  SIZE: 0x20,
+} as const;
+
+/**
+ * ELF32 section header offsets
+ */
+const SHDR = {
+  NAME: 0x00,
+  TYPE: 0x04,
+  OFFSET: 0x10,
+  SIZE: 0x14,
+  LINK: 0x18,
+  INFO: 0x1C,
+  ADDRALIGN: 0x20,
+  ENTSIZE: 0x24,
+  SIZE_OF: 0x28,
+} as const;
+
+/**
+ * ELF32 symbol table entry offsets
+ */
+const SYM = {
+  NAME: 0x00,
+  VALUE: 0x04,
+  SIZE: 0x08,
+  INFO: 0x0C,
+  SHNDX: 0x0E,
+  SIZE_OF: 0x10,
+} as const;
+
+/**
+ * Header field values this loader accepts or looks for
+ */
+export const ELF = {
+  CLASS_32: 1,
+  DATA_LSB: 2,
+  TYPE_EXEC: 2,
+  MACHINE_RISCV: 243,
+  PT_LOAD: 1,
+  PT_INTERP: 3,
+  SHT_SYMTAB: 2,
+  SHT_STRTAB: 3,
+  /** Section index of absolute symbols */
+  SHN_ABS: 0xfff1,
+} as const;
+
+/**
+ * Segment permission flags (p_flags)
+ */
+export const PF = {
+  X: 1,
+  W: 2,
+  R: 4,
+} as const;
+
+/**
+ * Symbol types (low nibble of st_info)
+ */
+export const STT = {
+  NOTYPE: 0,
+  OBJECT: 1,
+  FUNC: 2,
+  SECTION: 3,
+  FILE: 4,
+} as const;
+
+/**
+ * Symbol bindings (high nibble of st_info)
+ */
+export const STB = {
+  LOCAL: 0,
+  GLOBAL: 1,
+  WEAK: 2,
+} as const;
+
+/**
+ * A PT_LOAD segment
+ */
+export interface ElfSegment {
+  /** Virtual address of the first byte */
+  vaddr: number;
+  /** Offset of the initialised bytes in the file */
+  offset: number;
+  /** Number of bytes copied from the file */
+  fileSize: number;
+  /** Size in memory; bytes past fileSize are zeroed (BSS) */
+  memSize: number;
+  /** PF permission flags */
+  flags: number;
+}
+
+/**
+ * A named symbol from .symtab
+ */
+export interface ElfSymbol {
+  name: string;
+  value: number;
+  size: number;
+  /** STT symbol type */
+  type: number;
+  /** STB symbol binding */
+  binding: number;
+}
+
+/**
+ * The parts of an executable needed to load and debug it
+ */
+export interface ElfImage {
+  entry: number;
+  segments: ElfSegment[];
+  symbols: ElfSymbol[];
+}
+
+/**
+ * A segment to write: its initialised bytes, zero-extended to memSize
+ */
+export interface ElfSegmentData {
+  vaddr: number;
+  data: Uint8Array;
+  memSize: number;
+  /** PF permission flags */
+  flags: number;
+}
+
+/**
+ * Check whether a file starts with the ELF magic number
+ */
+export function isElf(data: Uint8Array): boolean {
+  return data.length >= 4 && readWord(data, 0) === ELF_MAGIC;
+}
+
+/**
+ * Parse a statically linked ELF32 RISC-V executable
+ */
+export function parseElf(data: Uint8Array): ElfImage {
+  if (data.length < ELF_HEADER_SIZE || !isElf(data)) {
+    throw new Error('Invalid executable: not an ELF file');
+  }
+  if (data[EHDR.CLASS] !== ELF.CLASS_32 || data[EHDR.DATA] !== ELF.DATA_LSB) {
+    throw new Error('Invalid executable: not a little-endian ELF32 file');
+  }
+  if (readHalf(data, EHDR.MACHINE) !== ELF.MACHINE_RISCV) {
+    throw new Error('Invalid executable: not a RISC-V ELF file');
+  }
+  if (readHalf(data, EHDR.TYPE) !== ELF.TYPE_EXEC) {
+    throw new Error('Invalid executable: not a statically linked ELF executable');
+  }
+
+  const segments: ElfSegment[] = [];
+  const phoff = readWord(data, EHDR.PHOFF);
+  const phentsize = readHalf(data, EHDR.PHENTSIZE);
+  const phnum = readHalf(data, EHDR.PHNUM);
+  if (phnum > 0 && (phentsize < PHDR.SIZE || phoff + phnum * phentsize > data.length)) {
+    throw new Error('Invalid executable: truncated program headers');
+  }
+
+  for (let i = 0; i < phnum; i++) {
+    const header = phoff + i * phentsize;
+    const type = readWord(data, header + PHDR.TYPE);
+    if (type === ELF.PT_INTERP) {
+      throw new Error('Invalid executable: dynamically linked ELF files are not supported');
+    }
+    if (type !== ELF.PT_LOAD) {
+      continue;
+    }
+
+    const segment: ElfSegment = {
+      vaddr: readWord(data, header + PHDR.VADDR),
+      offset: readWord(data, header + PHDR.OFFSET),
+      fileSize: readWord(data, header + PHDR.FILESZ),
+      memSize: readWord(data, header + PHDR.MEMSZ),
+      flags: readWord(data, header + PHDR.FLAGS),
+    };
+    if (segment.fileSize > segment.memSize || segment.offset + segment.fileSize > data.length) {
+      throw new Error(`Invalid executable: bad segment at 0x${segment.vaddr.toString(16)}`);
+    }
+    segments.push(segment);
+  }
+
+  if (segments.length === 0) {
+    throw new Error('Invalid executable: no loadable segments');
+  }
+
+  return {
+    entry: readWord(data, EHDR.ENTRY),
+    segments,
+    symbols: readSymbols(data),
+  };
+}
+
+/**
+ * Write a statically linked ELF32 RISC-V executable
+ *
+ * The file holds one PT_LOAD segment per entry and a .symtab with the
+ * symbols as absolute values; there are no section headers for the
+ * segments themselves.
+ */
+export function buildElf(entry: number, segments: ElfSegmentData[], symbols: ElfSymbol[] = []): Uint8Array {
+  const phoff = ELF_HEADER_SIZE;
+  let offset = phoff + segments.length * PHDR.SIZE;
+  const placed = segments.map((segment) => {
+    const at = align4(offset);
+    offset = at + segment.data.length;
+    return at;
+  });
+
+  // .symtab lists local symbols before global ones
+  const ordered = [...symbols].sort((a, b) => Number(a.binding !== STB.LOCAL) - Number(b.binding !== STB.LOCAL));
+  const firstGlobal = 1 + ordered.filter(symbol => symbol.binding === STB.LOCAL).length;
+  let strtab = '\0';
+  const names = ordered.map((symbol) => {
+    const at = strtab.length;
+    strtab += `${symbol.name}\0`;
+    return at;
+  });
+  const shstrtab = '\0.symtab\0.strtab\0.shstrtab\0';
+
+  const symtabOffset = align4(offset);
+  const symtabSize = (ordered.length + 1) * SYM.SIZE_OF;
+  const strtabOffset = symtabOffset + symtabSize;
+  const shstrtabOffset = strtabOffset + strtab.length;
+  const shoff = align4(shstrtabOffset + shstrtab.length);
+  const file = new Uint8Array(shoff + 4 * SHDR.SIZE_OF);
+
+  file.set([0x7f, 0x45, 0x4c, 0x46, ELF.CLASS_32, ELF.DATA_LSB, 1]);
+  writeHalf(file, EHDR.TYPE, ELF.TYPE_EXEC);
+  writeHalf(file, EHDR.MACHINE, ELF.MACHINE_RISCV);
+  writeWord(file, EHDR.VERSION, 1);
+  writeWord(file, EHDR.ENTRY, entry);
+  writeWord(file, EHDR.PHOFF, phoff);
+  writeWord(file, EHDR.SHOFF, shoff);
+  writeHalf(file, EHDR.EHSIZE, ELF_HEADER_SIZE);
+  writeHalf(file, EHDR.PHENTSIZE, PHDR.SIZE);
+  writeHalf(file, EHDR.PHNUM, segments.length);
+  writeHalf(file, EHDR.SHENTSIZE, SHDR.SIZE_OF);
+  writeHalf(file, EHDR.SHNUM, 4);
+  writeHalf(file, EHDR.SHSTRNDX, 3);
+
+  segments.forEach((segment, i) => {
+    const header = phoff + i * PHDR.SIZE;
+    writeWord(file, header + PHDR.TYPE, ELF.PT_LOAD);
+    writeWord(file, header + PHDR.OFFSET, placed[i]);
+    writeWord(file, header + PHDR.VADDR, segment.vaddr);
+    writeWord(file, header + PHDR.PADDR, segment.vaddr);
+    writeWord(file, header + PHDR.FILESZ, segment.data.length);
+    writeWord(file, header + PHDR.MEMSZ, segment.memSize);
+    writeWord(file, header + PHDR.FLAGS, segment.flags);
+    writeWord(file, header + PHDR.ALIGN, 4);
+    file.set(segment.data, placed[i]);
+  });
+
+  // Entry 0 is the reserved null symbol
+  ordered.forEach((symbol, i) => {
+    const at = symtabOffset + (i + 1) * SYM.SIZE_OF;
+    writeWord(file, at + SYM.NAME, names[i]);
+    writeWord(file, at + SYM.VALUE, symbol.value);
+    writeWord(file, at + SYM.SIZE, symbol.size);
+    file[at + SYM.INFO] = (symbol.binding << 4) | symbol.type;
+    writeHalf(file, at + SYM.SHNDX, ELF.SHN_ABS);
+  });
+  file.set(Array.from(strtab, char => char.charCodeAt(0)), strtabOffset);
+  file.set(Array.from(shstrtab, char => char.charCodeAt(0)), shstrtabOffset);
+
+  // Section 0 is null; 1 .symtab (linked to 2, .strtab); 3 .shstrtab
+  const sections = [
+    { name: 1, type: ELF.SHT_SYMTAB, offset: symtabOffset, size: symtabSize, link: 2, info: firstGlobal, entsize: SYM.SIZE_OF },
+    { name: 9, type: ELF.SHT_STRTAB, offset: strtabOffset, size: strtab.length, link: 0, info: 0, entsize: 0 },
+    { name: 17, type: ELF.SHT_STRTAB, offset: shstrtabOffset, size: shstrtab.length, link: 0, info: 0, entsize: 0 },
+  ];
+  sections.forEach((section, i) => {
+    const header = shoff + (i + 1) * SHDR.SIZE_OF;
+    writeWord(file, header + SHDR.NAME, section.name);
+    writeWord(file, header + SHDR.TYPE, section.type);
+    writeWord(file, header + SHDR.OFFSET, section.offset);
+    writeWord(file, header + SHDR.SIZE, section.size);
+    writeWord(file, header + SHDR.LINK, section.link);
+    writeWord(file, header + SHDR.INFO, section.info);
+    writeWord(file, header + SHDR.ADDRALIGN, section.type === ELF.SHT_SYMTAB ? 4 : 1);
+    writeWord(file, header + SHDR.ENTSIZE, section.entsize);
+  });
+  return file;
+}
+
+/**
+ * Round a file offset up to a word boundary
+ */
+function align4(offset: number): number {
+  return (offset + 3) & ~3;
+}
+
+/**
+ * Read the named function, object and untyped symbols from .symtab
+ * (stripped files have none)
+ */
+function readSymbols(data: Uint8Array): ElfSymbol[] {
+  const shoff = readWord(data, EHDR.SHOFF);
+  const shentsize = readHalf(data, EHDR.SHENTSIZE);
+  const shnum = readHalf(data, EHDR.SHNUM);
+  if (shoff === 0 || shentsize < SHDR.SIZE_OF || shoff + shnum * shentsize > data.length) {
+    return [];
+  }
+
+  const symbols: ElfSymbol[] = [];
+  for (let i = 0; i < shnum; i++) {
+    const section = shoff + i * shentsize;
+    if (readWord(data, section + SHDR.TYPE) !== ELF.SHT_SYMTAB) {
+      continue;
+    }
+
+    const offset = readWord(data, section + SHDR.OFFSET);
+    const size = readWord(data, section + SHDR.SIZE);
+    const entrySize = readWord(data, section + SHDR.ENTSIZE) || SYM.SIZE_OF;
+    const strtab = shoff + readWord(data, section + SHDR.LINK) * shentsize;
+    if (strtab + SHDR.SIZE_OF > data.length || offset + size > data.length) {
+      continue;
+    }
+    const strings = readWord(data, strtab + SHDR.OFFSET);
+
+    // Entry 0 is the reserved null symbol
+    for (let entry = offset + entrySize; entry + SYM.SIZE_OF <= offset + size; entry += entrySize) {
+      const info = data[entry + SYM.INFO];
+      const type = info & 0xf;
+      const name = readString(data, strings + readWord(data, entry + SYM.NAME));
+      if (!name || type === STT.SECTION || type === STT.FILE) {
+        continue;
+      }
+      symbols.push({
+        name,
+        value: readWord(data, entry + SYM.VALUE),
+        size: readWord(data, entry + SYM.SIZE),
+        type,
+        binding: info >> 4,
+      });
+    }
+  }
+  return symbols;
+}
+
+/**
+ * Read a NUL-terminated string
+ */
+function readString(data: Uint8Array, offset: number): string {
+  let end = offset;
+  while (end < data.length && data[end] !== 0) {
+    end++;
+  }
+  return String.fromCharCode(...data.subarray(offset, end));
+}
+
+/**
+ * Read a 16-bit halfword from buffer (little-endian)
+ */
+function readHalf(data: Uint8Array, offset: number): number {
+  return data[offset] | (data[offset + 1] << 8);
+}
+
+/**
+ * Read a 32-bit word from buffer (little-endian)
+ */
+function readWord(data: Uint8Array, offset: number): number {
+  return (
+    data[offset] |
+    (data[offset + 1] << 8) |
+    (data[offset + 2] << 16) |
+    (data[offset + 3] << 24)
+  ) >>> 0;
+}
+
+/**
+ * Write a 16-bit halfword to buffer (little-endian)
+ */
+function writeHalf(data: Uint8Array, offset: number, value: number): void {
+  data[offset] = value & 0xff;
+  data[offset + 1] = (value >> 8) & 0xff;
+}
+
+/**
+ * Write a 32-bit word to buffer (little-endian)
+ */
+function writeWord(data: Uint8Array, offset: number, value: number): void {
+  data[offset] = value & 0xff;
+  data[offset + 1] = (value >> 8) & 0xff;
+  data[offset + 2] = (value >> 16) & 0xff;
+  data[offset + 3] = (value >> 24) & 0xff;
+}
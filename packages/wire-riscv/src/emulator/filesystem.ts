@@ -96,6 +96,13 @@ export class WireFS {
     // Initialize root directory (already zeroed)
   }
 
+  /**
+   * Get the backing storage (the disk image the filesystem lives in)
+   */
+  getStorage(): Uint8Array {
+    return this.storage;
+  }
+
   /**
    * Check if filesystem is formatted
    */
@@ -0,0 +1,451 @@
+/**
+ * RV32F/D Floating-Point Unit
+ *
+ * Thirty-two 64-bit floating-point registers held as raw bits, so NaN
+ * payloads and signaling NaNs survive moves, loads and stores. Single
+ * precision values are NaN-boxed: the upper 32 bits are all ones, and
+ * a single-precision read of a register that is not properly boxed
+ * sees the canonical NaN. Arithmetic is delegated to softfloat.ts;
+ * the rounding mode comes from the instruction or frm, and exception
+ * flags accumulate in fflags on the CSR file.
+ */
+
+import {
+  BINARY32,
+  BINARY64,
+  FFLAGS,
+  FloatFormat,
+  ROUNDING_MODE,
+  add,
+  compare,
+  div,
+  fma,
+  minMax,
+  mul,
+  round,
+  sqrt,
+  sub,
+  toInteger,
+} from './softfloat.js';
+import { CsrFile } from './csr.js';
+import { DecodedInstruction } from './decode-cache.js';
+
+// Opcodes executed here (FMADD is the remaining fused opcode)
+const OPCODE_FMSUB = 0b1000111;
+const OPCODE_FNMSUB = 0b1001011;
+const OPCODE_FNMADD = 0b1001111;
+const OPCODE_OP_FP = 0b1010011;
+
+// OP-FP operations (funct7 bits 31:27; bits 26:25 select the format)
+export const FP_FUNCT5 = {
+  FADD: 0b00000,
+  FSUB: 0b00001,
+  FMUL: 0b00010,
+  FDIV: 0b00011,
+  FSGNJ: 0b00100,
+  FMINMAX: 0b00101,
+  FCVT_FMT_FMT: 0b01000,
+  FSQRT: 0b01011,
+  FCMP: 0b10100,
+  FCVT_W_FMT: 0b11000,
+  FCVT_FMT_W: 0b11010,
+  FMV_X_FCLASS: 0b11100,
+  FMV_FMT_X: 0b11110,
+} as const;
+
+/** fmt field values */
+const FMT_S = 0b00;
+const FMT_D = 0b01;
+
+/** Canonical quiet NaN of each format (the upper word for double) */
+export const CANONICAL_NAN_S = 0x7fc00000;
+export const CANONICAL_NAN_D_HIGH = 0x7ff80000;
+
+/** Upper word of a NaN-boxed single-precision value */
+const NAN_BOX = 0xffffffff;
+
+/** FCLASS result bits */
+export const FCLASS = {
+  NEGATIVE_INFINITY: 1 << 0,
+  NEGATIVE_NORMAL: 1 << 1,
+  NEGATIVE_SUBNORMAL: 1 << 2,
+  NEGATIVE_ZERO: 1 << 3,
+  POSITIVE_ZERO: 1 << 4,
+  POSITIVE_SUBNORMAL: 1 << 5,
+  POSITIVE_NORMAL: 1 << 6,
+  POSITIVE_INFINITY: 1 << 7,
+  SIGNALING_NAN: 1 << 8,
+  QUIET_NAN: 1 << 9,
+} as const;
+
+/** FADD/FSUB/FMUL/FDIV by funct5 */
+const ARITHMETIC = [add, sub, mul, div] as const;
+
+const scratch = new DataView(new ArrayBuffer(8));
+
+/**
+ * Value of binary32 bits
+ */
+export function bitsToSingle(bits: number): number {
+  scratch.setUint32(0, bits, true);
+  return scratch.getFloat32(0, true);
+}
+
+/**
+ * binary32 bits of a value (NaN becomes the canonical NaN)
+ */
+export function singleToBits(value: number): number {
+  if (Number.isNaN(value)) {
+    return CANONICAL_NAN_S;
+  }
+  scratch.setFloat32(0, value, true);
+  return scratch.getUint32(0, true);
+}
+
+/**
+ * Value of binary64 bits given as two words
+ */
+export function bitsToDouble(low: number, high: number): number {
+  scratch.setUint32(0, low, true);
+  scratch.setUint32(4, high, true);
+  return scratch.getFloat64(0, true);
+}
+
+/**
+ * FCLASS mask for a value given its sign, biased exponent field,
+ * whether the exponent is all ones, and whether the fraction is zero
+ * and has its top (quiet) bit set
+ */
+function classify(negative: boolean, exponent: number, maxExponent: number, fractionZero: boolean, quiet: boolean): number {
+  if (exponent === maxExponent) {
+    if (fractionZero) {
+      return negative ? FCLASS.NEGATIVE_INFINITY : FCLASS.POSITIVE_INFINITY;
+    }
+    return quiet ? FCLASS.QUIET_NAN : FCLASS.SIGNALING_NAN;
+  }
+  if (exponent === 0) {
+    if (fractionZero) {
+      return negative ? FCLASS.NEGATIVE_ZERO : FCLASS.POSITIVE_ZERO;
+    }
+    return negative ? FCLASS.NEGATIVE_SUBNORMAL : FCLASS.POSITIVE_SUBNORMAL;
+  }
+  return negative ? FCLASS.NEGATIVE_NORMAL : FCLASS.POSITIVE_NORMAL;
+}
+
+export class Fpu {
+  /** Low and high words of each 64-bit register */
+  public readonly low: Uint32Array = new Uint32Array(32);
+  public readonly high: Uint32Array = new Uint32Array(32);
+
+  constructor(private readonly csr: CsrFile) {}
+
+  /**
+   * Clear every register
+   */
+  reset(): void {
+    this.low.fill(0);
+    this.high.fill(0);
+  }
+
+  /**
+   * Read a register as single-precision bits, unboxing the NaN box
+   */
+  readSingleBits(index: number): number {
+    return this.high[index] === NAN_BOX ? this.low[index] : CANONICAL_NAN_S;
+  }
+
+  /**
+   * Write single-precision bits, NaN-boxed
+   */
+  writeSingleBits(index: number, bits: number): void {
+    this.low[index] = bits >>> 0;
+    this.high[index] = NAN_BOX;
+  }
+
+  /**
+   * Read a register as a single-precision value
+   */
+  readSingle(index: number): number {
+    return bitsToSingle(this.readSingleBits(index));
+  }
+
+  /**
+   * Write a single-precision value (NaN is stored canonical)
+   */
+  writeSingle(index: number, value: number): void {
+    this.writeSingleBits(index, singleToBits(value));
+  }
+
+  /**
+   * Read a register as a double-precision value
+   */
+  readDouble(index: number): number {
+    return bitsToDouble(this.low[index], this.high[index]);
+  }
+
+  /**
+   * Write a double-precision value (NaN is stored canonical)
+   */
+  writeDouble(index: number, value: number): void {
+    if (Number.isNaN(value)) {
+      this.low[index] = 0;
+      this.high[index] = CANONICAL_NAN_D_HIGH;
+      return;
+    }
+    scratch.setFloat64(0, value, true);
+    this.low[index] = scratch.getUint32(0, true);
+    this.high[index] = scratch.getUint32(4, true);
+  }
+
+  /**
+   * Check whether a register holds a signaling NaN in a format
+   */
+  isSignaling(index: number, double: boolean): boolean {
+    return (this.classify(index, double) & FCLASS.SIGNALING_NAN) !== 0;
+  }
+
+  /**
+   * FCLASS of a register in a format
+   */
+  classify(index: number, double: boolean): number {
+    if (double) {
+      const high = this.high[index];
+      const fractionZero = (high & 0xfffff) === 0 && this.low[index] === 0;
+      return classify(high >>> 31 === 1, (high >>> 20) & 0x7ff, 0x7ff, fractionZero, (high & 0x80000) !== 0);
+    }
+    const bits = this.readSingleBits(index);
+    return classify(bits >>> 31 === 1, (bits >>> 23) & 0xff, 0xff, (bits & 0x7fffff) === 0, (bits & 0x400000) !== 0);
+  }
+
+  /**
+   * Execute an OP-FP or fused multiply-add instruction
+   *
+   * Integer operands and results go through `x`. Returns false for an
+   * illegal encoding (including a reserved rounding mode), leaving all
+   * state unchanged.
+   */
+  execute(decoded: DecodedInstruction, x: Uint32Array): boolean {
+    const { raw, opcode, rd, funct3, rs1, rs2 } = decoded;
+    const fmt = (raw >>> 25) & 0x3;
+    if (fmt !== FMT_S && fmt !== FMT_D) {
+      return false;
+    }
+    const double = fmt === FMT_D;
+    const format = double ? BINARY64 : BINARY32;
+
+    if (opcode !== OPCODE_OP_FP) {
+      const rm = this.roundingMode(funct3);
+      if (rm < 0) {
+        return false;
+      }
+      this.executeFused(opcode, format, rd, rs1, rs2, raw >>> 27, rm);
+      return true;
+    }
+
+    const funct5 = raw >>> 27;
+    const a = this.read(rs1, double);
+    const b = this.read(rs2, double);
+    const signaling = this.isSignaling(rs1, double) || this.isSignaling(rs2, double);
+
+    switch (funct5) {
+      case FP_FUNCT5.FADD:
+      case FP_FUNCT5.FSUB:
+      case FP_FUNCT5.FMUL:
+      case FP_FUNCT5.FDIV: {
+        const rm = this.roundingMode(funct3);
+        if (rm < 0) {
+          return false;
+        }
+        this.raiseIf(signaling);
+        this.write(rd, double, ARITHMETIC[funct5](format, a, b, rm, this.csr));
+        return true;
+      }
+
+      case FP_FUNCT5.FSQRT: {
+        const rm = this.roundingMode(funct3);
+        if (rm < 0 || rs2 !== 0) {
+          return false;
+        }
+        this.raiseIf(this.isSignaling(rs1, double));
+        this.write(rd, double, sqrt(format, a, rm, this.csr));
+        return true;
+      }
+
+      case FP_FUNCT5.FSGNJ:
+        return this.injectSign(double, funct3, rd, rs1, rs2);
+
+      case FP_FUNCT5.FMINMAX: {
+        if (funct3 > 1) {
+          return false;
+        }
+        this.raiseIf(signaling);
+        this.write(rd, double, minMax(a, b, funct3 === 1));
+        return true;
+      }
+
+      case FP_FUNCT5.FCMP: {
+        let result: boolean;
+        switch (funct3) {
+          case 0b010:
+            // FEQ is a quiet comparison: only signaling NaNs are invalid
+            this.raiseIf(signaling);
+            result = a === b;
+            break;
+          case 0b001:
+            result = compare(a, b, false, this.csr);
+            break;
+          case 0b000:
+            result = compare(a, b, true, this.csr);
+            break;
+          default:
+            return false;
+        }
+        this.writeInteger(x, rd, result ? 1 : 0);
+        return true;
+      }
+
+      case FP_FUNCT5.FCVT_W_FMT: {
+        const rm = this.roundingMode(funct3);
+        if (rm < 0 || rs2 > 1) {
+          return false;
+        }
+        this.writeInteger(x, rd, toInteger(a, rs2 === 0, rm, this.csr));
+        return true;
+      }
+
+      case FP_FUNCT5.FCVT_FMT_W: {
+        const rm = this.roundingMode(funct3);
+        if (rm < 0 || rs2 > 1) {
+          return false;
+        }
+        const value = rs2 === 0 ? x[rs1] | 0 : x[rs1] >>> 0;
+        this.write(rd, double, round(format, value, rm, this.csr));
+        return true;
+      }
+
+      case FP_FUNCT5.FCVT_FMT_FMT: {
+        // FCVT.S.D (rs2 = 1) narrows; FCVT.D.S (rs2 = 0) is exact
+        const rm = this.roundingMode(funct3);
+        if (rm < 0 || rs2 !== (double ? FMT_S : FMT_D)) {
+          return false;
+        }
+        const value = this.read(rs1, !double);
+        this.raiseIf(this.isSignaling(rs1, !double));
+        this.write(rd, double, round(format, value, rm, this.csr));
+        return true;
+      }
+
+      case FP_FUNCT5.FMV_X_FCLASS: {
+        if (rs2 !== 0) {
+          return false;
+        }
+        if (funct3 === 0b001) {
+          this.writeInteger(x, rd, this.classify(rs1, double));
+          return true;
+        }
+        // FMV.X.W copies the low word without unboxing (no FMV.X.D on RV32)
+        if (funct3 !== 0b000 || double) {
+          return false;
+        }
+        this.writeInteger(x, rd, this.low[rs1]);
+        return true;
+      }
+
+      case FP_FUNCT5.FMV_FMT_X:
+        if (funct3 !== 0 || rs2 !== 0 || double) {
+          return false;
+        }
+        this.writeSingleBits(rd, x[rs1]);
+        return true;
+
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Resolve an rm field (DYN selects frm); -1 for reserved modes
+   */
+  private roundingMode(rm: number): number {
+    const mode = rm === ROUNDING_MODE.DYN ? this.csr.frm : rm;
+    return mode <= ROUNDING_MODE.RMM ? mode : -1;
+  }
+
+  /**
+   * Raise the invalid flag for a signaling NaN operand
+   */
+  private raiseIf(signaling: boolean): void {
+    if (signaling) {
+      this.csr.fflags |= FFLAGS.NV;
+    }
+  }
+
+  /**
+   * Read an operand in a format
+   */
+  private read(index: number, double: boolean): number {
+    return double ? this.readDouble(index) : this.readSingle(index);
+  }
+
+  /**
+   * Write a result in a format
+   */
+  private write(index: number, double: boolean, value: number): void {
+    if (double) {
+      this.writeDouble(index, value);
+    } else {
+      this.writeSingle(index, value);
+    }
+  }
+
+  /**
+   * Write an integer register (x0 is hardwired to zero)
+   */
+  private writeInteger(x: Uint32Array, index: number, value: number): void {
+    if (index !== 0) {
+      x[index] = value >>> 0;
+    }
+  }
+
+  /**
+   * FMADD/FMSUB/FNMSUB/FNMADD: ±(rs1 * rs2) ± rs3
+   */
+  private executeFused(opcode: number, format: FloatFormat, rd: number, rs1: number, rs2: number, rs3: number, rm: number): void {
+    const double = format === BINARY64;
+    const a = this.read(rs1, double);
+    const b = this.read(rs2, double);
+    const c = this.read(rs3, double);
+    this.raiseIf(this.isSignaling(rs1, double) || this.isSignaling(rs2, double) || this.isSignaling(rs3, double));
+
+    const negateProduct = opcode === OPCODE_FNMSUB || opcode === OPCODE_FNMADD;
+    const negateAddend = opcode === OPCODE_FMSUB || opcode === OPCODE_FNMADD;
+    const result = fma(format, negateProduct ? -a : a, b, negateAddend ? -c : c, rm, this.csr);
+    this.write(rd, double, result);
+  }
+
+  /**
+   * FSGNJ/FSGNJN/FSGNJX: rs1 with a sign taken from rs2, operating on
+   * the raw bits so NaN payloads are preserved
+   */
+  private injectSign(double: boolean, funct3: number, rd: number, rs1: number, rs2: number): boolean {
+    if (funct3 > 2) {
+      return false;
+    }
+    const bits = double ? this.high[rs1] : this.readSingleBits(rs1);
+    const signSource = double ? this.high[rs2] : this.readSingleBits(rs2);
+    let sign = signSource & 0x80000000;
+    if (funct3 === 1) {
+      sign ^= 0x80000000;
+    } else if (funct3 === 2) {
+      sign ^= bits & 0x80000000;
+    }
+    const result = ((bits & 0x7fffffff) | sign) >>> 0;
+    if (double) {
+      this.low[rd] = this.low[rs1];
+      this.high[rd] = result;
+    } else {
+      this.writeSingleBits(rd, result);
+    }
+    return true;
+  }
+}
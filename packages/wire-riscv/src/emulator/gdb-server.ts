@@ -0,0 +1,74 @@
+/**
+ * GDB Server
+ *
+ * Serves the GDB remote protocol for one RiscVCpu hart on a TCP socket
+ * (Node or Bun), one debugger at a time:
+ *
+ *   gdb-multiarch -ex 'target remote localhost:1234'
+ *
+ * Node-only, so it is not exported from the browser-safe index.
+ */
+
+import { createServer, Server, Socket } from 'net';
+import { RiscVCpu } from './cpu.js';
+import { GdbStub } from './gdb-stub.js';
+
+export class GdbServer {
+  private server: Server;
+  private client: Socket | null = null;
+
+  /**
+   * @param cpu The hart to debug
+   * @param onDisconnect Called when a debugger disconnects, with whether
+   *   it killed the program
+   */
+  constructor(
+    private readonly cpu: RiscVCpu,
+    private readonly onDisconnect: (killed: boolean) => void = () => {}
+  ) {
+    this.server = createServer((socket) => this.accept(socket));
+  }
+
+  /**
+   * Start listening; resolves with the bound port (useful with port 0)
+   */
+  listen(port: number = 1234, host: string = '127.0.0.1'): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => {
+        this.server.off('error', reject);
+        const address = this.server.address();
+        resolve(typeof address === 'object' && address !== null ? address.port : port);
+      });
+    });
+  }
+
+  /**
+   * Disconnect the debugger and stop listening
+   */
+  close(): Promise<void> {
+    this.client?.destroy();
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  /**
+   * Attach a new debugger connection, refusing a second one
+   */
+  private accept(socket: Socket): void {
+    if (this.client !== null) {
+      socket.destroy();
+      return;
+    }
+    this.client = socket;
+    socket.setNoDelay(true);
+
+    const stub = new GdbStub(this.cpu, (data) => socket.write(data, 'latin1'));
+    socket.on('data', (chunk) => stub.receive(chunk.toString('latin1')));
+    socket.on('error', () => socket.destroy());
+    socket.on('close', () => {
+      stub.detach();
+      this.client = null;
+      this.onDisconnect(stub.isKilled());
+    });
+  }
+}
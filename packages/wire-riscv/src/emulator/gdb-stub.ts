@@ -0,0 +1,636 @@
+/**
+ * GDB Remote Serial Protocol Stub
+ *
+ * Lets a stock GDB (e.g. gdb-multiarch) debug one RiscVCpu hart. The
+ * stub is independent of the transport: bytes from the debugger go to
+ * `receive()` and replies leave through the `send` callback, so the
+ * same stub serves a TCP socket (see gdb-server.ts) or a test.
+ *
+ * Software (Z0) and hardware (Z1) breakpoints are both kept in the stub
+ * and checked before each instruction, so memory reads never see an
+ * inserted EBREAK. Watchpoints (Z2-Z4) use the CPU's watchAccess hook
+ * and stop after the accessing instruction. Memory packets address
+ * physical memory.
+ */
+
+import { RiscVCpu } from './cpu.js';
+import { CSR } from './csr.js';
+import { AccessType } from './mmu.js';
+import { EXCEPTION_CAUSE } from './trap.js';
+
+/** Signal numbers reported in stop replies */
+export const GDB_SIGNAL = {
+  INT: 2,
+  ILL: 4,
+  TRAP: 5,
+  BUS: 7,
+  SEGV: 11,
+} as const;
+
+/** GDB's rv32 register numbers; CSR n is CSR_BASE + n */
+export const GDB_REGISTER = {
+  PC: 32,
+  FIRST_FP: 33,
+  CSR_BASE: 65,
+  PRIV: 65 + 4096,
+} as const;
+
+/** Instructions run between checks for a Ctrl-C while continuing */
+const CONTINUE_SLICE = 10000;
+
+/** Largest packet the stub accepts (hex) */
+const PACKET_SIZE = 0x4000;
+
+/** CSRs described in the target description, by name */
+const DEBUG_CSRS = [
+  'SSTATUS', 'SIE', 'STVEC', 'SSCRATCH', 'SEPC', 'SCAUSE', 'STVAL', 'SIP', 'SATP',
+  'MSTATUS', 'MISA', 'MEDELEG', 'MIDELEG', 'MIE', 'MTVEC',
+  'MSCRATCH', 'MEPC', 'MCAUSE', 'MTVAL', 'MIP', 'MHARTID',
+  'CYCLE', 'INSTRET', 'CYCLEH', 'INSTRETH',
+] as const;
+
+const DEBUG_CSR_NUMBERS = new Set<number>(DEBUG_CSRS.map((name) => CSR[name]));
+
+const X_NAMES = [
+  'zero', 'ra', 'sp', 'gp', 'tp', 't0', 't1', 't2', 'fp', 's1', 'a0', 'a1', 'a2', 'a3', 'a4', 'a5',
+  'a6', 'a7', 's2', 's3', 's4', 's5', 's6', 's7', 's8', 's9', 's10', 's11', 't3', 't4', 't5', 't6',
+];
+
+/**
+ * Target description for rv32 with F/D, the CSRs and the privilege level
+ */
+export const TARGET_XML = [
+  '<?xml version="1.0"?>',
+  '<!DOCTYPE target SYSTEM "gdb-target.dtd">',
+  '<target version="1.0">',
+  '<architecture>riscv:rv32</architecture>',
+  '<feature name="org.gnu.gdb.riscv.cpu">',
+  ...X_NAMES.map((name, i) =>
+    `<reg name="${name}" bitsize="32" regnum="${i}" type="${i === 1 ? 'code_ptr' : i === 2 || i === 8 ? 'data_ptr' : 'int'}"/>`),
+  `<reg name="pc" bitsize="32" regnum="${GDB_REGISTER.PC}" type="code_ptr"/>`,
+  '</feature>',
+  '<feature name="org.gnu.gdb.riscv.fpu">',
+  ...Array.from({ length: 32 }, (_, i) =>
+    `<reg name="f${i}" bitsize="64" regnum="${GDB_REGISTER.FIRST_FP + i}" type="ieee_double"/>`),
+  ...(['fflags', 'frm', 'fcsr'] as const).map((name) =>
+    `<reg name="${name}" bitsize="32" regnum="${GDB_REGISTER.CSR_BASE + CSR[name.toUpperCase() as 'FFLAGS' | 'FRM' | 'FCSR']}" type="int" group="float"/>`),
+  '</feature>',
+  '<feature name="org.gnu.gdb.riscv.csr">',
+  ...DEBUG_CSRS.map((name) =>
+    `<reg name="${name.toLowerCase()}" bitsize="32" regnum="${GDB_REGISTER.CSR_BASE + CSR[name]}" type="int" group="csr"/>`),
+  '</feature>',
+  '<feature name="org.gnu.gdb.riscv.virtual">',
+  `<reg name="priv" bitsize="32" regnum="${GDB_REGISTER.PRIV}" type="int" group="general"/>`,
+  '</feature>',
+  '</target>',
+].join('');
+
+/** Z packet types */
+const BREAKPOINT = {
+  SOFTWARE: 0,
+  HARDWARE: 1,
+  WRITE_WATCH: 2,
+  READ_WATCH: 3,
+  ACCESS_WATCH: 4,
+} as const;
+
+/** Stop reply keyword for each watchpoint type */
+const WATCH_KEYWORD: Record<number, string> = {
+  [BREAKPOINT.WRITE_WATCH]: 'watch',
+  [BREAKPOINT.READ_WATCH]: 'rwatch',
+  [BREAKPOINT.ACCESS_WATCH]: 'awatch',
+};
+
+interface Watchpoint {
+  type: number;
+  address: number;
+  length: number;
+}
+
+/** Format a byte as two hex digits */
+function hexByte(value: number): string {
+  return (value & 0xff).toString(16).padStart(2, '0');
+}
+
+/** Format a 32-bit value as target-order (little-endian) hex */
+function hexWord(value: number): string {
+  return hexByte(value) + hexByte(value >>> 8) + hexByte(value >>> 16) + hexByte(value >>> 24);
+}
+
+/** Parse target-order (little-endian) hex into a 32-bit value */
+function parseWord(hex: string): number {
+  let value = 0;
+  for (let i = 0; i < 4; i++) {
+    value |= parseInt(hex.slice(i * 2, i * 2 + 2), 16) << (i * 8);
+  }
+  return value >>> 0;
+}
+
+/** Sum of the payload bytes modulo 256 */
+function checksum(payload: string): number {
+  let sum = 0;
+  for (let i = 0; i < payload.length; i++) {
+    sum = (sum + payload.charCodeAt(i)) & 0xff;
+  }
+  return sum;
+}
+
+export class GdbStub {
+  private input: string = '';
+  private lastPacket: string = '';
+  private noAck: boolean = false;
+  private running: boolean = false;
+  private interruptRequested: boolean = false;
+  private readonly softwareBreakpoints = new Set<number>();
+  private readonly hardwareBreakpoints = new Set<number>();
+  private watchpoints: Watchpoint[] = [];
+  private watchHit: string | null = null;
+  /** pc the hart last stopped at; resuming there steps off a breakpoint */
+  private stoppedAt: number | null = null;
+  private killed: boolean = false;
+
+  /**
+   * @param cpu The hart to debug
+   * @param send Writes raw protocol bytes to the debugger
+   * @param schedule Defers the next slice of a continue so a Ctrl-C
+   *   can arrive in between (default setTimeout)
+   */
+  constructor(
+    private readonly cpu: RiscVCpu,
+    private readonly send: (data: string) => void,
+    private readonly schedule: (callback: () => void) => void = (callback) => setTimeout(callback, 0)
+  ) {}
+
+  /**
+   * Check whether a continue is in progress
+   */
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Check whether the debugger ended the session with a kill ('k')
+   */
+  isKilled(): boolean {
+    return this.killed;
+  }
+
+  /**
+   * Feed raw bytes from the debugger (one char per byte)
+   */
+  receive(data: string): void {
+    this.input += data;
+    while (this.input.length > 0) {
+      const first = this.input[0];
+      if (first === '\x03') {
+        this.input = this.input.slice(1);
+        this.interrupt();
+        continue;
+      }
+      if (first === '-') {
+        this.input = this.input.slice(1);
+        this.send(this.lastPacket);
+        continue;
+      }
+      if (first !== '$') {
+        // Acks and line noise
+        this.input = this.input.slice(1);
+        continue;
+      }
+
+      const end = this.input.indexOf('#');
+      if (end < 0 || this.input.length < end + 3) {
+        return; // Wait for the rest of the packet
+      }
+      const payload = this.input.slice(1, end);
+      const sum = parseInt(this.input.slice(end + 1, end + 3), 16);
+      this.input = this.input.slice(end + 3);
+
+      if (!this.noAck) {
+        if (sum !== checksum(payload)) {
+          this.send('-');
+          continue;
+        }
+        this.send('+');
+      }
+      const reply = this.dispatch(payload);
+      if (reply !== null) {
+        this.sendPacket(reply);
+      }
+    }
+  }
+
+  /**
+   * Stop any continue in progress and forget breakpoints, e.g. when the
+   * debugger disconnects
+   */
+  detach(): void {
+    this.running = false;
+    this.softwareBreakpoints.clear();
+    this.hardwareBreakpoints.clear();
+    this.watchpoints = [];
+    this.cpu.watchAccess = null;
+    this.input = '';
+    this.noAck = false;
+  }
+
+  /**
+   * Handle one packet, returning the reply (null when it comes later)
+   */
+  private dispatch(packet: string): string | null {
+    const body = packet.slice(1);
+    switch (packet[0]) {
+      case '?':
+        return this.cpu.halted ? this.haltReply() : `S${hexByte(GDB_SIGNAL.TRAP)}`;
+      case 'g':
+        return this.readRegisters();
+      case 'G':
+        return this.writeRegisters(body);
+      case 'p':
+        return this.readRegister(parseInt(body, 16));
+      case 'P': {
+        const [regno, value] = body.split('=');
+        return this.writeRegister(parseInt(regno, 16), value);
+      }
+      case 'm':
+        return this.readMemory(body);
+      case 'M':
+        return this.writeMemory(body, false);
+      case 'X':
+        return this.writeMemory(body, true);
+      case 's':
+        this.resumeAt(body);
+        return this.execute(1) ?? this.stop(`S${hexByte(GDB_SIGNAL.TRAP)}`);
+      case 'c':
+        this.resumeAt(body);
+        this.running = true;
+        this.interruptRequested = false;
+        this.continueSlice();
+        return null;
+      case 'Z':
+      case 'z':
+        return this.breakpoint(packet[0] === 'Z', body);
+      case 'H':
+      case 'T':
+        return 'OK'; // Only one thread
+      case 'D':
+        this.detach();
+        return 'OK';
+      case 'k':
+        this.detach();
+        this.killed = true;
+        return null;
+      case 'q':
+        return this.query(packet);
+      case 'Q':
+        if (packet === 'QStartNoAckMode') {
+          this.sendPacket('OK');
+          this.noAck = true;
+          return null;
+        }
+        return '';
+      default:
+        return ''; // Unsupported
+    }
+  }
+
+  /**
+   * Answer a general query
+   */
+  private query(packet: string): string {
+    if (packet.startsWith('qSupported')) {
+      return `PacketSize=${PACKET_SIZE.toString(16)};qXfer:features:read+;swbreak+;hwbreak+;QStartNoAckMode+`;
+    }
+    if (packet.startsWith('qXfer:features:read:')) {
+      const [annex, range] = packet.slice('qXfer:features:read:'.length).split(':');
+      if (annex !== 'target.xml') {
+        return 'E00';
+      }
+      const [offset, length] = range.split(',').map((value) => parseInt(value, 16));
+      const chunk = TARGET_XML.slice(offset, offset + length);
+      return (offset + length >= TARGET_XML.length ? 'l' : 'm') + chunk;
+    }
+    switch (packet) {
+      case 'qAttached':
+        return '1';
+      case 'qC':
+        return 'QC1';
+      case 'qfThreadInfo':
+        return 'm1';
+      case 'qsThreadInfo':
+        return 'l';
+      default:
+        return '';
+    }
+  }
+
+  /**
+   * Read x0-x31 and pc ('g'); the rest are fetched with 'p'
+   */
+  private readRegisters(): string {
+    let reply = '';
+    for (let i = 0; i < 32; i++) {
+      reply += hexWord(this.cpu.getReg(i));
+    }
+    return reply + hexWord(this.cpu.pc);
+  }
+
+  /**
+   * Write x0-x31 and pc ('G')
+   */
+  private writeRegisters(hex: string): string {
+    if (hex.length < 33 * 8) {
+      return 'E01';
+    }
+    for (let i = 0; i < 32; i++) {
+      this.cpu.setReg(i, parseWord(hex.slice(i * 8)));
+    }
+    this.cpu.pc = parseWord(hex.slice(32 * 8));
+    return 'OK';
+  }
+
+  /**
+   * Read one register by GDB number
+   */
+  private readRegister(regno: number): string {
+    const cpu = this.cpu;
+    if (regno < 32) {
+      return hexWord(cpu.getReg(regno));
+    }
+    if (regno === GDB_REGISTER.PC) {
+      return hexWord(cpu.pc);
+    }
+    const fp = regno - GDB_REGISTER.FIRST_FP;
+    if (fp >= 0 && fp < 32) {
+      return hexWord(cpu.fpu.low[fp]) + hexWord(cpu.fpu.high[fp]);
+    }
+    if (regno === GDB_REGISTER.PRIV) {
+      return hexWord(cpu.privilege);
+    }
+    const csr = this.csrNumber(regno);
+    return csr < 0 ? 'E01' : hexWord(cpu.readCsr(csr));
+  }
+
+  /**
+   * Write one register by GDB number
+   */
+  private writeRegister(regno: number, hex: string): string {
+    const cpu = this.cpu;
+    if (regno < 32) {
+      cpu.setReg(regno, parseWord(hex));
+      return 'OK';
+    }
+    if (regno === GDB_REGISTER.PC) {
+      cpu.pc = parseWord(hex);
+      return 'OK';
+    }
+    const fp = regno - GDB_REGISTER.FIRST_FP;
+    if (fp >= 0 && fp < 32) {
+      cpu.fpu.low[fp] = parseWord(hex);
+      cpu.fpu.high[fp] = hex.length >= 16 ? parseWord(hex.slice(8)) : 0xffffffff;
+      cpu.csr.markFloatDirty();
+      return 'OK';
+    }
+    if (regno === GDB_REGISTER.PRIV) {
+      cpu.privilege = parseWord(hex) & 0x3;
+      return 'OK';
+    }
+    const csr = this.csrNumber(regno);
+    if (csr < 0) {
+      return 'E01';
+    }
+    cpu.writeCsr(csr, parseWord(hex));
+    return 'OK';
+  }
+
+  /**
+   * CSR number of a GDB register, or -1 if the stub does not expose it
+   */
+  private csrNumber(regno: number): number {
+    const csr = regno - GDB_REGISTER.CSR_BASE;
+    if (csr === CSR.FFLAGS || csr === CSR.FRM || csr === CSR.FCSR || DEBUG_CSR_NUMBERS.has(csr)) {
+      return csr;
+    }
+    return -1;
+  }
+
+  /**
+   * Read memory ('m addr,length')
+   */
+  private readMemory(body: string): string {
+    const [address, length] = body.split(',').map((value) => parseInt(value, 16));
+    let reply = '';
+    try {
+      for (let i = 0; i < length; i++) {
+        reply += hexByte(this.cpu.readByte((address + i) >>> 0));
+      }
+    } catch {
+      // Unmapped: return what was readable, or an error if nothing was
+      if (reply === '') {
+        return 'E14';
+      }
+    }
+    return reply;
+  }
+
+  /**
+   * Write memory from hex ('M addr,length:XX...') or escaped binary
+   * ('X addr,length:...')
+   */
+  private writeMemory(body: string, binary: boolean): string {
+    const colon = body.indexOf(':');
+    const [address, length] = body.slice(0, colon).split(',').map((value) => parseInt(value, 16));
+    const data = body.slice(colon + 1);
+
+    const bytes: number[] = [];
+    if (binary) {
+      for (let i = 0; i < data.length; i++) {
+        bytes.push(data[i] === '}' ? data.charCodeAt(++i) ^ 0x20 : data.charCodeAt(i));
+      }
+    } else {
+      for (let i = 0; i < data.length; i += 2) {
+        bytes.push(parseInt(data.slice(i, i + 2), 16));
+      }
+    }
+    if (bytes.length !== length) {
+      return 'E01';
+    }
+
+    try {
+      bytes.forEach((byte, i) => this.cpu.writeByte((address + i) >>> 0, byte));
+    } catch {
+      return 'E14';
+    }
+    return 'OK';
+  }
+
+  /**
+   * Insert or remove a breakpoint or watchpoint ('Z/z type,addr,kind')
+   */
+  private breakpoint(insert: boolean, body: string): string {
+    const [type, address, kind] = body.split(',').map((value) => parseInt(value, 16));
+    switch (type) {
+      case BREAKPOINT.SOFTWARE:
+      case BREAKPOINT.HARDWARE: {
+        const set = type === BREAKPOINT.SOFTWARE ? this.softwareBreakpoints : this.hardwareBreakpoints;
+        if (insert) {
+          set.add(address);
+        } else {
+          set.delete(address);
+        }
+        return 'OK';
+      }
+      case BREAKPOINT.WRITE_WATCH:
+      case BREAKPOINT.READ_WATCH:
+      case BREAKPOINT.ACCESS_WATCH:
+        if (insert) {
+          this.watchpoints.push({ type, address, length: kind });
+        } else {
+          this.watchpoints = this.watchpoints.filter((watch) =>
+            watch.type !== type || watch.address !== address || watch.length !== kind);
+        }
+        this.cpu.watchAccess = this.watchpoints.length > 0
+          ? (accessed, size, access) => this.checkWatchpoints(accessed, size, access)
+          : null;
+        return 'OK';
+      default:
+        return '';
+    }
+  }
+
+  /**
+   * Record the first watchpoint a data access triggers
+   */
+  private checkWatchpoints(address: number, size: number, access: AccessType): void {
+    if (this.watchHit !== null) {
+      return;
+    }
+    for (const watch of this.watchpoints) {
+      const overlaps = address < watch.address + watch.length && watch.address < address + size;
+      const matches = watch.type === BREAKPOINT.ACCESS_WATCH ||
+        (watch.type === BREAKPOINT.WRITE_WATCH) === (access === AccessType.STORE);
+      if (overlaps && matches) {
+        this.watchHit = `${WATCH_KEYWORD[watch.type]}:${watch.address.toString(16)};`;
+        return;
+      }
+    }
+  }
+
+  /**
+   * Apply the optional resume address of 's' and 'c'
+   */
+  private resumeAt(address: string): void {
+    if (address) {
+      this.cpu.pc = parseInt(address, 16) >>> 0;
+    }
+  }
+
+  /**
+   * Run one slice of a continue, then reschedule unless it stopped
+   */
+  private continueSlice(): void {
+    if (!this.running) {
+      return;
+    }
+    if (this.interruptRequested) {
+      this.running = false;
+      this.sendPacket(this.stop(`S${hexByte(GDB_SIGNAL.INT)}`));
+      return;
+    }
+    const reply = this.execute(CONTINUE_SLICE);
+    if (reply !== null) {
+      this.running = false;
+      this.sendPacket(reply);
+      return;
+    }
+    this.schedule(() => this.continueSlice());
+  }
+
+  /**
+   * Handle Ctrl-C: stop a continue at the next slice boundary
+   */
+  private interrupt(): void {
+    if (this.running) {
+      this.interruptRequested = true;
+    }
+  }
+
+  /**
+   * Execute up to `count` instructions, stopping at breakpoints (before
+   * the instruction runs), watchpoints and halts. Resuming where the
+   * hart stopped runs that instruction first, which steps off a
+   * breakpoint there; one at a pc the debugger moved to is hit.
+   * Returns the stop reply, or null if the count ran out first.
+   */
+  private execute(count: number): string | null {
+    const cpu = this.cpu;
+    const signal = hexByte(GDB_SIGNAL.TRAP);
+    const stepOff = this.stoppedAt === cpu.pc;
+    this.stoppedAt = null;
+    for (let i = 0; i < count; i++) {
+      if (cpu.halted) {
+        return this.stop(this.haltReply());
+      }
+      if (i > 0 || !stepOff) {
+        if (this.softwareBreakpoints.has(cpu.pc)) {
+          return this.stop(`T${signal}swbreak:;`);
+        }
+        if (this.hardwareBreakpoints.has(cpu.pc)) {
+          return this.stop(`T${signal}hwbreak:;`);
+        }
+      }
+      this.watchHit = null;
+      cpu.step();
+
+      if (this.watchHit !== null) {
+        return this.stop(`T${signal}${this.watchHit}`);
+      }
+    }
+    return cpu.halted ? this.stop(this.haltReply()) : null;
+  }
+
+  /**
+   * Note where the hart stopped; returns the stop reply
+   */
+  private stop(reply: string): string {
+    this.stoppedAt = this.cpu.pc;
+    return reply;
+  }
+
+  /**
+   * Stop reply for a halted hart: the signal matching a trap no handler
+   * took, otherwise an exit (exit syscall, HTIF) with its code
+   */
+  private haltReply(): string {
+    const trap = this.cpu.haltTrap;
+    if (trap === null) {
+      return `W${hexByte(this.cpu.exitCode)}`;
+    }
+
+    switch (trap.cause) {
+      case EXCEPTION_CAUSE.ILLEGAL_INSTRUCTION:
+        return `S${hexByte(GDB_SIGNAL.ILL)}`;
+      case EXCEPTION_CAUSE.INSTRUCTION_ADDRESS_MISALIGNED:
+      case EXCEPTION_CAUSE.LOAD_ADDRESS_MISALIGNED:
+      case EXCEPTION_CAUSE.STORE_ADDRESS_MISALIGNED:
+        return `S${hexByte(GDB_SIGNAL.BUS)}`;
+      case EXCEPTION_CAUSE.INSTRUCTION_ACCESS_FAULT:
+      case EXCEPTION_CAUSE.LOAD_ACCESS_FAULT:
+      case EXCEPTION_CAUSE.STORE_ACCESS_FAULT:
+      case EXCEPTION_CAUSE.INSTRUCTION_PAGE_FAULT:
+      case EXCEPTION_CAUSE.LOAD_PAGE_FAULT:
+      case EXCEPTION_CAUSE.STORE_PAGE_FAULT:
+        return `S${hexByte(GDB_SIGNAL.SEGV)}`;
+      default:
+        return `S${hexByte(GDB_SIGNAL.TRAP)}`;
+    }
+  }
+
+  /**
+   * Frame and send a packet, keeping it for retransmission on a NAK
+   */
+  private sendPacket(payload: string): void {
+    this.lastPacket = `$${payload}#${hexByte(checksum(payload))}`;
+    this.send(this.lastPacket);
+  }
+}
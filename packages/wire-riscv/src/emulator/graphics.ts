@@ -15,6 +15,7 @@ export const GRAPHICS_REGS_SIZE = 0x100;
 export const TEXT_VRAM_OFFSET = 0x1000;
 export const PALETTE_OFFSET = 0x2000;
 export const FRAMEBUFFER_OFFSET = 0x10000;
+export const FRAMEBUFFER_SIZE = 640 * 480; // Max resolution, 8bpp
 
 export const TEXT_COLS = 80;
 export const TEXT_ROWS = 25;
@@ -33,12 +34,31 @@ export const GRAPHICS_REGS = {
   STATUS: 0x18,
 } as const;
 
+/** STATUS register bits (write 1 to clear) */
+export const GRAPHICS_STATUS = {
+  VBLANK: 0x01,
+} as const;
+
 export enum DisplayMode {
   TEXT = 0,
   GRAPHICS = 1,        // 320x200
   GRAPHICS_HIRES = 2,  // 640x480
 }
 
+/**
+ * Registers and memory of the graphics card, for machine snapshots
+ */
+export interface GraphicsState {
+  mode: DisplayMode;
+  cursorX: number;
+  cursorY: number;
+  cursorCtrl: number;
+  status: number;
+  textVram: Uint8Array;
+  framebuffer: Uint8Array;
+  palette: Uint8Array;
+}
+
 export interface PaletteEntry {
   r: number;
   g: number;
@@ -92,7 +112,7 @@ export class GraphicsCard {
 
   constructor() {
     this.textVram = new Uint8Array(TEXT_VRAM_SIZE);
-    this.framebuffer = new Uint8Array(640 * 480); // Max resolution
+    this.framebuffer = new Uint8Array(FRAMEBUFFER_SIZE);
     this.palette = new Uint8Array(PALETTE_SIZE);
 
     // Initialize default palette (CGA colors + grayscale ramp)
@@ -159,10 +179,30 @@ export class GraphicsCard {
       case GRAPHICS_REGS.CURSOR_CTRL:
         this.cursorCtrl = value & 0xFFFF;
         break;
-      // WIDTH, HEIGHT, STATUS are read-only
+      case GRAPHICS_REGS.STATUS:
+        // Write 1 to acknowledge
+        this.status &= ~value;
+        break;
+      // WIDTH, HEIGHT are read-only
     }
   }
 
+  // Vertical blank
+
+  /**
+   * Mark the start of vertical blank; called once per presented frame
+   */
+  signalVblank(): void {
+    this.status |= GRAPHICS_STATUS.VBLANK;
+  }
+
+  /**
+   * Check if the vblank interrupt line is asserted
+   */
+  isVblankPending(): boolean {
+    return (this.status & GRAPHICS_STATUS.VBLANK) !== 0;
+  }
+
   // Text VRAM access
 
   writeTextVram(x: number, y: number, char: number, attr: number): void {
@@ -320,7 +360,7 @@ export class GraphicsCard {
     if (offset >= 0 && offset < GRAPHICS_REGS_SIZE) return true;
     if (offset >= TEXT_VRAM_OFFSET && offset < TEXT_VRAM_OFFSET + TEXT_VRAM_SIZE) return true;
     if (offset >= PALETTE_OFFSET && offset < PALETTE_OFFSET + PALETTE_SIZE) return true;
-    if (offset >= FRAMEBUFFER_OFFSET && offset < FRAMEBUFFER_OFFSET + 640 * 480) return true;
+    if (offset >= FRAMEBUFFER_OFFSET && offset < FRAMEBUFFER_OFFSET + FRAMEBUFFER_SIZE) return true;
     return false;
   }
 
@@ -490,6 +530,39 @@ export class GraphicsCard {
     this.mmioWriteByte(address + 1, (value >> 8) & 0xFF);
   }
 
+  // Snapshots
+
+  /**
+   * Copy the registers, VRAM and palette
+   */
+  saveState(): GraphicsState {
+    return {
+      mode: this.mode,
+      cursorX: this.cursorX,
+      cursorY: this.cursorY,
+      cursorCtrl: this.cursorCtrl,
+      status: this.status,
+      textVram: new Uint8Array(this.textVram),
+      framebuffer: new Uint8Array(this.framebuffer),
+      palette: new Uint8Array(this.palette),
+    };
+  }
+
+  /**
+   * Restore state copied by saveState() and redraw
+   */
+  restoreState(state: GraphicsState): void {
+    this.mode = state.mode;
+    this.cursorX = state.cursorX;
+    this.cursorY = state.cursorY;
+    this.cursorCtrl = state.cursorCtrl;
+    this.status = state.status;
+    this.textVram.set(state.textVram);
+    this.framebuffer.set(state.framebuffer);
+    this.palette.set(state.palette);
+    this.dirty = true;
+  }
+
   // Dirty tracking
 
   isDirty(): boolean {
@@ -0,0 +1,134 @@
+/**
+ * Host-Target Interface (HTIF)
+ *
+ * The tohost/fromhost mailbox that Spike and the riscv-tests suite use
+ * to signal results. The program stores a 64-bit command in `tohost`
+ * (found through its ELF or assembler symbol) and the host polls it:
+ *
+ *   device 0, payload with bit 0 set   exit; code = payload >> 1
+ *                                      (riscv-tests: 0 = pass, else the
+ *                                      number of the failing test)
+ *   device 1, command 1                print the low byte on the console
+ *
+ * An RV32 hart fills tohost with two stores, so a command is taken only
+ * once its low word is non-zero: exit payloads always are, and console
+ * writers store the device/command word first. The host clears tohost
+ * once it has taken a command, and acknowledges console writes in
+ * `fromhost`. Proxied syscalls (device 0 with an even payload) are not
+ * supported and end the run as a failure.
+ */
+
+import { RiscVCpu } from './cpu.js';
+import { ElfSymbol } from './elf.js';
+
+/** HTIF devices */
+export const HTIF_DEVICE = {
+  SYSCALL: 0,
+  CONSOLE: 1,
+} as const;
+
+/** Console device command that prints a character */
+export const HTIF_CONSOLE_PUTCHAR = 1;
+
+/** Exit code reported for commands the host does not implement */
+const UNSUPPORTED_EXIT_CODE = 0xff;
+
+/**
+ * Addresses of the HTIF mailbox
+ */
+export interface HtifAddresses {
+  tohost: number;
+  /** Omitted when the program has no fromhost symbol */
+  fromhost?: number;
+}
+
+/**
+ * Outcome of running a program under HTIF
+ */
+export interface HtifResult {
+  /** The program wrote an exit command */
+  finished: boolean;
+  /** Exit code from tohost (null when the run did not finish) */
+  exitCode: number | null;
+  /** riscv-tests pass: finished with exit code 0 */
+  passed: boolean;
+  cycles: number;
+}
+
+export class Htif {
+  /** Exit code written by the program, once it has exited */
+  public exitCode: number | null = null;
+
+  constructor(private readonly cpu: RiscVCpu, private readonly addresses: HtifAddresses) {}
+
+  /**
+   * Find the mailbox through the `tohost`/`fromhost` symbols of an ELF
+   * file or an assembler symbol table; null if there is no tohost
+   */
+  static fromSymbols(cpu: RiscVCpu, symbols: ElfSymbol[] | Map<string, number>): Htif | null {
+    const lookup = (name: string): number | undefined =>
+      symbols instanceof Map ? symbols.get(name) : symbols.find((symbol) => symbol.name === name)?.value;
+
+    const tohost = lookup('tohost');
+    if (tohost === undefined) {
+      return null;
+    }
+    return new Htif(cpu, { tohost, fromhost: lookup('fromhost') });
+  }
+
+  /**
+   * Take a pending command from tohost
+   *
+   * An exit command halts the hart with the exit code.
+   *
+   * @returns True once the program has exited
+   */
+  poll(): boolean {
+    if (this.exitCode !== null) {
+      return true;
+    }
+    const { tohost, fromhost } = this.addresses;
+    const low = this.cpu.readWord(tohost);
+    const high = this.cpu.readWord(tohost + 4);
+    if (low === 0) {
+      return false;
+    }
+    this.cpu.writeWord(tohost, 0);
+    this.cpu.writeWord(tohost + 4, 0);
+
+    const device = high >>> 24;
+    const command = (high >>> 16) & 0xff;
+    if (device === HTIF_DEVICE.CONSOLE && command === HTIF_CONSOLE_PUTCHAR) {
+      this.cpu.consoleOutput += String.fromCharCode(low & 0xff);
+      if (fromhost !== undefined) {
+        this.cpu.writeWord(fromhost, 1);
+        this.cpu.writeWord(fromhost + 4, high);
+      }
+      return false;
+    }
+
+    const exit = device === HTIF_DEVICE.SYSCALL && (low & 1) === 1;
+    this.exitCode = exit ? low >>> 1 : UNSUPPORTED_EXIT_CODE;
+    this.cpu.exitCode = this.exitCode;
+    this.cpu.halted = true;
+    return true;
+  }
+
+  /**
+   * Run the hart, polling tohost every `slice` cycles, until the
+   * program exits, the hart halts or maxCycles have run
+   */
+  run(maxCycles: number, slice: number = 1000): HtifResult {
+    const start = this.cpu.cycles;
+    while (!this.poll() && !this.cpu.halted && this.cpu.cycles - start < maxCycles) {
+      this.cpu.run(Math.min(slice, maxCycles - (this.cpu.cycles - start)));
+    }
+    const finished = this.exitCode !== null;
+    return {
+      finished,
+      exitCode: this.exitCode,
+      passed: finished && this.exitCode === 0,
+      cycles: this.cpu.cycles - start,
+    };
+  }
+}
@@ -8,4 +8,81 @@ export {
   STORE_FUNCT3,
   ALU_IMM_FUNCT3,
   ALU_FUNCT3,
+  MULDIV_FUNCT3,
+  SYSTEM_FUNCT3,
+  FP_WIDTH,
 } from './cpu.js';
+export type { HartState, FileHandle, SyscallAbi } from './cpu.js';
+export {
+  CsrFile,
+  CSR,
+  MSTATUS,
+  MIP,
+  SATP,
+  PRIVILEGE,
+  MISA,
+  MISA_VALUE,
+  FS,
+  FCSR,
+  isReadOnlyCsr,
+  isFloatCsr,
+  csrPrivilege,
+} from './csr.js';
+export type { CsrState } from './csr.js';
+export { EXCEPTION_CAUSE, INTERRUPT_BIT, INTERRUPT_CAUSE, TrapException } from './trap.js';
+export { Clint, CLINT_BASE, CLINT_SIZE, CLINT_REGS } from './clint.js';
+export type { ClintState } from './clint.js';
+export { Plic, PLIC_BASE, PLIC_SIZE, PLIC_REGS, PLIC_IRQ, PLIC_NUM_SOURCES } from './plic.js';
+export type { PlicState } from './plic.js';
+export { Mmu, AccessType, PTE, PAGE_SIZE, PAGE_SHIFT } from './mmu.js';
+export type { PageTableMemory } from './mmu.js';
+export { Pmp, PMP_CFG, PMP_MODE, PMP_ENTRIES, isPmpCsr } from './pmp.js';
+export type { PmpState } from './pmp.js';
+export { Bus, BusError, RamDevice, fromMmioDevice } from './bus.js';
+export type { AccessWidth, BusDevice, BusRegion, MmioDevice } from './bus.js';
+export {
+  DEFAULT_MEMORY_MAP,
+  DEFAULT_DEVICE_BASES,
+  DEFAULT_RAM_SIZE,
+  BOARD_MEMORY_MAP,
+  resolveMemoryMap,
+} from './memory-map.js';
+export type { MemoryMap, MemoryMapConfig, MemoryRange, RomRange, DeviceBases } from './memory-map.js';
+export { DecodeCache, decodeInstruction } from './decode-cache.js';
+export type { DecodedInstruction } from './decode-cache.js';
+export { expandCompressed, isCompressed } from './compressed.js';
+export { ReservationSet, AMO_FUNCT5, AMO_WIDTH_W, amoResult } from './atomic.js';
+export { SmpSystem, roundRobin } from './smp.js';
+export type { HartScheduler, SmpConfig } from './smp.js';
+export { Fpu, FP_FUNCT5, FCLASS, CANONICAL_NAN_S, CANONICAL_NAN_D_HIGH, bitsToSingle, singleToBits, bitsToDouble } from './fpu.js';
+export { ROUNDING_MODE, FFLAGS, BINARY32, BINARY64 } from './softfloat.js';
+export type { FloatFormat, FloatStatus } from './softfloat.js';
+export { ELF_MAGIC, ELF_HEADER_SIZE, ELF, PF, STT, STB, isElf, parseElf, buildElf } from './elf.js';
+export type { ElfImage, ElfSegment, ElfSegmentData, ElfSymbol } from './elf.js';
+export { GdbStub, GDB_SIGNAL, GDB_REGISTER, TARGET_XML } from './gdb-stub.js';
+export {
+  disassemble,
+  disassembleDecoded,
+  disassembleProgram,
+  formatDisassembly,
+  REGISTER_NAMES,
+  FP_REGISTER_NAMES,
+} from './disassembler.js';
+export type { DataRegion, DisassembledLine, InstructionOptions, ProgramOptions } from './disassembler.js';
+export { LinuxSyscalls, LINUX_SYSCALL, LINUX_ERRNO, LINUX_OPEN } from './linux-syscalls.js';
+export type { LinuxFile, LinuxSyscallOutcome, LinuxSyscallState } from './linux-syscalls.js';
+export { Htif, HTIF_DEVICE, HTIF_CONSOLE_PUTCHAR } from './htif.js';
+export type { HtifAddresses, HtifResult } from './htif.js';
+export { CommitTracer } from './tracer.js';
+export type { PcRange, TracerOptions } from './tracer.js';
+export { Profiler, classifyInstruction } from './profiler.js';
+export type { BranchStats, DeviceStats, InstructionClass, ProfileReportOptions, ProfilerOptions } from './profiler.js';
+export {
+  SNAPSHOT_FORMAT,
+  SNAPSHOT_VERSION,
+  saveSnapshot,
+  restoreSnapshot,
+  serializeSnapshot,
+  deserializeSnapshot,
+} from './snapshot.js';
+export type { MachineSnapshot, RamRegionSnapshot } from './snapshot.js';
@@ -10,6 +10,8 @@
  * - 0x00: STATUS (bit 0 = key available, read-only)
  * - 0x04: DATA (ASCII code, reading consumes key, read-only)
  * - 0x08: MODIFIER (shift/ctrl/alt state, read-only)
+ *
+ * The interrupt line is asserted while a key is available.
  */
 
 export const KEYBOARD_BASE = 0x30000000;
@@ -29,6 +31,14 @@ export enum KeyModifier {
 
 const DEFAULT_BUFFER_SIZE = 16;
 
+/**
+ * Buffered keys and modifiers, for machine snapshots
+ */
+export interface KeyboardState {
+  buffer: number[];
+  modifiers: number;
+}
+
 export class KeyboardController {
   private buffer: number[];
   private modifiers: number = 0;
@@ -56,6 +66,13 @@ export class KeyboardController {
     return this.buffer.length > 0;
   }
 
+  /**
+   * Check if the buffer is full (further keys would be dropped)
+   */
+  isFull(): boolean {
+    return this.buffer.length >= this.bufferSize;
+  }
+
   /**
    * Read and consume a key from the buffer
    * Returns 0 if buffer is empty
@@ -92,6 +109,21 @@ export class KeyboardController {
     this.buffer = [];
   }
 
+  /**
+   * Copy the key buffer and modifiers
+   */
+  saveState(): KeyboardState {
+    return { buffer: [...this.buffer], modifiers: this.modifiers };
+  }
+
+  /**
+   * Restore state copied by saveState()
+   */
+  restoreState(state: KeyboardState): void {
+    this.buffer = state.buffer.slice(0, this.bufferSize);
+    this.modifiers = state.modifiers;
+  }
+
   /**
    * Read a register value
    * Reading DATA consumes the key from buffer
@@ -0,0 +1,533 @@
+/**
+ * Linux System Call Emulation
+ *
+ * The `linux` syscall ABI of RiscVCpu: ECALL takes the RISC-V Linux
+ * syscall number in a7, arguments in a0-a5, and returns the result (or
+ * -errno) in a0, so statically linked newlib/musl user programs run
+ * without a kernel.
+ *
+ * File descriptors 0-2 are the console (stdin reads the keyboard and
+ * blocks by re-executing the ECALL until a key arrives; stdout and
+ * stderr print like PUTCHAR). openat() opens WireFS files by their 8.3
+ * name, ignoring any leading "/" or "./"; written files are saved to
+ * WireFS when closed or when the program exits. brk() grows the heap
+ * from the end of the loaded image up to the stack pointer. Pointer
+ * arguments are used like the program's own loads and stores, so one
+ * it may not access raises its page or access fault.
+ */
+
+import { RiscVCpu } from './cpu.js';
+import { BusError } from './bus.js';
+
+/** RISC-V Linux syscall numbers (asm-generic/unistd.h) */
+export const LINUX_SYSCALL = {
+  IOCTL: 29,
+  OPENAT: 56,
+  CLOSE: 57,
+  LSEEK: 62,
+  READ: 63,
+  WRITE: 64,
+  WRITEV: 66,
+  FSTAT: 80,
+  EXIT: 93,
+  EXIT_GROUP: 94,
+  SET_TID_ADDRESS: 96,
+  CLOCK_GETTIME: 113,
+  BRK: 214,
+  CLOCK_GETTIME64: 403,
+} as const;
+
+/** errno values returned (negated) in a0 */
+export const LINUX_ERRNO = {
+  ENOENT: 2,
+  EBADF: 9,
+  EACCES: 13,
+  EFAULT: 14,
+  EINVAL: 22,
+  EMFILE: 24,
+  ENOTTY: 25,
+  ENOSYS: 38,
+} as const;
+
+/** openat() flags */
+export const LINUX_OPEN = {
+  ACCMODE: 0o3,
+  RDONLY: 0o0,
+  WRONLY: 0o1,
+  RDWR: 0o2,
+  CREAT: 0o100,
+  TRUNC: 0o1000,
+  APPEND: 0o2000,
+} as const;
+
+/** lseek() whence values */
+const SEEK_SET = 0;
+const SEEK_CUR = 1;
+const SEEK_END = 2;
+
+/** clock_gettime() clock ids */
+const CLOCK_REALTIME = 0;
+
+/** st_mode file types */
+const S_IFCHR = 0o020000;
+const S_IFREG = 0o100000;
+
+/** Size of newlib's struct kernel_stat on RV32 */
+const STAT_SIZE = 104;
+
+/** Nominal hart clock, for turning cycles into monotonic time */
+const CYCLES_PER_SECOND = 10_000_000;
+
+/** Most file descriptors a program can have open */
+const MAX_FILES = 64;
+
+/** First descriptor after stdin, stdout and stderr */
+const FIRST_FILE = 3;
+
+/** Outcome of a syscall for the ECALL that made it */
+export type LinuxSyscallOutcome = 'retire' | 'block' | 'halt';
+
+/**
+ * A WireFS file opened with openat()
+ */
+export interface LinuxFile {
+  filename: string;
+  data: Uint8Array;
+  /** Bytes of data in use (data may have spare capacity) */
+  size: number;
+  cursor: number;
+  readable: boolean;
+  writable: boolean;
+  append: boolean;
+  /** Written since it was opened, so it is saved when closed */
+  dirty: boolean;
+}
+
+/**
+ * Heap and open files, for machine snapshots
+ */
+export interface LinuxSyscallState {
+  initialBreak: number;
+  programBreak: number;
+  files: Array<[number, LinuxFile]>;
+}
+
+export class LinuxSyscalls {
+  private initialBreak: number = 0;
+  private programBreak: number = 0;
+  private files: Map<number, LinuxFile> = new Map();
+
+  /**
+   * @param putchar Prints a byte on the console
+   */
+  constructor(private readonly cpu: RiscVCpu, private readonly putchar: (char: number) => void) {}
+
+  /**
+   * Start the heap at an address (the end of the loaded program)
+   */
+  setBreak(address: number): void {
+    this.initialBreak = address;
+    this.programBreak = address;
+  }
+
+  /**
+   * Handle the ECALL in a7
+   */
+  handle(): LinuxSyscallOutcome {
+    const cpu = this.cpu;
+    const number = cpu.getReg(17);
+    const a0 = cpu.getReg(10);
+    const a1 = cpu.getReg(11);
+    const a2 = cpu.getReg(12);
+
+    let result: number;
+    try {
+      switch (number) {
+        case LINUX_SYSCALL.EXIT:
+        case LINUX_SYSCALL.EXIT_GROUP:
+          this.closeAll();
+          cpu.exitCode = a0;
+          cpu.halted = true;
+          return 'halt';
+        case LINUX_SYSCALL.READ: {
+          const count = this.read(a0, a1, a2);
+          if (count === null) {
+            return 'block';
+          }
+          result = count;
+          break;
+        }
+        case LINUX_SYSCALL.WRITE:
+          result = this.write(a0, a1, a2);
+          break;
+        case LINUX_SYSCALL.WRITEV:
+          result = this.writev(a0, a1, a2);
+          break;
+        case LINUX_SYSCALL.OPENAT:
+          result = this.openat(a1, a2);
+          break;
+        case LINUX_SYSCALL.CLOSE:
+          result = this.close(a0);
+          break;
+        case LINUX_SYSCALL.LSEEK:
+          result = this.lseek(a0, a1 | 0, a2);
+          break;
+        case LINUX_SYSCALL.FSTAT:
+          result = this.fstat(a0, a1);
+          break;
+        case LINUX_SYSCALL.BRK:
+          result = this.brk(a0);
+          break;
+        case LINUX_SYSCALL.CLOCK_GETTIME:
+          result = this.clockGettime(a0, a1, false);
+          break;
+        case LINUX_SYSCALL.CLOCK_GETTIME64:
+          result = this.clockGettime(a0, a1, true);
+          break;
+        case LINUX_SYSCALL.IOCTL:
+          // No terminal ioctls: programs treat every descriptor as a file
+          result = this.isOpen(a0) ? -LINUX_ERRNO.ENOTTY : -LINUX_ERRNO.EBADF;
+          break;
+        case LINUX_SYSCALL.SET_TID_ADDRESS:
+          result = 1; // The only thread
+          break;
+        default:
+          result = -LINUX_ERRNO.ENOSYS;
+      }
+    } catch (e) {
+      // A pointer to unmapped memory
+      if (!(e instanceof BusError)) {
+        throw e;
+      }
+      result = -LINUX_ERRNO.EFAULT;
+    }
+    cpu.setReg(10, result >>> 0);
+    return 'retire';
+  }
+
+  /**
+   * Copy the heap bounds and open files
+   */
+  saveState(): LinuxSyscallState {
+    return {
+      initialBreak: this.initialBreak,
+      programBreak: this.programBreak,
+      files: [...this.files].map(([fd, file]) => [fd, { ...file, data: file.data.slice(0, file.size) }]),
+    };
+  }
+
+  /**
+   * Restore state copied by saveState()
+   */
+  restoreState(state: LinuxSyscallState): void {
+    this.initialBreak = state.initialBreak;
+    this.programBreak = state.programBreak;
+    this.files = new Map(state.files.map(([fd, file]) => [fd, { ...file, data: new Uint8Array(file.data) }]));
+  }
+
+  /**
+   * read(): returns the byte count, or null while stdin has no key yet
+   */
+  private read(fd: number, buffer: number, count: number): number | null {
+    if (fd === 0) {
+      const keyboard = this.cpu.keyboard;
+      if (count === 0) {
+        return 0;
+      }
+      if (!keyboard.hasKey()) {
+        return null;
+      }
+      // Deliver up to the end of the line, with Enter as newline
+      let read = 0;
+      while (read < count && keyboard.hasKey()) {
+        const key = keyboard.readKey();
+        const byte = key === 0x0D ? 0x0A : key;
+        this.cpu.storeVirtual(buffer + read++, byte, 1);
+        if (byte === 0x0A) {
+          break;
+        }
+      }
+      return read;
+    }
+
+    const file = this.files.get(fd);
+    if (file === undefined || !file.readable) {
+      return -LINUX_ERRNO.EBADF;
+    }
+    const toRead = Math.max(0, Math.min(count, file.size - file.cursor));
+    for (let i = 0; i < toRead; i++) {
+      this.cpu.storeVirtual(buffer + i, file.data[file.cursor++], 1);
+    }
+    return toRead;
+  }
+
+  /**
+   * write(): print to the console or write into an open file
+   */
+  private write(fd: number, buffer: number, count: number): number {
+    if (fd === 1 || fd === 2) {
+      for (let i = 0; i < count; i++) {
+        this.putchar(this.cpu.loadVirtual(buffer + i, 1));
+      }
+      return count;
+    }
+
+    const file = this.files.get(fd);
+    if (file === undefined || !file.writable) {
+      return -LINUX_ERRNO.EBADF;
+    }
+    if (file.append) {
+      file.cursor = file.size;
+    }
+    this.reserve(file, file.cursor + count);
+    for (let i = 0; i < count; i++) {
+      file.data[file.cursor++] = this.cpu.loadVirtual(buffer + i, 1);
+    }
+    file.size = Math.max(file.size, file.cursor);
+    file.dirty = true;
+    return count;
+  }
+
+  /**
+   * writev(): write each { base, length } of an iovec array in turn
+   */
+  private writev(fd: number, iov: number, count: number): number {
+    let total = 0;
+    for (let i = 0; i < count; i++) {
+      const base = this.cpu.loadVirtual(iov + i * 8, 4);
+      const length = this.cpu.loadVirtual(iov + i * 8 + 4, 4);
+      const written = this.write(fd, base, length);
+      if (written < 0) {
+        return total > 0 ? total : written;
+      }
+      total += written;
+    }
+    return total;
+  }
+
+  /**
+   * openat(): open a WireFS file (the directory descriptor is ignored)
+   */
+  private openat(pathAddress: number, flags: number): number {
+    const filesystem = this.cpu.filesystem;
+    if (filesystem === null) {
+      return -LINUX_ERRNO.ENOENT;
+    }
+
+    const filename = this.readString(pathAddress).replace(/^(\.?\/)+/, '');
+    if (filename === '' || filename.includes('/')) {
+      return -LINUX_ERRNO.ENOENT;
+    }
+
+    const access = flags & LINUX_OPEN.ACCMODE;
+    const readable = access === LINUX_OPEN.RDONLY || access === LINUX_OPEN.RDWR;
+    const writable = access === LINUX_OPEN.WRONLY || access === LINUX_OPEN.RDWR;
+    if (!readable && !writable) {
+      return -LINUX_ERRNO.EINVAL;
+    }
+
+    let data = filesystem.readFile(filename);
+    if (data === null) {
+      if (!(flags & LINUX_OPEN.CREAT)) {
+        return -LINUX_ERRNO.ENOENT;
+      }
+      if (!filesystem.createFile(filename)) {
+        return -LINUX_ERRNO.EACCES;
+      }
+      data = new Uint8Array(0);
+    }
+
+    const fd = this.allocateFd();
+    if (fd < 0) {
+      return fd;
+    }
+    const truncate = writable && (flags & LINUX_OPEN.TRUNC) !== 0;
+    this.files.set(fd, {
+      filename,
+      data: truncate ? new Uint8Array(0) : new Uint8Array(data),
+      size: truncate ? 0 : data.length,
+      cursor: 0,
+      readable,
+      writable,
+      append: (flags & LINUX_OPEN.APPEND) !== 0,
+      dirty: truncate,
+    });
+    return fd;
+  }
+
+  /**
+   * close(): save a written file back to WireFS
+   */
+  private close(fd: number): number {
+    const file = this.files.get(fd);
+    if (file === undefined) {
+      return fd <= 2 ? 0 : -LINUX_ERRNO.EBADF;
+    }
+    this.files.delete(fd);
+    if (file.dirty) {
+      this.save(file);
+    }
+    return 0;
+  }
+
+  /**
+   * lseek(): move the cursor of an open file
+   */
+  private lseek(fd: number, offset: number, whence: number): number {
+    const file = this.files.get(fd);
+    if (file === undefined) {
+      return -LINUX_ERRNO.EBADF;
+    }
+    let position: number;
+    switch (whence) {
+      case SEEK_SET:
+        position = offset;
+        break;
+      case SEEK_CUR:
+        position = file.cursor + offset;
+        break;
+      case SEEK_END:
+        position = file.size + offset;
+        break;
+      default:
+        return -LINUX_ERRNO.EINVAL;
+    }
+    if (position < 0) {
+      return -LINUX_ERRNO.EINVAL;
+    }
+    file.cursor = position;
+    return position;
+  }
+
+  /**
+   * fstat(): fill in newlib's struct kernel_stat (64-bit dev, ino,
+   * rdev, size and blocks; 32-bit timespecs)
+   */
+  private fstat(fd: number, statAddress: number): number {
+    let mode: number;
+    let size = 0;
+    const file = this.files.get(fd);
+    if (file !== undefined) {
+      mode = S_IFREG | 0o644;
+      size = file.size;
+    } else if (fd <= 2) {
+      mode = S_IFCHR | 0o620;
+    } else {
+      return -LINUX_ERRNO.EBADF;
+    }
+
+    for (let offset = 0; offset < STAT_SIZE; offset += 4) {
+      this.cpu.storeVirtual(statAddress + offset, 0, 4);
+    }
+    this.cpu.storeVirtual(statAddress + 8, fd, 4);       // st_ino
+    this.cpu.storeVirtual(statAddress + 16, mode, 4);    // st_mode
+    this.cpu.storeVirtual(statAddress + 20, 1, 4);       // st_nlink
+    this.cpu.storeVirtual(statAddress + 48, size, 4);    // st_size
+    this.cpu.storeVirtual(statAddress + 56, 512, 4);     // st_blksize
+    this.cpu.storeVirtual(statAddress + 64, Math.ceil(size / 512), 4); // st_blocks
+    return 0;
+  }
+
+  /**
+   * brk(): move the program break; returns the (possibly unchanged) break
+   */
+  private brk(address: number): number {
+    if (address >= this.initialBreak && address < this.cpu.getReg(2)) {
+      for (let i = this.programBreak; i < address; i++) {
+        this.cpu.storeVirtual(i, 0, 1);
+      }
+      this.programBreak = address;
+    }
+    return this.programBreak;
+  }
+
+  /**
+   * clock_gettime(): host wall time for CLOCK_REALTIME, executed cycles
+   * at the nominal clock for the monotonic clocks
+   */
+  private clockGettime(clock: number, timespec: number, wide: boolean): number {
+    let seconds: number;
+    let nanoseconds: number;
+    if (clock === CLOCK_REALTIME) {
+      const now = Date.now();
+      seconds = Math.floor(now / 1000);
+      nanoseconds = (now % 1000) * 1_000_000;
+    } else {
+      const cycles = this.cpu.cycles;
+      seconds = Math.floor(cycles / CYCLES_PER_SECOND);
+      nanoseconds = (cycles % CYCLES_PER_SECOND) * (1_000_000_000 / CYCLES_PER_SECOND);
+    }
+
+    this.cpu.storeVirtual(timespec, seconds, 4);
+    if (wide) {
+      // struct __kernel_timespec: 64-bit tv_sec and tv_nsec
+      this.cpu.storeVirtual(timespec + 4, Math.floor(seconds / 0x100000000), 4);
+      this.cpu.storeVirtual(timespec + 8, nanoseconds, 4);
+      this.cpu.storeVirtual(timespec + 12, 0, 4);
+    } else {
+      this.cpu.storeVirtual(timespec + 4, nanoseconds, 4);
+    }
+    return 0;
+  }
+
+  /**
+   * Save every written file, as the kernel does when a process exits
+   */
+  private closeAll(): void {
+    for (const fd of [...this.files.keys()]) {
+      this.close(fd);
+    }
+  }
+
+  /**
+   * Check whether a descriptor is the console or an open file
+   */
+  private isOpen(fd: number): boolean {
+    return fd <= 2 || this.files.has(fd);
+  }
+
+  /**
+   * Lowest free descriptor, or -EMFILE
+   */
+  private allocateFd(): number {
+    for (let fd = FIRST_FILE; fd < MAX_FILES; fd++) {
+      if (!this.files.has(fd)) {
+        return fd;
+      }
+    }
+    return -LINUX_ERRNO.EMFILE;
+  }
+
+  /**
+   * Grow a file's buffer to hold at least size bytes
+   */
+  private reserve(file: LinuxFile, size: number): void {
+    if (size > file.data.length) {
+      const data = new Uint8Array(Math.max(size, file.data.length * 2));
+      data.set(file.data.subarray(0, file.size));
+      file.data = data;
+    }
+  }
+
+  /**
+   * Write a file's contents to WireFS
+   */
+  private save(file: LinuxFile): void {
+    this.cpu.filesystem?.writeFile(file.filename, file.data.slice(0, file.size));
+  }
+
+  /**
+   * Read a NUL-terminated path from memory
+   */
+  private readString(address: number): string {
+    let text = '';
+    for (let i = 0; i < 256; i++) {
+      const ch = this.cpu.loadVirtual(address + i, 1);
+      if (ch === 0) {
+        break;
+      }
+      text += String.fromCharCode(ch);
+    }
+    return text;
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Machine Memory Map
+ *
+ * Describes where a machine places its main RAM, an optional boot ROM
+ * and its built-in devices. The CPU maps its bus from the map and
+ * starts at the reset vector; the bootloader, program loader and boot
+ * disk take their load addresses and stack top from the RAM range.
+ * Addresses outside every mapped range raise access faults.
+ *
+ * The default map is the original layout: 64KB of RAM at 0, no ROM,
+ * execution from 0 and the devices at their usual bases. Devices keep
+ * their register layout when moved; only the base changes.
+ */
+
+import { CLINT_BASE } from './clint.js';
+import { PLIC_BASE } from './plic.js';
+import { GRAPHICS_BASE } from './graphics.js';
+import { STORAGE_BASE } from './storage-controller.js';
+import { KEYBOARD_BASE } from './keyboard.js';
+
+/** A range of the physical address space */
+export interface MemoryRange {
+  base: number;
+  size: number;
+}
+
+/** Read-only memory, with its initial contents */
+export interface RomRange extends MemoryRange {
+  /** Image copied to the start of the ROM (at most `size` bytes) */
+  data?: Uint8Array;
+}
+
+/** Base addresses of the built-in devices */
+export interface DeviceBases {
+  clint: number;
+  plic: number;
+  graphics: number;
+  storage: number;
+  keyboard: number;
+}
+
+/**
+ * Layout of a machine's physical address space
+ */
+export interface MemoryMap {
+  /** Main RAM */
+  ram: MemoryRange;
+  /** Boot ROM (none by default) */
+  rom?: RomRange;
+  /** Address the hart starts at after reset */
+  resetVector: number;
+  devices: DeviceBases;
+}
+
+/**
+ * Memory map options; missing fields take their default values
+ */
+export interface MemoryMapConfig {
+  ram?: Partial<MemoryRange>;
+  rom?: RomRange;
+  resetVector?: number;
+  devices?: Partial<DeviceBases>;
+}
+
+/** Default RAM size (64KB) */
+export const DEFAULT_RAM_SIZE = 64 * 1024;
+
+/** Usual device bases */
+export const DEFAULT_DEVICE_BASES: Readonly<DeviceBases> = {
+  clint: CLINT_BASE,
+  plic: PLIC_BASE,
+  graphics: GRAPHICS_BASE,
+  storage: STORAGE_BASE,
+  keyboard: KEYBOARD_BASE,
+};
+
+/** Original layout: RAM at 0 and execution from 0 */
+export const DEFAULT_MEMORY_MAP: Readonly<MemoryMap> = {
+  ram: { base: 0, size: DEFAULT_RAM_SIZE },
+  resetVector: 0,
+  devices: DEFAULT_DEVICE_BASES,
+};
+
+/**
+ * Board-style layout: 16MB of RAM at 0x80000000 and a 64KB boot ROM
+ * at 0xFFFF0000 holding the reset vector
+ */
+export const BOARD_MEMORY_MAP: Readonly<MemoryMap> = {
+  ram: { base: 0x80000000, size: 16 * 1024 * 1024 },
+  rom: { base: 0xFFFF0000, size: 0x10000 },
+  resetVector: 0xFFFF0000,
+  devices: DEFAULT_DEVICE_BASES,
+};
+
+/**
+ * Check whether an address falls inside a range
+ */
+function contains(range: MemoryRange, address: number): boolean {
+  return address >= range.base && address < range.base + range.size;
+}
+
+/**
+ * Fill in defaults and validate a memory map
+ *
+ * @param memorySize RAM size when the map does not give one
+ * @throws Error if a range is empty or leaves the 32-bit address space,
+ *   the ROM image is larger than the ROM, or the reset vector is
+ *   neither in RAM nor in ROM
+ */
+export function resolveMemoryMap(config: MemoryMapConfig = {}, memorySize?: number): MemoryMap {
+  const ram: MemoryRange = {
+    base: (config.ram?.base ?? DEFAULT_MEMORY_MAP.ram.base) >>> 0,
+    size: config.ram?.size ?? memorySize ?? DEFAULT_RAM_SIZE,
+  };
+  const rom = config.rom && { ...config.rom, base: config.rom.base >>> 0 };
+  const map: MemoryMap = {
+    ram,
+    rom,
+    resetVector: (config.resetVector ?? rom?.base ?? ram.base) >>> 0,
+    devices: { ...DEFAULT_DEVICE_BASES, ...config.devices },
+  };
+
+  for (const [name, range] of [['RAM', ram], ['ROM', rom]] as const) {
+    if (range && (range.size <= 0 || range.base + range.size > 0x100000000)) {
+      throw new Error(`Invalid ${name} range: base 0x${range.base.toString(16)}, size ${range.size}`);
+    }
+  }
+  if (rom?.data && rom.data.length > rom.size) {
+    throw new Error(`ROM image of ${rom.data.length} bytes does not fit in ${rom.size} bytes of ROM`);
+  }
+  if (!contains(ram, map.resetVector) && !(rom && contains(rom, map.resetVector))) {
+    throw new Error(`Reset vector 0x${map.resetVector.toString(16)} is outside RAM and ROM`);
+  }
+  return map;
+}
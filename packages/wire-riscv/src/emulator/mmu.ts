@@ -0,0 +1,222 @@
+/**
+ * RISC-V Sv32 Memory Management Unit
+ *
+ * Translates virtual addresses through two-level Sv32 page tables
+ * and caches leaf entries in a small TLB. Accessed/dirty bits are
+ * updated in the page table by hardware. Failed translations raise
+ * the page-fault exception matching the access type.
+ */
+
+import { MSTATUS, PRIVILEGE, SATP } from './csr.js';
+import { EXCEPTION_CAUSE, TrapException } from './trap.js';
+
+export const PAGE_SIZE = 4096;
+export const PAGE_SHIFT = 12;
+
+/** Page table entry bits */
+export const PTE = {
+  V: 1 << 0,
+  R: 1 << 1,
+  W: 1 << 2,
+  X: 1 << 3,
+  U: 1 << 4,
+  G: 1 << 5,
+  A: 1 << 6,
+  D: 1 << 7,
+} as const;
+
+export enum AccessType {
+  FETCH = 0,
+  LOAD = 1,
+  STORE = 2,
+}
+
+const PAGE_FAULT: Record<AccessType, number> = {
+  [AccessType.FETCH]: EXCEPTION_CAUSE.INSTRUCTION_PAGE_FAULT,
+  [AccessType.LOAD]: EXCEPTION_CAUSE.LOAD_PAGE_FAULT,
+  [AccessType.STORE]: EXCEPTION_CAUSE.STORE_PAGE_FAULT,
+};
+
+/** Access fault of each access type */
+export const ACCESS_FAULT: Record<AccessType, number> = {
+  [AccessType.FETCH]: EXCEPTION_CAUSE.INSTRUCTION_ACCESS_FAULT,
+  [AccessType.LOAD]: EXCEPTION_CAUSE.LOAD_ACCESS_FAULT,
+  [AccessType.STORE]: EXCEPTION_CAUSE.STORE_ACCESS_FAULT,
+};
+
+const DEFAULT_TLB_SIZE = 64;
+
+/** Cached leaf translation for one 4 KiB virtual page */
+interface TlbEntry {
+  /** Physical page number of the 4 KiB page */
+  ppn: number;
+  /** Leaf PTE flags */
+  flags: number;
+}
+
+/**
+ * Physical memory used for page table walks
+ */
+export interface PageTableMemory {
+  /** Read a 32-bit word, or return null if the address is not RAM */
+  readPhysicalWord(address: number): number | null;
+  /** Write a 32-bit word to RAM */
+  writePhysicalWord(address: number, value: number): void;
+}
+
+export class Mmu {
+  private tlb: Map<number, TlbEntry> = new Map();
+  private hits: number = 0;
+  private misses: number = 0;
+
+  constructor(
+    private readonly memory: PageTableMemory,
+    private readonly tlbSize: number = DEFAULT_TLB_SIZE
+  ) {}
+
+  /**
+   * Check whether translation applies for the given satp and privilege
+   */
+  isActive(satp: number, privilege: number): boolean {
+    return (satp & SATP.MODE_SV32) !== 0 && privilege !== PRIVILEGE.MACHINE;
+  }
+
+  /**
+   * Translate a virtual address, raising a page fault on failure
+   */
+  translate(
+    address: number,
+    access: AccessType,
+    privilege: number,
+    satp: number,
+    mstatus: number
+  ): number {
+    if (!this.isActive(satp, privilege)) {
+      return address >>> 0;
+    }
+
+    let entry = this.tlb.get(address >>> PAGE_SHIFT);
+    if (entry && (access !== AccessType.STORE || (entry.flags & PTE.D))) {
+      this.hits++;
+      this.checkPermissions(entry.flags, address, access, privilege, mstatus);
+    } else {
+      this.misses++;
+      entry = this.walk(address, access, privilege, satp, mstatus);
+    }
+
+    return ((entry.ppn << PAGE_SHIFT) | (address & (PAGE_SIZE - 1))) >>> 0;
+  }
+
+  /**
+   * Flush the whole TLB, or only the entry for one virtual address
+   */
+  flush(address?: number): void {
+    if (address === undefined) {
+      this.tlb.clear();
+    } else {
+      this.tlb.delete(address >>> PAGE_SHIFT);
+    }
+  }
+
+  /**
+   * Get TLB hit/miss counters
+   */
+  getStats(): { hits: number; misses: number; entries: number } {
+    return { hits: this.hits, misses: this.misses, entries: this.tlb.size };
+  }
+
+  /**
+   * Walk the page table, check permissions and cache the resulting leaf
+   */
+  private walk(
+    address: number,
+    access: AccessType,
+    privilege: number,
+    satp: number,
+    mstatus: number
+  ): TlbEntry {
+    const vpn = [(address >>> 12) & 0x3FF, (address >>> 22) & 0x3FF];
+    let tableAddress = (satp & SATP.PPN_MASK) * PAGE_SIZE;
+
+    for (let level = 1; level >= 0; level--) {
+      const pteAddress = (tableAddress + vpn[level] * 4) >>> 0;
+      const pte = this.memory.readPhysicalWord(pteAddress);
+      if (pte === null) {
+        throw new TrapException(ACCESS_FAULT[access], address);
+      }
+
+      if (!(pte & PTE.V) || (!(pte & PTE.R) && (pte & PTE.W))) {
+        throw new TrapException(PAGE_FAULT[access], address);
+      }
+
+      const ppn = pte >>> 10;
+      if (!(pte & (PTE.R | PTE.X))) {
+        // Pointer to the next level
+        if (level === 0) {
+          throw new TrapException(PAGE_FAULT[access], address);
+        }
+        tableAddress = ppn * PAGE_SIZE;
+        continue;
+      }
+
+      // Superpages must be aligned to 4 MiB
+      if (level === 1 && (ppn & 0x3FF) !== 0) {
+        throw new TrapException(PAGE_FAULT[access], address);
+      }
+
+      let flags = pte & 0x3FF;
+      this.checkPermissions(flags, address, access, privilege, mstatus);
+
+      // Hardware-managed accessed/dirty bits
+      const update = PTE.A | (access === AccessType.STORE ? PTE.D : 0);
+      if ((flags & update) !== update) {
+        flags |= update;
+        this.memory.writePhysicalWord(pteAddress, ((pte & ~0x3FF) | flags) >>> 0);
+      }
+
+      // A superpage maps VPN[0] straight through
+      const pagePpn = level === 1 ? (ppn | vpn[0]) : ppn;
+      const entry: TlbEntry = { ppn: pagePpn, flags };
+      if (this.tlb.size >= this.tlbSize) {
+        this.tlb.clear();
+      }
+      this.tlb.set(address >>> PAGE_SHIFT, entry);
+      return entry;
+    }
+
+    // Unreachable: level 0 either returns or throws
+    throw new TrapException(PAGE_FAULT[access], address);
+  }
+
+  /**
+   * Check leaf permissions for the effective privilege
+   */
+  private checkPermissions(
+    flags: number,
+    address: number,
+    access: AccessType,
+    privilege: number,
+    mstatus: number
+  ): void {
+    const fault = () => new TrapException(PAGE_FAULT[access], address);
+
+    if (privilege === PRIVILEGE.USER) {
+      if (!(flags & PTE.U)) throw fault();
+    } else if (flags & PTE.U) {
+      // Supervisor never executes user pages and needs SUM to access them
+      if (access === AccessType.FETCH || !(mstatus & MSTATUS.SUM)) throw fault();
+    }
+
+    switch (access) {
+      case AccessType.FETCH:
+        if (!(flags & PTE.X)) throw fault();
+        break;
+      case AccessType.LOAD:
+        if (!(flags & PTE.R) && !((mstatus & MSTATUS.MXR) && (flags & PTE.X))) throw fault();
+        break;
+      case AccessType.STORE:
+        if (!(flags & PTE.W)) throw fault();
+        break;
+    }
+  }
+}
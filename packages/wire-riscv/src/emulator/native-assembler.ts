@@ -6,6 +6,8 @@
  *
  * Supports:
  * - Basic RV32I instructions
+ * - RV32M multiply/divide instructions
+ * - Zicsr instructions (csrrw, csrr, csrw, ...) and MRET/SRET/WFI/SFENCE.VMA
  * - Labels (forward and backward)
  * - Directives (.byte, .word, .ascii, .asciiz, .space)
  * - Register aliases (x0-x31 and ABI names)
@@ -14,6 +16,7 @@
 
 import { RiscVCpu } from './cpu.js';
 import { WireFS } from './filesystem.js';
+import { CSR } from './csr.js';
 
 /** Syscall numbers for assembler operations */
 export const NATIVE_ASM_SYSCALLS = {
@@ -491,6 +494,14 @@ export class NativeAssembler {
       case 'SRA':
       case 'OR':
       case 'AND':
+      case 'MUL':
+      case 'MULH':
+      case 'MULHSU':
+      case 'MULHU':
+      case 'DIV':
+      case 'DIVU':
+      case 'REM':
+      case 'REMU':
         this.emitRegALU(mnemonic, operands);
         break;
 
@@ -502,6 +513,47 @@ export class NativeAssembler {
         this.emitWord(0x00100073);
         break;
 
+      case 'MRET':
+        this.emitWord(0x30200073);
+        break;
+
+      case 'SRET':
+        this.emitWord(0x10200073);
+        break;
+
+      case 'WFI':
+        this.emitWord(0x10500073);
+        break;
+
+      case 'SFENCE.VMA': {
+        const rs1 = operands[0] ? this.parseRegister(operands[0]) : 0;
+        const rs2 = operands[1] ? this.parseRegister(operands[1]) : 0;
+        this.emitWord(((0x09 << 25) | (rs2 << 20) | (rs1 << 15) | 0x73) >>> 0);
+        break;
+      }
+
+      case 'CSRRW':
+      case 'CSRRS':
+      case 'CSRRC':
+      case 'CSRRWI':
+      case 'CSRRSI':
+      case 'CSRRCI':
+        this.emitCsr(mnemonic, operands);
+        break;
+
+      // CSR pseudo-instructions
+      case 'CSRR':
+        this.emitCsr('CSRRS', [operands[0], operands[1], 'zero']);
+        break;
+      case 'CSRW':
+      case 'CSRS':
+      case 'CSRC':
+      case 'CSRWI':
+      case 'CSRSI':
+      case 'CSRCI':
+        this.emitCsr(`CSRR${mnemonic.slice(3)}`, ['zero', ...operands]);
+        break;
+
       default:
         throw this.error(`Unknown instruction: ${mnemonic}`);
     }
@@ -691,12 +743,16 @@ export class NativeAssembler {
     const funct3Map: Record<string, number> = {
       ADD: 0, SUB: 0, SLL: 1, SLT: 2, SLTU: 3,
       XOR: 4, SRL: 5, SRA: 5, OR: 6, AND: 7,
+      MUL: 0, MULH: 1, MULHSU: 2, MULHU: 3,
+      DIV: 4, DIVU: 5, REM: 6, REMU: 7,
     };
     const funct3 = funct3Map[mnemonic];
 
     let funct7 = 0;
     if (mnemonic === 'SUB' || mnemonic === 'SRA') {
       funct7 = 0x20;
+    } else if (mnemonic.startsWith('MUL') || mnemonic.startsWith('DIV') || mnemonic.startsWith('REM')) {
+      funct7 = 0x01; // M extension
     }
 
     // R-type
@@ -704,6 +760,45 @@ export class NativeAssembler {
     this.emitWord(inst);
   }
 
+  private emitCsr(mnemonic: string, operands: string[]): void {
+    if (operands.length !== 3 || operands.some((op) => op === undefined)) {
+      throw this.error(`${mnemonic} requires 3 operands`);
+    }
+    const rd = this.parseRegister(operands[0]);
+    const csr = this.parseCsr(operands[1]);
+
+    const funct3Map: Record<string, number> = {
+      CSRRW: 1, CSRRS: 2, CSRRC: 3, CSRRWI: 5, CSRRSI: 6, CSRRCI: 7,
+    };
+    const funct3 = funct3Map[mnemonic];
+
+    // Immediate forms carry a 5-bit zero-extended value in the rs1 field
+    let rs1: number;
+    if (funct3 >= 5) {
+      rs1 = this.parseNumber(operands[2]);
+      if (rs1 < 0 || rs1 > 31) {
+        throw this.error(`${mnemonic} immediate out of range: ${rs1}`);
+      }
+    } else {
+      rs1 = this.parseRegister(operands[2]);
+    }
+
+    const inst = (csr << 20) | (rs1 << 15) | (funct3 << 12) | (rd << 7) | 0x73;
+    this.emitWord(inst >>> 0);
+  }
+
+  private parseCsr(name: string): number {
+    const upper = name.toUpperCase();
+    if (upper in CSR) {
+      return CSR[upper as keyof typeof CSR];
+    }
+    const csr = this.parseNumber(name);
+    if (isNaN(csr) || csr < 0 || csr > 0xFFF) {
+      throw this.error(`Invalid CSR: ${name}`);
+    }
+    return csr;
+  }
+
   private parseRegister(name: string): number {
     const normalized = name.toLowerCase();
     if (!(normalized in REGISTERS)) {
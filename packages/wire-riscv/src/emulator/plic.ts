@@ -0,0 +1,263 @@
+/**
+ * RISC-V Platform-Level Interrupt Controller (PLIC)
+ *
+ * Routes device interrupt lines to the hart's machine external
+ * interrupt (mip.MEIP). Register layout follows the standard PLIC
+ * with a single context (hart 0, machine mode).
+ *
+ * Memory Map:
+ * - 0x0C000000: PLIC registers base
+ *
+ * Registers:
+ * - 0x000000 + 4*n: Priority of source n (0 = never interrupt, 1-7)
+ * - 0x001000: Pending bits (read-only)
+ * - 0x002000: Enable bits
+ * - 0x200000: Priority threshold
+ * - 0x200004: Claim (read) / complete (write)
+ *
+ * Sources are level-triggered: a source is pending while its device
+ * holds the line high and it is not already claimed.
+ */
+
+export const PLIC_BASE = 0x0C000000;
+export const PLIC_SIZE = 0x400000;
+export const PLIC_NUM_SOURCES = 32;
+
+export const PLIC_REGS = {
+  PRIORITY: 0x000000,
+  PENDING: 0x001000,
+  ENABLE: 0x002000,
+  THRESHOLD: 0x200000,
+  CLAIM: 0x200004,
+} as const;
+
+/** Interrupt source numbers for the platform devices */
+export const PLIC_IRQ = {
+  KEYBOARD: 1,
+  STORAGE: 2,
+  GRAPHICS: 3,
+} as const;
+
+const MAX_PRIORITY = 7;
+
+/**
+ * Priorities, enables and claims, for machine snapshots
+ */
+export interface PlicState {
+  priority: number[];
+  levels: number;
+  enabled: number;
+  inService: number;
+  threshold: number;
+}
+
+export class Plic {
+  private priority: Uint8Array = new Uint8Array(PLIC_NUM_SOURCES);
+  private levels: number = 0;
+  private enabled: number = 0;
+  private inService: number = 0;
+  private threshold: number = 0;
+
+  /**
+   * Reset priorities, enables and claims
+   */
+  reset(): void {
+    this.priority.fill(0);
+    this.levels = 0;
+    this.enabled = 0;
+    this.inService = 0;
+    this.threshold = 0;
+  }
+
+  /**
+   * Copy the registers and the state of the interrupt lines
+   */
+  saveState(): PlicState {
+    return {
+      priority: Array.from(this.priority),
+      levels: this.levels,
+      enabled: this.enabled,
+      inService: this.inService,
+      threshold: this.threshold,
+    };
+  }
+
+  /**
+   * Restore state copied by saveState()
+   */
+  restoreState(state: PlicState): void {
+    this.priority.set(state.priority);
+    this.levels = state.levels;
+    this.enabled = state.enabled;
+    this.inService = state.inService;
+    this.threshold = state.threshold;
+  }
+
+  /**
+   * Drive a device interrupt line (source 0 is reserved)
+   */
+  setLevel(source: number, level: boolean): void {
+    if (source <= 0 || source >= PLIC_NUM_SOURCES) {
+      return;
+    }
+    const bit = 1 << source;
+    this.levels = level ? (this.levels | bit) >>> 0 : (this.levels & ~bit) >>> 0;
+  }
+
+  /**
+   * Get the pending bits (asserted and not claimed)
+   */
+  getPending(): number {
+    return (this.levels & ~this.inService) >>> 0;
+  }
+
+  /**
+   * Check if a source can be claimed (drives mip.MEIP)
+   */
+  hasInterrupt(): boolean {
+    return this.bestSource() !== 0;
+  }
+
+  /**
+   * Claim the highest-priority pending source (0 if none)
+   */
+  claim(): number {
+    const source = this.bestSource();
+    if (source !== 0) {
+      this.inService = (this.inService | (1 << source)) >>> 0;
+    }
+    return source;
+  }
+
+  /**
+   * Signal that the handler for a claimed source has finished
+   */
+  complete(source: number): void {
+    if (source <= 0 || source >= PLIC_NUM_SOURCES) {
+      return;
+    }
+    this.inService = (this.inService & ~(1 << source)) >>> 0;
+  }
+
+  /**
+   * Find the enabled pending source with the highest priority above
+   * the threshold; ties go to the lowest source number
+   */
+  private bestSource(): number {
+    const candidates = this.getPending() & this.enabled;
+    if (candidates === 0) {
+      return 0;
+    }
+    let best = 0;
+    let bestPriority = this.threshold;
+    for (let source = 1; source < PLIC_NUM_SOURCES; source++) {
+      if ((candidates & (1 << source)) && this.priority[source] > bestPriority) {
+        best = source;
+        bestPriority = this.priority[source];
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Read a register value
+   */
+  readRegister(offset: number): number {
+    if (offset >= PLIC_REGS.PRIORITY && offset < PLIC_REGS.PRIORITY + PLIC_NUM_SOURCES * 4) {
+      return this.priority[offset >> 2];
+    }
+    switch (offset) {
+      case PLIC_REGS.PENDING:
+        return this.getPending();
+      case PLIC_REGS.ENABLE:
+        return this.enabled;
+      case PLIC_REGS.THRESHOLD:
+        return this.threshold;
+      case PLIC_REGS.CLAIM:
+        return this.claim();
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * Write a register value
+   */
+  writeRegister(offset: number, value: number): void {
+    if (offset >= PLIC_REGS.PRIORITY && offset < PLIC_REGS.PRIORITY + PLIC_NUM_SOURCES * 4) {
+      const source = offset >> 2;
+      if (source !== 0) {
+        this.priority[source] = Math.min(value >>> 0, MAX_PRIORITY);
+      }
+      return;
+    }
+    switch (offset) {
+      case PLIC_REGS.ENABLE:
+        // Source 0 does not exist
+        this.enabled = (value & ~1) >>> 0;
+        break;
+      case PLIC_REGS.THRESHOLD:
+        this.threshold = Math.min(value >>> 0, MAX_PRIORITY);
+        break;
+      case PLIC_REGS.CLAIM:
+        this.complete(value >>> 0);
+        break;
+    }
+  }
+
+  // Memory-mapped I/O interface
+
+  /**
+   * Check if address is in PLIC memory range
+   */
+  isInRange(address: number): boolean {
+    const offset = address - PLIC_BASE;
+    return offset >= 0 && offset < PLIC_SIZE;
+  }
+
+  /**
+   * Read a 32-bit word from MMIO
+   */
+  mmioRead(address: number): number {
+    return this.readRegister((address - PLIC_BASE) & ~0x3);
+  }
+
+  /**
+   * Write a 32-bit word to MMIO
+   */
+  mmioWrite(address: number, value: number): void {
+    this.writeRegister((address - PLIC_BASE) & ~0x3, value);
+  }
+
+  /**
+   * Read a halfword from MMIO (registers are word-sized)
+   */
+  mmioReadHalfword(address: number): number {
+    const offset = address - PLIC_BASE;
+    return (this.readRegister(offset & ~0x3) >>> ((offset & 0x2) * 8)) & 0xFFFF;
+  }
+
+  /**
+   * Write a halfword to MMIO (zero-extended to the register)
+   */
+  mmioWriteHalfword(address: number, value: number): void {
+    const offset = address - PLIC_BASE;
+    this.writeRegister(offset & ~0x3, (value & 0xFFFF) << ((offset & 0x2) * 8));
+  }
+
+  /**
+   * Read a byte from MMIO
+   */
+  mmioReadByte(address: number): number {
+    const offset = address - PLIC_BASE;
+    return (this.readRegister(offset & ~0x3) >>> ((offset & 0x3) * 8)) & 0xFF;
+  }
+
+  /**
+   * Write a byte to MMIO (zero-extended to the register)
+   */
+  mmioWriteByte(address: number, value: number): void {
+    const offset = address - PLIC_BASE;
+    this.writeRegister(offset & ~0x3, (value & 0xFF) << ((offset & 0x3) * 8));
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * RISC-V Physical Memory Protection (PMP)
+ *
+ * Sixteen entries, configured through pmpcfg0-3 (one byte per entry)
+ * and pmpaddr0-15 (bits 33:2 of an address), restrict which physical
+ * addresses S- and U-mode may read, write and execute. Each entry
+ * matches a range:
+ *
+ *   TOR    pmpaddr[i-1] <= address < pmpaddr[i] (0 as the bottom of entry 0)
+ *   NA4    the 4 bytes at pmpaddr[i]
+ *   NAPOT  a naturally aligned power-of-two region of 8 bytes or
+ *          more, its size encoded by the trailing ones of pmpaddr[i]
+ *
+ * The lowest-numbered entry that matches any byte of an access
+ * decides it; an access that matches only partly fails. M-mode is
+ * only bound by locked entries, which also ignore further writes until
+ * reset. An S- or U-mode access no entry matches fails once any entry
+ * is enabled; while all entries are off, nothing is restricted, so
+ * software that never configures PMP runs unchanged. Failed checks
+ * raise the access fault of the access type.
+ */
+
+import { CSR, PRIVILEGE } from './csr.js';
+import { AccessType } from './mmu.js';
+
+/** Number of PMP entries */
+export const PMP_ENTRIES = 16;
+
+/** pmpcfg entry fields */
+export const PMP_CFG = {
+  R: 1 << 0,
+  W: 1 << 1,
+  X: 1 << 2,
+  /** Address-matching mode (bits 4:3) */
+  A_SHIFT: 3,
+  A_MASK: 0x3 << 3,
+  /** Locked: enforced in M-mode and read-only until reset */
+  L: 1 << 7,
+} as const;
+
+/** pmpcfg address-matching modes */
+export const PMP_MODE = {
+  OFF: 0,
+  TOR: 1,
+  NA4: 2,
+  NAPOT: 3,
+} as const;
+
+/** Implemented pmpcfg bits (bits 6:5 are reserved) */
+const CFG_WRITABLE = PMP_CFG.R | PMP_CFG.W | PMP_CFG.X | PMP_CFG.A_MASK | PMP_CFG.L;
+
+/** Permission needed by each access type */
+const PERMISSION: Record<AccessType, number> = {
+  [AccessType.FETCH]: PMP_CFG.X,
+  [AccessType.LOAD]: PMP_CFG.R,
+  [AccessType.STORE]: PMP_CFG.W,
+};
+
+/** An enabled entry, as a byte range (addresses reach 2^34) */
+interface PmpRegion {
+  start: number;
+  /** Exclusive */
+  end: number;
+  cfg: number;
+}
+
+/**
+ * PMP registers, for machine snapshots
+ */
+export interface PmpState {
+  cfg: number[];
+  addr: number[];
+}
+
+/**
+ * Check whether a CSR address is one of pmpcfg0-3 or pmpaddr0-15
+ */
+export function isPmpCsr(csr: number): boolean {
+  return (csr >= CSR.PMPCFG0 && csr <= CSR.PMPCFG3) ||
+    (csr >= CSR.PMPADDR0 && csr < CSR.PMPADDR0 + PMP_ENTRIES);
+}
+
+export class Pmp {
+  /** pmpcfg byte of each entry */
+  private readonly cfg = new Uint8Array(PMP_ENTRIES);
+  /** pmpaddr of each entry */
+  private readonly addr = new Uint32Array(PMP_ENTRIES);
+  /** Enabled entries in priority order */
+  private regions: PmpRegion[] = [];
+
+  /**
+   * Check whether any entry is enabled (otherwise nothing is checked)
+   */
+  isActive(): boolean {
+    return this.regions.length !== 0;
+  }
+
+  /**
+   * Turn every entry off and unlock it
+   */
+  reset(): void {
+    this.cfg.fill(0);
+    this.addr.fill(0);
+    this.regions = [];
+  }
+
+  /**
+   * Read pmpcfgN or pmpaddrN
+   */
+  read(csr: number): number {
+    if (csr >= CSR.PMPADDR0) {
+      return this.addr[csr - CSR.PMPADDR0];
+    }
+    const first = (csr - CSR.PMPCFG0) * 4;
+    return (this.cfg[first] | (this.cfg[first + 1] << 8) | (this.cfg[first + 2] << 16) | (this.cfg[first + 3] << 24)) >>> 0;
+  }
+
+  /**
+   * Write pmpcfgN or pmpaddrN; locked fields keep their value
+   */
+  write(csr: number, value: number): void {
+    if (csr >= CSR.PMPADDR0) {
+      const index = csr - CSR.PMPADDR0;
+      // A locked TOR entry also locks the address below it
+      const next = index + 1 < PMP_ENTRIES ? this.cfg[index + 1] : 0;
+      const lockedTop = (next & PMP_CFG.L) && ((next & PMP_CFG.A_MASK) >>> PMP_CFG.A_SHIFT) === PMP_MODE.TOR;
+      if (!(this.cfg[index] & PMP_CFG.L) && !lockedTop) {
+        this.addr[index] = value >>> 0;
+      }
+    } else {
+      const first = (csr - CSR.PMPCFG0) * 4;
+      for (let i = 0; i < 4; i++) {
+        if (this.cfg[first + i] & PMP_CFG.L) {
+          continue;
+        }
+        let cfg = (value >>> (i * 8)) & CFG_WRITABLE;
+        // W without R is reserved
+        if (!(cfg & PMP_CFG.R)) {
+          cfg &= ~PMP_CFG.W;
+        }
+        this.cfg[first + i] = cfg;
+      }
+    }
+    this.update();
+  }
+
+  /**
+   * Check an access of `size` bytes at a physical address
+   *
+   * @param privilege Effective privilege of the access
+   * @returns False if the access must raise an access fault
+   */
+  check(address: number, size: number, access: AccessType, privilege: number): boolean {
+    const first = address >>> 0;
+    const last = first + size;
+    for (const region of this.regions) {
+      if (last <= region.start || first >= region.end) {
+        continue;
+      }
+      if (first < region.start || last > region.end) {
+        return false;
+      }
+      if (privilege === PRIVILEGE.MACHINE && !(region.cfg & PMP_CFG.L)) {
+        return true;
+      }
+      return (region.cfg & PERMISSION[access]) !== 0;
+    }
+    return privilege === PRIVILEGE.MACHINE || this.regions.length === 0;
+  }
+
+  /**
+   * Copy the registers
+   */
+  saveState(): PmpState {
+    return { cfg: Array.from(this.cfg), addr: Array.from(this.addr) };
+  }
+
+  /**
+   * Restore registers copied by saveState()
+   */
+  restoreState(state: PmpState): void {
+    this.cfg.set(state.cfg);
+    this.addr.set(state.addr);
+    this.update();
+  }
+
+  /**
+   * Rebuild the list of enabled regions after a register write
+   */
+  private update(): void {
+    const regions: PmpRegion[] = [];
+    for (let i = 0; i < PMP_ENTRIES; i++) {
+      const cfg = this.cfg[i];
+      const address = this.addr[i];
+      switch ((cfg & PMP_CFG.A_MASK) >>> PMP_CFG.A_SHIFT) {
+        case PMP_MODE.TOR:
+          regions.push({ start: i === 0 ? 0 : this.addr[i - 1] * 4, end: address * 4, cfg });
+          break;
+        case PMP_MODE.NA4:
+          regions.push({ start: address * 4, end: address * 4 + 4, cfg });
+          break;
+        case PMP_MODE.NAPOT: {
+          // Trailing ones t encode a 2^(t+3)-byte region
+          let ones = 0;
+          while (ones < 32 && (address >>> ones) & 1) {
+            ones++;
+          }
+          const size = 2 ** (ones + 3);
+          const start = (address - (2 ** ones - 1)) * 4;
+          regions.push({ start, end: start + size, cfg });
+          break;
+        }
+      }
+    }
+    this.regions = regions;
+  }
+}
@@ -0,0 +1,412 @@
+/**
+ * Instruction-level Profiler
+ *
+ * Counts what a guest program spends its instructions on: executions
+ * per pc, the instruction mix by class, taken/not-taken counts per
+ * branch, MMIO accesses per bus device and host syscalls by number.
+ * PCs are resolved to `label+offset` through the assembler's symbol
+ * map or ELF symbols.
+ *
+ * Calls (JAL/JALR linking ra or t0) and returns (JALR through ra or
+ * t0) are followed to keep a shadow call stack, so the profile can
+ * also be written as collapsed stacks, one `outer;inner count` line
+ * per stack, for flamegraph.pl, speedscope and similar tools.
+ *
+ * Attach a profiler with `cpu.profiler = new Profiler(...)`. Each
+ * retired instruction counts as one cycle; instructions that trap do
+ * not retire and are not counted.
+ */
+
+import { OPCODE, SYSCALL, SYSTEM_FUNCT3, RiscVCpu, SyscallAbi } from './cpu.js';
+import { DecodedInstruction } from './decode-cache.js';
+import { ElfSymbol } from './elf.js';
+import { LINUX_SYSCALL } from './linux-syscalls.js';
+import { NATIVE_ASM_SYSCALLS } from './native-assembler.js';
+
+/** Instruction classes of the mix report */
+export type InstructionClass =
+  | 'alu' | 'alu-imm' | 'upper' | 'muldiv' | 'load' | 'store' | 'branch' | 'jump'
+  | 'atomic' | 'fp' | 'fence' | 'csr' | 'system';
+
+/**
+ * Taken and not-taken counts of one branch
+ */
+export interface BranchStats {
+  taken: number;
+  notTaken: number;
+}
+
+/**
+ * MMIO accesses to one bus device
+ */
+export interface DeviceStats {
+  reads: number;
+  writes: number;
+}
+
+/**
+ * Profiler settings
+ */
+export interface ProfilerOptions {
+  /** Labels to resolve PCs with: an assembler symbol map or ELF symbols */
+  symbols?: Map<string, number> | ElfSymbol[];
+}
+
+/**
+ * Options of the flat report
+ */
+export interface ProfileReportOptions {
+  /** Number of hot PCs and functions to list (default 20) */
+  top?: number;
+}
+
+/** Link registers of the standard calling convention (ra, t0) */
+const LINK_REGISTERS = new Set([1, 5]);
+
+/** Deepest shadow call stack kept; older frames are dropped */
+const MAX_STACK_DEPTH = 256;
+
+/** Instruction class of each major opcode (OP and SYSTEM are split further) */
+const OPCODE_CLASSES = new Map<number, InstructionClass>([
+  [OPCODE.LUI, 'upper'],
+  [OPCODE.AUIPC, 'upper'],
+  [OPCODE.JAL, 'jump'],
+  [OPCODE.JALR, 'jump'],
+  [OPCODE.BRANCH, 'branch'],
+  [OPCODE.LOAD, 'load'],
+  [OPCODE.STORE, 'store'],
+  [OPCODE.OP_IMM, 'alu-imm'],
+  [OPCODE.OP, 'alu'],
+  [OPCODE.SYSTEM, 'system'],
+  [OPCODE.FENCE, 'fence'],
+  [OPCODE.AMO, 'atomic'],
+  [OPCODE.LOAD_FP, 'load'],
+  [OPCODE.STORE_FP, 'store'],
+  [OPCODE.MADD, 'fp'],
+  [OPCODE.MSUB, 'fp'],
+  [OPCODE.NMSUB, 'fp'],
+  [OPCODE.NMADD, 'fp'],
+  [OPCODE.OP_FP, 'fp'],
+]);
+
+/** funct7 of the M extension */
+const MULDIV_FUNCT7 = 0b0000001;
+
+/** The ECALL instruction word */
+const ECALL = 0x00000073;
+
+const WIRE_SYSCALL_NAMES = new Map<number, string>(
+  Object.entries({ ...SYSCALL, ...NATIVE_ASM_SYSCALLS }).map(([name, number]) => [number, name])
+);
+const LINUX_SYSCALL_NAMES = new Map<number, string>(
+  Object.entries(LINUX_SYSCALL).map(([name, number]) => [number, name.toLowerCase()])
+);
+
+function hex(value: number): string {
+  return `0x${(value >>> 0).toString(16).padStart(8, '0')}`;
+}
+
+function percent(part: number, whole: number): string {
+  return `${whole === 0 ? '0.0' : ((100 * part) / whole).toFixed(1)}%`;
+}
+
+/**
+ * Classify an instruction for the mix report
+ */
+export function classifyInstruction(decoded: DecodedInstruction): InstructionClass {
+  const { opcode, funct3, funct7 } = decoded;
+  if (opcode === OPCODE.OP && funct7 === MULDIV_FUNCT7) {
+    return 'muldiv';
+  }
+  if (opcode === OPCODE.SYSTEM && funct3 !== SYSTEM_FUNCT3.PRIV) {
+    return 'csr';
+  }
+  return OPCODE_CLASSES.get(opcode) ?? 'system';
+}
+
+export class Profiler {
+  /** Retired instructions */
+  public instructions: number = 0;
+  /** Executions per pc */
+  public readonly pcCounts = new Map<number, number>();
+  /** Retired instructions per class */
+  public readonly classCounts = new Map<InstructionClass, number>();
+  /** Outcomes per conditional branch pc */
+  public readonly branches = new Map<number, BranchStats>();
+  /** MMIO accesses per bus region name */
+  public readonly devices = new Map<string, DeviceStats>();
+  /** Host syscalls by number (a7) */
+  public readonly syscalls = new Map<number, number>();
+  /** Instructions per collapsed call stack */
+  public readonly stacks = new Map<string, number>();
+
+  /** Symbol addresses, ascending, with their names */
+  private readonly symbolAddresses: number[] = [];
+  private readonly symbolNames: string[] = [];
+  private syscallAbi: SyscallAbi = 'wire';
+  private stack: string[] = [];
+  private stackKey: string = '';
+  private decoded: DecodedInstruction | null = null;
+  private pc: number = 0;
+  private cpu: RiscVCpu | null = null;
+
+  constructor(options: ProfilerOptions = {}) {
+    const symbols = options.symbols instanceof Map
+      ? [...options.symbols]
+      : (options.symbols ?? []).filter((symbol) => symbol.name !== '').map((symbol): [string, number] => [symbol.name, symbol.value]);
+    symbols.sort((a, b) => a[1] - b[1] || a[0].localeCompare(b[0]));
+    for (const [name, address] of symbols) {
+      // The first label wins where several share an address
+      if (this.symbolAddresses[this.symbolAddresses.length - 1] !== address) {
+        this.symbolAddresses.push(address >>> 0);
+        this.symbolNames.push(name);
+      }
+    }
+  }
+
+  /**
+   * Discard everything counted so far
+   */
+  clear(): void {
+    this.instructions = 0;
+    this.pcCounts.clear();
+    this.classCounts.clear();
+    this.branches.clear();
+    this.devices.clear();
+    this.syscalls.clear();
+    this.stacks.clear();
+    this.stack = [];
+    this.stackKey = '';
+    this.decoded = null;
+  }
+
+  /**
+   * Note the instruction the CPU is about to execute
+   */
+  begin(cpu: RiscVCpu, decoded: DecodedInstruction): void {
+    this.cpu = cpu;
+    this.decoded = decoded;
+    this.pc = cpu.pc;
+  }
+
+  /**
+   * Forget the instruction begun last: it trapped and did not retire
+   */
+  abort(): void {
+    this.decoded = null;
+  }
+
+  /**
+   * Count an MMIO access of the instruction being executed
+   *
+   * Accesses the host makes outside of an instruction are ignored.
+   */
+  access(address: number, width: number, isWrite: boolean): void {
+    if (this.decoded === null || this.cpu === null) {
+      return;
+    }
+    const region = this.cpu.bus.find(address, width);
+    if (region === null) {
+      return;
+    }
+    let stats = this.devices.get(region.name);
+    if (stats === undefined) {
+      stats = { reads: 0, writes: 0 };
+      this.devices.set(region.name, stats);
+    }
+    if (isWrite) {
+      stats.writes++;
+    } else {
+      stats.reads++;
+    }
+  }
+
+  /**
+   * Count the instruction begun last, now that it has retired
+   *
+   * @param nextPc Where execution continues
+   */
+  retire(cpu: RiscVCpu, nextPc: number): void {
+    const decoded = this.decoded;
+    if (decoded === null) {
+      return;
+    }
+    this.decoded = null;
+    const pc = this.pc;
+
+    this.instructions++;
+    this.pcCounts.set(pc, (this.pcCounts.get(pc) ?? 0) + 1);
+    const kind = classifyInstruction(decoded);
+    this.classCounts.set(kind, (this.classCounts.get(kind) ?? 0) + 1);
+
+    if (this.stack.length === 0) {
+      this.enter(pc);
+    }
+    this.stacks.set(this.stackKey, (this.stacks.get(this.stackKey) ?? 0) + 1);
+
+    const { opcode, rd, rs1, raw, length } = decoded;
+    if (opcode === OPCODE.BRANCH) {
+      let stats = this.branches.get(pc);
+      if (stats === undefined) {
+        stats = { taken: 0, notTaken: 0 };
+        this.branches.set(pc, stats);
+      }
+      if (nextPc === ((pc + length) >>> 0)) {
+        stats.notTaken++;
+      } else {
+        stats.taken++;
+      }
+    } else if (opcode === OPCODE.JAL || opcode === OPCODE.JALR) {
+      if (LINK_REGISTERS.has(rd)) {
+        this.enter(nextPc);
+      } else if (opcode === OPCODE.JALR && rd === 0 && LINK_REGISTERS.has(rs1)) {
+        this.leave();
+      }
+    } else if (raw === ECALL && cpu.hostSyscalls && nextPc !== pc) {
+      // A blocked syscall retries without moving on; count it once
+      const number = cpu.getReg(17);
+      this.syscallAbi = cpu.syscallAbi;
+      this.syscalls.set(number, (this.syscalls.get(number) ?? 0) + 1);
+    }
+  }
+
+  /**
+   * Resolve an address to the nearest label at or below it
+   *
+   * @returns `label` or `label+0x10`, or the hex address without a label
+   */
+  symbolize(address: number): string {
+    const index = this.symbolIndex(address >>> 0);
+    if (index < 0) {
+      return hex(address);
+    }
+    const offset = (address >>> 0) - this.symbolAddresses[index];
+    return offset === 0 ? this.symbolNames[index] : `${this.symbolNames[index]}+0x${offset.toString(16)}`;
+  }
+
+  /**
+   * Instructions per function (the label an address falls under)
+   */
+  getFunctionCounts(): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const [pc, count] of this.pcCounts) {
+      const name = this.functionName(pc);
+      counts.set(name, (counts.get(name) ?? 0) + count);
+    }
+    return counts;
+  }
+
+  /**
+   * The flat profile as text: hot PCs, hot functions, instruction mix,
+   * branches, MMIO devices and syscalls
+   */
+  report(options: ProfileReportOptions = {}): string {
+    const top = options.top ?? 20;
+    const total = this.instructions;
+    const lines: string[] = [`Instructions: ${total}`];
+
+    lines.push('', 'Hot spots:', '       count       %  pc          location');
+    const hotPcs = [...this.pcCounts].sort((a, b) => b[1] - a[1] || a[0] - b[0]).slice(0, top);
+    for (const [pc, count] of hotPcs) {
+      lines.push(`  ${count.toString().padStart(10)}  ${percent(count, total).padStart(6)}  ${hex(pc)}  ${this.symbolize(pc)}`);
+    }
+
+    lines.push('', 'Functions:', '       count       %  name');
+    const functions = [...this.getFunctionCounts()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).slice(0, top);
+    for (const [name, count] of functions) {
+      lines.push(`  ${count.toString().padStart(10)}  ${percent(count, total).padStart(6)}  ${name}`);
+    }
+
+    lines.push('', 'Instruction mix:');
+    for (const [kind, count] of [...this.classCounts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))) {
+      lines.push(`  ${kind.padEnd(8)}  ${count.toString().padStart(10)}  ${percent(count, total).padStart(6)}`);
+    }
+
+    if (this.branches.size > 0) {
+      lines.push('', 'Branches:', '  pc               taken   not taken   taken%  location');
+      for (const [pc, { taken, notTaken }] of [...this.branches].sort((a, b) => a[0] - b[0])) {
+        lines.push(
+          `  ${hex(pc)}  ${taken.toString().padStart(10)}  ${notTaken.toString().padStart(10)}  ` +
+          `${percent(taken, taken + notTaken).padStart(7)}  ${this.symbolize(pc)}`
+        );
+      }
+    }
+
+    if (this.devices.size > 0) {
+      lines.push('', 'MMIO:', '  device          reads      writes');
+      for (const [name, { reads, writes }] of [...this.devices].sort((a, b) => a[0].localeCompare(b[0]))) {
+        lines.push(`  ${name.padEnd(10)}  ${reads.toString().padStart(10)}  ${writes.toString().padStart(10)}`);
+      }
+    }
+
+    if (this.syscalls.size > 0) {
+      const names = this.syscallAbi === 'linux' ? LINUX_SYSCALL_NAMES : WIRE_SYSCALL_NAMES;
+      lines.push('', 'Syscalls:');
+      for (const [number, count] of [...this.syscalls].sort((a, b) => a[0] - b[0])) {
+        const name = names.get(number) ?? 'unknown';
+        lines.push(`  ${`${name} (${number})`.padEnd(22)}  ${count.toString().padStart(10)}`);
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * The profile as collapsed stacks: `outer;inner count` per line,
+   * the input format of flamegraph.pl
+   */
+  collapsedStacks(): string {
+    return [...this.stacks]
+      .sort((a, b) => a[0].localeCompare(b[0]))
+      .map(([stack, count]) => `${stack} ${count}`)
+      .join('\n');
+  }
+
+  /**
+   * Push the function containing an address onto the shadow stack
+   */
+  private enter(address: number): void {
+    if (this.stack.length >= MAX_STACK_DEPTH) {
+      this.stack.shift();
+    }
+    this.stack.push(this.functionName(address));
+    this.stackKey = this.stack.join(';');
+  }
+
+  /**
+   * Pop the current function; the outermost frame stays
+   */
+  private leave(): void {
+    if (this.stack.length > 1) {
+      this.stack.pop();
+      this.stackKey = this.stack.join(';');
+    }
+  }
+
+  /**
+   * Name of the function an address belongs to (its label)
+   */
+  private functionName(address: number): string {
+    const index = this.symbolIndex(address >>> 0);
+    return index < 0 ? hex(address) : this.symbolNames[index];
+  }
+
+  /**
+   * Index of the last symbol at or below an address, or -1
+   */
+  private symbolIndex(address: number): number {
+    let low = 0;
+    let high = this.symbolAddresses.length - 1;
+    let found = -1;
+    while (low <= high) {
+      const middle = (low + high) >> 1;
+      if (this.symbolAddresses[middle] <= address) {
+        found = middle;
+        low = middle + 1;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return found;
+  }
+}
@@ -1,10 +1,13 @@
 /**
  * RISC-V Program Loader
  *
- * Loads and executes programs in a simple executable format.
+ * Loads and executes programs in a simple executable format, or as
+ * statically linked ELF32 executables.
  */
 
 import { RiscVCpu } from './cpu.js';
+import { ElfSymbol, PF, isElf, parseElf } from './elf.js';
+import { getBootLayout } from './bootloader.js';
 
 /** Magic number for RISV executables (little-endian "RISV") */
 export const EXECUTABLE_MAGIC = 0x56534952; // 'V' 'S' 'I' 'R' in little-endian
@@ -24,6 +27,18 @@ const HEADER = {
   STACK_SIZE: 0x14,   // 4 bytes
 } as const;
 
+/**
+ * Fields of a RISV executable header
+ */
+export interface ExecutableHeader {
+  /** Entry point as an offset from the start of the code */
+  entryOffset: number;
+  codeSize: number;
+  dataSize: number;
+  bssSize: number;
+  stackSize: number;
+}
+
 /**
  * Information about a loaded program
  */
@@ -40,6 +55,8 @@ export interface LoadInfo {
   stackTop: number;
   /** Total size of loaded program in memory */
   totalSize: number;
+  /** Symbol table (ELF executables only) */
+  symbols?: ElfSymbol[];
 }
 
 /**
@@ -51,27 +68,19 @@ export class ProgramLoader {
   /**
    * Load an executable into memory
    *
-   * @param executable The executable data (header + code + data)
-   * @param baseAddress Base address to load at
+   * @param executable The executable data (header + code + data), or an ELF file
+   * @param baseAddress Base address to load at (ignored for ELF files,
+   *   which are linked to fixed addresses); defaults to the program
+   *   base of the machine's memory map
    * @returns Information about the loaded program
+   * @throws Error if the program, with its BSS and stack, does not fit in RAM
    */
-  load(executable: Uint8Array, baseAddress: number): LoadInfo {
-    // Validate header
-    if (executable.length < HEADER_SIZE) {
-      throw new Error('Invalid executable: too small');
+  load(executable: Uint8Array, baseAddress: number = getBootLayout(this.cpu.memoryMap).programBase): LoadInfo {
+    if (isElf(executable)) {
+      return this.loadElf(executable);
     }
 
-    const magic = this.readWord(executable, HEADER.MAGIC);
-    if (magic !== EXECUTABLE_MAGIC) {
-      throw new Error('Invalid executable: bad magic number');
-    }
-
-    // Parse header
-    const entryOffset = this.readWord(executable, HEADER.ENTRY_POINT);
-    const codeSize = this.readWord(executable, HEADER.CODE_SIZE);
-    const dataSize = this.readWord(executable, HEADER.DATA_SIZE);
-    const bssSize = this.readWord(executable, HEADER.BSS_SIZE);
-    const stackSize = this.readWord(executable, HEADER.STACK_SIZE);
+    const { entryOffset, codeSize, dataSize, bssSize, stackSize } = parseExecutableHeader(executable);
 
     // Calculate addresses
     const codeBase = baseAddress;
@@ -79,6 +88,7 @@ export class ProgramLoader {
     const bssBase = dataBase + dataSize;
     const stackBase = bssBase + bssSize;
     const stackTop = stackBase + stackSize;
+    this.checkFits(codeBase, stackTop - codeBase);
 
     // Load code section
     for (let i = 0; i < codeSize; i++) {
@@ -106,16 +116,89 @@ export class ProgramLoader {
   }
 
   /**
-   * Read a 32-bit word from buffer (little-endian)
+   * Load an ELF32 executable's PT_LOAD segments, zeroing their BSS
+   *
+   * ELF files carry no stack size, so the stack starts at the top of RAM.
+   * The Linux syscall ABI's heap starts after the highest segment.
    */
-  private readWord(buffer: Uint8Array, offset: number): number {
-    return (
-      buffer[offset] |
-      (buffer[offset + 1] << 8) |
-      (buffer[offset + 2] << 16) |
-      (buffer[offset + 3] << 24)
-    ) >>> 0;
+  loadElf(executable: Uint8Array): LoadInfo {
+    const image = parseElf(executable);
+    for (const segment of image.segments) {
+      this.checkFits(segment.vaddr, segment.memSize);
+    }
+
+    for (const segment of image.segments) {
+      for (let i = 0; i < segment.fileSize; i++) {
+        this.cpu.writeByte(segment.vaddr + i, executable[segment.offset + i]);
+      }
+      for (let i = segment.fileSize; i < segment.memSize; i++) {
+        this.cpu.writeByte(segment.vaddr + i, 0);
+      }
+    }
+
+    const segments = [...image.segments].sort((a, b) => a.vaddr - b.vaddr);
+    const start = segments[0].vaddr;
+    const end = Math.max(...segments.map((segment) => segment.vaddr + segment.memSize));
+    const code = segments.find((segment) => segment.flags & PF.X) ?? segments[0];
+    const data = segments.find((segment) => (segment.flags & (PF.W | PF.X)) === PF.W);
+    const bss = segments.find((segment) => segment.memSize > segment.fileSize);
+    this.cpu.linux.setBreak((end + 0xf) & ~0xf);
+
+    return {
+      entryPoint: image.entry,
+      codeBase: code.vaddr,
+      dataBase: data ? data.vaddr : code.vaddr + code.memSize,
+      bssBase: bss ? bss.vaddr + bss.fileSize : end,
+      stackTop: (this.cpu.ramBase + this.cpu.getMemorySize()) & ~0xf,
+      totalSize: end - start,
+      symbols: image.symbols,
+    };
   }
+
+  /**
+   * Throw if a range of the program is not backed by RAM
+   */
+  private checkFits(address: number, size: number): void {
+    if (size > 0 && !this.cpu.isRam(address, size)) {
+      throw new Error(
+        `Program does not fit in RAM: ${size} bytes at 0x${(address >>> 0).toString(16)}`
+      );
+    }
+  }
+
+}
+
+/**
+ * Parse and validate the header of a RISV executable
+ *
+ * @throws Error if the data is too small or has the wrong magic number
+ */
+export function parseExecutableHeader(executable: Uint8Array): ExecutableHeader {
+  if (executable.length < HEADER_SIZE) {
+    throw new Error('Invalid executable: too small');
+  }
+  if (readWord(executable, HEADER.MAGIC) !== EXECUTABLE_MAGIC) {
+    throw new Error('Invalid executable: bad magic number');
+  }
+  return {
+    entryOffset: readWord(executable, HEADER.ENTRY_POINT),
+    codeSize: readWord(executable, HEADER.CODE_SIZE),
+    dataSize: readWord(executable, HEADER.DATA_SIZE),
+    bssSize: readWord(executable, HEADER.BSS_SIZE),
+    stackSize: readWord(executable, HEADER.STACK_SIZE),
+  };
+}
+
+/**
+ * Read a 32-bit word from buffer (little-endian)
+ */
+function readWord(buffer: Uint8Array, offset: number): number {
+  return (
+    buffer[offset] |
+    (buffer[offset + 1] << 8) |
+    (buffer[offset + 2] << 16) |
+    (buffer[offset + 3] << 24)
+  ) >>> 0;
 }
 
 /**
@@ -0,0 +1,577 @@
+#!/usr/bin/env bun
+/**
+ * RISC-V Emulator CLI
+ *
+ * Usage: riscv-run <program> [--abi wire|linux] [--base addr] [--memory bytes] [--max-cycles n]
+ *                            [--disk [hdd:|usb:|cd:]image] [--screen]
+ *                            [--profile file] [--profile-stacks file]
+ *        riscv-run <program> --gdb port [options]
+ *        riscv-run --boot [--max-cycles n] [--disk ...] [--screen]
+ *
+ * Runs a raw binary, RISV executable or ELF file (or boots the
+ * Wire-RISCV shell) headless. Console output (PUTCHAR/PUTS) goes to
+ * stdout, stdin is typed into the keyboard controller, and the guest's
+ * exit code becomes the process status (a trap with no handler is
+ * reported on stderr and fails the run). ELF files with a `tohost`
+ * symbol (riscv-tests, Spike-style programs) also talk over HTIF.
+ * With --profile the run is profiled and the hot spots written out.
+ * With --gdb the program waits for GDB on a TCP port and runs under
+ * its control, carrying on by itself if the debugger detaches.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { RiscVCpu, SyscallAbi } from './cpu.js';
+import { InteractiveSystem } from './boot-disk.js';
+import { ProgramLoader, EXECUTABLE_MAGIC } from './program-loader.js';
+import { isElf, ElfSymbol } from './elf.js';
+import { trapCauseName } from './trap.js';
+import { Htif } from './htif.js';
+import { Profiler } from './profiler.js';
+import { GraphicsCard, TEXT_COLS, TEXT_ROWS } from './graphics.js';
+import { GdbServer } from './gdb-server.js';
+
+/** Where guest output goes and where keyboard input comes from */
+export interface RunIo {
+  /** Write guest console output to the host */
+  write(text: string): void;
+  /** Host input typed into the keyboard, or null for none */
+  input: AsyncIterable<Uint8Array | string> | null;
+}
+
+/** Drive a disk image is attached to */
+type DiskDrive = 'hdd' | 'usb' | 'cd';
+
+interface DiskOption {
+  drive: DiskDrive;
+  file: string;
+}
+
+interface CliOptions {
+  programFile: string;
+  boot: boolean;
+  abi: SyscallAbi;
+  /** Load address; null for the format's default */
+  base: number | null;
+  ramBase: number;
+  memorySize: number;
+  maxCycles: number;
+  disks: DiskOption[];
+  screen: boolean;
+  /** File for the flat profile report */
+  profile: string | null;
+  /** File for the profile as collapsed stacks */
+  profileStacks: string | null;
+  /** Port to serve the GDB remote protocol on, or null to run freely */
+  gdbPort: number | null;
+}
+
+/** Cycles to run between polls of the host input */
+const SLICE_CYCLES = 10000;
+
+/** Process status when --max-cycles runs out (as timeout(1) uses) */
+const TIMEOUT_STATUS = 124;
+
+/** Process status when a trap with no handler halts the hart (128 + SIGABRT) */
+const TRAP_STATUS = 134;
+
+/** Process status after Ctrl-C (128 + SIGINT) */
+const INTERRUPT_STATUS = 130;
+
+/** Process status when the debugger kills the program (128 + SIGKILL) */
+const KILL_STATUS = 137;
+
+/** Milliseconds between polls of output and input while GDB drives the hart */
+const DEBUG_POLL_MS = 20;
+
+/** Ctrl-C as read from a raw terminal */
+const CTRL_C = 0x03;
+
+function parseNumber(text: string): number {
+  const value = /^0x/i.test(text) ? parseInt(text.slice(2), 16) : parseInt(text, 10);
+  return Number.isNaN(value) || value < 0 ? -1 : value;
+}
+
+function parseDisk(text: string): DiskOption {
+  const match = /^(hdd|usb|cd):(.+)$/.exec(text);
+  return match ? { drive: match[1] as DiskDrive, file: match[2] } : { drive: 'hdd', file: text };
+}
+
+function parseArgs(args: string[]): CliOptions | null {
+  const cliArgs = args.slice(2); // Skip bun and script path
+
+  if (cliArgs.length === 0) {
+    return null;
+  }
+
+  let programFile = '';
+  let boot = false;
+  let abi: SyscallAbi = 'wire';
+  let base: number | null = null;
+  let ramBase = 0;
+  let memorySize = 64 * 1024;
+  let maxCycles = Infinity;
+  const disks: DiskOption[] = [];
+  let screen = false;
+  let profile: string | null = null;
+  let profileStacks: string | null = null;
+  let gdbPort: number | null = null;
+
+  for (let i = 0; i < cliArgs.length; i++) {
+    const arg = cliArgs[i];
+
+    if (
+      arg === '--base' || arg === '--ram-base' || arg === '--memory' || arg === '--max-cycles' || arg === '--disk' ||
+      arg === '--profile' || arg === '--profile-stacks' || arg === '--gdb'
+    ) {
+      if (i + 1 >= cliArgs.length) {
+        console.error(`Error: ${arg} requires a value`);
+        return null;
+      }
+      const value = cliArgs[++i];
+      if (arg === '--disk') {
+        disks.push(parseDisk(value));
+        continue;
+      }
+      if (arg === '--profile') {
+        profile = value;
+        continue;
+      }
+      if (arg === '--profile-stacks') {
+        profileStacks = value;
+        continue;
+      }
+      const number = parseNumber(value);
+      if (number < 0) {
+        console.error(`Error: Invalid number for ${arg}: ${value}`);
+        return null;
+      }
+      if (arg === '--base') {
+        base = number;
+      } else if (arg === '--ram-base') {
+        ramBase = number;
+      } else if (arg === '--memory') {
+        memorySize = number;
+      } else if (arg === '--gdb') {
+        gdbPort = number;
+      } else {
+        maxCycles = number;
+      }
+    } else if (arg === '--abi') {
+      const value = cliArgs[++i];
+      if (value !== 'wire' && value !== 'linux') {
+        console.error('Error: --abi must be wire or linux');
+        return null;
+      }
+      abi = value;
+    } else if (arg === '--boot') {
+      boot = true;
+    } else if (arg === '--screen') {
+      screen = true;
+    } else if (arg === '-h' || arg === '--help') {
+      return null;
+    } else if (!arg.startsWith('-')) {
+      programFile = arg;
+    } else {
+      console.error(`Error: Unknown option '${arg}'`);
+      return null;
+    }
+  }
+
+  if (!programFile && !boot) {
+    console.error('Error: No program file specified');
+    return null;
+  }
+  if (boot && gdbPort !== null) {
+    console.error('Error: --gdb debugs a program and cannot be used with --boot');
+    return null;
+  }
+
+  return {
+    programFile, boot, abi, base, ramBase, memorySize, maxCycles, disks, screen, profile, profileStacks, gdbPort,
+  };
+}
+
+function printUsage(): void {
+  console.log(`RISC-V Emulator
+
+Usage: riscv-run <program> [options]
+       riscv-run <program> --gdb <port> [options]
+       riscv-run --boot [options]
+
+Options:
+  --boot                 Boot the Wire-RISCV shell instead of a program
+  --abi <wire|linux>     Syscall numbering of the program (default wire)
+  --base <addr>          Load address of raw binaries and RISV executables
+                         (default: start of RAM for raw binaries, the loader's
+                         program base 0x1000 above it for RISV executables)
+  --ram-base <addr>      Start of RAM; execution starts there too (default 0)
+  --memory <bytes>       RAM size (default 65536)
+  --max-cycles <n>       Stop after n cycles with status ${TIMEOUT_STATUS} (default: no limit)
+  --disk [drive:]<file>  Attach a disk image; drive is hdd (default), usb or cd
+  --screen               Print the text screen when the machine stops
+  --gdb <port>           Wait for GDB on port and run under its control
+                         (target remote localhost:<port>)
+  --profile <file>       Profile the run and write the hot-spot report to file
+  --profile-stacks <file>
+                         Profile the run and write collapsed stacks (for flamegraph.pl)
+  -h, --help             Show this help message
+
+Programs may be raw binaries, RISV executables or ELF files. Console
+output goes to stdout, stdin is typed into the keyboard, and the exit
+code passed to the EXIT syscall becomes the process status. ELF files
+with a tohost symbol may also print and exit through HTIF.
+
+Examples:
+  riscv-run hello.bin
+  riscv-run program.elf --max-cycles 1000000
+  riscv-run --abi linux --memory 0x400000 hello-newlib.elf
+  riscv-run program.elf --profile report.txt --profile-stacks program.folded
+  riscv-run --boot --disk usb:stick.img < commands.txt`);
+}
+
+/**
+ * Bytes typed into the guest, read from the host as they arrive
+ */
+class InputQueue {
+  private bytes: number[] = [];
+  private ended: boolean = false;
+  private waiter: (() => void) | null = null;
+
+  constructor(input: AsyncIterable<Uint8Array | string> | null) {
+    if (input === null) {
+      this.ended = true;
+    } else {
+      void this.read(input);
+    }
+  }
+
+  hasByte(): boolean {
+    return this.bytes.length > 0;
+  }
+
+  next(): number {
+    return this.bytes.shift()!;
+  }
+
+  /** True once the input has ended and every byte has been taken */
+  isDrained(): boolean {
+    return this.ended && this.bytes.length === 0;
+  }
+
+  /** Resolve when more input arrives or the input ends */
+  wait(): Promise<void> {
+    if (this.bytes.length > 0 || this.ended) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => { this.waiter = resolve; });
+  }
+
+  private async read(input: AsyncIterable<Uint8Array | string>): Promise<void> {
+    try {
+      for await (const chunk of input) {
+        const data = typeof chunk === 'string' ? new TextEncoder().encode(chunk) : chunk;
+        for (const byte of data) {
+          // The keyboard sends carriage return for Enter
+          this.bytes.push(byte === 0x0A ? 0x0D : byte);
+        }
+        this.wake();
+      }
+    } catch {
+      // A failing input is treated like its end
+    }
+    this.ended = true;
+    this.wake();
+  }
+
+  private wake(): void {
+    const waiter = this.waiter;
+    this.waiter = null;
+    waiter?.();
+  }
+}
+
+/**
+ * Put a disk image into its drive
+ */
+function attachDisk(cpu: RiscVCpu, disk: DiskOption): void {
+  const image = new Uint8Array(readFileSync(disk.file));
+  if (disk.drive === 'usb') {
+    cpu.storage.getUsb().insertWithImage(image);
+  } else if (disk.drive === 'cd') {
+    cpu.storage.getCdrom().insertDisc(image);
+  } else {
+    // Smaller images fill the start of the drive
+    const hdd = cpu.storage.getHdd();
+    if (image.length > hdd.getTotalBytes()) {
+      throw new Error(`Disk image ${disk.file} is larger than the ${hdd.getTotalBytes()} byte hard disk`);
+    }
+    const padded = new Uint8Array(hdd.getTotalBytes());
+    padded.set(image);
+    hdd.importImage(padded);
+  }
+}
+
+/**
+ * Load a program file and point the hart at its entry
+ *
+ * @returns The program's symbols (none for raw binaries)
+ */
+function loadProgram(cpu: RiscVCpu, data: Uint8Array, loadAddress: number | null): ElfSymbol[] {
+  const magic = data.length >= 4 ? new DataView(data.buffer, data.byteOffset).getUint32(0, true) : 0;
+  if (isElf(data) || magic === EXECUTABLE_MAGIC) {
+    const info = new ProgramLoader(cpu).load(data, loadAddress ?? undefined);
+    cpu.pc = info.entryPoint;
+    cpu.setReg(2, info.stackTop);
+    return info.symbols ?? [];
+  }
+  const base = loadAddress ?? cpu.memoryMap.ram.base;
+  if (!cpu.isRam(base, data.length)) {
+    const { ram } = cpu.memoryMap;
+    throw new Error(
+      `Program does not fit in ${ram.size} bytes of RAM at 0x${ram.base.toString(16)} when loaded at 0x${base.toString(16)}`
+    );
+  }
+  cpu.loadProgram(data, base);
+  cpu.pc = base;
+  return [];
+}
+
+/**
+ * Render the text screen, without trailing blanks
+ */
+function formatScreen(gpu: GraphicsCard): string {
+  const rows: string[] = [];
+  for (let y = 0; y < TEXT_ROWS; y++) {
+    let row = '';
+    for (let x = 0; x < TEXT_COLS; x++) {
+      const { char } = gpu.readTextVram(x, y);
+      row += char >= 0x20 && char < 0x7F ? String.fromCharCode(char) : ' ';
+    }
+    rows.push(row.trimEnd());
+  }
+  while (rows.length > 0 && rows[rows.length - 1] === '') {
+    rows.pop();
+  }
+  return rows.join('\n');
+}
+
+/**
+ * A function that writes the guest console output the host has not
+ * seen yet
+ */
+function consoleWriter(cpu: RiscVCpu, io: RunIo): () => void {
+  let printed = 0;
+  return () => {
+    if (cpu.consoleOutput.length > printed) {
+      io.write(cpu.consoleOutput.slice(printed));
+      printed = cpu.consoleOutput.length;
+    }
+  };
+}
+
+/**
+ * Process status of a halted hart: the guest's exit code, or a failure
+ * after reporting a trap no handler took
+ */
+function haltStatus(cpu: RiscVCpu): number {
+  if (cpu.haltTrap !== null) {
+    const { cause, epc, tval } = cpu.haltTrap;
+    console.error(
+      `Halted by ${trapCauseName(cause)} (mcause 0x${cause.toString(16)}) ` +
+      `at mepc 0x${epc.toString(16)}, mtval 0x${tval.toString(16)}`
+    );
+    return TRAP_STATUS;
+  }
+  return cpu.exitCode & 0xFF;
+}
+
+/**
+ * Run until the guest exits, the cycle budget runs out or (for the
+ * shell) the input ends; returns the process status
+ */
+async function runMachine(
+  cpu: RiscVCpu,
+  system: InteractiveSystem | null,
+  htif: Htif | null,
+  maxCycles: number,
+  input: InputQueue,
+  flush: () => void
+): Promise<number> {
+  for (;;) {
+    // Type what the host sent; a program's keys wait while its buffer is full
+    while (input.hasByte() && (system !== null || !cpu.keyboard.isFull())) {
+      const key = input.next();
+      if (key === CTRL_C) {
+        flush();
+        return INTERRUPT_STATUS;
+      }
+      if (system !== null) {
+        system.keyPress(key);
+        flush();
+      } else {
+        cpu.keyboard.keyPress(key);
+      }
+    }
+
+    if (system === null) {
+      cpu.run(Math.min(SLICE_CYCLES, maxCycles - cpu.cycles));
+      htif?.poll();
+    }
+    flush();
+
+    if (cpu.halted) {
+      return haltStatus(cpu);
+    }
+    if (cpu.cycles >= maxCycles) {
+      console.error(`Stopped after ${cpu.cycles} cycles`);
+      return TIMEOUT_STATUS;
+    }
+
+    if (system !== null) {
+      // The shell only does work when a key arrives
+      if (input.isDrained()) {
+        return cpu.exitCode & 0xFF;
+      }
+      await input.wait();
+    } else {
+      // Let host input arrive between slices
+      await new Promise<void>((resolve) => setImmediate(resolve));
+    }
+  }
+}
+
+/**
+ * Let GDB drive the hart until it disconnects, passing console output
+ * and keys through meanwhile
+ *
+ * @returns The process status, or null if the debugger detached and
+ *   the program should carry on
+ */
+async function debugMachine(
+  cpu: RiscVCpu,
+  htif: Htif | null,
+  port: number,
+  input: InputQueue,
+  flush: () => void
+): Promise<number | null> {
+  let finish: (status: number | null) => void = () => {};
+  const finished = new Promise<number | null>((resolve) => { finish = resolve; });
+  const server = new GdbServer(cpu, (killed) => finish(killed ? KILL_STATUS : null));
+  const bound = await server.listen(port);
+  console.error(`Waiting for GDB on port ${bound}`);
+
+  const poll = setInterval(() => {
+    htif?.poll();
+    flush();
+    while (input.hasByte() && !cpu.keyboard.isFull()) {
+      const key = input.next();
+      if (key === CTRL_C) {
+        finish(INTERRUPT_STATUS);
+        return;
+      }
+      cpu.keyboard.keyPress(key);
+    }
+  }, DEBUG_POLL_MS);
+
+  const status = await finished;
+  clearInterval(poll);
+  await server.close();
+  flush();
+  return status;
+}
+
+/**
+ * Terminal I/O of the host process
+ */
+function processIo(): RunIo {
+  if (process.stdin.isTTY) {
+    // Keys go to the guest one at a time and it does its own echo
+    process.stdin.setRawMode(true);
+  }
+  return {
+    write: (text) => process.stdout.write(text),
+    input: process.stdin,
+  };
+}
+
+export async function main(args: string[] = process.argv, io: RunIo | null = null): Promise<number> {
+  const options = parseArgs(args);
+
+  if (!options) {
+    printUsage();
+    return args.some(a => a === '-h' || a === '--help') ? 0 : 1;
+  }
+
+  let cpu: RiscVCpu;
+  let system: InteractiveSystem | null = null;
+  let htif: Htif | null = null;
+  let symbols: ElfSymbol[] = [];
+
+  try {
+    cpu = new RiscVCpu({
+      memoryMap: { ram: { base: options.ramBase, size: options.memorySize } },
+      hostSyscalls: true,
+      syscallAbi: options.abi,
+    });
+    for (const disk of options.disks) {
+      attachDisk(cpu, disk);
+    }
+    if (options.boot) {
+      system = new InteractiveSystem(cpu);
+      system.boot();
+    } else {
+      symbols = loadProgram(cpu, new Uint8Array(readFileSync(options.programFile)), options.base);
+      htif = Htif.fromSymbols(cpu, symbols);
+    }
+  } catch (e) {
+    const err = e as NodeJS.ErrnoException;
+    if (err.code === 'ENOENT') {
+      console.error(`Error: File not found: ${err.path ?? options.programFile}`);
+    } else {
+      console.error(`Error: ${err.message}`);
+    }
+    return 1;
+  }
+
+  if (options.profile !== null || options.profileStacks !== null) {
+    cpu.profiler = new Profiler({ symbols });
+  }
+
+  const hostIo = io ?? processIo();
+  const input = new InputQueue(hostIo.input);
+  const flush = consoleWriter(cpu, hostIo);
+  let status: number | null = null;
+  if (options.gdbPort !== null) {
+    try {
+      status = await debugMachine(cpu, htif, options.gdbPort, input, flush);
+    } catch (e) {
+      console.error(`Error: ${(e as Error).message}`);
+      return 1;
+    }
+  }
+  status ??= await runMachine(cpu, system, htif, options.maxCycles, input, flush);
+
+  if (options.screen) {
+    hostIo.write(`\n${formatScreen(cpu.gpu)}\n`);
+  }
+  if (cpu.profiler !== null) {
+    try {
+      if (options.profile !== null) {
+        writeFileSync(options.profile, `${cpu.profiler.report()}\n`);
+      }
+      if (options.profileStacks !== null) {
+        writeFileSync(options.profileStacks, `${cpu.profiler.collapsedStacks()}\n`);
+      }
+    } catch (e) {
+      console.error(`Error: ${(e as Error).message}`);
+      return 1;
+    }
+  }
+
+  return status;
+}
+
+// Run if executed directly
+if (import.meta.main) {
+  main().then((status) => process.exit(status));
+}
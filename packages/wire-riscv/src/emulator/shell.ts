@@ -6,6 +6,7 @@
 
 import { RiscVCpu, SYSCALL } from './cpu.js';
 import { TEXT_COLS, TEXT_ROWS } from './graphics.js';
+import { disassemble } from './disassembler.js';
 
 /** List of built-in commands */
 export const BUILTIN_COMMANDS = [
@@ -197,7 +198,10 @@ export class Shell {
       }
       this.println(line.join(' '));
     }
-    this.println(`pc=${this.cpu.pc.toString(16).padStart(8, '0')}`);
+    const pc = this.cpu.pc;
+    // The instruction at pc, when it can be read without touching devices
+    const next = this.cpu.isRam(pc, 4) ? `  ${disassemble(this.cpu.readWord(pc), pc, { pseudo: true })}` : '';
+    this.println(`pc=${pc.toString(16).padStart(8, '0')}${next}`);
   }
 
   /**
@@ -0,0 +1,130 @@
+/**
+ * Symmetric Multiprocessing
+ *
+ * Runs several RiscVCpu harts against one machine: hart 0 creates the
+ * memory, bus and devices and the other harts share them. All harts
+ * start at the same pc and tell themselves apart by mhartid. Harts are
+ * interleaved on the host thread by a scheduler, each running a slice
+ * of `quantum` instructions, which keeps every instruction (and so
+ * every AMO) atomic with respect to the other harts.
+ */
+
+import { RiscVCpu, RiscVConfig } from './cpu.js';
+
+/**
+ * Choose the index of the next hart to run after `previous` (-1 before
+ * the first slice). Returns -1 when no hart can run; picking a halted
+ * hart also ends the run.
+ */
+export type HartScheduler = (harts: readonly RiscVCpu[], previous: number) => number;
+
+export interface SmpConfig extends Omit<RiscVConfig, 'hartId' | 'hartCount' | 'shareWith'> {
+  /** Number of harts (default 2) */
+  hartCount?: number;
+  /** Instructions a hart runs before the scheduler switches (default 1) */
+  quantum?: number;
+  /** Scheduling policy (default round-robin over running harts) */
+  scheduler?: HartScheduler;
+}
+
+/**
+ * Run the harts that have not halted in turn
+ */
+export const roundRobin: HartScheduler = (harts, previous) => {
+  for (let i = 1; i <= harts.length; i++) {
+    const index = (previous + i) % harts.length;
+    if (!harts[index].halted) {
+      return index;
+    }
+  }
+  return -1;
+};
+
+export class SmpSystem {
+  public readonly harts: RiscVCpu[];
+  private quantum: number;
+  private scheduler: HartScheduler;
+  private current: number = -1;
+
+  constructor(config: SmpConfig = {}) {
+    const { hartCount = 2, quantum = 1, scheduler = roundRobin, ...cpuConfig } = config;
+    if (hartCount < 1 || quantum < 1) {
+      throw new Error(`Invalid SMP configuration: ${hartCount} harts, quantum ${quantum}`);
+    }
+    this.quantum = quantum;
+    this.scheduler = scheduler;
+
+    const boot = new RiscVCpu({ ...cpuConfig, hartId: 0, hartCount });
+    this.harts = [boot];
+    for (let hartId = 1; hartId < hartCount; hartId++) {
+      this.harts.push(new RiscVCpu({ ...cpuConfig, hartId, shareWith: boot }));
+    }
+  }
+
+  /**
+   * Check whether every hart has halted
+   */
+  get halted(): boolean {
+    return this.harts.every((hart) => hart.halted);
+  }
+
+  /**
+   * Load a program into the shared memory
+   */
+  loadProgram(program: Uint8Array, address: number = 0): void {
+    this.harts[0].loadProgram(program, address);
+  }
+
+  /**
+   * Reset every hart and the shared devices
+   */
+  reset(): void {
+    for (const hart of this.harts) {
+      hart.reset();
+    }
+    this.current = -1;
+  }
+
+  /**
+   * Run one scheduling slice
+   * Returns false once no hart can run
+   */
+  step(): boolean {
+    return this.runSlice() >= 0;
+  }
+
+  /**
+   * Run slices until every hart halts or the cycle budget (summed over
+   * all harts) is spent. Returns the number of cycles executed.
+   */
+  run(maxCycles: number = 1000000): number {
+    let executed = 0;
+    while (executed < maxCycles) {
+      const cycles = this.runSlice();
+      if (cycles < 0) {
+        break;
+      }
+      executed += cycles;
+    }
+    return executed;
+  }
+
+  /**
+   * Give the next hart a quantum; returns its cycles or -1 if none ran
+   */
+  private runSlice(): number {
+    const next = this.scheduler(this.harts, this.current);
+    if (next < 0 || this.harts[next].halted) {
+      return -1;
+    }
+    this.current = next;
+    const cycles = this.harts[next].run(this.quantum);
+
+    // mtime follows the boot hart; keep it moving once that has halted
+    const boot = this.harts[0];
+    if (next !== 0 && boot.halted) {
+      boot.clint.tick(cycles);
+    }
+    return cycles;
+  }
+}
@@ -0,0 +1,296 @@
+/**
+ * Machine Snapshots
+ *
+ * Captures everything needed to resume a single-hart machine exactly
+ * where it stopped: hart registers and syscall state (including open
+ * files), main RAM and any further RAM regions, the graphics card, storage controller and drive
+ * media, keyboard, CLINT and PLIC, the attached filesystem image and,
+ * optionally, the InteractiveSystem shell. Machines with more than one
+ * hart cannot be snapshotted.
+ *
+ * Snapshots are plain objects; serializeSnapshot() turns one into JSON
+ * and deserializeSnapshot() reads it back, rejecting other formats and
+ * versions. Byte arrays are stored as base64 runs of blocks that are
+ * not all zero, so empty RAM and disk space costs nothing.
+ */
+
+import { RiscVCpu, HartState } from './cpu.js';
+import { GraphicsState } from './graphics.js';
+import { StorageControllerState } from './storage-controller.js';
+import { KeyboardState } from './keyboard.js';
+import { ClintState } from './clint.js';
+import { PlicState } from './plic.js';
+import { WireFS } from './filesystem.js';
+import { InteractiveSystem, InteractiveSystemState } from './boot-disk.js';
+import { BusRegion, RamDevice } from './bus.js';
+
+/** Format tag of serialized snapshots */
+export const SNAPSHOT_FORMAT = 'wire-riscv-snapshot';
+
+/** Version of the snapshot layout; bumped when a field changes meaning */
+export const SNAPSHOT_VERSION = 4;
+
+/**
+ * Contents of a RAM region mapped beside main memory
+ */
+export interface RamRegionSnapshot {
+  name: string;
+  base: number;
+  data: Uint8Array;
+}
+
+/**
+ * State of a whole machine
+ */
+export interface MachineSnapshot {
+  format: typeof SNAPSHOT_FORMAT;
+  version: number;
+  hart: HartState;
+  memory: Uint8Array;
+  /** RAM regions mapped beside main memory (RiscVConfig.ramRegions) */
+  ramRegions: RamRegionSnapshot[];
+  gpu: GraphicsState;
+  storage: StorageControllerState;
+  keyboard: KeyboardState;
+  clint: ClintState;
+  plic: PlicState;
+  /** Image of the filesystem attached for syscalls, if any */
+  filesystem: Uint8Array | null;
+  /** Shell state, when the machine runs an InteractiveSystem */
+  system: InteractiveSystemState | null;
+}
+
+/** Granularity of the zero-skipping byte array encoding */
+const BLOCK_SIZE = 512;
+
+/** JSON stand-in for a byte array: its length and [offset, base64] runs */
+interface EncodedBytes {
+  $length: number;
+  $runs: Array<[number, string]>;
+}
+
+/**
+ * Capture the state of a machine (and its shell)
+ */
+export function saveSnapshot(cpu: RiscVCpu, system: InteractiveSystem | null = null): MachineSnapshot {
+  checkSingleHart(cpu);
+  return {
+    format: SNAPSHOT_FORMAT,
+    version: SNAPSHOT_VERSION,
+    hart: cpu.saveState(),
+    memory: new Uint8Array(cpu.memory),
+    ramRegions: extraRam(cpu).map((region) => ({
+      name: region.name,
+      base: region.base,
+      data: new Uint8Array((region.device as RamDevice).data),
+    })),
+    gpu: cpu.gpu.saveState(),
+    storage: cpu.storage.saveState(),
+    keyboard: cpu.keyboard.saveState(),
+    clint: cpu.clint.saveState(),
+    plic: cpu.plic.saveState(),
+    filesystem: cpu.filesystem ? new Uint8Array(cpu.filesystem.getStorage()) : null,
+    system: system ? system.saveState() : null,
+  };
+}
+
+/**
+ * Put a machine (and its shell) back into a snapshotted state
+ *
+ * The machine must have the same RAM regions and drive sizes as the one
+ * the snapshot was taken from; it is checked before anything changes,
+ * so a snapshot that does not fit leaves the machine as it was.
+ */
+export function restoreSnapshot(snapshot: MachineSnapshot, cpu: RiscVCpu, system: InteractiveSystem | null = null): void {
+  checkVersion(snapshot);
+  checkSingleHart(cpu);
+  checkFits(snapshot, cpu);
+
+  cpu.memory.set(snapshot.memory);
+  for (const saved of snapshot.ramRegions) {
+    const region = extraRam(cpu).find((region) => region.name === saved.name)!;
+    (region.device as RamDevice).data.set(saved.data);
+  }
+  cpu.gpu.restoreState(snapshot.gpu);
+  cpu.storage.restoreState(snapshot.storage);
+  cpu.keyboard.restoreState(snapshot.keyboard);
+  cpu.clint.restoreState(snapshot.clint);
+  cpu.plic.restoreState(snapshot.plic);
+  cpu.filesystem = snapshot.filesystem ? new WireFS(new Uint8Array(snapshot.filesystem)) : null;
+  cpu.restoreState(snapshot.hart);
+
+  if (system !== null && snapshot.system !== null) {
+    system.restoreState(snapshot.system);
+  }
+}
+
+/**
+ * Serialize a snapshot to JSON
+ */
+export function serializeSnapshot(snapshot: MachineSnapshot): string {
+  return JSON.stringify(snapshot, (_key, value) =>
+    value instanceof Uint8Array ? encodeBytes(value) : value
+  );
+}
+
+/**
+ * Parse a snapshot serialized by serializeSnapshot()
+ */
+export function deserializeSnapshot(json: string): MachineSnapshot {
+  let snapshot: MachineSnapshot;
+  try {
+    snapshot = JSON.parse(json, (_key, value) =>
+      isEncodedBytes(value) ? decodeBytes(value) : value
+    );
+  } catch {
+    throw new Error('Invalid snapshot: not JSON');
+  }
+  if (snapshot === null || typeof snapshot !== 'object' || snapshot.format !== SNAPSHOT_FORMAT) {
+    throw new Error('Invalid snapshot: not a machine snapshot');
+  }
+  checkVersion(snapshot);
+  return snapshot;
+}
+
+/**
+ * Reject snapshots written by a different layout version
+ */
+function checkVersion(snapshot: MachineSnapshot): void {
+  if (snapshot.version !== SNAPSHOT_VERSION) {
+    throw new Error(`Invalid snapshot: version ${snapshot.version} is not supported (expected ${SNAPSHOT_VERSION})`);
+  }
+}
+
+/**
+ * Reject machines whose other harts a snapshot would leave out
+ */
+function checkSingleHart(cpu: RiscVCpu): void {
+  if (cpu.clint.hartCount > 1) {
+    throw new Error(`Cannot snapshot a machine with ${cpu.clint.hartCount} harts`);
+  }
+}
+
+/**
+ * Check that a snapshot's RAM, drive media and buffers fit a machine
+ */
+function checkFits(snapshot: MachineSnapshot, cpu: RiscVCpu): void {
+  const mismatch = (what: string, saved: number, actual: number) =>
+    new Error(`Invalid snapshot: ${saved} bytes of ${what}, but the machine has ${actual}`);
+
+  if (snapshot.memory.length !== cpu.memory.length) {
+    throw mismatch('RAM', snapshot.memory.length, cpu.memory.length);
+  }
+  const regions = extraRam(cpu);
+  const describe = (region: { name: string; base: number }) => `${region.name} at 0x${region.base.toString(16)}`;
+  if (regions.length !== snapshot.ramRegions.length) {
+    throw new Error(
+      `Invalid snapshot: RAM regions [${snapshot.ramRegions.map(describe).join(', ')}], ` +
+      `but the machine has [${regions.map(describe).join(', ')}]`
+    );
+  }
+  for (const saved of snapshot.ramRegions) {
+    const region = regions.find((region) => region.name === saved.name && region.base === saved.base);
+    if (region === undefined) {
+      throw new Error(`Invalid snapshot: the machine has no RAM region ${describe(saved)}`);
+    }
+    if (saved.data.length !== region.size) {
+      throw mismatch(`RAM in ${describe(saved)}`, saved.data.length, region.size);
+    }
+  }
+
+  const storage = cpu.storage;
+  const hddSize = storage.getHdd().getTotalBytes();
+  if (snapshot.storage.hdd.length !== hddSize) {
+    throw mismatch('hard disk', snapshot.storage.hdd.length, hddSize);
+  }
+  const usbSize = storage.getUsb().getTotalBytes();
+  if (snapshot.storage.usb.image.length > usbSize) {
+    throw mismatch('USB drive', snapshot.storage.usb.image.length, usbSize);
+  }
+  const dmaSize = storage.getDMABuffer().length;
+  if (snapshot.storage.dmaBuffer.length !== dmaSize) {
+    throw mismatch('DMA buffer', snapshot.storage.dmaBuffer.length, dmaSize);
+  }
+}
+
+/**
+ * RAM regions on the bus besides main memory
+ */
+function extraRam(cpu: RiscVCpu): BusRegion[] {
+  return cpu.bus.getRegions().filter((region) =>
+    region.device instanceof RamDevice && !region.readOnly && region.device.data !== cpu.memory);
+}
+
+/**
+ * Check whether a parsed JSON value stands for a byte array
+ */
+function isEncodedBytes(value: unknown): value is EncodedBytes {
+  return typeof value === 'object' && value !== null && Array.isArray((value as EncodedBytes).$runs);
+}
+
+/**
+ * Encode the blocks of a byte array that hold data
+ */
+function encodeBytes(bytes: Uint8Array): EncodedBytes {
+  const runs: Array<[number, string]> = [];
+  let start = -1;
+  for (let offset = 0; offset < bytes.length; offset += BLOCK_SIZE) {
+    const empty = isZero(bytes.subarray(offset, offset + BLOCK_SIZE));
+    if (!empty && start < 0) {
+      start = offset;
+    } else if (empty && start >= 0) {
+      runs.push([start, encodeBase64(bytes.subarray(start, offset))]);
+      start = -1;
+    }
+  }
+  if (start >= 0) {
+    runs.push([start, encodeBase64(bytes.subarray(start))]);
+  }
+  return { $length: bytes.length, $runs: runs };
+}
+
+/**
+ * Rebuild a byte array from its encoded runs
+ */
+function decodeBytes(encoded: EncodedBytes): Uint8Array {
+  const bytes = new Uint8Array(encoded.$length);
+  for (const [offset, data] of encoded.$runs) {
+    bytes.set(decodeBase64(data), offset);
+  }
+  return bytes;
+}
+
+/**
+ * Check whether every byte is zero
+ */
+function isZero(bytes: Uint8Array): boolean {
+  for (let i = 0; i < bytes.length; i++) {
+    if (bytes[i] !== 0) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Encode bytes as base64 (btoa works on binary strings, built in chunks)
+ */
+function encodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decode base64 to bytes
+ */
+function decodeBase64(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
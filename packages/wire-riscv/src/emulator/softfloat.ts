@@ -0,0 +1,624 @@
+/**
+ * IEEE 754 Binary32/Binary64 Arithmetic
+ *
+ * Correctly rounded floating-point operations for the F and D
+ * extensions, in every RISC-V rounding mode, raising the IEEE
+ * exception flags. Operands and results are JS numbers; binary32
+ * values are held exactly in a double.
+ *
+ * Round-to-nearest-even results come straight from the host's double
+ * arithmetic (Math.fround narrows to binary32), with error-free
+ * transformations telling whether they were exact. The other rounding
+ * modes, and results that may underflow or overflow, are computed
+ * exactly with BigInt and rounded once. NaN results are returned as
+ * NaN; the register file stores them as the canonical NaN. Signaling
+ * NaN operands are detected by the caller, which sees the raw bits.
+ */
+
+/** Rounding modes (the rm instruction field and frm) */
+export const ROUNDING_MODE = {
+  /** Round to nearest, ties to even */
+  RNE: 0b000,
+  /** Round towards zero */
+  RTZ: 0b001,
+  /** Round down (towards -infinity) */
+  RDN: 0b010,
+  /** Round up (towards +infinity) */
+  RUP: 0b011,
+  /** Round to nearest, ties to max magnitude */
+  RMM: 0b100,
+  /** Use frm (instruction field only) */
+  DYN: 0b111,
+} as const;
+
+/** Accrued exception flags (fflags) */
+export const FFLAGS = {
+  /** Inexact */
+  NX: 1 << 0,
+  /** Underflow */
+  UF: 1 << 1,
+  /** Overflow */
+  OF: 1 << 2,
+  /** Divide by zero */
+  DZ: 1 << 3,
+  /** Invalid operation */
+  NV: 1 << 4,
+} as const;
+
+/** Parameters of a binary interchange format */
+export interface FloatFormat {
+  /** Significand bits, including the implicit leading bit */
+  readonly precision: number;
+  /** Exponent of the smallest normal number */
+  readonly emin: number;
+  /** Smallest positive normal number */
+  readonly minNormal: number;
+  /** Largest finite number */
+  readonly maxFinite: number;
+}
+
+export const BINARY32: FloatFormat = {
+  precision: 24,
+  emin: -126,
+  minNormal: 2 ** -126,
+  maxFinite: (2 - 2 ** -23) * 2 ** 127,
+};
+
+export const BINARY64: FloatFormat = {
+  precision: 53,
+  emin: -1022,
+  minNormal: 2 ** -1022,
+  maxFinite: Number.MAX_VALUE,
+};
+
+/** Receives the exception flags an operation raises */
+export interface FloatStatus {
+  fflags: number;
+}
+
+// Veltkamp splitting constant (2^27 + 1) and the ranges in which the
+// error-free product is exact: operands must not overflow when split,
+// and the error term must not fall below the subnormal range
+const SPLITTER = 134217729;
+const SPLIT_LIMIT = 2 ** 995;
+const PRODUCT_MIN = 2 ** -969;
+
+const scratch = new DataView(new ArrayBuffer(8));
+
+/**
+ * Narrow a double to the format with round-to-nearest-even
+ */
+function narrow(format: FloatFormat, value: number): number {
+  return format === BINARY32 ? Math.fround(value) : value;
+}
+
+/**
+ * Check whether a nearest-even result needs no underflow or overflow
+ * handling (normal and finite in the format)
+ */
+function isNormal(format: FloatFormat, value: number): boolean {
+  const magnitude = Math.abs(value);
+  return magnitude >= format.minNormal && magnitude <= format.maxFinite;
+}
+
+/**
+ * Rounding error of the double sum a + b (Knuth's TwoSum)
+ */
+function sumError(a: number, b: number, sum: number): number {
+  const bVirtual = sum - a;
+  return (a - (sum - bVirtual)) + (b - bVirtual);
+}
+
+/**
+ * Rounding error of the double product a * b (Dekker's TwoProduct).
+ * Exact while |a|, |b| <= SPLIT_LIMIT and |product| >= PRODUCT_MIN.
+ */
+function productError(a: number, b: number, product: number): number {
+  let t = SPLITTER * a;
+  const aHigh = t - (t - a);
+  const aLow = a - aHigh;
+  t = SPLITTER * b;
+  const bHigh = t - (t - b);
+  const bLow = b - bHigh;
+  return ((aHigh * bHigh - product) + aHigh * bLow + aLow * bHigh) + aLow * bLow;
+}
+
+/**
+ * Check whether productError is exact for a * b
+ */
+function canSplit(a: number, b: number, product: number): boolean {
+  return Math.abs(a) <= SPLIT_LIMIT && Math.abs(b) <= SPLIT_LIMIT &&
+    Math.abs(product) >= PRODUCT_MIN && Math.abs(product) <= BINARY64.maxFinite;
+}
+
+/** A finite non-zero value as an integer significand and exponent */
+interface Exact {
+  negative: boolean;
+  /** value = ±significand * 2^exponent */
+  significand: bigint;
+  exponent: number;
+}
+
+/**
+ * Decompose a finite non-zero double exactly
+ */
+function toExact(value: number): Exact {
+  scratch.setFloat64(0, value, true);
+  const low = scratch.getUint32(0, true);
+  const high = scratch.getUint32(4, true);
+  const biased = (high >>> 20) & 0x7ff;
+  const fraction = (BigInt(high & 0xfffff) << 32n) | BigInt(low);
+  return biased === 0
+    ? { negative: value < 0, significand: fraction, exponent: -1074 }
+    : { negative: value < 0, significand: fraction | (1n << 52n), exponent: biased - 1075 };
+}
+
+/**
+ * Number of bits in a positive BigInt
+ */
+function bitLength(value: bigint): number {
+  return value.toString(2).length;
+}
+
+/**
+ * Decide whether truncating to `kept` loses enough to round away
+ * from zero, given the discarded remainder and half an ulp
+ */
+function roundsAway(rm: number, negative: boolean, kept: bigint, remainder: bigint, half: bigint): boolean {
+  switch (rm) {
+    case ROUNDING_MODE.RNE:
+      return remainder > half || (remainder === half && (kept & 1n) === 1n);
+    case ROUNDING_MODE.RDN:
+      return negative;
+    case ROUNDING_MODE.RUP:
+      return !negative;
+    case ROUNDING_MODE.RMM:
+      return remainder >= half;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Round ±significand * 2^exponent to the format
+ *
+ * Handles subnormal results, overflow to infinity or the largest
+ * finite value as the rounding mode requires, and underflow with
+ * tininess detected after rounding, as RISC-V specifies.
+ */
+function roundExact(
+  format: FloatFormat,
+  negative: boolean,
+  significand: bigint,
+  exponent: number,
+  rm: number,
+  status: FloatStatus
+): number {
+  if (significand === 0n) {
+    return negative ? -0 : 0;
+  }
+  const precision = format.precision;
+  const length = bitLength(significand);
+  // Exponent of the leading bit, and of the last bit the result keeps
+  const top = exponent + length - 1;
+  const ulp = Math.max(top - precision + 1, format.emin - precision + 1);
+
+  let kept = significand;
+  let inexact = false;
+  if (ulp > exponent) {
+    const shift = BigInt(ulp - exponent);
+    kept = significand >> shift;
+    const remainder = significand - (kept << shift);
+    if (remainder !== 0n) {
+      inexact = true;
+      if (roundsAway(rm, negative, kept, remainder, 1n << (shift - 1n))) {
+        kept += 1n;
+      }
+    }
+  } else {
+    kept = significand << BigInt(exponent - ulp);
+  }
+
+  const magnitude = Number(kept) * 2 ** ulp;
+  if (magnitude > format.maxFinite) {
+    status.fflags |= FFLAGS.OF | FFLAGS.NX;
+    const toInfinity = rm === ROUNDING_MODE.RNE || rm === ROUNDING_MODE.RMM ||
+      (rm === ROUNDING_MODE.RUP && !negative) || (rm === ROUNDING_MODE.RDN && negative);
+    const result = toInfinity ? Infinity : format.maxFinite;
+    return negative ? -result : result;
+  }
+
+  if (inexact) {
+    status.fflags |= FFLAGS.NX;
+    if (top < format.emin) {
+      // Tiny unless rounding to full precision would reach the smallest normal
+      let tiny = true;
+      if (top === format.emin - 1 && length > precision) {
+        const shift = BigInt(length - precision);
+        let rounded = significand >> shift;
+        const remainder = significand - (rounded << shift);
+        if (roundsAway(rm, negative, rounded, remainder, 1n << (shift - 1n))) {
+          rounded += 1n;
+        }
+        tiny = rounded < 1n << BigInt(precision);
+      }
+      if (tiny) {
+        status.fflags |= FFLAGS.UF;
+      }
+    }
+  }
+  return negative ? -magnitude : magnitude;
+}
+
+/**
+ * Round the exact sum of two exact values
+ */
+function roundSum(format: FloatFormat, a: Exact, b: Exact, rm: number, status: FloatStatus): number {
+  const exponent = Math.min(a.exponent, b.exponent);
+  const aScaled = a.significand << BigInt(a.exponent - exponent);
+  const bScaled = b.significand << BigInt(b.exponent - exponent);
+  const sum = (a.negative ? -aScaled : aScaled) + (b.negative ? -bScaled : bScaled);
+  if (sum === 0n) {
+    // Exact cancellation: +0, or -0 when rounding down
+    return rm === ROUNDING_MODE.RDN ? -0 : 0;
+  }
+  return roundExact(format, sum < 0n, sum < 0n ? -sum : sum, exponent, rm, status);
+}
+
+/**
+ * Sum of two zeros: keeps a common sign, otherwise +0 (-0 rounding down)
+ */
+function zeroSum(a: number, b: number, rm: number): number {
+  if (Object.is(a, b)) {
+    return a;
+  }
+  return rm === ROUNDING_MODE.RDN ? -0 : 0;
+}
+
+/**
+ * a + b
+ */
+export function add(format: FloatFormat, a: number, b: number, rm: number, status: FloatStatus): number {
+  if (Number.isNaN(a) || Number.isNaN(b)) {
+    return NaN;
+  }
+  if (!Number.isFinite(a) || !Number.isFinite(b)) {
+    const sum = a + b;
+    if (Number.isNaN(sum)) {
+      // inf - inf
+      status.fflags |= FFLAGS.NV;
+    }
+    return sum;
+  }
+  if (a === 0 || b === 0) {
+    return a === 0 && b === 0 ? zeroSum(a, b, rm) : (a === 0 ? b : a);
+  }
+
+  if (rm === ROUNDING_MODE.RNE) {
+    const sum = a + b;
+    const result = narrow(format, sum);
+    if (sum === 0 || isNormal(format, result)) {
+      if (result !== sum || sumError(a, b, sum) !== 0) {
+        status.fflags |= FFLAGS.NX;
+      }
+      return result;
+    }
+  }
+  return roundSum(format, toExact(a), toExact(b), rm, status);
+}
+
+/**
+ * a - b
+ */
+export function sub(format: FloatFormat, a: number, b: number, rm: number, status: FloatStatus): number {
+  return add(format, a, -b, rm, status);
+}
+
+/**
+ * a * b
+ */
+export function mul(format: FloatFormat, a: number, b: number, rm: number, status: FloatStatus): number {
+  const product = a * b;
+  if (Number.isNaN(a) || Number.isNaN(b)) {
+    return NaN;
+  }
+  if (Number.isNaN(product)) {
+    // 0 * inf
+    status.fflags |= FFLAGS.NV;
+    return NaN;
+  }
+  if (!Number.isFinite(a) || !Number.isFinite(b) || a === 0 || b === 0) {
+    return product;
+  }
+
+  if (rm === ROUNDING_MODE.RNE) {
+    if (format === BINARY32) {
+      // The product of two binary32 values is exact in a double
+      const result = Math.fround(product);
+      if (isNormal(format, result)) {
+        if (result !== product) {
+          status.fflags |= FFLAGS.NX;
+        }
+        return result;
+      }
+    } else if (canSplit(a, b, product)) {
+      if (productError(a, b, product) !== 0) {
+        status.fflags |= FFLAGS.NX;
+      }
+      return product;
+    }
+  }
+  const x = toExact(a);
+  const y = toExact(b);
+  return roundExact(format, x.negative !== y.negative, x.significand * y.significand,
+    x.exponent + y.exponent, rm, status);
+}
+
+/**
+ * a / b
+ */
+export function div(format: FloatFormat, a: number, b: number, rm: number, status: FloatStatus): number {
+  if (Number.isNaN(a) || Number.isNaN(b)) {
+    return NaN;
+  }
+  const quotient = a / b;
+  if (Number.isNaN(quotient)) {
+    // 0/0 or inf/inf
+    status.fflags |= FFLAGS.NV;
+    return NaN;
+  }
+  if (b === 0 && Number.isFinite(a)) {
+    status.fflags |= FFLAGS.DZ;
+    return quotient;
+  }
+  if (!Number.isFinite(a) || !Number.isFinite(b) || a === 0) {
+    return quotient;
+  }
+
+  if (rm === ROUNDING_MODE.RNE) {
+    if (format === BINARY32) {
+      // result * b is exact, so it equals a only for an exact quotient
+      const result = Math.fround(quotient);
+      if (isNormal(format, result)) {
+        if (result * b !== a) {
+          status.fflags |= FFLAGS.NX;
+        }
+        return result;
+      }
+    } else if (isNormal(format, quotient) && canSplit(quotient, b, a)) {
+      const product = quotient * b;
+      if (product !== a || productError(quotient, b, product) !== 0) {
+        status.fflags |= FFLAGS.NX;
+      }
+      return quotient;
+    }
+  }
+
+  // Long division with two guard bits beyond the precision and a sticky bit
+  const x = toExact(a);
+  const y = toExact(b);
+  const shift = Math.max(0, format.precision + 2 + bitLength(y.significand) - bitLength(x.significand));
+  const dividend = x.significand << BigInt(shift);
+  const kept = dividend / y.significand;
+  const sticky = dividend % y.significand === 0n ? 0n : 1n;
+  return roundExact(format, x.negative !== y.negative, (kept << 1n) | sticky,
+    x.exponent - y.exponent - shift - 1, rm, status);
+}
+
+/**
+ * Integer square root (floor) of a non-negative BigInt
+ */
+function isqrt(value: bigint): bigint {
+  if (value < 2n) {
+    return value;
+  }
+  // Newton's iteration from an overestimate
+  let root = 1n << BigInt((bitLength(value) >> 1) + 1);
+  for (;;) {
+    const next = (root + value / root) >> 1n;
+    if (next >= root) {
+      return root;
+    }
+    root = next;
+  }
+}
+
+/**
+ * Square root of a
+ */
+export function sqrt(format: FloatFormat, a: number, rm: number, status: FloatStatus): number {
+  if (Number.isNaN(a)) {
+    return NaN;
+  }
+  if (a < 0) {
+    status.fflags |= FFLAGS.NV;
+    return NaN;
+  }
+  if (a === 0 || a === Infinity) {
+    return a;
+  }
+
+  if (rm === ROUNDING_MODE.RNE) {
+    const root = Math.sqrt(a);
+    if (format === BINARY32) {
+      const result = Math.fround(root);
+      if (result * result !== a) {
+        status.fflags |= FFLAGS.NX;
+      }
+      return result;
+    }
+    if (canSplit(root, root, a)) {
+      const square = root * root;
+      if (square !== a || productError(root, root, square) !== 0) {
+        status.fflags |= FFLAGS.NX;
+      }
+      return root;
+    }
+  }
+
+  // Scale to an even exponent with enough bits for two guard bits
+  let { significand, exponent } = toExact(a);
+  if (exponent & 1) {
+    significand <<= 1n;
+    exponent -= 1;
+  }
+  const shift = Math.max(0, format.precision + 3 - (bitLength(significand) >> 1));
+  const scaled = significand << BigInt(2 * shift);
+  const root = isqrt(scaled);
+  const sticky = root * root === scaled ? 0n : 1n;
+  return roundExact(format, false, (root << 1n) | sticky, exponent / 2 - shift - 1, rm, status);
+}
+
+/**
+ * Fused a * b + c with a single rounding
+ */
+export function fma(format: FloatFormat, a: number, b: number, c: number, rm: number, status: FloatStatus): number {
+  const product = a * b;
+  if (Number.isNaN(product) && !Number.isNaN(a) && !Number.isNaN(b)) {
+    // 0 * inf is invalid even when c is a quiet NaN
+    status.fflags |= FFLAGS.NV;
+    return NaN;
+  }
+  if (Number.isNaN(a) || Number.isNaN(b) || Number.isNaN(c)) {
+    return NaN;
+  }
+  if (!Number.isFinite(product) && (!Number.isFinite(a) || !Number.isFinite(b))) {
+    // An infinite product absorbs c unless c is the opposite infinity
+    const sum = product + c;
+    if (Number.isNaN(sum)) {
+      status.fflags |= FFLAGS.NV;
+    }
+    return sum;
+  }
+  if (!Number.isFinite(c)) {
+    return c;
+  }
+  if (a === 0 || b === 0) {
+    return c === 0 ? zeroSum(product, c, rm) : c;
+  }
+  if (c === 0) {
+    return mul(format, a, b, rm, status);
+  }
+
+  if (rm === ROUNDING_MODE.RNE && Number.isFinite(product)) {
+    // Exact product (always for binary32), exact double sum: round once
+    const exactProduct = format === BINARY32 ||
+      (canSplit(a, b, product) && productError(a, b, product) === 0);
+    if (exactProduct) {
+      const sum = product + c;
+      if (sumError(product, c, sum) === 0) {
+        const result = narrow(format, sum);
+        if (sum === 0 || isNormal(format, result)) {
+          if (result !== sum) {
+            status.fflags |= FFLAGS.NX;
+          }
+          return result;
+        }
+      }
+    }
+  }
+
+  const x = toExact(a);
+  const y = toExact(b);
+  const exactProduct: Exact = {
+    negative: x.negative !== y.negative,
+    significand: x.significand * y.significand,
+    exponent: x.exponent + y.exponent,
+  };
+  return roundSum(format, exactProduct, toExact(c), rm, status);
+}
+
+/**
+ * Minimum or maximum; a single NaN operand is ignored, and -0 < +0
+ */
+export function minMax(a: number, b: number, max: boolean): number {
+  if (Number.isNaN(a)) {
+    return b;
+  }
+  if (Number.isNaN(b)) {
+    return a;
+  }
+  return max ? Math.max(a, b) : Math.min(a, b);
+}
+
+/**
+ * FLT/FLE: signaling comparisons, invalid for any NaN operand
+ */
+export function compare(a: number, b: number, orEqual: boolean, status: FloatStatus): boolean {
+  if (Number.isNaN(a) || Number.isNaN(b)) {
+    status.fflags |= FFLAGS.NV;
+    return false;
+  }
+  return orEqual ? a <= b : a < b;
+}
+
+/**
+ * Round a number to the format (FCVT.S.D, FCVT.S.W and friends)
+ */
+export function round(format: FloatFormat, value: number, rm: number, status: FloatStatus): number {
+  if (!Number.isFinite(value) || value === 0) {
+    return value;
+  }
+  const nearest = narrow(format, value);
+  if (nearest === value) {
+    return value;
+  }
+  if (rm === ROUNDING_MODE.RNE && isNormal(format, nearest)) {
+    status.fflags |= FFLAGS.NX;
+    return nearest;
+  }
+  const { negative, significand, exponent } = toExact(value);
+  return roundExact(format, negative, significand, exponent, rm, status);
+}
+
+/**
+ * Round a value to an integral value in the given rounding mode
+ */
+function roundToIntegral(value: number, rm: number): number {
+  switch (rm) {
+    case ROUNDING_MODE.RTZ:
+      return Math.trunc(value);
+    case ROUNDING_MODE.RDN:
+      return Math.floor(value);
+    case ROUNDING_MODE.RUP:
+      return Math.ceil(value);
+    case ROUNDING_MODE.RMM: {
+      // Values from 2^52 up are integral, so the half adds exactly
+      const magnitude = Math.floor(Math.abs(value) + 0.5);
+      return value < 0 ? -magnitude : magnitude;
+    }
+    default: {
+      const floor = Math.floor(value);
+      const fraction = value - floor;
+      if (fraction > 0.5 || (fraction === 0.5 && floor % 2 !== 0)) {
+        return floor + 1;
+      }
+      return floor;
+    }
+  }
+}
+
+/**
+ * Convert to a 32-bit integer (FCVT.W.S, FCVT.WU.D and friends)
+ *
+ * Out-of-range values and NaN raise invalid and saturate: NaN and
+ * large positive values give the largest integer, large negative
+ * values the smallest. Returns the result as an unsigned register value.
+ */
+export function toInteger(value: number, signed: boolean, rm: number, status: FloatStatus): number {
+  const min = signed ? -0x80000000 : 0;
+  const max = signed ? 0x7fffffff : 0xffffffff;
+  if (Number.isNaN(value)) {
+    status.fflags |= FFLAGS.NV;
+    return max >>> 0;
+  }
+  const integral = roundToIntegral(value, rm);
+  if (integral < min || integral > max) {
+    status.fflags |= FFLAGS.NV;
+    return (value < 0 ? min : max) >>> 0;
+  }
+  if (integral !== value) {
+    status.fflags |= FFLAGS.NX;
+  }
+  return integral >>> 0;
+}
@@ -2,6 +2,10 @@
  * Storage Controller
  *
  * Memory-mapped I/O controller that manages all storage devices.
+ *
+ * Raises its interrupt line while any INT_STATUS bit is set: a
+ * command completed, a command failed, or USB media was inserted or
+ * removed. Writing 1s to INT_STATUS acknowledges those bits.
  */
 
 import { BlockDevice, BlockDeviceError } from './block-device.js';
@@ -22,6 +26,7 @@ export const STORAGE_REGS = {
   SECTOR_HI: 0x10,
   COUNT: 0x14,
   DMA_ADDR: 0x18,
+  INT_STATUS: 0x1c,
 } as const;
 
 export enum StorageCommand {
@@ -39,6 +44,12 @@ export enum StorageStatus {
   DRQ = 0x08, // Data request
 }
 
+export enum StorageInterrupt {
+  COMMAND_DONE = 0x01,
+  COMMAND_ERROR = 0x02,
+  MEDIA_CHANGE = 0x04,
+}
+
 export enum DeviceType {
   HDD = 0,
   CDROM = 1,
@@ -52,6 +63,26 @@ export interface DeviceInfo {
   isPresent: boolean;
 }
 
+/**
+ * Controller registers, DMA buffer and the media in every drive,
+ * for machine snapshots
+ */
+export interface StorageControllerState {
+  deviceSelect: number;
+  sectorLo: number;
+  sectorHi: number;
+  count: number;
+  dmaAddr: number;
+  status: number;
+  intStatus: number;
+  usbWasPresent: boolean;
+  dmaBuffer: Uint8Array;
+  deviceInfo: DeviceInfo;
+  hdd: Uint8Array;
+  cdrom: { disc: Uint8Array | null; trayOpen: boolean };
+  usb: { image: Uint8Array; present: boolean; writeProtected: boolean };
+}
+
 /**
  * Storage Controller managing HDD, CD-ROM, and USB devices
  */
@@ -67,6 +98,8 @@ export class StorageController {
   private count: number = 0;
   private dmaAddr: number = DMA_BUFFER_OFFSET + STORAGE_BASE;
   private status: number = StorageStatus.READY;
+  private intStatus: number = 0;
+  private usbWasPresent: boolean;
 
   // DMA Buffer
   private dmaBuffer: Uint8Array;
@@ -83,9 +116,23 @@ export class StorageController {
     this.hdd = hdd;
     this.cdrom = cdrom;
     this.usb = usb;
+    this.usbWasPresent = usb.isPresent();
     this.dmaBuffer = new Uint8Array(DMA_BUFFER_SIZE);
   }
 
+  /**
+   * Check if the interrupt line is asserted
+   * Also latches USB insert/eject since the last check
+   */
+  isInterruptPending(): boolean {
+    const usbPresent = this.usb.isPresent();
+    if (usbPresent !== this.usbWasPresent) {
+      this.usbWasPresent = usbPresent;
+      this.intStatus |= StorageInterrupt.MEDIA_CHANGE;
+    }
+    return this.intStatus !== 0;
+  }
+
   /**
    * Get the HDD device
    */
@@ -140,6 +187,9 @@ export class StorageController {
         return this.count;
       case STORAGE_REGS.DMA_ADDR:
         return this.dmaAddr >>> 0;
+      case STORAGE_REGS.INT_STATUS:
+        this.isInterruptPending();
+        return this.intStatus;
       default:
         return 0;
     }
@@ -168,6 +218,10 @@ export class StorageController {
       case STORAGE_REGS.DMA_ADDR:
         this.dmaAddr = value >>> 0;
         break;
+      case STORAGE_REGS.INT_STATUS:
+        // Write 1 to clear
+        this.intStatus &= ~value;
+        break;
     }
   }
 
@@ -175,6 +229,16 @@ export class StorageController {
    * Execute a storage command
    */
   private executeCommand(command: number): void {
+    this.runCommand(command);
+    this.intStatus |= this.status & StorageStatus.ERROR
+      ? StorageInterrupt.COMMAND_ERROR
+      : StorageInterrupt.COMMAND_DONE;
+  }
+
+  /**
+   * Run a storage command, leaving the result in the status register
+   */
+  private runCommand(command: number): void {
     const device = this.getSelectedDevice();
 
     // Clear previous errors and set ready
@@ -273,6 +337,64 @@ export class StorageController {
     return this.sectorLo; // For now, just use low 32 bits
   }
 
+  /**
+   * Copy the registers, the DMA buffer and the drive contents
+   */
+  saveState(): StorageControllerState {
+    return {
+      deviceSelect: this.deviceSelect,
+      sectorLo: this.sectorLo,
+      sectorHi: this.sectorHi,
+      count: this.count,
+      dmaAddr: this.dmaAddr,
+      status: this.status,
+      intStatus: this.intStatus,
+      usbWasPresent: this.usbWasPresent,
+      dmaBuffer: new Uint8Array(this.dmaBuffer),
+      deviceInfo: { ...this.lastDeviceInfo },
+      hdd: this.hdd.exportImage(),
+      cdrom: { disc: this.cdrom.getISOData(), trayOpen: this.cdrom.isTrayOpen() },
+      usb: {
+        image: new Uint8Array(this.usb.getRawData()),
+        present: this.usb.isPresent(),
+        writeProtected: this.usb.isReadOnly,
+      },
+    };
+  }
+
+  /**
+   * Restore state copied by saveState(); the drives must have the same sizes
+   */
+  restoreState(state: StorageControllerState): void {
+    this.deviceSelect = state.deviceSelect;
+    this.sectorLo = state.sectorLo;
+    this.sectorHi = state.sectorHi;
+    this.count = state.count;
+    this.dmaAddr = state.dmaAddr;
+    this.status = state.status;
+    this.intStatus = state.intStatus;
+    this.usbWasPresent = state.usbWasPresent;
+    this.dmaBuffer.set(state.dmaBuffer);
+    this.lastDeviceInfo = { ...state.deviceInfo };
+
+    this.hdd.importImage(state.hdd);
+
+    if (state.cdrom.disc !== null) {
+      this.cdrom.insertDisc(state.cdrom.disc);
+    } else {
+      this.cdrom.ejectDisc();
+    }
+    if (!state.cdrom.trayOpen) {
+      this.cdrom.closeTray();
+    }
+
+    this.usb.insertWithImage(state.usb.image);
+    if (!state.usb.present) {
+      this.usb.eject();
+    }
+    this.usb.setWriteProtected(state.usb.writeProtected);
+  }
+
   /**
    * Get DMA buffer for direct access
    */
@@ -0,0 +1,281 @@
+/**
+ * Commit Log Tracer
+ *
+ * Records one line per retired instruction in the format of Spike's
+ * `--log-commits`, so traces can be diffed against the reference
+ * simulator:
+ *
+ *   core   0: 3 0x00000008 (0x00b50633) x12 0x00000003
+ *   core   0: 3 0x0000000c (0x00c2a023) mem 0x00000800 0x00000003
+ *
+ * Each line carries the privilege level, pc, raw instruction (the
+ * 16-bit parcel for compressed instructions), then the integer, FP
+ * and CSR writebacks and the memory accesses. With disassembly on,
+ * Spike's `-l` line precedes it. Instructions that trap do not retire
+ * and are not logged.
+ *
+ * Attach a tracer with `cpu.tracer = new CommitTracer(...)`.
+ */
+
+import { OPCODE, RiscVCpu } from './cpu.js';
+import { CSR } from './csr.js';
+import { DecodedInstruction } from './decode-cache.js';
+import { AMO_FUNCT5, amoResult } from './atomic.js';
+import { FP_FUNCT5 } from './fpu.js';
+import { disassembleDecoded } from './disassembler.js';
+
+/**
+ * A range of instruction addresses, end exclusive
+ */
+export interface PcRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * What to trace and where the lines go
+ */
+export interface TracerOptions {
+  /** Emit the disassembly line before each commit line (default true) */
+  disassemble?: boolean;
+  /** Only trace instructions in these ranges (default: everywhere) */
+  pcRanges?: PcRange[];
+  /** First cycle to trace (default 0) */
+  startCycle?: number;
+  /** Stop tracing at this cycle, exclusive (default: never) */
+  endCycle?: number;
+  /** Keep only the last N instructions (default 0: keep everything) */
+  ringSize?: number;
+  /** Called with each line as it is produced; lines are then not buffered unless ringSize is set */
+  output?: (line: string) => void;
+}
+
+/** One memory access of the instruction being traced */
+interface MemoryAccess {
+  address: number;
+  /** Stored value as hex digits, or null for a load */
+  value: string | null;
+}
+
+const CSR_NAMES = new Map<number, string>(
+  Object.entries(CSR).map(([name, number]) => [number, name.toLowerCase()])
+);
+
+/** Size in bytes of each integer store (funct3) */
+const STORE_SIZES: Record<number, number> = { 0b000: 1, 0b001: 2, 0b010: 4 };
+
+/** OP-FP operations whose result goes to an integer register */
+const FP_TO_INTEGER = new Set<number>([FP_FUNCT5.FCMP, FP_FUNCT5.FCVT_W_FMT, FP_FUNCT5.FMV_X_FCLASS]);
+
+/** Opcodes that write an integer rd */
+const INTEGER_WRITERS = new Set<number>([
+  OPCODE.LUI, OPCODE.AUIPC, OPCODE.JAL, OPCODE.JALR, OPCODE.LOAD, OPCODE.OP_IMM, OPCODE.OP, OPCODE.AMO,
+]);
+
+/** Opcodes that write an FP rd */
+const FLOAT_WRITERS = new Set<number>([
+  OPCODE.LOAD_FP, OPCODE.MADD, OPCODE.MSUB, OPCODE.NMSUB, OPCODE.NMADD,
+]);
+
+/**
+ * Format a value as 0x-prefixed, zero-padded hex
+ */
+function hex(value: number, digits: number = 8): string {
+  return `0x${(value >>> 0).toString(16).padStart(digits, '0')}`;
+}
+
+export class CommitTracer {
+  private readonly showDisassembly: boolean;
+  private readonly pcRanges: PcRange[];
+  private readonly startCycle: number;
+  private readonly endCycle: number;
+  private readonly ringSize: number;
+  private readonly output: ((line: string) => void) | null;
+  /** Buffered lines of each traced instruction */
+  private entries: string[][] = [];
+
+  // State of the instruction between begin() and commit()
+  private active: boolean = false;
+  private pc: number = 0;
+  private bits: number = 0;
+  private length: number = 4;
+  private privilege: number = 0;
+  private decoded: DecodedInstruction | null = null;
+  private address: number = 0;
+  private operand: number = 0;
+  private operandHigh: number = 0;
+
+  constructor(options: TracerOptions = {}) {
+    this.showDisassembly = options.disassemble ?? true;
+    this.pcRanges = options.pcRanges ?? [];
+    this.startCycle = options.startCycle ?? 0;
+    this.endCycle = options.endCycle ?? Infinity;
+    this.ringSize = options.ringSize ?? 0;
+    this.output = options.output ?? null;
+  }
+
+  /**
+   * Lines traced so far (only the last ringSize instructions in ring mode)
+   */
+  getLines(): string[] {
+    return this.entries.flat();
+  }
+
+  /**
+   * Discard the buffered lines
+   */
+  clear(): void {
+    this.entries = [];
+  }
+
+  /**
+   * Capture the state an instruction reads, before the CPU executes it
+   *
+   * @param bits The instruction as fetched (the 16-bit parcel for
+   *   compressed instructions)
+   */
+  begin(cpu: RiscVCpu, decoded: DecodedInstruction, bits: number): void {
+    this.active = this.isTraced(cpu.pc, cpu.cycles);
+    if (!this.active) {
+      return;
+    }
+    this.pc = cpu.pc;
+    this.bits = bits;
+    this.length = decoded.length;
+    this.privilege = cpu.privilege;
+    this.decoded = decoded;
+
+    const { opcode, rs1, rs2, imm } = decoded;
+    const base = cpu.getReg(rs1);
+    this.address = opcode === OPCODE.AMO ? base : (base + imm) >>> 0;
+    if (opcode === OPCODE.STORE_FP) {
+      this.operand = cpu.fpu.low[rs2];
+      this.operandHigh = cpu.fpu.high[rs2];
+    } else {
+      this.operand = cpu.getReg(rs2);
+    }
+  }
+
+  /**
+   * Log the instruction begun last, now that it has retired
+   */
+  commit(cpu: RiscVCpu): void {
+    if (!this.active || this.decoded === null) {
+      return;
+    }
+    this.active = false;
+
+    const raw = this.length === 2 ? hex(this.bits, 4) : hex(this.bits);
+    const core = `core${cpu.hartId.toString().padStart(4)}:`;
+    let line = `${core} ${this.privilege} ${hex(this.pc)} (${raw})`;
+    for (const write of this.writebacks(cpu, this.decoded)) {
+      line += ` ${write}`;
+    }
+    for (const access of this.accesses(cpu, this.decoded)) {
+      line += access.value === null ? ` mem ${hex(access.address)}` : ` mem ${hex(access.address)} ${access.value}`;
+    }
+
+    const lines = this.showDisassembly
+      ? [`${core} ${hex(this.pc)} (${raw}) ${disassembleDecoded(this.decoded, this.pc)}`, line]
+      : [line];
+    this.record(lines);
+  }
+
+  /**
+   * Check the pc and cycle filters
+   */
+  private isTraced(pc: number, cycle: number): boolean {
+    if (cycle < this.startCycle || cycle >= this.endCycle) {
+      return false;
+    }
+    if (this.pcRanges.length === 0) {
+      return true;
+    }
+    return this.pcRanges.some((range) => pc >= range.start && pc < range.end);
+  }
+
+  /**
+   * Pass the lines of one instruction on and buffer them
+   */
+  private record(lines: string[]): void {
+    if (this.output !== null) {
+      for (const line of lines) {
+        this.output(line);
+      }
+      if (this.ringSize === 0) {
+        return;
+      }
+    }
+    this.entries.push(lines);
+    if (this.ringSize > 0 && this.entries.length > this.ringSize) {
+      this.entries.shift();
+    }
+  }
+
+  /**
+   * Register writebacks of a retired instruction: x, then f, then CSRs
+   */
+  private writebacks(cpu: RiscVCpu, decoded: DecodedInstruction): string[] {
+    const { raw, opcode, rd, funct3, rs1 } = decoded;
+    const writes: string[] = [];
+    const isCsr = opcode === OPCODE.SYSTEM && funct3 !== 0;
+    const toInteger = INTEGER_WRITERS.has(opcode) || isCsr ||
+      (opcode === OPCODE.OP_FP && FP_TO_INTEGER.has(raw >>> 27));
+
+    if (toInteger) {
+      if (rd !== 0) {
+        writes.push(`x${rd.toString().padEnd(2)} ${hex(cpu.getReg(rd))}`);
+      }
+    } else if (FLOAT_WRITERS.has(opcode) || opcode === OPCODE.OP_FP) {
+      writes.push(`f${rd.toString().padEnd(2)} ${hex(cpu.fpu.high[rd])}${cpu.fpu.low[rd].toString(16).padStart(8, '0')}`);
+    }
+
+    // CSRRS/CSRRC with rs1 = x0 (and their immediate forms with 0) only read
+    if (isCsr && ((funct3 & 0b11) === 0b01 || rs1 !== 0)) {
+      const csr = raw >>> 20;
+      writes.push(`c${csr}_${CSR_NAMES.get(csr) ?? 'unknown'} ${hex(cpu.readCsr(csr))}`);
+    }
+    return writes;
+  }
+
+  /**
+   * Memory accesses of a retired instruction
+   */
+  private accesses(cpu: RiscVCpu, decoded: DecodedInstruction): MemoryAccess[] {
+    const { raw, opcode, rd, funct3 } = decoded;
+    const address = this.address;
+
+    switch (opcode) {
+      case OPCODE.LOAD:
+      case OPCODE.LOAD_FP:
+        return [{ address, value: null }];
+      case OPCODE.STORE: {
+        const size = STORE_SIZES[funct3];
+        const mask = size === 4 ? 0xffffffff : (1 << (size * 8)) - 1;
+        return [{ address, value: hex(this.operand & mask, size * 2) }];
+      }
+      case OPCODE.STORE_FP:
+        return [{
+          address,
+          value: funct3 === 0b011
+            ? `${hex(this.operandHigh)}${this.operand.toString(16).padStart(8, '0')}`
+            : hex(this.operand),
+        }];
+      case OPCODE.AMO: {
+        const funct5 = raw >>> 27;
+        if (funct5 === AMO_FUNCT5.LR) {
+          return [{ address, value: null }];
+        }
+        if (funct5 === AMO_FUNCT5.SC) {
+          // A failed SC writes nothing (and is only visible through rd)
+          return rd !== 0 && cpu.getReg(rd) !== 0 ? [] : [{ address, value: hex(this.operand) }];
+        }
+        // rd holds the loaded value; with rd = x0 memory already holds the result
+        const stored = rd !== 0 ? amoResult(funct5, cpu.getReg(rd), this.operand) ?? 0 : cpu.readWord(address);
+        return [{ address, value: null }, { address, value: hex(stored) }];
+      }
+      default:
+        return [];
+    }
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * RISC-V Traps
+ *
+ * Synchronous exception and interrupt cause codes (mcause values)
+ * and the exception used to unwind the current instruction when
+ * one is raised.
+ */
+
+/** mcause bit 31 marks an interrupt */
+export const INTERRUPT_BIT = 0x80000000;
+
+/** Interrupt cause codes (mcause without the interrupt bit) */
+export const INTERRUPT_CAUSE = {
+  SUPERVISOR_SOFTWARE: 1,
+  MACHINE_SOFTWARE: 3,
+  SUPERVISOR_TIMER: 5,
+  MACHINE_TIMER: 7,
+  SUPERVISOR_EXTERNAL: 9,
+  MACHINE_EXTERNAL: 11,
+} as const;
+
+export const EXCEPTION_CAUSE = {
+  INSTRUCTION_ADDRESS_MISALIGNED: 0,
+  INSTRUCTION_ACCESS_FAULT: 1,
+  ILLEGAL_INSTRUCTION: 2,
+  BREAKPOINT: 3,
+  LOAD_ADDRESS_MISALIGNED: 4,
+  LOAD_ACCESS_FAULT: 5,
+  STORE_ADDRESS_MISALIGNED: 6,
+  STORE_ACCESS_FAULT: 7,
+  ECALL_FROM_U: 8,
+  ECALL_FROM_S: 9,
+  ECALL_FROM_M: 11,
+  INSTRUCTION_PAGE_FAULT: 12,
+  LOAD_PAGE_FAULT: 13,
+  STORE_PAGE_FAULT: 15,
+} as const;
+
+/** Names of the exception causes, by code */
+const EXCEPTION_NAMES: Record<number, string> = {
+  0: 'instruction address misaligned',
+  1: 'instruction access fault',
+  2: 'illegal instruction',
+  3: 'breakpoint',
+  4: 'load address misaligned',
+  5: 'load access fault',
+  6: 'store address misaligned',
+  7: 'store access fault',
+  8: 'ecall from U-mode',
+  9: 'ecall from S-mode',
+  11: 'ecall from M-mode',
+  12: 'instruction page fault',
+  13: 'load page fault',
+  15: 'store page fault',
+};
+
+/**
+ * A trap that halted a hart because no handler was installed
+ */
+export interface HaltingTrap {
+  /** mcause (or scause) value */
+  cause: number;
+  /** pc of the trapping instruction, as saved in mepc */
+  epc: number;
+  /** Trap value, as saved in mtval */
+  tval: number;
+}
+
+/**
+ * Describe an mcause value, e.g. "illegal instruction"
+ */
+export function trapCauseName(cause: number): string {
+  const code = cause & ~INTERRUPT_BIT;
+  if (cause & INTERRUPT_BIT) {
+    const name = Object.entries(INTERRUPT_CAUSE).find(([, value]) => value === code)?.[0];
+    return name ? `${name.toLowerCase().replace('_', ' ')} interrupt` : `interrupt ${code}`;
+  }
+  return EXCEPTION_NAMES[code] ?? `exception ${code}`;
+}
+
+/**
+ * Thrown while executing an instruction to raise a synchronous exception.
+ * The CPU catches it in step() and vectors to the trap handler.
+ */
+export class TrapException extends Error {
+  constructor(
+    public readonly cause: number,
+    public readonly tval: number = 0
+  ) {
+    super(`Trap: cause ${cause}, tval 0x${(tval >>> 0).toString(16)}`);
+    this.name = 'TrapException';
+  }
+}
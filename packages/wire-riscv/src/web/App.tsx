@@ -3,12 +3,29 @@ import { RiscVCpu } from '../emulator/cpu.js';
 import { Screen } from './Screen.js';
 import { KeyModifier } from '../emulator/keyboard.js';
 import { InteractiveSystem } from '../emulator/boot-disk.js';
+import { saveSnapshot, restoreSnapshot, serializeSnapshot, deserializeSnapshot } from '../emulator/snapshot.js';
+import { disassembleProgram, DisassembledLine } from '../emulator/disassembler.js';
+
+/** Bytes of code shown from the PC on */
+const CODE_WINDOW = 24;
+
+/**
+ * Disassemble the code at an address, or nothing when it is not in RAM
+ */
+function disassembleAt(cpu: RiscVCpu, address: number): DisassembledLine[] {
+  if (!cpu.isRam(address, CODE_WINDOW)) {
+    return [];
+  }
+  const bytes = Uint8Array.from({ length: CODE_WINDOW }, (_, i) => cpu.readByte(address + i));
+  return disassembleProgram(bytes, { base: address }).filter(line => line.bytes.length > 0);
+}
 
 export function App() {
-  const [cpu] = useState(() => new RiscVCpu({ memorySize: 64 * 1024 }));
+  const [cpu] = useState(() => new RiscVCpu({ memorySize: 4 * 1024 * 1024, hostSyscalls: true }));
   const [system, setSystem] = useState<InteractiveSystem | null>(null);
   const [pc, setPc] = useState(0);
   const [registers, setRegisters] = useState<number[]>([]);
+  const [code, setCode] = useState<DisassembledLine[]>([]);
   const [output, setOutput] = useState<string>('');
   const [program, setProgram] = useState<string>('');
   const [scale, setScale] = useState<1 | 2 | 3>(2);
@@ -16,6 +33,7 @@ export function App() {
   const [keyboardFocused, setKeyboardFocused] = useState(false);
   const [isBooted, setIsBooted] = useState(false);
   const screenContainerRef = useRef<HTMLDivElement>(null);
+  const snapshotInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     updateState();
@@ -83,6 +101,7 @@ export function App() {
   const updateState = () => {
     setPc(cpu.pc);
     setRegisters(Array.from(cpu.x));
+    setCode(disassembleAt(cpu, cpu.pc));
   };
 
   const handleBoot = () => {
@@ -172,6 +191,37 @@ export function App() {
     forceUpdate({});
   };
 
+  const handleSaveSnapshot = () => {
+    const json = serializeSnapshot(saveSnapshot(cpu, system));
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'wire-riscv-snapshot.json';
+    link.click();
+    URL.revokeObjectURL(url);
+    setOutput(`Saved snapshot at cycle ${cpu.cycles}`);
+  };
+
+  const handleLoadSnapshot = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow loading the same file again
+    if (!file) return;
+
+    try {
+      const snapshot = deserializeSnapshot(await file.text());
+      const restored = snapshot.system ? new InteractiveSystem(cpu) : null;
+      restoreSnapshot(snapshot, cpu, restored);
+      setSystem(restored);
+      setIsBooted(snapshot.system?.booted ?? false);
+      setProgram('');
+      setOutput(`Loaded snapshot at cycle ${cpu.cycles}`);
+      updateState();
+      forceUpdate({});
+    } catch (error) {
+      setOutput(error instanceof Error ? error.message : String(error));
+    }
+  };
+
   const handleScaleChange = useCallback((newScale: 1 | 2 | 3) => {
     setScale(newScale);
   }, []);
@@ -206,6 +256,19 @@ export function App() {
           Run
         </button>
         <button onClick={handleReset}>Reset</button>
+        <button onClick={handleSaveSnapshot}>
+          Save Snapshot
+        </button>
+        <button onClick={() => snapshotInputRef.current?.click()}>
+          Load Snapshot
+        </button>
+        <input
+          ref={snapshotInputRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={handleLoadSnapshot}
+          style={{ display: 'none' }}
+        />
 
         <span style={{ marginLeft: '20px', color: '#666' }}>Scale:</span>
         {[1, 2, 3].map((s) => (
@@ -264,6 +327,13 @@ export function App() {
             }}
           >
             <div style={{ marginBottom: '10px', color: '#ff0' }}>PC: 0x{pc.toString(16).padStart(8, '0')}</div>
+            <div style={{ marginBottom: '10px', whiteSpace: 'pre' }}>
+              {code.map((line, i) => (
+                <div key={line.address} style={{ color: i === 0 ? '#ff0' : '#0a0' }}>
+                  {i === 0 ? '> ' : '  '}{line.address.toString(16).padStart(8, '0')}  {line.text}
+                </div>
+              ))}
+            </div>
             {registers.map((val, i) => (
               <div key={i}>
                 x{i.toString().padStart(2, '0')}: 0x{val.toString(16).padStart(8, '0')} ({val})
@@ -315,6 +385,8 @@ export function App() {
         <p>
           <strong>Boot</strong> to start the OS with shell. Commands: help, ls, cat, echo, cls, mem, exit.
           Or load example programs and use Step/Run for manual execution.
+          <strong> Save Snapshot</strong> checkpoints the whole machine to a file that
+          <strong> Load Snapshot</strong> resumes.
         </p>
       </div>
     </div>
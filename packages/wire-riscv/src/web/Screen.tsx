@@ -178,6 +178,9 @@ export function Screen({
     const animate = () => {
       if (!running) return;
 
+      // Each animation frame is a vertical blank for the guest
+      gpu.signalVblank();
+
       // Update blink state (~500ms interval at 60fps = 30 frames)
       blinkCounterRef.current++;
       if (blinkCounterRef.current >= 30) {
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { Assembler } from '../../src/assembler/assembler.js';
+import { Encoder } from '../../src/assembler/encoder.js';
 import { RiscVCpu } from '../../src/emulator/cpu.js';
 
 describe('Assembler', () => {
@@ -267,6 +268,50 @@ target:
     });
   });
 
+  describe('.option rvc', () => {
+    it('should compress eligible instructions after .option rvc', () => {
+      const result = new Assembler(`
+        addi a0, a0, 1
+        .option rvc
+        addi a0, a0, 1
+        addi a0, a1, 100
+        .option norvc
+        addi a0, a0, 1
+      `).assemble();
+      expect(result.errors).toEqual([]);
+      expect(result.bytes.length).toBe(4 + 2 + 4 + 4);
+      expect(result.bytes[4] | (result.bytes[5] << 8)).toBe(0x0505); // c.addi a0, 1
+    });
+
+    it('should compress from the start with the compressed option', () => {
+      const result = new Assembler('li a0, 1\nret', { compressed: true }).assemble();
+      expect(Array.from(result.bytes)).toEqual([0x05, 0x45, 0x82, 0x80]);
+    });
+
+    it('should resolve labels after compressed instructions', () => {
+      const result = new Assembler(`
+        .option rvc
+        li a0, 0
+      loop:
+        addi a0, a0, 1
+        bne a0, a1, loop
+      done:
+        nop
+      `).assemble();
+      expect(result.errors).toEqual([]);
+      expect(result.symbols.get('loop')).toBe(2);
+      // The branch references a label and keeps its 32-bit form
+      expect(result.symbols.get('done')).toBe(8);
+      const branch = (result.bytes[4] | (result.bytes[5] << 8) | (result.bytes[6] << 16) | (result.bytes[7] << 24)) >>> 0;
+      expect(branch).toBe(Encoder.encodeB('BNE', 10, 11, -2));
+    });
+
+    it('should reject unknown options', () => {
+      const result = new Assembler('.option pic').assemble();
+      expect(result.errors[0].message).toContain("Unknown option 'pic'");
+    });
+  });
+
   describe('symbol table', () => {
     it('should return symbol table with labels', () => {
       const asm = new Assembler(`
@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { writeFileSync, readFileSync, unlinkSync, existsSync, mkdirSync } from 'fs';
 import { main } from '../../src/assembler/cli.js';
+import { parseObject } from '../../src/assembler/object.js';
+import { parseExecutableHeader } from '../../src/emulator/program-loader.js';
 import { tmpdir } from 'os';
 import { join } from 'path';
 
@@ -26,7 +28,10 @@ describe('CLI', () => {
     console.error = originalError;
     // Clean up test files
     try {
-      const files = ['test.asm', 'test.bin', 'output.bin', 'error.asm'];
+      const files = [
+        'test.asm', 'test.bin', 'test.o', 'output.bin', 'error.asm', 'defs.inc',
+        'test.hex', 'test.srec', 'test.c', 'test.lst', 'test.map',
+      ];
       for (const file of files) {
         const path = join(testDir, file);
         if (existsSync(path)) unlinkSync(path);
@@ -155,6 +160,156 @@ NOP`);
     });
   });
 
+  describe('compression', () => {
+    it('should compress eligible instructions with --rvc', () => {
+      const inputPath = join(testDir, 'test.asm');
+      const outputPath = join(testDir, 'test.bin');
+
+      writeFileSync(inputPath, 'li a0, 1\nadd a0, a0, a1\necall');
+
+      const exitCode = main(['bun', 'cli.ts', inputPath, '--rvc']);
+
+      expect(exitCode).toBe(0);
+      // c.li and c.add are 16-bit; ECALL has no compressed form
+      expect(readFileSync(outputPath).length).toBe(8);
+    });
+  });
+
+  describe('objects', () => {
+    it('should write a relocatable object with -c', () => {
+      const inputPath = join(testDir, 'test.asm');
+      const outputPath = join(testDir, 'test.o');
+
+      writeFileSync(inputPath, '.globl main\nmain:\n  call puts\n.data\n.word 1');
+
+      const exitCode = main(['bun', 'cli.ts', inputPath, '-c']);
+
+      expect(exitCode).toBe(0);
+      const object = parseObject(readFileSync(outputPath, 'utf-8'));
+      expect(object.sections.map(section => section.name)).toEqual(['.text', '.data']);
+      expect(object.symbols.map(symbol => symbol.name)).toEqual(['main', 'puts']);
+      expect(consoleLogs.some(l => l.includes('12 bytes in 2 sections'))).toBe(true);
+    });
+  });
+
+  describe('output formats', () => {
+    it('should write Intel HEX to <input>.hex', () => {
+      const inputPath = join(testDir, 'test.asm');
+
+      writeFileSync(inputPath, 'NOP');
+
+      const exitCode = main(['bun', 'cli.ts', inputPath, '--format', 'ihex']);
+
+      expect(exitCode).toBe(0);
+      expect(readFileSync(join(testDir, 'test.hex'), 'utf-8')).toBe(':0400000013000000E9\n:00000001FF\n');
+    });
+
+    it('should write S-records and C arrays', () => {
+      const inputPath = join(testDir, 'test.asm');
+
+      writeFileSync(inputPath, 'NOP');
+
+      expect(main(['bun', 'cli.ts', inputPath, '--format', 'srec'])).toBe(0);
+      expect(readFileSync(join(testDir, 'test.srec'), 'utf-8')).toContain('S107000013000000E5\n');
+      expect(main(['bun', 'cli.ts', inputPath, '--format', 'c'])).toBe(0);
+      expect(readFileSync(join(testDir, 'test.c'), 'utf-8')).toContain('const uint8_t test[] = {\n  0x13, 0x00, 0x00, 0x00,\n};');
+    });
+
+    it('should write a RISV executable entered at _start', () => {
+      const inputPath = join(testDir, 'test.asm');
+
+      writeFileSync(inputPath, 'helper:\n  ret\n_start:\n  call helper\n  ebreak');
+
+      const exitCode = main(['bun', 'cli.ts', inputPath, '--format', 'risv']);
+
+      expect(exitCode).toBe(0);
+      const header = parseExecutableHeader(new Uint8Array(readFileSync(join(testDir, 'test.bin'))));
+      expect(header.codeSize).toBe(16);
+      expect(header.entryOffset).toBe(4);
+    });
+
+    it('should reject unknown formats and formats for objects', () => {
+      expect(main(['bun', 'cli.ts', 'test.asm', '--format', 'elf'])).toBe(1);
+      expect(consoleErrors).toContain("Error: Unknown format 'elf' (expected raw, ihex, srec, risv, c)");
+      expect(main(['bun', 'cli.ts', 'test.asm', '-c', '--format', 'ihex'])).toBe(1);
+      expect(consoleErrors.at(-1)).toContain('not objects');
+    });
+  });
+
+  describe('listings and maps', () => {
+    it('should write a listing and a symbol map', () => {
+      const inputPath = join(testDir, 'test.asm');
+      const listingPath = join(testDir, 'test.lst');
+      const mapPath = join(testDir, 'test.map');
+
+      writeFileSync(inputPath, '_start:\n  li a0, 0x12345\n  ecall\n.data\nvalue: .word 7\n');
+
+      const exitCode = main(['bun', 'cli.ts', inputPath, '--listing', listingPath, '--map', mapPath]);
+
+      expect(exitCode).toBe(0);
+      expect(readFileSync(listingPath, 'utf-8')).toBe([
+        '    1                       _start:',
+        '    2                         li a0, 0x12345',
+        '       00000000  00012537 > lui     a0, 0x12',
+        '       00000004  34550513 > addi    a0, a0, 837',
+        '    3  00000008  00000073     ecall',
+        '    4                       .data',
+        '    5  0000000c  07000000   value: .word 7',
+        '',
+      ].join('\n'));
+      expect(readFileSync(mapPath, 'utf-8')).toBe([
+        '# address  section      size  name',
+        '00000000  .text          12  _start',
+        '0000000c  .data           4  value',
+        '',
+      ].join('\n'));
+    });
+
+    it('should map object symbols by section offset', () => {
+      const inputPath = join(testDir, 'test.asm');
+      const mapPath = join(testDir, 'test.map');
+
+      writeFileSync(inputPath, '.globl main\nmain:\n  call puts\n.data\ncount: .word 1');
+
+      const exitCode = main(['bun', 'cli.ts', inputPath, '-c', '--map', mapPath]);
+
+      expect(exitCode).toBe(0);
+      expect(readFileSync(mapPath, 'utf-8')).toBe([
+        '# address  section      size  name',
+        '00000000  .data           4  count',
+        '00000000  .text           8  main',
+        '',
+      ].join('\n'));
+    });
+  });
+
+  describe('includes', () => {
+    it('should include files relative to the source', () => {
+      const inputPath = join(testDir, 'test.asm');
+      const outputPath = join(testDir, 'test.bin');
+
+      writeFileSync(join(testDir, 'defs.inc'), '.macro exit code\n  li a0, \\code\n  li a7, 0\n  ecall\n.endm\n');
+      writeFileSync(inputPath, '.include "defs.inc"\nexit 3');
+
+      const exitCode = main(['bun', 'cli.ts', inputPath]);
+
+      expect(exitCode).toBe(0);
+      expect(readFileSync(outputPath).length).toBe(12);
+    });
+
+    it('should report errors in included files by file name', () => {
+      const inputPath = join(testDir, 'test.asm');
+
+      writeFileSync(join(testDir, 'defs.inc'), 'nop\nbogus a0');
+      writeFileSync(inputPath, 'nop\n.include "defs.inc"');
+
+      const exitCode = main(['bun', 'cli.ts', inputPath]);
+
+      expect(exitCode).toBe(1);
+      expect(consoleErrors[0]).toContain(`${join(testDir, 'defs.inc')}:2:`);
+    });
+  });
+
   describe('output messages', () => {
     it('should print byte count on success', () => {
       const inputPath = join(testDir, 'test.asm');
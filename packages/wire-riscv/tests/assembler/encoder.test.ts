@@ -69,6 +69,75 @@ describe('Encoder', () => {
     });
   });
 
+  describe('M extension instructions', () => {
+    it('should encode MUL x3, x1, x2', () => {
+      const encoded = Encoder.encodeR('MUL', 3, 1, 2);
+      // MUL: funct7=0x01, funct3=0x0, opcode=0x33
+      expect(encoded).toBe(0x022081b3);
+    });
+
+    it('should encode DIV x3, x1, x2', () => {
+      const encoded = Encoder.encodeR('DIV', 3, 1, 2);
+      // DIV: funct7=0x01, funct3=0x4, opcode=0x33
+      expect(encoded).toBe(0x0220c1b3);
+    });
+
+    it('should encode funct3 for all M instructions', () => {
+      const mnemonics = ['MUL', 'MULH', 'MULHSU', 'MULHU', 'DIV', 'DIVU', 'REM', 'REMU'];
+      mnemonics.forEach((mnemonic, funct3) => {
+        const encoded = Encoder.encodeR(mnemonic, 3, 1, 2);
+        expect(((encoded >> 12) & 0x7)).toBe(funct3);
+        expect(((encoded >> 25) & 0x7f)).toBe(0x01);
+      });
+    });
+  });
+
+  describe('A extension instructions', () => {
+    it('should encode LR.W, SC.W and AMOs', () => {
+      expect(Encoder.encodeR('LR.W', 10, 11, 0)).toBe(0x1005A52F);
+      expect(Encoder.encodeR('SC.W', 5, 11, 12)).toBe(0x18C5A2AF);
+      expect(Encoder.encodeR('AMOSWAP.W', 10, 11, 12)).toBe(0x08C5A52F);
+      expect(Encoder.encodeR('AMOMAXU.W', 10, 11, 12)).toBe(0xE0C5A52F);
+    });
+
+    it('should set the aq and rl bits from the suffix', () => {
+      const base = Encoder.encodeR('AMOADD.W', 10, 11, 12);
+      expect(Encoder.encodeR('AMOADD.W.AQ', 10, 11, 12)).toBe((base | (1 << 26)) >>> 0);
+      expect(Encoder.encodeR('AMOADD.W.RL', 10, 11, 12)).toBe((base | (1 << 25)) >>> 0);
+      expect(Encoder.encodeR('AMOADD.W.AQRL', 10, 11, 12)).toBe((base | (3 << 25)) >>> 0);
+    });
+  });
+
+  describe('Zicsr and privileged instructions', () => {
+    it('should encode CSRRW x1, mstatus, x2', () => {
+      const encoded = Encoder.encodeI('CSRRW', 1, 2, 0x300);
+      // csr=0x300, rs1=2, funct3=1, rd=1, opcode=0x73
+      expect(encoded).toBe(0x300110f3);
+    });
+
+    it('should encode CSRRSI x0, mie, 8', () => {
+      const encoded = Encoder.encodeI('CSRRSI', 0, 8, 0x304);
+      expect(encoded).toBe(0x30446073);
+    });
+
+    it('should encode MRET and WFI', () => {
+      expect(Encoder.encodeI('MRET', 0, 0, 0)).toBe(0x30200073);
+      expect(Encoder.encodeI('WFI', 0, 0, 0)).toBe(0x10500073);
+    });
+
+    it('should encode FENCE and FENCE.I', () => {
+      expect(Encoder.encodeI('FENCE', 0, 0, 0xFF)).toBe(0x0FF0000F);
+      expect(Encoder.encodeI('FENCE', 0, 0, 0x31)).toBe(0x0310000F);
+      expect(Encoder.encodeI('FENCE.I', 0, 0, 0)).toBe(0x0000100F);
+    });
+
+    it('should encode SRET and SFENCE.VMA', () => {
+      expect(Encoder.encodeI('SRET', 0, 0, 0)).toBe(0x10200073);
+      expect(Encoder.encodeR('SFENCE.VMA', 0, 0, 0)).toBe(0x12000073);
+      expect(Encoder.encodeR('SFENCE.VMA', 0, 10, 11)).toBe(0x12B50073);
+    });
+  });
+
   describe('I-type ALU instructions', () => {
     it('should encode ADDI x1, x0, 5', () => {
       const encoded = Encoder.encodeI('ADDI', 1, 0, 5);
@@ -324,6 +393,62 @@ describe('Encoder', () => {
     });
   });
 
+  describe('RV32F/D instructions', () => {
+    it('should encode OP-FP instructions with a rounding mode', () => {
+      expect(Encoder.encodeFloat('FADD.S', 0, 1, 2)).toBe(0x0020f053); // fadd.s ft0, ft1, ft2
+      expect(Encoder.encodeFloat('FMUL.D', 10, 11, 12, 0b001)).toBe(0x12c59553); // fmul.d fa0, fa1, fa2, rtz
+      expect(Encoder.encodeFloat('FSQRT.S', 10, 11, 0)).toBe(0x5805f553);
+      expect(Encoder.encodeFloat('FCVT.W.S', 10, 11, 0, 0b001)).toBe(0xc0059553); // fcvt.w.s a0, fa1, rtz
+      expect(Encoder.encodeFloat('FCVT.D.WU', 10, 11, 0)).toBe(0xd215f553);
+    });
+
+    it('should encode fixed funct3 and rs2 fields', () => {
+      expect(Encoder.encodeFloat('FEQ.D', 10, 11, 12)).toBe(0xa2c5a553);
+      expect(Encoder.encodeFloat('FSGNJN.S', 10, 11, 11)).toBe(0x20b59553); // fneg.s fa0, fa1
+      expect(Encoder.encodeFloat('FMV.X.W', 10, 11, 0)).toBe(0xe0058553);
+      expect(Encoder.encodeFloat('FCLASS.D', 10, 11, 0)).toBe(0xe2059553);
+      expect(Encoder.encodeFloat('FCVT.S.D', 10, 11, 0)).toBe(0x4015f553);
+    });
+
+    it('should encode fused multiply-add and floating-point memory accesses', () => {
+      expect(Encoder.encodeR4('FMADD.S', 10, 11, 12, 13)).toBe(0x68c5f543);
+      expect(Encoder.encodeR4('FNMSUB.D', 10, 11, 12, 13)).toBe(0x6ac5f54b);
+      expect(Encoder.encodeI('FLW', 10, 2, 8)).toBe(0x00812507);
+      expect(Encoder.encodeS('FSD', 2, 10, 8)).toBe(0x00a13427);
+    });
+  });
+
+  describe('RV32C compression', () => {
+    it('should compress instructions to their 16-bit forms', () => {
+      expect(Encoder.compress(Encoder.encodeI('ADDI', 0, 0, 0))).toBe(0x0001); // c.nop
+      expect(Encoder.compress(Encoder.encodeI('ADDI', 10, 0, 5))).toBe(0x4515); // c.li a0, 5
+      expect(Encoder.compress(Encoder.encodeI('ADDI', 2, 2, -16))).toBe(0x1141); // c.addi sp, -16
+      expect(Encoder.compress(Encoder.encodeI('ADDI', 2, 2, -64))).toBe(0x7139); // c.addi16sp -64
+      expect(Encoder.compress(Encoder.encodeI('ADDI', 8, 2, 16))).toBe(0x0800); // c.addi4spn s0, 16
+      expect(Encoder.compress(Encoder.encodeR('ADD', 10, 10, 11))).toBe(0x952e); // c.add a0, a1
+      expect(Encoder.compress(Encoder.encodeR('SUB', 8, 8, 9))).toBe(0x8c05); // c.sub s0, s1
+      expect(Encoder.compress(Encoder.encodeI('LW', 10, 2, 12))).toBe(0x4532); // c.lwsp a0, 12
+      expect(Encoder.compress(Encoder.encodeS('SW', 2, 1, 12))).toBe(0xc606); // c.swsp ra, 12
+      expect(Encoder.compress(Encoder.encodeI('LW', 10, 8, 4))).toBe(0x4048); // c.lw a0, 4(s0)
+      expect(Encoder.compress(Encoder.encodeI('JALR', 0, 1, 0))).toBe(0x8082); // c.jr ra (ret)
+      expect(Encoder.compress(Encoder.encodeJ('JAL', 0, -2))).toBe(0xbffd); // c.j -2
+      expect(Encoder.compress(Encoder.encodeB('BEQ', 8, 0, 8))).toBe(0xc401); // c.beqz s0, 8
+      expect(Encoder.compress(Encoder.encodeI('EBREAK', 0, 0, 1))).toBe(0x9002);
+    });
+
+    it('should return null for instructions without a 16-bit form', () => {
+      expect(Encoder.compress(Encoder.encodeI('ADDI', 10, 11, 100))).toBeNull();
+      expect(Encoder.compress(Encoder.encodeR('SUB', 8, 9, 10))).toBeNull();
+      expect(Encoder.compress(Encoder.encodeI('LW', 10, 2, 2))).toBeNull();
+      expect(Encoder.compress(Encoder.encodeI('LW', 10, 5, 4))).toBeNull();
+      expect(Encoder.compress(Encoder.encodeB('BEQ', 8, 9, 8))).toBeNull();
+      expect(Encoder.compress(Encoder.encodeJ('JAL', 5, 8))).toBeNull();
+      expect(Encoder.compress(Encoder.encodeU('LUI', 2, 1))).toBeNull();
+      expect(Encoder.compress(Encoder.encodeR('MUL', 8, 8, 9))).toBeNull();
+      expect(Encoder.compress(Encoder.encodeI('ECALL', 0, 0, 0))).toBeNull();
+    });
+  });
+
   describe('Instruction bytes', () => {
     it('should convert to little-endian byte array', () => {
       const instruction = 0x00500093; // ADDI x1, x0, 5
@@ -0,0 +1,313 @@
+import { describe, it, expect } from 'vitest';
+import { Lexer } from '../../src/assembler/lexer.js';
+import { Parser, NodeType, InstructionNode } from '../../src/assembler/parser.js';
+import {
+  Expression,
+  ExpressionParser,
+  evaluateExpression,
+  expressionSymbols,
+  hiPart,
+  loPart,
+} from '../../src/assembler/expression.js';
+import { Assembler } from '../../src/assembler/assembler.js';
+import { Linker, toRisvExecutable } from '../../src/assembler/linker.js';
+import { RELOCATION } from '../../src/assembler/object.js';
+import { RiscVCpu } from '../../src/emulator/cpu.js';
+import { ProgramLoader } from '../../src/emulator/program-loader.js';
+
+/**
+ * Tests for expressions and the %hi/%lo/%pcrel relocation functions
+ */
+describe('Expressions', () => {
+  /** Parse an expression from source text */
+  function parse(text: string): Expression {
+    return new ExpressionParser(new Lexer(text).tokenize()).parse();
+  }
+
+  /** Evaluate a constant expression over a few symbols */
+  function evaluate(text: string, symbols: Record<string, number> = {}): number {
+    return evaluateExpression(parse(text), (name) => {
+      if (!(name in symbols)) {
+        throw new Error(`Undefined '${name}'`);
+      }
+      return symbols[name];
+    });
+  }
+
+  /** Assemble a flat image, failing on errors */
+  function assemble(source: string) {
+    const result = new Assembler(source).assemble();
+    expect(result.errors).toEqual([]);
+    return result;
+  }
+
+  /** Run a flat image loaded at 0 until it halts */
+  function run(source: string): RiscVCpu {
+    const cpu = new RiscVCpu({ hostSyscalls: true });
+    cpu.loadProgram(assemble(source).bytes);
+    cpu.run(1000);
+    expect(cpu.halted).toBe(true);
+    return cpu;
+  }
+
+  describe('evaluation', () => {
+    it('should follow C precedence', () => {
+      expect(evaluate('1 + 2 * 3')).toBe(7);
+      expect(evaluate('(1 + 2) * 3')).toBe(9);
+      expect(evaluate('1 << 4 | 3')).toBe(19);
+      expect(evaluate('10 - 4 - 3')).toBe(3);
+      expect(evaluate('-7 / 2')).toBe(-3);
+      expect(evaluate('-7 % 4')).toBe(-3);
+      expect(evaluate('~0 ^ 0xff')).toBe(-256);
+      expect(evaluate('3 > 2 && !(1 == 2)')).toBe(1);
+    });
+
+    it('should wrap to 32 bits', () => {
+      expect(evaluate('0x7fffffff + 1')).toBe(-0x80000000);
+      expect(evaluate('0x10000 * 0x10000')).toBe(0);
+    });
+
+    it('should look up symbols', () => {
+      expect(evaluate('end - start', { start: 0x100, end: 0x140 })).toBe(0x40);
+      expect(expressionSymbols(parse('a + b * a - .'))).toEqual(['a', 'b', '.']);
+      expect(() => evaluate('missing + 1')).toThrow("Undefined 'missing'");
+      expect(() => evaluate('1 / 0')).toThrow('Division by zero');
+    });
+
+    it('should split values into %hi and %lo', () => {
+      for (const value of [0, 0x12345678, 0x12345fff, 0x800, -1, -0x80000000]) {
+        expect(((hiPart(value) << 12) + loPart(value)) | 0).toBe(value);
+      }
+      expect(evaluate('%hi(0x12345800)')).toBe(0x12346);
+      expect(evaluate('%lo(0x12345800)')).toBe(-0x800);
+      expect(() => evaluate('%pcrel_hi(1)')).toThrow('must be the whole operand');
+    });
+
+    it('should report syntax errors', () => {
+      expect(() => parse('(1 + 2')).toThrow("Expected ')' in expression");
+      expect(() => parse('1 +')).toThrow('Unexpected end of expression');
+      expect(() => parse('%hi 4')).toThrow("Expected '(' after %hi");
+    });
+  });
+
+  describe('parsing operands', () => {
+    /** Parse one instruction */
+    function instruction(source: string): InstructionNode {
+      const statement = new Parser(source).parse().statements[0];
+      expect(statement.type).toBe(NodeType.INSTRUCTION);
+      return statement as InstructionNode;
+    }
+
+    it('should fold constant expressions and keep plain labels', () => {
+      expect(instruction('addi a0, a0, (1 << 5) - 1')).toMatchObject({ imm: 31 });
+      expect(instruction('addi a0, a0, SIZE')).toMatchObject({ label: 'SIZE' });
+      expect(instruction('addi a0, a0, SIZE + 1').expression).toBeDefined();
+    });
+
+    it('should accept expressions as memory offsets', () => {
+      expect(instruction('lw a0, (2 * 4)(sp)')).toMatchObject({ imm: 8, rs1: 2 });
+      expect(instruction('lw a0, (sp)')).toMatchObject({ imm: 0, rs1: 2 });
+      expect(instruction('sw a0, %lo(buffer)(t0)').expression).toMatchObject({ name: 'lo' });
+    });
+  });
+
+  describe('flat images', () => {
+    it('should assemble hand-written lui/addi pairs', () => {
+      const cpu = run(`
+          .equ BASE, 0x12345000
+          lui a0, %hi(BASE + 0xfff)
+          addi a0, a0, %lo(BASE + 0xfff)
+          lui a1, %hi(value)
+          lw a1, %lo(value)(a1)
+          ebreak
+        value:
+          .word 0xcafe
+      `);
+      expect(cpu.getReg(10)).toBe(0x12345fff);
+      expect(cpu.getReg(11)).toBe(0xcafe);
+    });
+
+    it('should pair %pcrel_lo with the auipc of %pcrel_hi', () => {
+      const cpu = run(`
+          nop
+        load:
+          auipc a0, %pcrel_hi(value)
+          lw a1, %pcrel_lo(load)(a0)
+        store:
+          auipc t0, %pcrel_hi(value + 4)
+          sw a1, %pcrel_lo(store)(t0)
+          ebreak
+        value:
+          .word 42, 0
+      `);
+      expect(cpu.getReg(11)).toBe(42);
+      expect(cpu.readWord(28)).toBe(42);
+    });
+
+    it('should use the location counter and symbol differences', () => {
+      const result = assemble(`
+        start:
+          .word . , end - start, end
+          .equ LENGTH, end - start
+          j . + 8
+          nop
+        end:
+      `);
+      expect(Array.from(new Uint32Array(result.bytes.buffer, 0, 3))).toEqual([0, 20, 20]);
+      expect(result.symbols.get('LENGTH')).toBe(20);
+    });
+
+    it('should size li of symbols by what pass 1 knows', () => {
+      const result = assemble(`
+          .equ SMALL, 3 * 4
+          li a0, SMALL
+          li a1, SMALL << 12
+          li a2, later
+        later:
+      `);
+      // li a0 is one ADDI; li a1 and li of a later label take LUI + ADDI
+      expect(result.symbols.get('later')).toBe(20);
+    });
+
+    it('should take expressions in data and space directives', () => {
+      const result = assemble('.byte 1 + 1, 0x100 - 1\n.half 1 << 8\n.space 2 * 2\n.word -(4)');
+      expect(Array.from(result.bytes)).toEqual([2, 0xff, 0, 1, 0, 0, 0, 0, 0xfc, 0xff, 0xff, 0xff]);
+    });
+
+    it('should take character constants', () => {
+      const cpu = run("li a0, 'A'\nli a1, '\\n' + 1\nli a2, '#'  # comment\nebreak");
+      expect([cpu.getReg(10), cpu.getReg(11), cpu.getReg(12)]).toEqual([65, 11, 35]);
+      expect(Array.from(assemble(".byte ',', ';', 'a' - 'A'").bytes)).toEqual([44, 59, 32]);
+    });
+
+    it('should pair %pcrel_lo with a numeric label', () => {
+      const cpu = run(`
+          nop
+        1: auipc a0, %pcrel_hi(value)
+          addi a0, a0, %pcrel_lo(1b)
+        1: auipc a1, %pcrel_hi(value)
+          lw a1, %pcrel_lo(1b)(a1)
+          ebreak
+        value:
+          .word 42
+      `);
+      expect(cpu.getReg(10)).toBe(24);
+      expect(cpu.getReg(11)).toBe(42);
+    });
+
+    it('should resolve numeric labels to the nearest definition', () => {
+      const cpu = run(`
+          li a0, 3
+          li a1, 0
+        1: addi a1, a1, 1
+          addi a0, a0, -1
+          bnez a0, 1b
+          j 1f
+          li a1, 99
+        1: j 2f
+        1: li a1, 99
+        2: ebreak
+      `);
+      expect(cpu.getReg(11)).toBe(3);
+      // Each definition is a local symbol of its own
+      expect([...assemble('start: 1: nop\n1: nop').symbols.keys()]).toEqual(['start', '.L1^1', '.L1^2']);
+    });
+
+    it('should report bad expressions', () => {
+      const errors = (source: string) => new Assembler(source).assemble().errors.map(error => error.message);
+      expect(errors('addi a0, a0, missing + 1')).toEqual(["Undefined label 'missing'"]);
+      expect(errors('a: b: addi a0, a0, a + b')).toEqual(['Expression is neither a constant nor an address']);
+      expect(errors('x: .space x + 1')).toEqual(['Expression must be a constant']);
+      expect(errors('addi a0, a0, %pcrel_lo(x)\nx: nop')).toEqual(["No %pcrel_hi at 'x'"]);
+    });
+
+    it('should report lexer errors at their line and column', () => {
+      const errors = (source: string) => new Assembler(source).assemble().errors;
+      expect(errors('j 1b\n1: nop')).toEqual([{ message: "Undefined label '1b'", line: 1, column: 3 }]);
+      expect(errors('1: nop\nj 1f')).toEqual([{ message: "Undefined label '1f'", line: 2, column: 3 }]);
+      expect(errors("li a0, 'AB'")).toEqual([{ message: 'Unterminated character constant', line: 1, column: 8 }]);
+    });
+
+    it('should allow masks of addresses when assembling a program', () => {
+      const { bytes, errors } = assemble('nop\nx: .word x & 0xFF, (x >> 1) % 3, . - x');
+      expect(errors).toEqual([]);
+      expect([...new Uint32Array(bytes.buffer, 4)]).toEqual([4, 2, 8]);
+    });
+  });
+
+  describe('objects', () => {
+    const SOURCE = `
+        .globl _start
+        .text
+      _start:
+      here:
+        auipc a0, %pcrel_hi(value)
+        lw a0, %pcrel_lo(here)(a0)
+        lui t0, %hi(table)
+        lw t1, %lo(table + 4)(t0)
+        add a0, a0, t1
+        la t2, table + 8
+        lw t2, 0(t2)
+        lw t2, 0(t2)
+        add a0, a0, t2
+        li a7, 0
+        ecall
+        .data
+      value:
+        .word 40
+      table:
+        .word 0, 1, value
+    `;
+
+    it('should record relocations with addends', () => {
+      const { object, errors } = new Assembler(SOURCE).assembleObject();
+      expect(errors).toEqual([]);
+      expect(object.sections[0].relocations.slice(0, 4)).toEqual([
+        { offset: 0, type: RELOCATION.PCREL_HI20, symbol: 'value', addend: 0 },
+        { offset: 4, type: RELOCATION.PCREL_LO12_I, symbol: 'here', addend: 0 },
+        { offset: 8, type: RELOCATION.HI20, symbol: 'table', addend: 0 },
+        { offset: 12, type: RELOCATION.LO12_I, symbol: 'table', addend: 4 },
+      ]);
+      expect(object.sections[1].relocations).toEqual([
+        { offset: 12, type: RELOCATION.ABS32, symbol: 'value', addend: 0 },
+      ]);
+    });
+
+    it('should reject expressions no relocation can hold', () => {
+      const errors = (source: string) => new Assembler(source).assembleObject().errors.map(error => error.message);
+      for (const operand of ['sym & 0xFFFF', 'sym % 0x10000', 'sym >> 16', 'sym * 2', 'here | 1', '-sym', '%lo(sym) + 4']) {
+        expect(errors(`here: .word ${operand}`), operand).toEqual(['Expression cannot be relocated']);
+      }
+      expect(errors('a: b: addi a0, a0, a + b')).toEqual(['Expression cannot be relocated']);
+    });
+
+    it('should relocate sums that add one address', () => {
+      const { object, errors } = new Assembler('a: .word 2 * sym - sym + 4, b - a + (b - a) * 3, sym + b - a\nb:').assembleObject();
+      expect(errors).toEqual([]);
+      expect(object.sections[0].relocations).toEqual([
+        { offset: 0, type: RELOCATION.ABS32, symbol: 'sym', addend: 4 },
+        { offset: 8, type: RELOCATION.ABS32, symbol: 'sym', addend: 12 },
+      ]);
+      expect([...object.sections[0].data.slice(4, 8)]).toEqual([48, 0, 0, 0]);
+    });
+
+    it('should relocate against numeric labels', () => {
+      const { object, errors } = new Assembler('1: auipc a0, %pcrel_hi(x)\naddi a0, a0, %pcrel_lo(1b)').assembleObject();
+      expect(errors).toEqual([]);
+      expect(object.sections[0].relocations[1]).toMatchObject({ type: RELOCATION.PCREL_LO12_I, symbol: '.L1^1' });
+      expect(object.symbols).toContainEqual({ name: '.L1^1', section: '.text', value: 0, global: false, defined: true });
+    });
+
+    it('should link and run', () => {
+      const { object } = new Assembler(SOURCE).assembleObject();
+      const result = new Linker().link([{ name: 'a.o', object }]);
+      expect(result.errors).toEqual([]);
+
+      const cpu = new RiscVCpu({ hostSyscalls: true });
+      const info = new ProgramLoader(cpu).load(toRisvExecutable(result), result.base);
+      cpu.pc = info.entryPoint;
+      cpu.run(1000);
+      expect(cpu.exitCode).toBe(40 + 1 + 40);
+    });
+  });
+});
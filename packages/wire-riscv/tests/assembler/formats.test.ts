@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { toCArray, toIntelHex, toSRecord } from '../../src/assembler/formats.js';
+
+describe('Output formats', () => {
+  const bytes = Uint8Array.from({ length: 20 }, (_, i) => i);
+
+  it('should write Intel HEX records', () => {
+    expect(toIntelHex(bytes).split('\n')).toEqual([
+      ':10000000000102030405060708090A0B0C0D0E0F78',
+      ':0400100010111213A6',
+      ':00000001FF',
+      '',
+    ]);
+  });
+
+  it('should write extended linear addresses above 64 KiB', () => {
+    const lines = toIntelHex(Uint8Array.of(1, 2), 0x8000ffff).split('\n');
+    expect(lines).toEqual([
+      ':0200000480007A',
+      ':01FFFF000100',
+      ':02000004800179',
+      ':0100000002FD',
+      ':00000001FF',
+      '',
+    ]);
+  });
+
+  it('should write S-records sized to the addresses', () => {
+    expect(toSRecord(bytes.subarray(0, 4), 0, 'hi').split('\n')).toEqual([
+      'S0050000686929',
+      'S107000000010203F2',
+      'S9030000FC',
+      '',
+    ]);
+    const lines = toSRecord(bytes.subarray(0, 1), 0x80000000).split('\n');
+    expect(lines[1]).toBe('S306800000000079');
+    expect(lines[2]).toBe('S705800000007A');
+  });
+
+  it('should write a C array', () => {
+    expect(toCArray(bytes.subarray(0, 14), 'boot-rom')).toBe(
+      '#include <stdint.h>\n\n' +
+      'const uint8_t boot_rom[] = {\n' +
+      '  0x00, 0x01, 0x02, 0x03, 0x04, 0x05, 0x06, 0x07, 0x08, 0x09, 0x0a, 0x0b,\n' +
+      '  0x0c, 0x0d,\n' +
+      '};\n' +
+      'const uint32_t boot_rom_len = 14;\n'
+    );
+  });
+});
@@ -261,6 +261,29 @@ describe('Lexer', () => {
       expect(identToken).toBeDefined();
       expect(identToken!.value).toBe('main');
     });
+
+    it('should name each definition of a numeric label apart', () => {
+      const tokens = new Lexer('1: j 1f\n1: j 1b\nj 0b1').tokenize();
+      expect(tokens.filter(t => t.type === TokenType.LABEL_DEF || t.type === TokenType.IDENTIFIER).map(t => t.value))
+        .toEqual(['.L1^1', '.L1^2', '.L1^2', '.L1^2']);
+      expect(tokens.find(t => t.type === TokenType.NUMBER)!.value).toBe(1);
+    });
+  });
+
+  describe('character constants', () => {
+    it('should tokenize characters as numbers', () => {
+      const tokens = new Lexer("'A' '\\n' '\\'' ';'").tokenize();
+      expect(tokens.slice(0, 4).map(t => [t.type, t.value])).toEqual([
+        [TokenType.NUMBER, 65],
+        [TokenType.NUMBER, 10],
+        [TokenType.NUMBER, 39],
+        [TokenType.NUMBER, 59],
+      ]);
+    });
+
+    it('should error on unterminated character constants', () => {
+      expect(() => new Lexer("'A").tokenize()).toThrow('Unterminated character constant');
+    });
   });
 
   describe('directives', () => {
@@ -427,6 +450,26 @@ describe('Lexer', () => {
       const tokens = lexer.tokenize();
       expect(tokens[0].type).toBe(TokenType.RPAREN);
     });
+
+    it('should tokenize expression operators', () => {
+      const tokens = new Lexer('a+b<<2 & ~c != 0 || -1').tokenize();
+      expect(tokens.filter(t => t.type === TokenType.OPERATOR).map(t => t.value)).toEqual(['+', '<<', '&', '~', '!=', '||']);
+      expect(tokens[tokens.length - 2]).toMatchObject({ type: TokenType.NUMBER, value: -1 });
+    });
+
+    it('should treat minus after an operand as subtraction', () => {
+      const tokens = new Lexer('end-4 (x)-1').tokenize();
+      expect(tokens.map(t => t.value)).toEqual(['end', '-', 4, '(', 'x', ')', '-', 1, '']);
+    });
+
+    it('should tokenize relocation functions and the location counter', () => {
+      const tokens = new Lexer('%pcrel_hi(.) %LO(x) 7 % 2').tokenize();
+      expect(tokens[0]).toMatchObject({ type: TokenType.FUNCTION, value: 'pcrel_hi' });
+      expect(tokens[2]).toMatchObject({ type: TokenType.IDENTIFIER, value: '.' });
+      expect(tokens[4]).toMatchObject({ type: TokenType.FUNCTION, value: 'lo' });
+      expect(tokens[9]).toMatchObject({ type: TokenType.OPERATOR, value: '%' });
+      expect(() => new Lexer('%got(x)').tokenize()).toThrow("Unknown relocation function '%got'");
+    });
   });
 
   describe('complex expressions', () => {
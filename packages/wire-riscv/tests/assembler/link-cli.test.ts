@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { writeFileSync, readFileSync, mkdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { main } from '../../src/assembler/link-cli.js';
+import { main as assemble } from '../../src/assembler/cli.js';
+import { parseElf } from '../../src/emulator/elf.js';
+import { EXECUTABLE_MAGIC } from '../../src/emulator/program-loader.js';
+
+describe('riscv-ld CLI', () => {
+  const testDir = join(tmpdir(), 'riscv-ld-test-' + Date.now());
+  let consoleLogs: string[] = [];
+  let consoleErrors: string[] = [];
+  let originalLog: typeof console.log;
+  let originalError: typeof console.error;
+
+  beforeEach(() => {
+    mkdirSync(testDir, { recursive: true });
+    consoleLogs = [];
+    consoleErrors = [];
+    originalLog = console.log;
+    originalError = console.error;
+    console.log = (...args) => consoleLogs.push(args.join(' '));
+    console.error = (...args) => consoleErrors.push(args.join(' '));
+  });
+
+  afterEach(() => {
+    console.log = originalLog;
+    console.error = originalError;
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  /** Write a file in the test directory */
+  function file(name: string, contents: string): string {
+    const path = join(testDir, name);
+    writeFileSync(path, contents);
+    return path;
+  }
+
+  it('should show help and reject bad options', () => {
+    expect(main(['bun', 'link-cli.ts'])).toBe(1);
+    expect(main(['bun', 'link-cli.ts', '--help'])).toBe(0);
+    expect(consoleLogs.some(l => l.includes('Usage'))).toBe(true);
+    expect(main(['bun', 'link-cli.ts', 'a.o', '--format', 'coff'])).toBe(1);
+    expect(consoleErrors).toContain('Error: --format must be elf or risv');
+  });
+
+  it('should link objects and sources into an ELF file', () => {
+    const lib = file('lib.asm', '.globl double\ndouble:\n  add a0, a0, a0\n  ret');
+    expect(assemble(['bun', 'cli.ts', lib, '-c'])).toBe(0);
+    const start = file('start.asm', '.globl _start\n_start:\n  li a0, 21\n  call double\n  li a7, 0\n  ecall');
+    const output = join(testDir, 'program.elf');
+
+    expect(main(['bun', 'link-cli.ts', start, join(testDir, 'lib.o'), '-o', output])).toBe(0);
+    expect(parseElf(new Uint8Array(readFileSync(output))).entry).toBe(0x1000);
+    expect(consoleLogs).toContain(`Linked 2 objects to ${output} (entry 0x1000)`);
+  });
+
+  it('should write RISV executables at a script base', () => {
+    const start = file('start.asm', '_start: j _start');
+    const script = file('board.ld', 'SECTIONS { . = 0x80001000; .text : { *(.text) } }');
+
+    expect(main(['bun', 'link-cli.ts', start, '-T', script, '--format', 'risv'])).toBe(0);
+    const executable = new Uint8Array(readFileSync(join(testDir, 'start.bin')));
+    expect(new DataView(executable.buffer).getUint32(0, true)).toBe(EXECUTABLE_MAGIC);
+    expect(consoleLogs).toContain('  .text      0x80001000 4 bytes');
+  });
+
+  it('should report link errors', () => {
+    const start = file('start.asm', 'call missing');
+    expect(main(['bun', 'link-cli.ts', start])).toBe(1);
+    expect(consoleErrors).toEqual([`Error: ${start}: undefined reference to 'missing'`]);
+  });
+});
@@ -0,0 +1,261 @@
+import { describe, it, expect } from 'vitest';
+import { Assembler } from '../../src/assembler/assembler.js';
+import { ObjectFile, RELOCATION, parseObject, serializeObject } from '../../src/assembler/object.js';
+import {
+  DEFAULT_LINKER_SCRIPT,
+  Linker,
+  LinkResult,
+  parseLinkerScript,
+  toElfExecutable,
+  toRisvExecutable,
+} from '../../src/assembler/linker.js';
+import { RiscVCpu } from '../../src/emulator/cpu.js';
+import { ProgramLoader } from '../../src/emulator/program-loader.js';
+import { PF, STT, parseElf } from '../../src/emulator/elf.js';
+
+/** Shared printing routines, as guest programs use them */
+const LIB = `
+    .globl puts
+    .globl newline
+    .text
+  puts:
+    lbu t0, 0(a0)
+    beqz t0, done
+    mv t1, a0
+    mv a0, t0
+    li a7, 1
+    ecall
+    addi a0, t1, 1
+    j puts
+  done:
+    ret
+  newline:
+    li a0, 10
+    li a7, 1
+    ecall
+    ret
+`;
+
+const MAIN = `
+    .globl _start
+    .text
+  _start:
+    la a0, greeting
+    call puts
+    call newline
+    la t0, count
+    lw t1, 0(t0)
+    la t2, total
+    sw t1, 0(t2)
+    lw a0, 0(t2)
+    li a7, 0
+    ecall
+    .section .rodata
+  greeting:
+    .string "linked"
+    .data
+  count:
+    .word 42
+    .bss
+  total:
+    .space 4
+`;
+
+/**
+ * Tests for relocatable objects and the linker
+ */
+describe('Linker', () => {
+  /** Assemble a source into an object, failing on errors */
+  function object(source: string): ObjectFile {
+    const result = new Assembler(source).assembleObject();
+    expect(result.errors).toEqual([]);
+    return result.object;
+  }
+
+  /** Link the library and main program, failing on errors */
+  function linkProgram(script = DEFAULT_LINKER_SCRIPT): LinkResult {
+    const result = new Linker(script).link([
+      { name: 'main.o', object: object(MAIN) },
+      { name: 'lib.o', object: object(LIB) },
+    ]);
+    expect(result.errors).toEqual([]);
+    return result;
+  }
+
+  /** Load an executable and run it to its exit */
+  function run(executable: Uint8Array, base: number, cpu = new RiscVCpu({ hostSyscalls: true })): RiscVCpu {
+    const info = new ProgramLoader(cpu).load(executable, base);
+    cpu.pc = info.entryPoint;
+    cpu.setReg(2, info.stackTop);
+    cpu.run(2000);
+    expect(cpu.halted).toBe(true);
+    return cpu;
+  }
+
+  describe('objects', () => {
+    it('should keep sections apart and export globals', () => {
+      const main = object(MAIN);
+      expect(main.sections.map(section => [section.name, section.data.length])).toEqual([
+        ['.text', 60],
+        ['.rodata', 7],
+        ['.data', 4],
+        ['.bss', 4],
+      ]);
+      expect(main.symbols).toContainEqual({ name: '_start', section: '.text', value: 0, global: true, defined: true });
+      expect(main.symbols).toContainEqual({ name: 'count', section: '.data', value: 0, global: false, defined: true });
+      expect(main.symbols).toContainEqual({ name: 'puts', section: null, value: 0, global: true, defined: false });
+    });
+
+    it('should record relocations for references the linker resolves', () => {
+      const text = object(MAIN).sections[0];
+      expect(text.relocations.slice(0, 4)).toEqual([
+        { offset: 0, type: RELOCATION.HI20, symbol: 'greeting', addend: 0 },
+        { offset: 4, type: RELOCATION.LO12_I, symbol: 'greeting', addend: 0 },
+        { offset: 8, type: RELOCATION.CALL, symbol: 'puts', addend: 0 },
+        { offset: 16, type: RELOCATION.CALL, symbol: 'newline', addend: 0 },
+      ]);
+
+      // Branches within a section are resolved by the assembler
+      const lib = object(LIB).sections[0];
+      expect(lib.relocations).toEqual([]);
+      expect(object('j far').sections[0].relocations).toEqual([
+        { offset: 0, type: RELOCATION.JAL, symbol: 'far', addend: 0 },
+      ]);
+      expect(object('beqz a0, far').sections[0].relocations[0].type).toBe(RELOCATION.BRANCH);
+    });
+
+    it('should accept dotted and quoted section names', () => {
+      const sections = object(`
+          .section .text.startup, "ax"
+          nop
+          .section "vectors"
+          .word 1
+          .align 4
+      `).sections;
+      expect(sections.map(section => section.name)).toEqual(['.text.startup', 'vectors']);
+      expect(sections[1].align).toBe(16);
+    });
+
+    it('should keep the flat output of assemble()', () => {
+      const flat = new Assembler(MAIN.replace('call puts', 'nop\nnop').replace('call newline', 'nop\nnop')).assemble();
+      expect(flat.errors).toEqual([]);
+      expect(flat.symbols.get('count')).toBe(67);
+    });
+
+    it('should round-trip through JSON', () => {
+      const main = object(MAIN);
+      expect(parseObject(serializeObject(main))).toEqual(main);
+      expect(() => parseObject('{"format":"other"}')).toThrow('not a RISC-V object');
+      expect(() => parseObject('nonsense')).toThrow('not JSON');
+    });
+  });
+
+  describe('linking', () => {
+    it('should lay out sections and resolve symbols across objects', () => {
+      const result = linkProgram();
+      expect(result.sections.map(section => [section.name, section.address, section.size])).toEqual([
+        ['.text', 0x1000, 60 + 52],
+        ['.rodata', 0x1070, 7],
+        ['.data', 0x1078, 4],
+        ['.bss', 0x107c, 4],
+      ]);
+      expect(result.entry).toBe(0x1000);
+      expect(result.symbols.get('puts')).toBe(0x103c);
+      expect(result.image.length).toBe(0x7c);
+      expect(result.bssSize).toBe(4);
+    });
+
+    it('should run as a RISV executable', () => {
+      const result = linkProgram();
+      const cpu = run(toRisvExecutable(result, 0x100), result.base);
+      expect(cpu.consoleOutput).toBe('linked\n');
+      expect(cpu.exitCode).toBe(42);
+    });
+
+    it('should run as an ELF executable', () => {
+      const result = linkProgram();
+      const elf = toElfExecutable(result);
+      const image = parseElf(elf);
+      expect(image.entry).toBe(0x1000);
+      expect(image.segments.map(segment => segment.flags)).toEqual([PF.R | PF.X, PF.R, PF.R | PF.W, PF.R | PF.W]);
+      expect(image.segments[3]).toMatchObject({ vaddr: 0x107c, fileSize: 0, memSize: 4 });
+      expect(image.symbols).toContainEqual({ name: 'puts', value: 0x103c, size: 0, type: STT.FUNC, binding: 1 });
+
+      const cpu = run(elf, 0);
+      expect(cpu.consoleOutput).toBe('linked\n');
+      expect(cpu.exitCode).toBe(42);
+    });
+
+    it('should follow a linker script', () => {
+      const script = parseLinkerScript(`
+        /* Code in low RAM, data on its own page */
+        ENTRY(_start)
+        SECTIONS {
+          . = 0x2000;
+          .text : { *(.text) }
+          .rodata : { *(.rodata) }
+          . = ALIGN(0x1000);
+          .data : { *(.data) *(.bss) }
+        }
+      `);
+      expect(script).toEqual({
+        base: 0x2000,
+        entry: '_start',
+        sections: [
+          { name: '.text', inputs: ['.text'] },
+          { name: '.rodata', inputs: ['.rodata'] },
+          { name: '.data', inputs: ['.data', '.bss'], align: 0x1000 },
+        ],
+      });
+
+      const result = linkProgram(script);
+      expect(result.sections[2]).toEqual({ name: '.data', address: 0x3000, size: 8, nobits: false });
+      const cpu = run(toElfExecutable(result), 0);
+      expect(cpu.readWord(0x3004)).toBe(42);
+      expect(cpu.exitCode).toBe(42);
+    });
+
+    it('should reject bad linker scripts', () => {
+      expect(() => parseLinkerScript('SECTIONS { .text { *(.text) } }')).toThrow("line 1: expected a number, got '{'");
+      expect(() => parseLinkerScript('MEMORY {}')).toThrow("unknown command 'MEMORY'");
+    });
+
+    it('should report undefined, duplicate and unplaced symbols', () => {
+      const result = new Linker({ base: 0, sections: [{ name: '.text', inputs: ['.text'] }] }).link([
+        { name: 'main.o', object: object(MAIN) },
+        { name: 'a.o', object: object('.globl puts\nputs: ret') },
+        { name: 'b.o', object: object('.globl puts\nputs: ret') },
+      ]);
+      expect(result.errors).toEqual([
+        'main.o: section .rodata is not placed by the linker script',
+        'main.o: section .data is not placed by the linker script',
+        'main.o: section .bss is not placed by the linker script',
+        "Duplicate symbol 'puts' in a.o and b.o",
+        "main.o: undefined reference to 'greeting'",
+        "main.o: undefined reference to 'newline'",
+        "main.o: undefined reference to 'count'",
+        "main.o: undefined reference to 'total'",
+      ]);
+    });
+
+    it('should keep local symbols within their object', () => {
+      const result = new Linker().link([
+        { name: 'a.o', object: object('.globl _start\n_start: call helper\nli a7, 0\necall\n.data\nvalue: .word 1') },
+        { name: 'b.o', object: object('.globl helper\nhelper: la t0, value\nlw a0, 0(t0)\nret\n.data\nvalue: .word 2') },
+      ]);
+      expect(result.errors).toEqual([]);
+      expect(run(toRisvExecutable(result), result.base).exitCode).toBe(2);
+    });
+
+    it('should check branch ranges', () => {
+      const result = new Linker({
+        base: 0,
+        sections: [
+          { name: '.text', inputs: ['.text'] },
+          { name: '.far', inputs: ['.far'], address: 0x2000 },
+        ],
+      }).link([{ name: 'a.o', object: object('beqz a0, far\n.section .far\nfar: ret') }]);
+      expect(result.errors).toEqual(["a.o: .text+0x0: branch to 'far' is out of range"]);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { Assembler } from '../../src/assembler/assembler.js';
+import { buildSymbolMap, formatListing, formatSymbolMap } from '../../src/assembler/listing.js';
+import { FileResolver } from '../../src/assembler/preprocessor.js';
+import { parseSymbolMap } from '../../src/emulator/disasm-cli.js';
+
+describe('Listings', () => {
+  const files: Record<string, string> = {
+    'defs.inc': '.equ EXIT, 93\n.macro exit code\n  li a0, \\code\n  li a7, EXIT\n  ecall\n.endm\n',
+  };
+  const resolver: FileResolver = { readText: path => files[path] ?? null, readBinary: () => null };
+
+  function assemble(source: string) {
+    const result = new Assembler(source, { listing: true, fileName: 'main.s', resolver }).assemble();
+    expect(result.errors).toEqual([]);
+    return result;
+  }
+
+  it('should list included files, macro expansions and pseudo-instructions', () => {
+    const result = assemble(
+      '.include "defs.inc"\n_start:\n  la a0, msg  # address\n  exit 0\n.data\nmsg: .byte 1, 2, 3, 4, 5, 6\n'
+    );
+    expect(formatListing(result.listing!).split('\n')).toEqual([
+      '    1                       .include "defs.inc"',
+      '==> defs.inc <==',
+      '    1                       .equ EXIT, 93',
+      '    2                       .macro exit code',
+      '    3                         li a0, \\code',
+      '    4                         li a7, EXIT',
+      '    5                         ecall',
+      '    6                       .endm',
+      '==> main.s <==',
+      '    2                       _start:',
+      '    3                         la a0, msg  # address',
+      '       00000000  00000517 > auipc   a0, 0x0',
+      '       00000004  01450513 > addi    a0, a0, 20',
+      '    4                         exit 0',
+      '                          + li a0, 0',
+      '       00000008  00000513 > addi    a0, zero, 0',
+      '                          + li a7, EXIT',
+      '       0000000c  05d00893 > addi    a7, zero, 93',
+      '       00000010  00000073 + ecall',
+      '    5                       .data',
+      '    6  00000014  01020304   msg: .byte 1, 2, 3, 4, 5, 6',
+      '       00000018  0506',
+    ]);
+  });
+
+  it('should put real instructions on their source line', () => {
+    const { listing } = assemble('add a0, a0, a1\n.rept 2\n  ecall\n.endr');
+    expect(listing!.map(line => [line.kind, line.line, line.address, line.text])).toEqual([
+      ['source', 1, 0, 'add a0, a0, a1'],
+      ['source', 2, null, '.rept 2'],
+      ['source', 3, 4, '  ecall'],
+      ['expansion', undefined, 8, 'ecall'],
+      ['source', 4, null, '.endr'],
+    ]);
+  });
+
+  it('should list section offsets in objects', () => {
+    const { listing, errors } = new Assembler('a: nop\n.data\nb: .word 1\n.text\nc: ebreak', { listing: true })
+      .assembleObject();
+    expect(errors).toEqual([]);
+    expect(listing!.filter(line => line.address !== null).map(line => [line.address, line.text])).toEqual([
+      [0, 'addi    zero, zero, 0'],
+      [0, 'b: .word 1'],
+      [4, 'c: ebreak'],
+    ]);
+  });
+
+  it('should leave listings out unless asked', () => {
+    expect(new Assembler('nop').assemble().listing).toBeUndefined();
+  });
+});
+
+describe('Symbol maps', () => {
+  it('should sort symbols and size them to the next label', () => {
+    const result = new Assembler('.equ SIZE, 4\n_start:\n  nop\nloop:\n  j loop\n.data\nvalue: .word 1, 2').assemble();
+    expect(result.errors).toEqual([]);
+    const map = buildSymbolMap(result.symbols, result.labelSections, () => result.bytes.length, true);
+    expect(map).toEqual([
+      { name: '_start', address: 0, section: '.text', size: 4 },
+      { name: 'SIZE', address: 4, section: null, size: 0 },
+      { name: 'loop', address: 4, section: '.text', size: 4 },
+      { name: 'value', address: 8, section: '.data', size: 8 },
+    ]);
+    expect(formatSymbolMap(map).split('\n')).toEqual([
+      '# address  section      size  name',
+      '00000000  .text           4  _start',
+      '00000004  *ABS*           0  SIZE',
+      '00000004  .text           4  loop',
+      '00000008  .data           8  value',
+    ]);
+  });
+
+  it('should leave numeric labels out', () => {
+    const result = new Assembler('main:\n1: addi a0, a0, -1\n  bnez a0, 1b\n  ret').assemble();
+    expect(result.errors).toEqual([]);
+    const map = buildSymbolMap(result.symbols, result.labelSections, () => 12, true);
+    expect(map).toEqual([{ name: 'main', address: 0, section: '.text', size: 12 }]);
+  });
+
+  it('should size labels within their own section', () => {
+    const sections = new Map([['code', '.text'], ['table', '.rodata']]);
+    const ends: Record<string, number> = { '.text': 12, '.rodata': 16 };
+    const map = buildSymbolMap(new Map([['code', 0], ['table', 0]]), sections, section => ends[section], false);
+    expect(map.map(symbol => [symbol.name, symbol.size])).toEqual([['code', 12], ['table', 16]]);
+  });
+
+  it('should be readable as a riscv-disasm symbol map', () => {
+    const result = new Assembler('main:\n  nop\ndone:\n  ret').assemble();
+    const text = formatSymbolMap(buildSymbolMap(result.symbols, result.labelSections, () => 8, true));
+    expect(parseSymbolMap(text)).toEqual(new Map([['main', 0], ['done', 4]]));
+  });
+});
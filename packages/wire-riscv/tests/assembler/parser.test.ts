@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { Parser, InstructionType, NodeType } from '../../src/assembler/parser.js';
+import { Parser, InstructionType, NodeType, ParserError } from '../../src/assembler/parser.js';
 
 describe('Parser', () => {
   describe('empty input', () => {
@@ -131,6 +131,120 @@ describe('Parser', () => {
         expect(stmt.mnemonic).toBe('SLTU');
       }
     });
+
+    it('should parse M extension instructions as R-type', () => {
+      const parser = new Parser('MULHSU a0, a1, a2\nREMU t0, t1, t2');
+      const ast = parser.parse();
+      expect(ast.statements).toHaveLength(2);
+      const stmt = ast.statements[0];
+      if (stmt.type === NodeType.INSTRUCTION) {
+        expect(stmt.mnemonic).toBe('MULHSU');
+        expect(stmt.instructionType).toBe(InstructionType.R);
+        expect(stmt.rd).toBe(10);
+        expect(stmt.rs1).toBe(11);
+        expect(stmt.rs2).toBe(12);
+      }
+    });
+  });
+
+  describe('CSR instructions', () => {
+    it('should parse CSR names and numbers', () => {
+      const parser = new Parser('csrrw t0, mtvec, t1\ncsrrs a0, 0x341, zero');
+      const ast = parser.parse();
+      const [first, second] = ast.statements;
+      if (first.type === NodeType.INSTRUCTION && second.type === NodeType.INSTRUCTION) {
+        expect(first.mnemonic).toBe('CSRRW');
+        expect(first.instructionType).toBe(InstructionType.I);
+        expect(first.rd).toBe(5);
+        expect(first.rs1).toBe(6);
+        expect(first.imm).toBe(0x305);
+        expect(second.imm).toBe(0x341);
+      }
+    });
+
+    it('should expand CSR pseudo-instructions', () => {
+      const parser = new Parser('csrr a0, mcause\ncsrwi mie, 8');
+      const ast = parser.parse();
+      const [read, write] = ast.statements;
+      if (read.type === NodeType.INSTRUCTION && write.type === NodeType.INSTRUCTION) {
+        expect(read.mnemonic).toBe('CSRRS');
+        expect(read.rd).toBe(10);
+        expect(read.rs1).toBe(0);
+        expect(read.imm).toBe(0x342);
+        expect(write.mnemonic).toBe('CSRRWI');
+        expect(write.rd).toBe(0);
+        expect(write.rs1).toBe(8);
+        expect(write.imm).toBe(0x304);
+      }
+    });
+
+    it('should parse SFENCE.VMA with optional operands', () => {
+      const parser = new Parser('sfence.vma\nsfence.vma a0\nsfence.vma a0, a1');
+      const ast = parser.parse();
+      const [all, page, asid] = ast.statements;
+      if (all.type === NodeType.INSTRUCTION && page.type === NodeType.INSTRUCTION &&
+          asid.type === NodeType.INSTRUCTION) {
+        expect(all.mnemonic).toBe('SFENCE.VMA');
+        expect(all.rs1).toBe(0);
+        expect(all.rs2).toBe(0);
+        expect(page.rs1).toBe(10);
+        expect(page.rs2).toBe(0);
+        expect(asid.rs2).toBe(11);
+      }
+    });
+
+    it('should parse fences with optional ordering sets', () => {
+      const [all, sets, instruction] = new Parser('fence\nfence rw, W\nfence.i').parse().statements;
+      expect(all).toMatchObject({ mnemonic: 'FENCE', imm: 0xFF });
+      expect(sets).toMatchObject({ mnemonic: 'FENCE', imm: 0x31 });
+      expect(instruction).toMatchObject({ mnemonic: 'FENCE.I', imm: 0 });
+      expect(() => new Parser('fence rx, w').parse()).toThrow("Invalid fence ordering set 'rx'");
+      expect(() => new Parser('fence rw').parse()).toThrow('Expected comma after fence predecessor set');
+    });
+
+    it('should parse LR/SC and AMOs with ordering suffixes', () => {
+      const parser = new Parser('lr.w.aq a0, (a1)\nsc.w.rl t0, a2, 0(a1)\namoadd.w a0, a2, (sp)');
+      const [lr, sc, amo] = parser.parse().statements;
+      expect(lr).toMatchObject({ mnemonic: 'LR.W.AQ', rd: 10, rs1: 11, rs2: 0 });
+      expect(sc).toMatchObject({ mnemonic: 'SC.W.RL', rd: 5, rs1: 11, rs2: 12 });
+      expect(amo).toMatchObject({ mnemonic: 'AMOADD.W', rd: 10, rs1: 2, rs2: 12 });
+    });
+
+    it('should reject offsets on atomic memory operands', () => {
+      const parser = new Parser('amoswap.w a0, a1, 4(a2)');
+      expect(() => parser.parse()).toThrow(/must not have an offset/);
+    });
+
+    it('should parse floating-point operands, rounding modes and loads', () => {
+      const parser = new Parser(
+        'fadd.s fa0, fa1, ft2, rtz\nfmadd.d f1, f2, f3, f4\nfeq.s a0, fs0, fs1\nflw ft0, 8(sp)\nfsd fa0, -8(s0)'
+      );
+      const [add, fused, eq, load, store] = parser.parse().statements;
+      expect(add).toMatchObject({ mnemonic: 'FADD.S', instructionType: InstructionType.R, rd: 10, rs1: 11, rs2: 2, rm: 1 });
+      expect(fused).toMatchObject({ mnemonic: 'FMADD.D', instructionType: InstructionType.R4, rd: 1, rs3: 4, rm: 7 });
+      expect(eq).toMatchObject({ mnemonic: 'FEQ.S', rd: 10, rs1: 8, rs2: 9 });
+      expect(load).toMatchObject({ mnemonic: 'FLW', instructionType: InstructionType.I, rd: 0, rs1: 2, imm: 8 });
+      expect(store).toMatchObject({ mnemonic: 'FSD', instructionType: InstructionType.S, rs1: 8, rs2: 10, imm: -8 });
+    });
+
+    it('should expand floating-point pseudo-instructions', () => {
+      const parser = new Parser('fneg.d fa0, fa1\nfrflags a0\nfsrm t0, a1\ncsrr a0, fcsr');
+      const [neg, flags, rm, fcsr] = parser.parse().statements;
+      expect(neg).toMatchObject({ mnemonic: 'FSGNJN.D', rd: 10, rs1: 11, rs2: 11 });
+      expect(flags).toMatchObject({ mnemonic: 'CSRRS', rd: 10, rs1: 0, imm: 0x001 });
+      expect(rm).toMatchObject({ mnemonic: 'CSRRW', rd: 5, rs1: 11, imm: 0x002 });
+      expect(fcsr).toMatchObject({ mnemonic: 'CSRRS', imm: 0x003 });
+    });
+
+    it('should reject integer registers for floating-point operands', () => {
+      expect(() => new Parser('fadd.s a0, fa1, fa2').parse()).toThrow(/floating-point register/);
+      expect(() => new Parser('fadd.s fa0, fa1, fa2, up').parse()).toThrow(/rounding mode/);
+    });
+
+    it('should reject unknown CSR names', () => {
+      const parser = new Parser('csrr a0, bogus');
+      expect(() => parser.parse()).toThrow(ParserError);
+    });
   });
 
   describe('I-type ALU instructions', () => {
@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import { Assembler } from '../../src/assembler/assembler.js';
+import { disassemble } from '../../src/emulator/disassembler.js';
+import { Preprocessor, PreprocessorError, createMemoryResolver } from '../../src/assembler/preprocessor.js';
+
+/**
+ * Tests for macros, conditional assembly and file inclusion
+ */
+describe('Preprocessor', () => {
+  /** Preprocess a source and return its non-blank lines, trimmed */
+  function expand(source: string, files: Record<string, string | Uint8Array> = {}): string[] {
+    const result = new Preprocessor(createMemoryResolver(files)).process(source, 'main.s');
+    return result.source
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line !== '');
+  }
+
+  /** Assemble a source, failing on errors */
+  function assemble(source: string, files: Record<string, string | Uint8Array> = {}) {
+    const result = new Assembler(source, { resolver: createMemoryResolver(files) }).assemble();
+    expect(result.errors).toEqual([]);
+    return result;
+  }
+
+  describe('macros', () => {
+    it('should substitute parameters and defaults', () => {
+      const lines = expand(`
+        .macro push reg, size=4
+          addi sp, sp, -\\size
+          sw \\reg, 0(sp)
+        .endm
+        push ra
+        PUSH s0, 8
+      `);
+      expect(lines).toEqual(['addi sp, sp, -4', 'sw ra, 0(sp)', 'addi sp, sp, -8', 'sw s0, 0(sp)']);
+    });
+
+    it('should give each expansion its own local labels', () => {
+      const result = assemble(`
+        .macro wait n
+          li t0, \\n
+        spin\\@:
+          addi t0, t0, -1
+          bnez t0, spin\\@
+        .endmacro
+        wait 2
+        wait 3
+      `);
+      expect(result.symbols.get('spin0')).toBe(4);
+      expect(result.symbols.get('spin1')).toBe(16);
+    });
+
+    it('should resolve numeric labels within each expansion', () => {
+      const result = assemble(`
+        .macro countdown
+        1: addi a0, a0, -1
+          bnez a0, 1b
+        .endm
+          li a0, 2
+          countdown
+          li a0, 3
+          countdown
+      `);
+      // Each bnez goes back to the addi of its own expansion
+      const words = new Uint32Array(result.bytes.buffer);
+      expect([2, 5].map(i => disassemble(words[i], i * 4))).toEqual([
+        'bne     a0, zero, 0x4',
+        'bne     a0, zero, 0x10',
+      ]);
+    });
+
+    it('should expand a macro after a numeric label', () => {
+      expect(expand('.macro m\nnop\n.endm\n1: m')).toEqual(['1:', 'nop']);
+    });
+
+    it('should paste parameters with \\()', () => {
+      expect(expand('.macro entry name\n\\name\\()_start:\n.endm\nentry boot')).toEqual(['boot_start:']);
+    });
+
+    it('should repeat blocks with .rept', () => {
+      expect(expand('.rept 3\nnop\n.endr')).toEqual(['nop', 'nop', 'nop']);
+    });
+
+    it('should reject bad invocations', () => {
+      expect(() => expand('.macro m a\n.endm\nm 1, 2')).toThrow("Too many arguments for macro 'm'");
+      expect(() => expand('.macro m\nnop')).toThrow('Missing .endm');
+    });
+  });
+
+  describe('conditionals', () => {
+    it('should select blocks by .equ values', () => {
+      const source = `
+        .equ BOARD, 2
+        .if BOARD == 1
+          li a0, 1
+        .elseif BOARD == 2 && (1 << 3) > 7
+          li a0, 2
+        .else
+          li a0, 3
+        .endif
+      `;
+      expect(expand(source)).toEqual(['.equ BOARD, 2', 'li a0, 2']);
+    });
+
+    it('should test definitions with .ifdef and .ifndef', () => {
+      expect(expand('.set DEBUG, 0\n.ifdef DEBUG\nnop\n.endif\n.ifndef TRACE\nebreak\n.endif')).toEqual([
+        '.set DEBUG, 0',
+        'nop',
+        'ebreak',
+      ]);
+    });
+
+    it('should skip macro definitions in false blocks', () => {
+      expect(expand('.if 0\n.macro m\nnop\n.endm\n.endif\n.ifdef m\nebreak\n.endif')).toEqual([]);
+    });
+
+    it('should report unbalanced blocks and unknown symbols', () => {
+      expect(() => expand('.if 1\nnop')).toThrow('Missing .endif');
+      expect(() => expand('.endif')).toThrow('Unexpected .endif without .if');
+      expect(() => expand('.if LATER\n.endif')).toThrow("Symbol 'LATER' has no constant value");
+    });
+  });
+
+  describe('files', () => {
+    it('should include files relative to the including file', () => {
+      const files = {
+        'lib/syscalls.s': '.include "exit.s"',
+        'lib/exit.s': '.macro exit code\n  li a0, \\code\n  li a7, 0\n  ecall\n.endm',
+      };
+      const result = assemble('.include "lib/syscalls.s"\nexit 7', files);
+      expect(result.bytes.length).toBe(12);
+    });
+
+    it('should embed binary files with .incbin', () => {
+      const files = { 'font.bin': new Uint8Array([1, 2, 3, 4, 5]) };
+      const result = assemble('.incbin "font.bin", 1, 3', files);
+      expect(Array.from(result.bytes)).toEqual([2, 3, 4]);
+    });
+
+    it('should report missing files and recursion', () => {
+      expect(() => expand('.include "none.s"')).toThrow("Cannot include 'none.s': file not found");
+      expect(() => expand('.include "self.s"', { 'self.s': '.include "self.s"' })).toThrow(PreprocessorError);
+      expect(() => new Preprocessor().process('.incbin "x.bin"')).toThrow('no file resolver');
+    });
+
+    it('should locate assembler errors in included files', () => {
+      const files = { 'inc/a.s': 'nop\n.include "b.s"', 'inc/b.s': 'nop\nbogus a0' };
+      const result = new Assembler('nop\n.include "inc/a.s"', { resolver: createMemoryResolver(files) }).assemble();
+      expect(result.errors).toEqual([
+        { message: "Unexpected token 'bogus'", line: 2, column: 1, file: 'inc/b.s' },
+      ]);
+    });
+  });
+});
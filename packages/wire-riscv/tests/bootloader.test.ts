@@ -10,7 +10,7 @@ describe('Bootloader', () => {
   let bootloader: Bootloader;
 
   beforeEach(() => {
-    cpu = new RiscVCpu({ memorySize: 0x10000 }); // 64KB
+    cpu = new RiscVCpu({ memorySize: 0x10000, hostSyscalls: true }); // 64KB
     bootloader = new Bootloader();
   });
 
@@ -0,0 +1,207 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RiscVCpu } from '../src/emulator/cpu.js';
+import { Bus, BusDevice, BusError, AccessWidth, RamDevice, fromMmioDevice } from '../src/emulator/bus.js';
+import { Clint, CLINT_BASE, CLINT_REGS } from '../src/emulator/clint.js';
+import { EXCEPTION_CAUSE } from '../src/emulator/trap.js';
+import { Assembler } from '../src/assembler/assembler.js';
+
+/**
+ * Mock peripheral that records every access and serves reads from a
+ * register map
+ */
+class MockDevice implements BusDevice {
+  accesses: Array<{ op: 'read' | 'write'; offset: number; width: AccessWidth; value: number }> = [];
+  registers: Map<number, number> = new Map();
+
+  read(offset: number, width: AccessWidth): number {
+    const value = this.registers.get(offset) ?? 0;
+    this.accesses.push({ op: 'read', offset, width, value });
+    return value;
+  }
+
+  write(offset: number, value: number, width: AccessWidth): void {
+    this.accesses.push({ op: 'write', offset, width, value });
+    this.registers.set(offset, value);
+  }
+}
+
+const MOCK_BASE = 0x40000000;
+
+/**
+ * Tests for the system bus and device registration
+ */
+describe('Bus', () => {
+  let bus: Bus;
+
+  beforeEach(() => {
+    bus = new Bus();
+  });
+
+  describe('RAM regions', () => {
+    it('should read and write little-endian values of every width', () => {
+      const ram = bus.addRam('ram', 0x1000, 16);
+      bus.write(0x1000, 0x12345678, 4);
+      expect(Array.from(ram.data.slice(0, 4))).toEqual([0x78, 0x56, 0x34, 0x12]);
+      expect(bus.read(0x1002, 2)).toBe(0x1234);
+      expect(bus.read(0x1003, 1)).toBe(0x12);
+
+      bus.write(0x1008, 0xAABBCCDD, 2);
+      expect(bus.read(0x1008, 4)).toBe(0xCCDD);
+    });
+
+    it('should share storage with an existing buffer', () => {
+      const data = new Uint8Array(8);
+      bus.addRam('ram', 0, data);
+      bus.write(4, 0xFF, 1);
+      expect(data[4]).toBe(0xFF);
+    });
+  });
+
+  describe('device registration', () => {
+    it('should pass region-relative offsets and widths to devices', () => {
+      const mock = new MockDevice();
+      bus.attach('mock', MOCK_BASE, 0x100, mock);
+
+      bus.write(MOCK_BASE + 0x10, 0xABCD, 2);
+      bus.read(MOCK_BASE + 0x20, 1);
+
+      expect(mock.accesses).toEqual([
+        { op: 'write', offset: 0x10, width: 2, value: 0xABCD },
+        { op: 'read', offset: 0x20, width: 1, value: 0 },
+      ]);
+    });
+
+    it('should reject overlapping regions', () => {
+      bus.addRam('ram', 0, 0x1000);
+      expect(() => bus.attach('mock', 0xFFC, 8, new MockDevice())).toThrow(/overlaps ram/);
+      expect(() => bus.attach('mock', 0x1000, 8, new MockDevice())).not.toThrow();
+    });
+
+    it('should list regions in address order and detach them by name', () => {
+      bus.attach('b', 0x2000, 0x10, new MockDevice());
+      bus.attach('a', 0x1000, 0x10, new MockDevice());
+      bus.attach('b', 0x3000, 0x10, new MockDevice());
+      expect(bus.getRegions().map((r) => r.base)).toEqual([0x1000, 0x2000, 0x3000]);
+
+      expect(bus.detach('b')).toBe(true);
+      expect(bus.getRegions().map((r) => r.name)).toEqual(['a']);
+      expect(bus.isMapped(0x2000)).toBe(false);
+      expect(bus.detach('b')).toBe(false);
+    });
+
+    it('should adapt devices with per-width MMIO methods', () => {
+      const clint = new Clint();
+      bus.attach('clint', CLINT_BASE, 0x10000, fromMmioDevice(clint, CLINT_BASE));
+      bus.write(CLINT_BASE + CLINT_REGS.MTIMECMP, 0x1234, 4);
+      expect(clint.readRegister(CLINT_REGS.MTIMECMP)).toBe(0x1234);
+      expect(bus.read(CLINT_BASE + CLINT_REGS.MTIMECMP + 1, 1)).toBe(0x12);
+    });
+  });
+
+  describe('unmapped accesses', () => {
+    it('should raise a BusError', () => {
+      bus.addRam('ram', 0, 0x100);
+      expect(() => bus.read(0x200, 4)).toThrow(BusError);
+      try {
+        bus.write(0x200, 1, 2);
+      } catch (e) {
+        expect(e).toBeInstanceOf(BusError);
+        expect((e as BusError).address).toBe(0x200);
+        expect((e as BusError).width).toBe(2);
+        expect((e as BusError).isWrite).toBe(true);
+      }
+    });
+
+    it('should not let an access straddle the end of a region', () => {
+      bus.addRam('ram', 0, 0x100);
+      expect(bus.isMapped(0xFC, 4)).toBe(true);
+      expect(bus.isMapped(0xFE, 4)).toBe(false);
+      expect(() => bus.read(0xFE, 4)).toThrow(BusError);
+    });
+  });
+
+  describe('CPU integration', () => {
+    function load(cpu: RiscVCpu, source: string): void {
+      const result = new Assembler(source).assemble();
+      expect(result.errors).toEqual([]);
+      cpu.loadProgram(result.bytes);
+    }
+
+    it('should route loads and stores to an attached mock peripheral', () => {
+      const mock = new MockDevice();
+      mock.registers.set(0x8, 0xCAFE);
+      const cpu = new RiscVCpu({
+        memorySize: 4096,
+        devices: [{ name: 'mock', base: MOCK_BASE, size: 0x100, device: mock }],
+      });
+      load(cpu, `
+        li t0, 0x40000000
+        lw a0, 8(t0)
+        sb a0, 4(t0)
+        lhu a1, 4(t0)
+        ebreak
+      `);
+      cpu.run(100);
+
+      expect(cpu.getReg(10)).toBe(0xCAFE);
+      expect(cpu.getReg(11)).toBe(0xFE);
+      expect(mock.accesses.map((a) => [a.op, a.offset, a.width])).toEqual([
+        ['read', 8, 4],
+        ['write', 4, 1],
+        ['read', 4, 2],
+      ]);
+    });
+
+    it('should allow mock peripherals to be attached after construction', () => {
+      const cpu = new RiscVCpu({ memorySize: 4096 });
+      const mock = new MockDevice();
+      cpu.bus.attach('mock', MOCK_BASE, 0x100, mock);
+      cpu.writeWord(MOCK_BASE, 7);
+      expect(mock.registers.get(0)).toBe(7);
+    });
+
+    it('should map additional RAM regions', () => {
+      const cpu = new RiscVCpu({
+        memorySize: 4096,
+        ramRegions: [{ name: 'sram', base: 0x80000000, size: 0x1000 }],
+      });
+      load(cpu, `
+        li t0, 0x80000000
+        li t1, 0x5555
+        sw t1, 0x10(t0)
+        lw a0, 0x10(t0)
+        ebreak
+      `);
+      cpu.run(100);
+
+      expect(cpu.getReg(10)).toBe(0x5555);
+      const sram = cpu.bus.find(0x80000000)!.device as RamDevice;
+      expect(sram.data[0x10]).toBe(0x55);
+    });
+
+    it('should raise an access fault for unmapped loads and stores', () => {
+      const cpu = new RiscVCpu({ memorySize: 4096 });
+      load(cpu, `
+        li t0, 0x50000000
+        lw a0, 0(t0)
+      `);
+      cpu.run(100);
+
+      expect(cpu.csr.mcause).toBe(EXCEPTION_CAUSE.LOAD_ACCESS_FAULT);
+      expect(cpu.csr.mtval).toBe(0x50000000);
+    });
+
+    it('should raise a BusError for unmapped host accesses', () => {
+      const cpu = new RiscVCpu({ memorySize: 4096 });
+      expect(() => cpu.readWord(0x50000000)).toThrow(BusError);
+      expect(() => cpu.writeByte(4096, 1)).toThrow(BusError);
+    });
+
+    it('should reject devices that overlap the built-in map', () => {
+      expect(() => new RiscVCpu({
+        memorySize: 4096,
+        devices: [{ name: 'mock', base: CLINT_BASE, size: 0x10, device: new MockDevice() }],
+      })).toThrow(/overlaps clint/);
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RiscVCpu } from '../src/emulator/cpu.js';
+import { Clint, CLINT_BASE, CLINT_REGS } from '../src/emulator/clint.js';
+import { MIP } from '../src/emulator/csr.js';
+import { INTERRUPT_BIT, INTERRUPT_CAUSE } from '../src/emulator/trap.js';
+import { Assembler } from '../src/assembler/assembler.js';
+
+/**
+ * Tests for the CLINT timer and machine interrupt delivery
+ */
+describe('Clint', () => {
+  let clint: Clint;
+
+  beforeEach(() => {
+    clint = new Clint();
+  });
+
+  describe('registers', () => {
+    it('should start with the timer interrupt disabled', () => {
+      expect(clint.readRegister(CLINT_REGS.MTIMECMP)).toBe(0xFFFFFFFF);
+      expect(clint.readRegister(CLINT_REGS.MTIMECMPH)).toBe(0xFFFFFFFF);
+      expect(clint.isTimerPending()).toBe(false);
+    });
+
+    it('should advance mtime on tick', () => {
+      clint.tick();
+      clint.tick(9);
+      expect(clint.readRegister(CLINT_REGS.MTIME)).toBe(10);
+      expect(clint.readRegister(CLINT_REGS.MTIMEH)).toBe(0);
+    });
+
+    it('should carry mtime into the high word', () => {
+      clint.writeRegister(CLINT_REGS.MTIME, 0xFFFFFFFF);
+      clint.tick();
+      expect(clint.readRegister(CLINT_REGS.MTIME)).toBe(0);
+      expect(clint.readRegister(CLINT_REGS.MTIMEH)).toBe(1);
+    });
+
+    it('should raise the timer interrupt when mtime reaches mtimecmp', () => {
+      clint.writeRegister(CLINT_REGS.MTIMECMPH, 0);
+      clint.writeRegister(CLINT_REGS.MTIMECMP, 5);
+      clint.tick(4);
+      expect(clint.isTimerPending()).toBe(false);
+      clint.tick();
+      expect(clint.isTimerPending()).toBe(true);
+    });
+
+    it('should only keep bit 0 of msip', () => {
+      clint.writeRegister(CLINT_REGS.MSIP, 0xFF);
+      expect(clint.readRegister(CLINT_REGS.MSIP)).toBe(1);
+      expect(clint.isSoftwarePending()).toBe(true);
+    });
+
+    it('should keep msip and mtimecmp per hart', () => {
+      const smp = new Clint(2);
+      smp.writeRegister(CLINT_REGS.MSIP + 4, 1);
+      smp.writeRegister(CLINT_REGS.MTIMECMP + 8, 3);
+      smp.writeRegister(CLINT_REGS.MTIMECMPH + 8, 0);
+      smp.tick(3);
+
+      expect(smp.isSoftwarePending(0)).toBe(false);
+      expect(smp.isSoftwarePending(1)).toBe(true);
+      expect(smp.isTimerPending(0)).toBe(false);
+      expect(smp.isTimerPending(1)).toBe(true);
+      expect(smp.getMtimecmp(1)).toBe(3);
+      // Registers of harts beyond hartCount read as zero
+      expect(smp.readRegister(CLINT_REGS.MSIP + 8)).toBe(0);
+    });
+
+    it('should support byte access to mtimecmp', () => {
+      clint.mmioWrite(CLINT_BASE + CLINT_REGS.MTIMECMP, 0);
+      clint.mmioWriteByte(CLINT_BASE + CLINT_REGS.MTIMECMP + 1, 0x12);
+      expect(clint.readRegister(CLINT_REGS.MTIMECMP)).toBe(0x1200);
+      expect(clint.mmioReadByte(CLINT_BASE + CLINT_REGS.MTIMECMP + 1)).toBe(0x12);
+    });
+  });
+
+  describe('CPU integration', () => {
+    let cpu: RiscVCpu;
+
+    beforeEach(() => {
+      cpu = new RiscVCpu({ memorySize: 4096, hostSyscalls: true });
+    });
+
+    function load(source: string): void {
+      const result = new Assembler(source).assemble();
+      expect(result.errors).toEqual([]);
+      cpu.loadProgram(result.bytes);
+    }
+
+    it('should map the CLINT into the address space', () => {
+      cpu.writeWord(CLINT_BASE + CLINT_REGS.MTIMECMP, 1234);
+      expect(cpu.clint.readRegister(CLINT_REGS.MTIMECMP)).toBe(1234);
+      cpu.clint.tick(42);
+      expect(cpu.readWord(CLINT_BASE + CLINT_REGS.MTIME)).toBe(42);
+    });
+
+    it('should reflect the pending timer in mip', () => {
+      load(`
+        li t0, 0x02004000
+        sw zero, 4(t0)
+        sw zero, 0(t0)
+        csrr a0, mip
+        ecall
+      `);
+      cpu.run(100);
+
+      expect(cpu.getReg(10) & MIP.MTIP).toBe(MIP.MTIP);
+    });
+
+    it('should not deliver interrupts while mstatus.MIE is clear', () => {
+      load(`
+        li t0, 0x02004000
+        sw zero, 4(t0)
+        sw zero, 0(t0)
+        li t1, 0x80
+        csrw mie, t1
+        li a0, 1
+        ecall
+      `);
+      cpu.run(100);
+
+      expect(cpu.halted).toBe(true);
+      expect(cpu.getReg(10)).toBe(1);
+    });
+
+    it('should deliver a timer interrupt to the handler', () => {
+      load(`
+          la t0, handler
+          csrw mtvec, t0
+          li t0, 0x02004000
+          sw zero, 4(t0)
+          li t1, 50
+          sw t1, 0(t0)
+          li t1, 0x80
+          csrw mie, t1
+          csrsi mstatus, 8
+        spin:
+          beqz s0, spin
+          li a7, 0
+          ecall
+        handler:
+          csrr s0, mcause
+          csrr s1, mepc
+          li t2, -1
+          sw t2, 4(t0)
+          mret
+      `);
+      cpu.run(1000);
+
+      expect(cpu.halted).toBe(true);
+      expect(cpu.getReg(8)).toBe((INTERRUPT_BIT | INTERRUPT_CAUSE.MACHINE_TIMER) >>> 0);
+      expect(cpu.clint.mtime).toBeGreaterThanOrEqual(50);
+    });
+
+    it('should jump to base + 4 * cause in vectored mode', () => {
+      cpu.csr.mtvec = 0x201; // base 0x200, vectored
+      cpu.csr.mie = MIP.MSIP;
+      cpu.csr.mstatus |= 0x8;
+      cpu.clint.writeRegister(CLINT_REGS.MSIP, 1);
+      cpu.writeWord(0, 0x00000013); // NOP
+
+      cpu.step();
+
+      expect(cpu.pc).toBe(0x200 + 4 * INTERRUPT_CAUSE.MACHINE_SOFTWARE);
+      expect(cpu.csr.mepc).toBe(0);
+      expect(cpu.csr.mcause).toBe((INTERRUPT_BIT | INTERRUPT_CAUSE.MACHINE_SOFTWARE) >>> 0);
+    });
+
+    it('should idle on WFI until the timer fires', () => {
+      load(`
+        li t0, 0x02004000
+        sw zero, 4(t0)
+        li t1, 100
+        sw t1, 0(t0)
+        li t1, 0x80
+        csrw mie, t1
+        wfi
+        li a0, 7
+        ecall
+      `);
+
+      cpu.run(50);
+      expect(cpu.waitingForInterrupt).toBe(true);
+      expect(cpu.getReg(10)).toBe(0);
+
+      cpu.run(200);
+      // MIE is clear, so the hart resumes after WFI without trapping
+      expect(cpu.waitingForInterrupt).toBe(false);
+      expect(cpu.halted).toBe(true);
+      expect(cpu.getReg(10)).toBe(7);
+      expect(cpu.clint.mtime).toBeGreaterThanOrEqual(100);
+    });
+
+    it('should clear the timer state on reset', () => {
+      cpu.clint.tick(10);
+      cpu.waitingForInterrupt = true;
+      cpu.reset();
+      expect(cpu.clint.mtime).toBe(0);
+      expect(cpu.waitingForInterrupt).toBe(false);
+    });
+  });
+});
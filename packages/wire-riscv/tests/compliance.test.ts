@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { RiscVCpu } from '../src/emulator/cpu.js';
+import { Htif, HtifResult } from '../src/emulator/htif.js';
+import { ProgramLoader } from '../src/emulator/program-loader.js';
+import { Assembler } from '../src/assembler/assembler.js';
+import { RV32UI } from './compliance/rv32ui.js';
+import { RV32UM } from './compliance/rv32um.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+/** Prebuilt riscv-tests ELF files (e.g. rv32ui-p-add), when checked in */
+const BINARY_DIR = join(__dirname, 'compliance', 'bin');
+
+const MAX_CYCLES = 100000;
+
+/** Run a test program on a fresh hart until it reports through tohost */
+function runTest(load: (cpu: RiscVCpu) => Htif | null): HtifResult {
+  const cpu = new RiscVCpu({ memorySize: 1024 * 1024, hostSyscalls: false });
+  const htif = load(cpu);
+  expect(htif, 'program has no tohost symbol').not.toBeNull();
+  return htif!.run(MAX_CYCLES);
+}
+
+/** Check a result, naming the failing test case */
+function expectPass(result: HtifResult): void {
+  expect(result.finished, `no result after ${result.cycles} cycles`).toBe(true);
+  expect(result.exitCode, `test case ${result.exitCode} failed`).toBe(0);
+}
+
+/**
+ * riscv-tests style conformance programs, reporting through HTIF
+ */
+describe('riscv-tests compliance', () => {
+  describe.each([
+    ['rv32ui', RV32UI],
+    ['rv32um', RV32UM],
+  ])('%s', (_suite, programs) => {
+    it.each(Object.keys(programs))('%s', (name) => {
+      const result = runTest((cpu) => {
+        const assembled = new Assembler(programs[name]).assemble();
+        expect(assembled.errors).toEqual([]);
+        cpu.loadProgram(assembled.bytes);
+        return Htif.fromSymbols(cpu, assembled.symbols);
+      });
+      expectPass(result);
+    });
+  });
+
+  const binaries = existsSync(BINARY_DIR) ? readdirSync(BINARY_DIR).filter((file) => !file.startsWith('.')) : [];
+
+  describe.skipIf(binaries.length === 0)('prebuilt binaries', () => {
+    it.each(binaries)('%s', (file) => {
+      const result = runTest((cpu) => {
+        const info = new ProgramLoader(cpu).load(new Uint8Array(readFileSync(join(BINARY_DIR, file))), 0);
+        cpu.pc = info.entryPoint;
+        return Htif.fromSymbols(cpu, info.symbols ?? []);
+      });
+      expectPass(result);
+    });
+  });
+});
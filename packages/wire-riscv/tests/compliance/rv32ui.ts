@@ -0,0 +1,1065 @@
+/**
+ * rv32ui: RV32I user-level instruction tests
+ *
+ * The riscv-tests isa/rv64ui sources run on RV32 (operands and results
+ * masked to 32 bits), one program per instruction. fence_i is left
+ * out because the assembler has no FENCE.I.
+ */
+
+import {
+  testCase,
+  immOp,
+  immSrc1EqDest,
+  immDestBypass,
+  immSrc1Bypass,
+  immZeroSrc1,
+  immZeroDest,
+  rrOp,
+  rrSrc1EqDest,
+  rrSrc2EqDest,
+  rrSrc12EqDest,
+  rrDestBypass,
+  rrSrc12Bypass,
+  rrSrc21Bypass,
+  rrZeroSrc1,
+  rrZeroSrc2,
+  rrZeroSrc12,
+  rrZeroDest,
+  ldOp,
+  ldDestBypass,
+  ldSrc1Bypass,
+  stOp,
+  stSrc12Bypass,
+  br2OpTaken,
+  br2OpNotTaken,
+  br2SrcBypass,
+  testProgram,
+} from './test-macros.js';
+
+export const RV32UI: Record<string, string> = {
+  add: testProgram([
+    rrOp(2, 'add', 0x00000000, 0x00000000, 0x00000000),
+    rrOp(3, 'add', 0x00000002, 0x00000001, 0x00000001),
+    rrOp(4, 'add', 0x0000000a, 0x00000003, 0x00000007),
+    rrOp(5, 'add', 0xffff8000, 0x00000000, 0xffff8000),
+    rrOp(6, 'add', 0x80000000, 0x80000000, 0x00000000),
+    rrOp(7, 'add', 0x7fff8000, 0x80000000, 0xffff8000),
+    rrOp(8, 'add', 0x00007fff, 0x00000000, 0x00007fff),
+    rrOp(9, 'add', 0x7fffffff, 0x7fffffff, 0x00000000),
+    rrOp(10, 'add', 0x80007ffe, 0x7fffffff, 0x00007fff),
+    rrOp(11, 'add', 0x80007fff, 0x80000000, 0x00007fff),
+    rrOp(12, 'add', 0x7fff7fff, 0x7fffffff, 0xffff8000),
+    rrOp(13, 'add', 0xffffffff, 0x00000000, 0xffffffff),
+    rrOp(14, 'add', 0x00000000, 0xffffffff, 0x00000001),
+    rrOp(15, 'add', 0xfffffffe, 0xffffffff, 0xffffffff),
+    rrOp(16, 'add', 0x80000000, 0x00000001, 0x7fffffff),
+    rrSrc1EqDest(17, 'add', 0x00000018, 0x0000000d, 0x0000000b),
+    rrSrc2EqDest(18, 'add', 0x00000019, 0x0000000e, 0x0000000b),
+    rrSrc12EqDest(19, 'add', 0x0000001a, 0x0000000d),
+    rrDestBypass(20, 0, 'add', 0x00000018, 0x0000000d, 0x0000000b),
+    rrDestBypass(21, 1, 'add', 0x00000019, 0x0000000e, 0x0000000b),
+    rrDestBypass(22, 2, 'add', 0x0000001a, 0x0000000f, 0x0000000b),
+    rrSrc12Bypass(23, 0, 0, 'add', 0x00000018, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(24, 0, 1, 'add', 0x00000018, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(25, 0, 2, 'add', 0x00000018, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(26, 1, 0, 'add', 0x00000018, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(27, 1, 1, 'add', 0x00000018, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(28, 2, 0, 'add', 0x00000018, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(29, 0, 0, 'add', 0x00000018, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(30, 0, 1, 'add', 0x00000018, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(31, 0, 2, 'add', 0x00000018, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(32, 1, 0, 'add', 0x00000018, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(33, 1, 1, 'add', 0x00000018, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(34, 2, 0, 'add', 0x00000018, 0x0000000d, 0x0000000b),
+    rrZeroSrc1(35, 'add', 0x0000000f, 15),
+    rrZeroSrc2(36, 'add', 0x00000020, 32),
+    rrZeroSrc12(37, 'add', 0x00000000),
+    rrZeroDest(38, 'add', 16, 30),
+  ]),
+  addi: testProgram([
+    immOp(2, 'addi', 0x00000000, 0x00000000, 0),
+    immOp(3, 'addi', 0x00000002, 0x00000001, 1),
+    immOp(4, 'addi', 0x0000000a, 0x00000003, 7),
+    immOp(5, 'addi', 0xfffff800, 0x00000000, -2048),
+    immOp(6, 'addi', 0x80000000, 0x80000000, 0),
+    immOp(7, 'addi', 0x7ffff800, 0x80000000, -2048),
+    immOp(8, 'addi', 0x000007ff, 0x00000000, 2047),
+    immOp(9, 'addi', 0x7fffffff, 0x7fffffff, 0),
+    immOp(10, 'addi', 0x800007fe, 0x7fffffff, 2047),
+    immOp(11, 'addi', 0x800007ff, 0x80000000, 2047),
+    immOp(12, 'addi', 0x7ffff7ff, 0x7fffffff, -2048),
+    immOp(13, 'addi', 0xffffffff, 0x00000000, -1),
+    immOp(14, 'addi', 0x00000000, 0xffffffff, 1),
+    immOp(15, 'addi', 0xfffffffe, 0xffffffff, -1),
+    immOp(16, 'addi', 0x80000000, 0x7fffffff, 1),
+    immSrc1EqDest(17, 'addi', 0x00000018, 0x0000000d, 11),
+    immDestBypass(18, 0, 'addi', 0x00000018, 0x0000000d, 11),
+    immDestBypass(19, 1, 'addi', 0x00000019, 0x0000000e, 11),
+    immDestBypass(20, 2, 'addi', 0x0000001a, 0x0000000f, 11),
+    immSrc1Bypass(21, 0, 'addi', 0x00000018, 0x0000000d, 11),
+    immSrc1Bypass(22, 1, 'addi', 0x00000019, 0x0000000e, 11),
+    immSrc1Bypass(23, 2, 'addi', 0x0000001a, 0x0000000f, 11),
+    immZeroSrc1(24, 'addi', 0x00000020, 32),
+    immZeroDest(25, 'addi', 0x00000021, 32),
+  ]),
+  and: testProgram([
+    rrOp(2, 'and', 0x0f000f00, 0xff00ff00, 0x0f0f0f0f),
+    rrOp(3, 'and', 0x00f000f0, 0x0ff00ff0, 0xf0f0f0f0),
+    rrOp(4, 'and', 0x000f000f, 0x00ff00ff, 0x0f0f0f0f),
+    rrOp(5, 'and', 0xf000f000, 0xf00ff00f, 0xf0f0f0f0),
+    rrSrc1EqDest(6, 'and', 0x0f000f00, 0xff00ff00, 0x0f0f0f0f),
+    rrSrc2EqDest(7, 'and', 0x0f000f01, 0xff00ff01, 0x0f0f0f0f),
+    rrSrc12EqDest(8, 'and', 0xff00ff00, 0xff00ff00),
+    rrDestBypass(9, 0, 'and', 0x0f000f00, 0xff00ff00, 0x0f0f0f0f),
+    rrDestBypass(10, 1, 'and', 0x0f000f01, 0xff00ff01, 0x0f0f0f0f),
+    rrDestBypass(11, 2, 'and', 0x0f000f02, 0xff00ff02, 0x0f0f0f0f),
+    rrSrc12Bypass(12, 0, 0, 'and', 0x0f000f00, 0xff00ff00, 0x0f0f0f0f),
+    rrSrc12Bypass(13, 0, 1, 'and', 0x0f000f00, 0xff00ff00, 0x0f0f0f0f),
+    rrSrc12Bypass(14, 0, 2, 'and', 0x0f000f00, 0xff00ff00, 0x0f0f0f0f),
+    rrSrc12Bypass(15, 1, 0, 'and', 0x0f000f00, 0xff00ff00, 0x0f0f0f0f),
+    rrSrc12Bypass(16, 1, 1, 'and', 0x0f000f00, 0xff00ff00, 0x0f0f0f0f),
+    rrSrc12Bypass(17, 2, 0, 'and', 0x0f000f00, 0xff00ff00, 0x0f0f0f0f),
+    rrSrc21Bypass(18, 0, 0, 'and', 0x0f000f00, 0xff00ff00, 0x0f0f0f0f),
+    rrSrc21Bypass(19, 0, 1, 'and', 0x0f000f00, 0xff00ff00, 0x0f0f0f0f),
+    rrSrc21Bypass(20, 0, 2, 'and', 0x0f000f00, 0xff00ff00, 0x0f0f0f0f),
+    rrSrc21Bypass(21, 1, 0, 'and', 0x0f000f00, 0xff00ff00, 0x0f0f0f0f),
+    rrSrc21Bypass(22, 1, 1, 'and', 0x0f000f00, 0xff00ff00, 0x0f0f0f0f),
+    rrSrc21Bypass(23, 2, 0, 'and', 0x0f000f00, 0xff00ff00, 0x0f0f0f0f),
+    rrZeroSrc1(24, 'and', 0x00000000, 15),
+    rrZeroSrc2(25, 'and', 0x00000000, 32),
+    rrZeroSrc12(26, 'and', 0x00000000),
+    rrZeroDest(27, 'and', 16, 30),
+  ]),
+  andi: testProgram([
+    immOp(2, 'andi', 0xff00ff00, 0xff00ff00, -241),
+    immOp(3, 'andi', 0x000000f0, 0x0ff00ff0, 240),
+    immOp(4, 'andi', 0x0000000f, 0x00ff00ff, 1807),
+    immOp(5, 'andi', 0x00000000, 0xf00ff00f, 240),
+    immSrc1EqDest(6, 'andi', 0x00000700, 0x0ff00ff0, 1807),
+    immDestBypass(7, 0, 'andi', 0x00000700, 0x0ff00ff0, 1807),
+    immDestBypass(8, 1, 'andi', 0x00000701, 0x0ff00ff1, 1807),
+    immDestBypass(9, 2, 'andi', 0x00000702, 0x0ff00ff2, 1807),
+    immSrc1Bypass(10, 0, 'andi', 0x00000700, 0x0ff00ff0, 1807),
+    immSrc1Bypass(11, 1, 'andi', 0x00000701, 0x0ff00ff1, 1807),
+    immSrc1Bypass(12, 2, 'andi', 0x00000702, 0x0ff00ff2, 1807),
+    immZeroSrc1(13, 'andi', 0x00000000, 32),
+    immZeroDest(14, 'andi', 0x00000021, 32),
+  ]),
+  auipc: testProgram([
+    testCase(2, 'a0', 8184, ['auipc a0, 2', 'jal a1, auipc_2', 'auipc_2:', 'sub a0, a0, a1']),
+    testCase(3, 'a0', -8200, ['auipc a0, 0xffffe', 'jal a1, auipc_3', 'auipc_3:', 'sub a0, a0, a1']),
+  ]),
+  beq: testProgram([
+    br2OpTaken(2, 'beq', 0x00000000, 0x00000000),
+    br2OpTaken(3, 'beq', 0x00000001, 0x00000001),
+    br2OpTaken(4, 'beq', 0xffffffff, 0xffffffff),
+    br2OpNotTaken(5, 'beq', 0x00000000, 0x00000001),
+    br2OpNotTaken(6, 'beq', 0x00000001, 0x00000000),
+    br2OpNotTaken(7, 'beq', 0xffffffff, 0x00000001),
+    br2OpNotTaken(8, 'beq', 0x00000001, 0xffffffff),
+    br2SrcBypass(9, 0, 0, 'beq', 0x00000000, 0x00000001),
+    br2SrcBypass(10, 0, 1, 'beq', 0x00000000, 0x00000001),
+    br2SrcBypass(11, 0, 2, 'beq', 0x00000000, 0x00000001),
+    br2SrcBypass(12, 1, 0, 'beq', 0x00000000, 0x00000001),
+    br2SrcBypass(13, 1, 1, 'beq', 0x00000000, 0x00000001),
+    br2SrcBypass(14, 2, 0, 'beq', 0x00000000, 0x00000001),
+    testCase(15, 'x1', 3, ['li x1, 1', 'beq x0, x0, skip_15', 'addi x1, x1, 1', 'addi x1, x1, 1', 'addi x1, x1, 1', 'skip_15:', 'addi x1, x1, 1', 'addi x1, x1, 1']),
+  ]),
+  bge: testProgram([
+    br2OpTaken(2, 'bge', 0x00000000, 0x00000000),
+    br2OpTaken(3, 'bge', 0x00000001, 0x00000001),
+    br2OpTaken(4, 'bge', 0xffffffff, 0xffffffff),
+    br2OpTaken(5, 'bge', 0x00000001, 0x00000000),
+    br2OpTaken(6, 'bge', 0x00000001, 0xffffffff),
+    br2OpTaken(7, 'bge', 0xffffffff, 0xfffffffe),
+    br2OpNotTaken(8, 'bge', 0x00000000, 0x00000001),
+    br2OpNotTaken(9, 'bge', 0xffffffff, 0x00000001),
+    br2OpNotTaken(10, 'bge', 0xfffffffe, 0xffffffff),
+    br2OpNotTaken(11, 'bge', 0xfffffffe, 0x00000001),
+    br2SrcBypass(12, 0, 0, 'bge', 0x00000000, 0x00000001),
+    br2SrcBypass(13, 0, 1, 'bge', 0x00000000, 0x00000001),
+    br2SrcBypass(14, 0, 2, 'bge', 0x00000000, 0x00000001),
+    br2SrcBypass(15, 1, 0, 'bge', 0x00000000, 0x00000001),
+    br2SrcBypass(16, 1, 1, 'bge', 0x00000000, 0x00000001),
+    br2SrcBypass(17, 2, 0, 'bge', 0x00000000, 0x00000001),
+    testCase(18, 'x1', 3, ['li x1, 1', 'bge x1, x0, skip_18', 'addi x1, x1, 1', 'addi x1, x1, 1', 'addi x1, x1, 1', 'skip_18:', 'addi x1, x1, 1', 'addi x1, x1, 1']),
+  ]),
+  bgeu: testProgram([
+    br2OpTaken(2, 'bgeu', 0x00000000, 0x00000000),
+    br2OpTaken(3, 'bgeu', 0x00000001, 0x00000001),
+    br2OpTaken(4, 'bgeu', 0xffffffff, 0xffffffff),
+    br2OpTaken(5, 'bgeu', 0x00000001, 0x00000000),
+    br2OpTaken(6, 'bgeu', 0xffffffff, 0xfffffffe),
+    br2OpTaken(7, 'bgeu', 0xffffffff, 0x00000000),
+    br2OpNotTaken(8, 'bgeu', 0x00000000, 0x00000001),
+    br2OpNotTaken(9, 'bgeu', 0xfffffffe, 0xffffffff),
+    br2OpNotTaken(10, 'bgeu', 0x00000000, 0xffffffff),
+    br2OpNotTaken(11, 'bgeu', 0x7fffffff, 0x80000000),
+    br2SrcBypass(12, 0, 0, 'bgeu', 0x00000000, 0x00000001),
+    br2SrcBypass(13, 0, 1, 'bgeu', 0x00000000, 0x00000001),
+    br2SrcBypass(14, 0, 2, 'bgeu', 0x00000000, 0x00000001),
+    br2SrcBypass(15, 1, 0, 'bgeu', 0x00000000, 0x00000001),
+    br2SrcBypass(16, 1, 1, 'bgeu', 0x00000000, 0x00000001),
+    br2SrcBypass(17, 2, 0, 'bgeu', 0x00000000, 0x00000001),
+    testCase(18, 'x1', 3, ['li x1, 1', 'bgeu x1, x0, skip_18', 'addi x1, x1, 1', 'addi x1, x1, 1', 'addi x1, x1, 1', 'skip_18:', 'addi x1, x1, 1', 'addi x1, x1, 1']),
+  ]),
+  blt: testProgram([
+    br2OpTaken(2, 'blt', 0x00000000, 0x00000001),
+    br2OpTaken(3, 'blt', 0xffffffff, 0x00000001),
+    br2OpTaken(4, 'blt', 0xfffffffe, 0xffffffff),
+    br2OpNotTaken(5, 'blt', 0x00000001, 0x00000000),
+    br2OpNotTaken(6, 'blt', 0x00000001, 0xffffffff),
+    br2OpNotTaken(7, 'blt', 0xffffffff, 0xfffffffe),
+    br2OpNotTaken(8, 'blt', 0x00000001, 0xfffffffe),
+    br2SrcBypass(9, 0, 0, 'blt', 0x00000001, 0x00000000),
+    br2SrcBypass(10, 0, 1, 'blt', 0x00000001, 0x00000000),
+    br2SrcBypass(11, 0, 2, 'blt', 0x00000001, 0x00000000),
+    br2SrcBypass(12, 1, 0, 'blt', 0x00000001, 0x00000000),
+    br2SrcBypass(13, 1, 1, 'blt', 0x00000001, 0x00000000),
+    br2SrcBypass(14, 2, 0, 'blt', 0x00000001, 0x00000000),
+    testCase(15, 'x1', 3, ['li x1, 1', 'blt x0, x1, skip_15', 'addi x1, x1, 1', 'addi x1, x1, 1', 'addi x1, x1, 1', 'skip_15:', 'addi x1, x1, 1', 'addi x1, x1, 1']),
+  ]),
+  bltu: testProgram([
+    br2OpTaken(2, 'bltu', 0x00000000, 0x00000001),
+    br2OpTaken(3, 'bltu', 0xfffffffe, 0xffffffff),
+    br2OpTaken(4, 'bltu', 0x00000000, 0xffffffff),
+    br2OpNotTaken(5, 'bltu', 0x00000001, 0x00000000),
+    br2OpNotTaken(6, 'bltu', 0xffffffff, 0xfffffffe),
+    br2OpNotTaken(7, 'bltu', 0xffffffff, 0x00000000),
+    br2OpNotTaken(8, 'bltu', 0x80000000, 0x7fffffff),
+    br2SrcBypass(9, 0, 0, 'bltu', 0x00000001, 0x00000000),
+    br2SrcBypass(10, 0, 1, 'bltu', 0x00000001, 0x00000000),
+    br2SrcBypass(11, 0, 2, 'bltu', 0x00000001, 0x00000000),
+    br2SrcBypass(12, 1, 0, 'bltu', 0x00000001, 0x00000000),
+    br2SrcBypass(13, 1, 1, 'bltu', 0x00000001, 0x00000000),
+    br2SrcBypass(14, 2, 0, 'bltu', 0x00000001, 0x00000000),
+    testCase(15, 'x1', 3, ['li x1, 1', 'bltu x0, x1, skip_15', 'addi x1, x1, 1', 'addi x1, x1, 1', 'addi x1, x1, 1', 'skip_15:', 'addi x1, x1, 1', 'addi x1, x1, 1']),
+  ]),
+  bne: testProgram([
+    br2OpTaken(2, 'bne', 0x00000000, 0x00000001),
+    br2OpTaken(3, 'bne', 0x00000001, 0x00000000),
+    br2OpTaken(4, 'bne', 0xffffffff, 0x00000001),
+    br2OpTaken(5, 'bne', 0x00000001, 0xffffffff),
+    br2OpNotTaken(6, 'bne', 0x00000000, 0x00000000),
+    br2OpNotTaken(7, 'bne', 0x00000001, 0x00000001),
+    br2OpNotTaken(8, 'bne', 0xffffffff, 0xffffffff),
+    br2SrcBypass(9, 0, 0, 'bne', 0x00000000, 0x00000000),
+    br2SrcBypass(10, 0, 1, 'bne', 0x00000000, 0x00000000),
+    br2SrcBypass(11, 0, 2, 'bne', 0x00000000, 0x00000000),
+    br2SrcBypass(12, 1, 0, 'bne', 0x00000000, 0x00000000),
+    br2SrcBypass(13, 1, 1, 'bne', 0x00000000, 0x00000000),
+    br2SrcBypass(14, 2, 0, 'bne', 0x00000000, 0x00000000),
+    testCase(15, 'x1', 3, ['li x1, 1', 'bne x1, x0, skip_15', 'addi x1, x1, 1', 'addi x1, x1, 1', 'addi x1, x1, 1', 'skip_15:', 'addi x1, x1, 1', 'addi x1, x1, 1']),
+  ]),
+  jal: testProgram([
+    [
+      'test_2:',
+      '  li gp, 2',
+      '  li ra, 0',
+      '  jal x4, target_2',
+      'linkaddr_2:',
+      '  nop',
+      '  nop',
+      '  j fail',
+      'target_2:',
+      '  la x2, linkaddr_2',
+      '  bne x2, x4, fail',
+    ].join('\n'),
+    // Instructions after the jump are not executed
+    testCase(3, 'ra', 3, [
+      'li ra, 1', 'jal x0, skip_3', 'addi ra, ra, 1', 'addi ra, ra, 1', 'addi ra, ra, 1', 'addi ra, ra, 1',
+      'skip_3:', 'addi ra, ra, 1', 'addi ra, ra, 1',
+    ]),
+  ]),
+  jalr: testProgram([
+    [
+      'test_2:',
+      '  li gp, 2',
+      '  li t0, 0',
+      '  la t1, target_2',
+      '  jalr t0, 0(t1)',
+      'linkaddr_2:',
+      '  j fail',
+      'target_2:',
+      '  la t1, linkaddr_2',
+      '  bne t0, t1, fail',
+      // rd = rs1
+      'test_3:',
+      '  li gp, 3',
+      '  la t0, target_3',
+      '  jalr t0, 0(t0)',
+      'linkaddr_3:',
+      '  j fail',
+      'target_3:',
+      '  la t1, linkaddr_3',
+      '  bne t0, t1, fail',
+    ].join('\n'),
+    ...[0, 1, 2].map((nopCycles) => {
+      const testnum = 4 + nopCycles;
+      return [
+        `test_${testnum}:`,
+        `  li gp, ${testnum}`,
+        '  li x4, 0',
+        `bypass_${testnum}:`,
+        `  la x6, target_${testnum}`,
+        ...Array.from({ length: nopCycles }, () => '  nop'),
+        '  jalr x13, 0(x6)',
+        '  bne x0, gp, fail',
+        `target_${testnum}:`,
+        '  addi x4, x4, 1',
+        '  li x5, 2',
+        `  bne x4, x5, bypass_${testnum}`,
+      ].join('\n');
+    }),
+    // Instructions after the jump are not executed; the offset applies
+    testCase(7, 't0', 4, [
+      'li t0, 1', 'la t1, skip_7', 'jalr x0, -4(t1)', 'addi t0, t0, 1', 'addi t0, t0, 1', 'addi t0, t0, 1',
+      'addi t0, t0, 1', 'skip_7:', 'addi t0, t0, 1', 'addi t0, t0, 1',
+    ]),
+  ]),
+  lb: testProgram([
+    ldOp(2, 'lb', 0xffffffff, 0, 'tdat'),
+    ldOp(3, 'lb', 0x00000000, 1, 'tdat'),
+    ldOp(4, 'lb', 0xfffffff0, 2, 'tdat'),
+    ldOp(5, 'lb', 0x0000000f, 3, 'tdat'),
+    ldOp(6, 'lb', 0xffffffff, -3, 'tdat4'),
+    ldOp(7, 'lb', 0x00000000, -2, 'tdat4'),
+    ldOp(8, 'lb', 0xfffffff0, -1, 'tdat4'),
+    ldOp(9, 'lb', 0x0000000f, 0, 'tdat4'),
+    testCase(10, 'x5', 0xffffffff, ['la x1, tdat', 'addi x1, x1, -32', 'lb x5, 32(x1)']),
+    testCase(11, 'x5', 0x00000000, ['la x1, tdat', 'addi x1, x1, -3', 'lb x5, 4(x1)']),
+    ldDestBypass(12, 0, 'lb', 0xfffffff0, 1, 'tdat2'),
+    ldDestBypass(13, 1, 'lb', 0x0000000f, 1, 'tdat3'),
+    ldDestBypass(14, 2, 'lb', 0x00000000, 1, 'tdat1'),
+    ldSrc1Bypass(15, 0, 'lb', 0xfffffff0, 1, 'tdat2'),
+    ldSrc1Bypass(16, 1, 'lb', 0x0000000f, 1, 'tdat3'),
+    ldSrc1Bypass(17, 2, 'lb', 0x00000000, 1, 'tdat1'),
+    testCase(18, 'x2', 2, ['la x5, tdat', 'lb x2, 0(x5)', 'li x2, 2']),
+    testCase(19, 'x2', 2, ['la x5, tdat', 'lb x2, 0(x5)', 'nop', 'li x2, 2']),
+  ], [
+    'tdat:',
+    'tdat1:',
+    '.byte 0xff',
+    'tdat2:',
+    '.byte 0x0',
+    'tdat3:',
+    '.byte 0xf0',
+    'tdat4:',
+    '.byte 0xf',
+  ]),
+  lbu: testProgram([
+    ldOp(2, 'lbu', 0x000000ff, 0, 'tdat'),
+    ldOp(3, 'lbu', 0x00000000, 1, 'tdat'),
+    ldOp(4, 'lbu', 0x000000f0, 2, 'tdat'),
+    ldOp(5, 'lbu', 0x0000000f, 3, 'tdat'),
+    ldOp(6, 'lbu', 0x000000ff, -3, 'tdat4'),
+    ldOp(7, 'lbu', 0x00000000, -2, 'tdat4'),
+    ldOp(8, 'lbu', 0x000000f0, -1, 'tdat4'),
+    ldOp(9, 'lbu', 0x0000000f, 0, 'tdat4'),
+    testCase(10, 'x5', 0x000000ff, ['la x1, tdat', 'addi x1, x1, -32', 'lbu x5, 32(x1)']),
+    testCase(11, 'x5', 0x00000000, ['la x1, tdat', 'addi x1, x1, -3', 'lbu x5, 4(x1)']),
+    ldDestBypass(12, 0, 'lbu', 0x000000f0, 1, 'tdat2'),
+    ldDestBypass(13, 1, 'lbu', 0x0000000f, 1, 'tdat3'),
+    ldDestBypass(14, 2, 'lbu', 0x00000000, 1, 'tdat1'),
+    ldSrc1Bypass(15, 0, 'lbu', 0x000000f0, 1, 'tdat2'),
+    ldSrc1Bypass(16, 1, 'lbu', 0x0000000f, 1, 'tdat3'),
+    ldSrc1Bypass(17, 2, 'lbu', 0x00000000, 1, 'tdat1'),
+    testCase(18, 'x2', 2, ['la x5, tdat', 'lbu x2, 0(x5)', 'li x2, 2']),
+    testCase(19, 'x2', 2, ['la x5, tdat', 'lbu x2, 0(x5)', 'nop', 'li x2, 2']),
+  ], [
+    'tdat:',
+    'tdat1:',
+    '.byte 0xff',
+    'tdat2:',
+    '.byte 0x0',
+    'tdat3:',
+    '.byte 0xf0',
+    'tdat4:',
+    '.byte 0xf',
+  ]),
+  lh: testProgram([
+    ldOp(2, 'lh', 0x000000ff, 0, 'tdat'),
+    ldOp(3, 'lh', 0xffffff00, 2, 'tdat'),
+    ldOp(4, 'lh', 0x00000ff0, 4, 'tdat'),
+    ldOp(5, 'lh', 0xfffff00f, 6, 'tdat'),
+    ldOp(6, 'lh', 0x000000ff, -6, 'tdat4'),
+    ldOp(7, 'lh', 0xffffff00, -4, 'tdat4'),
+    ldOp(8, 'lh', 0x00000ff0, -2, 'tdat4'),
+    ldOp(9, 'lh', 0xfffff00f, 0, 'tdat4'),
+    testCase(10, 'x5', 0x000000ff, ['la x1, tdat', 'addi x1, x1, -32', 'lh x5, 32(x1)']),
+    testCase(11, 'x5', 0xffffff00, ['la x1, tdat', 'addi x1, x1, -3', 'lh x5, 5(x1)']),
+    ldDestBypass(12, 0, 'lh', 0x00000ff0, 2, 'tdat2'),
+    ldDestBypass(13, 1, 'lh', 0xfffff00f, 2, 'tdat3'),
+    ldDestBypass(14, 2, 'lh', 0xffffff00, 2, 'tdat1'),
+    ldSrc1Bypass(15, 0, 'lh', 0x00000ff0, 2, 'tdat2'),
+    ldSrc1Bypass(16, 1, 'lh', 0xfffff00f, 2, 'tdat3'),
+    ldSrc1Bypass(17, 2, 'lh', 0xffffff00, 2, 'tdat1'),
+    testCase(18, 'x2', 2, ['la x5, tdat', 'lh x2, 0(x5)', 'li x2, 2']),
+    testCase(19, 'x2', 2, ['la x5, tdat', 'lh x2, 0(x5)', 'nop', 'li x2, 2']),
+  ], [
+    'tdat:',
+    'tdat1:',
+    '.half 0xff',
+    'tdat2:',
+    '.half 0xff00',
+    'tdat3:',
+    '.half 0xff0',
+    'tdat4:',
+    '.half 0xf00f',
+  ]),
+  lhu: testProgram([
+    ldOp(2, 'lhu', 0x000000ff, 0, 'tdat'),
+    ldOp(3, 'lhu', 0x0000ff00, 2, 'tdat'),
+    ldOp(4, 'lhu', 0x00000ff0, 4, 'tdat'),
+    ldOp(5, 'lhu', 0x0000f00f, 6, 'tdat'),
+    ldOp(6, 'lhu', 0x000000ff, -6, 'tdat4'),
+    ldOp(7, 'lhu', 0x0000ff00, -4, 'tdat4'),
+    ldOp(8, 'lhu', 0x00000ff0, -2, 'tdat4'),
+    ldOp(9, 'lhu', 0x0000f00f, 0, 'tdat4'),
+    testCase(10, 'x5', 0x000000ff, ['la x1, tdat', 'addi x1, x1, -32', 'lhu x5, 32(x1)']),
+    testCase(11, 'x5', 0x0000ff00, ['la x1, tdat', 'addi x1, x1, -3', 'lhu x5, 5(x1)']),
+    ldDestBypass(12, 0, 'lhu', 0x00000ff0, 2, 'tdat2'),
+    ldDestBypass(13, 1, 'lhu', 0x0000f00f, 2, 'tdat3'),
+    ldDestBypass(14, 2, 'lhu', 0x0000ff00, 2, 'tdat1'),
+    ldSrc1Bypass(15, 0, 'lhu', 0x00000ff0, 2, 'tdat2'),
+    ldSrc1Bypass(16, 1, 'lhu', 0x0000f00f, 2, 'tdat3'),
+    ldSrc1Bypass(17, 2, 'lhu', 0x0000ff00, 2, 'tdat1'),
+    testCase(18, 'x2', 2, ['la x5, tdat', 'lhu x2, 0(x5)', 'li x2, 2']),
+    testCase(19, 'x2', 2, ['la x5, tdat', 'lhu x2, 0(x5)', 'nop', 'li x2, 2']),
+  ], [
+    'tdat:',
+    'tdat1:',
+    '.half 0xff',
+    'tdat2:',
+    '.half 0xff00',
+    'tdat3:',
+    '.half 0xff0',
+    'tdat4:',
+    '.half 0xf00f',
+  ]),
+  lui: testProgram([
+    testCase(2, 'x1', 0x00000000, ['lui x1, 0x00000']),
+    testCase(3, 'x1', 0xfffff800, ['lui x1, 0xfffff', 'srai x1, x1, 1']),
+    testCase(4, 'x1', 0x000007ff, ['lui x1, 0x7ffff', 'srai x1, x1, 20']),
+    testCase(5, 'x1', 0xfffff800, ['lui x1, 0x80000', 'srai x1, x1, 20']),
+    testCase(6, 'x0', 0, ['lui x0, 0x80000']),
+  ]),
+  lw: testProgram([
+    ldOp(2, 'lw', 0x00ff00ff, 0, 'tdat'),
+    ldOp(3, 'lw', 0xff00ff00, 4, 'tdat'),
+    ldOp(4, 'lw', 0x0ff00ff0, 8, 'tdat'),
+    ldOp(5, 'lw', 0xf00ff00f, 12, 'tdat'),
+    ldOp(6, 'lw', 0x00ff00ff, -12, 'tdat4'),
+    ldOp(7, 'lw', 0xff00ff00, -8, 'tdat4'),
+    ldOp(8, 'lw', 0x0ff00ff0, -4, 'tdat4'),
+    ldOp(9, 'lw', 0xf00ff00f, 0, 'tdat4'),
+    testCase(10, 'x5', 0x00ff00ff, ['la x1, tdat', 'addi x1, x1, -32', 'lw x5, 32(x1)']),
+    testCase(11, 'x5', 0xff00ff00, ['la x1, tdat', 'addi x1, x1, -3', 'lw x5, 7(x1)']),
+    ldDestBypass(12, 0, 'lw', 0x0ff00ff0, 4, 'tdat2'),
+    ldDestBypass(13, 1, 'lw', 0xf00ff00f, 4, 'tdat3'),
+    ldDestBypass(14, 2, 'lw', 0xff00ff00, 4, 'tdat1'),
+    ldSrc1Bypass(15, 0, 'lw', 0x0ff00ff0, 4, 'tdat2'),
+    ldSrc1Bypass(16, 1, 'lw', 0xf00ff00f, 4, 'tdat3'),
+    ldSrc1Bypass(17, 2, 'lw', 0xff00ff00, 4, 'tdat1'),
+    testCase(18, 'x2', 2, ['la x5, tdat', 'lw x2, 0(x5)', 'li x2, 2']),
+    testCase(19, 'x2', 2, ['la x5, tdat', 'lw x2, 0(x5)', 'nop', 'li x2, 2']),
+  ], [
+    'tdat:',
+    'tdat1:',
+    '.word 0x00ff00ff',
+    'tdat2:',
+    '.word 0xff00ff00',
+    'tdat3:',
+    '.word 0x0ff00ff0',
+    'tdat4:',
+    '.word 0xf00ff00f',
+  ]),
+  or: testProgram([
+    rrOp(2, 'or', 0xff0fff0f, 0xff00ff00, 0x0f0f0f0f),
+    rrOp(3, 'or', 0xfff0fff0, 0x0ff00ff0, 0xf0f0f0f0),
+    rrOp(4, 'or', 0x0fff0fff, 0x00ff00ff, 0x0f0f0f0f),
+    rrOp(5, 'or', 0xf0fff0ff, 0xf00ff00f, 0xf0f0f0f0),
+    rrSrc1EqDest(6, 'or', 0xff0fff0f, 0xff00ff00, 0x0f0f0f0f),
+    rrSrc2EqDest(7, 'or', 0xff0fff0f, 0xff00ff01, 0x0f0f0f0f),
+    rrSrc12EqDest(8, 'or', 0xff00ff00, 0xff00ff00),
+    rrDestBypass(9, 0, 'or', 0xff0fff0f, 0xff00ff00, 0x0f0f0f0f),
+    rrDestBypass(10, 1, 'or', 0xff0fff0f, 0xff00ff01, 0x0f0f0f0f),
+    rrDestBypass(11, 2, 'or', 0xff0fff0f, 0xff00ff02, 0x0f0f0f0f),
+    rrSrc12Bypass(12, 0, 0, 'or', 0xff0fff0f, 0xff00ff00, 0x0f0f0f0f),
+    rrSrc12Bypass(13, 0, 1, 'or', 0xff0fff0f, 0xff00ff00, 0x0f0f0f0f),
+    rrSrc12Bypass(14, 0, 2, 'or', 0xff0fff0f, 0xff00ff00, 0x0f0f0f0f),
+    rrSrc12Bypass(15, 1, 0, 'or', 0xff0fff0f, 0xff00ff00, 0x0f0f0f0f),
+    rrSrc12Bypass(16, 1, 1, 'or', 0xff0fff0f, 0xff00ff00, 0x0f0f0f0f),
+    rrSrc12Bypass(17, 2, 0, 'or', 0xff0fff0f, 0xff00ff00, 0x0f0f0f0f),
+    rrSrc21Bypass(18, 0, 0, 'or', 0xff0fff0f, 0xff00ff00, 0x0f0f0f0f),
+    rrSrc21Bypass(19, 0, 1, 'or', 0xff0fff0f, 0xff00ff00, 0x0f0f0f0f),
+    rrSrc21Bypass(20, 0, 2, 'or', 0xff0fff0f, 0xff00ff00, 0x0f0f0f0f),
+    rrSrc21Bypass(21, 1, 0, 'or', 0xff0fff0f, 0xff00ff00, 0x0f0f0f0f),
+    rrSrc21Bypass(22, 1, 1, 'or', 0xff0fff0f, 0xff00ff00, 0x0f0f0f0f),
+    rrSrc21Bypass(23, 2, 0, 'or', 0xff0fff0f, 0xff00ff00, 0x0f0f0f0f),
+    rrZeroSrc1(24, 'or', 0x0000000f, 15),
+    rrZeroSrc2(25, 'or', 0x00000020, 32),
+    rrZeroSrc12(26, 'or', 0x00000000),
+    rrZeroDest(27, 'or', 16, 30),
+  ]),
+  ori: testProgram([
+    immOp(2, 'ori', 0xffffff0f, 0xff00ff00, -241),
+    immOp(3, 'ori', 0x0ff00ff0, 0x0ff00ff0, 240),
+    immOp(4, 'ori', 0x00ff07ff, 0x00ff00ff, 1807),
+    immOp(5, 'ori', 0xf00ff0ff, 0xf00ff00f, 240),
+    immSrc1EqDest(6, 'ori', 0xff00fff0, 0xff00ff00, 240),
+    immDestBypass(7, 0, 'ori', 0xff00fff0, 0xff00ff00, 240),
+    immDestBypass(8, 1, 'ori', 0xff00fff1, 0xff00ff01, 240),
+    immDestBypass(9, 2, 'ori', 0xff00fff2, 0xff00ff02, 240),
+    immSrc1Bypass(10, 0, 'ori', 0xff00fff0, 0xff00ff00, 240),
+    immSrc1Bypass(11, 1, 'ori', 0xff00fff1, 0xff00ff01, 240),
+    immSrc1Bypass(12, 2, 'ori', 0xff00fff2, 0xff00ff02, 240),
+    immZeroSrc1(13, 'ori', 0x00000020, 32),
+    immZeroDest(14, 'ori', 0x00000021, 32),
+  ]),
+  sb: testProgram([
+    stOp(2, 'lb', 'sb', 0xffffffaa, 0, 'tdat'),
+    stOp(3, 'lb', 'sb', 0x00000000, 1, 'tdat'),
+    stOp(4, 'lh', 'sb', 0xffffefa0, 2, 'tdat'),
+    stOp(5, 'lb', 'sb', 0x0000000a, 3, 'tdat'),
+    stOp(6, 'lb', 'sb', 0xffffffaa, -3, 'tdat8'),
+    stOp(7, 'lb', 'sb', 0x00000000, -2, 'tdat8'),
+    stOp(8, 'lb', 'sb', 0xffffffa0, -1, 'tdat8'),
+    stOp(9, 'lb', 'sb', 0x0000000a, 0, 'tdat8'),
+    testCase(10, 'x5', 0x00000078, ['la x1, tdat9', 'li x2, 0x00000078', 'addi x4, x1, -32', 'sb x2, 32(x4)', 'lb x5, 0(x1)']),
+    testCase(11, 'x5', 0xffffff98, ['la x1, tdat9', 'li x2, 0xffffff98', 'addi x1, x1, -3', 'sb x2, 4(x1)', 'la x4, tdat10', 'lb x5, 0(x4)']),
+    stSrc12Bypass(12, 0, 0, 'lb', 'sb', 0xffffffdd, 0, 'tdat'),
+    stSrc12Bypass(13, 0, 1, 'lb', 'sb', 0xffffffcd, 1, 'tdat'),
+    stSrc12Bypass(14, 0, 2, 'lb', 'sb', 0xffffffcc, 2, 'tdat'),
+    stSrc12Bypass(15, 1, 0, 'lb', 'sb', 0xffffffbc, 3, 'tdat'),
+    stSrc12Bypass(16, 1, 1, 'lb', 'sb', 0xffffffbb, 4, 'tdat'),
+    stSrc12Bypass(17, 2, 0, 'lb', 'sb', 0xffffffab, 5, 'tdat'),
+  ], [
+    'tdat:',
+    'tdat1:',
+    '.byte 0xef',
+    'tdat2:',
+    '.byte 0xef',
+    'tdat3:',
+    '.byte 0xef',
+    'tdat4:',
+    '.byte 0xef',
+    'tdat5:',
+    '.byte 0xef',
+    'tdat6:',
+    '.byte 0xef',
+    'tdat7:',
+    '.byte 0xef',
+    'tdat8:',
+    '.byte 0xef',
+    'tdat9:',
+    '.byte 0xef',
+    'tdat10:',
+    '.byte 0xef',
+  ]),
+  sh: testProgram([
+    stOp(2, 'lh', 'sh', 0x000000aa, 0, 'tdat'),
+    stOp(3, 'lh', 'sh', 0xffffaa00, 2, 'tdat'),
+    stOp(4, 'lw', 'sh', 0xbeef0aa0, 4, 'tdat'),
+    stOp(5, 'lh', 'sh', 0xffffa00a, 6, 'tdat'),
+    stOp(6, 'lh', 'sh', 0x000000aa, -6, 'tdat8'),
+    stOp(7, 'lh', 'sh', 0xffffaa00, -4, 'tdat8'),
+    stOp(8, 'lh', 'sh', 0x00000aa0, -2, 'tdat8'),
+    stOp(9, 'lh', 'sh', 0xffffa00a, 0, 'tdat8'),
+    testCase(10, 'x5', 0x00005678, ['la x1, tdat9', 'li x2, 0x00005678', 'addi x4, x1, -32', 'sh x2, 32(x4)', 'lh x5, 0(x1)']),
+    testCase(11, 'x5', 0x00003098, ['la x1, tdat9', 'li x2, 0x00003098', 'addi x1, x1, -3', 'sh x2, 5(x1)', 'la x4, tdat10', 'lh x5, 0(x4)']),
+    stSrc12Bypass(12, 0, 0, 'lh', 'sh', 0xffffccdd, 0, 'tdat'),
+    stSrc12Bypass(13, 0, 1, 'lh', 'sh', 0xffffbccd, 2, 'tdat'),
+    stSrc12Bypass(14, 0, 2, 'lh', 'sh', 0xffffbbcc, 4, 'tdat'),
+    stSrc12Bypass(15, 1, 0, 'lh', 'sh', 0xffffabbc, 6, 'tdat'),
+    stSrc12Bypass(16, 1, 1, 'lh', 'sh', 0xffffaabb, 8, 'tdat'),
+    stSrc12Bypass(17, 2, 0, 'lh', 'sh', 0xffffdaab, 10, 'tdat'),
+  ], [
+    'tdat:',
+    'tdat1:',
+    '.half 0xbeef',
+    'tdat2:',
+    '.half 0xbeef',
+    'tdat3:',
+    '.half 0xbeef',
+    'tdat4:',
+    '.half 0xbeef',
+    'tdat5:',
+    '.half 0xbeef',
+    'tdat6:',
+    '.half 0xbeef',
+    'tdat7:',
+    '.half 0xbeef',
+    'tdat8:',
+    '.half 0xbeef',
+    'tdat9:',
+    '.half 0xbeef',
+    'tdat10:',
+    '.half 0xbeef',
+  ]),
+  simple: testProgram(['  j pass']),
+  sll: testProgram([
+    rrOp(2, 'sll', 0x00000001, 0x00000001, 0x00000000),
+    rrOp(3, 'sll', 0x00000002, 0x00000001, 0x00000001),
+    rrOp(4, 'sll', 0x00000080, 0x00000001, 0x00000007),
+    rrOp(5, 'sll', 0x00004000, 0x00000001, 0x0000000e),
+    rrOp(6, 'sll', 0x80000000, 0x00000001, 0x0000001f),
+    rrOp(7, 'sll', 0xffffffff, 0xffffffff, 0x00000000),
+    rrOp(8, 'sll', 0xfffffffe, 0xffffffff, 0x00000001),
+    rrOp(9, 'sll', 0xffffff80, 0xffffffff, 0x00000007),
+    rrOp(10, 'sll', 0xffffc000, 0xffffffff, 0x0000000e),
+    rrOp(11, 'sll', 0x80000000, 0xffffffff, 0x0000001f),
+    rrOp(12, 'sll', 0x21212121, 0x21212121, 0x00000000),
+    rrOp(13, 'sll', 0x42424242, 0x21212121, 0x00000001),
+    rrOp(14, 'sll', 0x90909080, 0x21212121, 0x00000007),
+    rrOp(15, 'sll', 0x48484000, 0x21212121, 0x0000000e),
+    rrOp(16, 'sll', 0x80000000, 0x21212121, 0x0000001f),
+    rrOp(17, 'sll', 0x21212121, 0x21212121, 0xffffffc0),
+    rrOp(18, 'sll', 0x42424242, 0x21212121, 0xffffffc1),
+    rrOp(19, 'sll', 0x90909080, 0x21212121, 0xffffffc7),
+    rrOp(20, 'sll', 0x48484000, 0x21212121, 0xffffffce),
+    rrOp(21, 'sll', 0x80000000, 0x21212121, 0xffffffff),
+    rrSrc1EqDest(22, 'sll', 0x00000080, 0x00000001, 0x00000007),
+    rrSrc2EqDest(23, 'sll', 0x00000100, 0x00000002, 0x00000007),
+    rrSrc12EqDest(24, 'sll', 0x00000002, 0x00000001),
+    rrDestBypass(25, 0, 'sll', 0x00000080, 0x00000001, 0x00000007),
+    rrDestBypass(26, 1, 'sll', 0x00000100, 0x00000002, 0x00000007),
+    rrDestBypass(27, 2, 'sll', 0x00000180, 0x00000003, 0x00000007),
+    rrSrc12Bypass(28, 0, 0, 'sll', 0x00000080, 0x00000001, 0x00000007),
+    rrSrc12Bypass(29, 0, 1, 'sll', 0x00000080, 0x00000001, 0x00000007),
+    rrSrc12Bypass(30, 0, 2, 'sll', 0x00000080, 0x00000001, 0x00000007),
+    rrSrc12Bypass(31, 1, 0, 'sll', 0x00000080, 0x00000001, 0x00000007),
+    rrSrc12Bypass(32, 1, 1, 'sll', 0x00000080, 0x00000001, 0x00000007),
+    rrSrc12Bypass(33, 2, 0, 'sll', 0x00000080, 0x00000001, 0x00000007),
+    rrSrc21Bypass(34, 0, 0, 'sll', 0x00000080, 0x00000001, 0x00000007),
+    rrSrc21Bypass(35, 0, 1, 'sll', 0x00000080, 0x00000001, 0x00000007),
+    rrSrc21Bypass(36, 0, 2, 'sll', 0x00000080, 0x00000001, 0x00000007),
+    rrSrc21Bypass(37, 1, 0, 'sll', 0x00000080, 0x00000001, 0x00000007),
+    rrSrc21Bypass(38, 1, 1, 'sll', 0x00000080, 0x00000001, 0x00000007),
+    rrSrc21Bypass(39, 2, 0, 'sll', 0x00000080, 0x00000001, 0x00000007),
+    rrZeroSrc1(40, 'sll', 0x00000000, 15),
+    rrZeroSrc2(41, 'sll', 0x00000020, 32),
+    rrZeroSrc12(42, 'sll', 0x00000000),
+    rrZeroDest(43, 'sll', 16, 30),
+  ]),
+  slli: testProgram([
+    immOp(2, 'slli', 0x00000001, 0x00000001, 0),
+    immOp(3, 'slli', 0x00000002, 0x00000001, 1),
+    immOp(4, 'slli', 0x00000080, 0x00000001, 7),
+    immOp(5, 'slli', 0x00004000, 0x00000001, 14),
+    immOp(6, 'slli', 0x80000000, 0x00000001, 31),
+    immOp(7, 'slli', 0xffffffff, 0xffffffff, 0),
+    immOp(8, 'slli', 0xfffffffe, 0xffffffff, 1),
+    immOp(9, 'slli', 0xffffff80, 0xffffffff, 7),
+    immOp(10, 'slli', 0xffffc000, 0xffffffff, 14),
+    immOp(11, 'slli', 0x80000000, 0xffffffff, 31),
+    immOp(12, 'slli', 0x21212121, 0x21212121, 0),
+    immOp(13, 'slli', 0x42424242, 0x21212121, 1),
+    immOp(14, 'slli', 0x90909080, 0x21212121, 7),
+    immOp(15, 'slli', 0x48484000, 0x21212121, 14),
+    immOp(16, 'slli', 0x80000000, 0x21212121, 31),
+    immSrc1EqDest(17, 'slli', 0x00000080, 0x00000001, 7),
+    immDestBypass(18, 0, 'slli', 0x00000080, 0x00000001, 7),
+    immDestBypass(19, 1, 'slli', 0x00000100, 0x00000002, 7),
+    immDestBypass(20, 2, 'slli', 0x00000180, 0x00000003, 7),
+    immSrc1Bypass(21, 0, 'slli', 0x00000080, 0x00000001, 7),
+    immSrc1Bypass(22, 1, 'slli', 0x00000100, 0x00000002, 7),
+    immSrc1Bypass(23, 2, 'slli', 0x00000180, 0x00000003, 7),
+    immZeroSrc1(24, 'slli', 0x00000000, 31),
+    immZeroDest(25, 'slli', 0x00000021, 31),
+  ]),
+  slt: testProgram([
+    rrOp(2, 'slt', 0x00000000, 0x00000000, 0x00000000),
+    rrOp(3, 'slt', 0x00000000, 0x00000001, 0x00000001),
+    rrOp(4, 'slt', 0x00000001, 0x00000003, 0x00000007),
+    rrOp(5, 'slt', 0x00000000, 0x00000007, 0x00000003),
+    rrOp(6, 'slt', 0x00000000, 0x00000000, 0xffff8000),
+    rrOp(7, 'slt', 0x00000001, 0x80000000, 0x00000000),
+    rrOp(8, 'slt', 0x00000001, 0x80000000, 0xffff8000),
+    rrOp(9, 'slt', 0x00000001, 0x00000000, 0x00007fff),
+    rrOp(10, 'slt', 0x00000000, 0x7fffffff, 0x00000000),
+    rrOp(11, 'slt', 0x00000000, 0x7fffffff, 0x00007fff),
+    rrOp(12, 'slt', 0x00000001, 0x80000000, 0x00007fff),
+    rrOp(13, 'slt', 0x00000000, 0x7fffffff, 0xffff8000),
+    rrOp(14, 'slt', 0x00000000, 0x00000000, 0xffffffff),
+    rrOp(15, 'slt', 0x00000001, 0xffffffff, 0x00000001),
+    rrOp(16, 'slt', 0x00000000, 0xffffffff, 0xffffffff),
+    rrSrc1EqDest(17, 'slt', 0x00000000, 0x0000000e, 0x0000000d),
+    rrSrc2EqDest(18, 'slt', 0x00000000, 0x0000000f, 0x0000000d),
+    rrSrc12EqDest(19, 'slt', 0x00000000, 0x0000000e),
+    rrDestBypass(20, 0, 'slt', 0x00000000, 0x0000000e, 0x0000000d),
+    rrDestBypass(21, 1, 'slt', 0x00000000, 0x0000000f, 0x0000000d),
+    rrDestBypass(22, 2, 'slt', 0x00000000, 0x00000010, 0x0000000d),
+    rrSrc12Bypass(23, 0, 0, 'slt', 0x00000000, 0x0000000e, 0x0000000d),
+    rrSrc12Bypass(24, 0, 1, 'slt', 0x00000000, 0x0000000e, 0x0000000d),
+    rrSrc12Bypass(25, 0, 2, 'slt', 0x00000000, 0x0000000e, 0x0000000d),
+    rrSrc12Bypass(26, 1, 0, 'slt', 0x00000000, 0x0000000e, 0x0000000d),
+    rrSrc12Bypass(27, 1, 1, 'slt', 0x00000000, 0x0000000e, 0x0000000d),
+    rrSrc12Bypass(28, 2, 0, 'slt', 0x00000000, 0x0000000e, 0x0000000d),
+    rrSrc21Bypass(29, 0, 0, 'slt', 0x00000000, 0x0000000e, 0x0000000d),
+    rrSrc21Bypass(30, 0, 1, 'slt', 0x00000000, 0x0000000e, 0x0000000d),
+    rrSrc21Bypass(31, 0, 2, 'slt', 0x00000000, 0x0000000e, 0x0000000d),
+    rrSrc21Bypass(32, 1, 0, 'slt', 0x00000000, 0x0000000e, 0x0000000d),
+    rrSrc21Bypass(33, 1, 1, 'slt', 0x00000000, 0x0000000e, 0x0000000d),
+    rrSrc21Bypass(34, 2, 0, 'slt', 0x00000000, 0x0000000e, 0x0000000d),
+    rrZeroSrc1(35, 'slt', 0x00000001, 15),
+    rrZeroSrc2(36, 'slt', 0x00000000, 32),
+    rrZeroSrc12(37, 'slt', 0x00000000),
+    rrZeroDest(38, 'slt', 16, 30),
+  ]),
+  slti: testProgram([
+    immOp(2, 'slti', 0x00000000, 0x00000000, 0),
+    immOp(3, 'slti', 0x00000000, 0x00000001, 1),
+    immOp(4, 'slti', 0x00000001, 0x00000003, 7),
+    immOp(5, 'slti', 0x00000000, 0x00000007, 3),
+    immOp(6, 'slti', 0x00000000, 0x00000000, -2048),
+    immOp(7, 'slti', 0x00000001, 0x80000000, 0),
+    immOp(8, 'slti', 0x00000001, 0x80000000, -2048),
+    immOp(9, 'slti', 0x00000001, 0x00000000, 2047),
+    immOp(10, 'slti', 0x00000000, 0x7fffffff, 0),
+    immOp(11, 'slti', 0x00000000, 0x7fffffff, 2047),
+    immOp(12, 'slti', 0x00000001, 0x80000000, 2047),
+    immOp(13, 'slti', 0x00000000, 0x7fffffff, -2048),
+    immOp(14, 'slti', 0x00000000, 0x00000000, -1),
+    immOp(15, 'slti', 0x00000001, 0xffffffff, 1),
+    immOp(16, 'slti', 0x00000000, 0xffffffff, -1),
+    immOp(17, 'slti', 0x00000000, 0x7fffffff, 1),
+    immSrc1EqDest(18, 'slti', 0x00000001, 0x0000000b, 13),
+    immDestBypass(19, 0, 'slti', 0x00000001, 0x0000000b, 13),
+    immDestBypass(20, 1, 'slti', 0x00000001, 0x0000000c, 13),
+    immDestBypass(21, 2, 'slti', 0x00000000, 0x0000000d, 13),
+    immSrc1Bypass(22, 0, 'slti', 0x00000001, 0x0000000b, 13),
+    immSrc1Bypass(23, 1, 'slti', 0x00000001, 0x0000000c, 13),
+    immSrc1Bypass(24, 2, 'slti', 0x00000000, 0x0000000d, 13),
+    immZeroSrc1(25, 'slti', 0x00000001, 32),
+    immZeroDest(26, 'slti', 0x00000021, 32),
+  ]),
+  sltiu: testProgram([
+    immOp(2, 'sltiu', 0x00000000, 0x00000000, 0),
+    immOp(3, 'sltiu', 0x00000000, 0x00000001, 1),
+    immOp(4, 'sltiu', 0x00000001, 0x00000003, 7),
+    immOp(5, 'sltiu', 0x00000000, 0x00000007, 3),
+    immOp(6, 'sltiu', 0x00000001, 0x00000000, -2048),
+    immOp(7, 'sltiu', 0x00000000, 0x80000000, 0),
+    immOp(8, 'sltiu', 0x00000001, 0x80000000, -2048),
+    immOp(9, 'sltiu', 0x00000001, 0x00000000, 2047),
+    immOp(10, 'sltiu', 0x00000000, 0x7fffffff, 0),
+    immOp(11, 'sltiu', 0x00000000, 0x7fffffff, 2047),
+    immOp(12, 'sltiu', 0x00000000, 0x80000000, 2047),
+    immOp(13, 'sltiu', 0x00000001, 0x7fffffff, -2048),
+    immOp(14, 'sltiu', 0x00000001, 0x00000000, -1),
+    immOp(15, 'sltiu', 0x00000000, 0xffffffff, 1),
+    immOp(16, 'sltiu', 0x00000000, 0xffffffff, -1),
+    immOp(17, 'sltiu', 0x00000000, 0x7fffffff, 1),
+    immSrc1EqDest(18, 'sltiu', 0x00000001, 0x0000000b, 13),
+    immDestBypass(19, 0, 'sltiu', 0x00000001, 0x0000000b, 13),
+    immDestBypass(20, 1, 'sltiu', 0x00000001, 0x0000000c, 13),
+    immDestBypass(21, 2, 'sltiu', 0x00000000, 0x0000000d, 13),
+    immSrc1Bypass(22, 0, 'sltiu', 0x00000001, 0x0000000b, 13),
+    immSrc1Bypass(23, 1, 'sltiu', 0x00000001, 0x0000000c, 13),
+    immSrc1Bypass(24, 2, 'sltiu', 0x00000000, 0x0000000d, 13),
+    immZeroSrc1(25, 'sltiu', 0x00000001, 32),
+    immZeroDest(26, 'sltiu', 0x00000021, 32),
+  ]),
+  sltu: testProgram([
+    rrOp(2, 'sltu', 0x00000000, 0x00000000, 0x00000000),
+    rrOp(3, 'sltu', 0x00000000, 0x00000001, 0x00000001),
+    rrOp(4, 'sltu', 0x00000001, 0x00000003, 0x00000007),
+    rrOp(5, 'sltu', 0x00000000, 0x00000007, 0x00000003),
+    rrOp(6, 'sltu', 0x00000001, 0x00000000, 0xffff8000),
+    rrOp(7, 'sltu', 0x00000000, 0x80000000, 0x00000000),
+    rrOp(8, 'sltu', 0x00000001, 0x80000000, 0xffff8000),
+    rrOp(9, 'sltu', 0x00000001, 0x00000000, 0x00007fff),
+    rrOp(10, 'sltu', 0x00000000, 0x7fffffff, 0x00000000),
+    rrOp(11, 'sltu', 0x00000000, 0x7fffffff, 0x00007fff),
+    rrOp(12, 'sltu', 0x00000000, 0x80000000, 0x00007fff),
+    rrOp(13, 'sltu', 0x00000001, 0x7fffffff, 0xffff8000),
+    rrOp(14, 'sltu', 0x00000001, 0x00000000, 0xffffffff),
+    rrOp(15, 'sltu', 0x00000000, 0xffffffff, 0x00000001),
+    rrOp(16, 'sltu', 0x00000000, 0xffffffff, 0xffffffff),
+    rrSrc1EqDest(17, 'sltu', 0x00000000, 0x0000000e, 0x0000000d),
+    rrSrc2EqDest(18, 'sltu', 0x00000000, 0x0000000f, 0x0000000d),
+    rrSrc12EqDest(19, 'sltu', 0x00000000, 0x0000000e),
+    rrDestBypass(20, 0, 'sltu', 0x00000000, 0x0000000e, 0x0000000d),
+    rrDestBypass(21, 1, 'sltu', 0x00000000, 0x0000000f, 0x0000000d),
+    rrDestBypass(22, 2, 'sltu', 0x00000000, 0x00000010, 0x0000000d),
+    rrSrc12Bypass(23, 0, 0, 'sltu', 0x00000000, 0x0000000e, 0x0000000d),
+    rrSrc12Bypass(24, 0, 1, 'sltu', 0x00000000, 0x0000000e, 0x0000000d),
+    rrSrc12Bypass(25, 0, 2, 'sltu', 0x00000000, 0x0000000e, 0x0000000d),
+    rrSrc12Bypass(26, 1, 0, 'sltu', 0x00000000, 0x0000000e, 0x0000000d),
+    rrSrc12Bypass(27, 1, 1, 'sltu', 0x00000000, 0x0000000e, 0x0000000d),
+    rrSrc12Bypass(28, 2, 0, 'sltu', 0x00000000, 0x0000000e, 0x0000000d),
+    rrSrc21Bypass(29, 0, 0, 'sltu', 0x00000000, 0x0000000e, 0x0000000d),
+    rrSrc21Bypass(30, 0, 1, 'sltu', 0x00000000, 0x0000000e, 0x0000000d),
+    rrSrc21Bypass(31, 0, 2, 'sltu', 0x00000000, 0x0000000e, 0x0000000d),
+    rrSrc21Bypass(32, 1, 0, 'sltu', 0x00000000, 0x0000000e, 0x0000000d),
+    rrSrc21Bypass(33, 1, 1, 'sltu', 0x00000000, 0x0000000e, 0x0000000d),
+    rrSrc21Bypass(34, 2, 0, 'sltu', 0x00000000, 0x0000000e, 0x0000000d),
+    rrZeroSrc1(35, 'sltu', 0x00000001, 15),
+    rrZeroSrc2(36, 'sltu', 0x00000000, 32),
+    rrZeroSrc12(37, 'sltu', 0x00000000),
+    rrZeroDest(38, 'sltu', 16, 30),
+  ]),
+  sra: testProgram([
+    rrOp(2, 'sra', 0x80000000, 0x80000000, 0x00000000),
+    rrOp(3, 'sra', 0xc0000000, 0x80000000, 0x00000001),
+    rrOp(4, 'sra', 0xff000000, 0x80000000, 0x00000007),
+    rrOp(5, 'sra', 0xfffe0000, 0x80000000, 0x0000000e),
+    rrOp(6, 'sra', 0xffffffff, 0x80000000, 0x0000001f),
+    rrOp(7, 'sra', 0x7fffffff, 0x7fffffff, 0x00000000),
+    rrOp(8, 'sra', 0x3fffffff, 0x7fffffff, 0x00000001),
+    rrOp(9, 'sra', 0x00ffffff, 0x7fffffff, 0x00000007),
+    rrOp(10, 'sra', 0x0001ffff, 0x7fffffff, 0x0000000e),
+    rrOp(11, 'sra', 0x00000000, 0x7fffffff, 0x0000001f),
+    rrOp(12, 'sra', 0x81818181, 0x81818181, 0x00000000),
+    rrOp(13, 'sra', 0xc0c0c0c0, 0x81818181, 0x00000001),
+    rrOp(14, 'sra', 0xff030303, 0x81818181, 0x00000007),
+    rrOp(15, 'sra', 0xfffe0606, 0x81818181, 0x0000000e),
+    rrOp(16, 'sra', 0xffffffff, 0x81818181, 0x0000001f),
+    rrOp(17, 'sra', 0x81818181, 0x81818181, 0xffffffc0),
+    rrOp(18, 'sra', 0xc0c0c0c0, 0x81818181, 0xffffffc1),
+    rrOp(19, 'sra', 0xff030303, 0x81818181, 0xffffffc7),
+    rrOp(20, 'sra', 0xfffe0606, 0x81818181, 0xffffffce),
+    rrOp(21, 'sra', 0xffffffff, 0x81818181, 0xffffffff),
+    rrSrc1EqDest(22, 'sra', 0xff000000, 0x80000000, 0x00000007),
+    rrSrc2EqDest(23, 'sra', 0xff000000, 0x80000001, 0x00000007),
+    rrSrc12EqDest(24, 'sra', 0x80000000, 0x80000000),
+    rrDestBypass(25, 0, 'sra', 0xff000000, 0x80000000, 0x00000007),
+    rrDestBypass(26, 1, 'sra', 0xff000000, 0x80000001, 0x00000007),
+    rrDestBypass(27, 2, 'sra', 0xff000000, 0x80000002, 0x00000007),
+    rrSrc12Bypass(28, 0, 0, 'sra', 0xff000000, 0x80000000, 0x00000007),
+    rrSrc12Bypass(29, 0, 1, 'sra', 0xff000000, 0x80000000, 0x00000007),
+    rrSrc12Bypass(30, 0, 2, 'sra', 0xff000000, 0x80000000, 0x00000007),
+    rrSrc12Bypass(31, 1, 0, 'sra', 0xff000000, 0x80000000, 0x00000007),
+    rrSrc12Bypass(32, 1, 1, 'sra', 0xff000000, 0x80000000, 0x00000007),
+    rrSrc12Bypass(33, 2, 0, 'sra', 0xff000000, 0x80000000, 0x00000007),
+    rrSrc21Bypass(34, 0, 0, 'sra', 0xff000000, 0x80000000, 0x00000007),
+    rrSrc21Bypass(35, 0, 1, 'sra', 0xff000000, 0x80000000, 0x00000007),
+    rrSrc21Bypass(36, 0, 2, 'sra', 0xff000000, 0x80000000, 0x00000007),
+    rrSrc21Bypass(37, 1, 0, 'sra', 0xff000000, 0x80000000, 0x00000007),
+    rrSrc21Bypass(38, 1, 1, 'sra', 0xff000000, 0x80000000, 0x00000007),
+    rrSrc21Bypass(39, 2, 0, 'sra', 0xff000000, 0x80000000, 0x00000007),
+    rrZeroSrc1(40, 'sra', 0x00000000, 15),
+    rrZeroSrc2(41, 'sra', 0x00000020, 32),
+    rrZeroSrc12(42, 'sra', 0x00000000),
+    rrZeroDest(43, 'sra', 16, 30),
+  ]),
+  srai: testProgram([
+    immOp(2, 'srai', 0x80000000, 0x80000000, 0),
+    immOp(3, 'srai', 0xc0000000, 0x80000000, 1),
+    immOp(4, 'srai', 0xff000000, 0x80000000, 7),
+    immOp(5, 'srai', 0xfffe0000, 0x80000000, 14),
+    immOp(6, 'srai', 0xffffffff, 0x80000000, 31),
+    immOp(7, 'srai', 0x7fffffff, 0x7fffffff, 0),
+    immOp(8, 'srai', 0x3fffffff, 0x7fffffff, 1),
+    immOp(9, 'srai', 0x00ffffff, 0x7fffffff, 7),
+    immOp(10, 'srai', 0x0001ffff, 0x7fffffff, 14),
+    immOp(11, 'srai', 0x00000000, 0x7fffffff, 31),
+    immOp(12, 'srai', 0x81818181, 0x81818181, 0),
+    immOp(13, 'srai', 0xc0c0c0c0, 0x81818181, 1),
+    immOp(14, 'srai', 0xff030303, 0x81818181, 7),
+    immOp(15, 'srai', 0xfffe0606, 0x81818181, 14),
+    immOp(16, 'srai', 0xffffffff, 0x81818181, 31),
+    immSrc1EqDest(17, 'srai', 0xff000000, 0x80000000, 7),
+    immDestBypass(18, 0, 'srai', 0xff000000, 0x80000000, 7),
+    immDestBypass(19, 1, 'srai', 0xff000000, 0x80000001, 7),
+    immDestBypass(20, 2, 'srai', 0xff000000, 0x80000002, 7),
+    immSrc1Bypass(21, 0, 'srai', 0xff000000, 0x80000000, 7),
+    immSrc1Bypass(22, 1, 'srai', 0xff000000, 0x80000001, 7),
+    immSrc1Bypass(23, 2, 'srai', 0xff000000, 0x80000002, 7),
+    immZeroSrc1(24, 'srai', 0x00000000, 31),
+    immZeroDest(25, 'srai', 0x00000021, 31),
+  ]),
+  srl: testProgram([
+    rrOp(2, 'srl', 0x80000000, 0x80000000, 0x00000000),
+    rrOp(3, 'srl', 0x40000000, 0x80000000, 0x00000001),
+    rrOp(4, 'srl', 0x01000000, 0x80000000, 0x00000007),
+    rrOp(5, 'srl', 0x00020000, 0x80000000, 0x0000000e),
+    rrOp(6, 'srl', 0x00000001, 0x80000000, 0x0000001f),
+    rrOp(7, 'srl', 0xffffffff, 0xffffffff, 0x00000000),
+    rrOp(8, 'srl', 0x7fffffff, 0xffffffff, 0x00000001),
+    rrOp(9, 'srl', 0x01ffffff, 0xffffffff, 0x00000007),
+    rrOp(10, 'srl', 0x0003ffff, 0xffffffff, 0x0000000e),
+    rrOp(11, 'srl', 0x00000001, 0xffffffff, 0x0000001f),
+    rrOp(12, 'srl', 0x21212121, 0x21212121, 0x00000000),
+    rrOp(13, 'srl', 0x10909090, 0x21212121, 0x00000001),
+    rrOp(14, 'srl', 0x00424242, 0x21212121, 0x00000007),
+    rrOp(15, 'srl', 0x00008484, 0x21212121, 0x0000000e),
+    rrOp(16, 'srl', 0x00000000, 0x21212121, 0x0000001f),
+    rrOp(17, 'srl', 0x21212121, 0x21212121, 0xffffffc0),
+    rrOp(18, 'srl', 0x10909090, 0x21212121, 0xffffffc1),
+    rrOp(19, 'srl', 0x00424242, 0x21212121, 0xffffffc7),
+    rrOp(20, 'srl', 0x00008484, 0x21212121, 0xffffffce),
+    rrOp(21, 'srl', 0x00000000, 0x21212121, 0xffffffff),
+    rrSrc1EqDest(22, 'srl', 0x01000000, 0x80000000, 0x00000007),
+    rrSrc2EqDest(23, 'srl', 0x01000000, 0x80000001, 0x00000007),
+    rrSrc12EqDest(24, 'srl', 0x80000000, 0x80000000),
+    rrDestBypass(25, 0, 'srl', 0x01000000, 0x80000000, 0x00000007),
+    rrDestBypass(26, 1, 'srl', 0x01000000, 0x80000001, 0x00000007),
+    rrDestBypass(27, 2, 'srl', 0x01000000, 0x80000002, 0x00000007),
+    rrSrc12Bypass(28, 0, 0, 'srl', 0x01000000, 0x80000000, 0x00000007),
+    rrSrc12Bypass(29, 0, 1, 'srl', 0x01000000, 0x80000000, 0x00000007),
+    rrSrc12Bypass(30, 0, 2, 'srl', 0x01000000, 0x80000000, 0x00000007),
+    rrSrc12Bypass(31, 1, 0, 'srl', 0x01000000, 0x80000000, 0x00000007),
+    rrSrc12Bypass(32, 1, 1, 'srl', 0x01000000, 0x80000000, 0x00000007),
+    rrSrc12Bypass(33, 2, 0, 'srl', 0x01000000, 0x80000000, 0x00000007),
+    rrSrc21Bypass(34, 0, 0, 'srl', 0x01000000, 0x80000000, 0x00000007),
+    rrSrc21Bypass(35, 0, 1, 'srl', 0x01000000, 0x80000000, 0x00000007),
+    rrSrc21Bypass(36, 0, 2, 'srl', 0x01000000, 0x80000000, 0x00000007),
+    rrSrc21Bypass(37, 1, 0, 'srl', 0x01000000, 0x80000000, 0x00000007),
+    rrSrc21Bypass(38, 1, 1, 'srl', 0x01000000, 0x80000000, 0x00000007),
+    rrSrc21Bypass(39, 2, 0, 'srl', 0x01000000, 0x80000000, 0x00000007),
+    rrZeroSrc1(40, 'srl', 0x00000000, 15),
+    rrZeroSrc2(41, 'srl', 0x00000020, 32),
+    rrZeroSrc12(42, 'srl', 0x00000000),
+    rrZeroDest(43, 'srl', 16, 30),
+  ]),
+  srli: testProgram([
+    immOp(2, 'srli', 0x80000000, 0x80000000, 0),
+    immOp(3, 'srli', 0x40000000, 0x80000000, 1),
+    immOp(4, 'srli', 0x01000000, 0x80000000, 7),
+    immOp(5, 'srli', 0x00020000, 0x80000000, 14),
+    immOp(6, 'srli', 0x00000001, 0x80000000, 31),
+    immOp(7, 'srli', 0xffffffff, 0xffffffff, 0),
+    immOp(8, 'srli', 0x7fffffff, 0xffffffff, 1),
+    immOp(9, 'srli', 0x01ffffff, 0xffffffff, 7),
+    immOp(10, 'srli', 0x0003ffff, 0xffffffff, 14),
+    immOp(11, 'srli', 0x00000001, 0xffffffff, 31),
+    immOp(12, 'srli', 0x21212121, 0x21212121, 0),
+    immOp(13, 'srli', 0x10909090, 0x21212121, 1),
+    immOp(14, 'srli', 0x00424242, 0x21212121, 7),
+    immOp(15, 'srli', 0x00008484, 0x21212121, 14),
+    immOp(16, 'srli', 0x00000000, 0x21212121, 31),
+    immSrc1EqDest(17, 'srli', 0x01000000, 0x80000000, 7),
+    immDestBypass(18, 0, 'srli', 0x01000000, 0x80000000, 7),
+    immDestBypass(19, 1, 'srli', 0x01000000, 0x80000001, 7),
+    immDestBypass(20, 2, 'srli', 0x01000000, 0x80000002, 7),
+    immSrc1Bypass(21, 0, 'srli', 0x01000000, 0x80000000, 7),
+    immSrc1Bypass(22, 1, 'srli', 0x01000000, 0x80000001, 7),
+    immSrc1Bypass(23, 2, 'srli', 0x01000000, 0x80000002, 7),
+    immZeroSrc1(24, 'srli', 0x00000000, 31),
+    immZeroDest(25, 'srli', 0x00000021, 31),
+  ]),
+  sub: testProgram([
+    rrOp(2, 'sub', 0x00000000, 0x00000000, 0x00000000),
+    rrOp(3, 'sub', 0x00000000, 0x00000001, 0x00000001),
+    rrOp(4, 'sub', 0xfffffffc, 0x00000003, 0x00000007),
+    rrOp(5, 'sub', 0x00008000, 0x00000000, 0xffff8000),
+    rrOp(6, 'sub', 0x80000000, 0x80000000, 0x00000000),
+    rrOp(7, 'sub', 0x80008000, 0x80000000, 0xffff8000),
+    rrOp(8, 'sub', 0xffff8001, 0x00000000, 0x00007fff),
+    rrOp(9, 'sub', 0x7fffffff, 0x7fffffff, 0x00000000),
+    rrOp(10, 'sub', 0x7fff8000, 0x7fffffff, 0x00007fff),
+    rrOp(11, 'sub', 0x7fff8001, 0x80000000, 0x00007fff),
+    rrOp(12, 'sub', 0x80007fff, 0x7fffffff, 0xffff8000),
+    rrOp(13, 'sub', 0x00000001, 0x00000000, 0xffffffff),
+    rrOp(14, 'sub', 0xfffffffe, 0xffffffff, 0x00000001),
+    rrOp(15, 'sub', 0x00000000, 0xffffffff, 0xffffffff),
+    rrOp(16, 'sub', 0x80000002, 0x00000001, 0x7fffffff),
+    rrSrc1EqDest(17, 'sub', 0x00000002, 0x0000000d, 0x0000000b),
+    rrSrc2EqDest(18, 'sub', 0x00000003, 0x0000000e, 0x0000000b),
+    rrSrc12EqDest(19, 'sub', 0x00000000, 0x0000000d),
+    rrDestBypass(20, 0, 'sub', 0x00000002, 0x0000000d, 0x0000000b),
+    rrDestBypass(21, 1, 'sub', 0x00000003, 0x0000000e, 0x0000000b),
+    rrDestBypass(22, 2, 'sub', 0x00000004, 0x0000000f, 0x0000000b),
+    rrSrc12Bypass(23, 0, 0, 'sub', 0x00000002, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(24, 0, 1, 'sub', 0x00000002, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(25, 0, 2, 'sub', 0x00000002, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(26, 1, 0, 'sub', 0x00000002, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(27, 1, 1, 'sub', 0x00000002, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(28, 2, 0, 'sub', 0x00000002, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(29, 0, 0, 'sub', 0x00000002, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(30, 0, 1, 'sub', 0x00000002, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(31, 0, 2, 'sub', 0x00000002, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(32, 1, 0, 'sub', 0x00000002, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(33, 1, 1, 'sub', 0x00000002, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(34, 2, 0, 'sub', 0x00000002, 0x0000000d, 0x0000000b),
+    rrZeroSrc1(35, 'sub', 0xfffffff1, 15),
+    rrZeroSrc2(36, 'sub', 0x00000020, 32),
+    rrZeroSrc12(37, 'sub', 0x00000000),
+    rrZeroDest(38, 'sub', 16, 30),
+  ]),
+  sw: testProgram([
+    stOp(2, 'lw', 'sw', 0x00aa00aa, 0, 'tdat'),
+    stOp(3, 'lw', 'sw', 0xaa00aa00, 4, 'tdat'),
+    stOp(4, 'lw', 'sw', 0x0aa00aa0, 8, 'tdat'),
+    stOp(5, 'lw', 'sw', 0xa00aa00a, 12, 'tdat'),
+    stOp(6, 'lw', 'sw', 0x00aa00aa, -12, 'tdat8'),
+    stOp(7, 'lw', 'sw', 0xaa00aa00, -8, 'tdat8'),
+    stOp(8, 'lw', 'sw', 0x0aa00aa0, -4, 'tdat8'),
+    stOp(9, 'lw', 'sw', 0xa00aa00a, 0, 'tdat8'),
+    testCase(10, 'x5', 0x12345678, ['la x1, tdat9', 'li x2, 0x12345678', 'addi x4, x1, -32', 'sw x2, 32(x4)', 'lw x5, 0(x1)']),
+    testCase(11, 'x5', 0x58213098, ['la x1, tdat9', 'li x2, 0x58213098', 'addi x1, x1, -3', 'sw x2, 7(x1)', 'la x4, tdat10', 'lw x5, 0(x4)']),
+    stSrc12Bypass(12, 0, 0, 'lw', 'sw', 0xaabbccdd, 0, 'tdat'),
+    stSrc12Bypass(13, 0, 1, 'lw', 'sw', 0xdaabbccd, 4, 'tdat'),
+    stSrc12Bypass(14, 0, 2, 'lw', 'sw', 0xddaabbcc, 8, 'tdat'),
+    stSrc12Bypass(15, 1, 0, 'lw', 'sw', 0xcddaabbc, 12, 'tdat'),
+    stSrc12Bypass(16, 1, 1, 'lw', 'sw', 0xccddaabb, 16, 'tdat'),
+    stSrc12Bypass(17, 2, 0, 'lw', 'sw', 0xbccddaab, 20, 'tdat'),
+  ], [
+    'tdat:',
+    'tdat1:',
+    '.word 0xdeadbeef',
+    'tdat2:',
+    '.word 0xdeadbeef',
+    'tdat3:',
+    '.word 0xdeadbeef',
+    'tdat4:',
+    '.word 0xdeadbeef',
+    'tdat5:',
+    '.word 0xdeadbeef',
+    'tdat6:',
+    '.word 0xdeadbeef',
+    'tdat7:',
+    '.word 0xdeadbeef',
+    'tdat8:',
+    '.word 0xdeadbeef',
+    'tdat9:',
+    '.word 0xdeadbeef',
+    'tdat10:',
+    '.word 0xdeadbeef',
+  ]),
+  xor: testProgram([
+    rrOp(2, 'xor', 0xf00ff00f, 0xff00ff00, 0x0f0f0f0f),
+    rrOp(3, 'xor', 0xff00ff00, 0x0ff00ff0, 0xf0f0f0f0),
+    rrOp(4, 'xor', 0x0ff00ff0, 0x00ff00ff, 0x0f0f0f0f),
+    rrOp(5, 'xor', 0x00ff00ff, 0xf00ff00f, 0xf0f0f0f0),
+    rrSrc1EqDest(6, 'xor', 0xf00ff00f, 0xff00ff00, 0x0f0f0f0f),
+    rrSrc2EqDest(7, 'xor', 0xf00ff00e, 0xff00ff01, 0x0f0f0f0f),
+    rrSrc12EqDest(8, 'xor', 0x00000000, 0xff00ff00),
+    rrDestBypass(9, 0, 'xor', 0xf00ff00f, 0xff00ff00, 0x0f0f0f0f),
+    rrDestBypass(10, 1, 'xor', 0xf00ff00e, 0xff00ff01, 0x0f0f0f0f),
+    rrDestBypass(11, 2, 'xor', 0xf00ff00d, 0xff00ff02, 0x0f0f0f0f),
+    rrSrc12Bypass(12, 0, 0, 'xor', 0xf00ff00f, 0xff00ff00, 0x0f0f0f0f),
+    rrSrc12Bypass(13, 0, 1, 'xor', 0xf00ff00f, 0xff00ff00, 0x0f0f0f0f),
+    rrSrc12Bypass(14, 0, 2, 'xor', 0xf00ff00f, 0xff00ff00, 0x0f0f0f0f),
+    rrSrc12Bypass(15, 1, 0, 'xor', 0xf00ff00f, 0xff00ff00, 0x0f0f0f0f),
+    rrSrc12Bypass(16, 1, 1, 'xor', 0xf00ff00f, 0xff00ff00, 0x0f0f0f0f),
+    rrSrc12Bypass(17, 2, 0, 'xor', 0xf00ff00f, 0xff00ff00, 0x0f0f0f0f),
+    rrSrc21Bypass(18, 0, 0, 'xor', 0xf00ff00f, 0xff00ff00, 0x0f0f0f0f),
+    rrSrc21Bypass(19, 0, 1, 'xor', 0xf00ff00f, 0xff00ff00, 0x0f0f0f0f),
+    rrSrc21Bypass(20, 0, 2, 'xor', 0xf00ff00f, 0xff00ff00, 0x0f0f0f0f),
+    rrSrc21Bypass(21, 1, 0, 'xor', 0xf00ff00f, 0xff00ff00, 0x0f0f0f0f),
+    rrSrc21Bypass(22, 1, 1, 'xor', 0xf00ff00f, 0xff00ff00, 0x0f0f0f0f),
+    rrSrc21Bypass(23, 2, 0, 'xor', 0xf00ff00f, 0xff00ff00, 0x0f0f0f0f),
+    rrZeroSrc1(24, 'xor', 0x0000000f, 15),
+    rrZeroSrc2(25, 'xor', 0x00000020, 32),
+    rrZeroSrc12(26, 'xor', 0x00000000),
+    rrZeroDest(27, 'xor', 16, 30),
+  ]),
+  xori: testProgram([
+    immOp(2, 'xori', 0x00ff000f, 0xff00ff00, -241),
+    immOp(3, 'xori', 0x0ff00f00, 0x0ff00ff0, 240),
+    immOp(4, 'xori', 0x00ff07f0, 0x00ff00ff, 1807),
+    immOp(5, 'xori', 0xf00ff0ff, 0xf00ff00f, 240),
+    immSrc1EqDest(6, 'xori', 0xff00fff0, 0xff00ff00, 240),
+    immDestBypass(7, 0, 'xori', 0xff00fff0, 0xff00ff00, 240),
+    immDestBypass(8, 1, 'xori', 0xff00fff1, 0xff00ff01, 240),
+    immDestBypass(9, 2, 'xori', 0xff00fff2, 0xff00ff02, 240),
+    immSrc1Bypass(10, 0, 'xori', 0xff00fff0, 0xff00ff00, 240),
+    immSrc1Bypass(11, 1, 'xori', 0xff00fff1, 0xff00ff01, 240),
+    immSrc1Bypass(12, 2, 'xori', 0xff00fff2, 0xff00ff02, 240),
+    immZeroSrc1(13, 'xori', 0x00000020, 32),
+    immZeroDest(14, 'xori', 0x00000021, 32),
+  ]),
+};
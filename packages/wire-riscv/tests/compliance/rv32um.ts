@@ -0,0 +1,336 @@
+/**
+ * rv32um: RV32M multiply and divide tests
+ *
+ * Following riscv-tests isa/rv32um, including division by zero and the
+ * signed overflow case (-2^31 / -1), which must not trap.
+ */
+
+import {
+  rrOp,
+  rrSrc1EqDest,
+  rrSrc2EqDest,
+  rrSrc12EqDest,
+  rrDestBypass,
+  rrSrc12Bypass,
+  rrSrc21Bypass,
+  rrZeroSrc1,
+  rrZeroSrc2,
+  rrZeroSrc12,
+  rrZeroDest,
+  testProgram,
+} from './test-macros.js';
+
+export const RV32UM: Record<string, string> = {
+  div: testProgram([
+    rrOp(2, 'div', 0x00000003, 0x00000014, 0x00000006),
+    rrOp(3, 'div', 0xfffffffd, 0xffffffec, 0x00000006),
+    rrOp(4, 'div', 0xfffffffd, 0x00000014, 0xfffffffa),
+    rrOp(5, 'div', 0x00000003, 0xffffffec, 0xfffffffa),
+    rrOp(6, 'div', 0x80000000, 0x80000000, 0x00000001),
+    rrOp(7, 'div', 0x80000000, 0x80000000, 0xffffffff),
+    rrOp(8, 'div', 0xffffffff, 0x80000000, 0x00000000),
+    rrOp(9, 'div', 0xffffffff, 0x00000001, 0x00000000),
+    rrOp(10, 'div', 0xffffffff, 0x00000000, 0x00000000),
+    rrOp(11, 'div', 0xffffffff, 0xffffffff, 0x00000000),
+    rrOp(12, 'div', 0x80000001, 0x7fffffff, 0xffffffff),
+    rrOp(13, 'div', 0x00000001, 0xffffffff, 0xffffffff),
+    rrOp(14, 'div', 0x3fffffff, 0x7fffffff, 0x00000002),
+    rrSrc1EqDest(15, 'div', 0x00000001, 0x0000000d, 0x0000000b),
+    rrSrc2EqDest(16, 'div', 0x00000001, 0x0000000e, 0x0000000b),
+    rrSrc12EqDest(17, 'div', 0x00000001, 0x0000000d),
+    rrDestBypass(18, 0, 'div', 0x00000001, 0x0000000d, 0x0000000b),
+    rrDestBypass(19, 1, 'div', 0x00000001, 0x0000000e, 0x0000000b),
+    rrDestBypass(20, 2, 'div', 0x00000001, 0x0000000f, 0x0000000b),
+    rrSrc12Bypass(21, 0, 0, 'div', 0x00000001, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(22, 0, 1, 'div', 0x00000001, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(23, 0, 2, 'div', 0x00000001, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(24, 1, 0, 'div', 0x00000001, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(25, 1, 1, 'div', 0x00000001, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(26, 2, 0, 'div', 0x00000001, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(27, 0, 0, 'div', 0x00000001, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(28, 0, 1, 'div', 0x00000001, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(29, 0, 2, 'div', 0x00000001, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(30, 1, 0, 'div', 0x00000001, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(31, 1, 1, 'div', 0x00000001, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(32, 2, 0, 'div', 0x00000001, 0x0000000d, 0x0000000b),
+    rrZeroSrc1(33, 'div', 0x00000000, 15),
+    rrZeroSrc2(34, 'div', 0xffffffff, 32),
+    rrZeroSrc12(35, 'div', 0xffffffff),
+    rrZeroDest(36, 'div', 16, 30),
+  ]),
+  divu: testProgram([
+    rrOp(2, 'divu', 0x00000003, 0x00000014, 0x00000006),
+    rrOp(3, 'divu', 0x2aaaaaa7, 0xffffffec, 0x00000006),
+    rrOp(4, 'divu', 0x00000000, 0x00000014, 0xfffffffa),
+    rrOp(5, 'divu', 0x00000000, 0xffffffec, 0xfffffffa),
+    rrOp(6, 'divu', 0x80000000, 0x80000000, 0x00000001),
+    rrOp(7, 'divu', 0x00000000, 0x80000000, 0xffffffff),
+    rrOp(8, 'divu', 0xffffffff, 0x80000000, 0x00000000),
+    rrOp(9, 'divu', 0xffffffff, 0x00000001, 0x00000000),
+    rrOp(10, 'divu', 0xffffffff, 0x00000000, 0x00000000),
+    rrOp(11, 'divu', 0xffffffff, 0xffffffff, 0x00000000),
+    rrOp(12, 'divu', 0x00000000, 0x7fffffff, 0xffffffff),
+    rrOp(13, 'divu', 0x00000001, 0xffffffff, 0xffffffff),
+    rrOp(14, 'divu', 0x3fffffff, 0x7fffffff, 0x00000002),
+    rrSrc1EqDest(15, 'divu', 0x00000001, 0x0000000d, 0x0000000b),
+    rrSrc2EqDest(16, 'divu', 0x00000001, 0x0000000e, 0x0000000b),
+    rrSrc12EqDest(17, 'divu', 0x00000001, 0x0000000d),
+    rrDestBypass(18, 0, 'divu', 0x00000001, 0x0000000d, 0x0000000b),
+    rrDestBypass(19, 1, 'divu', 0x00000001, 0x0000000e, 0x0000000b),
+    rrDestBypass(20, 2, 'divu', 0x00000001, 0x0000000f, 0x0000000b),
+    rrSrc12Bypass(21, 0, 0, 'divu', 0x00000001, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(22, 0, 1, 'divu', 0x00000001, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(23, 0, 2, 'divu', 0x00000001, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(24, 1, 0, 'divu', 0x00000001, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(25, 1, 1, 'divu', 0x00000001, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(26, 2, 0, 'divu', 0x00000001, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(27, 0, 0, 'divu', 0x00000001, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(28, 0, 1, 'divu', 0x00000001, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(29, 0, 2, 'divu', 0x00000001, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(30, 1, 0, 'divu', 0x00000001, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(31, 1, 1, 'divu', 0x00000001, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(32, 2, 0, 'divu', 0x00000001, 0x0000000d, 0x0000000b),
+    rrZeroSrc1(33, 'divu', 0x00000000, 15),
+    rrZeroSrc2(34, 'divu', 0xffffffff, 32),
+    rrZeroSrc12(35, 'divu', 0xffffffff),
+    rrZeroDest(36, 'divu', 16, 30),
+  ]),
+  mul: testProgram([
+    rrOp(2, 'mul', 0x00001200, 0x00007e00, 0xb6db6db7),
+    rrOp(3, 'mul', 0x00001240, 0x00007fc0, 0xb6db6db7),
+    rrOp(4, 'mul', 0x00000000, 0x00000000, 0x00000000),
+    rrOp(5, 'mul', 0x00000001, 0x00000001, 0x00000001),
+    rrOp(6, 'mul', 0x00000015, 0x00000003, 0x00000007),
+    rrOp(7, 'mul', 0x00000000, 0x00000000, 0xffff8000),
+    rrOp(8, 'mul', 0x00000000, 0x80000000, 0x00000000),
+    rrOp(9, 'mul', 0x00000000, 0x80000000, 0xffff8000),
+    rrOp(10, 'mul', 0x0000ff7f, 0xaaaaaaab, 0x0002fe7d),
+    rrOp(11, 'mul', 0x0000ff7f, 0x0002fe7d, 0xaaaaaaab),
+    rrOp(12, 'mul', 0x00000000, 0xff000000, 0xff000000),
+    rrOp(13, 'mul', 0x00000001, 0xffffffff, 0xffffffff),
+    rrOp(14, 'mul', 0xffffffff, 0xffffffff, 0x00000001),
+    rrOp(15, 'mul', 0xffffffff, 0x00000001, 0xffffffff),
+    rrOp(16, 'mul', 0x00000001, 0x7fffffff, 0x7fffffff),
+    rrOp(17, 'mul', 0x00000000, 0x80000000, 0x80000000),
+    rrOp(18, 'mul', 0x80000000, 0x80000000, 0x7fffffff),
+    rrSrc1EqDest(19, 'mul', 0x0000008f, 0x0000000d, 0x0000000b),
+    rrSrc2EqDest(20, 'mul', 0x0000009a, 0x0000000e, 0x0000000b),
+    rrSrc12EqDest(21, 'mul', 0x000000a9, 0x0000000d),
+    rrDestBypass(22, 0, 'mul', 0x0000008f, 0x0000000d, 0x0000000b),
+    rrDestBypass(23, 1, 'mul', 0x0000009a, 0x0000000e, 0x0000000b),
+    rrDestBypass(24, 2, 'mul', 0x000000a5, 0x0000000f, 0x0000000b),
+    rrSrc12Bypass(25, 0, 0, 'mul', 0x0000008f, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(26, 0, 1, 'mul', 0x0000008f, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(27, 0, 2, 'mul', 0x0000008f, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(28, 1, 0, 'mul', 0x0000008f, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(29, 1, 1, 'mul', 0x0000008f, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(30, 2, 0, 'mul', 0x0000008f, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(31, 0, 0, 'mul', 0x0000008f, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(32, 0, 1, 'mul', 0x0000008f, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(33, 0, 2, 'mul', 0x0000008f, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(34, 1, 0, 'mul', 0x0000008f, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(35, 1, 1, 'mul', 0x0000008f, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(36, 2, 0, 'mul', 0x0000008f, 0x0000000d, 0x0000000b),
+    rrZeroSrc1(37, 'mul', 0x00000000, 15),
+    rrZeroSrc2(38, 'mul', 0x00000000, 32),
+    rrZeroSrc12(39, 'mul', 0x00000000),
+    rrZeroDest(40, 'mul', 16, 30),
+  ]),
+  mulh: testProgram([
+    rrOp(2, 'mulh', 0xffffdc00, 0x00007e00, 0xb6db6db7),
+    rrOp(3, 'mulh', 0xffffdb80, 0x00007fc0, 0xb6db6db7),
+    rrOp(4, 'mulh', 0x00000000, 0x00000000, 0x00000000),
+    rrOp(5, 'mulh', 0x00000000, 0x00000001, 0x00000001),
+    rrOp(6, 'mulh', 0x00000000, 0x00000003, 0x00000007),
+    rrOp(7, 'mulh', 0x00000000, 0x00000000, 0xffff8000),
+    rrOp(8, 'mulh', 0x00000000, 0x80000000, 0x00000000),
+    rrOp(9, 'mulh', 0x00004000, 0x80000000, 0xffff8000),
+    rrOp(10, 'mulh', 0xffff0081, 0xaaaaaaab, 0x0002fe7d),
+    rrOp(11, 'mulh', 0xffff0081, 0x0002fe7d, 0xaaaaaaab),
+    rrOp(12, 'mulh', 0x00010000, 0xff000000, 0xff000000),
+    rrOp(13, 'mulh', 0x00000000, 0xffffffff, 0xffffffff),
+    rrOp(14, 'mulh', 0xffffffff, 0xffffffff, 0x00000001),
+    rrOp(15, 'mulh', 0xffffffff, 0x00000001, 0xffffffff),
+    rrOp(16, 'mulh', 0x3fffffff, 0x7fffffff, 0x7fffffff),
+    rrOp(17, 'mulh', 0x40000000, 0x80000000, 0x80000000),
+    rrOp(18, 'mulh', 0xc0000000, 0x80000000, 0x7fffffff),
+    rrSrc1EqDest(19, 'mulh', 0x00000000, 0x0000000d, 0x0000000b),
+    rrSrc2EqDest(20, 'mulh', 0x00000000, 0x0000000e, 0x0000000b),
+    rrSrc12EqDest(21, 'mulh', 0x00000000, 0x0000000d),
+    rrDestBypass(22, 0, 'mulh', 0x00000000, 0x0000000d, 0x0000000b),
+    rrDestBypass(23, 1, 'mulh', 0x00000000, 0x0000000e, 0x0000000b),
+    rrDestBypass(24, 2, 'mulh', 0x00000000, 0x0000000f, 0x0000000b),
+    rrSrc12Bypass(25, 0, 0, 'mulh', 0x00000000, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(26, 0, 1, 'mulh', 0x00000000, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(27, 0, 2, 'mulh', 0x00000000, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(28, 1, 0, 'mulh', 0x00000000, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(29, 1, 1, 'mulh', 0x00000000, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(30, 2, 0, 'mulh', 0x00000000, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(31, 0, 0, 'mulh', 0x00000000, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(32, 0, 1, 'mulh', 0x00000000, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(33, 0, 2, 'mulh', 0x00000000, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(34, 1, 0, 'mulh', 0x00000000, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(35, 1, 1, 'mulh', 0x00000000, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(36, 2, 0, 'mulh', 0x00000000, 0x0000000d, 0x0000000b),
+    rrZeroSrc1(37, 'mulh', 0x00000000, 15),
+    rrZeroSrc2(38, 'mulh', 0x00000000, 32),
+    rrZeroSrc12(39, 'mulh', 0x00000000),
+    rrZeroDest(40, 'mulh', 16, 30),
+  ]),
+  mulhsu: testProgram([
+    rrOp(2, 'mulhsu', 0x00005a00, 0x00007e00, 0xb6db6db7),
+    rrOp(3, 'mulhsu', 0x00005b40, 0x00007fc0, 0xb6db6db7),
+    rrOp(4, 'mulhsu', 0x00000000, 0x00000000, 0x00000000),
+    rrOp(5, 'mulhsu', 0x00000000, 0x00000001, 0x00000001),
+    rrOp(6, 'mulhsu', 0x00000000, 0x00000003, 0x00000007),
+    rrOp(7, 'mulhsu', 0x00000000, 0x00000000, 0xffff8000),
+    rrOp(8, 'mulhsu', 0x00000000, 0x80000000, 0x00000000),
+    rrOp(9, 'mulhsu', 0x80004000, 0x80000000, 0xffff8000),
+    rrOp(10, 'mulhsu', 0xffff0081, 0xaaaaaaab, 0x0002fe7d),
+    rrOp(11, 'mulhsu', 0x0001fefe, 0x0002fe7d, 0xaaaaaaab),
+    rrOp(12, 'mulhsu', 0xff010000, 0xff000000, 0xff000000),
+    rrOp(13, 'mulhsu', 0xffffffff, 0xffffffff, 0xffffffff),
+    rrOp(14, 'mulhsu', 0xffffffff, 0xffffffff, 0x00000001),
+    rrOp(15, 'mulhsu', 0x00000000, 0x00000001, 0xffffffff),
+    rrOp(16, 'mulhsu', 0x3fffffff, 0x7fffffff, 0x7fffffff),
+    rrOp(17, 'mulhsu', 0xc0000000, 0x80000000, 0x80000000),
+    rrOp(18, 'mulhsu', 0xc0000000, 0x80000000, 0x7fffffff),
+    rrSrc1EqDest(19, 'mulhsu', 0x00000000, 0x0000000d, 0x0000000b),
+    rrSrc2EqDest(20, 'mulhsu', 0x00000000, 0x0000000e, 0x0000000b),
+    rrSrc12EqDest(21, 'mulhsu', 0x00000000, 0x0000000d),
+    rrDestBypass(22, 0, 'mulhsu', 0x00000000, 0x0000000d, 0x0000000b),
+    rrDestBypass(23, 1, 'mulhsu', 0x00000000, 0x0000000e, 0x0000000b),
+    rrDestBypass(24, 2, 'mulhsu', 0x00000000, 0x0000000f, 0x0000000b),
+    rrSrc12Bypass(25, 0, 0, 'mulhsu', 0x00000000, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(26, 0, 1, 'mulhsu', 0x00000000, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(27, 0, 2, 'mulhsu', 0x00000000, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(28, 1, 0, 'mulhsu', 0x00000000, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(29, 1, 1, 'mulhsu', 0x00000000, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(30, 2, 0, 'mulhsu', 0x00000000, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(31, 0, 0, 'mulhsu', 0x00000000, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(32, 0, 1, 'mulhsu', 0x00000000, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(33, 0, 2, 'mulhsu', 0x00000000, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(34, 1, 0, 'mulhsu', 0x00000000, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(35, 1, 1, 'mulhsu', 0x00000000, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(36, 2, 0, 'mulhsu', 0x00000000, 0x0000000d, 0x0000000b),
+    rrZeroSrc1(37, 'mulhsu', 0x00000000, 15),
+    rrZeroSrc2(38, 'mulhsu', 0x00000000, 32),
+    rrZeroSrc12(39, 'mulhsu', 0x00000000),
+    rrZeroDest(40, 'mulhsu', 16, 30),
+  ]),
+  mulhu: testProgram([
+    rrOp(2, 'mulhu', 0x00005a00, 0x00007e00, 0xb6db6db7),
+    rrOp(3, 'mulhu', 0x00005b40, 0x00007fc0, 0xb6db6db7),
+    rrOp(4, 'mulhu', 0x00000000, 0x00000000, 0x00000000),
+    rrOp(5, 'mulhu', 0x00000000, 0x00000001, 0x00000001),
+    rrOp(6, 'mulhu', 0x00000000, 0x00000003, 0x00000007),
+    rrOp(7, 'mulhu', 0x00000000, 0x00000000, 0xffff8000),
+    rrOp(8, 'mulhu', 0x00000000, 0x80000000, 0x00000000),
+    rrOp(9, 'mulhu', 0x7fffc000, 0x80000000, 0xffff8000),
+    rrOp(10, 'mulhu', 0x0001fefe, 0xaaaaaaab, 0x0002fe7d),
+    rrOp(11, 'mulhu', 0x0001fefe, 0x0002fe7d, 0xaaaaaaab),
+    rrOp(12, 'mulhu', 0xfe010000, 0xff000000, 0xff000000),
+    rrOp(13, 'mulhu', 0xfffffffe, 0xffffffff, 0xffffffff),
+    rrOp(14, 'mulhu', 0x00000000, 0xffffffff, 0x00000001),
+    rrOp(15, 'mulhu', 0x00000000, 0x00000001, 0xffffffff),
+    rrOp(16, 'mulhu', 0x3fffffff, 0x7fffffff, 0x7fffffff),
+    rrOp(17, 'mulhu', 0x40000000, 0x80000000, 0x80000000),
+    rrOp(18, 'mulhu', 0x3fffffff, 0x80000000, 0x7fffffff),
+    rrSrc1EqDest(19, 'mulhu', 0x00000000, 0x0000000d, 0x0000000b),
+    rrSrc2EqDest(20, 'mulhu', 0x00000000, 0x0000000e, 0x0000000b),
+    rrSrc12EqDest(21, 'mulhu', 0x00000000, 0x0000000d),
+    rrDestBypass(22, 0, 'mulhu', 0x00000000, 0x0000000d, 0x0000000b),
+    rrDestBypass(23, 1, 'mulhu', 0x00000000, 0x0000000e, 0x0000000b),
+    rrDestBypass(24, 2, 'mulhu', 0x00000000, 0x0000000f, 0x0000000b),
+    rrSrc12Bypass(25, 0, 0, 'mulhu', 0x00000000, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(26, 0, 1, 'mulhu', 0x00000000, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(27, 0, 2, 'mulhu', 0x00000000, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(28, 1, 0, 'mulhu', 0x00000000, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(29, 1, 1, 'mulhu', 0x00000000, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(30, 2, 0, 'mulhu', 0x00000000, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(31, 0, 0, 'mulhu', 0x00000000, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(32, 0, 1, 'mulhu', 0x00000000, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(33, 0, 2, 'mulhu', 0x00000000, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(34, 1, 0, 'mulhu', 0x00000000, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(35, 1, 1, 'mulhu', 0x00000000, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(36, 2, 0, 'mulhu', 0x00000000, 0x0000000d, 0x0000000b),
+    rrZeroSrc1(37, 'mulhu', 0x00000000, 15),
+    rrZeroSrc2(38, 'mulhu', 0x00000000, 32),
+    rrZeroSrc12(39, 'mulhu', 0x00000000),
+    rrZeroDest(40, 'mulhu', 16, 30),
+  ]),
+  rem: testProgram([
+    rrOp(2, 'rem', 0x00000002, 0x00000014, 0x00000006),
+    rrOp(3, 'rem', 0xfffffffe, 0xffffffec, 0x00000006),
+    rrOp(4, 'rem', 0x00000002, 0x00000014, 0xfffffffa),
+    rrOp(5, 'rem', 0xfffffffe, 0xffffffec, 0xfffffffa),
+    rrOp(6, 'rem', 0x00000000, 0x80000000, 0x00000001),
+    rrOp(7, 'rem', 0x00000000, 0x80000000, 0xffffffff),
+    rrOp(8, 'rem', 0x80000000, 0x80000000, 0x00000000),
+    rrOp(9, 'rem', 0x00000001, 0x00000001, 0x00000000),
+    rrOp(10, 'rem', 0x00000000, 0x00000000, 0x00000000),
+    rrOp(11, 'rem', 0xffffffff, 0xffffffff, 0x00000000),
+    rrOp(12, 'rem', 0x00000000, 0x7fffffff, 0xffffffff),
+    rrOp(13, 'rem', 0x00000000, 0xffffffff, 0xffffffff),
+    rrOp(14, 'rem', 0x00000001, 0x7fffffff, 0x00000002),
+    rrSrc1EqDest(15, 'rem', 0x00000002, 0x0000000d, 0x0000000b),
+    rrSrc2EqDest(16, 'rem', 0x00000003, 0x0000000e, 0x0000000b),
+    rrSrc12EqDest(17, 'rem', 0x00000000, 0x0000000d),
+    rrDestBypass(18, 0, 'rem', 0x00000002, 0x0000000d, 0x0000000b),
+    rrDestBypass(19, 1, 'rem', 0x00000003, 0x0000000e, 0x0000000b),
+    rrDestBypass(20, 2, 'rem', 0x00000004, 0x0000000f, 0x0000000b),
+    rrSrc12Bypass(21, 0, 0, 'rem', 0x00000002, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(22, 0, 1, 'rem', 0x00000002, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(23, 0, 2, 'rem', 0x00000002, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(24, 1, 0, 'rem', 0x00000002, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(25, 1, 1, 'rem', 0x00000002, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(26, 2, 0, 'rem', 0x00000002, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(27, 0, 0, 'rem', 0x00000002, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(28, 0, 1, 'rem', 0x00000002, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(29, 0, 2, 'rem', 0x00000002, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(30, 1, 0, 'rem', 0x00000002, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(31, 1, 1, 'rem', 0x00000002, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(32, 2, 0, 'rem', 0x00000002, 0x0000000d, 0x0000000b),
+    rrZeroSrc1(33, 'rem', 0x00000000, 15),
+    rrZeroSrc2(34, 'rem', 0x00000020, 32),
+    rrZeroSrc12(35, 'rem', 0x00000000),
+    rrZeroDest(36, 'rem', 16, 30),
+  ]),
+  remu: testProgram([
+    rrOp(2, 'remu', 0x00000002, 0x00000014, 0x00000006),
+    rrOp(3, 'remu', 0x00000002, 0xffffffec, 0x00000006),
+    rrOp(4, 'remu', 0x00000014, 0x00000014, 0xfffffffa),
+    rrOp(5, 'remu', 0xffffffec, 0xffffffec, 0xfffffffa),
+    rrOp(6, 'remu', 0x00000000, 0x80000000, 0x00000001),
+    rrOp(7, 'remu', 0x80000000, 0x80000000, 0xffffffff),
+    rrOp(8, 'remu', 0x80000000, 0x80000000, 0x00000000),
+    rrOp(9, 'remu', 0x00000001, 0x00000001, 0x00000000),
+    rrOp(10, 'remu', 0x00000000, 0x00000000, 0x00000000),
+    rrOp(11, 'remu', 0xffffffff, 0xffffffff, 0x00000000),
+    rrOp(12, 'remu', 0x7fffffff, 0x7fffffff, 0xffffffff),
+    rrOp(13, 'remu', 0x00000000, 0xffffffff, 0xffffffff),
+    rrOp(14, 'remu', 0x00000001, 0x7fffffff, 0x00000002),
+    rrSrc1EqDest(15, 'remu', 0x00000002, 0x0000000d, 0x0000000b),
+    rrSrc2EqDest(16, 'remu', 0x00000003, 0x0000000e, 0x0000000b),
+    rrSrc12EqDest(17, 'remu', 0x00000000, 0x0000000d),
+    rrDestBypass(18, 0, 'remu', 0x00000002, 0x0000000d, 0x0000000b),
+    rrDestBypass(19, 1, 'remu', 0x00000003, 0x0000000e, 0x0000000b),
+    rrDestBypass(20, 2, 'remu', 0x00000004, 0x0000000f, 0x0000000b),
+    rrSrc12Bypass(21, 0, 0, 'remu', 0x00000002, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(22, 0, 1, 'remu', 0x00000002, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(23, 0, 2, 'remu', 0x00000002, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(24, 1, 0, 'remu', 0x00000002, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(25, 1, 1, 'remu', 0x00000002, 0x0000000d, 0x0000000b),
+    rrSrc12Bypass(26, 2, 0, 'remu', 0x00000002, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(27, 0, 0, 'remu', 0x00000002, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(28, 0, 1, 'remu', 0x00000002, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(29, 0, 2, 'remu', 0x00000002, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(30, 1, 0, 'remu', 0x00000002, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(31, 1, 1, 'remu', 0x00000002, 0x0000000d, 0x0000000b),
+    rrSrc21Bypass(32, 2, 0, 'remu', 0x00000002, 0x0000000d, 0x0000000b),
+    rrZeroSrc1(33, 'remu', 0x00000000, 15),
+    rrZeroSrc2(34, 'remu', 0x00000020, 32),
+    rrZeroSrc12(35, 'remu', 0x00000000),
+    rrZeroDest(36, 'remu', 16, 30),
+  ]),
+};
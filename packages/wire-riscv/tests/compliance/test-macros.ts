@@ -0,0 +1,338 @@
+/**
+ * riscv-tests test macros
+ *
+ * A port of riscv-tests' isa/macros/scalar/test_macros.h and the "p"
+ * environment to our assembler dialect. Each macro returns the
+ * assembly of one numbered test case; gp holds the number of the
+ * running case, and a failing case jumps to `fail`, which reports
+ * (gp << 1) | 1 through tohost. Local numeric labels (1b, 2f) become
+ * labels suffixed with the test number.
+ */
+
+/** Format a value as it appears in riscv-tests sources */
+function hex(value: number): string {
+  return `0x${(value >>> 0).toString(16).padStart(8, '0')}`;
+}
+
+/** Sign-extended 12-bit immediate, as an assembler operand */
+function imm12(value: number): string {
+  return String((value << 20) >> 20);
+}
+
+/** TEST_INSERT_NOPS_n */
+function nops(count: number): string[] {
+  return Array.from({ length: count }, () => 'nop');
+}
+
+type Code = Array<string | string[]>;
+
+/** Join instructions and labels into indented source lines */
+function lines(...parts: Array<string | Code>): string {
+  return parts.flat(2).map((line) => (line.endsWith(':') ? line : `  ${line}`)).join('\n');
+}
+
+/**
+ * TEST_CASE: run code, then check testreg against correctval
+ */
+export function testCase(testnum: number, testreg: string, correctval: number, code: Code): string {
+  return lines(
+    `test_${testnum}:`,
+    `li gp, ${testnum}`,
+    code,
+    `li x7, ${hex(correctval)}`,
+    `bne ${testreg}, x7, fail`
+  );
+}
+
+// Tests for instructions with immediate operand
+
+export function immOp(testnum: number, inst: string, result: number, val1: number, imm: number): string {
+  return testCase(testnum, 'x14', result, [`li x13, ${hex(val1)}`, `${inst} x14, x13, ${imm12(imm)}`]);
+}
+
+export function immSrc1EqDest(testnum: number, inst: string, result: number, val1: number, imm: number): string {
+  return testCase(testnum, 'x11', result, [`li x11, ${hex(val1)}`, `${inst} x11, x11, ${imm12(imm)}`]);
+}
+
+export function immDestBypass(testnum: number, nopCycles: number, inst: string, result: number, val1: number, imm: number): string {
+  return testCase(testnum, 'x6', result, [
+    'li x4, 0',
+    `bypass_${testnum}:`,
+    `li x1, ${hex(val1)}`,
+    `${inst} x14, x1, ${imm12(imm)}`,
+    nops(nopCycles),
+    'addi x6, x14, 0',
+    'addi x4, x4, 1',
+    'li x5, 2',
+    `bne x4, x5, bypass_${testnum}`,
+  ]);
+}
+
+export function immSrc1Bypass(testnum: number, nopCycles: number, inst: string, result: number, val1: number, imm: number): string {
+  return testCase(testnum, 'x14', result, [
+    'li x4, 0',
+    `bypass_${testnum}:`,
+    `li x1, ${hex(val1)}`,
+    nops(nopCycles),
+    `${inst} x14, x1, ${imm12(imm)}`,
+    'addi x4, x4, 1',
+    'li x5, 2',
+    `bne x4, x5, bypass_${testnum}`,
+  ]);
+}
+
+export function immZeroSrc1(testnum: number, inst: string, result: number, imm: number): string {
+  return testCase(testnum, 'x1', result, [`${inst} x1, x0, ${imm12(imm)}`]);
+}
+
+export function immZeroDest(testnum: number, inst: string, val1: number, imm: number): string {
+  return testCase(testnum, 'x0', 0, [`li x1, ${hex(val1)}`, `${inst} x0, x1, ${imm12(imm)}`]);
+}
+
+// Tests for register-register instructions
+
+export function rrOp(testnum: number, inst: string, result: number, val1: number, val2: number): string {
+  return testCase(testnum, 'x14', result, [
+    `li x11, ${hex(val1)}`,
+    `li x12, ${hex(val2)}`,
+    `${inst} x14, x11, x12`,
+  ]);
+}
+
+export function rrSrc1EqDest(testnum: number, inst: string, result: number, val1: number, val2: number): string {
+  return testCase(testnum, 'x11', result, [
+    `li x11, ${hex(val1)}`,
+    `li x12, ${hex(val2)}`,
+    `${inst} x11, x11, x12`,
+  ]);
+}
+
+export function rrSrc2EqDest(testnum: number, inst: string, result: number, val1: number, val2: number): string {
+  return testCase(testnum, 'x12', result, [
+    `li x11, ${hex(val1)}`,
+    `li x12, ${hex(val2)}`,
+    `${inst} x12, x11, x12`,
+  ]);
+}
+
+export function rrSrc12EqDest(testnum: number, inst: string, result: number, val1: number): string {
+  return testCase(testnum, 'x11', result, [`li x11, ${hex(val1)}`, `${inst} x11, x11, x11`]);
+}
+
+export function rrDestBypass(testnum: number, nopCycles: number, inst: string, result: number, val1: number, val2: number): string {
+  return testCase(testnum, 'x6', result, [
+    'li x4, 0',
+    `bypass_${testnum}:`,
+    `li x1, ${hex(val1)}`,
+    `li x2, ${hex(val2)}`,
+    `${inst} x14, x1, x2`,
+    nops(nopCycles),
+    'addi x6, x14, 0',
+    'addi x4, x4, 1',
+    'li x5, 2',
+    `bne x4, x5, bypass_${testnum}`,
+  ]);
+}
+
+export function rrSrc12Bypass(
+  testnum: number, src1Nops: number, src2Nops: number, inst: string, result: number, val1: number, val2: number
+): string {
+  return testCase(testnum, 'x14', result, [
+    'li x4, 0',
+    `bypass_${testnum}:`,
+    `li x1, ${hex(val1)}`,
+    nops(src1Nops),
+    `li x2, ${hex(val2)}`,
+    nops(src2Nops),
+    `${inst} x14, x1, x2`,
+    'addi x4, x4, 1',
+    'li x5, 2',
+    `bne x4, x5, bypass_${testnum}`,
+  ]);
+}
+
+export function rrSrc21Bypass(
+  testnum: number, src1Nops: number, src2Nops: number, inst: string, result: number, val1: number, val2: number
+): string {
+  return testCase(testnum, 'x14', result, [
+    'li x4, 0',
+    `bypass_${testnum}:`,
+    `li x2, ${hex(val2)}`,
+    nops(src1Nops),
+    `li x1, ${hex(val1)}`,
+    nops(src2Nops),
+    `${inst} x14, x1, x2`,
+    'addi x4, x4, 1',
+    'li x5, 2',
+    `bne x4, x5, bypass_${testnum}`,
+  ]);
+}
+
+export function rrZeroSrc1(testnum: number, inst: string, result: number, val: number): string {
+  return testCase(testnum, 'x2', result, [`li x1, ${hex(val)}`, `${inst} x2, x0, x1`]);
+}
+
+export function rrZeroSrc2(testnum: number, inst: string, result: number, val: number): string {
+  return testCase(testnum, 'x2', result, [`li x1, ${hex(val)}`, `${inst} x2, x1, x0`]);
+}
+
+export function rrZeroSrc12(testnum: number, inst: string, result: number): string {
+  return testCase(testnum, 'x1', result, [`${inst} x1, x0, x0`]);
+}
+
+export function rrZeroDest(testnum: number, inst: string, val1: number, val2: number): string {
+  return testCase(testnum, 'x0', 0, [`li x1, ${hex(val1)}`, `li x2, ${hex(val2)}`, `${inst} x0, x1, x2`]);
+}
+
+// Tests for loads and stores
+
+export function ldOp(testnum: number, inst: string, result: number, offset: number, base: string): string {
+  return testCase(testnum, 'x14', result, [`la x2, ${base}`, `${inst} x14, ${offset}(x2)`]);
+}
+
+export function ldDestBypass(testnum: number, nopCycles: number, inst: string, result: number, offset: number, base: string): string {
+  return testCase(testnum, 'x6', result, [
+    'li x4, 0',
+    `bypass_${testnum}:`,
+    `la x13, ${base}`,
+    `${inst} x14, ${offset}(x13)`,
+    nops(nopCycles),
+    'addi x6, x14, 0',
+    'addi x4, x4, 1',
+    'li x5, 2',
+    `bne x4, x5, bypass_${testnum}`,
+  ]);
+}
+
+export function ldSrc1Bypass(testnum: number, nopCycles: number, inst: string, result: number, offset: number, base: string): string {
+  return testCase(testnum, 'x14', result, [
+    'li x4, 0',
+    `bypass_${testnum}:`,
+    `la x13, ${base}`,
+    nops(nopCycles),
+    `${inst} x14, ${offset}(x13)`,
+    'addi x4, x4, 1',
+    'li x5, 2',
+    `bne x4, x5, bypass_${testnum}`,
+  ]);
+}
+
+export function stOp(testnum: number, loadInst: string, storeInst: string, result: number, offset: number, base: string): string {
+  return testCase(testnum, 'x14', result, [
+    `la x2, ${base}`,
+    `li x1, ${hex(result)}`,
+    `${storeInst} x1, ${offset}(x2)`,
+    `${loadInst} x14, ${offset}(x2)`,
+  ]);
+}
+
+export function stSrc12Bypass(
+  testnum: number, src1Nops: number, src2Nops: number, loadInst: string, storeInst: string,
+  result: number, offset: number, base: string
+): string {
+  return lines(
+    `test_${testnum}:`,
+    `li gp, ${testnum}`,
+    'li x4, 0',
+    `bypass_${testnum}:`,
+    `li x13, ${hex(result)}`,
+    nops(src1Nops),
+    `la x12, ${base}`,
+    nops(src2Nops),
+    `${storeInst} x13, ${offset}(x12)`,
+    `${loadInst} x14, ${offset}(x12)`,
+    `li x7, ${hex(result)}`,
+    'bne x14, x7, fail',
+    'addi x4, x4, 1',
+    'li x5, 2',
+    `bne x4, x5, bypass_${testnum}`
+  );
+}
+
+// Tests for branch instructions
+
+export function br2OpTaken(testnum: number, inst: string, val1: number, val2: number): string {
+  return lines(
+    `test_${testnum}:`,
+    `li gp, ${testnum}`,
+    `li x1, ${hex(val1)}`,
+    `li x2, ${hex(val2)}`,
+    `${inst} x1, x2, taken_${testnum}`,
+    'bne x0, gp, fail',
+    `back_${testnum}:`,
+    `bne x0, gp, done_${testnum}`,
+    `taken_${testnum}:`,
+    `${inst} x1, x2, back_${testnum}`,
+    'bne x0, gp, fail',
+    `done_${testnum}:`
+  );
+}
+
+export function br2OpNotTaken(testnum: number, inst: string, val1: number, val2: number): string {
+  return lines(
+    `test_${testnum}:`,
+    `li gp, ${testnum}`,
+    `li x1, ${hex(val1)}`,
+    `li x2, ${hex(val2)}`,
+    `${inst} x1, x2, wrong_${testnum}`,
+    `bne x0, gp, next_${testnum}`,
+    `wrong_${testnum}:`,
+    'bne x0, gp, fail',
+    `next_${testnum}:`,
+    `${inst} x1, x2, wrong_${testnum}`,
+    `done_${testnum}:`
+  );
+}
+
+export function br2SrcBypass(
+  testnum: number, src1Nops: number, src2Nops: number, inst: string, val1: number, val2: number
+): string {
+  return lines(
+    `test_${testnum}:`,
+    `li gp, ${testnum}`,
+    'li x4, 0',
+    `bypass_${testnum}:`,
+    `li x1, ${hex(val1)}`,
+    nops(src1Nops),
+    `li x2, ${hex(val2)}`,
+    nops(src2Nops),
+    `${inst} x1, x2, fail`,
+    'addi x4, x4, 1',
+    'li x5, 2',
+    `bne x4, x5, bypass_${testnum}`
+  );
+}
+
+/**
+ * A complete test program: the cases, TEST_PASSFAIL, the tohost
+ * mailbox and the test data
+ */
+export function testProgram(cases: string[], data: string[] = []): string {
+  return [
+    '_start:',
+    ...cases,
+    lines(
+      'bne x0, gp, pass',
+      'fail:',
+      'slli gp, gp, 1',
+      'ori gp, gp, 1',
+      'j write_tohost',
+      'pass:',
+      'li gp, 1',
+      'write_tohost:',
+      'la t5, tohost',
+      'sw gp, 0(t5)',
+      'sw zero, 4(t5)',
+      'j write_tohost',
+      '.align 6',
+      'tohost:',
+      '.word 0, 0',
+      '.align 6',
+      'fromhost:',
+      '.word 0, 0',
+      '.align 4',
+      ...data
+    ),
+    '',
+  ].join('\n');
+}
@@ -16,7 +16,7 @@ describe('Console Driver', () => {
   let cpu: RiscVCpu;
 
   beforeEach(() => {
-    cpu = new RiscVCpu({ memorySize: 0x10000 });
+    cpu = new RiscVCpu({ memorySize: 0x10000, hostSyscalls: true });
   });
 
   describe('cursor management', () => {
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RiscVCpu } from '../src/emulator/cpu.js';
+import { CSR, MSTATUS, MIP, MISA_VALUE, isReadOnlyCsr } from '../src/emulator/csr.js';
+import { EXCEPTION_CAUSE } from '../src/emulator/trap.js';
+import { Encoder } from '../src/assembler/encoder.js';
+import { Assembler } from '../src/assembler/assembler.js';
+
+/**
+ * Tests for Zicsr instructions and the machine-mode CSR file
+ */
+describe('Machine-mode CSRs', () => {
+  let cpu: RiscVCpu;
+
+  beforeEach(() => {
+    cpu = new RiscVCpu({ memorySize: 4096 });
+  });
+
+  function run(source: string, maxCycles: number = 1000): void {
+    const result = new Assembler(source).assemble();
+    expect(result.errors).toEqual([]);
+    cpu.loadProgram(result.bytes);
+    cpu.run(maxCycles);
+  }
+
+  describe('CSR instructions', () => {
+    it('should swap a register with CSRRW', () => {
+      cpu.csr.mscratch = 0x1234;
+      cpu.setReg(2, 0xcafe);
+      cpu.writeWord(0, Encoder.encodeI('CSRRW', 1, 2, CSR.MSCRATCH));
+      cpu.step();
+
+      expect(cpu.getReg(1)).toBe(0x1234);
+      expect(cpu.csr.mscratch).toBe(0xcafe);
+    });
+
+    it('should set and clear bits with CSRRS/CSRRC', () => {
+      run(`
+        li t0, 0xF0
+        csrw mscratch, t0
+        li t1, 0x0F
+        csrrs a0, mscratch, t1
+        li t1, 0x30
+        csrrc a1, mscratch, t1
+        csrr a2, mscratch
+        ecall
+      `);
+
+      expect(cpu.getReg(10)).toBe(0xF0);
+      expect(cpu.getReg(11)).toBe(0xFF);
+      expect(cpu.getReg(12)).toBe(0xCF);
+    });
+
+    it('should support the immediate forms', () => {
+      run(`
+        csrwi mscratch, 5
+        csrsi mscratch, 8
+        csrci mscratch, 1
+        csrr a0, mscratch
+        ecall
+      `);
+
+      expect(cpu.getReg(10)).toBe(12);
+    });
+
+    it('should read the cycle counters', () => {
+      run(`
+        nop
+        nop
+        csrr a0, cycle
+        csrr a1, mcycleh
+        ecall
+      `);
+
+      expect(cpu.getReg(10)).toBe(2);
+      expect(cpu.getReg(11)).toBe(0);
+    });
+  });
+
+  describe('WARL fields', () => {
+    it('should report RV32IM in misa and hart 0 in mhartid', () => {
+      expect(cpu.readCsr(CSR.MISA)).toBe(MISA_VALUE);
+      expect(MISA_VALUE >>> 30).toBe(1);
+      expect(cpu.readCsr(CSR.MHARTID)).toBe(0);
+    });
+
+    it('should keep only legal mstatus bits', () => {
+      cpu.writeCsr(CSR.MSTATUS, 0xffffffff);
+      const mstatus = cpu.readCsr(CSR.MSTATUS);
+
+      expect(mstatus & MSTATUS.MIE).toBe(MSTATUS.MIE);
+      expect(mstatus & MSTATUS.MPIE).toBe(MSTATUS.MPIE);
+      expect((mstatus & MSTATUS.MPP_MASK) >>> MSTATUS.MPP_SHIFT).toBe(3);
+      const legal = MSTATUS.SIE | MSTATUS.MIE | MSTATUS.SPIE | MSTATUS.MPIE | MSTATUS.SPP |
+        MSTATUS.MPP_MASK | MSTATUS.MPRV | MSTATUS.SUM | MSTATUS.MXR | MSTATUS.FS_MASK | MSTATUS.SD;
+      expect(mstatus & ~legal).toBe(0);
+    });
+
+    it('should force mepc to a 2-byte boundary', () => {
+      cpu.writeCsr(CSR.MEPC, 0x103);
+      expect(cpu.readCsr(CSR.MEPC)).toBe(0x102);
+    });
+
+    it('should only let software write the supervisor bits of mip', () => {
+      cpu.writeCsr(CSR.MIP, 0xffffffff);
+      cpu.writeCsr(CSR.MISA, 0);
+      expect(cpu.readCsr(CSR.MIP)).toBe(MIP.SSIP | MIP.STIP | MIP.SEIP);
+      expect(cpu.readCsr(CSR.MISA)).toBe(MISA_VALUE);
+    });
+
+    it('should reset CSRs with the CPU', () => {
+      cpu.csr.mtvec = 0x100;
+      cpu.csr.mscratch = 1;
+      cpu.reset();
+      expect(cpu.csr.mtvec).toBe(0);
+      expect(cpu.csr.mscratch).toBe(0);
+    });
+  });
+
+  describe('illegal CSR accesses', () => {
+    it('should identify read-only CSR addresses', () => {
+      expect(isReadOnlyCsr(CSR.MHARTID)).toBe(true);
+      expect(isReadOnlyCsr(CSR.CYCLE)).toBe(true);
+      expect(isReadOnlyCsr(CSR.MSTATUS)).toBe(false);
+    });
+
+    it('should trap on a write to a read-only CSR', () => {
+      const instruction = Encoder.encodeI('CSRRW', 1, 2, CSR.MHARTID);
+      cpu.writeWord(0, instruction);
+      cpu.step();
+
+      expect(cpu.halted).toBe(true);
+      expect(cpu.csr.mcause).toBe(EXCEPTION_CAUSE.ILLEGAL_INSTRUCTION);
+      expect(cpu.csr.mtval).toBe(instruction);
+    });
+
+    it('should allow reading a read-only CSR', () => {
+      cpu.writeWord(0, Encoder.encodeI('CSRRS', 1, 0, CSR.MHARTID));
+      expect(cpu.step()).toBe(true);
+      expect(cpu.getReg(1)).toBe(0);
+    });
+
+    it('should trap on an unimplemented CSR', () => {
+      cpu.writeWord(0, Encoder.encodeI('CSRRS', 1, 0, 0x7c0));
+      cpu.step();
+
+      expect(cpu.halted).toBe(true);
+      expect(cpu.csr.mcause).toBe(EXCEPTION_CAUSE.ILLEGAL_INSTRUCTION);
+    });
+  });
+});
@@ -0,0 +1,245 @@
+import { describe, it, expect } from 'vitest';
+import { RiscVCpu } from '../src/emulator/cpu.js';
+import { DecodeCache, decodeInstruction } from '../src/emulator/decode-cache.js';
+import { Encoder } from '../src/assembler/encoder.js';
+import { Assembler } from '../src/assembler/assembler.js';
+
+function assemble(source: string): Uint8Array {
+  const result = new Assembler(source).assemble();
+  expect(result.errors).toEqual([]);
+  return result.bytes;
+}
+
+// Sums 1..n with a multiply and a store per iteration
+const LOOP_SOURCE = `
+    li t0, 0
+    li t1, 50000
+    li a0, 0
+    li s0, 0x800
+  loop:
+    addi t0, t0, 1
+    mul t2, t0, t0
+    add a0, a0, t0
+    sw a0, 0(s0)
+    lw a1, 0(s0)
+    bne t0, t1, loop
+    ebreak
+`;
+
+/**
+ * Tests for the decoded instruction cache
+ */
+describe('DecodeCache', () => {
+  describe('decodeInstruction', () => {
+    it('should extract fields and the format-specific immediate', () => {
+      const addi = decodeInstruction(Encoder.encodeI('ADDI', 5, 6, -3));
+      expect(addi).toMatchObject({ opcode: 0x13, rd: 5, rs1: 6, funct3: 0, imm: -3 });
+
+      const sw = decodeInstruction(Encoder.encodeS('SW', 2, 8, -4));
+      expect(sw).toMatchObject({ rs1: 2, rs2: 8, imm: -4 });
+
+      const beq = decodeInstruction(Encoder.encodeB('BEQ', 1, 2, -8));
+      expect(beq.imm).toBe(-8);
+
+      const lui = decodeInstruction(Encoder.encodeU('LUI', 1, 0xABCDE));
+      expect(lui.imm).toBe(0xABCDE000);
+
+      const jal = decodeInstruction(Encoder.encodeJ('JAL', 1, 2048));
+      expect(jal.imm).toBe(2048);
+    });
+  });
+
+  describe('cache', () => {
+    it('should return inserted entries and count misses', () => {
+      const cache = new DecodeCache();
+      expect(cache.lookup(0x100)).toBeUndefined();
+      const inserted = cache.insert(0x100, 0x00000013);
+      expect(cache.lookup(0x100)).toBe(inserted);
+      expect(cache.getStats()).toMatchObject({ misses: 1, pages: 1 });
+    });
+
+    it('should only invalidate entries overlapping the written bytes', () => {
+      const cache = new DecodeCache();
+      cache.insert(0x100, 0x00000013);
+      cache.insert(0x104, 0x00000013);
+      cache.insert(0x900, 0x00000013);
+
+      // Tracked per 256-byte block: near code is a maybe, a gap between code isn't
+      expect(cache.hasCode(0x1FF)).toBe(true);
+      expect(cache.hasCode(0x800)).toBe(false);
+      expect(cache.hasCode(0x1000)).toBe(false);
+
+      cache.invalidate(0x106, 1);
+      expect(cache.lookup(0x100)).toBeDefined();
+      expect(cache.lookup(0x104)).toBeUndefined();
+      expect(cache.getStats().invalidations).toBe(1);
+    });
+
+    it('should see stores that straddle into a page with code', () => {
+      const cache = new DecodeCache();
+      cache.insert(0x1000, 0x00000013);
+      expect(cache.hasCode(0x0FFE, 4)).toBe(true);
+      expect(cache.hasCode(0x0FFC, 4)).toBe(false);
+    });
+
+    it('should invalidate ranges spanning several pages', () => {
+      const cache = new DecodeCache();
+      cache.insert(0x0FFC, 0x00000013);
+      cache.insert(0x3000, 0x00000013);
+      cache.invalidate(0x0FFE, 0x2004);
+      expect(cache.lookup(0x0FFC)).toBeUndefined();
+      expect(cache.lookup(0x3000)).toBeUndefined();
+    });
+  });
+
+  describe('CPU integration', () => {
+    it('should run self-modifying code', () => {
+      const cpu = new RiscVCpu({ memorySize: 4096 });
+      cpu.loadProgram(assemble(`
+          li s1, 2
+        again:
+          li a0, 1
+          addi s1, s1, -1
+          beqz s1, done
+          ; patch "li a0, 1" into "li a0, 2"
+          la t0, again
+          li t1, 0x00200513
+          sw t1, 0(t0)
+          j again
+        done:
+          ebreak
+      `));
+      cpu.run(100);
+
+      expect(cpu.getReg(10)).toBe(2);
+      expect(cpu.decodeCache!.getStats().invalidations).toBe(1);
+    });
+
+    it('should drop code overwritten by a store straddling a page boundary', () => {
+      // Code at 0x2000 and 0x1000 only, so page 0 has none cached
+      const cpu = new RiscVCpu({ memorySize: 0x3000, initialPc: 0x2000 });
+      cpu.loadProgram(assemble(`
+          li a0, 0
+          li t0, 0x1000
+          jalr ra, 0(t0)
+          ; patch "li a1, 1" at 0x1000 into "li a0, 1" with a word
+          ; store to 0x0FFE, which covers its low halfword
+          li t1, 0x05130000
+          sw t1, -2(t0)
+          jalr ra, 0(t0)
+          ebreak
+      `), 0x2000);
+      cpu.writeWord(0x1000, 0x00100593); // li a1, 1
+      cpu.writeWord(0x1004, 0x00008067); // ret
+      cpu.run(100);
+      expect(cpu.getReg(10)).toBe(1);
+    });
+
+    it('should see programs reloaded over cached code', () => {
+      const cpu = new RiscVCpu({ memorySize: 4096 });
+      cpu.loadProgram(assemble('li a0, 1\nebreak'));
+      cpu.run(10);
+      expect(cpu.getReg(10)).toBe(1);
+
+      cpu.reset();
+      cpu.loadProgram(assemble('li a0, 2\nebreak'));
+      cpu.run(10);
+      expect(cpu.getReg(10)).toBe(2);
+    });
+
+    it('should still decode unaligned host-mode code', () => {
+      const cpu = new RiscVCpu({ memorySize: 4096, initialPc: 0x101 });
+      cpu.loadProgram(assemble('li a0, 9\nebreak'), 0x101);
+      cpu.run(10);
+      expect(cpu.getReg(10)).toBe(9);
+      expect(cpu.decodeCache!.getStats().pages).toBe(0);
+    });
+
+    it('should flush on FENCE.I', () => {
+      const cpu = new RiscVCpu({ memorySize: 4096 });
+      cpu.loadProgram(assemble('nop\nfence.i\nebreak'));
+      cpu.run(10);
+      expect(cpu.decodeCache!.getStats().pages).toBe(1);
+      expect(cpu.decodeCache!.lookup(0)).toBeUndefined();
+    });
+
+    it('should match the uncached interpreter', () => {
+      const results = [true, false].map((decodeCache) => {
+        const cpu = new RiscVCpu({ memorySize: 4096, decodeCache });
+        cpu.loadProgram(assemble(LOOP_SOURCE));
+        cpu.run(10_000_000);
+        return { a0: cpu.getReg(10), a1: cpu.getReg(11), cycles: cpu.cycles, halted: cpu.halted };
+      });
+      expect(results[0]).toEqual(results[1]);
+      expect(results[0].a0).toBe(((50000 * 50001) / 2) >>> 0);
+    });
+  });
+
+  describe('benchmark', () => {
+    /** Best-of-five run time in milliseconds */
+    function time(decodeCache: boolean): number {
+      const program = assemble(LOOP_SOURCE);
+      let best = Infinity;
+      for (let i = 0; i < 5; i++) {
+        const cpu = new RiscVCpu({ memorySize: 4096, decodeCache });
+        cpu.loadProgram(program);
+        const start = performance.now();
+        cpu.run(10_000_000);
+        best = Math.min(best, performance.now() - start);
+        expect(cpu.halted).toBe(true);
+      }
+      return best;
+    }
+
+    it('should run clearly faster than the uncached interpreter', () => {
+      // Warm up both paths so the JIT has compiled them
+      time(true);
+      time(false);
+
+      const uncached = time(false);
+      const cached = time(true);
+      console.log(
+        `decode cache: ${cached.toFixed(1)} ms, uncached: ${uncached.toFixed(1)} ms, ` +
+        `speedup ${(uncached / cached).toFixed(2)}x`
+      );
+      // Several times faster in practice; the margin allows for a busy machine
+      expect(uncached / cached).toBeGreaterThan(1.5);
+    });
+  });
+
+  describe('instruction budget', () => {
+    // Stop well short of the ebreak, mid-loop
+    const BUDGET = 100_003;
+
+    function runBudget(decodeCache: boolean) {
+      const cpu = new RiscVCpu({ memorySize: 4096, decodeCache });
+      cpu.loadProgram(assemble(LOOP_SOURCE));
+      const executed = cpu.run(BUDGET);
+      return { cpu, executed };
+    }
+
+    it('should execute exactly the budget, keeping cycles and mtime in step', () => {
+      const { cpu, executed } = runBudget(true);
+      expect(executed).toBe(BUDGET);
+      expect(cpu.halted).toBe(false);
+      expect(cpu.cycles).toBe(BUDGET);
+      expect(cpu.clint.mtime).toBe(BUDGET);
+    });
+
+    it('should stop in the same state as the uncached interpreter', () => {
+      const state = ({ cpu }: { cpu: RiscVCpu }) => ({
+        pc: cpu.pc,
+        regs: Array.from({ length: 32 }, (_, i) => cpu.getReg(i)),
+        word: cpu.readWord(0x800),
+      });
+      expect(state(runBudget(true))).toEqual(state(runBudget(false)));
+    });
+
+    it('should decode each instruction of the loop only once', () => {
+      const { cpu } = runBudget(true);
+      // Everything but the ebreak has run
+      const instructions = assemble(LOOP_SOURCE).length / 4 - 1;
+      expect(cpu.decodeCache!.getStats()).toMatchObject({ misses: instructions, invalidations: 0 });
+    });
+  });
+});
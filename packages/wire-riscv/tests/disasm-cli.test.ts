@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { writeFileSync, readFileSync, mkdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { main, parseSymbolMap, symbolMapDataRegions } from '../src/emulator/disasm-cli.js';
+import { Assembler } from '../src/assembler/assembler.js';
+import { buildSymbolMap, formatSymbolMap } from '../src/assembler/listing.js';
+import { Linker, toElfExecutable, toRisvExecutable } from '../src/assembler/linker.js';
+
+describe('riscv-disasm CLI', () => {
+  const testDir = join(tmpdir(), 'riscv-disasm-test-' + Date.now());
+  let consoleLogs: string[] = [];
+  let consoleErrors: string[] = [];
+  let originalLog: typeof console.log;
+  let originalError: typeof console.error;
+
+  beforeEach(() => {
+    mkdirSync(testDir, { recursive: true });
+    consoleLogs = [];
+    consoleErrors = [];
+    originalLog = console.log;
+    originalError = console.error;
+    console.log = (...args) => consoleLogs.push(args.join(' '));
+    console.error = (...args) => consoleErrors.push(args.join(' '));
+  });
+
+  afterEach(() => {
+    console.log = originalLog;
+    console.error = originalError;
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  /** Write a file in the test directory */
+  function file(name: string, contents: string | Uint8Array): string {
+    const path = join(testDir, name);
+    writeFileSync(path, contents);
+    return path;
+  }
+
+  /** Link a program with code and data */
+  function link() {
+    const { object, errors } = new Assembler(`
+        .globl _start
+        .globl value
+      _start:
+        la a0, value
+        lw a0, 0(a0)
+        li a7, 0
+        ecall
+        .data
+      value:
+        .word 42
+    `).assembleObject();
+    expect(errors).toEqual([]);
+    const result = new Linker().link([{ name: 'main.o', object }]);
+    expect(result.errors).toEqual([]);
+    return result;
+  }
+
+  it('should show help and reject bad options', () => {
+    expect(main(['bun', 'disasm-cli.ts'])).toBe(1);
+    expect(main(['bun', 'disasm-cli.ts', '--help'])).toBe(0);
+    expect(consoleLogs.some(l => l.includes('Usage'))).toBe(true);
+    expect(main(['bun', 'disasm-cli.ts', 'a.bin', '--data', '0x10'])).toBe(1);
+    expect(consoleErrors).toContain("Error: --data must be start:end, got '0x10'");
+    expect(main(['bun', 'disasm-cli.ts', join(testDir, 'missing.bin')])).toBe(1);
+    expect(consoleErrors.at(-1)).toMatch(/^Error: File not found/);
+  });
+
+  it('should disassemble a raw binary with a symbol map', () => {
+    const { bytes } = new Assembler('loop:\n  addi a0, a0, -1\n  bnez a0, loop\n  ret\n.word 7').assemble();
+    const program = file('program.bin', bytes);
+    const map = file('program.map', '# symbols\n00001000 T countdown\n0x0000100c d seven\n');
+    expect(main(['bun', 'disasm-cli.ts', program, '--base', '0x1000', '--symbols', map, '--data', '0x100c:0x1010'])).toBe(0);
+    expect(consoleLogs[0].split('\n')).toEqual([
+      '# 16 bytes at 0x1000',
+      'countdown:',
+      '  00001000  fff50513           addi    a0, a0, -1',
+      '  00001004  fe051ee3           bnez    a0, countdown',
+      '  00001008  00008067           ret',
+      'seven:',
+      '  0000100c  00000007           .word   0x7',
+    ]);
+  });
+
+  it('should print the data of a riscv-asm symbol map as data', () => {
+    const result = new Assembler('main:\n  ret\n.data\nmessage: .ascii "Hi!!"\ncount: .word 3').assemble();
+    const program = file('program.bin', result.bytes);
+    const map = file('program.map', formatSymbolMap(
+      buildSymbolMap(result.symbols, result.labelSections, () => result.bytes.length, true)));
+    expect(main(['bun', 'disasm-cli.ts', program, '--symbols', map])).toBe(0);
+    expect(consoleLogs[0]).toContain('message:\n  00000004  21216948           .word   0x21216948\ncount:');
+  });
+
+  it('should print assembler source that reassembles', () => {
+    const { bytes } = new Assembler('start:\n  li a0, 0x12345\n  call start\n  j start').assemble();
+    const program = file('program.bin', bytes);
+    const output = join(testDir, 'program.asm');
+    expect(main(['bun', 'disasm-cli.ts', program, '--source', '-o', output])).toBe(0);
+    const source = readFileSync(output, 'utf-8');
+    expect(source).toContain('call    L00000000');
+    const result = new Assembler(source).assemble();
+    expect(result.errors).toEqual([]);
+    expect(result.bytes).toEqual(bytes);
+  });
+
+  it('should split RISV executables into code and data', () => {
+    const result = link();
+    const program = file('program.bin', toRisvExecutable(result));
+    expect(main(['bun', 'disasm-cli.ts', program, '--base', '0x1000'])).toBe(0);
+    const lines = consoleLogs[0].split('\n');
+    expect(lines[0]).toBe('# RISV executable: entry 0x1000, 20 bytes code, 4 bytes data, 0 bytes bss');
+    // la of another section is an absolute lui/addi pair
+    expect(lines).toContain('  00001000  00001537 01450513  li      a0, 0x1014');
+    expect(lines.at(-1)).toBe('  00001014  0000002a           .word   0x2a');
+  });
+
+  it('should use ELF segments and symbols', () => {
+    const program = file('program.elf', toElfExecutable(link()));
+    expect(main(['bun', 'disasm-cli.ts', program, '--no-pseudo'])).toBe(0);
+    const text = consoleLogs[0];
+    expect(text).toContain('# segment at 0x1000, 20 bytes, entry 0x1000\n_start:');
+    expect(text).toContain('addi    a7, zero, 0');
+    expect(text).toContain('value:\n  00001014  0000002a           .word   0x2a');
+  });
+
+  it('should parse symbol maps', () => {
+    expect(parseSymbolMap('1000 main\n\n0x2000 D data\n')).toEqual(new Map([['main', 0x1000], ['data', 0x2000]]));
+    expect(() => parseSymbolMap('main 1000')).toThrow("line 1: expected '<address> <name>'");
+    expect(symbolMapDataRegions('00000000  .text  8  main\n00000008  .rodata  6  table\n00000004  *ABS*  0  N\n'))
+      .toEqual([{ start: 8, end: 14 }]);
+    expect(symbolMapDataRegions('1000 main\n2000 D data')).toEqual([]);
+  });
+});
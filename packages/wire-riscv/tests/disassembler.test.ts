@@ -0,0 +1,308 @@
+import { describe, it, expect } from 'vitest';
+import { disassemble, disassembleProgram, formatDisassembly } from '../src/emulator/disassembler.js';
+import { Assembler, AssemblerResult } from '../src/assembler/assembler.js';
+
+/** Assemble a single instruction and return its encoding */
+function encode(source: string): number {
+  const result = new Assembler(source).assemble();
+  expect(result.errors).toEqual([]);
+  const { bytes } = result;
+  return (bytes[0] | (bytes[1] << 8) | (bytes[2] << 16) | (bytes[3] << 24)) >>> 0;
+}
+
+/** Assemble a program, failing on errors */
+function assemble(source: string): AssemblerResult {
+  const result = new Assembler(source).assemble();
+  expect(result.errors).toEqual([]);
+  return result;
+}
+
+/**
+ * Tests for the instruction disassembler
+ */
+describe('disassemble', () => {
+  it('should print operands with ABI register names', () => {
+    expect(disassemble(encode('addi a0, sp, 16'))).toBe('addi    a0, sp, 16');
+    expect(disassemble(encode('sub s0, s1, t6'))).toBe('sub     s0, s1, t6');
+    expect(disassemble(encode('mulhsu a0, a1, a2'))).toBe('mulhsu  a0, a1, a2');
+    expect(disassemble(encode('srai t0, t1, 3'))).toBe('srai    t0, t1, 3');
+    expect(disassemble(encode('lui a0, 0x12345'))).toBe('lui     a0, 0x12345');
+  });
+
+  it('should print memory operands as offset(base)', () => {
+    expect(disassemble(encode('lw a0, -4(sp)'))).toBe('lw      a0, -4(sp)');
+    expect(disassemble(encode('sb a1, 3(a0)'))).toBe('sb      a1, 3(a0)');
+    expect(disassemble(encode('jalr ra, 8(t0)'))).toBe('jalr    ra, 8(t0)');
+    expect(disassemble(encode('fld fa0, 16(sp)'))).toBe('fld     fa0, 16(sp)');
+  });
+
+  it('should resolve branch and jump targets against the pc', () => {
+    expect(disassemble(encode('beq a0, a1, 8'), 0x100)).toBe('beq     a0, a1, 0x108');
+    expect(disassemble(encode('jal ra, -4'), 0x100)).toBe('jal     ra, 0xfc');
+  });
+
+  it('should name CSRs and system instructions', () => {
+    expect(disassemble(encode('csrrw t0, mstatus, t1'))).toBe('csrrw   t0, mstatus, t1');
+    expect(disassemble(encode('csrrsi zero, mie, 8'))).toBe('csrrsi  zero, mie, 8');
+    expect(disassemble(encode('csrrs a0, 0x7c0, zero'))).toBe('csrrs   a0, 0x7c0, zero');
+    expect(disassemble(encode('ecall'))).toBe('ecall');
+    expect(disassemble(encode('mret'))).toBe('mret');
+    expect(disassemble(0x0000100f)).toBe('fence.i');
+  });
+
+  it('should print atomics and floating point', () => {
+    expect(disassemble(encode('amoswap.w.aqrl a0, a1, (a2)'))).toBe('amoswap.w.aqrl a0, a1, (a2)');
+    expect(disassemble(encode('lr.w t0, (a0)'))).toBe('lr.w    t0, (a0)');
+    expect(disassemble(encode('fadd.d fa0, fa1, fa2'))).toBe('fadd.d  fa0, fa1, fa2');
+    expect(disassemble(encode('fadd.s ft0, ft1, ft2, rtz'))).toBe('fadd.s  ft0, ft1, ft2, rtz');
+    expect(disassemble(encode('fmadd.s ft0, ft1, ft2, ft3'))).toBe('fmadd.s ft0, ft1, ft2, ft3');
+    expect(disassemble(encode('fcvt.w.d a0, fa0'))).toBe('fcvt.w.d a0, fa0');
+    expect(disassemble(encode('fle.s a0, ft0, ft1'))).toBe('fle.s   a0, ft0, ft1');
+  });
+
+  it('should show compressed instructions as their expansion', () => {
+    expect(disassemble(0x0515)).toBe('addi    a0, a0, 5');
+    expect(disassemble(0x8082)).toBe('jalr    zero, 0(ra)');
+  });
+
+  it('should print illegal encodings as data', () => {
+    expect(disassemble(0xffffffff)).toBe('.word   0xffffffff');
+    expect(disassemble(0x0000)).toBe('.half   0x0');
+  });
+});
+
+describe('pseudo-instructions', () => {
+  /** Disassemble one instruction as a pseudo-instruction */
+  function pseudo(source: string, pc = 0): string {
+    return disassemble(encode(source), pc, { pseudo: true });
+  }
+
+  it('should show the pseudo-instructions the assembler accepts', () => {
+    expect(pseudo('nop')).toBe('nop');
+    expect(pseudo('li a0, -5')).toBe('li      a0, -5');
+    expect(pseudo('mv s0, a1')).toBe('mv      s0, a1');
+    expect(pseudo('not t0, t1')).toBe('not     t0, t1');
+    expect(pseudo('neg t0, t1')).toBe('neg     t0, t1');
+    expect(pseudo('seqz t0, t1')).toBe('seqz    t0, t1');
+    expect(pseudo('snez t0, t1')).toBe('snez    t0, t1');
+    expect(pseudo('ret')).toBe('ret');
+    expect(pseudo('jr t0')).toBe('jr      t0');
+    expect(pseudo('j 8', 0x100)).toBe('j       0x108');
+    expect(pseudo('beqz a0, -4', 0x100)).toBe('beqz    a0, 0xfc');
+    expect(pseudo('bnez a0, 4')).toBe('bnez    a0, 0x4');
+    expect(pseudo('csrr t0, mepc')).toBe('csrr    t0, mepc');
+    expect(pseudo('csrw mtvec, t0')).toBe('csrw    mtvec, t0');
+    expect(pseudo('csrsi mstatus, 8')).toBe('csrsi   mstatus, 8');
+    expect(pseudo('fneg.d fa0, fa1')).toBe('fneg.d  fa0, fa1');
+    expect(disassemble(0x8082, 0, { pseudo: true })).toBe('ret');
+    // c.mv expands to add rd, zero, rs2
+    expect(disassemble(0x852e, 0, { pseudo: true })).toBe('mv      a0, a1');
+    expect(pseudo('add a0, zero, a1')).toBe('mv      a0, a1');
+  });
+
+  it('should keep instructions with no shorter form', () => {
+    expect(pseudo('addi a0, a1, 1')).toBe('addi    a0, a1, 1');
+    expect(pseudo('jal ra, 8')).toBe('jal     ra, 0x8');
+    expect(pseudo('jalr ra, 0(t0)')).toBe('jalr    ra, 0(t0)');
+    expect(pseudo('beq a0, a1, 8')).toBe('beq     a0, a1, 0x8');
+    expect(pseudo('csrrw a0, mscratch, a0')).toBe('csrrw   a0, mscratch, a0');
+  });
+
+  it('should name targets with a symbol lookup', () => {
+    const symbolize = (address: number) => (address === 0x108 ? 'loop' : null);
+    expect(disassemble(encode('beq a0, a1, 8'), 0x100, { symbolize })).toBe('beq     a0, a1, loop');
+    expect(disassemble(encode('j 12'), 0x100, { pseudo: true, symbolize })).toBe('j       0x10c');
+  });
+});
+
+describe('disassembleProgram', () => {
+  const PROGRAM = `
+    _start:
+      li a0, 5
+      li a1, 0x12345678
+      la t0, table
+      call count
+      beqz a0, done
+      tail count
+    count:
+      addi a0, a0, -1
+      bnez a0, count
+      ret
+    done:
+      j _start
+    table:
+      .word 0x11223344
+      .half 7
+      .byte 1
+  `;
+
+  it('should label targets, join instruction pairs and print data', () => {
+    const { bytes } = assemble(PROGRAM);
+    const lines = disassembleProgram(bytes, {
+      base: 0x1000,
+      symbols: new Map([['_start', 0x1000]]),
+      dataRegions: [{ start: 0x1038, end: 0x1040 }],
+    });
+    expect(formatDisassembly(lines)).toBe([
+      '_start:',
+      '  00001000  00500513           li      a0, 5',
+      '  00001004  123455b7 67858593  li      a1, 0x12345678',
+      '  0000100c  00000297 02c28293  la      t0, L00001038',
+      '  00001014  00000097 014080e7  call    L00001028',
+      '  0000101c  00050c63           beqz    a0, L00001034',
+      '  00001020  00000317 00830067  tail    L00001028',
+      'L00001028:',
+      '  00001028  fff50513           addi    a0, a0, -1',
+      '  0000102c  fe051ee3           bnez    a0, L00001028',
+      '  00001030  00008067           ret',
+      'L00001034:',
+      '  00001034  fcdff06f           j       _start',
+      'L00001038:',
+      '  00001038  11223344           .word   0x11223344',
+      '  0000103c  0007               .half   0x7',
+      '  0000103e  01                 .byte   0x1',
+    ].join('\n'));
+  });
+
+  it('should print base instructions without pseudo-instructions', () => {
+    const lines = disassembleProgram(assemble('li a0, 0x12345\nret').bytes, { pseudo: false });
+    expect(lines.map(line => line.text)).toEqual([
+      'lui     a0, 0x12',
+      'addi    a0, a0, 837',
+      'jalr    zero, 0(ra)',
+    ]);
+  });
+
+  it('should not join pairs split by a label', () => {
+    const { bytes } = assemble('lui a0, 0\naddi a0, a0, 5\nauipc t0, 0\nhere: addi t0, t0, 0');
+    const lines = disassembleProgram(bytes, { symbols: new Map([['here', 12]]) });
+    expect(lines.map(line => line.text)).toEqual([
+      'li      a0, 5',
+      'auipc   t0, 0x0',
+      'mv      t0, t0',
+    ]);
+    expect(lines[2].labels).toEqual(['here']);
+  });
+
+  it('should show li of a later label as li of the label', () => {
+    const { bytes, symbols } = assemble('li a0, later\nli a1, LATER\n.equ LATER, 4\nlater: ret');
+    const lines = disassembleProgram(bytes, { symbols: new Map([['later', symbols.get('later')!]]) });
+    expect(lines.map(line => line.text)).toEqual(['li      a0, later', 'li      a1, 4', 'ret']);
+  });
+
+  it('should split data at labels and keep labels at the end', () => {
+    const bytes = new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8]);
+    const lines = disassembleProgram(bytes, {
+      symbols: new Map([['middle', 2], ['end', 8]]),
+      dataRegions: [{ start: 0, end: 8 }],
+    });
+    expect(formatDisassembly(lines, false)).toBe([
+      '    .half   0x201',
+      'middle:',
+      '    .half   0x403',
+      '    .word   0x8070605',
+      'end:',
+    ].join('\n'));
+  });
+
+  it('should print truncated and illegal code as data', () => {
+    const lines = disassembleProgram(new Uint8Array([0x00, 0x00, 0x13, 0x05, 0x50]));
+    expect(lines.map(line => line.text)).toEqual(['.half   0x0', '.half   0x513', '.byte   0x50']);
+  });
+
+  it('should print zero padding as one directive', () => {
+    const { bytes } = assemble('j end\n.align 4\nend: ret\ntable: .word 1\n.space 12\n.word 2');
+    const lines = disassembleProgram(bytes, {
+      symbols: new Map([['end', 16]]),
+      dataRegions: [{ start: 20, end: bytes.length }],
+    });
+    expect(formatDisassembly(lines).split('\n')).toEqual([
+      '  00000000  0100006f           j       end',
+      '  00000004  00000000 ...       .zero   12',
+      'end:',
+      '  00000010  00008067           ret',
+      '  00000014  00000001           .word   0x1',
+      '  00000018  00000000 ...       .zero   12',
+      '  00000024  00000002           .word   0x2',
+    ]);
+    // Short runs and runs split by labels stay words
+    const split = disassembleProgram(new Uint8Array(12), { symbols: new Map([['half', 4]]) });
+    expect(formatDisassembly(split, false)).toBe('    .word   0x0\nhalf:\n    .zero   8');
+  });
+
+  it('should reassemble to the same bytes', () => {
+    const programs = [
+      PROGRAM,
+      `
+        .equ UART, 0x10000000
+        start:
+          li t0, UART
+          li t1, -1
+          csrr a0, mhartid
+          csrs mstatus, t0
+          csrwi mie, 8
+          lw a1, 8(sp)
+          sb a1, -1(t0)
+          neg a2, a1
+          seqz a3, a2
+          jalr ra, 4(t0)
+        back:
+          blt a0, a1, back
+          bgeu a2, a3, start
+          mul a0, a0, a1
+          lr.w t0, (a0)
+          fadd.d fa0, fa1, fa2
+          fmv.s ft0, ft1
+          ecall
+          j back
+      `,
+    ];
+    for (const source of programs) {
+      const original = assemble(source);
+      const dataStart = original.symbols.get('table') ?? original.bytes.length;
+      const text = formatDisassembly(disassembleProgram(original.bytes, {
+        dataRegions: [{ start: dataStart, end: original.bytes.length }],
+      }), false);
+      expect(assemble(text).bytes).toEqual(original.bytes);
+    }
+  });
+
+  it('should reassemble compressed code with .option rvc', () => {
+    const original = assemble(`.option rvc\n  mv a2, a3\n  li a0, count\n${PROGRAM}`);
+    const lines = disassembleProgram(original.bytes, {
+      symbols: original.symbols,
+      dataRegions: [{ start: original.symbols.get('table')!, end: original.bytes.length }],
+    });
+    expect(lines.some(line => line.bytes.length === 2 && line.text.startsWith('mv '))).toBe(true);
+    const text = formatDisassembly(lines, false);
+    expect(text.startsWith('    .option rvc\n')).toBe(true);
+    expect(assemble(text).bytes).toEqual(original.bytes);
+  });
+
+  it('should reassemble fences and code that switches compression on and off', () => {
+    const original = assemble(`
+        .option rvc
+      _start:
+        li a0, 5
+        fence
+        fence rw, w
+        fence.i
+        addi a0, a0, 1
+      loop:
+        addi a0, a0, -1
+        bnez a0, loop
+        .option norvc
+        addi a0, a0, 1
+        lui a1, 0x12345
+        ret
+        .option rvc
+        ret
+    `);
+    const lines = disassembleProgram(original.bytes, { symbols: original.symbols });
+    expect(lines.filter(line => line.text.startsWith('.option')).map(line => line.text)).toEqual([
+      '.option rvc', '.option norvc', '.option rvc',
+    ]);
+    expect(assemble(formatDisassembly(lines, false)).bytes).toEqual(original.bytes);
+    expect(formatDisassembly(lines)).toContain(`\n${' '.repeat(31)}.option norvc\n`);
+  });
+});
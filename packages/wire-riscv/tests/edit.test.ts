@@ -8,7 +8,7 @@ describe('EDIT - Text Editor', () => {
     let assembler: NativeAssembler;
 
     beforeEach(() => {
-      cpu = new RiscVCpu(64 * 1024); // 64KB RAM
+      cpu = new RiscVCpu({ memorySize: 64 * 1024, hostSyscalls: true }); // 64KB RAM
       assembler = new NativeAssembler();
     });
 
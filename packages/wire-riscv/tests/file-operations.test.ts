@@ -9,7 +9,7 @@ describe('File Operations (task-31.3)', () => {
   let fs: WireFS;
 
   beforeEach(() => {
-    cpu = new RiscVCpu(64 * 1024);
+    cpu = new RiscVCpu({ memorySize: 64 * 1024, hostSyscalls: true });
     assembler = new NativeAssembler();
     fs = new WireFS();
     fs.format(); // Format the filesystem
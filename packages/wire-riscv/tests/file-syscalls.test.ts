@@ -20,7 +20,7 @@ describe('File Syscalls', () => {
   let asm: NativeAssembler;
 
   beforeEach(() => {
-    cpu = new RiscVCpu({ memorySize: 0x10000 });
+    cpu = new RiscVCpu({ memorySize: 0x10000, hostSyscalls: true });
     const storage = new Uint8Array(64 * 1024);
     fs = new WireFS(storage);
     fs.format();
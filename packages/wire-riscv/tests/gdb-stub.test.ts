@@ -0,0 +1,284 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { connect } from 'net';
+import { RiscVCpu } from '../src/emulator/cpu.js';
+import { CSR } from '../src/emulator/csr.js';
+import { GdbStub, GDB_REGISTER, TARGET_XML } from '../src/emulator/gdb-stub.js';
+import { GdbServer } from '../src/emulator/gdb-server.js';
+import { Assembler } from '../src/assembler/assembler.js';
+
+/** Frame a payload as an RSP packet */
+function frame(payload: string): string {
+  let sum = 0;
+  for (const char of payload) {
+    sum = (sum + char.charCodeAt(0)) & 0xff;
+  }
+  return `$${payload}#${sum.toString(16).padStart(2, '0')}`;
+}
+
+/** Payloads of every packet in raw stub output */
+function payloads(output: string): string[] {
+  return [...output.matchAll(/\$([^#]*)#[0-9a-f]{2}/g)].map((match) => match[1]);
+}
+
+/**
+ * Tests for the GDB remote serial protocol stub
+ */
+describe('GdbStub', () => {
+  let cpu: RiscVCpu;
+  let stub: GdbStub;
+  let output: string;
+  let scheduled: Array<() => void>;
+
+  beforeEach(() => {
+    cpu = new RiscVCpu({ memorySize: 4096, hostSyscalls: true });
+    output = '';
+    scheduled = [];
+    stub = new GdbStub(cpu, (data) => { output += data; }, (callback) => scheduled.push(callback));
+  });
+
+  function load(source: string): void {
+    const result = new Assembler(source).assemble();
+    expect(result.errors).toEqual([]);
+    cpu.loadProgram(result.bytes);
+  }
+
+  /** Send a packet and return the payload of the reply */
+  function request(payload: string): string {
+    output = '';
+    stub.receive(frame(payload));
+    const replies = payloads(output);
+    expect(replies).toHaveLength(1);
+    return replies[0];
+  }
+
+  /** Run scheduled continue slices until the stub stops */
+  function drain(): string {
+    while (scheduled.length > 0) {
+      scheduled.shift()!();
+    }
+    return payloads(output).pop()!;
+  }
+
+  /** Continue and wait for the stop reply */
+  function resume(): string {
+    output = '';
+    stub.receive(frame('c'));
+    return drain();
+  }
+
+  describe('packets', () => {
+    it('should acknowledge good packets and reject bad checksums', () => {
+      stub.receive('$?#00');
+      expect(output).toBe('-');
+
+      output = '';
+      stub.receive(frame('?'));
+      expect(output).toBe('+$S05#b8');
+    });
+
+    it('should reassemble packets split across reads', () => {
+      const packet = frame('g');
+      stub.receive(packet.slice(0, 2));
+      expect(output).toBe('');
+      stub.receive(packet.slice(2));
+      expect(payloads(output)[0]).toHaveLength(33 * 8);
+    });
+
+    it('should stop acknowledging in no-ack mode', () => {
+      expect(request('QStartNoAckMode')).toBe('OK');
+      output = '';
+      stub.receive(frame('?'));
+      expect(output).toBe('$S05#b8');
+    });
+
+    it('should advertise features and serve the target description in chunks', () => {
+      expect(request('qSupported:multiprocess+;swbreak+')).toContain('qXfer:features:read+');
+
+      let xml = '';
+      for (let offset = 0; ; offset += 0x100) {
+        const reply = request(`qXfer:features:read:target.xml:${offset.toString(16)},100`);
+        xml += reply.slice(1);
+        if (reply[0] === 'l') {
+          break;
+        }
+      }
+      expect(xml).toBe(TARGET_XML);
+      expect(xml).toContain('<architecture>riscv:rv32</architecture>');
+      expect(xml).toContain('<reg name="mstatus" bitsize="32" regnum="833"');
+    });
+
+    it('should answer unsupported packets with an empty reply', () => {
+      expect(request('vMustReplyEmpty')).toBe('');
+    });
+  });
+
+  describe('registers', () => {
+    it('should read and write the general registers', () => {
+      cpu.setReg(1, 0x12345678);
+      cpu.pc = 0x100;
+      const registers = request('g');
+      expect(registers.slice(8, 16)).toBe('78563412');
+      expect(registers.slice(32 * 8)).toBe('00010000');
+
+      const updated = registers.slice(0, 16) + 'efbeadde' + registers.slice(24, 32 * 8) + '04000000';
+      expect(request(`G${updated}`)).toBe('OK');
+      expect(cpu.getReg(2)).toBe(0xdeadbeef);
+      expect(cpu.pc).toBe(4);
+    });
+
+    it('should read and write single registers, including FP and CSRs', () => {
+      expect(request('P5=2a000000')).toBe('OK');
+      expect(cpu.getReg(5)).toBe(42);
+      expect(request(`p${GDB_REGISTER.PC.toString(16)}`)).toBe('00000000');
+
+      cpu.fpu.writeDouble(1, 1.5);
+      expect(request(`p${(GDB_REGISTER.FIRST_FP + 1).toString(16)}`)).toBe('000000000000f83f');
+
+      const mtvec = (GDB_REGISTER.CSR_BASE + CSR.MTVEC).toString(16);
+      expect(request(`P${mtvec}=00020000`)).toBe('OK');
+      expect(cpu.csr.mtvec).toBe(0x200);
+      expect(request(`p${mtvec}`)).toBe('00020000');
+      expect(request(`p${GDB_REGISTER.PRIV.toString(16)}`)).toBe('03000000');
+      expect(request('p1000')).toBe('E01');
+    });
+  });
+
+  describe('memory', () => {
+    it('should read and write memory in hex and binary', () => {
+      cpu.writeWord(0x800, 0x44332211);
+      expect(request('m800,4')).toBe('11223344');
+
+      expect(request('M804,2:abcd')).toBe('OK');
+      expect(cpu.readHalfword(0x804)).toBe(0xcdab);
+
+      // '#' (0x23) is escaped as '}' followed by 0x23 ^ 0x20
+      expect(request('X808,2:}\x03\x01')).toBe('OK');
+      expect(cpu.readHalfword(0x808)).toBe(0x0123);
+    });
+
+    it('should report unmapped memory', () => {
+      expect(request('m40000000,4')).toBe('E14');
+      expect(request('M40000000,1:00')).toBe('E14');
+    });
+  });
+
+  describe('execution', () => {
+    beforeEach(() => {
+      load(`
+          li a0, 1
+          li a1, 2
+        target:
+          add a2, a0, a1
+          li t0, 0x800
+          sw a2, 0(t0)
+          lw a3, 0(t0)
+          li a0, 3
+          li a7, 0
+          ecall
+      `);
+    });
+
+    it('should single-step', () => {
+      expect(request('s')).toBe('S05');
+      expect(cpu.pc).toBe(4);
+      expect(cpu.getReg(10)).toBe(1);
+    });
+
+    it('should stop at software and hardware breakpoints and step off them', () => {
+      expect(request('Z0,8,4')).toBe('OK');
+      expect(resume()).toBe('T05swbreak:;');
+      expect(cpu.pc).toBe(8);
+
+      expect(request('z0,8,4')).toBe('OK');
+      expect(request('Z1,c,4')).toBe('OK');
+      expect(resume()).toBe('T05hwbreak:;');
+      expect(cpu.pc).toBe(0xc);
+    });
+
+    it('should hit a breakpoint at the pc a continue starts from', () => {
+      expect(request('Z0,0,4')).toBe('OK');
+      expect(resume()).toBe('T05swbreak:;');
+      expect(cpu.pc).toBe(0);
+      expect(cpu.getReg(10)).toBe(0);
+
+      // Stopped there, the next continue steps off it
+      expect(resume()).toBe('W03');
+
+      // So does one at a pc the debugger moves to
+      cpu.reset();
+      load('li a0, 1\nli a0, 2\nebreak');
+      expect(request('Z1,4,4')).toBe('OK');
+      expect(request('P20=04000000')).toBe('OK');
+      expect(resume()).toBe('T05hwbreak:;');
+      expect(cpu.getReg(10)).toBe(0);
+    });
+
+    it('should stop after accesses to watched memory', () => {
+      expect(request('Z3,800,4')).toBe('OK');
+      expect(resume()).toBe('T05rwatch:800;');
+      expect(cpu.getReg(13)).toBe(3); // the lw completed
+
+      expect(request('z3,800,4')).toBe('OK');
+      expect(cpu.watchAccess).toBeNull();
+
+      cpu.reset();
+      load('li t0, 0x800\nsw t0, 0(t0)\nebreak');
+      expect(request('Z2,800,4')).toBe('OK');
+      expect(resume()).toBe('T05watch:800;');
+    });
+
+    it('should report the exit code when the program exits', () => {
+      expect(resume()).toBe('W03');
+      expect(request('?')).toBe('W03');
+    });
+
+    it('should report a signal when a trap halts the hart', () => {
+      cpu = new RiscVCpu({ memorySize: 4096, hostSyscalls: false });
+      stub = new GdbStub(cpu, (data) => { output += data; }, (callback) => scheduled.push(callback));
+      load('nop\n.word 0');
+      expect(resume()).toBe('S04');
+      expect(request('?')).toBe('S04');
+
+      // An ecall at pc is no exit unless the exit syscall ran
+      cpu.reset();
+      load('li a7, 0\necall');
+      expect(resume()).toBe('S05');
+    });
+
+    it('should stop a running continue on Ctrl-C', () => {
+      load('loop: j loop');
+      output = '';
+      stub.receive(frame('c'));
+      expect(stub.isRunning()).toBe(true);
+      expect(payloads(output)).toEqual([]);
+
+      stub.receive('\x03');
+      expect(drain()).toBe('S02');
+      expect(stub.isRunning()).toBe(false);
+    });
+  });
+});
+
+describe('GdbServer', () => {
+  it('should serve the stub over TCP', async () => {
+    const cpu = new RiscVCpu({ memorySize: 4096, hostSyscalls: true });
+    const server = new GdbServer(cpu);
+    const port = await server.listen(0);
+
+    const reply = await new Promise<string>((resolve, reject) => {
+      const socket = connect(port, '127.0.0.1', () => socket.write(frame('m0,4')));
+      let received = '';
+      socket.on('data', (chunk) => {
+        received += chunk.toString('latin1');
+        if (/\$[^#]*#[0-9a-f]{2}/.test(received)) {
+          socket.destroy();
+          resolve(received);
+        }
+      });
+      socket.on('error', reject);
+    });
+    await server.close();
+
+    expect(reply).toBe(`+${frame('00000000')}`);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RiscVCpu } from '../src/emulator/cpu.js';
+import { Htif } from '../src/emulator/htif.js';
+import { ElfSymbol, STT, STB } from '../src/emulator/elf.js';
+import { Assembler } from '../src/assembler/assembler.js';
+
+/**
+ * Tests for the HTIF tohost/fromhost mailbox
+ */
+describe('HTIF', () => {
+  let cpu: RiscVCpu;
+  let symbols: Map<string, number>;
+
+  beforeEach(() => {
+    cpu = new RiscVCpu({ memorySize: 0x10000, hostSyscalls: false });
+  });
+
+  /** Assemble a program with a tohost/fromhost mailbox */
+  function load(source: string): Htif {
+    const result = new Assembler(`${source}
+      .align 6
+      tohost:
+        .word 0, 0
+      fromhost:
+        .word 0, 0
+    `).assemble();
+    expect(result.errors).toEqual([]);
+    cpu.loadProgram(result.bytes);
+    symbols = result.symbols;
+    return Htif.fromSymbols(cpu, symbols)!;
+  }
+
+  it('should find the mailbox through ELF symbols', () => {
+    const symbols: ElfSymbol[] = [
+      { name: 'fromhost', value: 0x1040, size: 8, type: STT.OBJECT, binding: STB.GLOBAL },
+      { name: 'tohost', value: 0x1000, size: 8, type: STT.OBJECT, binding: STB.GLOBAL },
+    ];
+    expect(Htif.fromSymbols(cpu, symbols)).not.toBeNull();
+    expect(Htif.fromSymbols(cpu, symbols.slice(0, 1))).toBeNull();
+    expect(Htif.fromSymbols(cpu, new Map())).toBeNull();
+  });
+
+  it('should report a passing exit and halt the hart', () => {
+    const htif = load(`
+        li t0, 1
+        la t1, tohost
+        sw t0, 0(t1)
+      halt: j halt
+    `);
+    const result = htif.run(1000);
+    expect(result).toMatchObject({ finished: true, exitCode: 0, passed: true });
+    expect(cpu.halted).toBe(true);
+    expect(cpu.exitCode).toBe(0);
+  });
+
+  it('should report the failing test number', () => {
+    const htif = load(`
+        li t0, ${(5 << 1) | 1}
+        la t1, tohost
+        sw t0, 0(t1)
+      halt: j halt
+    `);
+    expect(htif.run(1000)).toMatchObject({ finished: true, exitCode: 5, passed: false });
+  });
+
+  it('should print console characters and acknowledge them in fromhost', () => {
+    const htif = load(`
+        la t1, tohost
+        li t2, 0x01010000
+        li t0, 0x48
+        sw t2, 4(t1)
+        sw t0, 0(t1)
+      wait:
+        lw t0, 0(t1)
+        bne t0, zero, wait
+        li t0, 0x69
+        sw t2, 4(t1)
+        sw t0, 0(t1)
+      wait2:
+        lw t0, 0(t1)
+        bne t0, zero, wait2
+        li t0, 1
+        sw t0, 0(t1)
+        sw zero, 4(t1)
+      halt: j halt
+    `);
+    const result = htif.run(1000, 5);
+    expect(result.passed).toBe(true);
+    expect(cpu.consoleOutput).toBe('Hi');
+    const fromhost = symbols.get('fromhost')!;
+    expect(cpu.readWord(fromhost)).toBe(1);
+    expect(cpu.readWord(fromhost + 4)).toBe(0x01010000);
+    expect(cpu.readWord(symbols.get('tohost')!)).toBe(0); // Cleared once taken
+  });
+
+  it('should fail unsupported commands and leave unfinished runs open', () => {
+    const htif = load(`
+        li t0, 0x1000
+        la t1, tohost
+        sw t0, 0(t1)
+      halt: j halt
+    `);
+    expect(htif.run(1000)).toMatchObject({ finished: true, exitCode: 0xff });
+
+    cpu = new RiscVCpu({ memorySize: 0x10000, hostSyscalls: false });
+    const idle = load('idle: j idle');
+    const result = idle.run(500);
+    expect(result).toMatchObject({ finished: false, exitCode: null, passed: false, cycles: 500 });
+  });
+});
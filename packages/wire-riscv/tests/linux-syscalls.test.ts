@@ -0,0 +1,283 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RiscVCpu } from '../src/emulator/cpu.js';
+import { WireFS } from '../src/emulator/filesystem.js';
+import { LINUX_SYSCALL, LINUX_ERRNO, LINUX_OPEN } from '../src/emulator/linux-syscalls.js';
+import { Assembler } from '../src/assembler/assembler.js';
+
+/**
+ * Tests for the Linux user-mode syscall ABI
+ */
+describe('Linux syscall ABI', () => {
+  let cpu: RiscVCpu;
+  let fs: WireFS;
+
+  beforeEach(() => {
+    cpu = new RiscVCpu({ memorySize: 0x10000, syscallAbi: 'linux', hostSyscalls: true });
+    fs = new WireFS(new Uint8Array(64 * 1024));
+    fs.format();
+    cpu.filesystem = fs;
+    cpu.setReg(2, 0xfff0);
+  });
+
+  function load(source: string): void {
+    const result = new Assembler(source).assemble();
+    expect(result.errors).toEqual([]);
+    cpu.loadProgram(result.bytes);
+  }
+
+  /** Run a program up to its exit and return the exit code */
+  function runToExit(source: string): number {
+    load(source);
+    cpu.run(100000);
+    expect(cpu.halted).toBe(true);
+    return cpu.exitCode;
+  }
+
+  /** a0 as a signed result */
+  function result(): number {
+    return cpu.getReg(10) | 0;
+  }
+
+  it('should write to stdout and exit with exit_group', () => {
+    const code = runToExit(`
+        li a0, 1
+        la a1, message
+        li a2, 6
+        li a7, ${LINUX_SYSCALL.WRITE}
+        ecall
+        mv s0, a0
+        li a0, 2
+        la a1, message
+        li a2, 2
+        li a7, ${LINUX_SYSCALL.WRITE}
+        ecall
+        add a0, a0, s0
+        li a7, ${LINUX_SYSCALL.EXIT_GROUP}
+        ecall
+      message:
+        .string "hello\\n"
+    `);
+    expect(cpu.consoleOutput).toBe('hello\nhe');
+    expect(code).toBe(8);
+  });
+
+  it('should fail with EFAULT for an unmapped buffer', () => {
+    const code = runToExit(`
+        li a0, 1
+        li a1, 0x40000000
+        li a2, 4
+        li a7, ${LINUX_SYSCALL.WRITE}
+        ecall
+        li a7, ${LINUX_SYSCALL.EXIT}
+        ecall
+    `);
+    expect(code).toBe(-LINUX_ERRNO.EFAULT >>> 0);
+  });
+
+  it('should gather writev buffers', () => {
+    runToExit(`
+        li a1, 0x800
+        la t0, first
+        sw t0, 0(a1)
+        li t0, 2
+        sw t0, 4(a1)
+        la t0, second
+        sw t0, 8(a1)
+        li t0, 3
+        sw t0, 12(a1)
+        li a0, 1
+        li a2, 2
+        li a7, ${LINUX_SYSCALL.WRITEV}
+        ecall
+        li a7, ${LINUX_SYSCALL.EXIT}
+        ecall
+      first:
+        .ascii "ab"
+      second:
+        .ascii "cde"
+    `);
+    expect(cpu.consoleOutput).toBe('abcde');
+    expect(cpu.exitCode).toBe(5);
+  });
+
+  it('should block reads from stdin until a line is typed', () => {
+    load(`
+        li a0, 0
+        li a1, 0x800
+        li a2, 16
+        li a7, ${LINUX_SYSCALL.READ}
+        ecall
+        li a7, ${LINUX_SYSCALL.EXIT}
+        ecall
+    `);
+    cpu.run(100);
+    expect(cpu.halted).toBe(false);
+    expect(cpu.pc).toBe(20); // Still waiting at the ecall
+
+    for (const key of [0x68, 0x69, 0x0D, 0x21]) {
+      cpu.keyboard.keyPress(key);
+    }
+    cpu.run(100);
+    expect(cpu.halted).toBe(true);
+    expect(cpu.exitCode).toBe(3);
+    expect([0, 1, 2].map((i) => cpu.readByte(0x800 + i))).toEqual([0x68, 0x69, 0x0A]);
+    expect(cpu.keyboard.hasKey()).toBe(true); // The next line stays buffered
+  });
+
+  it('should create, write and read back WireFS files', () => {
+    const flags = LINUX_OPEN.WRONLY | LINUX_OPEN.CREAT | LINUX_OPEN.TRUNC;
+    runToExit(`
+        li a0, -100
+        la a1, path
+        li a2, ${flags}
+        li a7, ${LINUX_SYSCALL.OPENAT}
+        ecall
+        mv s0, a0
+        la a1, text
+        li a2, 5
+        li a7, ${LINUX_SYSCALL.WRITE}
+        ecall
+        mv a0, s0
+        li a7, ${LINUX_SYSCALL.CLOSE}
+        ecall
+        li a7, ${LINUX_SYSCALL.EXIT}
+        ecall
+      path:
+        .string "/notes.txt"
+      text:
+        .string "wired"
+    `);
+    expect(new TextDecoder().decode(fs.readFile('NOTES', 'TXT')!)).toBe('wired');
+
+    cpu.reset();
+    cpu.setReg(2, 0xfff0);
+    runToExit(`
+        li a0, -100
+        la a1, path
+        li a2, ${LINUX_OPEN.RDONLY}
+        li a7, ${LINUX_SYSCALL.OPENAT}
+        ecall
+        mv s0, a0
+        li a1, -3
+        li a2, 2
+        li a7, ${LINUX_SYSCALL.LSEEK}
+        ecall
+        mv s1, a0
+        mv a0, s0
+        li a1, 0x800
+        li a2, 16
+        li a7, ${LINUX_SYSCALL.READ}
+        ecall
+        mv s2, a0
+        mv a0, s0
+        li a1, 0x900
+        li a7, ${LINUX_SYSCALL.FSTAT}
+        ecall
+        mv a0, s1
+        li a7, ${LINUX_SYSCALL.EXIT}
+        ecall
+      path:
+        .string "notes.txt"
+    `);
+    expect(cpu.getReg(8)).toBe(3); // First file descriptor
+    expect(cpu.exitCode).toBe(2); // lseek(fd, -3, SEEK_END)
+    expect(cpu.getReg(18)).toBe(3);
+    expect([0, 1, 2].map((i) => String.fromCharCode(cpu.readByte(0x800 + i))).join('')).toBe('red');
+    expect(cpu.readWord(0x900 + 16) >>> 12).toBe(0o100000 >>> 12); // S_IFREG
+    expect(cpu.readWord(0x900 + 48)).toBe(5); // st_size
+  });
+
+  it('should report errors as negative errno', () => {
+    load(`
+        li a0, -100
+        la a1, path
+        li a2, 0
+        li a7, ${LINUX_SYSCALL.OPENAT}
+        ecall
+        mv s0, a0
+        li a0, 9
+        li a7, ${LINUX_SYSCALL.CLOSE}
+        ecall
+        mv s1, a0
+        li a7, 999
+        ecall
+        halt: j halt
+      path:
+        .string "missing.txt"
+    `);
+    cpu.run(100);
+    expect(cpu.getReg(8) | 0).toBe(-LINUX_ERRNO.ENOENT);
+    expect(cpu.getReg(9) | 0).toBe(-LINUX_ERRNO.EBADF);
+    expect(result()).toBe(-LINUX_ERRNO.ENOSYS);
+  });
+
+  it('should grow the heap with brk up to the stack', () => {
+    cpu.linux.setBreak(0x4000);
+    load(`
+        li a0, 0
+        li a7, ${LINUX_SYSCALL.BRK}
+        ecall
+        mv s0, a0
+        li a0, 0x5000
+        ecall
+        mv s1, a0
+        li a0, 0x20000
+        ecall
+        halt: j halt
+    `);
+    cpu.run(100);
+    expect(cpu.getReg(8)).toBe(0x4000);
+    expect(cpu.getReg(9)).toBe(0x5000);
+    expect(cpu.getReg(10)).toBe(0x5000); // Beyond the stack: unchanged
+  });
+
+  it('should derive monotonic time from cycles', () => {
+    load(`
+        li a0, 1
+        li a1, 0x800
+        li a7, ${LINUX_SYSCALL.CLOCK_GETTIME}
+        ecall
+        halt: j halt
+    `);
+    cpu.cycles = 25_000_000;
+    cpu.run(100);
+    expect(result()).toBe(0);
+    expect(cpu.readWord(0x800)).toBe(2);
+    expect(cpu.readWord(0x804)).toBe(500_000_400);
+  });
+
+  it('should keep open files across saveState and restoreState', () => {
+    load(`
+        li a0, -100
+        la a1, path
+        li a2, ${LINUX_OPEN.RDWR | LINUX_OPEN.CREAT}
+        li a7, ${LINUX_SYSCALL.OPENAT}
+        ecall
+        la a1, path
+        li a2, 3
+        li a7, ${LINUX_SYSCALL.WRITE}
+        ecall
+        halt: j halt
+      path:
+        .string "a.txt"
+    `);
+    cpu.run(100);
+    expect(fs.readFile('A.TXT')).toEqual(new Uint8Array(0)); // Saved on close
+
+    const copy = new RiscVCpu({ memorySize: 0x10000, hostSyscalls: true });
+    copy.filesystem = fs;
+    copy.restoreState(cpu.saveState());
+    expect(copy.syscallAbi).toBe('linux');
+
+    const close = new Assembler(`
+        li a0, 3
+        li a7, ${LINUX_SYSCALL.CLOSE}
+        ecall
+        halt: j halt
+    `).assemble();
+    copy.loadProgram(close.bytes);
+    copy.pc = 0;
+    copy.run(10);
+    expect(new TextDecoder().decode(fs.readFile('A.TXT')!)).toBe('a.t');
+  });
+});
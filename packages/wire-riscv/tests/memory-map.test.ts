@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest';
+import { RiscVCpu } from '../src/emulator/cpu.js';
+import {
+  BOARD_MEMORY_MAP,
+  DEFAULT_MEMORY_MAP,
+  MemoryMapConfig,
+  resolveMemoryMap,
+} from '../src/emulator/memory-map.js';
+import { BusError } from '../src/emulator/bus.js';
+import { CSR } from '../src/emulator/csr.js';
+import { EXCEPTION_CAUSE } from '../src/emulator/trap.js';
+import { GRAPHICS_BASE } from '../src/emulator/graphics.js';
+import { Bootloader, getBootLayout } from '../src/emulator/bootloader.js';
+import { ProgramLoader, ExecutableBuilder } from '../src/emulator/program-loader.js';
+import { InteractiveSystem } from '../src/emulator/boot-disk.js';
+import { Assembler } from '../src/assembler/assembler.js';
+
+/** Board layout as a config: RAM at 0x80000000, ROM at 0xFFFF0000 */
+const BOARD: MemoryMapConfig = BOARD_MEMORY_MAP;
+
+/**
+ * Tests for configurable memory maps
+ */
+describe('Memory map', () => {
+  /** Assemble a program, failing on errors */
+  function assemble(source: string): Uint8Array {
+    const result = new Assembler(source).assemble();
+    expect(result.errors).toEqual([]);
+    return result.bytes;
+  }
+
+  describe('resolveMemoryMap', () => {
+    it('should default to 64KB of RAM at 0', () => {
+      expect(resolveMemoryMap()).toEqual({ ...DEFAULT_MEMORY_MAP, rom: undefined });
+      expect(resolveMemoryMap({}, 0x4000).ram).toEqual({ base: 0, size: 0x4000 });
+      expect(resolveMemoryMap({ ram: { base: 0x80000000 } }).resetVector).toBe(0x80000000);
+      expect(resolveMemoryMap(BOARD).resetVector).toBe(0xFFFF0000);
+    });
+
+    it('should reject invalid maps', () => {
+      expect(() => resolveMemoryMap({ ram: { size: 0 } })).toThrow('Invalid RAM range');
+      expect(() => resolveMemoryMap({ ram: { base: 0xFFFFF000, size: 0x2000 } })).toThrow('Invalid RAM range');
+      expect(() => resolveMemoryMap({ resetVector: 0x20000 })).toThrow('outside RAM and ROM');
+      expect(() => resolveMemoryMap({ rom: { base: 0x100000, size: 4, data: new Uint8Array(8) } }))
+        .toThrow('does not fit');
+    });
+  });
+
+  describe('CPU', () => {
+    it('should run from RAM at a high base and fault below it', () => {
+      const cpu = new RiscVCpu({ memoryMap: { ram: { base: 0x80000000, size: 0x100000 } }, hostSyscalls: false });
+      expect(cpu.pc).toBe(0x80000000);
+      expect(cpu.getMemorySize()).toBe(0x100000);
+      cpu.loadProgram(assemble(`
+          la t0, handler
+          csrw mtvec, t0
+          li t1, 0x1234
+          sw t1, 0x100(t0)
+          lw t2, 0(zero)
+        handler:
+          j handler
+      `));
+      cpu.run(20);
+
+      const handler = cpu.getReg(5);
+      expect(cpu.readWord(handler + 0x100)).toBe(0x1234);
+      expect(cpu.memory[handler - 0x80000000 + 0x100]).toBe(0x34);
+      expect(cpu.readCsr(CSR.MCAUSE)).toBe(EXCEPTION_CAUSE.LOAD_ACCESS_FAULT);
+      expect(() => cpu.readWord(0x100)).toThrow(BusError);
+    });
+
+    it('should allocate multi-megabyte RAM', () => {
+      const cpu = new RiscVCpu({ memorySize: 8 * 1024 * 1024, hostSyscalls: true });
+      cpu.loadProgram(assemble(`
+          li t0, 0x7ffffc
+          li t1, 77
+          sw t1, 0(t0)
+          lw a0, 0(t0)
+          li a7, 0
+          ecall
+      `));
+      cpu.run(100);
+      expect(cpu.exitCode).toBe(77);
+    });
+
+    it('should reject programs that do not fit', () => {
+      const cpu = new RiscVCpu({ memorySize: 0x1000 });
+      expect(() => cpu.loadProgram(new Uint8Array(8), 0xffc)).toThrow('does not fit');
+    });
+
+    it('should boot from ROM and fault stores to it', () => {
+      const image = assemble(`
+          la t0, handler
+          csrw mtvec, t0
+          li t1, 0x80000000
+          li t2, 5
+          sw t2, 0(t1)
+          sw t2, 0(t0)
+        handler:
+          j handler
+      `);
+      const cpu = new RiscVCpu({
+        memoryMap: { ...BOARD, rom: { ...BOARD_MEMORY_MAP.rom!, data: image } },
+        hostSyscalls: false,
+      });
+      cpu.run(20);
+
+      expect(cpu.readWord(0x80000000)).toBe(5);
+      expect(cpu.readCsr(CSR.MCAUSE)).toBe(EXCEPTION_CAUSE.STORE_ACCESS_FAULT);
+      expect(cpu.readCsr(CSR.MTVAL)).toBe(cpu.getReg(5));
+      expect(() => cpu.writeWord(0xFFFF0000, 0)).toThrow('Read-only write');
+
+      // The host can still replace the image
+      cpu.loadProgram(assemble('li a0, 3'), 0xFFFF0000);
+      cpu.reset();
+      expect(cpu.pc).toBe(0xFFFF0000);
+      cpu.step();
+      expect(cpu.getReg(10)).toBe(3);
+    });
+
+    it('should map devices at configured bases', () => {
+      const cpu = new RiscVCpu({ memoryMap: { devices: { graphics: 0x50000000 } } });
+      cpu.gpu.writeTextVram(0, 0, 0x41, 0x07);
+      const direct = new RiscVCpu();
+      direct.gpu.writeTextVram(0, 0, 0x41, 0x07);
+
+      for (const offset of [0, 0x1000]) {
+        expect(cpu.readWord(0x50000000 + offset)).toBe(direct.readWord(GRAPHICS_BASE + offset));
+      }
+      expect(() => cpu.readWord(GRAPHICS_BASE)).toThrow(BusError);
+      expect(cpu.bus.find(0x50000000)?.name).toBe('graphics');
+    });
+  });
+
+  describe('boot', () => {
+    it('should place programs and the stack in RAM', () => {
+      expect(getBootLayout()).toEqual({ bootloaderBase: 0, programBase: 0x1000, stackTop: 0xFFFF });
+      expect(getBootLayout(resolveMemoryMap(BOARD))).toEqual({
+        bootloaderBase: 0x80000000,
+        programBase: 0x80001000,
+        stackTop: 0x80FFFFFF,
+      });
+    });
+
+    it('should run the bootloader from ROM', () => {
+      const cpu = new RiscVCpu({ memoryMap: BOARD, hostSyscalls: true });
+      const program = new Uint8Array(512);
+      program.set(assemble(`
+          mv a0, sp
+          li a7, 0
+          ecall
+      `));
+      cpu.storage.getHdd().write(1, program);
+
+      cpu.loadProgram(new Bootloader(getBootLayout(cpu.memoryMap)).generate());
+      cpu.run(10000);
+
+      expect(cpu.consoleOutput).toContain('Booting...');
+      expect(cpu.halted).toBe(true);
+      expect(cpu.pc).toBeGreaterThanOrEqual(0x80001000);
+      expect(cpu.exitCode).toBe(0x80FFFFFF);
+    });
+
+    it('should load executables at the program base', () => {
+      const cpu = new RiscVCpu({ memoryMap: BOARD });
+      const exe = new ExecutableBuilder().setCode(assemble('nop')).setStackSize(0x100).build();
+      const info = new ProgramLoader(cpu).load(exe);
+      expect(info.codeBase).toBe(0x80001000);
+      expect(info.stackTop).toBe(0x80001104);
+
+      const small = new RiscVCpu({ memorySize: 0x1000 });
+      expect(() => new ProgramLoader(small).load(exe)).toThrow('Program does not fit in RAM');
+    });
+
+    it('should run the native commands of the boot disk', () => {
+      const cpu = new RiscVCpu({ memoryMap: BOARD });
+      const system = new InteractiveSystem(cpu);
+      system.boot();
+      for (const char of 'run ECHO.BIN\rrun LS.BIN\r') {
+        system.keyPress(char.charCodeAt(0));
+      }
+      expect(cpu.consoleOutput).toContain('Hello from native echo!');
+      expect(cpu.consoleOutput).toMatch(/README.*TXT.*168 bytes/);
+    });
+  });
+});
@@ -0,0 +1,372 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RiscVCpu, SYSCALL } from '../src/emulator/cpu.js';
+import { Mmu, AccessType, PTE, PageTableMemory } from '../src/emulator/mmu.js';
+import { CSR, MSTATUS, PRIVILEGE, SATP } from '../src/emulator/csr.js';
+import { EXCEPTION_CAUSE, TrapException } from '../src/emulator/trap.js';
+import { Assembler } from '../src/assembler/assembler.js';
+
+const ROOT = 0x8000;
+const LEAF_TABLE = 0x9000;
+const SATP_VALUE = (SATP.MODE_SV32 | (ROOT >>> 12)) >>> 0;
+
+/** Leaf permissions for ordinary pages */
+const RWX = PTE.V | PTE.R | PTE.W | PTE.X;
+
+/**
+ * Word-addressed physical memory for MMU unit tests
+ */
+class TestMemory implements PageTableMemory {
+  words: Map<number, number> = new Map();
+
+  readPhysicalWord(address: number): number | null {
+    return address < 0x100000 ? (this.words.get(address) ?? 0) : null;
+  }
+
+  writePhysicalWord(address: number, value: number): void {
+    this.words.set(address, value >>> 0);
+  }
+}
+
+function pte(physical: number, flags: number): number {
+  return (((physical >>> 12) << 10) | flags) >>> 0;
+}
+
+function expectFault(fn: () => unknown, cause: number, tval: number): void {
+  try {
+    fn();
+  } catch (e) {
+    expect(e).toBeInstanceOf(TrapException);
+    expect((e as TrapException).cause).toBe(cause);
+    expect((e as TrapException).tval).toBe(tval);
+    return;
+  }
+  throw new Error('expected a trap');
+}
+
+/**
+ * Tests for Sv32 translation and privilege modes
+ */
+describe('Mmu', () => {
+  let memory: TestMemory;
+  let mmu: Mmu;
+
+  beforeEach(() => {
+    memory = new TestMemory();
+    mmu = new Mmu(memory);
+    memory.writePhysicalWord(ROOT, pte(LEAF_TABLE, PTE.V));
+  });
+
+  function map(virtual: number, physical: number, flags: number): void {
+    memory.writePhysicalWord(LEAF_TABLE + ((virtual >>> 12) & 0x3FF) * 4, pte(physical, flags));
+  }
+
+  function translate(address: number, access: AccessType, privilege: number = PRIVILEGE.SUPERVISOR, mstatus: number = 0): number {
+    return mmu.translate(address, access, privilege, SATP_VALUE, mstatus);
+  }
+
+  it('should not translate in M-mode or bare mode', () => {
+    expect(mmu.translate(0x1234, AccessType.LOAD, PRIVILEGE.MACHINE, SATP_VALUE, 0)).toBe(0x1234);
+    expect(mmu.translate(0x1234, AccessType.LOAD, PRIVILEGE.USER, 0, 0)).toBe(0x1234);
+  });
+
+  it('should translate a 4 KiB page', () => {
+    map(0x5000, 0x3000, RWX);
+    expect(translate(0x5abc, AccessType.LOAD)).toBe(0x3abc);
+    expect(translate(0x5000, AccessType.FETCH)).toBe(0x3000);
+  });
+
+  it('should translate a 4 MiB superpage', () => {
+    memory.writePhysicalWord(ROOT + 4, pte(0x00800000, RWX));
+    expect(translate(0x00412345, AccessType.STORE)).toBe(0x00812345);
+  });
+
+  it('should fault on a misaligned superpage', () => {
+    memory.writePhysicalWord(ROOT + 4, pte(0x00801000, RWX));
+    expectFault(() => translate(0x00400000, AccessType.LOAD), EXCEPTION_CAUSE.LOAD_PAGE_FAULT, 0x00400000);
+  });
+
+  it('should raise the page fault matching the access type', () => {
+    expectFault(() => translate(0x6000, AccessType.FETCH), EXCEPTION_CAUSE.INSTRUCTION_PAGE_FAULT, 0x6000);
+    expectFault(() => translate(0x6004, AccessType.LOAD), EXCEPTION_CAUSE.LOAD_PAGE_FAULT, 0x6004);
+    expectFault(() => translate(0x6008, AccessType.STORE), EXCEPTION_CAUSE.STORE_PAGE_FAULT, 0x6008);
+  });
+
+  it('should reject write-only and non-leaf level 0 entries', () => {
+    map(0x5000, 0x3000, PTE.V | PTE.W);
+    expectFault(() => translate(0x5000, AccessType.LOAD), EXCEPTION_CAUSE.LOAD_PAGE_FAULT, 0x5000);
+    map(0x5000, 0x3000, PTE.V);
+    expectFault(() => translate(0x5000, AccessType.LOAD), EXCEPTION_CAUSE.LOAD_PAGE_FAULT, 0x5000);
+  });
+
+  it('should enforce read, write and execute permissions', () => {
+    map(0x5000, 0x3000, PTE.V | PTE.R);
+    expect(translate(0x5000, AccessType.LOAD)).toBe(0x3000);
+    expectFault(() => translate(0x5000, AccessType.STORE), EXCEPTION_CAUSE.STORE_PAGE_FAULT, 0x5000);
+    expectFault(() => translate(0x5000, AccessType.FETCH), EXCEPTION_CAUSE.INSTRUCTION_PAGE_FAULT, 0x5000);
+  });
+
+  it('should keep user mode out of supervisor pages', () => {
+    map(0x5000, 0x3000, RWX);
+    expectFault(() => translate(0x5000, AccessType.LOAD, PRIVILEGE.USER), EXCEPTION_CAUSE.LOAD_PAGE_FAULT, 0x5000);
+  });
+
+  it('should only allow supervisor access to user pages with SUM', () => {
+    map(0x5000, 0x3000, RWX | PTE.U);
+    expect(translate(0x5000, AccessType.LOAD, PRIVILEGE.USER)).toBe(0x3000);
+    expectFault(() => translate(0x5000, AccessType.LOAD), EXCEPTION_CAUSE.LOAD_PAGE_FAULT, 0x5000);
+    expect(translate(0x5000, AccessType.LOAD, PRIVILEGE.SUPERVISOR, MSTATUS.SUM)).toBe(0x3000);
+    // SUM never allows executing user pages
+    expectFault(() => translate(0x5000, AccessType.FETCH, PRIVILEGE.SUPERVISOR, MSTATUS.SUM),
+      EXCEPTION_CAUSE.INSTRUCTION_PAGE_FAULT, 0x5000);
+  });
+
+  it('should make execute-only pages readable with MXR', () => {
+    map(0x5000, 0x3000, PTE.V | PTE.X);
+    expectFault(() => translate(0x5000, AccessType.LOAD), EXCEPTION_CAUSE.LOAD_PAGE_FAULT, 0x5000);
+    expect(translate(0x5000, AccessType.LOAD, PRIVILEGE.SUPERVISOR, MSTATUS.MXR)).toBe(0x3000);
+  });
+
+  it('should set the accessed and dirty bits', () => {
+    map(0x5000, 0x3000, RWX);
+    const entry = LEAF_TABLE + 5 * 4;
+
+    translate(0x5000, AccessType.LOAD);
+    expect(memory.readPhysicalWord(entry)! & (PTE.A | PTE.D)).toBe(PTE.A);
+
+    translate(0x5000, AccessType.STORE);
+    expect(memory.readPhysicalWord(entry)! & (PTE.A | PTE.D)).toBe(PTE.A | PTE.D);
+  });
+
+  it('should cache translations until flushed', () => {
+    map(0x5000, 0x3000, RWX);
+    translate(0x5000, AccessType.LOAD);
+    translate(0x5004, AccessType.LOAD);
+    expect(mmu.getStats()).toEqual({ hits: 1, misses: 1, entries: 1 });
+
+    // The stale entry survives a page table update...
+    map(0x5000, 0x4000, RWX);
+    expect(translate(0x5000, AccessType.LOAD)).toBe(0x3000);
+
+    // ...until that page is flushed
+    mmu.flush(0x5000);
+    expect(translate(0x5000, AccessType.LOAD)).toBe(0x4000);
+  });
+
+  describe('CPU integration', () => {
+    let cpu: RiscVCpu;
+
+    beforeEach(() => {
+      cpu = new RiscVCpu({ memorySize: 0x10000, hostSyscalls: false });
+      cpu.writeWord(ROOT, pte(LEAF_TABLE, PTE.V));
+      // Identity-map the first four pages for code
+      for (let page = 0; page < 4; page++) {
+        cpu.writeWord(LEAF_TABLE + page * 4, pte(page * 0x1000, RWX | PTE.A | PTE.D));
+      }
+    });
+
+    function cpuMap(virtual: number, physical: number, flags: number): void {
+      cpu.writeWord(LEAF_TABLE + ((virtual >>> 12) & 0x3FF) * 4, pte(physical, flags));
+    }
+
+    function load(source: string): void {
+      const result = new Assembler(source).assemble();
+      expect(result.errors).toEqual([]);
+      cpu.loadProgram(result.bytes);
+    }
+
+    /** Enter `label` in the given mode with translation enabled */
+    function enter(mode: number, label: string, body: string): void {
+      load(`
+          la t0, ${label}
+          csrw mepc, t0
+          li t0, ${mode << MSTATUS.MPP_SHIFT}
+          csrs mstatus, t0
+          li t0, ${SATP_VALUE}
+          csrw satp, t0
+          mret
+        ${body}
+      `);
+    }
+
+    it('should start in M-mode and return to the mode in MPP', () => {
+      expect(cpu.privilege).toBe(PRIVILEGE.MACHINE);
+      cpuMap(0x5000, 0x3000, PTE.V | PTE.R);
+      cpu.writeWord(0x3010, 0xfeedface);
+      enter(PRIVILEGE.SUPERVISOR, 'supervisor', `
+        supervisor:
+          li t1, 0x5010
+          lw a0, 0(t1)
+          ebreak
+      `);
+      cpu.run(100);
+
+      expect(cpu.halted).toBe(true);
+      expect(cpu.getReg(10)).toBe(0xfeedface);
+      expect(cpu.csr.mcause).toBe(EXCEPTION_CAUSE.BREAKPOINT);
+      // The breakpoint trapped back to M-mode and recorded S in MPP
+      expect(cpu.privilege).toBe(PRIVILEGE.MACHINE);
+      expect((cpu.csr.mstatus & MSTATUS.MPP_MASK) >>> MSTATUS.MPP_SHIFT).toBe(PRIVILEGE.SUPERVISOR);
+    });
+
+    it('should raise a store page fault with the faulting address', () => {
+      cpuMap(0x5000, 0x3000, PTE.V | PTE.R);
+      enter(PRIVILEGE.SUPERVISOR, 'supervisor', `
+        supervisor:
+          li t1, 0x5008
+          sw t1, 0(t1)
+          ebreak
+      `);
+      cpu.run(100);
+
+      expect(cpu.csr.mcause).toBe(EXCEPTION_CAUSE.STORE_PAGE_FAULT);
+      expect(cpu.csr.mtval).toBe(0x5008);
+      expect(cpu.readWord(0x3008)).toBe(0);
+    });
+
+    it('should translate host syscall pointers', () => {
+      cpu.hostSyscalls = true;
+      cpuMap(0x5000, 0x3000, PTE.V | PTE.R);
+      cpu.writeWord(0x3000, 0x216968); // "hi!"
+      enter(PRIVILEGE.SUPERVISOR, 'supervisor', `
+        supervisor:
+          li a0, 0x5000
+          li a7, ${SYSCALL.PUTS}
+          ecall
+          li a0, 0x6000
+          ecall
+          ebreak
+      `);
+      cpu.run(100);
+
+      expect(cpu.consoleOutput).toBe('hi!');
+      expect(cpu.csr.mcause).toBe(EXCEPTION_CAUSE.LOAD_PAGE_FAULT);
+      expect(cpu.csr.mtval).toBe(0x6000);
+      expect(cpu.readWord(cpu.csr.mepc)).toBe(0x00000073);
+    });
+
+    it('should delegate user ECALL to the supervisor handler', () => {
+      cpu.csr.medeleg = 1 << EXCEPTION_CAUSE.ECALL_FROM_U;
+      // Mark the code pages as user pages
+      for (let page = 0; page < 4; page++) {
+        cpu.writeWord(LEAF_TABLE + page * 4, pte(page * 0x1000, RWX | PTE.U | PTE.A | PTE.D));
+      }
+      load(`
+          la t0, strap
+          csrw stvec, t0
+          la t0, user
+          csrw mepc, t0
+          li t0, ${SATP_VALUE}
+          csrw satp, t0
+          mret
+        user:
+          li a0, 42
+          ecall
+        strap:
+          csrr s0, scause
+          csrr s1, sepc
+          ebreak
+      `);
+      cpu.run(100);
+
+      expect(cpu.getReg(10)).toBe(42);
+      // Supervisor cannot fetch from user pages, so the handler faults into M-mode
+      expect(cpu.csr.scause).toBe(EXCEPTION_CAUSE.ECALL_FROM_U);
+      expect(cpu.csr.mcause).toBe(EXCEPTION_CAUSE.INSTRUCTION_PAGE_FAULT);
+      expect(cpu.csr.mstatus & MSTATUS.SPP).toBe(0);
+    });
+
+    it('should return from a supervisor trap with SRET', () => {
+      cpu.csr.medeleg = 1 << EXCEPTION_CAUSE.BREAKPOINT;
+      enter(PRIVILEGE.SUPERVISOR, 'supervisor', `
+        supervisor:
+          la t0, strap
+          csrw stvec, t0
+          csrsi sstatus, 2
+          ebreak
+          csrr s1, sstatus
+          li a7, 1
+          ecall
+        strap:
+          csrr s0, scause
+          csrr t0, sepc
+          addi t0, t0, 4
+          csrw sepc, t0
+          sret
+      `);
+      cpu.run(200);
+
+      expect(cpu.getReg(8)).toBe(EXCEPTION_CAUSE.BREAKPOINT);
+      // SIE was restored from SPIE and SPP brought us back to S-mode
+      expect(cpu.getReg(9) & MSTATUS.SIE).toBe(MSTATUS.SIE);
+      expect(cpu.getReg(17)).toBe(1);
+      expect(cpu.csr.mcause).toBe(EXCEPTION_CAUSE.ECALL_FROM_S);
+    });
+
+    it('should reject machine CSRs and privileged instructions in U-mode', () => {
+      for (let page = 0; page < 4; page++) {
+        cpu.writeWord(LEAF_TABLE + page * 4, pte(page * 0x1000, RWX | PTE.U | PTE.A | PTE.D));
+      }
+      enter(PRIVILEGE.USER, 'user', `
+        user:
+          csrr a0, mstatus
+      `);
+      cpu.run(100);
+
+      expect(cpu.csr.mcause).toBe(EXCEPTION_CAUSE.ILLEGAL_INSTRUCTION);
+      expect(cpu.csr.mtval).toBe(0x30002573);
+      expect(cpu.privilege).toBe(PRIVILEGE.MACHINE);
+    });
+
+    it('should use the MPP privilege for M-mode loads with MPRV', () => {
+      cpuMap(0x5000, 0x3000, PTE.V | PTE.R);
+      cpu.writeWord(0x3000, 77);
+      load(`
+          li t0, ${SATP_VALUE}
+          csrw satp, t0
+          li t0, ${(PRIVILEGE.SUPERVISOR << MSTATUS.MPP_SHIFT) | MSTATUS.MPRV}
+          csrs mstatus, t0
+          li t1, 0x5000
+          lw a0, 0(t1)
+          ebreak
+      `);
+      cpu.run(100);
+
+      expect(cpu.getReg(10)).toBe(77);
+    });
+
+    it('should flush the TLB on SFENCE.VMA and satp writes', () => {
+      cpuMap(0x5000, 0x3000, PTE.V | PTE.R);
+      cpu.writeWord(0x3000, 1);
+      cpu.writeWord(0x2000, 2);
+      enter(PRIVILEGE.SUPERVISOR, 'supervisor', `
+        supervisor:
+          li t1, 0x5000
+          lw a0, 0(t1)
+          ; remap 0x5000 to 0x2000
+          li t2, ${LEAF_TABLE + 5 * 4}
+          li t3, ${pte(0x2000, PTE.V | PTE.R)}
+          sw t3, 0(t2)
+          lw a1, 0(t1)
+          sfence.vma t1
+          lw a2, 0(t1)
+          ebreak
+      `);
+      // Page tables must be reachable from S-mode
+      cpuMap(LEAF_TABLE, LEAF_TABLE, PTE.V | PTE.R | PTE.W);
+      cpu.run(100);
+
+      expect(cpu.getReg(10)).toBe(1);
+      expect(cpu.getReg(11)).toBe(1);
+      expect(cpu.getReg(12)).toBe(2);
+
+      cpu.writeCsr(CSR.SATP, SATP_VALUE);
+      expect(cpu.mmu.getStats().entries).toBe(0);
+    });
+
+    it('should reset to M-mode', () => {
+      cpu.privilege = PRIVILEGE.USER;
+      cpu.reset();
+      expect(cpu.privilege).toBe(PRIVILEGE.MACHINE);
+    });
+  });
+});
@@ -64,6 +64,44 @@ describe('NativeAssembler', () => {
       expect(readWord(binary, 0)).toBe(0x402081B3);
     });
 
+    it('should assemble CSR instructions', () => {
+      const source = 'CSRRW x1, mstatus, x2\nCSRR a0, mcause\nCSRSI mie, 8\nMRET';
+      const binary = assembler.assemble(source);
+
+      expect(readWord(binary, 0)).toBe(0x300110f3);
+      // CSRR a0, mcause = CSRRS a0, mcause, x0
+      expect(readWord(binary, 4)).toBe(0x34202573);
+      // CSRSI mie, 8 = CSRRSI x0, mie, 8
+      expect(readWord(binary, 8)).toBe(0x30446073);
+      expect(readWord(binary, 12)).toBe(0x30200073);
+    });
+
+    it('should assemble supervisor instructions', () => {
+      const source = 'CSRW satp, t0\nSFENCE.VMA\nSFENCE.VMA a0, a1\nSRET';
+      const binary = assembler.assemble(source);
+
+      expect(readWord(binary, 0)).toBe(0x18029073);
+      expect(readWord(binary, 4)).toBe(0x12000073);
+      expect(readWord(binary, 8)).toBe(0x12B50073);
+      expect(readWord(binary, 12)).toBe(0x10200073);
+    });
+
+    it('should assemble MUL', () => {
+      const source = 'MUL x3, x1, x2';
+      const binary = assembler.assemble(source);
+
+      // MUL x3, x1, x2 = 0x022081B3
+      expect(readWord(binary, 0)).toBe(0x022081B3);
+    });
+
+    it('should assemble REMU', () => {
+      const source = 'REMU x3, x1, x2';
+      const binary = assembler.assemble(source);
+
+      // REMU x3, x1, x2 = 0x0220F1B3
+      expect(readWord(binary, 0)).toBe(0x0220F1B3);
+    });
+
     it('should assemble LW', () => {
       const source = 'LW x1, 0(x2)';
       const binary = assembler.assemble(source);
@@ -0,0 +1,220 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RiscVCpu } from '../src/emulator/cpu.js';
+import { Plic, PLIC_BASE, PLIC_REGS, PLIC_IRQ } from '../src/emulator/plic.js';
+import { MIP } from '../src/emulator/csr.js';
+import { INTERRUPT_BIT, INTERRUPT_CAUSE } from '../src/emulator/trap.js';
+import { STORAGE_REGS, StorageCommand, StorageInterrupt } from '../src/emulator/storage-controller.js';
+import { GRAPHICS_REGS, GRAPHICS_STATUS } from '../src/emulator/graphics.js';
+import { Assembler } from '../src/assembler/assembler.js';
+
+/**
+ * Tests for the PLIC and device interrupt lines
+ */
+describe('Plic', () => {
+  let plic: Plic;
+
+  beforeEach(() => {
+    plic = new Plic();
+  });
+
+  function enable(source: number, priority: number): void {
+    plic.writeRegister(PLIC_REGS.PRIORITY + source * 4, priority);
+    plic.writeRegister(PLIC_REGS.ENABLE, plic.readRegister(PLIC_REGS.ENABLE) | (1 << source));
+  }
+
+  describe('gateway', () => {
+    it('should report asserted lines as pending', () => {
+      plic.setLevel(2, true);
+      expect(plic.readRegister(PLIC_REGS.PENDING)).toBe(1 << 2);
+      plic.setLevel(2, false);
+      expect(plic.readRegister(PLIC_REGS.PENDING)).toBe(0);
+    });
+
+    it('should ignore source 0', () => {
+      plic.setLevel(0, true);
+      plic.writeRegister(PLIC_REGS.PRIORITY, 5);
+      expect(plic.readRegister(PLIC_REGS.PENDING)).toBe(0);
+      expect(plic.readRegister(PLIC_REGS.PRIORITY)).toBe(0);
+    });
+
+    it('should clamp priorities to 7', () => {
+      plic.writeRegister(PLIC_REGS.PRIORITY + 4, 99);
+      expect(plic.readRegister(PLIC_REGS.PRIORITY + 4)).toBe(7);
+    });
+  });
+
+  describe('claim/complete', () => {
+    it('should not interrupt for disabled or zero-priority sources', () => {
+      plic.setLevel(1, true);
+      expect(plic.hasInterrupt()).toBe(false);
+
+      plic.writeRegister(PLIC_REGS.ENABLE, 1 << 1);
+      expect(plic.hasInterrupt()).toBe(false);
+
+      plic.writeRegister(PLIC_REGS.PRIORITY + 4, 1);
+      expect(plic.hasInterrupt()).toBe(true);
+    });
+
+    it('should claim the highest priority source first', () => {
+      enable(1, 1);
+      enable(3, 5);
+      plic.setLevel(1, true);
+      plic.setLevel(3, true);
+
+      expect(plic.readRegister(PLIC_REGS.CLAIM)).toBe(3);
+      expect(plic.readRegister(PLIC_REGS.CLAIM)).toBe(1);
+      expect(plic.readRegister(PLIC_REGS.CLAIM)).toBe(0);
+    });
+
+    it('should break priority ties by source number', () => {
+      enable(4, 2);
+      enable(2, 2);
+      plic.setLevel(4, true);
+      plic.setLevel(2, true);
+      expect(plic.claim()).toBe(2);
+    });
+
+    it('should respect the threshold', () => {
+      enable(1, 3);
+      plic.setLevel(1, true);
+      plic.writeRegister(PLIC_REGS.THRESHOLD, 3);
+      expect(plic.hasInterrupt()).toBe(false);
+      plic.writeRegister(PLIC_REGS.THRESHOLD, 2);
+      expect(plic.hasInterrupt()).toBe(true);
+    });
+
+    it('should hold a claimed source until completion', () => {
+      enable(1, 1);
+      plic.setLevel(1, true);
+
+      expect(plic.claim()).toBe(1);
+      expect(plic.hasInterrupt()).toBe(false);
+
+      plic.writeRegister(PLIC_REGS.CLAIM, 1);
+      // Line is still high, so it pends again
+      expect(plic.hasInterrupt()).toBe(true);
+    });
+  });
+
+  describe('device lines', () => {
+    let cpu: RiscVCpu;
+
+    beforeEach(() => {
+      cpu = new RiscVCpu({ memorySize: 4096, hostSyscalls: true });
+      cpu.writeWord(0, 0x00000013); // NOP
+      cpu.writeWord(4, 0x00000013);
+    });
+
+    function enableAll(): void {
+      for (const source of Object.values(PLIC_IRQ)) {
+        cpu.writeWord(PLIC_BASE + PLIC_REGS.PRIORITY + source * 4, 1);
+      }
+      cpu.writeWord(PLIC_BASE + PLIC_REGS.ENABLE, 0xFFFFFFFE);
+    }
+
+    it('should raise MEIP while a key is available', () => {
+      enableAll();
+      cpu.keyboard.keyPress(65);
+      cpu.step();
+
+      expect(cpu.csr.mip & MIP.MEIP).toBe(MIP.MEIP);
+      expect(cpu.readWord(PLIC_BASE + PLIC_REGS.CLAIM)).toBe(PLIC_IRQ.KEYBOARD);
+    });
+
+    it('should raise the storage line on command completion', () => {
+      enableAll();
+      cpu.storage.writeRegister(STORAGE_REGS.COMMAND, StorageCommand.NOP);
+      cpu.step();
+
+      expect(cpu.storage.readRegister(STORAGE_REGS.INT_STATUS)).toBe(StorageInterrupt.COMMAND_DONE);
+      expect(cpu.plic.claim()).toBe(PLIC_IRQ.STORAGE);
+
+      // Acknowledge in the device, then complete in the PLIC
+      cpu.storage.writeRegister(STORAGE_REGS.INT_STATUS, StorageInterrupt.COMMAND_DONE);
+      cpu.plic.complete(PLIC_IRQ.STORAGE);
+      cpu.step();
+      expect(cpu.csr.mip & MIP.MEIP).toBe(0);
+    });
+
+    it('should flag command errors', () => {
+      cpu.storage.writeRegister(STORAGE_REGS.COMMAND, 0xFF);
+      expect(cpu.storage.readRegister(STORAGE_REGS.INT_STATUS)).toBe(StorageInterrupt.COMMAND_ERROR);
+    });
+
+    it('should raise the storage line on USB insert and eject', () => {
+      cpu.storage.getUsb().insert();
+      expect(cpu.storage.isInterruptPending()).toBe(true);
+      expect(cpu.storage.readRegister(STORAGE_REGS.INT_STATUS)).toBe(StorageInterrupt.MEDIA_CHANGE);
+
+      cpu.storage.writeRegister(STORAGE_REGS.INT_STATUS, StorageInterrupt.MEDIA_CHANGE);
+      expect(cpu.storage.isInterruptPending()).toBe(false);
+
+      cpu.storage.getUsb().eject();
+      expect(cpu.storage.isInterruptPending()).toBe(true);
+    });
+
+    it('should raise the graphics line on vblank', () => {
+      enableAll();
+      cpu.gpu.signalVblank();
+      cpu.step();
+
+      expect(cpu.gpu.readRegister(GRAPHICS_REGS.STATUS)).toBe(GRAPHICS_STATUS.VBLANK);
+      expect(cpu.plic.claim()).toBe(PLIC_IRQ.GRAPHICS);
+
+      cpu.gpu.writeRegister(GRAPHICS_REGS.STATUS, GRAPHICS_STATUS.VBLANK);
+      expect(cpu.gpu.isVblankPending()).toBe(false);
+    });
+  });
+
+  describe('interrupt-driven keyboard driver', () => {
+    it('should read keys from the external interrupt handler', () => {
+      const cpu = new RiscVCpu({ memorySize: 4096, hostSyscalls: true });
+      const result = new Assembler(`
+          la t0, handler
+          csrw mtvec, t0
+          ; keyboard: priority 1, enabled
+          li t0, 0x0C000000
+          li t1, 1
+          sw t1, 4(t0)
+          li t0, 0x0C002000
+          li t1, 2
+          sw t1, 0(t0)
+          ; enable machine external interrupts
+          li t1, 0x800
+          csrw mie, t1
+          csrsi mstatus, 8
+          li s1, 0
+        idle:
+          wfi
+          li t2, 3
+          bne s1, t2, idle
+          li a7, 0
+          ecall
+        handler:
+          csrr s2, mcause
+          li t3, 0x0C200004
+          lw t4, 0(t3)
+          li t5, 0x30000004
+          lw t6, 0(t5)
+          add s0, s0, t6
+          addi s1, s1, 1
+          sw t4, 0(t3)
+          mret
+      `).assemble();
+      expect(result.errors).toEqual([]);
+      cpu.loadProgram(result.bytes);
+
+      cpu.run(200);
+      expect(cpu.waitingForInterrupt).toBe(true);
+
+      cpu.keyboard.keyPress(1);
+      cpu.keyboard.keyPress(2);
+      cpu.keyboard.keyPress(3);
+      cpu.run(1000);
+
+      expect(cpu.halted).toBe(true);
+      expect(cpu.getReg(8)).toBe(6);
+      expect(cpu.getReg(18)).toBe((INTERRUPT_BIT | INTERRUPT_CAUSE.MACHINE_EXTERNAL) >>> 0);
+    });
+  });
+});
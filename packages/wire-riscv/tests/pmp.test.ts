@@ -0,0 +1,266 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RiscVCpu, SYSCALL } from '../src/emulator/cpu.js';
+import { CSR, PRIVILEGE } from '../src/emulator/csr.js';
+import { Pmp, PMP_CFG, PMP_MODE } from '../src/emulator/pmp.js';
+import { AccessType } from '../src/emulator/mmu.js';
+import { EXCEPTION_CAUSE } from '../src/emulator/trap.js';
+import { ProgramLoader, ExecutableBuilder, LoadInfo } from '../src/emulator/program-loader.js';
+import { GRAPHICS_BASE } from '../src/emulator/graphics.js';
+import { Assembler } from '../src/assembler/assembler.js';
+
+const TOR = PMP_MODE.TOR << PMP_CFG.A_SHIFT;
+const NA4 = PMP_MODE.NA4 << PMP_CFG.A_SHIFT;
+const NAPOT = PMP_MODE.NAPOT << PMP_CFG.A_SHIFT;
+const RWX = PMP_CFG.R | PMP_CFG.W | PMP_CFG.X;
+
+/**
+ * Tests for physical memory protection
+ */
+describe('PMP', () => {
+  describe('matching', () => {
+    let pmp: Pmp;
+
+    beforeEach(() => {
+      pmp = new Pmp();
+    });
+
+    it('should allow everything while every entry is off', () => {
+      expect(pmp.isActive()).toBe(false);
+      expect(pmp.check(0x1000, 4, AccessType.STORE, PRIVILEGE.USER)).toBe(true);
+    });
+
+    it('should match TOR ranges from the previous address', () => {
+      pmp.write(CSR.PMPADDR0, 0x1000 >> 2);
+      pmp.write(CSR.PMPADDR1, 0x2000 >> 2);
+      pmp.write(CSR.PMPCFG0, (TOR | PMP_CFG.R) << 8);
+
+      expect(pmp.check(0x1000, 4, AccessType.LOAD, PRIVILEGE.USER)).toBe(true);
+      expect(pmp.check(0x1ffc, 4, AccessType.LOAD, PRIVILEGE.USER)).toBe(true);
+      expect(pmp.check(0x1ffc, 4, AccessType.STORE, PRIVILEGE.USER)).toBe(false);
+      expect(pmp.check(0x0ffc, 4, AccessType.LOAD, PRIVILEGE.USER)).toBe(false); // No entry matches
+      expect(pmp.check(0x0ffe, 4, AccessType.LOAD, PRIVILEGE.MACHINE)).toBe(false); // Partial match
+      expect(pmp.check(0x0ffc, 4, AccessType.STORE, PRIVILEGE.MACHINE)).toBe(true);
+    });
+
+    it('should decode NA4 and NAPOT regions', () => {
+      pmp.write(CSR.PMPADDR0, 0x100 >> 2);
+      pmp.write(CSR.PMPADDR1, (0x8000 >> 2) | ((0x1000 >> 3) - 1)); // 4 KiB at 0x8000
+      pmp.write(CSR.PMPADDR2, 0xffffffff); // The whole address space
+      pmp.write(CSR.PMPCFG0, (NA4 | PMP_CFG.X) | ((NAPOT | PMP_CFG.R | PMP_CFG.W) << 8) | ((NAPOT | PMP_CFG.R) << 16));
+
+      expect(pmp.check(0x100, 4, AccessType.FETCH, PRIVILEGE.USER)).toBe(true);
+      expect(pmp.check(0x104, 4, AccessType.FETCH, PRIVILEGE.USER)).toBe(false);
+      expect(pmp.check(0x8ffc, 4, AccessType.STORE, PRIVILEGE.SUPERVISOR)).toBe(true);
+      expect(pmp.check(0x9000, 4, AccessType.STORE, PRIVILEGE.SUPERVISOR)).toBe(false);
+      expect(pmp.check(0xfffffffc, 4, AccessType.LOAD, PRIVILEGE.USER)).toBe(true);
+    });
+
+    it('should clear W without R and reserved bits', () => {
+      pmp.write(CSR.PMPCFG1, (NA4 | PMP_CFG.W) | (0xff << 8));
+      expect(pmp.read(CSR.PMPCFG1)).toBe(NA4 | ((RWX | NAPOT | PMP_CFG.L) << 8));
+      expect(pmp.read(CSR.PMPCFG0)).toBe(0);
+    });
+
+    it('should bind M-mode to locked entries and ignore writes to them', () => {
+      pmp.write(CSR.PMPADDR0, 0x1000 >> 2);
+      pmp.write(CSR.PMPADDR1, 0x2000 >> 2);
+      pmp.write(CSR.PMPCFG0, (TOR | PMP_CFG.L | PMP_CFG.R | PMP_CFG.X) << 8);
+      expect(pmp.check(0x1000, 4, AccessType.STORE, PRIVILEGE.MACHINE)).toBe(false);
+      expect(pmp.check(0x1000, 4, AccessType.LOAD, PRIVILEGE.MACHINE)).toBe(true);
+
+      pmp.write(CSR.PMPCFG0, RWX << 8);
+      pmp.write(CSR.PMPADDR1, 0x3000 >> 2);
+      pmp.write(CSR.PMPADDR0, 0); // Bottom of a locked TOR entry
+      expect(pmp.read(CSR.PMPCFG0)).toBe((TOR | PMP_CFG.L | PMP_CFG.R | PMP_CFG.X) << 8);
+      expect(pmp.read(CSR.PMPADDR1)).toBe(0x2000 >> 2);
+      expect(pmp.read(CSR.PMPADDR0)).toBe(0x1000 >> 2);
+
+      pmp.reset();
+      expect(pmp.read(CSR.PMPCFG0)).toBe(0);
+      expect(pmp.isActive()).toBe(false);
+    });
+
+    it('should save and restore the registers', () => {
+      pmp.write(CSR.PMPADDR3, 0x1234);
+      pmp.write(CSR.PMPCFG0, (NA4 | PMP_CFG.R) << 24);
+      const copy = new Pmp();
+      copy.restoreState(pmp.saveState());
+      expect(copy.read(CSR.PMPADDR3)).toBe(0x1234);
+      expect(copy.check(0x1234 * 4, 4, AccessType.LOAD, PRIVILEGE.USER)).toBe(true);
+      expect(copy.check(0x1234 * 4, 4, AccessType.STORE, PRIVILEGE.USER)).toBe(false);
+    });
+  });
+
+  describe('user programs', () => {
+    const CODE_BASE = 0x1000;
+    let cpu: RiscVCpu;
+    let info: LoadInfo;
+    let labels: Map<string, number>;
+
+    beforeEach(() => {
+      cpu = new RiscVCpu({ memorySize: 0x10000, hostSyscalls: true });
+    });
+
+    /**
+     * Load a program at CODE_BASE with ProgramLoader and start it in
+     * U-mode from a monitor that denies everything below codeBase and
+     * grants the rest of RAM (but no devices)
+     */
+    function runUser(source: string): void {
+      const program = new Assembler(source).assemble();
+      expect(program.errors).toEqual([]);
+      labels = program.symbols;
+      info = new ProgramLoader(cpu).load(
+        new ExecutableBuilder().setCode(program.bytes).setStackSize(0x400).build(),
+        CODE_BASE
+      );
+
+      const ram = (0 >> 2) | ((0x10000 >> 3) - 1);
+      const monitor = new Assembler(`
+          la t0, handler
+          csrw mtvec, t0
+          li t0, ${info.codeBase >> 2}
+          csrw pmpaddr0, t0
+          li t0, ${ram}
+          csrw pmpaddr1, t0
+          li t0, ${TOR | ((NAPOT | RWX) << 8)}
+          csrw pmpcfg0, t0
+          li t0, ${info.entryPoint}
+          csrw mepc, t0
+          li t0, 0x1800
+          csrc mstatus, t0
+          li sp, ${info.stackTop}
+          mret
+        handler:
+          csrr s0, mcause
+          csrr s1, mepc
+          csrr s2, mtval
+          li a0, 99
+          li a7, 0
+          ecall
+      `).assemble();
+      expect(monitor.errors).toEqual([]);
+      expect(monitor.bytes.length).toBeLessThan(CODE_BASE);
+      cpu.loadProgram(monitor.bytes);
+      cpu.run(1000);
+      expect(cpu.halted).toBe(true);
+    }
+
+    it('should run a program inside its own memory', () => {
+      runUser(`
+          la t0, value
+          lw t1, 0(t0)
+          addi t1, t1, 1
+          sw t1, 0(t0)
+          lw a0, 0(t0)
+          sw a0, -4(sp)
+          li a7, 0
+          ecall
+        value:
+          .word 41
+      `);
+      expect(cpu.exitCode).toBe(42);
+      expect(cpu.privilege).toBe(PRIVILEGE.USER);
+    });
+
+    it('should fault stores below the program\'s codeBase', () => {
+      runUser(`
+          li t0, ${CODE_BASE - 0x10}
+          li t1, 0x55
+        store:
+          sw t1, 0(t0)
+          li a0, 0
+          li a7, 0
+          ecall
+      `);
+      expect(cpu.exitCode).toBe(99);
+      expect(cpu.getReg(8)).toBe(EXCEPTION_CAUSE.STORE_ACCESS_FAULT);
+      expect(cpu.getReg(9)).toBe(info.codeBase + labels.get('store')!);
+      expect(cpu.getReg(18)).toBe(CODE_BASE - 0x10);
+      expect(cpu.readWord(CODE_BASE - 0x10)).not.toBe(0x55);
+    });
+
+    it('should fault stores that straddle codeBase', () => {
+      runUser(`
+          li t0, ${CODE_BASE - 2}
+          sw zero, 0(t0)
+          li a7, 0
+          ecall
+      `);
+      expect(cpu.getReg(8)).toBe(EXCEPTION_CAUSE.STORE_ACCESS_FAULT);
+      expect(cpu.getReg(18)).toBe(CODE_BASE - 2);
+    });
+
+    it('should fault loads and fetches in the boot region', () => {
+      runUser(`
+          lw t0, 0(zero)
+          li a7, 0
+          ecall
+      `);
+      expect(cpu.getReg(8)).toBe(EXCEPTION_CAUSE.LOAD_ACCESS_FAULT);
+
+      cpu.reset();
+      runUser(`
+          jalr zero, 0x40(zero)
+      `);
+      expect(cpu.getReg(8)).toBe(EXCEPTION_CAUSE.INSTRUCTION_ACCESS_FAULT);
+      expect(cpu.getReg(9)).toBe(0x40);
+    });
+
+    it('should fault MMIO accesses outside the granted regions', () => {
+      runUser(`
+          li t0, ${GRAPHICS_BASE}
+          lw t1, 0(t0)
+          li a7, 0
+          ecall
+      `);
+      expect(cpu.getReg(8)).toBe(EXCEPTION_CAUSE.LOAD_ACCESS_FAULT);
+      expect(cpu.getReg(18)).toBe(GRAPHICS_BASE);
+    });
+
+    it('should check host syscall pointers like the program\'s own accesses', () => {
+      runUser(`
+          la a0, message
+          li a7, ${SYSCALL.PUTS}
+          ecall
+          li a0, 0x10
+        puts:
+          ecall
+          li a7, 0
+          ecall
+        message:
+          .string "hi"
+      `);
+      expect(cpu.consoleOutput).toBe('hi');
+      expect(cpu.getReg(8)).toBe(EXCEPTION_CAUSE.LOAD_ACCESS_FAULT);
+      expect(cpu.getReg(9)).toBe(info.codeBase + labels.get('puts')!);
+      expect(cpu.getReg(18)).toBe(0x10);
+
+      cpu.reset();
+      cpu.getStorageController().getHdd().write(0, new Uint8Array(512).fill(0xab));
+      runUser(`
+          li a0, 0
+          li a1, ${CODE_BASE - 0x200}
+          li a7, ${SYSCALL.READ_SECTOR}
+          ecall
+          li a7, 0
+          ecall
+      `);
+      expect(cpu.getReg(8)).toBe(EXCEPTION_CAUSE.STORE_ACCESS_FAULT);
+      expect(cpu.getReg(18)).toBe(CODE_BASE - 0x200);
+      expect(cpu.readByte(CODE_BASE - 0x200)).toBe(0);
+    });
+
+    it('should keep the configuration in hart snapshots', () => {
+      runUser(`
+          li a7, 0
+          ecall
+      `);
+      const copy = new RiscVCpu({ memorySize: 0x10000, hostSyscalls: true });
+      copy.restoreState(cpu.saveState());
+      expect(copy.readCsr(CSR.PMPADDR0)).toBe(CODE_BASE >> 2);
+      expect(copy.readCsr(CSR.PMPCFG0)).toBe(TOR | ((NAPOT | RWX) << 8));
+      expect(copy.pmp.check(0, 4, AccessType.LOAD, PRIVILEGE.USER)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RiscVCpu, SYSCALL } from '../src/emulator/cpu.js';
+import { Profiler } from '../src/emulator/profiler.js';
+import { GRAPHICS_BASE } from '../src/emulator/graphics.js';
+import { ElfSymbol, STT, STB } from '../src/emulator/elf.js';
+import { Assembler } from '../src/assembler/assembler.js';
+
+/**
+ * Tests for the instruction-level profiler
+ */
+describe('Profiler', () => {
+  let cpu: RiscVCpu;
+  let profiler: Profiler;
+  let symbols: Map<string, number>;
+
+  beforeEach(() => {
+    cpu = new RiscVCpu({ memorySize: 0x10000, hostSyscalls: true });
+  });
+
+  /** Assemble a program, attach a profiler with its labels and run it */
+  function profile(source: string, cycles: number = 10000): void {
+    const result = new Assembler(source).assemble();
+    expect(result.errors).toEqual([]);
+    symbols = result.symbols;
+    cpu.loadProgram(result.bytes);
+    profiler = new Profiler({ symbols });
+    cpu.profiler = profiler;
+    cpu.run(cycles);
+  }
+
+  // Counts to 10 in a loop, calling a function on each pass
+  const LOOP = `
+    main:
+        li s0, 0
+        li s1, 10
+      loop:
+        jal ra, work
+        addi s0, s0, 1
+        blt s0, s1, loop
+        li a0, 0
+        li a7, ${SYSCALL.EXIT}
+        ecall
+    work:
+        mul t0, s0, s0
+        ret
+  `;
+
+  it('should count executions per pc and resolve labels', () => {
+    profile(LOOP);
+    expect(cpu.halted).toBe(true);
+    expect(profiler.instructions).toBe(2 + 10 * 5 + 3);
+    expect(profiler.pcCounts.get(symbols.get('loop')!)).toBe(10);
+    expect(profiler.pcCounts.get(symbols.get('work')! + 4)).toBe(10);
+    expect(profiler.symbolize(symbols.get('work')! + 4)).toBe('work+0x4');
+    expect(profiler.symbolize(symbols.get('main')!)).toBe('main');
+    expect(profiler.getFunctionCounts().get('work')).toBe(20);
+  });
+
+  it('should count the instruction mix', () => {
+    profile(LOOP);
+    expect(profiler.classCounts.get('alu-imm')).toBe(2 + 10 + 2);
+    expect(profiler.classCounts.get('jump')).toBe(20);
+    expect(profiler.classCounts.get('branch')).toBe(10);
+    expect(profiler.classCounts.get('muldiv')).toBe(10);
+    expect(profiler.classCounts.get('system')).toBe(1);
+  });
+
+  it('should record branch outcomes', () => {
+    profile(LOOP);
+    const branch = symbols.get('loop')! + 8;
+    expect(profiler.branches.get(branch)).toEqual({ taken: 9, notTaken: 1 });
+    expect(profiler.report()).toMatch(/0x[0-9a-f]{8} +9 +1 +90\.0% +loop\+0x8/);
+  });
+
+  it('should count syscalls and MMIO accesses per device', () => {
+    profile(`
+        li a0, 0x41
+        li a7, ${SYSCALL.PUTCHAR}
+        ecall
+        ecall
+        li t0, ${GRAPHICS_BASE}
+        lw t1, 0(t0)
+        sw t1, 0(t0)
+        sw t1, 0(t0)
+        lw t1, 0x100(zero)
+        li a0, 0
+        li a7, ${SYSCALL.EXIT}
+        ecall
+    `);
+    expect(profiler.syscalls.get(SYSCALL.PUTCHAR)).toBe(2);
+    expect(profiler.syscalls.get(SYSCALL.EXIT)).toBe(1);
+    expect(profiler.devices.get('graphics')).toEqual({ reads: 1, writes: 2 });
+    expect(profiler.devices.size).toBe(1); // RAM accesses are not MMIO
+
+    const report = profiler.report();
+    expect(report).toMatch(/PUTCHAR \(1\) +2/);
+    expect(report).toMatch(/graphics +1 +2/);
+  });
+
+  it('should ignore host accesses and instructions that trap', () => {
+    profile(`
+        li t0, ${GRAPHICS_BASE}
+        lw t1, 0(t0)
+      halt: j halt
+    `, 10);
+    cpu.readWord(GRAPHICS_BASE);
+    expect(profiler.devices.get('graphics')).toEqual({ reads: 1, writes: 0 });
+
+    cpu = new RiscVCpu({ memorySize: 0x10000, hostSyscalls: false });
+    profile(`
+        la t0, handler
+        csrw mtvec, t0
+        li t0, 0x70000000
+        lw t1, 0(t0)
+      handler:
+        j handler
+    `, 10);
+    expect(profiler.pcCounts.has(symbols.get('handler')! - 4)).toBe(false);
+    expect(profiler.classCounts.get('csr')).toBe(1);
+  });
+
+  it('should write collapsed stacks', () => {
+    profile(`
+      main:
+          jal ra, outer
+          li a7, ${SYSCALL.EXIT}
+          ecall
+      outer:
+          mv s0, ra
+          jal ra, inner
+          jal ra, inner
+          mv ra, s0
+          ret
+      inner:
+          nop
+          ret
+    `);
+    expect(profiler.collapsedStacks().split('\n')).toEqual([
+      'main 3',
+      'main;outer 5',
+      'main;outer;inner 4',
+    ]);
+    const total = [...profiler.stacks.values()].reduce((sum, count) => sum + count, 0);
+    expect(total).toBe(profiler.instructions);
+  });
+
+  it('should resolve ELF symbols and fall back to addresses', () => {
+    const elfSymbols: ElfSymbol[] = [
+      { name: 'start', value: 0x100, size: 0, type: STT.FUNC, binding: STB.GLOBAL },
+      { name: '', value: 0x180, size: 0, type: STT.SECTION, binding: STB.LOCAL },
+    ];
+    const standalone = new Profiler({ symbols: elfSymbols });
+    expect(standalone.symbolize(0x1a0)).toBe('start+0xa0');
+    expect(standalone.symbolize(0x80)).toBe('0x00000080');
+  });
+
+  it('should report and clear', () => {
+    profile(LOOP);
+    const report = profiler.report({ top: 2 });
+    expect(report).toContain('Instructions: 55');
+    expect(report).toContain('Hot spots:');
+    expect(report).toMatch(/Instruction mix:\n {2}jump +20 +36\.4%/);
+    expect(report.split('\n').filter((line) => /^ +\d+ +[\d.]+% +0x/.test(line))).toHaveLength(2);
+
+    profiler.clear();
+    expect(profiler.instructions).toBe(0);
+    expect(profiler.pcCounts.size).toBe(0);
+    expect(profiler.collapsedStacks()).toBe('');
+  });
+});
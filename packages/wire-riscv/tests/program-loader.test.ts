@@ -6,6 +6,110 @@ import {
   EXECUTABLE_MAGIC,
   HEADER_SIZE,
 } from '../src/emulator/program-loader.js';
+import { ELF, PF, STB, STT, parseElf } from '../src/emulator/elf.js';
+import { InteractiveSystem } from '../src/emulator/boot-disk.js';
+import { Assembler } from '../src/assembler/assembler.js';
+
+interface TestSegment {
+  vaddr: number;
+  data: Uint8Array;
+  memSize?: number;
+  flags: number;
+}
+
+/**
+ * Build a little-endian ELF32 RISC-V executable with a .symtab
+ */
+function buildElf(entry: number, segments: TestSegment[], symbols: { name: string; value: number; type: number }[] = []): Uint8Array {
+  const phoff = 0x34;
+  let offset = phoff + segments.length * 0x20;
+  const placed = segments.map((segment) => {
+    const at = offset;
+    offset += segment.data.length;
+    return at;
+  });
+
+  const names = [0];
+  let strtab = '\0';
+  for (const symbol of symbols) {
+    names.push(strtab.length);
+    strtab += `${symbol.name}\0`;
+  }
+  const strtabOffset = offset;
+  const symtabOffset = (strtabOffset + strtab.length + 3) & ~3;
+  const symtabSize = (symbols.length + 1) * 16;
+  const shoff = symtabOffset + symtabSize;
+  const file = new Uint8Array(shoff + 3 * 0x28);
+  const view = new DataView(file.buffer);
+
+  file.set([0x7f, 0x45, 0x4c, 0x46, ELF.CLASS_32, ELF.DATA_LSB, 1]);
+  view.setUint16(0x10, ELF.TYPE_EXEC, true);
+  view.setUint16(0x12, ELF.MACHINE_RISCV, true);
+  view.setUint32(0x14, 1, true);
+  view.setUint32(0x18, entry, true);
+  view.setUint32(0x1c, phoff, true);
+  view.setUint32(0x20, shoff, true);
+  view.setUint16(0x28, 0x34, true);
+  view.setUint16(0x2a, 0x20, true);
+  view.setUint16(0x2c, segments.length, true);
+  view.setUint16(0x2e, 0x28, true);
+  view.setUint16(0x30, 3, true);
+
+  segments.forEach((segment, i) => {
+    const header = phoff + i * 0x20;
+    view.setUint32(header, ELF.PT_LOAD, true);
+    view.setUint32(header + 0x04, placed[i], true);
+    view.setUint32(header + 0x08, segment.vaddr, true);
+    view.setUint32(header + 0x0c, segment.vaddr, true);
+    view.setUint32(header + 0x10, segment.data.length, true);
+    view.setUint32(header + 0x14, segment.memSize ?? segment.data.length, true);
+    view.setUint32(header + 0x18, segment.flags, true);
+    file.set(segment.data, placed[i]);
+  });
+
+  file.set(new TextEncoder().encode(strtab), strtabOffset);
+  symbols.forEach((symbol, i) => {
+    const entryOffset = symtabOffset + (i + 1) * 16;
+    view.setUint32(entryOffset, names[i + 1], true);
+    view.setUint32(entryOffset + 4, symbol.value, true);
+    file[entryOffset + 12] = (STB.GLOBAL << 4) | symbol.type;
+  });
+
+  // Section 1 is .symtab (linked to section 2, .strtab)
+  view.setUint32(shoff + 0x28 + 0x04, ELF.SHT_SYMTAB, true);
+  view.setUint32(shoff + 0x28 + 0x10, symtabOffset, true);
+  view.setUint32(shoff + 0x28 + 0x14, symtabSize, true);
+  view.setUint32(shoff + 0x28 + 0x18, 2, true);
+  view.setUint32(shoff + 0x28 + 0x24, 16, true);
+  view.setUint32(shoff + 0x50 + 0x04, 3, true); // SHT_STRTAB
+  view.setUint32(shoff + 0x50 + 0x10, strtabOffset, true);
+  view.setUint32(shoff + 0x50 + 0x14, strtab.length, true);
+  return file;
+}
+
+// Prints the data word plus the (zeroed) BSS word at 0x3000, then exits
+const ELF_PROGRAM = new Assembler(`
+    ebreak
+  start:
+    li t0, 0x3000
+    lw a0, 0(t0)
+    lw t1, 4(t0)
+    add a0, a0, t1
+    li a7, 1
+    ecall
+    li a7, 0
+    ecall
+`).assemble().bytes;
+
+function helloElf(): Uint8Array {
+  return buildElf(0x2004, [
+    { vaddr: 0x2000, data: ELF_PROGRAM, flags: PF.R | PF.X },
+    { vaddr: 0x3000, data: new Uint8Array([0x45, 0, 0, 0]), memSize: 0x100, flags: PF.R | PF.W },
+  ], [
+    { name: '_start', value: 0x2004, type: STT.FUNC },
+    { name: 'message', value: 0x3000, type: STT.OBJECT },
+  ]);
+}
 
 /**
  * Tests for the Program Loader
@@ -15,7 +119,7 @@ describe('ProgramLoader', () => {
   let loader: ProgramLoader;
 
   beforeEach(() => {
-    cpu = new RiscVCpu({ memorySize: 0x10000 }); // 64KB
+    cpu = new RiscVCpu({ memorySize: 0x10000, hostSyscalls: true }); // 64KB
     loader = new ProgramLoader(cpu);
   });
 
@@ -255,4 +359,65 @@ describe('ProgramLoader', () => {
       expect(cpu.getReg(1)).toBe(119);
     });
   });
+
+  describe('ELF executables', () => {
+    it('should load PT_LOAD segments and zero BSS', () => {
+      cpu.writeWord(0x3004, 0xdeadbeef);
+      const info = loader.load(helloElf(), 0x1000);
+
+      expect(info.entryPoint).toBe(0x2004);
+      expect(info.codeBase).toBe(0x2000);
+      expect(info.dataBase).toBe(0x3000);
+      expect(info.bssBase).toBe(0x3004);
+      expect(info.totalSize).toBe(0x1100);
+      expect(cpu.readWord(0x2000)).toBe(0x00100073); // ebreak
+      expect(cpu.readWord(0x3000)).toBe(0x45);
+      expect(cpu.readWord(0x3004)).toBe(0);
+    });
+
+    it('should run from the entry point', () => {
+      const info = loader.load(helloElf(), 0);
+      cpu.pc = info.entryPoint;
+      cpu.x[2] = info.stackTop;
+      cpu.run(100);
+
+      expect(cpu.consoleOutput).toBe('E');
+      expect(info.stackTop).toBe(0x10000);
+    });
+
+    it('should keep the symbol table', () => {
+      const info = loader.load(helloElf(), 0);
+      expect(info.symbols).toEqual([
+        { name: '_start', value: 0x2004, size: 0, type: STT.FUNC, binding: STB.GLOBAL },
+        { name: 'message', value: 0x3000, size: 0, type: STT.OBJECT, binding: STB.GLOBAL },
+      ]);
+    });
+
+    it('should reject ELF files for other machines or without segments', () => {
+      const wrongMachine = helloElf();
+      wrongMachine[0x12] = 62; // EM_X86_64
+      expect(() => parseElf(wrongMachine)).toThrow('not a RISC-V ELF file');
+
+      const empty = buildElf(0, []);
+      expect(() => loader.load(empty, 0)).toThrow('no loadable segments');
+
+      const truncated = helloElf().subarray(0, 0x60);
+      expect(() => loader.load(truncated, 0)).toThrow('Invalid executable');
+    });
+
+    it('should run ELF files from the shell', () => {
+      const system = new InteractiveSystem(cpu);
+      system.boot();
+      const fs = system.getFilesystem()!;
+      fs.createFile('HELLO', 'ELF');
+      fs.writeFile('HELLO', 'ELF', helloElf());
+
+      for (const char of 'run HELLO.ELF\r') {
+        system.keyPress(char.charCodeAt(0));
+      }
+
+      expect(cpu.consoleOutput).toContain('Entry point: 0x2004\nEExecuted');
+      expect(system.getSymbols().map((symbol) => symbol.name)).toEqual(['_start', 'message']);
+    });
+  });
 });
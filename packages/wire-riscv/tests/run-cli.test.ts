@@ -0,0 +1,300 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { writeFileSync, readFileSync, mkdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { connect, Socket } from 'net';
+import { main, RunIo } from '../src/emulator/run-cli.js';
+import { main as link } from '../src/assembler/link-cli.js';
+import { Assembler } from '../src/assembler/assembler.js';
+
+describe('riscv-run CLI', () => {
+  const testDir = join(tmpdir(), 'riscv-run-test-' + Date.now());
+  let consoleLogs: string[] = [];
+  let consoleErrors: string[] = [];
+  let originalLog: typeof console.log;
+  let originalError: typeof console.error;
+  let output: string;
+
+  beforeEach(() => {
+    mkdirSync(testDir, { recursive: true });
+    consoleLogs = [];
+    consoleErrors = [];
+    output = '';
+    originalLog = console.log;
+    originalError = console.error;
+    console.log = (...args) => consoleLogs.push(args.join(' '));
+    console.error = (...args) => consoleErrors.push(args.join(' '));
+  });
+
+  afterEach(() => {
+    console.log = originalLog;
+    console.error = originalError;
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  /** Host I/O that collects output and replays the given input */
+  function io(input: string | null = null): RunIo {
+    return {
+      write: (text) => { output += text; },
+      input: input === null ? null : (async function* () { yield input; })(),
+    };
+  }
+
+  /** Assemble a program into a raw binary file */
+  function program(source: string): string {
+    const result = new Assembler(source).assemble();
+    expect(result.errors).toEqual([]);
+    const path = join(testDir, 'program.bin');
+    writeFileSync(path, result.bytes);
+    return path;
+  }
+
+  describe('argument parsing', () => {
+    it('should show help', async () => {
+      expect(await main(['bun', 'run-cli.ts'])).toBe(1);
+      expect(await main(['bun', 'run-cli.ts', '--help'])).toBe(0);
+      expect(consoleLogs.some(l => l.includes('Usage'))).toBe(true);
+    });
+
+    it('should reject unknown options and bad numbers', async () => {
+      expect(await main(['bun', 'run-cli.ts', '--fast'])).toBe(1);
+      expect(consoleErrors).toContain("Error: Unknown option '--fast'");
+      expect(await main(['bun', 'run-cli.ts', 'x.bin', '--max-cycles', 'lots'])).toBe(1);
+      expect(consoleErrors).toContain('Error: Invalid number for --max-cycles: lots');
+    });
+
+    it('should report missing files', async () => {
+      expect(await main(['bun', 'run-cli.ts', join(testDir, 'missing.bin')], io())).toBe(1);
+      expect(consoleErrors[0]).toContain('File not found');
+    });
+  });
+
+  describe('programs', () => {
+    it('should print console output and exit with the guest exit code', async () => {
+      const path = program(`
+          la a0, message
+          li a7, 3
+          ecall
+          li a0, 0x21
+          li a7, 1
+          ecall
+          li a0, 7
+          li a7, 0
+          ecall
+        message:
+          .string "hello"
+      `);
+      expect(await main(['bun', 'run-cli.ts', path], io())).toBe(7);
+      expect(output).toBe('hello!');
+    });
+
+    it('should type stdin into the keyboard', async () => {
+      // Echo keys in upper case until Enter
+      const path = program(`
+        loop:
+          li a7, 2
+          ecall
+          blt a0, zero, loop
+          li t0, 13
+          beq a0, t0, done
+          addi a0, a0, -32
+          li a7, 1
+          ecall
+          j loop
+        done:
+          li a0, 0
+          li a7, 0
+          ecall
+      `);
+      expect(await main(['bun', 'run-cli.ts', path], io('risc\n'))).toBe(0);
+      expect(output).toBe('RISC');
+    });
+
+    it('should stop at --max-cycles', async () => {
+      const path = program('loop: j loop');
+      expect(await main(['bun', 'run-cli.ts', path, '--max-cycles', '25000'], io())).toBe(124);
+      expect(consoleErrors).toContain('Stopped after 25000 cycles');
+    });
+
+    it('should load raw binaries at --base and print the screen', async () => {
+      const path = program(`
+          li a0, 0x41
+          li a7, 1
+          ecall
+          li a7, 0
+          li a0, 0
+          ecall
+      `);
+      expect(await main(['bun', 'run-cli.ts', path, '--base', '0x1000', '--screen'], io())).toBe(0);
+      expect(output).toBe('A\nA\n');
+    });
+
+    it('should report a trap with no handler and fail', async () => {
+      const path = join(testDir, 'illegal.bin');
+      writeFileSync(path, new Uint8Array([0x13, 0x00, 0x00, 0x00, 0xFF, 0xFF, 0xFF, 0xFF]));
+      expect(await main(['bun', 'run-cli.ts', path], io())).toBe(134);
+      expect(consoleErrors).toEqual([
+        'Halted by illegal instruction (mcause 0x2) at mepc 0x4, mtval 0xffffffff',
+      ]);
+    });
+
+    it('should report a breakpoint with no handler and fail', async () => {
+      const path = program('ebreak');
+      expect(await main(['bun', 'run-cli.ts', path], io())).toBe(134);
+      expect(consoleErrors).toEqual([
+        'Halted by breakpoint (mcause 0x3) at mepc 0x0, mtval 0x0',
+      ]);
+    });
+
+    it('should run RISV executables from the linker at their program base', async () => {
+      const source = join(testDir, 'hello.asm');
+      writeFileSync(source, `
+        .globl _start
+        _start:
+          lui a0, %hi(message)
+          addi a0, a0, %lo(message)
+          li a7, 3
+          ecall
+          li a0, 5
+          li a7, 0
+          ecall
+        message:
+          .string "linked"
+      `);
+      const executable = join(testDir, 'hello.risv');
+      expect(link(['bun', 'link-cli.ts', source, '--format', 'risv', '-o', executable])).toBe(0);
+      expect(await main(['bun', 'run-cli.ts', executable], io())).toBe(5);
+      expect(output).toBe('linked');
+      expect(consoleErrors).toEqual([]);
+    });
+
+    it('should place RAM at --ram-base', async () => {
+      const path = program(`
+          auipc a0, 0
+          srli a0, a0, 28
+          addi a0, a0, 0x38
+          li a7, 1
+          ecall
+          li a7, 0
+          li a0, 0
+          ecall
+      `);
+      const args = ['bun', 'run-cli.ts', path, '--ram-base', '0x80000000', '--memory', '0x100000'];
+      expect(await main(args, io())).toBe(0);
+      expect(output).toBe('@');
+
+      expect(await main([...args, '--base', '0'], io())).toBe(1);
+      expect(consoleErrors.join('\n')).toContain('does not fit in 1048576 bytes of RAM at 0x80000000');
+    });
+  });
+
+  describe('--gdb', () => {
+    /** A debugger connection that sends packets and awaits their replies */
+    async function debuggerFor(run: Promise<number>): Promise<{ socket: Socket; request(payload: string): Promise<string> }> {
+      let waiting: string | undefined;
+      while ((waiting = consoleErrors.find(line => line.startsWith('Waiting for GDB'))) === undefined) {
+        await Promise.race([run, new Promise((resolve) => setTimeout(resolve, 10))]);
+      }
+      const port = parseInt(/port (\d+)/.exec(waiting)![1], 10);
+      const socket = connect(port, '127.0.0.1');
+      let received = '';
+      let wake = () => {};
+      socket.on('data', (chunk) => {
+        received += chunk.toString('latin1');
+        wake();
+      });
+      const request = async (payload: string): Promise<string> => {
+        let sum = 0;
+        for (const char of payload) {
+          sum = (sum + char.charCodeAt(0)) & 0xff;
+        }
+        socket.write(`$${payload}#${sum.toString(16).padStart(2, '0')}`);
+        let match: RegExpExecArray | null;
+        while ((match = /\$([^#]*)#[0-9a-f]{2}/.exec(received)) === null) {
+          await new Promise<void>((resolve) => { wake = resolve; });
+        }
+        received = received.slice(match.index + match[0].length);
+        return match[1];
+      };
+      return { socket, request };
+    }
+
+    it('should run under the debugger and carry on when it detaches', async () => {
+      const path = program(`
+          la a0, message
+          li a7, 3
+          ecall
+          li a0, 7
+          li a7, 0
+          ecall
+        message:
+          .string "debugged"
+      `);
+      const run = main(['bun', 'run-cli.ts', path, '--gdb', '0'], io());
+      const { socket, request } = await debuggerFor(run);
+
+      expect(await request('Z0,8,4')).toBe('OK');
+      expect(await request('c')).toBe('T05swbreak:;');
+      expect(await request('p20')).toBe('08000000');
+      expect(await request('D')).toBe('OK');
+      socket.destroy();
+
+      expect(await run).toBe(7);
+      expect(output).toBe('debugged');
+    });
+
+    it('should stop when the debugger kills the program', async () => {
+      const path = program('loop: j loop');
+      const run = main(['bun', 'run-cli.ts', path, '--gdb', '0'], io());
+      const { socket, request } = await debuggerFor(run);
+
+      expect(await request('s')).toBe('S05');
+      socket.write('$k#6b');
+      socket.end();
+      expect(await run).toBe(137);
+    });
+
+    it('should not debug the shell', async () => {
+      expect(await main(['bun', 'run-cli.ts', '--boot', '--gdb', '1234'], io())).toBe(1);
+      expect(consoleErrors).toContain('Error: --gdb debugs a program and cannot be used with --boot');
+    });
+  });
+
+  describe('--profile', () => {
+    it('should write the hot-spot report and collapsed stacks', async () => {
+      const path = program(`
+          li t0, 100
+        loop:
+          addi t0, t0, -1
+          bne t0, zero, loop
+          li a7, 0
+          ecall
+      `);
+      const report = join(testDir, 'profile.txt');
+      const stacks = join(testDir, 'profile.folded');
+      expect(await main(['bun', 'run-cli.ts', path, '--profile', report, '--profile-stacks', stacks], io())).toBe(0);
+      expect(readFileSync(report, 'utf8')).toMatch(/Instructions: 203\n[^]*0x00000008 +99 +1 +99\.0%/);
+      expect(readFileSync(stacks, 'utf8')).toBe('0x00000000 203\n');
+    });
+  });
+
+  describe('disks', () => {
+    it('should reject hard disk images larger than the drive', async () => {
+      const image = join(testDir, 'big.img');
+      writeFileSync(image, new Uint8Array(2 * 1024 * 1024));
+      const path = program('nop');
+      expect(await main(['bun', 'run-cli.ts', path, '--disk', `hdd:${image}`], io())).toBe(1);
+      expect(consoleErrors[0]).toContain('larger than');
+    });
+  });
+
+  describe('--boot', () => {
+    it('should run shell commands from stdin', async () => {
+      const status = await main(['bun', 'run-cli.ts', '--boot'], io('echo wired\nexit\n'));
+      expect(status).toBe(0);
+      expect(output).toContain('Booting Wire-RISCV');
+      expect(output).toContain('echo wired\nwired\n');
+      expect(output).toContain('Halting...');
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RiscVCpu } from '../src/emulator/cpu.js';
+import { EXCEPTION_CAUSE } from '../src/emulator/trap.js';
+import { Encoder } from '../src/assembler/encoder.js';
+import { Assembler } from '../src/assembler/assembler.js';
+
+const DATA = 0x800;
+
+/**
+ * Tests for the RV32A atomic instruction extension
+ */
+describe('RV32A extension', () => {
+  let cpu: RiscVCpu;
+
+  beforeEach(() => {
+    cpu = new RiscVCpu({ memorySize: 4096 });
+  });
+
+  function load(source: string): void {
+    const result = new Assembler(source).assemble();
+    expect(result.errors).toEqual([]);
+    cpu.loadProgram(result.bytes);
+  }
+
+  /**
+   * Execute one AMO on the word at DATA: x3 = old value, memory = new value
+   */
+  function amo(mnemonic: string, memory: number, operand: number): { old: number; stored: number } {
+    cpu.reset();
+    cpu.writeWord(DATA, memory);
+    cpu.setReg(1, DATA);
+    cpu.setReg(2, operand);
+    cpu.writeWord(0, Encoder.encodeR(mnemonic, 3, 1, 2));
+    cpu.step();
+    return { old: cpu.getReg(3), stored: cpu.readWord(DATA) };
+  }
+
+  describe('AMOs', () => {
+    it('should return the old value and store the result', () => {
+      expect(amo('AMOSWAP.W', 5, 9)).toEqual({ old: 5, stored: 9 });
+      expect(amo('AMOADD.W', 0xFFFFFFFF, 2)).toEqual({ old: 0xFFFFFFFF, stored: 1 });
+      expect(amo('AMOXOR.W', 0b1100, 0b1010)).toEqual({ old: 0b1100, stored: 0b0110 });
+      expect(amo('AMOAND.W', 0b1100, 0b1010)).toEqual({ old: 0b1100, stored: 0b1000 });
+      expect(amo('AMOOR.W', 0b1100, 0b1010)).toEqual({ old: 0b1100, stored: 0b1110 });
+    });
+
+    it('should compare signed and unsigned for min/max', () => {
+      const minusOne = 0xFFFFFFFF;
+      expect(amo('AMOMIN.W', minusOne, 1).stored).toBe(minusOne);
+      expect(amo('AMOMAX.W', minusOne, 1).stored).toBe(1);
+      expect(amo('AMOMINU.W', minusOne, 1).stored).toBe(1);
+      expect(amo('AMOMAXU.W', minusOne, 1).stored).toBe(minusOne);
+    });
+
+    it('should read rs2 before writing rd when they are the same register', () => {
+      cpu.writeWord(DATA, 10);
+      cpu.setReg(1, DATA);
+      cpu.setReg(2, 3);
+      cpu.writeWord(0, Encoder.encodeR('AMOADD.W', 2, 1, 2));
+      cpu.step();
+      expect(cpu.getReg(2)).toBe(10);
+      expect(cpu.readWord(DATA)).toBe(13);
+    });
+  });
+
+  describe('LR/SC', () => {
+    it('should succeed when the reservation is held', () => {
+      load(`
+          li a1, 0x800
+          li a2, 42
+          lr.w a0, (a1)
+          sc.w t0, a2, (a1)
+          ebreak
+      `);
+      cpu.writeWord(DATA, 7);
+      cpu.run(100);
+
+      expect(cpu.getReg(10)).toBe(7);
+      expect(cpu.getReg(5)).toBe(0);
+      expect(cpu.readWord(DATA)).toBe(42);
+    });
+
+    it('should fail without a reservation or after it was consumed', () => {
+      load(`
+          li a1, 0x800
+          li a2, 42
+          sc.w t0, a2, (a1)
+          lr.w a0, (a1)
+          sc.w t1, a2, (a1)
+          sc.w t2, zero, (a1)
+          ebreak
+      `);
+      cpu.run(100);
+
+      expect(cpu.getReg(5)).toBe(1);
+      expect(cpu.getReg(6)).toBe(0);
+      expect(cpu.getReg(7)).toBe(1);
+      expect(cpu.readWord(DATA)).toBe(42);
+    });
+
+    it('should fail for a different address than the one reserved', () => {
+      load(`
+          li a1, 0x800
+          lr.w a0, (a1)
+          addi a1, a1, 4
+          sc.w t0, a1, (a1)
+          ebreak
+      `);
+      cpu.run(100);
+
+      expect(cpu.getReg(5)).toBe(1);
+      expect(cpu.readWord(DATA + 4)).toBe(0);
+    });
+
+    it('should implement an atomic increment loop', () => {
+      load(`
+          li a1, 0x800
+          li s0, 5
+        again:
+          lr.w.aq t0, (a1)
+          addi t0, t0, 1
+          sc.w.rl t1, t0, (a1)
+          bnez t1, again
+          addi s0, s0, -1
+          bnez s0, again
+          ebreak
+      `);
+      cpu.run(1000);
+      expect(cpu.readWord(DATA)).toBe(5);
+    });
+  });
+
+  describe('exceptions', () => {
+    beforeEach(() => {
+      cpu = new RiscVCpu({ memorySize: 4096, hostSyscalls: false });
+    });
+
+    it('should raise a load misaligned exception for LR.W', () => {
+      cpu.setReg(1, DATA + 2);
+      cpu.writeWord(0, Encoder.encodeR('LR.W', 3, 1, 0));
+      cpu.step();
+      expect(cpu.csr.mcause).toBe(EXCEPTION_CAUSE.LOAD_ADDRESS_MISALIGNED);
+      expect(cpu.csr.mtval).toBe(DATA + 2);
+    });
+
+    it('should raise a store misaligned exception for AMOs and SC.W', () => {
+      cpu.setReg(1, DATA + 1);
+      cpu.writeWord(0, Encoder.encodeR('AMOADD.W', 3, 1, 2));
+      cpu.step();
+      expect(cpu.csr.mcause).toBe(EXCEPTION_CAUSE.STORE_ADDRESS_MISALIGNED);
+    });
+
+    it('should raise a store access fault for unmapped AMOs', () => {
+      cpu.setReg(1, 0x50000000);
+      cpu.writeWord(0, Encoder.encodeR('AMOSWAP.W', 3, 1, 2));
+      cpu.step();
+      expect(cpu.csr.mcause).toBe(EXCEPTION_CAUSE.STORE_ACCESS_FAULT);
+    });
+
+    it('should reject reserved encodings', () => {
+      // LR.W with rs2 != 0, and an unassigned funct5
+      cpu.writeWord(0, (Encoder.encodeR('LR.W', 3, 1, 0) | (1 << 20)) >>> 0);
+      cpu.step();
+      expect(cpu.csr.mcause).toBe(EXCEPTION_CAUSE.ILLEGAL_INSTRUCTION);
+
+      cpu.reset();
+      cpu.writeWord(0, ((0b00101 << 27) | Encoder.encodeR('AMOADD.W', 3, 1, 2)) >>> 0);
+      cpu.step();
+      expect(cpu.csr.mcause).toBe(EXCEPTION_CAUSE.ILLEGAL_INSTRUCTION);
+    });
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RiscVCpu } from '../src/emulator/cpu.js';
+import { expandCompressed, isCompressed } from '../src/emulator/compressed.js';
+import { DecodeCache } from '../src/emulator/decode-cache.js';
+import { CSR, MISA } from '../src/emulator/csr.js';
+import { EXCEPTION_CAUSE } from '../src/emulator/trap.js';
+import { Encoder } from '../src/assembler/encoder.js';
+import { Assembler } from '../src/assembler/assembler.js';
+
+function assemble(source: string, compressed: boolean): Uint8Array {
+  const result = new Assembler(source, { compressed }).assemble();
+  expect(result.errors).toEqual([]);
+  return result.bytes;
+}
+
+// Recursive factorial exercising c.jal, c.jr, stack-relative loads and
+// stores, c.addi16sp-style stack adjustment and compressed branches
+const FACTORIAL_SOURCE = `
+    li sp, 0x800
+    li a0, 6
+    jal ra, fact
+    mv s1, a0
+    ebreak
+  fact:
+    addi sp, sp, -16
+    sw ra, 12(sp)
+    sw a0, 8(sp)
+    li t0, 1
+    bge t0, a0, base
+    addi a0, a0, -1
+    jal ra, fact
+    lw t1, 8(sp)
+    mul a0, a0, t1
+    j out
+  base:
+    li a0, 1
+  out:
+    lw ra, 12(sp)
+    addi sp, sp, 16
+    ret
+`;
+
+/**
+ * Tests for the RV32C compressed instruction extension
+ */
+describe('RV32C extension', () => {
+  let cpu: RiscVCpu;
+
+  beforeEach(() => {
+    cpu = new RiscVCpu({ memorySize: 4096 });
+  });
+
+  describe('expansion', () => {
+    it('should tell 16-bit parcels from 32-bit instructions', () => {
+      expect(isCompressed(0x4515)).toBe(true);
+      expect(isCompressed(0x0513)).toBe(false);
+    });
+
+    it('should expand to the instruction it was compressed from', () => {
+      const instructions = [
+        Encoder.encodeI('ADDI', 0, 0, 0),
+        Encoder.encodeI('ADDI', 10, 0, -32),
+        Encoder.encodeI('ADDI', 5, 5, 31),
+        Encoder.encodeI('ADDI', 2, 2, 496),
+        Encoder.encodeI('ADDI', 2, 2, -512),
+        Encoder.encodeI('ADDI', 15, 2, 1020),
+        Encoder.encodeU('LUI', 10, 0xfffe0),
+        Encoder.encodeU('LUI', 31, 0x1f),
+        Encoder.encodeI('SLLI', 7, 7, 31),
+        Encoder.encodeI('SRLI', 9, 9, 1),
+        Encoder.encodeI('SRAI', 9, 9, 17),
+        Encoder.encodeI('ANDI', 12, 12, -1),
+        Encoder.encodeR('SUB', 8, 8, 15),
+        Encoder.encodeR('XOR', 9, 9, 10),
+        Encoder.encodeR('OR', 14, 14, 13),
+        Encoder.encodeR('AND', 15, 15, 8),
+        Encoder.encodeR('ADD', 31, 31, 1),
+        Encoder.encodeR('ADD', 3, 0, 4),
+        Encoder.encodeJ('JAL', 0, -2048),
+        Encoder.encodeJ('JAL', 1, 2046),
+        Encoder.encodeI('JALR', 0, 5, 0),
+        Encoder.encodeI('JALR', 1, 5, 0),
+        Encoder.encodeB('BEQ', 8, 0, -256),
+        Encoder.encodeB('BNE', 15, 0, 254),
+        Encoder.encodeI('LW', 8, 15, 124),
+        Encoder.encodeS('SW', 15, 8, 64),
+        Encoder.encodeI('LW', 31, 2, 252),
+        Encoder.encodeS('SW', 2, 31, 128),
+        Encoder.encodeI('EBREAK', 0, 0, 1),
+      ];
+      for (const instruction of instructions) {
+        const parcel = Encoder.compress(instruction);
+        expect(parcel, instruction.toString(16)).not.toBeNull();
+        expect(isCompressed(parcel!)).toBe(true);
+        expect(expandCompressed(parcel!).toString(16)).toBe(instruction.toString(16));
+      }
+    });
+
+    it('should expand mv to c.mv semantics', () => {
+      const parcel = Encoder.compress(Encoder.encodeI('ADDI', 10, 11, 0))!;
+      expect(expandCompressed(parcel)).toBe(Encoder.encodeR('ADD', 10, 0, 11));
+    });
+
+    it('should treat reserved encodings as illegal', () => {
+      expect(expandCompressed(0x0000)).toBe(0); // all-zero parcel
+      expect(expandCompressed(0x0004)).toBe(0); // c.addi4spn with nzuimm = 0
+      expect(expandCompressed(0x4002)).toBe(0); // c.lwsp x0
+      expect(expandCompressed(0x8002)).toBe(0); // c.jr x0
+      expect(expandCompressed(0x6101)).toBe(0); // c.addi16sp 0
+      expect(expandCompressed(0x1002)).toBe(0); // c.slli with shamt[5] set
+      expect(expandCompressed(0x9c01)).toBe(0); // RV64 c.subw
+    });
+  });
+
+  describe('execution', () => {
+    it('should compute the same result as uncompressed code', () => {
+      const full = assemble(FACTORIAL_SOURCE, false);
+      const compressed = assemble(FACTORIAL_SOURCE, true);
+      expect(compressed.length).toBeLessThan(full.length);
+
+      for (const program of [full, compressed]) {
+        const hart = new RiscVCpu({ memorySize: 4096 });
+        hart.loadProgram(program);
+        hart.run(1000);
+        expect(hart.getReg(9)).toBe(720);
+      }
+    });
+
+    it('should link pc + 2 for c.jal and c.jalr', () => {
+      cpu.writeHalfword(0x10, Encoder.compress(Encoder.encodeJ('JAL', 1, 0x20))!);
+      cpu.pc = 0x10;
+      cpu.step();
+      expect(cpu.pc).toBe(0x30);
+      expect(cpu.getReg(1)).toBe(0x12);
+
+      cpu.setReg(5, 0x100);
+      cpu.writeHalfword(0x30, Encoder.compress(Encoder.encodeI('JALR', 1, 5, 0))!);
+      cpu.step();
+      expect(cpu.pc).toBe(0x100);
+      expect(cpu.getReg(1)).toBe(0x32);
+    });
+
+    it('should run 32-bit instructions at halfword-aligned addresses', () => {
+      cpu.writeHalfword(0, 0x0001); // c.nop
+      cpu.writeWord(2, Encoder.encodeI('ADDI', 10, 0, 1234));
+      cpu.writeHalfword(6, 0x9002); // c.ebreak
+      cpu.run(10);
+      expect(cpu.getReg(10)).toBe(1234);
+      expect(cpu.pc).toBe(6);
+    });
+
+    it('should fetch a 32-bit instruction that straddles a page', () => {
+      const hart = new RiscVCpu({ memorySize: 8192, initialPc: 0xFFE });
+      hart.writeWord(0xFFE, Encoder.encodeI('ADDI', 10, 0, 77));
+      hart.writeWord(0x1002, Encoder.encodeI('EBREAK', 0, 0, 1));
+      hart.run(10);
+      expect(hart.getReg(10)).toBe(77);
+    });
+
+    it('should allow 2-byte aligned jump targets in trap mode', () => {
+      const hart = new RiscVCpu({ memorySize: 4096, hostSyscalls: false });
+      hart.setReg(5, 0x102);
+      hart.writeWord(0, Encoder.encodeI('JALR', 0, 5, 0));
+      hart.step();
+      expect(hart.pc).toBe(0x102);
+      expect(hart.csr.mcause).toBe(0);
+    });
+
+    it('should refetch a compressed instruction patched in place', () => {
+      cpu.writeHalfword(0, 0x4505); // c.li a0, 1
+      cpu.writeHalfword(2, 0x9002); // c.ebreak
+      cpu.run(10);
+      expect(cpu.getReg(10)).toBe(1);
+
+      cpu.writeHalfword(0, 0x4509); // c.li a0, 2
+      cpu.pc = 0;
+      cpu.halted = false;
+      cpu.run(10);
+      expect(cpu.getReg(10)).toBe(2);
+    });
+  });
+
+  describe('without the C extension', () => {
+    it('should clear the C bit in misa', () => {
+      const hart = new RiscVCpu({ memorySize: 4096, compressed: false });
+      expect(hart.readCsr(CSR.MISA) & MISA.C).toBe(0);
+      expect(cpu.readCsr(CSR.MISA) & MISA.C).toBe(MISA.C);
+    });
+
+    it('should raise an illegal instruction for 16-bit parcels', () => {
+      const hart = new RiscVCpu({ memorySize: 4096, hostSyscalls: false, compressed: false });
+      hart.writeHalfword(0, 0x4505);
+      expect(hart.step()).toBe(false);
+      expect(hart.csr.mcause).toBe(EXCEPTION_CAUSE.ILLEGAL_INSTRUCTION);
+      expect(hart.csr.mtval).toBe(0x4505);
+    });
+  });
+
+  describe('decode cache', () => {
+    it('should drop a 32-bit entry when its upper half is written', () => {
+      const cache = new DecodeCache();
+      cache.insert(0x100, 0x00000013);
+      cache.insert(0x200, 0x00000013, 2);
+      cache.invalidate(0x102, 2);
+      cache.invalidate(0x202, 2);
+      expect(cache.lookup(0x100)).toBeUndefined();
+      expect(cache.lookup(0x200)?.length).toBe(2);
+    });
+  });
+});
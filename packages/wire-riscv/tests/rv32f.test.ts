@@ -0,0 +1,227 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RiscVCpu } from '../src/emulator/cpu.js';
+import { CSR, MSTATUS, FS } from '../src/emulator/csr.js';
+import { EXCEPTION_CAUSE } from '../src/emulator/trap.js';
+import { CANONICAL_NAN_S, FCLASS, singleToBits } from '../src/emulator/fpu.js';
+import { FFLAGS, BINARY32, BINARY64, ROUNDING_MODE, add, fma, mul } from '../src/emulator/softfloat.js';
+import { expandCompressed } from '../src/emulator/compressed.js';
+import { Encoder } from '../src/assembler/encoder.js';
+import { Assembler } from '../src/assembler/assembler.js';
+
+const DATA = 0x800;
+
+/**
+ * Tests for the RV32F and RV32D floating-point extensions
+ */
+describe('RV32F/D extensions', () => {
+  let cpu: RiscVCpu;
+
+  beforeEach(() => {
+    cpu = new RiscVCpu({ memorySize: 4096, hostSyscalls: false });
+  });
+
+  function run(source: string): void {
+    const result = new Assembler(source).assemble();
+    expect(result.errors).toEqual([]);
+    cpu.loadProgram(result.bytes);
+    cpu.run(1000);
+  }
+
+  describe('arithmetic', () => {
+    it('should compute single and double precision results', () => {
+      run(`
+          li t0, 1
+          li t1, 3
+          fcvt.s.w fa0, t0
+          fcvt.s.w fa1, t1
+          fdiv.s fa2, fa0, fa1
+          fcvt.d.w fa3, t0
+          fcvt.d.w fa4, t1
+          fdiv.d fa5, fa3, fa4
+          fmv.x.w a0, fa2
+          ebreak
+      `);
+      expect(cpu.getReg(10)).toBe(singleToBits(1 / 3));
+      expect(cpu.fpu.readSingle(12)).toBe(Math.fround(1 / 3));
+      expect(cpu.fpu.readDouble(15)).toBe(1 / 3);
+    });
+
+    it('should accumulate exception flags in fflags', () => {
+      run(`
+          li t0, 1
+          fcvt.s.w fa0, t0
+          fdiv.s fa1, fa0, fa0
+          frflags s0
+          fmv.w.x fa2, zero
+          fdiv.s fa3, fa0, fa2
+          fneg.s fa0, fa0
+          fsqrt.s fa4, fa0
+          frflags s1
+          ebreak
+      `);
+      expect(cpu.getReg(8)).toBe(0);
+      expect(cpu.getReg(9)).toBe(FFLAGS.DZ | FFLAGS.NV);
+      expect(cpu.fpu.readSingle(13)).toBe(Infinity);
+      expect(cpu.fpu.readSingleBits(14)).toBe(CANONICAL_NAN_S);
+    });
+
+    it('should round a fused multiply-add only once', () => {
+      const status = { fflags: 0 };
+      expect(fma(BINARY64, 0.1, 10, -1, ROUNDING_MODE.RNE, status)).toBe(2 ** -54);
+      expect(status.fflags).toBe(0);
+      expect(0.1 * 10 - 1).toBe(0);
+    });
+
+    it('should flag tiny inexact results as underflow', () => {
+      const status = { fflags: 0 };
+      expect(mul(BINARY32, 1.5 * 2 ** -75, 2 ** -75, ROUNDING_MODE.RNE, status)).toBe(2 ** -149);
+      expect(status.fflags).toBe(FFLAGS.UF | FFLAGS.NX);
+
+      status.fflags = 0;
+      expect(mul(BINARY32, 2 ** -100, 2 ** -40, ROUNDING_MODE.RNE, status)).toBe(2 ** -140);
+      expect(status.fflags).toBe(0);
+    });
+
+    it('should honour static and dynamic rounding modes', () => {
+      const status = { fflags: 0 };
+      const ulp = 2 ** -23;
+      expect(add(BINARY32, 1, ulp / 2, ROUNDING_MODE.RNE, status)).toBe(1);
+      expect(add(BINARY32, 1, ulp / 2, ROUNDING_MODE.RUP, status)).toBe(1 + ulp);
+      expect(add(BINARY32, -1, -ulp / 2, ROUNDING_MODE.RDN, status)).toBe(-1 - ulp);
+      expect(add(BINARY32, 3.4e38, 3.4e38, ROUNDING_MODE.RTZ, status)).toBe(Math.fround(3.4028234663852886e38));
+
+      run(`
+          li t0, 5
+          fcvt.s.w fa0, t0
+          li t0, 2
+          fcvt.s.w fa1, t0
+          fdiv.s fa2, fa0, fa1
+          fcvt.w.s a0, fa2
+          fcvt.w.s a1, fa2, rup
+          li t0, 2
+          fsrm t0
+          fcvt.w.s a2, fa2
+          fneg.s fa2, fa2
+          fcvt.w.s a3, fa2, rmm
+          ebreak
+      `);
+      expect(cpu.getReg(10)).toBe(2);
+      expect(cpu.getReg(11)).toBe(3);
+      expect(cpu.getReg(12)).toBe(2);
+      expect(cpu.getReg(13) | 0).toBe(-3);
+      expect(cpu.csr.frm).toBe(ROUNDING_MODE.RDN);
+    });
+  });
+
+  describe('conversions', () => {
+    it('should saturate out-of-range conversions and raise invalid', () => {
+      cpu.fpu.writeSingle(1, 3e9);
+      cpu.fpu.writeSingle(2, -1);
+      cpu.fpu.writeSingleBits(3, CANONICAL_NAN_S);
+      cpu.writeWord(0, Encoder.encodeFloat('FCVT.W.S', 10, 1, 0));
+      cpu.writeWord(4, Encoder.encodeFloat('FCVT.WU.S', 11, 2, 0));
+      cpu.writeWord(8, Encoder.encodeFloat('FCVT.W.S', 12, 3, 0));
+      cpu.writeWord(12, Encoder.encodeFloat('FCVT.W.S', 13, 2, 0));
+      cpu.run(4);
+
+      expect(cpu.getReg(10)).toBe(0x7fffffff);
+      expect(cpu.getReg(11)).toBe(0);
+      expect(cpu.getReg(12)).toBe(0x7fffffff);
+      expect(cpu.getReg(13)).toBe(0xffffffff);
+      expect(cpu.csr.fflags).toBe(FFLAGS.NV);
+    });
+
+    it('should narrow doubles to singles with rounding', () => {
+      cpu.fpu.writeDouble(1, 0.1);
+      cpu.writeWord(0, Encoder.encodeFloat('FCVT.S.D', 2, 1, 0));
+      cpu.step();
+      expect(cpu.fpu.readSingle(2)).toBe(Math.fround(0.1));
+      expect(cpu.csr.fflags).toBe(FFLAGS.NX);
+    });
+  });
+
+  describe('NaN boxing', () => {
+    it('should box single-precision writes in the upper word', () => {
+      cpu.setReg(5, 0x3f800000);
+      cpu.writeWord(0, Encoder.encodeFloat('FMV.W.X', 1, 5, 0));
+      cpu.step();
+      expect(cpu.fpu.high[1]).toBe(0xffffffff);
+      expect(cpu.fpu.readSingle(1)).toBe(1);
+    });
+
+    it('should read an improperly boxed value as the canonical NaN', () => {
+      cpu.fpu.writeDouble(1, 1);
+      cpu.writeWord(0, Encoder.encodeFloat('FADD.S', 2, 1, 1));
+      cpu.writeWord(4, Encoder.encodeFloat('FCLASS.S', 10, 1, 0));
+      cpu.run(2);
+      expect(cpu.fpu.readSingleBits(2)).toBe(CANONICAL_NAN_S);
+      expect(cpu.getReg(10)).toBe(FCLASS.QUIET_NAN);
+      expect(cpu.csr.fflags).toBe(0);
+    });
+
+    it('should raise invalid for signaling NaN operands', () => {
+      cpu.fpu.writeSingleBits(1, 0x7f800001);
+      cpu.writeWord(0, Encoder.encodeFloat('FCLASS.S', 10, 1, 0));
+      cpu.writeWord(4, Encoder.encodeFloat('FMIN.S', 2, 1, 1));
+      cpu.run(2);
+      expect(cpu.getReg(10)).toBe(FCLASS.SIGNALING_NAN);
+      expect(cpu.fpu.readSingleBits(2)).toBe(CANONICAL_NAN_S);
+      expect(cpu.csr.fflags).toBe(FFLAGS.NV);
+    });
+  });
+
+  describe('memory', () => {
+    it('should load and store doubles as two words', () => {
+      cpu.writeWord(DATA, 0x54442d18);
+      cpu.writeWord(DATA + 4, 0x400921fb);
+      run(`
+          li a0, 0x800
+          fld fa0, 0(a0)
+          fadd.d fa1, fa0, fa0
+          fsd fa1, 8(a0)
+          flw fa2, 0(a0)
+          fsw fa2, 16(a0)
+          ebreak
+      `);
+      expect(cpu.fpu.readDouble(10)).toBe(Math.PI);
+      expect(cpu.readWord(DATA + 8)).toBe(0x54442d18);
+      expect(cpu.readWord(DATA + 12)).toBe(0x401921fb);
+      expect(cpu.readWord(DATA + 16)).toBe(0x54442d18);
+    });
+
+    it('should expand compressed floating-point loads and stores', () => {
+      expect(expandCompressed(0x6044)).toBe(Encoder.encodeI('FLW', 9, 8, 4)); // c.flw fs1, 4(s0)
+      expect(expandCompressed(0xa42a)).toBe(Encoder.encodeS('FSD', 2, 10, 8)); // c.fsdsp fa0, 8
+    });
+  });
+
+  describe('mstatus.FS', () => {
+    it('should mark the state dirty and report SD', () => {
+      expect((cpu.readCsr(CSR.MSTATUS) & MSTATUS.FS_MASK) >>> MSTATUS.FS_SHIFT).toBe(FS.INITIAL);
+      cpu.writeWord(0, Encoder.encodeFloat('FMV.W.X', 1, 0, 0));
+      cpu.step();
+
+      const mstatus = cpu.readCsr(CSR.MSTATUS);
+      expect((mstatus & MSTATUS.FS_MASK) >>> MSTATUS.FS_SHIFT).toBe(FS.DIRTY);
+      expect((mstatus & MSTATUS.SD) !== 0).toBe(true);
+    });
+
+    it('should trap floating-point instructions and CSRs while FS is off', () => {
+      cpu.writeCsr(CSR.MSTATUS, cpu.readCsr(CSR.MSTATUS) & ~MSTATUS.FS_MASK);
+      cpu.writeWord(0, Encoder.encodeFloat('FADD.S', 1, 2, 3));
+      cpu.step();
+      expect(cpu.csr.mcause).toBe(EXCEPTION_CAUSE.ILLEGAL_INSTRUCTION);
+
+      cpu.pc = 0;
+      cpu.writeWord(0, Encoder.encodeI('CSRRS', 10, 0, CSR.FCSR));
+      cpu.step();
+      expect(cpu.csr.mcause).toBe(EXCEPTION_CAUSE.ILLEGAL_INSTRUCTION);
+    });
+
+    it('should reject reserved rounding modes', () => {
+      cpu.writeWord(0, Encoder.encodeFloat('FADD.S', 1, 2, 3, 0b101));
+      cpu.step();
+      expect(cpu.csr.mcause).toBe(EXCEPTION_CAUSE.ILLEGAL_INSTRUCTION);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RiscVCpu } from '../src/emulator/cpu.js';
+import { Encoder } from '../src/assembler/encoder.js';
+import { Assembler } from '../src/assembler/assembler.js';
+
+/**
+ * Tests for the RV32M multiply/divide extension
+ */
+describe('RV32M extension', () => {
+  let cpu: RiscVCpu;
+
+  beforeEach(() => {
+    cpu = new RiscVCpu({ memorySize: 4096 });
+  });
+
+  /**
+   * Execute a single R-type M instruction: x3 = x1 <op> x2
+   */
+  function exec(mnemonic: string, a: number, b: number): number {
+    cpu.reset();
+    cpu.setReg(1, a);
+    cpu.setReg(2, b);
+    cpu.writeWord(0, Encoder.encodeR(mnemonic, 3, 1, 2));
+    cpu.step();
+    return cpu.getReg(3);
+  }
+
+  describe('MUL', () => {
+    it('should return the low 32 bits of the product', () => {
+      expect(exec('MUL', 6, 7)).toBe(42);
+      expect(exec('MUL', 0x12345678, 0x9abcdef0)).toBe(0x242d2080);
+    });
+
+    it('should multiply negative values', () => {
+      expect(exec('MUL', -3 >>> 0, 5)).toBe(-15 >>> 0);
+      expect(exec('MUL', -3 >>> 0, -5 >>> 0)).toBe(15);
+    });
+  });
+
+  describe('MULH/MULHSU/MULHU', () => {
+    it('MULHU should return the unsigned high word', () => {
+      expect(exec('MULHU', 0xffffffff, 0xffffffff)).toBe(0xfffffffe);
+      expect(exec('MULHU', 0x12345678, 0x9abcdef0)).toBe(0x0b00ea4e);
+      expect(exec('MULHU', 0x80000000, 2)).toBe(1);
+    });
+
+    it('MULH should return the signed high word', () => {
+      expect(exec('MULH', -1 >>> 0, -1 >>> 0)).toBe(0);
+      expect(exec('MULH', -1 >>> 0, 1)).toBe(0xffffffff);
+      expect(exec('MULH', 0x80000000, 0x80000000)).toBe(0x40000000);
+    });
+
+    it('MULH should match a BigInt reference', () => {
+      const pairs: Array<[number, number]> = [
+        [0x12345678, 0x9abcdef0],
+        [0x80000000, 0x7fffffff],
+        [0xdeadbeef, 0xcafebabe],
+        [7, 0xfffffff9],
+      ];
+      for (const [a, b] of pairs) {
+        const product = BigInt(a | 0) * BigInt(b | 0);
+        const expected = Number(BigInt.asUintN(32, product >> 32n));
+        expect(exec('MULH', a, b)).toBe(expected);
+      }
+    });
+
+    it('MULHSU should treat rs1 as signed and rs2 as unsigned', () => {
+      const pairs: Array<[number, number]> = [
+        [0xffffffff, 0xffffffff],
+        [0x80000000, 0x80000000],
+        [0x12345678, 0x9abcdef0],
+        [0xdeadbeef, 3],
+      ];
+      for (const [a, b] of pairs) {
+        const product = BigInt(a | 0) * BigInt(b);
+        const expected = Number(BigInt.asUintN(32, product >> 32n));
+        expect(exec('MULHSU', a, b)).toBe(expected);
+      }
+    });
+  });
+
+  describe('DIV/DIVU', () => {
+    it('should divide and truncate towards zero', () => {
+      expect(exec('DIV', 20, 6)).toBe(3);
+      expect(exec('DIV', -20 >>> 0, 6)).toBe(-3 >>> 0);
+      expect(exec('DIV', 20, -6 >>> 0)).toBe(-3 >>> 0);
+      expect(exec('DIVU', 0xfffffffe, 2)).toBe(0x7fffffff);
+    });
+
+    it('should return all ones when dividing by zero', () => {
+      expect(exec('DIV', 42, 0)).toBe(0xffffffff);
+      expect(exec('DIVU', 42, 0)).toBe(0xffffffff);
+    });
+
+    it('should return the dividend on signed overflow', () => {
+      expect(exec('DIV', 0x80000000, 0xffffffff)).toBe(0x80000000);
+    });
+  });
+
+  describe('REM/REMU', () => {
+    it('should take the sign of the dividend', () => {
+      expect(exec('REM', 20, 6)).toBe(2);
+      expect(exec('REM', -20 >>> 0, 6)).toBe(-2 >>> 0);
+      expect(exec('REM', 20, -6 >>> 0)).toBe(2);
+      expect(exec('REMU', 0xffffffff, 10)).toBe(5);
+    });
+
+    it('should return the dividend when dividing by zero', () => {
+      expect(exec('REM', -7 >>> 0, 0)).toBe(-7 >>> 0);
+      expect(exec('REMU', 7, 0)).toBe(7);
+    });
+
+    it('should return zero on signed overflow', () => {
+      expect(exec('REM', 0x80000000, 0xffffffff)).toBe(0);
+    });
+  });
+
+  it('should not disturb base ADD/SUB decoding', () => {
+    expect(exec('ADD', 5, 10)).toBe(15);
+    expect(exec('SUB', 5, 10)).toBe(-5 >>> 0);
+  });
+
+  it('should run an assembled factorial program', () => {
+    const result = new Assembler(`
+        li a0, 1
+        li t0, 10
+      loop:
+        mul a0, a0, t0
+        addi t0, t0, -1
+        bnez t0, loop
+        ecall
+    `).assemble();
+    expect(result.errors).toEqual([]);
+
+    cpu.loadProgram(result.bytes);
+    cpu.run(1000);
+
+    expect(cpu.getReg(10)).toBe(3628800);
+  });
+});
@@ -140,6 +140,19 @@ describe('Shell', () => {
     });
   });
 
+  describe('regs command', () => {
+    it('should show the registers and the instruction at pc', () => {
+      cpu.setReg(10, 0x1234);
+      cpu.writeWord(0x100, 0x00008067); // jalr zero, 0(ra)
+      cpu.pc = 0x100;
+      shell.executeCommand('regs');
+      const output = cpu.consoleOutput;
+
+      expect(output).toContain('x10=00001234');
+      expect(output).toContain('pc=00000100  ret');
+    });
+  });
+
   describe('peek command', () => {
     it('should read memory address', () => {
       // Write known value to memory
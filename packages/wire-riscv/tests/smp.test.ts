@@ -0,0 +1,194 @@
+import { describe, it, expect } from 'vitest';
+import { RiscVCpu } from '../src/emulator/cpu.js';
+import { SmpSystem, HartScheduler } from '../src/emulator/smp.js';
+import { CLINT_BASE, CLINT_REGS } from '../src/emulator/clint.js';
+import { CSR } from '../src/emulator/csr.js';
+import { Assembler } from '../src/assembler/assembler.js';
+
+function assemble(source: string): Uint8Array {
+  const result = new Assembler(source).assemble();
+  expect(result.errors).toEqual([]);
+  return result.bytes;
+}
+
+// Every hart adds 1 to a shared counter 100 times under a spinlock
+// (LR/SC acquire, plain store release), then counts itself as
+// finished. Counter at 0x800, lock at 0x804, finished harts at 0x808.
+const SPINLOCK_SOURCE = `
+    li s0, 0x800
+    addi s2, s0, 4
+    addi s3, s0, 8
+    li s1, 100
+  acquire:
+    lr.w t0, (s2)
+    bnez t0, acquire
+    li t1, 1
+    sc.w t0, t1, (s2)
+    bnez t0, acquire
+    ; critical section: non-atomic read-modify-write
+    lw t2, 0(s0)
+    addi t2, t2, 1
+    sw t2, 0(s0)
+    sw zero, 0(s2)
+    addi s1, s1, -1
+    bnez s1, acquire
+    li t1, 1
+    amoadd.w zero, t1, (s3)
+    ebreak
+`;
+
+/**
+ * Tests for multi-hart execution on a shared machine
+ */
+describe('SMP', () => {
+  describe('shared machine', () => {
+    it('should give each hart its own mhartid and registers', () => {
+      const smp = new SmpSystem({ memorySize: 4096, hartCount: 3 });
+      smp.loadProgram(assemble(`
+          csrr a0, mhartid
+          slli t0, a0, 2
+          addi t0, t0, 0x400
+          sw a0, 0(t0)
+          ebreak
+      `));
+      smp.run(1000);
+
+      expect(smp.halted).toBe(true);
+      expect(smp.harts.map((hart) => hart.getReg(10))).toEqual([0, 1, 2]);
+      expect(smp.harts.map((hart) => hart.readCsr(CSR.MHARTID))).toEqual([0, 1, 2]);
+      const memory = smp.harts[0];
+      expect([memory.readWord(0x404), memory.readWord(0x408)]).toEqual([1, 2]);
+    });
+
+    it('should share memory, bus and devices between harts', () => {
+      const boot = new RiscVCpu({ memorySize: 4096, hartCount: 2 });
+      const second = new RiscVCpu({ hartId: 1, shareWith: boot });
+      expect(second.memory).toBe(boot.memory);
+      expect(second.bus).toBe(boot.bus);
+      expect(second.clint).toBe(boot.clint);
+      expect(second.reservations).toBe(boot.reservations);
+
+      second.writeWord(0x100, 0x1234);
+      expect(boot.readWord(0x100)).toBe(0x1234);
+    });
+
+    it('should reject harts the CLINT does not serve', () => {
+      const boot = new RiscVCpu({ memorySize: 4096 });
+      expect(() => new RiscVCpu({ hartId: 1, shareWith: boot })).toThrow(/outside the CLINT/);
+    });
+  });
+
+  describe('reservations', () => {
+    it('should fail SC after another hart stores to the reserved word', () => {
+      const boot = new RiscVCpu({ memorySize: 4096, hartCount: 2 });
+      const second = new RiscVCpu({ hartId: 1, shareWith: boot });
+      boot.loadProgram(assemble(`
+          li a1, 0x400
+          lr.w a0, (a1)
+          sc.w t0, a0, (a1)
+          ebreak
+      `));
+
+      boot.run(2); // up to and including lr.w
+      second.writeWord(0x400, 99);
+      boot.run(10);
+
+      expect(boot.getReg(5)).toBe(1);
+      expect(boot.readWord(0x400)).toBe(99);
+    });
+
+    it('should keep a reservation when another hart stores elsewhere', () => {
+      const boot = new RiscVCpu({ memorySize: 4096, hartCount: 2 });
+      const second = new RiscVCpu({ hartId: 1, shareWith: boot });
+      boot.loadProgram(assemble(`
+          li a1, 0x400
+          lr.w a0, (a1)
+          sc.w t0, a1, (a1)
+          ebreak
+      `));
+      boot.run(2);
+      second.writeWord(0x404, 1);
+      boot.run(10);
+      expect(boot.getReg(5)).toBe(0);
+    });
+  });
+
+  describe('scheduling', () => {
+    for (const quantum of [1, 3, 7, 50]) {
+      it(`should keep a spinlock-protected counter exact with quantum ${quantum}`, () => {
+        const smp = new SmpSystem({ memorySize: 4096, hartCount: 4, quantum });
+        smp.loadProgram(assemble(SPINLOCK_SOURCE));
+        smp.run(1_000_000);
+
+        expect(smp.halted).toBe(true);
+        const memory = smp.harts[0];
+        expect(memory.readWord(0x800)).toBe(400);
+        expect(memory.readWord(0x808)).toBe(4);
+      });
+    }
+
+    it('should run harts in the order a custom scheduler picks', () => {
+      const order: number[] = [];
+      // Run hart 1 to completion before hart 0
+      const secondFirst: HartScheduler = (harts) => {
+        const index = harts[1].halted ? 0 : 1;
+        if (harts[index].halted) {
+          return -1;
+        }
+        order.push(index);
+        return index;
+      };
+      const smp = new SmpSystem({ memorySize: 4096, scheduler: secondFirst });
+      smp.loadProgram(assemble(`
+          li t0, 0x800
+          csrr a0, mhartid
+          addi a0, a0, 1
+          lw t1, 0(t0)
+          slli t1, t1, 4
+          or t1, t1, a0
+          sw t1, 0(t0)
+          ebreak
+      `));
+      smp.run(1000);
+
+      // Hart 1 wrote 2 first, then hart 0 appended 1
+      expect(smp.harts[0].readWord(0x800)).toBe(0x21);
+      expect(order.indexOf(0)).toBe(order.lastIndexOf(1) + 1);
+    });
+  });
+
+  describe('interrupts', () => {
+    it('should deliver a software interrupt to another hart through the CLINT', () => {
+      const smp = new SmpSystem({ memorySize: 4096, hostSyscalls: false });
+      smp.loadProgram(assemble(`
+          csrr t0, mhartid
+          bnez t0, secondary
+          ; hart 0: raise MSIP for hart 1, then stop
+          li t1, ${CLINT_BASE + CLINT_REGS.MSIP + 4}
+          li t2, 1
+          sw t2, 0(t1)
+          ebreak
+        secondary:
+          la t1, handler
+          csrw mtvec, t1
+          li t1, 8
+          csrw mie, t1
+          csrsi mstatus, 8
+        idle:
+          wfi
+          j idle
+        handler:
+          csrr s0, mcause
+          li t1, ${CLINT_BASE + CLINT_REGS.MSIP + 4}
+          sw zero, 0(t1)
+          csrw mtvec, zero
+          ebreak
+      `));
+      smp.run(1000);
+
+      expect(smp.halted).toBe(true);
+      expect(smp.harts[1].getReg(8)).toBe(0x80000003);
+      expect(smp.harts[0].getReg(8)).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RiscVCpu } from '../src/emulator/cpu.js';
+import { InteractiveSystem } from '../src/emulator/boot-disk.js';
+import { WireFS } from '../src/emulator/filesystem.js';
+import { DisplayMode, GRAPHICS_BASE, GRAPHICS_REGS } from '../src/emulator/graphics.js';
+import { KeyModifier } from '../src/emulator/keyboard.js';
+import { STORAGE_REGS } from '../src/emulator/storage-controller.js';
+import { SmpSystem } from '../src/emulator/smp.js';
+import { Assembler } from '../src/assembler/assembler.js';
+import {
+  SNAPSHOT_VERSION,
+  saveSnapshot,
+  restoreSnapshot,
+  serializeSnapshot,
+  deserializeSnapshot,
+} from '../src/emulator/snapshot.js';
+
+/** Open TEST.TXT, then read it one byte per loop iteration into a buffer */
+const READER_SOURCE = `
+    la a0, name
+    li a1, 0
+    li a7, 7
+    ecall
+    mv s0, a0
+    li s1, 0x800
+  loop:
+    mv a0, s0
+    mv a1, s1
+    li a2, 1
+    li a7, 8
+    ecall
+    beqz a0, done
+    addi s1, s1, 1
+    j loop
+  done:
+    li a0, 0
+    li a7, 0
+    ecall
+  name:
+    .string "TEST.TXT"
+`;
+
+/**
+ * Tests for machine snapshots
+ */
+describe('Machine snapshots', () => {
+  let cpu: RiscVCpu;
+
+  beforeEach(() => {
+    cpu = new RiscVCpu({ memorySize: 4096, hostSyscalls: true });
+  });
+
+  /** Round-trip a snapshot through JSON into a fresh machine */
+  function clone(source: RiscVCpu, system: InteractiveSystem | null = null): RiscVCpu {
+    const json = serializeSnapshot(saveSnapshot(source, system));
+    const copy = new RiscVCpu({ memorySize: source.memory.length, hostSyscalls: true });
+    restoreSnapshot(deserializeSnapshot(json), copy);
+    return copy;
+  }
+
+  it('should resume a program with open files where it stopped', () => {
+    const fs = new WireFS(new Uint8Array(32 * 1024));
+    fs.format();
+    fs.createFile('TEST.TXT');
+    fs.writeFile('TEST.TXT', new TextEncoder().encode('Hello'));
+    cpu.filesystem = fs;
+    const result = new Assembler(READER_SOURCE).assemble();
+    expect(result.errors).toEqual([]);
+    cpu.loadProgram(result.bytes);
+
+    cpu.run(20);
+    const copy = clone(cpu);
+    expect(copy.pc).toBe(cpu.pc);
+    expect(copy.cycles).toBe(cpu.cycles);
+
+    cpu.run(1000);
+    copy.run(1000);
+    expect(copy.halted).toBe(true);
+    expect(Array.from(copy.x)).toEqual(Array.from(cpu.x));
+    expect(copy.memory).toEqual(cpu.memory);
+    expect(String.fromCharCode(...copy.memory.subarray(0x800, 0x805))).toBe('Hello');
+    expect(copy.filesystem!.readFile('TEST.TXT')).toEqual(new TextEncoder().encode('Hello'));
+  });
+
+  it('should save CSRs, FP registers and the privilege level', () => {
+    cpu.csr.mtvec = 0x100;
+    cpu.csr.satp = 0x80000001;
+    cpu.csr.frm = 2;
+    cpu.fpu.writeDouble(3, 2.5);
+    cpu.privilege = 1;
+
+    const copy = clone(cpu);
+    expect(copy.csr.mtvec).toBe(0x100);
+    expect(copy.csr.satp).toBe(0x80000001);
+    expect(copy.csr.frm).toBe(2);
+    expect(copy.fpu.readDouble(3)).toBe(2.5);
+    expect(copy.privilege).toBe(1);
+  });
+
+  it('should save the graphics card, keyboard and interrupt controllers', () => {
+    cpu.gpu.writeRegister(GRAPHICS_REGS.MODE, DisplayMode.GRAPHICS);
+    cpu.gpu.setPixel(10, 20, 5);
+    cpu.gpu.setPaletteEntry(5, 1, 2, 3);
+    cpu.gpu.writeTextVram(3, 4, 0x41, 0x1f);
+    cpu.writeWord(GRAPHICS_BASE + GRAPHICS_REGS.CURSOR_X, 7);
+    cpu.keyboard.keyPress(0x61);
+    cpu.keyboard.keyPress(0x62);
+    cpu.keyboard.setModifier(KeyModifier.SHIFT, true);
+    cpu.clint.mtime = 1234;
+    cpu.clint.setMtimecmp(5000);
+    cpu.plic.writeRegister(0x4, 3);
+
+    const copy = clone(cpu);
+    expect(copy.gpu.getMode()).toBe(DisplayMode.GRAPHICS);
+    expect(copy.gpu.getPixel(10, 20)).toBe(5);
+    expect(copy.gpu.getPaletteEntry(5)).toEqual({ r: 1, g: 2, b: 3 });
+    expect(copy.gpu.readTextVram(3, 4)).toEqual({ char: 0x41, attr: 0x1f });
+    expect(copy.gpu.getCursorPosition().x).toBe(7);
+    expect(copy.gpu.isDirty()).toBe(true);
+    expect(copy.keyboard.readKey()).toBe(0x61);
+    expect(copy.keyboard.readKey()).toBe(0x62);
+    expect(copy.keyboard.getModifiers()).toBe(KeyModifier.SHIFT);
+    expect(copy.clint.mtime).toBe(1234);
+    expect(copy.clint.getMtimecmp()).toBe(5000);
+    expect(copy.plic.readRegister(0x4)).toBe(3);
+  });
+
+  it('should save the storage controller and the media in every drive', () => {
+    const storage = cpu.getStorageController();
+    storage.getHdd().write(3, new Uint8Array([1, 2, 3]));
+    storage.getCdrom().insertDisc(new Uint8Array(2048).fill(0xcd));
+    storage.getUsb().insertWithImage(new Uint8Array([9, 8, 7]));
+    storage.getDMABuffer()[0] = 0x5a;
+    storage.writeRegister(STORAGE_REGS.SECTOR_LO, 42);
+
+    const copy = clone(cpu).getStorageController();
+    expect(Array.from(copy.getHdd().read(3, 1).subarray(0, 4))).toEqual([1, 2, 3, 0]);
+    expect(copy.getCdrom().read(0, 1)[100]).toBe(0xcd);
+    expect(copy.getUsb().isPresent()).toBe(true);
+    expect(Array.from(copy.getUsb().read(0, 1).subarray(0, 3))).toEqual([9, 8, 7]);
+    expect(copy.getDMABuffer()[0]).toBe(0x5a);
+    expect(copy.readRegister(STORAGE_REGS.SECTOR_LO)).toBe(42);
+  });
+
+  it('should restore the shell of an interactive system', () => {
+    const system = new InteractiveSystem(cpu);
+    system.boot();
+    for (const char of 'echo hi') {
+      system.keyPress(char.charCodeAt(0));
+    }
+
+    const snapshot = deserializeSnapshot(serializeSnapshot(saveSnapshot(cpu, system)));
+    const copy = new RiscVCpu({ memorySize: 4096, hostSyscalls: true });
+    const restored = new InteractiveSystem(copy);
+    restoreSnapshot(snapshot, copy, restored);
+
+    expect(restored.isRunning()).toBe(true);
+    expect(restored.getFilesystem()!.fileExists('SHELL', 'BIN')).toBe(true);
+    restored.keyPress(0x0d);
+    expect(copy.consoleOutput.endsWith('echo hi\nhi\n> ')).toBe(true);
+  });
+
+  it('should save RAM regions beside main memory', () => {
+    const config = { memorySize: 4096, ramRegions: [{ name: 'sram', base: 0x80000000, size: 0x1000 }] };
+    const machine = new RiscVCpu(config);
+    machine.bus.write(0x80000010, 0x5555, 4);
+
+    const snapshot = deserializeSnapshot(serializeSnapshot(saveSnapshot(machine)));
+    const copy = new RiscVCpu(config);
+    restoreSnapshot(snapshot, copy);
+    expect(copy.bus.read(0x80000010, 4)).toBe(0x5555);
+
+    expect(() => restoreSnapshot(snapshot, new RiscVCpu({ memorySize: 4096 }))).toThrow('RAM regions [sram at 0x80000000]');
+    const moved = new RiscVCpu({ memorySize: 4096, ramRegions: [{ name: 'sram', base: 0x90000000, size: 0x1000 }] });
+    expect(() => restoreSnapshot(snapshot, moved)).toThrow('no RAM region sram at 0x80000000');
+  });
+
+  it('should check every size before changing the machine', () => {
+    const snapshot = saveSnapshot(cpu);
+    const copy = new RiscVCpu({ memorySize: 4096 });
+    copy.memory[0] = 0x77;
+
+    const hdd = { ...snapshot, storage: { ...snapshot.storage, hdd: new Uint8Array(512) } };
+    expect(() => restoreSnapshot(hdd, copy)).toThrow('512 bytes of hard disk');
+    const usbSize = copy.getStorageController().getUsb().getTotalBytes();
+    const usb = {
+      ...snapshot,
+      storage: { ...snapshot.storage, usb: { ...snapshot.storage.usb, image: new Uint8Array(usbSize + 1) } },
+    };
+    expect(() => restoreSnapshot(usb, copy)).toThrow(`${usbSize + 1} bytes of USB drive`);
+    expect(copy.memory[0]).toBe(0x77);
+  });
+
+  it('should refuse machines with more than one hart', () => {
+    const smp = new SmpSystem({ memorySize: 4096 });
+    expect(() => saveSnapshot(smp.harts[0])).toThrow('Cannot snapshot a machine with 2 harts');
+    expect(() => restoreSnapshot(saveSnapshot(cpu), smp.harts[1])).toThrow('Cannot snapshot a machine with 2 harts');
+  });
+
+  it('should reject other formats, versions and RAM sizes', () => {
+    const snapshot = saveSnapshot(cpu);
+    expect(() => deserializeSnapshot('{')).toThrow('Invalid snapshot: not JSON');
+    expect(() => deserializeSnapshot('{"format":"other"}')).toThrow('not a machine snapshot');
+
+    const json = serializeSnapshot({ ...snapshot, version: SNAPSHOT_VERSION + 1 });
+    expect(() => deserializeSnapshot(json)).toThrow(`version ${SNAPSHOT_VERSION + 1} is not supported`);
+
+    expect(() => restoreSnapshot(snapshot, new RiscVCpu({ memorySize: 8192 }))).toThrow('4096 bytes of RAM');
+  });
+});
@@ -13,7 +13,7 @@ describe('Syscall Handler', () => {
   let cpu: RiscVCpu;
 
   beforeEach(() => {
-    cpu = new RiscVCpu({ memorySize: 0x10000 });
+    cpu = new RiscVCpu({ memorySize: 0x10000, hostSyscalls: true });
   });
 
   describe('syscall dispatcher', () => {
@@ -212,6 +212,22 @@ describe('Syscall Handler', () => {
 
       expect(cpu.getReg(10)).toBe(3);
     });
+
+    it('should return -1 for an unmapped pointer', () => {
+      // lui a0, 0x40000  ; a0 = 0x40000000, outside RAM
+      // addi a7, x0, 3   ; syscall = puts
+      // ecall
+      const code = [
+        0x40000537, // lui a0, 0x40000
+        0x00300893, // addi a7, x0, 3
+        0x00000073, // ecall
+      ];
+      loadAndRun(cpu, code, 3);
+
+      expect(cpu.getReg(10)).toBe(0xFFFFFFFF);
+      expect(cpu.halted).toBe(false);
+      expect(cpu.pc).toBe(12);
+    });
   });
 
   describe('syscall 4: read_sector', () => {
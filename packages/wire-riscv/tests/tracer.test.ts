@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RiscVCpu } from '../src/emulator/cpu.js';
+import { CommitTracer } from '../src/emulator/tracer.js';
+import { Assembler } from '../src/assembler/assembler.js';
+
+/**
+ * Tests for the Spike-compatible commit log tracer
+ */
+describe('CommitTracer', () => {
+  let cpu: RiscVCpu;
+
+  beforeEach(() => {
+    cpu = new RiscVCpu({ memorySize: 4096 });
+  });
+
+  function load(source: string): void {
+    const result = new Assembler(source).assemble();
+    expect(result.errors).toEqual([]);
+    cpu.loadProgram(result.bytes);
+  }
+
+  /** Run a program under a tracer and return its lines */
+  function trace(source: string, tracer = new CommitTracer({ disassemble: false })): string[] {
+    load(source);
+    cpu.tracer = tracer;
+    cpu.run(1000);
+    return tracer.getLines();
+  }
+
+  describe('commit lines', () => {
+    it('should log register writebacks with the disassembly first', () => {
+      const lines = trace('li a0, 1\nadd a2, a0, a0\nebreak', new CommitTracer());
+      expect(lines.slice(0, 4)).toEqual([
+        'core   0: 0x00000000 (0x00100513) addi    a0, zero, 1',
+        'core   0: 3 0x00000000 (0x00100513) x10 0x00000001',
+        'core   0: 0x00000004 (0x00a50633) add     a2, a0, a0',
+        'core   0: 3 0x00000004 (0x00a50633) x12 0x00000002',
+      ]);
+    });
+
+    it('should log load addresses and store values at their width', () => {
+      const lines = trace(`
+        li t0, 0x800
+        li a0, 0x1234
+        sw a0, 0(t0)
+        sh a0, 4(t0)
+        sb a0, 6(t0)
+        lw a1, 0(t0)
+        ebreak
+      `);
+      expect(lines.slice(4)).toEqual([
+        'core   0: 3 0x00000010 (0x00a2a023) mem 0x00000800 0x00001234',
+        'core   0: 3 0x00000014 (0x00a29223) mem 0x00000804 0x1234',
+        'core   0: 3 0x00000018 (0x00a28323) mem 0x00000806 0x34',
+        'core   0: 3 0x0000001c (0x0002a583) x11 0x00001234 mem 0x00000800',
+      ]);
+    });
+
+    it('should log an AMO as a load followed by a store', () => {
+      const lines = trace(`
+        li t0, 0x800
+        li a1, 5
+        sw a1, 0(t0)
+        amoadd.w a2, a1, (t0)
+        amoadd.w zero, a1, (t0)
+        ebreak
+      `);
+      expect(lines[4]).toBe('core   0: 3 0x00000010 (0x00b2a62f) x12 0x00000005 mem 0x00000800 mem 0x00000800 0x0000000a');
+      expect(lines[5]).toBe('core   0: 3 0x00000014 (0x00b2a02f) mem 0x00000800 mem 0x00000800 0x0000000f');
+    });
+
+    it('should log only successful store-conditionals', () => {
+      const lines = trace(`
+        li t0, 0x800
+        lr.w a0, (t0)
+        sc.w a1, a0, (t0)
+        sc.w a2, a0, (t0)
+        ebreak
+      `);
+      expect(lines.slice(2)).toEqual([
+        'core   0: 3 0x00000008 (0x1002a52f) x10 0x00000000 mem 0x00000800',
+        'core   0: 3 0x0000000c (0x18a2a5af) x11 0x00000000 mem 0x00000800 0x00000000',
+        'core   0: 3 0x00000010 (0x18a2a62f) x12 0x00000001',
+      ]);
+    });
+
+    it('should log CSR and FP writebacks', () => {
+      const lines = trace(`
+        li t0, 0x2000
+        csrs mstatus, t0
+        csrr t1, mstatus
+        li a0, 6
+        fcvt.s.w ft1, a0
+        ebreak
+      `);
+      expect(lines[2]).toBe('core   0: 3 0x00000008 (0x3002a073) c768_mstatus 0x00002000');
+      expect(lines[3]).toBe('core   0: 3 0x0000000c (0x30002373) x6  0x00002000');
+      expect(lines[5]).toBe('core   0: 3 0x00000014 (0xd00570d3) f1  0xffffffff40c00000');
+    });
+
+    it('should show compressed instructions as fetched', () => {
+      load('.half 0x0515\nebreak');
+      cpu.tracer = new CommitTracer();
+      cpu.step();
+      expect(cpu.tracer.getLines()).toEqual([
+        'core   0: 0x00000000 (0x0515) addi    a0, a0, 5',
+        'core   0: 3 0x00000000 (0x0515) x10 0x00000005',
+      ]);
+    });
+
+    it('should log the privilege level and skip trapping instructions', () => {
+      const lines = trace(`
+        la t0, user
+        csrw mepc, t0
+        mret
+      user:
+        li a0, 1
+        ebreak
+      `);
+      expect(lines.at(-1)).toBe('core   0: 0 0x00000010 (0x00100513) x10 0x00000001');
+      expect(lines.some((line) => line.includes('(0x00100073)'))).toBe(false);
+    });
+  });
+
+  describe('filters', () => {
+    const LOOP = `
+        li a0, 0
+      loop:
+        addi a0, a0, 1
+        j loop
+    `;
+
+    it('should trace only the given pc ranges', () => {
+      const tracer = new CommitTracer({ disassemble: false, pcRanges: [{ start: 4, end: 8 }] });
+      load(LOOP);
+      cpu.tracer = tracer;
+      cpu.run(7);
+      expect(tracer.getLines()).toHaveLength(3);
+      expect(tracer.getLines().every((line) => line.includes('0x00000004 (0x00150513)'))).toBe(true);
+    });
+
+    it('should trace only the given cycle window', () => {
+      const tracer = new CommitTracer({ disassemble: false, startCycle: 2, endCycle: 4 });
+      load(LOOP);
+      cpu.tracer = tracer;
+      cpu.run(10);
+      expect(tracer.getLines().map((line) => line.slice(12, 22))).toEqual(['0x00000008', '0x00000004']);
+    });
+
+    it('should keep only the last instructions in ring mode', () => {
+      const tracer = new CommitTracer({ ringSize: 2 });
+      load(LOOP);
+      cpu.tracer = tracer;
+      cpu.run(9);
+      expect(tracer.getLines()).toHaveLength(4);
+      expect(tracer.getLines()[3]).toBe('core   0: 3 0x00000008 (0xffdff06f)');
+
+      tracer.clear();
+      expect(tracer.getLines()).toEqual([]);
+    });
+
+    it('should stream lines to the output callback without buffering', () => {
+      const streamed: string[] = [];
+      const tracer = new CommitTracer({ disassemble: false, output: (line) => streamed.push(line) });
+      load(LOOP);
+      cpu.tracer = tracer;
+      cpu.run(5);
+      expect(streamed).toHaveLength(5);
+      expect(tracer.getLines()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RiscVCpu } from '../src/emulator/cpu.js';
+import { MSTATUS } from '../src/emulator/csr.js';
+import { EXCEPTION_CAUSE } from '../src/emulator/trap.js';
+import { Assembler } from '../src/assembler/assembler.js';
+
+/**
+ * Tests for synchronous exceptions, trap entry and MRET
+ */
+describe('Trap handling', () => {
+  let cpu: RiscVCpu;
+
+  beforeEach(() => {
+    cpu = new RiscVCpu({ memorySize: 4096, hostSyscalls: false });
+  });
+
+  function load(source: string): void {
+    const result = new Assembler(source).assemble();
+    expect(result.errors).toEqual([]);
+    cpu.loadProgram(result.bytes);
+  }
+
+  /**
+   * Handler that records mcause/mepc/mtval in s0-s2 and skips the
+   * faulting instruction
+   */
+  const HANDLER = `
+    handler:
+      csrr s0, mcause
+      csrr s1, mepc
+      csrr s2, mtval
+      addi t6, s1, 4
+      csrw mepc, t6
+      mret
+  `;
+
+  describe('without a handler', () => {
+    it('should record the cause and halt on an illegal instruction', () => {
+      cpu.writeWord(0, 0xffffffff);
+      expect(cpu.step()).toBe(false);
+
+      expect(cpu.halted).toBe(true);
+      expect(cpu.pc).toBe(0);
+      expect(cpu.csr.mcause).toBe(EXCEPTION_CAUSE.ILLEGAL_INSTRUCTION);
+      expect(cpu.csr.mepc).toBe(0);
+      expect(cpu.csr.mtval).toBe(0xffffffff);
+    });
+
+    it('should halt on EBREAK', () => {
+      load('nop\nebreak');
+      cpu.run(10);
+
+      expect(cpu.halted).toBe(true);
+      expect(cpu.pc).toBe(4);
+      expect(cpu.csr.mcause).toBe(EXCEPTION_CAUSE.BREAKPOINT);
+    });
+  });
+
+  describe('with a handler in mtvec', () => {
+    it('should vector ECALL to the handler and return with MRET', () => {
+      load(`
+          la t0, handler
+          csrw mtvec, t0
+          li a0, 7
+          ecall
+          addi a0, a0, 1
+          csrw mtvec, zero
+          ebreak
+        ${HANDLER}
+      `);
+      cpu.run(100);
+
+      expect(cpu.getReg(8)).toBe(EXCEPTION_CAUSE.ECALL_FROM_M);
+      expect(cpu.getReg(9)).toBe(16);
+      expect(cpu.getReg(10)).toBe(8);
+      expect(cpu.csr.mcause).toBe(EXCEPTION_CAUSE.BREAKPOINT);
+    });
+
+    it('should report the faulting encoding for illegal instructions', () => {
+      load(`
+          la t0, handler
+          csrw mtvec, t0
+          .word 0x0000007f
+          li a0, 1
+          csrw mtvec, zero
+          ebreak
+        ${HANDLER}
+      `);
+      cpu.run(100);
+
+      expect(cpu.getReg(8)).toBe(EXCEPTION_CAUSE.ILLEGAL_INSTRUCTION);
+      expect(cpu.getReg(9)).toBe(12);
+      expect(cpu.getReg(18)).toBe(0x7f);
+      expect(cpu.getReg(10)).toBe(1);
+      expect(cpu.halted).toBe(true);
+    });
+
+    it('should save and restore the interrupt enable across a trap', () => {
+      load(`
+          la t0, handler
+          csrw mtvec, t0
+          csrsi mstatus, 8
+          ecall
+          csrr a1, mstatus
+          csrw mtvec, zero
+          ebreak
+        handler:
+          csrr a0, mstatus
+          csrr t6, mepc
+          addi t6, t6, 4
+          csrw mepc, t6
+          mret
+      `);
+      cpu.run(100);
+
+      // Inside the handler MIE is clear and MPIE holds the old MIE
+      expect(cpu.getReg(10) & MSTATUS.MIE).toBe(0);
+      expect(cpu.getReg(10) & MSTATUS.MPIE).toBe(MSTATUS.MPIE);
+      // MRET restores MIE
+      expect(cpu.getReg(11) & MSTATUS.MIE).toBe(MSTATUS.MIE);
+    });
+
+    it('should raise a load access fault outside RAM', () => {
+      load(`
+          la t0, handler
+          csrw mtvec, t0
+          lui t1, 0x40000
+          lw a0, 0(t1)
+          csrw mtvec, zero
+          ebreak
+        ${HANDLER}
+      `);
+      cpu.run(100);
+
+      expect(cpu.getReg(8)).toBe(EXCEPTION_CAUSE.LOAD_ACCESS_FAULT);
+      expect(cpu.getReg(18)).toBe(0x40000000);
+    });
+
+    it('should raise a store access fault outside RAM', () => {
+      load(`
+          la t0, handler
+          csrw mtvec, t0
+          lui t1, 0x40000
+          sw zero, 4(t1)
+          csrw mtvec, zero
+          ebreak
+        ${HANDLER}
+      `);
+      cpu.run(100);
+
+      expect(cpu.getReg(8)).toBe(EXCEPTION_CAUSE.STORE_ACCESS_FAULT);
+      expect(cpu.getReg(18)).toBe(0x40000004);
+    });
+
+    it('should not write rd on a misaligned jump', () => {
+      // Without RV32C jump targets must be 4-byte aligned
+      cpu = new RiscVCpu({ memorySize: 4096, hostSyscalls: false, compressed: false });
+      load(`
+          la t0, handler
+          csrw mtvec, t0
+          li t1, 0x102
+          li ra, 99
+          jalr ra, 0(t1)
+          csrw mtvec, zero
+          ebreak
+        ${HANDLER}
+      `);
+      cpu.run(100);
+
+      expect(cpu.getReg(8)).toBe(EXCEPTION_CAUSE.INSTRUCTION_ADDRESS_MISALIGNED);
+      expect(cpu.getReg(18)).toBe(0x102);
+      expect(cpu.getReg(1)).toBe(99);
+    });
+  });
+
+  describe('host syscalls', () => {
+    it('should service ECALL in TypeScript by default', () => {
+      const host = new RiscVCpu({ memorySize: 4096, hostSyscalls: true });
+      const result = new Assembler('li a0, 3\nli a7, 0\necall').assemble();
+      host.loadProgram(result.bytes);
+      host.run(10);
+
+      expect(host.halted).toBe(true);
+      expect(host.exitCode).toBe(3);
+      expect(host.csr.mcause).toBe(0);
+    });
+
+    it('should trap ECALL when host syscalls are disabled', () => {
+      load('li a7, 0\necall');
+      cpu.run(10);
+
+      expect(cpu.halted).toBe(true);
+      expect(cpu.csr.mcause).toBe(EXCEPTION_CAUSE.ECALL_FROM_M);
+      expect(cpu.csr.mepc).toBe(4);
+    });
+  });
+});